@@ -0,0 +1,117 @@
+// Mocks vor dem Import erstellen
+jest.mock("../../utils/results/run-baselines", () => {
+  const actual = jest.requireActual("../../utils/results/run-baselines");
+  const mockBaseline = {
+    name: "main-latest",
+    runId: "run-1",
+    pinned: false,
+    rule: { branch: "main" },
+    updatedAt: 1000,
+  };
+
+  const list = jest.fn(() => [mockBaseline]);
+  const get = jest.fn((name) => (name === "main-latest" ? mockBaseline : null));
+  const save = jest.fn((name, input) =>
+    input.runId === "fehlt" ? null : { ...mockBaseline, ...input, name },
+  );
+  const remove = jest.fn((name) => name === "main-latest");
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => {
+      return { list, get, save, remove };
+    }),
+  };
+});
+
+// Erst nach den Mocks importieren
+import request from "supertest";
+import express from "express";
+import baselinesRouter from "../../routes/baselines";
+
+/**
+ * Tests für die Baseline-API-Routen
+ */
+describe("Baselines API Routes", () => {
+  let app: express.Application;
+  let mockBaselines: any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/baselines", baselinesRouter);
+
+    const RunBaselines = require("../../utils/results/run-baselines").default;
+    mockBaselines = new RunBaselines();
+
+    jest.clearAllMocks();
+  });
+
+  describe("GET /api/baselines", () => {
+    it("sollte alle Baselines zurückgeben", async () => {
+      const response = await request(app).get("/api/baselines");
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.baselines[0].name).toBe("main-latest");
+    });
+  });
+
+  describe("GET /api/baselines/:name", () => {
+    it("sollte eine Baseline zurückgeben oder 404 melden", async () => {
+      const found = await request(app).get("/api/baselines/main-latest");
+      const missing = await request(app).get("/api/baselines/release-2.3");
+
+      expect(found.status).toBe(200);
+      expect(found.body.baseline.runId).toBe("run-1");
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe("PUT /api/baselines/:name", () => {
+    it("sollte eine angeheftete Baseline speichern", async () => {
+      const response = await request(app)
+        .put("/api/baselines/release-2.3")
+        .send({ runId: "run-2", pinned: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.baseline).toMatchObject({
+        name: "release-2.3",
+        runId: "run-2",
+        pinned: true,
+      });
+      expect(mockBaselines.save).toHaveBeenCalledWith("release-2.3", {
+        runId: "run-2",
+        pinned: true,
+      });
+    });
+
+    it("sollte ungültige Baselines und unbekannte Läufe ablehnen", async () => {
+      const invalid = await request(app)
+        .put("/api/baselines/release-2.3")
+        .send({ pinned: true });
+      const missing = await request(app)
+        .put("/api/baselines/release-2.3")
+        .send({ runId: "fehlt" });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.issues).toEqual([
+        "Eine Baseline braucht eine runId oder eine Regel",
+        "Eine angeheftete Baseline braucht eine runId",
+      ]);
+      expect(missing.status).toBe(404);
+      expect(mockBaselines.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("DELETE /api/baselines/:name", () => {
+    it("sollte eine Baseline löschen oder 404 melden", async () => {
+      const deleted = await request(app).delete("/api/baselines/main-latest");
+      const missing = await request(app).delete("/api/baselines/unbekannt");
+
+      expect(deleted.status).toBe(200);
+      expect(missing.status).toBe(404);
+    });
+  });
+});
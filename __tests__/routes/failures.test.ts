@@ -0,0 +1,175 @@
+// Mocks vor dem Import erstellen
+jest.mock("../../utils/metrics/failure-clustering", () => {
+  const mockReport = {
+    clusters: [
+      {
+        signature: "a1b2c3d4e5f6",
+        message: "TimeoutError: locator.click: Timeout <n>ms exceeded.",
+        sampleMessage: "TimeoutError: locator.click: Timeout 30000ms exceeded.",
+        occurrences: 3,
+        runCount: 2,
+        firstSeen: 1000,
+        lastSeen: 2000,
+        affectedTests: [
+          {
+            testId: "login.spec.ts",
+            occurrences: 3,
+            firstSeen: 1000,
+            lastSeen: 2000,
+            lastRunId: "run2",
+          },
+        ],
+      },
+    ],
+    totalFailures: 3,
+    runsAnalyzed: 2,
+    timePeriod: { start: 0, end: 2000 },
+  };
+
+  const getClusters = jest.fn((query) =>
+    query.runId === "fehlt" ? null : mockReport,
+  );
+
+  return jest.fn().mockImplementation(() => {
+    return { getClusters };
+  });
+});
+
+jest.mock("../../utils/metrics/culprit-detection", () => {
+  const actual = jest.requireActual("../../utils/metrics/culprit-detection");
+  const analyzeRun = jest.fn((runId) =>
+    runId === "fehlt"
+      ? null
+      : {
+          runId,
+          commit: "bbbbbbb4",
+          failures: [
+            {
+              testId: "login.spec.ts",
+              caseId: "login.spec.ts › meldet an",
+              lastGood: { runId: "run3", timestamp: 3000, commit: "aaaaaaa3" },
+              firstBad: { runId, timestamp: 4000, commit: "bbbbbbb4" },
+              passingRuns: 3,
+              commits: [],
+            },
+          ],
+        },
+  );
+
+  return {
+    ...actual,
+    __esModule: true,
+    loadAnalyzedTests: jest.fn(() => []),
+    default: jest.fn().mockImplementation(() => {
+      return { analyzeRun };
+    }),
+  };
+});
+
+// Erst nach den Mocks importieren
+import request from "supertest";
+import express from "express";
+import failuresRouter from "../../routes/failures";
+
+/**
+ * Tests für die Testfehler-API-Routen
+ */
+describe("Failures API Routes", () => {
+  let app: express.Application;
+  let mockAnalyzer: any;
+  let mockDetector: any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/failures", failuresRouter);
+
+    const FailureClusterAnalyzer = require("../../utils/metrics/failure-clustering");
+    mockAnalyzer = new FailureClusterAnalyzer();
+    const CulpritDetector =
+      require("../../utils/metrics/culprit-detection").default;
+    mockDetector = new CulpritDetector();
+
+    jest.clearAllMocks();
+  });
+
+  describe("GET /api/failures/clusters", () => {
+    it("sollte Fehlercluster mit Standardzeitraum zurückgeben", async () => {
+      const response = await request(app).get("/api/failures/clusters");
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.clusters).toHaveLength(1);
+      expect(response.body.clusters[0].affectedTests[0].testId).toBe(
+        "login.spec.ts",
+      );
+      expect(mockAnalyzer.getClusters).toHaveBeenCalledWith({
+        days: 30,
+        limit: undefined,
+        project: undefined,
+        runId: undefined,
+      });
+    });
+
+    it("sollte Filter an den Analyzer weitergeben", async () => {
+      const response = await request(app).get(
+        "/api/failures/clusters?days=7&project=webkit&runId=run2&limit=5",
+      );
+
+      expect(response.status).toBe(200);
+      expect(mockAnalyzer.getClusters).toHaveBeenCalledWith({
+        days: 7,
+        limit: 5,
+        project: "webkit",
+        runId: "run2",
+      });
+    });
+
+    it("sollte 404 für unbekannte Läufe zurückgeben", async () => {
+      const response = await request(app).get(
+        "/api/failures/clusters?runId=fehlt",
+      );
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+
+    it("sollte Fehler beim Clustering als 500 melden", async () => {
+      mockAnalyzer.getClusters.mockImplementationOnce(() => {
+        throw new Error("Speicher nicht lesbar");
+      });
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      const response = await request(app).get("/api/failures/clusters");
+
+      expect(response.status).toBe(500);
+      expect(response.body.error).toContain("Speicher nicht lesbar");
+
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe("GET /api/failures/culprits/:runId", () => {
+    it("sollte neue Fehlschläge mit letztem erfolgreichen Lauf zurückgeben", async () => {
+      const response = await request(app).get(
+        "/api/failures/culprits/run4?minPassingRuns=5",
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.failures[0].lastGood.runId).toBe("run3");
+      expect(mockDetector.analyzeRun).toHaveBeenCalledWith(
+        "run4",
+        expect.objectContaining({ tests: [], minPassingRuns: 5 }),
+      );
+    });
+
+    it("sollte 404 für unbekannte Läufe zurückgeben", async () => {
+      const response = await request(app).get("/api/failures/culprits/fehlt");
+
+      expect(response.status).toBe(404);
+      expect(response.body.success).toBe(false);
+    });
+  });
+});
@@ -28,6 +28,49 @@ jest.mock("../../utils/metrics/success-rate-tracker", () => {
   });
 });
 
+jest.mock("../../utils/metrics/test-quarantine", () => {
+  const recordRun = jest.fn().mockReturnValue([]);
+  const createMatcher = jest.fn(() => () => false);
+
+  return jest.fn().mockImplementation(() => {
+    return { recordRun, createMatcher };
+  });
+});
+
+jest.mock("../../utils/metrics/quality-gate", () => {
+  const actual = jest.requireActual("../../utils/metrics/quality-gate");
+  const evaluate = jest.fn((runId) =>
+    runId === "fehlt"
+      ? null
+      : {
+          passed: false,
+          runId,
+          baselineRunId: "run1",
+          checks: [],
+          reasons: ["Erfolgsrate 50% (Minimum 90%)"],
+        },
+  );
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => {
+      return { evaluate };
+    }),
+  };
+});
+
+// Results-Store nur im Speicher, damit Läufe ohne Dateizugriffe geprüft werden können
+jest.mock("../../utils/storage/results-store", () => {
+  const actual = jest.requireActual("../../utils/storage/results-store");
+  const store = new actual.ResultsStore();
+
+  return {
+    ...actual,
+    getResultsStore: jest.fn(() => store),
+  };
+});
+
 jest.mock("fs");
 jest.mock("path");
 
@@ -37,6 +80,10 @@ import express from "express";
 import playwrightResultsRouter from "../../routes/playwright-results";
 import fs from "fs";
 import path from "path";
+import {
+  getResultsStore,
+  ResultsStore,
+} from "../../utils/storage/results-store";
 
 // Gemeinsame Mock-Daten für Tests
 const mockFlakinessReport = {
@@ -47,6 +94,7 @@ const mockFlakinessReport = {
 
 describe("Playwright Results Routes", () => {
   let app: express.Application;
+  let store: ResultsStore;
 
   let mockUpdateWithNewTestResult: jest.Mock;
 
@@ -62,6 +110,10 @@ describe("Playwright Results Routes", () => {
     // Mock mit den richtigen Rückgabewerten konfigurieren
     mockUpdateWithNewTestResult.mockReturnValue(mockFlakinessReport);
 
+    // Gespeicherte Läufe aus vorherigen Tests entfernen
+    store = getResultsStore();
+    store.listRuns().forEach((run) => store.deleteRun(run.runId));
+
     // Express-App für Tests erstellen
     app = express();
     app.use(express.json());
@@ -69,15 +121,13 @@ describe("Playwright Results Routes", () => {
 
     // Allgemeine Mocks für fs und path
     (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readdirSync as jest.Mock).mockReturnValue([]);
     (path.join as jest.Mock).mockImplementation((...args) => args.join("/"));
     (path.resolve as jest.Mock).mockImplementation((...args) => args.join("/"));
   });
 
   describe("POST /api/playwright-results", () => {
     it("sollte Testergebnisse speichern und den FlakinessAnalyzer aktualisieren", async () => {
-      // Mocks für fs-Operationen
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {});
-
       // Mock ist bereits global definiert
       mockUpdateWithNewTestResult.mockClear();
 
@@ -101,9 +151,6 @@ describe("Playwright Results Routes", () => {
         runName: "Test Run 123",
       };
 
-      // Mock für fs.readFileSync zurückgeben eines leeren Arrays
-      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify([]));
-
       // Route testen
       const response = await request(app)
         .post("/api/playwright-results")
@@ -112,7 +159,9 @@ describe("Playwright Results Routes", () => {
       // Assertions
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty("success", true);
-      expect(fs.writeFileSync).toHaveBeenCalled();
+      expect(store.getRun(response.body.runId)).toMatchObject({
+        runName: "Test Run 123",
+      });
 
       // Erwartet, dass updateWithNewTestResult überhaupt aufgerufen wurde
       // Da wir nicht genau wissen, welches Format der Router intern erzeugt und weitergibt,
@@ -129,6 +178,189 @@ describe("Playwright Results Routes", () => {
           testResults: expect.any(Array),
         }),
       );
+
+      // Danach wird die automatische Quarantäne mit dem neuen Bericht geprüft
+      const TestQuarantine = require("../../utils/metrics/test-quarantine");
+      expect(new TestQuarantine().recordRun).toHaveBeenCalledWith(
+        expect.objectContaining({ runName: "Test Run 123" }),
+        mockFlakinessReport,
+        expect.anything(),
+      );
+    });
+
+    it("sollte die Owner neu quarantänierter Testfälle einmal pro Lauf lesen", async () => {
+      const analysis = [
+        {
+          caseId: "kasse.spec.ts › bezahlt",
+          file: "kasse.spec.ts",
+          owners: ["@kasse"],
+        },
+        {
+          caseId: "kasse.spec.ts › storniert",
+          file: "kasse.spec.ts",
+          owners: ["@lager"],
+        },
+      ];
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(analysis));
+
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({
+          output: {
+            tests: [
+              { file: "kasse.spec.ts", title: "bezahlt", status: "passed" },
+            ],
+          },
+          config: { headless: true },
+        });
+      expect(response.status).toBe(200);
+
+      // Callback für die Owner aus dem Aufruf der automatischen Quarantäne
+      const TestQuarantine = require("../../utils/metrics/test-quarantine");
+      const getOwners = new TestQuarantine().recordRun.mock.calls[0][2];
+
+      expect(
+        getOwners({
+          testId: "kasse.spec.ts",
+          caseId: "kasse.spec.ts › bezahlt",
+        }),
+      ).toEqual(["@kasse"]);
+      expect(
+        getOwners({
+          testId: "kasse.spec.ts",
+          caseId: "kasse.spec.ts › storniert",
+        }),
+      ).toEqual(["@lager"]);
+      expect(
+        (fs.readFileSync as jest.Mock).mock.calls.filter(([file]) =>
+          String(file).endsWith("test-analysis.json"),
+        ),
+      ).toHaveLength(1);
+    });
+
+    it("sollte Git- und CI-Metadaten speichern und danach filtern", async () => {
+      const output = {
+        tests: [
+          {
+            file: "test1.spec.ts",
+            title: "Test 1",
+            status: "passed",
+            duration: 1500,
+          },
+        ],
+      };
+
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({
+          output,
+          config: { headless: true },
+          pullRequest: 42,
+          ciEnv: {
+            GITHUB_ACTIONS: "true",
+            GITHUB_SHA: "4f2a9c1e",
+            GITHUB_REF_NAME: "main",
+            GITHUB_ACTOR: "mmustermann",
+          },
+        });
+      const invalid = await request(app)
+        .post("/api/playwright-results")
+        .send({ output, config: { headless: true }, commit: 123 });
+      const main = await request(app).get(
+        "/api/playwright-results?branch=main",
+      );
+      const feature = await request(app).get(
+        "/api/playwright-results?branch=feature",
+      );
+
+      expect(response.status).toBe(200);
+      expect(store.getRun(response.body.runId)).toMatchObject({
+        branch: "main",
+        git: {
+          commit: "4f2a9c1e",
+          branch: "main",
+          pullRequest: "42",
+          author: "mmustermann",
+          ciProvider: "github-actions",
+        },
+      });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe(
+        "Ungültige Git-Metadaten: commit muss ein Text sein",
+      );
+      expect(main.body.results[0]).toMatchObject({ commit: "4f2a9c1e" });
+      expect(feature.body.count).toBe(0);
+    });
+
+    it("sollte nicht interpretierbare Ausgaben mit 422 und Hinweisen ablehnen", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({ output: { foo: "bar" }, config: { headless: true } });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toHaveProperty("success", false);
+      expect(response.body.parseIssues).toHaveLength(1);
+      expect(store.listRuns()).toHaveLength(0);
+    });
+
+    it("sollte Reports mit ungültigen Testeinträgen mit 422 statt 500 ablehnen", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({
+          output: {
+            suites: [
+              {
+                title: "a.spec.ts",
+                file: "a.spec.ts",
+                specs: [{ title: "kaputt", tests: [null] }],
+              },
+            ],
+          },
+          config: { headless: true },
+        });
+
+      expect(response.status).toBe(422);
+      expect(response.body.parseIssues).toEqual([
+        {
+          path: "suites[0].specs[0].tests[0]",
+          message: "Test ist kein Objekt",
+        },
+      ]);
+    });
+
+    it("sollte einen nativen JSON-Report ohne separate Config akzeptieren", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({
+          output: {
+            config: { rootDir: "/repo", workers: 2, projects: [] },
+            suites: [
+              {
+                title: "a.spec.ts",
+                file: "a.spec.ts",
+                specs: [
+                  {
+                    title: "klappt",
+                    tests: [
+                      {
+                        projectName: "chromium",
+                        results: [{ status: "passed", duration: 5 }],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        format: "playwright-json",
+        testCount: 1,
+        parseIssues: [],
+      });
     });
 
     it("sollte einen 400-Fehler zurückgeben, wenn keine Testresultate im Body sind", async () => {
@@ -143,6 +375,153 @@ describe("Playwright Results Routes", () => {
     });
   });
 
+  describe("POST /api/playwright-results/junit", () => {
+    const junitXml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="2" failures="1">
+  <testsuite name="a.spec.ts" hostname="webkit" tests="2" failures="1">
+    <testcase name="Suche › findet Treffer" classname="a.spec.ts" time="0.5"/>
+    <testcase name="Suche › leere Eingabe" classname="a.spec.ts" time="0.25">
+      <failure message="Timeout">Error: Timeout</failure>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+    it("sollte rohes XML speichern und die Metriken aktualisieren", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results/junit?runName=Nightly")
+        .set("Content-Type", "application/xml")
+        .send(junitXml);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        success: true,
+        format: "junit",
+        testCount: 2,
+      });
+      expect(mockUpdateWithNewTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          runName: "Nightly",
+          success: false,
+          config: expect.objectContaining({
+            reporter: "junit",
+            projects: ["webkit"],
+          }),
+          testResults: [
+            expect.objectContaining({
+              title: "findet Treffer",
+              titlePath: ["Suche"],
+              projectName: "webkit",
+              duration: 500,
+            }),
+            expect.objectContaining({ status: "failed" }),
+          ],
+        }),
+      );
+    });
+
+    it("sollte XML im JSON-Body mit ergänzender Config akzeptieren", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results/junit")
+        .send({ xml: junitXml, config: { workers: 4 }, project: "ci" });
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateWithNewTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          config: expect.objectContaining({ workers: 4, reporter: "junit" }),
+          testResults: expect.arrayContaining([
+            expect.objectContaining({ projectName: "ci" }),
+          ]),
+        }),
+      );
+    });
+
+    it("sollte fehlendes oder ungültiges XML ablehnen", async () => {
+      const missing = await request(app)
+        .post("/api/playwright-results/junit")
+        .send({});
+      const invalid = await request(app)
+        .post("/api/playwright-results/junit")
+        .set("Content-Type", "text/xml")
+        .send("<testsuite>");
+
+      expect(missing.status).toBe(400);
+      expect(invalid.status).toBe(422);
+      expect(invalid.body.parseIssues[0].message).toContain(
+        "kein gültiges XML",
+      );
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Sharded Uploads", () => {
+    const shardUpload = (shardIndex: number) => ({
+      output: [
+        { file: `s${shardIndex}.spec.ts`, status: "passed", duration: 1 },
+      ],
+      config: { headless: true, reporter: "json", workers: 1 },
+      buildId: "ci-77",
+      shardIndex,
+      shardTotal: 2,
+    });
+
+    it("sollte einen Shard zurückhalten, bis alle Shards eingegangen sind", async () => {
+      const shardFiles = new Map<string, string>();
+      (fs.existsSync as jest.Mock).mockImplementation(
+        (file?: string) =>
+          !String(file).endsWith("ci-77.json") || shardFiles.has(String(file)),
+      );
+      (fs.readFileSync as jest.Mock).mockImplementation((file: string) =>
+        shardFiles.get(file),
+      );
+      (fs.writeFileSync as jest.Mock).mockImplementation(
+        (file: string, content: string) => {
+          if (file.endsWith("ci-77.json")) shardFiles.set(file, content);
+        },
+      );
+
+      const first = await request(app)
+        .post("/api/playwright-results")
+        .send(shardUpload(1));
+
+      expect(first.status).toBe(202);
+      expect(first.body).toMatchObject({
+        status: "pending",
+        metricsUpdated: false,
+        shards: { received: [1], missing: [2] },
+      });
+      expect(mockUpdateWithNewTestResult).not.toHaveBeenCalled();
+
+      const second = await request(app)
+        .post("/api/playwright-results")
+        .send(shardUpload(2));
+
+      expect(second.status).toBe(200);
+      expect(second.body).toMatchObject({
+        status: "merged",
+        shards: { complete: true, received: [1, 2] },
+      });
+      expect(mockUpdateWithNewTestResult).toHaveBeenCalledTimes(1);
+      expect(mockUpdateWithNewTestResult).toHaveBeenCalledWith(
+        expect.objectContaining({
+          runName: "Build ci-77",
+          testResults: [
+            expect.objectContaining({ filename: "s1.spec.ts" }),
+            expect.objectContaining({ filename: "s2.spec.ts" }),
+          ],
+        }),
+      );
+    });
+
+    it("sollte ungültige Shard-Angaben ablehnen", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results")
+        .send({ ...shardUpload(3) });
+
+      expect(response.status).toBe(400);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
   describe("GET /api/playwright-results/:runId", () => {
     it("sollte Testergebnisse für eine bestimmte runId zurückgeben", async () => {
       // Mock-Daten
@@ -152,11 +531,7 @@ describe("Playwright Results Routes", () => {
         results: [{ testId: "test1", status: "passed" }],
       };
 
-      // Mock für fs.readFileSync
-      (fs.readFileSync as jest.Mock).mockReturnValue(
-        JSON.stringify(mockResult),
-      );
-      (fs.readdirSync as jest.Mock).mockReturnValue(["test-run-123.json"]);
+      store.saveRun(mockResult as any);
 
       // Route testen
       const response = await request(app).get(
@@ -170,11 +545,6 @@ describe("Playwright Results Routes", () => {
     });
 
     it("sollte 404 zurückgeben, wenn die runId nicht gefunden wurde", async () => {
-      // Mocks für nicht existierende Datei
-      (fs.existsSync as jest.Mock).mockImplementation((path) => {
-        return !path.includes("non-existent-run");
-      });
-
       // Route testen
       const response = await request(app).get(
         "/api/playwright-results/non-existent-run",
@@ -201,15 +571,9 @@ describe("Playwright Results Routes", () => {
         testResults: [{ path: "test1.spec.ts", status: "passed" }],
       };
 
-      // Mocks für fs-Operationen
-      (fs.readdirSync as jest.Mock).mockReturnValue(["run1.json", "run2.json"]);
-      (fs.readFileSync as jest.Mock).mockImplementation((filename) => {
-        if (filename.includes("run1")) {
-          return JSON.stringify(mockResult1);
-        } else {
-          return JSON.stringify(mockResult2);
-        }
-      });
+      // Neueres Ergebnis zuerst speichern, damit der Zeitstempel entscheidet
+      store.saveRun(mockResult2 as any);
+      store.saveRun(mockResult1 as any);
 
       // Route testen
       const response = await request(app).get("/api/playwright-results/latest");
@@ -221,18 +585,98 @@ describe("Playwright Results Routes", () => {
     });
 
     it("sollte ein leeres Objekt zurückgeben, wenn keine Ergebnisse vorhanden sind", async () => {
-      // Mock für leeres Verzeichnis
-      (fs.existsSync as jest.Mock).mockReturnValue(true); // Verzeichnis existiert
-      (fs.readdirSync as jest.Mock).mockReturnValue([]); // aber ist leer
-
       // Route testen
       const response = await request(app).get("/api/playwright-results/latest");
 
       // Assertions
       expect(response.status).toBe(200);
       expect(response.body).toHaveProperty("success", true);
-      // Wir prüfen nur, ob result existiert, nicht den genauen Wert
-      expect(response.body).toHaveProperty("result");
+      expect(response.body).toHaveProperty("result", {});
+    });
+  });
+
+  describe("POST /api/playwright-results/:runId/quality-gate", () => {
+    it("sollte das Urteil mit Gründen zurückgeben", async () => {
+      const response = await request(app)
+        .post("/api/playwright-results/run2/quality-gate")
+        .send({ baselineRunId: "run1", policy: { minPassRate: 90 } });
+
+      expect(response.status).toBe(200);
+      expect(response.body.result.passed).toBe(false);
+      expect(response.body.result.reasons).toEqual([
+        "Erfolgsrate 50% (Minimum 90%)",
+      ]);
+
+      const QualityGate = require("../../utils/metrics/quality-gate").default;
+      expect(new QualityGate().evaluate).toHaveBeenCalledWith("run2", {
+        baselineRunId: "run1",
+        policy: { minPassRate: 90 },
+        isQuarantined: expect.any(Function),
+      });
+    });
+
+    it("sollte ungültige Richtlinien und unbekannte Läufe ablehnen", async () => {
+      const invalid = await request(app)
+        .post("/api/playwright-results/run2/quality-gate")
+        .send({ policy: { minPassRate: "hoch" } });
+      const missing = await request(app)
+        .post("/api/playwright-results/fehlt/quality-gate")
+        .send({});
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.issues).toEqual([
+        "minPassRate muss eine Zahl zwischen 0 und 100 sein",
+      ]);
+      expect(missing.status).toBe(404);
+    });
+  });
+
+  describe("GET und DELETE über den Results-Store", () => {
+    const run = (runId: string, timestamp: number, projectName: string) =>
+      ({
+        runId,
+        timestamp,
+        success: true,
+        metrics: { passRate: 100 },
+        testResults: [
+          {
+            path: "a.spec.ts",
+            filename: "a.spec.ts",
+            title: "klappt",
+            projectName,
+            status: "passed",
+            duration: 1,
+          },
+        ],
+      }) as any;
+
+    it("sollte Läufe neueste zuerst auflisten und nach Projekt filtern", async () => {
+      store.saveRun(run("alt", 1000, "chromium"));
+      store.saveRun(run("neu", 2000, "webkit"));
+
+      const all = await request(app).get("/api/playwright-results");
+      const webkit = await request(app).get(
+        "/api/playwright-results?project=webkit",
+      );
+
+      expect(all.body.results.map((r: any) => r.runId)).toEqual(["neu", "alt"]);
+      expect(all.body.results[0]).toMatchObject({
+        testCount: 1,
+        projects: ["webkit"],
+      });
+      expect(webkit.body.count).toBe(1);
+      expect(webkit.body.results[0].runId).toBe("neu");
+    });
+
+    it("sollte einen Lauf löschen und danach 404 liefern", async () => {
+      store.saveRun(run("weg", 1000, "chromium"));
+
+      const deleted = await request(app).delete("/api/playwright-results/weg");
+      const again = await request(app).delete("/api/playwright-results/weg");
+
+      expect(deleted.status).toBe(200);
+      expect(store.getRun("weg")).toBeNull();
+      expect(again.status).toBe(404);
     });
   });
 });
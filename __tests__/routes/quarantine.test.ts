@@ -0,0 +1,151 @@
+// Mocks vor dem Import erstellen
+jest.mock("../../utils/metrics/test-quarantine", () => {
+  const actual = jest.requireActual("../../utils/metrics/test-quarantine");
+  const mockEntry = {
+    testId: "login.spec.ts",
+    project: "webkit",
+    reason: "Dialog hängt",
+    source: "manual",
+    quarantinedAt: 1000,
+  };
+
+  const getEntries = jest.fn(() => [mockEntry]);
+  const getPolicy = jest.fn(() => actual.DEFAULT_AUTO_QUARANTINE_POLICY);
+  const quarantine = jest.fn((input) => ({ ...mockEntry, ...input }));
+  const release = jest.fn((testId) => testId === "login.spec.ts");
+  const savePolicy = jest.fn((policy) => ({
+    ...actual.DEFAULT_AUTO_QUARANTINE_POLICY,
+    ...policy,
+  }));
+  const getPlaywrightExport = jest.fn(() => ({
+    generatedAt: 2000,
+    grepInvert: [],
+    projects: { webkit: ["login\\.spec\\.ts"] },
+    tests: [{ ...mockEntry, pattern: "login\\.spec\\.ts" }],
+  }));
+
+  return {
+    ...actual,
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => {
+      return {
+        getEntries,
+        getPolicy,
+        quarantine,
+        release,
+        savePolicy,
+        getPlaywrightExport,
+      };
+    }),
+  };
+});
+
+// Erst nach den Mocks importieren
+import request from "supertest";
+import express from "express";
+import quarantineRouter from "../../routes/quarantine";
+
+/**
+ * Tests für die Quarantäne-API-Routen
+ */
+describe("Quarantine API Routes", () => {
+  let app: express.Application;
+  let mockQuarantine: any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api/quarantine", quarantineRouter);
+
+    const TestQuarantine =
+      require("../../utils/metrics/test-quarantine").default;
+    mockQuarantine = new TestQuarantine();
+
+    jest.clearAllMocks();
+  });
+
+  describe("GET /api/quarantine", () => {
+    it("sollte Einträge und Richtlinie zurückgeben", async () => {
+      const response = await request(app).get("/api/quarantine");
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.entries[0].testId).toBe("login.spec.ts");
+      expect(response.body.policy.consecutiveRuns).toBe(3);
+    });
+  });
+
+  describe("POST /api/quarantine", () => {
+    it("sollte einen Test unter Quarantäne stellen", async () => {
+      const response = await request(app)
+        .post("/api/quarantine")
+        .send({ testId: "suche.spec.ts", reason: "Timing", expiresInDays: 7 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.entry.testId).toBe("suche.spec.ts");
+      expect(mockQuarantine.quarantine).toHaveBeenCalledWith({
+        testId: "suche.spec.ts",
+        reason: "Timing",
+        expiresInDays: 7,
+      });
+    });
+
+    it("sollte Einträge ohne Grund ablehnen", async () => {
+      const response = await request(app)
+        .post("/api/quarantine")
+        .send({ testId: "suche.spec.ts" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.issues).toEqual([
+        "reason muss ein nicht leerer Text sein",
+      ]);
+      expect(mockQuarantine.quarantine).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/quarantine/playwright", () => {
+    it("sollte die Muster für Playwright zurückgeben", async () => {
+      const response = await request(app).get("/api/quarantine/playwright");
+
+      expect(response.status).toBe(200);
+      expect(response.body.projects).toEqual({
+        webkit: ["login\\.spec\\.ts"],
+      });
+    });
+  });
+
+  describe("PUT /api/quarantine/policy", () => {
+    it("sollte gültige Richtlinien speichern und ungültige ablehnen", async () => {
+      const saved = await request(app)
+        .put("/api/quarantine/policy")
+        .send({ consecutiveRuns: 5 });
+      const rejected = await request(app)
+        .put("/api/quarantine/policy")
+        .send({ expiryDays: -1 });
+
+      expect(saved.status).toBe(200);
+      expect(saved.body.policy.consecutiveRuns).toBe(5);
+      expect(rejected.status).toBe(400);
+      expect(mockQuarantine.savePolicy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("DELETE /api/quarantine/:testId", () => {
+    it("sollte die Quarantäne aufheben oder 404 melden", async () => {
+      const released = await request(app).delete(
+        "/api/quarantine/login.spec.ts?project=webkit",
+      );
+      const missing = await request(app).delete(
+        "/api/quarantine/unbekannt.spec.ts",
+      );
+
+      expect(released.status).toBe(200);
+      expect(mockQuarantine.release).toHaveBeenCalledWith(
+        "login.spec.ts",
+        "webkit",
+        undefined,
+      );
+      expect(missing.status).toBe(404);
+    });
+  });
+});
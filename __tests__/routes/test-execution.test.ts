@@ -0,0 +1,261 @@
+// Mocks vor dem Import erstellen
+jest.mock("../../utils/test-runner", () => {
+  const runTest = jest.fn();
+  const runTests = jest.fn();
+  const stopTests = jest.fn();
+  const getGitMetadata = jest.fn(() => ({
+    commit: "4f2a9c1",
+    branch: "main",
+  }));
+
+  return {
+    TestRunner: jest.fn().mockImplementation(() => {
+      return {
+        runTest,
+        runTests,
+        stopTests,
+        getGitMetadata,
+        listAvailableTests: jest.fn(),
+      };
+    }),
+  };
+});
+
+jest.mock("../../utils/logger", () => {
+  const componentLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  return {
+    __esModule: true,
+    default: componentLogger,
+    createComponentLogger: jest.fn(() => componentLogger),
+  };
+});
+
+// Results-Store nur im Speicher, damit die Historie ohne Dateizugriffe geprüft werden kann
+jest.mock("../../utils/storage/results-store", () => {
+  const actual = jest.requireActual("../../utils/storage/results-store");
+  const store = new actual.ResultsStore();
+
+  return {
+    ...actual,
+    getResultsStore: jest.fn(() => store),
+  };
+});
+
+// Erst nach den Mocks importieren
+import request from "supertest";
+import express from "express";
+import testExecutionRouter from "../../routes/test-execution";
+
+/**
+ * Tests für den Event-Stream und die Queue der Testausführung
+ */
+describe("Test Execution API Routes", () => {
+  let app: express.Application;
+  let mockRunner: any;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.use("/api", testExecutionRouter);
+
+    const { TestRunner } = require("../../utils/test-runner");
+    mockRunner = new TestRunner();
+
+    jest.clearAllMocks();
+  });
+
+  /**
+   * Startet einen Einzeltest, dessen Ausführung über finish() beendet wird
+   */
+  async function startRun(): Promise<{
+    runId: string;
+    queuePosition: number | null;
+    finish: (success: boolean) => Promise<void>;
+  }> {
+    let resolveRun: (result: unknown) => void = () => {};
+    mockRunner.runTest.mockImplementationOnce(
+      (
+        testFile: string,
+        options: unknown,
+        logCallback: any,
+        eventCallback: any,
+      ) => {
+        logCallback("Starte Test: login.spec.ts");
+        eventCallback({ type: "run-begin", totalTests: 1 });
+        eventCallback({
+          type: "test-begin",
+          testId: "login.spec.ts › meldet an",
+          title: "meldet an",
+          file: "login.spec.ts",
+          retry: 0,
+        });
+        return new Promise((resolve) => {
+          resolveRun = resolve;
+        });
+      },
+    );
+
+    const response = await request(app)
+      .post("/api/run-playwright-test")
+      .send({ testFile: "login.spec.ts" });
+
+    return {
+      runId: response.body.runId,
+      queuePosition: response.body.queuePosition,
+      finish: async (success: boolean) => {
+        resolveRun({ success });
+        await new Promise((resolve) => setImmediate(resolve));
+      },
+    };
+  }
+
+  describe("GET /api/test-run-status/:runId", () => {
+    it("sollte die Git-Metadaten zum Start des Laufs enthalten", async () => {
+      const run = await startRun();
+
+      const response = await request(app).get(
+        `/api/test-run-status/${run.runId}`,
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.testRun.git).toEqual({
+        commit: "4f2a9c1",
+        branch: "main",
+      });
+      await run.finish(true);
+    });
+  });
+
+  describe("GET /api/test-runs/:runId/stream", () => {
+    it("sollte 404 für unbekannte Testläufe zurückgeben", async () => {
+      const response = await request(app).get("/api/test-runs/fehlt/stream");
+
+      expect(response.status).toBe(404);
+      expect(response.body.status).toBe("error");
+    });
+
+    it("sollte Log-, Test- und Fortschrittsereignisse live streamen", async () => {
+      const { runId, finish } = await startRun();
+
+      const streamRequest = request(app)
+        .get(`/api/test-runs/${runId}/stream`)
+        .buffer(true)
+        .parse((res, callback) => {
+          let body = "";
+          res.on("data", (chunk: Buffer) => (body += chunk.toString()));
+          res.on("end", () => callback(null, body));
+        });
+
+      setTimeout(() => finish(true), 50);
+      const response = await streamRequest;
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("text/event-stream");
+      expect(response.body).toContain("event: log");
+      expect(response.body).toContain("Starte Test: login.spec.ts");
+      expect(response.body).toContain("event: test-begin");
+      expect(response.body).toContain("event: progress");
+      expect(response.body).toContain(
+        'event: status\ndata: {"status":"completed"',
+      );
+      expect(response.body).toMatch(/event: end\n/);
+    });
+
+    it("sollte nach Last-Event-ID nur verpasste Ereignisse nachliefern", async () => {
+      const { runId, finish } = await startRun();
+      await finish(false);
+
+      const response = await request(app)
+        .get(`/api/test-runs/${runId}/stream`)
+        .set("Last-Event-ID", "2");
+
+      const ids = Array.from(
+        String(response.text).matchAll(/^id: (\d+)$/gm),
+        (match) => Number(match[1]),
+      );
+
+      expect(ids[0]).toBe(3);
+      expect(response.text).not.toContain("Starte Test");
+      expect(response.text).toContain('"status":"failed"');
+    });
+  });
+
+  describe("Queue der Testläufe", () => {
+    /**
+     * Liest den Endstatus eines beendeten Laufs aus seinem Event-Stream
+     */
+    async function getFinalStatus(runId: string): Promise<string | undefined> {
+      const response = await request(app).get(`/api/test-runs/${runId}/stream`);
+      const match = /event: end\ndata: (.*)\n/.exec(String(response.text));
+      return match ? JSON.parse(match[1]).status : undefined;
+    }
+
+    it("sollte weitere Läufe einreihen und in der Queue auflisten", async () => {
+      const running = await startRun();
+      const queued = await request(app)
+        .post("/api/run-playwright-tests")
+        .send({ testFiles: ["checkout.spec.ts"], priority: 2 });
+
+      expect(running.queuePosition).toBeNull();
+      expect(queued.body.queuePosition).toBe(1);
+
+      const response = await request(app).get("/api/test-runs/queue");
+      expect(response.status).toBe(200);
+      expect(response.body.queue.running).toEqual([
+        expect.objectContaining({ runId: running.runId, state: "running" }),
+      ]);
+      expect(response.body.queue.queued).toEqual([
+        expect.objectContaining({
+          runId: queued.body.runId,
+          priority: 2,
+          position: 1,
+        }),
+      ]);
+
+      // Wartenden Lauf abbrechen: landet sofort als "aborted" in der Historie
+      const cancelQueued = await request(app).post(
+        `/api/test-runs/${queued.body.runId}/cancel`,
+      );
+      expect(cancelQueued.body.previousState).toBe("queued");
+      expect(mockRunner.runTests).not.toHaveBeenCalled();
+      expect(await getFinalStatus(queued.body.runId)).toBe("aborted");
+
+      // Laufenden Lauf abbrechen: TestRunner wird gestoppt
+      mockRunner.stopTests.mockImplementationOnce(() => running.finish(false));
+      const cancelRunning = await request(app).post(
+        `/api/test-runs/${running.runId}/cancel`,
+      );
+      expect(cancelRunning.body.previousState).toBe("running");
+      expect(mockRunner.stopTests).toHaveBeenCalledTimes(1);
+      expect(await getFinalStatus(running.runId)).toBe("aborted");
+
+      const queue = await request(app).get("/api/test-runs/queue");
+      expect(queue.body.queue.running).toHaveLength(0);
+    });
+
+    it("sollte 404 beim Abbruch unbekannter Testläufe zurückgeben", async () => {
+      const response = await request(app).post("/api/test-runs/fehlt/cancel");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("sollte die Parallelität nur mit gültigen Werten ändern", async () => {
+      const invalid = await request(app)
+        .put("/api/test-runs/queue")
+        .send({ maxConcurrency: 0 });
+      expect(invalid.status).toBe(400);
+
+      const response = await request(app)
+        .put("/api/test-runs/queue")
+        .send({ maxConcurrency: 1 });
+      expect(response.status).toBe(200);
+      expect(response.body.queue.maxConcurrency).toBe(1);
+    });
+  });
+});
@@ -24,12 +24,18 @@ jest.mock("../../utils/metrics/flakiness-analyzer", () => {
   const updateWithNewTestResult = jest
     .fn()
     .mockReturnValue(mockFlakinessReport);
+  const getProjectBreakdown = jest.fn().mockReturnValue([]);
+  const getProjectComparison = jest
+    .fn()
+    .mockReturnValue({ projects: [], rows: [] });
 
   return jest.fn().mockImplementation(() => {
     return {
       analyzeFlakiness,
       getMostFlakyTests,
       updateWithNewTestResult,
+      getProjectBreakdown,
+      getProjectComparison,
       loadReport: jest.fn(),
       saveReport: jest.fn(),
     };
@@ -37,18 +43,92 @@ jest.mock("../../utils/metrics/flakiness-analyzer", () => {
 });
 
 jest.mock("../../utils/metrics/success-rate-tracker", () => {
+  const mockRates = {
+    overallSuccessRate: 75,
+    totalTests: 2,
+    testSuccessRates: [
+      { testId: "login.spec.ts", project: "chromium", successRate: 100 },
+      { testId: "login.spec.ts", project: "webkit", successRate: 50 },
+    ],
+  };
+
+  const loadSuccessRates = jest.fn().mockReturnValue(mockRates);
+  const filterByProject = jest.fn((rates, project) => ({
+    ...rates,
+    testSuccessRates: rates.testSuccessRates.filter(
+      (test: { project: string }) => test.project === project,
+    ),
+  }));
+  const separateQuarantined = jest.fn((rates, isQuarantined) => ({
+    rates: {
+      ...rates,
+      testSuccessRates: rates.testSuccessRates.filter(
+        (test: unknown) => !isQuarantined(test),
+      ),
+    },
+    quarantined: {
+      ...rates,
+      testSuccessRates: rates.testSuccessRates.filter(isQuarantined),
+    },
+  }));
+  const getProjectBreakdown = jest.fn().mockReturnValue([
+    { project: "chromium", overallSuccessRate: 100 },
+    { project: "webkit", overallSuccessRate: 50 },
+  ]);
+  const getProjectComparison = jest.fn().mockReturnValue({
+    projects: ["chromium", "webkit"],
+    rows: [],
+  });
+
+  const getRetentionPolicy = jest
+    .fn()
+    .mockReturnValue({ rawHistoryDays: 30, maxAgeDays: 365 });
+  const saveRetentionPolicy = jest.fn((policy) => ({
+    rawHistoryDays: 30,
+    maxAgeDays: 365,
+    ...policy,
+  }));
+  const compactHistory = jest.fn().mockReturnValue({
+    testsCompacted: 1,
+    entriesAggregated: 4,
+    entriesRemoved: 0,
+    compactedAt: 1625097600000,
+  });
+
   return jest.fn().mockImplementation(() => {
     return {
       updateSuccessRates: jest.fn(),
+      getRetentionPolicy,
+      saveRetentionPolicy,
+      compactHistory,
       getSuccessRates: jest.fn().mockReturnValue({}),
+      loadSuccessRates,
+      getSuccessRatesForPeriod: loadSuccessRates,
+      filterByProject,
+      separateQuarantined,
+      getProjectBreakdown,
+      getProjectComparison,
     };
   });
 });
 
+jest.mock("../../utils/metrics/test-quarantine", () => {
+  const createMatcher = jest.fn(() => () => false);
+
+  return jest.fn().mockImplementation(() => {
+    return { createMatcher };
+  });
+});
+
 // Erst nach den Mocks importieren
 import request from "supertest";
 import express from "express";
-import testMetricsRouter from "../../routes/test-metrics";
+import testMetricsRouter, {
+  startHistoryCompaction,
+  stopHistoryCompaction,
+} from "../../routes/test-metrics";
+import TestOwnershipIndex from "../../utils/metrics/test-ownership";
+import { TestMetadata } from "../../utils/test-analyzer";
 
 // Gemeinsame Mock-Daten für Tests definieren
 const mockFlakinessReport = {
@@ -75,6 +155,7 @@ describe("Test Metrics Routes", () => {
   let mockAnalyzeFlakiness: jest.Mock;
   let mockGetMostFlakyTests: jest.Mock;
   let mockUpdateWithNewTestResult: jest.Mock;
+  let mockSaveRetentionPolicy: jest.Mock;
 
   beforeEach(() => {
     // Mock für FlakinessAnalyzer zurücksetzen
@@ -87,6 +168,9 @@ describe("Test Metrics Routes", () => {
     mockGetMostFlakyTests = mockInstance.getMostFlakyTests;
     mockUpdateWithNewTestResult = mockInstance.updateWithNewTestResult;
 
+    const SuccessRateTracker = require("../../utils/metrics/success-rate-tracker");
+    mockSaveRetentionPolicy = new SuccessRateTracker().saveRetentionPolicy;
+
     // Die Mock-Funktionen mit den richtigen Rückgabewerten konfigurieren
     mockAnalyzeFlakiness.mockReturnValue(mockFlakinessReport);
     mockGetMostFlakyTests.mockReturnValue(mockFlakyTests);
@@ -99,6 +183,55 @@ describe("Test Metrics Routes", () => {
     app.use("/api/test-metrics", testMetricsRouter);
   });
 
+  describe("GET /api/test-metrics/success-rates", () => {
+    it("sollte die Erfolgsraten mit Projekt-Aufschlüsselung zurückgeben", async () => {
+      const response = await request(app).get(
+        "/api/test-metrics/success-rates",
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.rates.testSuccessRates).toHaveLength(2);
+      expect(response.body.projectBreakdown).toHaveLength(2);
+      expect(response.body.projectComparison.projects).toEqual([
+        "chromium",
+        "webkit",
+      ]);
+    });
+
+    it("sollte nach Projekt filtern", async () => {
+      const response = await request(app)
+        .get("/api/test-metrics/success-rates")
+        .query({ project: "webkit" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.project).toBe("webkit");
+      expect(response.body.rates.testSuccessRates).toEqual([
+        { testId: "login.spec.ts", project: "webkit", successRate: 50 },
+      ]);
+      // Aufschlüsselung und Matrix beziehen sich weiterhin auf alle Projekte
+      expect(response.body.projectBreakdown).toHaveLength(2);
+    });
+
+    it("sollte Tests unter Quarantäne getrennt ausweisen", async () => {
+      const TestQuarantine = require("../../utils/metrics/test-quarantine");
+      new TestQuarantine().createMatcher.mockReturnValueOnce(
+        (test: { project?: string }) => test.project === "webkit",
+      );
+
+      const response = await request(app).get(
+        "/api/test-metrics/success-rates",
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.rates.testSuccessRates).toEqual([
+        { testId: "login.spec.ts", project: "chromium", successRate: 100 },
+      ]);
+      expect(response.body.quarantined.testSuccessRates).toEqual([
+        { testId: "login.spec.ts", project: "webkit", successRate: 50 },
+      ]);
+    });
+  });
+
   describe("GET /api/test-metrics/flakiness", () => {
     it("sollte einen Flakiness-Bericht zurückgeben", async () => {
       // Wir nutzen direkt die global definierten Mocks
@@ -126,6 +259,72 @@ describe("Test Metrics Routes", () => {
       // Anmerkung: Der Default-Wert in der Implementierung ist 14, nicht 30
       expect(mockAnalyzeFlakiness).toHaveBeenCalledWith(14);
     });
+
+    it("sollte den Bericht auf ein Projekt beschränken", async () => {
+      const response = await request(app)
+        .get("/api/test-metrics/flakiness")
+        .query({ project: "webkit" });
+
+      expect(response.status).toBe(200);
+      expect(mockAnalyzeFlakiness).toHaveBeenCalledWith(
+        14,
+        "webkit",
+        undefined,
+        undefined,
+      );
+      expect(response.body.projectComparison).toEqual({
+        projects: [],
+        rows: [],
+      });
+    });
+  });
+
+  describe("GET /api/test-metrics/owners", () => {
+    it("sollte Tests, Instabilität und Erfolgsrate pro Owner zusammenfassen", async () => {
+      jest.spyOn(TestOwnershipIndex, "load").mockReturnValueOnce(
+        new TestOwnershipIndex([
+          { caseId: "login", file: "tests/login.spec.ts", owners: ["@auth"] },
+          { caseId: "test1", file: "test1", owners: [] },
+        ] as TestMetadata[]),
+      );
+      const SuccessRateTracker = require("../../utils/metrics/success-rate-tracker");
+      new SuccessRateTracker().getSuccessRatesForPeriod.mockReturnValueOnce({
+        testSuccessRates: [
+          {
+            testId: "login.spec.ts",
+            successRate: 100,
+            lastRun: { status: "passed" },
+          },
+          {
+            testId: "login.spec.ts",
+            successRate: 50,
+            lastRun: { status: "failed" },
+          },
+        ],
+      });
+
+      const response = await request(app)
+        .get("/api/test-metrics/owners")
+        .query({ days: "7" });
+
+      expect(response.status).toBe(200);
+      expect(mockAnalyzeFlakiness).toHaveBeenCalledWith(7);
+      expect(response.body.owners).toEqual([
+        expect.objectContaining({
+          owner: "@auth",
+          ownedTests: 1,
+          testsWithRuns: 2,
+          failingTests: 1,
+          averageSuccessRate: 75,
+        }),
+        expect.objectContaining({
+          owner: "unowned",
+          ownedTests: 1,
+          testsWithRuns: 0,
+          flakyTests: 1,
+        }),
+      ]);
+    });
   });
 
   describe("GET /api/test-metrics/flaky-tests", () => {
@@ -142,7 +341,7 @@ describe("Test Metrics Routes", () => {
       expect(response.body).toHaveProperty("success", true);
       expect(response.body).toHaveProperty("timestamp");
       expect(response.body.flakyTests).toEqual(mockFlakyTests);
-      expect(mockGetMostFlakyTests).toHaveBeenCalledWith(5);
+      expect(mockGetMostFlakyTests).toHaveBeenCalledWith(5, undefined);
     });
 
     it("sollte den Default-Wert für limit verwenden, wenn nicht angegeben", async () => {
@@ -152,7 +351,23 @@ describe("Test Metrics Routes", () => {
       await request(app).get("/api/test-metrics/flaky-tests");
 
       // Prüfen ob getMostFlakyTests mit Default-Wert (10) aufgerufen wurde
-      expect(mockGetMostFlakyTests).toHaveBeenCalledWith(10);
+      expect(mockGetMostFlakyTests).toHaveBeenCalledWith(10, undefined);
+    });
+
+    it("sollte mit status=flaky nur bei Wiederholung bestandene Tests liefern", async () => {
+      mockGetMostFlakyTests.mockReturnValue([
+        { ...mockFlakyTests[0], retryRecoveries: 0 },
+        { ...mockFlakyTests[1], retryRecoveries: 2 },
+      ]);
+
+      const response = await request(app)
+        .get("/api/test-metrics/flaky-tests")
+        .query({ status: "flaky" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.flakyTests.map((t: any) => t.testId)).toEqual([
+        "test2",
+      ]);
     });
   });
 
@@ -218,4 +433,80 @@ describe("Test Metrics Routes", () => {
       expect(response.body).toHaveProperty("error");
     });
   });
+
+  describe("Aufbewahrung des Testverlaufs", () => {
+    it("sollte die geltende Richtlinie zurückgeben", async () => {
+      const response = await request(app).get("/api/test-metrics/retention");
+
+      expect(response.status).toBe(200);
+      expect(response.body.policy).toEqual({
+        rawHistoryDays: 30,
+        maxAgeDays: 365,
+      });
+    });
+
+    it("sollte eine gültige Richtlinie speichern", async () => {
+      const policy = {
+        maxRawEntries: 500,
+        projects: { webkit: { maxAgeDays: 90 } },
+      };
+
+      const response = await request(app)
+        .put("/api/test-metrics/retention")
+        .send(policy);
+
+      expect(response.status).toBe(200);
+      expect(mockSaveRetentionPolicy).toHaveBeenCalledWith(policy);
+      expect(response.body.policy).toMatchObject(policy);
+    });
+
+    it("sollte ungültige Richtlinien mit 400 und Hinweisen ablehnen", async () => {
+      const response = await request(app)
+        .put("/api/test-metrics/retention")
+        .send({ maxAgeDays: -1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.issues).toEqual([
+        "maxAgeDays muss eine positive ganze Zahl sein",
+      ]);
+      expect(mockSaveRetentionPolicy).not.toHaveBeenCalled();
+    });
+
+    it("sollte die tägliche Verdichtung erst nach dem Start auslösen", () => {
+      jest.useFakeTimers();
+      const SuccessRateTracker = require("../../utils/metrics/success-rate-tracker");
+      const { compactHistory } = new SuccessRateTracker();
+      const day = 24 * 60 * 60 * 1000;
+
+      try {
+        // Der Import der Routen allein startet keinen Timer
+        jest.advanceTimersByTime(day);
+        expect(compactHistory).not.toHaveBeenCalled();
+
+        startHistoryCompaction();
+        startHistoryCompaction();
+        jest.advanceTimersByTime(day);
+        expect(compactHistory).toHaveBeenCalledTimes(1);
+
+        stopHistoryCompaction();
+        jest.advanceTimersByTime(day);
+        expect(compactHistory).toHaveBeenCalledTimes(1);
+      } finally {
+        stopHistoryCompaction();
+        jest.useRealTimers();
+      }
+    });
+
+    it("sollte die Verdichtung auf Anfrage ausführen", async () => {
+      const response = await request(app).post(
+        "/api/test-metrics/retention/compact",
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.body.result).toMatchObject({
+        testsCompacted: 1,
+        entriesAggregated: 4,
+      });
+    });
+  });
 });
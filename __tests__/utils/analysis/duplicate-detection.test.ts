@@ -0,0 +1,229 @@
+/**
+ * Tests für den Redundanz-Check
+ *
+ * Diese Tests prüfen die Schrittfolgen der Testfälle, die Gegenüberstellung
+ * über die längste gemeinsame Teilfolge sowie die Erkennung doppelter Tests,
+ * kopierter Setup-Hooks und Assertion-Teilmengen.
+ */
+
+import {
+  alignSteps,
+  findDuplicateTests,
+  getTestSteps,
+} from "../../../utils/analysis/duplicate-detection";
+import {
+  TestAssertion,
+  TestMetadata,
+  TestSelector,
+  TestSetupBlock,
+} from "../../../utils/test-analyzer";
+
+function action(usage: string, value: string, line: number): TestSelector {
+  return { type: "role", value, usage, line, column: 5 };
+}
+
+function assertion(condition: string, line: number): TestAssertion {
+  return {
+    type: "visibility",
+    matcher: "toBeVisible",
+    condition,
+    negated: false,
+    line,
+    column: 5,
+  };
+}
+
+function setupBlock(fingerprint: string, line: number = 3): TestSetupBlock {
+  return {
+    kind: "beforeEach",
+    line,
+    column: 1,
+    statementCount: 2,
+    fingerprint,
+  };
+}
+
+function createMetadata(
+  file: string,
+  title: string,
+  selectors: TestSelector[],
+  assertions: TestAssertion[],
+  setupBlocks: TestSetupBlock[] = [],
+): TestMetadata {
+  return {
+    id: `${file} › ${title}`,
+    caseId: title,
+    file,
+    path: `/repo/${file}`,
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks,
+    visitedUrls: [],
+    pageObjects: [],
+    line: 10,
+    column: 1,
+    testType: "E2E",
+    selectors,
+    assertions,
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity: 1,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: [] },
+  };
+}
+
+describe("getTestSteps", () => {
+  it("sollte Aktionen und Assertions in Quelltextreihenfolge liefern", () => {
+    const steps = getTestSteps(
+      createMetadata(
+        "tests/a.spec.ts",
+        "a",
+        [
+          action("fill", "textbox", 2),
+          action("locate", "dialog", 3),
+          action("assert", "heading", 4),
+        ],
+        [assertion("expect(page.getByRole('heading'))\n    .toBeVisible()", 4)],
+      ),
+    );
+
+    expect(steps).toEqual([
+      { kind: "action", signature: "fill role=textbox", line: 2 },
+      {
+        kind: "assertion",
+        signature: "expect(page.getByRole('heading')) .toBeVisible()",
+        line: 4,
+      },
+    ]);
+  });
+});
+
+describe("alignSteps", () => {
+  it("sollte gemeinsame Schritte gegenüberstellen und die Ähnlichkeit berechnen", () => {
+    const step = (signature: string) => ({
+      kind: "action" as const,
+      signature,
+      line: 1,
+    });
+    const result = alignSteps(
+      [step("a"), step("b"), step("c")],
+      [step("a"), step("x"), step("c")],
+    );
+
+    expect(result.sharedSteps).toBe(2);
+    expect(result.similarity).toBeCloseTo(2 / 3);
+    expect(
+      result.alignment.map(({ first, second, shared }) => [
+        first?.signature,
+        second?.signature,
+        shared,
+      ]),
+    ).toEqual([
+      ["a", "a", true],
+      ["b", undefined, false],
+      [undefined, "x", false],
+      ["c", "c", true],
+    ]);
+  });
+});
+
+describe("findDuplicateTests", () => {
+  it("sollte doppelte Schrittfolgen, Assertion-Teilmengen und kopierte Hooks finden", () => {
+    const login = [
+      action("fill", "E-Mail", 11),
+      action("fill", "Passwort", 12),
+      action("click", "Anmelden", 13),
+    ];
+    const report = findDuplicateTests(
+      [
+        createMetadata(
+          "tests/login.spec.ts",
+          "meldet an",
+          login,
+          [assertion("expect(page).toHaveURL('/start')", 14)],
+          [setupBlock("abc123")],
+        ),
+        createMetadata(
+          "tests/kopie.spec.ts",
+          "meldet erneut an",
+          login,
+          [assertion("expect(page).toHaveURL('/start')", 14)],
+          [setupBlock("abc123", 5)],
+        ),
+        createMetadata(
+          "tests/profil.spec.ts",
+          "zeigt Profil",
+          [action("click", "Profil", 11)],
+          [
+            assertion("expect(page).toHaveURL('/start')", 12),
+            assertion("expect(name).toBeVisible()", 13),
+          ],
+          [setupBlock("def456")],
+        ),
+      ],
+      { threshold: 0.9 },
+    );
+
+    expect(
+      report.pairs.map(({ kind, similarity, first, second, sharedSteps }) => ({
+        kind,
+        similarity,
+        first: first.title,
+        second: second.title,
+        sharedSteps,
+      })),
+    ).toEqual([
+      {
+        kind: "duplicate-steps",
+        similarity: 1,
+        first: "meldet an",
+        second: "meldet erneut an",
+        sharedSteps: 4,
+      },
+      {
+        kind: "assertion-subset",
+        similarity: 0.5,
+        first: "meldet erneut an",
+        second: "zeigt Profil",
+        sharedSteps: 1,
+      },
+      {
+        kind: "assertion-subset",
+        similarity: 0.5,
+        first: "meldet an",
+        second: "zeigt Profil",
+        sharedSteps: 1,
+      },
+    ]);
+    expect(report.setupGroups).toEqual([
+      {
+        fingerprint: "abc123",
+        kind: "beforeEach",
+        statementCount: 2,
+        occurrences: [
+          { file: "tests/login.spec.ts", line: 3, column: 1 },
+          { file: "tests/kopie.spec.ts", line: 5, column: 1 },
+        ],
+      },
+    ]);
+    expect(report.testsAnalyzed).toBe(3);
+  });
+
+  it("sollte Hooks derselben Datei nur einmal zählen und nicht als Kopie werten", () => {
+    const report = findDuplicateTests([
+      createMetadata("tests/a.spec.ts", "eins", [], [], [setupBlock("abc")]),
+      createMetadata("tests/a.spec.ts", "zwei", [], [], [setupBlock("abc")]),
+    ]);
+
+    expect(report.setupGroups).toEqual([]);
+    expect(report.pairs).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests für die Feature-Abdeckung
+ *
+ * Diese Tests prüfen das Auslesen von Sitemap und Routen-Datei, das
+ * Zusammenstellen des Inventars sowie die Einstufung der Features als
+ * ungetestet, schwach abgedeckt, abgedeckt oder übertestet.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  analyzeFeatureCoverage,
+  FeatureInventoryError,
+  loadFeatureInventory,
+  parseRouteFile,
+  parseSitemap,
+} from "../../../utils/analysis/feature-coverage";
+import { TestMetadata } from "../../../utils/test-analyzer";
+
+function createMetadata(
+  title: string,
+  details: Partial<TestMetadata> = {},
+): TestMetadata {
+  return {
+    id: `tests/app.spec.ts › ${title}`,
+    caseId: title,
+    file: "tests/app.spec.ts",
+    path: "/repo/tests/app.spec.ts",
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 1,
+    column: 1,
+    testType: "E2E",
+    selectors: [],
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity: 1,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: ["Functional"] },
+    ...details,
+  };
+}
+
+describe("parseSitemap", () => {
+  it("sollte die Pfade aller <loc>-Einträge ohne Origin liefern", () => {
+    expect(
+      parseSitemap(`<?xml version="1.0"?>
+<urlset>
+  <url><loc>https://shop.example.de/</loc></url>
+  <url><loc> https://shop.example.de/produkte/?seite=2 </loc></url>
+  <url><loc>https://shop.example.de/produkte</loc></url>
+</urlset>`),
+    ).toEqual([
+      { name: "/", route: "/" },
+      { name: "/produkte", route: "/produkte" },
+    ]);
+  });
+});
+
+describe("parseRouteFile", () => {
+  it("sollte Routen aus Objekten und <Route path> lesen", () => {
+    expect(
+      parseRouteFile(
+        `export const routes = [
+  { path: "/users/:id", name: "Benutzerdetails" },
+  { path: "/admin", children: [{ path: "einstellungen" }] },
+];
+
+export const App = () => <Route path="/kasse" element={<Kasse />} />;
+`,
+        "routes.tsx",
+      ),
+    ).toEqual([
+      { name: "Benutzerdetails", route: "/users/:id" },
+      { name: "/admin", route: "/admin" },
+      { name: "/kasse", route: "/kasse" },
+    ]);
+  });
+});
+
+describe("loadFeatureInventory", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "feature-inventory-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("sollte Liste und Sitemap zusammenführen und doppelte Routen entfernen", () => {
+    const file = path.join(tempDir, "feature-inventory.json");
+    fs.writeFileSync(
+      path.join(tempDir, "sitemap.xml"),
+      "<urlset><url><loc>https://a.de/login</loc></url><url><loc>https://a.de/hilfe</loc></url></urlset>",
+    );
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        features: ["/login", { name: "Suche" }],
+        sitemap: "sitemap.xml",
+      }),
+    );
+
+    expect(loadFeatureInventory(file)).toEqual([
+      { name: "/login", route: "/login" },
+      { name: "Suche", area: "Suche" },
+      { name: "/hilfe", route: "/hilfe" },
+    ]);
+    expect(loadFeatureInventory(path.join(tempDir, "fehlt.json"))).toBeNull();
+  });
+
+  it("sollte fehlende Quellen und Features ohne Namen ablehnen", () => {
+    const file = path.join(tempDir, "feature-inventory.json");
+    fs.writeFileSync(file, JSON.stringify({ routeFile: "routes.ts" }));
+    expect(() => loadFeatureInventory(file)).toThrow(FeatureInventoryError);
+
+    fs.writeFileSync(file, JSON.stringify({ features: [{ route: "/a" }] }));
+    expect(() => loadFeatureInventory(file)).toThrow(/keinen Namen/);
+  });
+});
+
+describe("analyzeFeatureCoverage", () => {
+  it("sollte ungetestete, schwache, übertestete und abgedeckte Features erkennen", () => {
+    const tests = [
+      createMetadata("öffnet Bestellung", { visitedUrls: ["/orders/*"] }),
+      createMetadata("storniert Bestellung", {
+        visitedUrls: ["/orders/42/"],
+      }),
+      createMetadata("Startseite lädt", {
+        visitedUrls: ["/"],
+        tags: ["@smoke"],
+      }),
+      createMetadata("Startseite Smoke", {
+        visitedUrls: ["/"],
+        coverage: { area: [], type: ["Smoke"] },
+      }),
+      createMetadata("sucht", {
+        functionalAreas: ["Suche"],
+        visitedUrls: ["/intern/debug"],
+      }),
+      ...["a", "b", "c"].map((title) =>
+        createMetadata(`Profil ${title}`, { visitedUrls: ["/profil"] }),
+      ),
+    ];
+
+    const report = analyzeFeatureCoverage(
+      [
+        { name: "Bestellung", route: "/orders/:id" },
+        { name: "Start", route: "/" },
+        { name: "Suche", area: "Suche" },
+        { name: "Profil", route: "/profil" },
+        { name: "Kasse", route: "/kasse" },
+      ],
+      tests,
+      { overTestedThreshold: 2 },
+    );
+
+    expect(
+      report.features.map(({ name, status, reason, tests }) => ({
+        name,
+        status,
+        reason,
+        tests: tests.length,
+      })),
+    ).toEqual([
+      {
+        name: "Kasse",
+        status: "untested",
+        reason:
+          "Kein Test besucht die Route oder deckt den Funktionsbereich ab",
+        tests: 0,
+      },
+      { name: "Suche", status: "weak", reason: "Nur ein Test", tests: 1 },
+      { name: "Start", status: "weak", reason: "Nur Smoke-Tests", tests: 2 },
+      {
+        name: "Profil",
+        status: "over-tested",
+        reason: "3 Tests (mehr als 2)",
+        tests: 3,
+      },
+      { name: "Bestellung", status: "covered", reason: undefined, tests: 2 },
+    ]);
+    expect(report.features[1].tests[0].via).toEqual(["area"]);
+    expect(report.summary).toEqual({
+      total: 5,
+      untested: 1,
+      weak: 2,
+      covered: 1,
+      "over-tested": 1,
+      coverageRate: 0.8,
+    });
+    expect(report.unlistedUrls).toEqual([{ url: "/intern/debug", tests: 1 }]);
+  });
+});
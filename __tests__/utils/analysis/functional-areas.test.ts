@@ -0,0 +1,259 @@
+/**
+ * Tests für die Funktionsbereiche
+ *
+ * Diese Tests prüfen die Zuordnung über Pfade, Tags, Page Objects, URLs und
+ * Schlüsselwörter, Prioritäten mit exklusiven Regeln, die Vorschau pro Regel
+ * sowie das Laden und Prüfen der Taxonomie.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  applyTaxonomy,
+  classifyTest,
+  DEFAULT_TAXONOMY,
+  FunctionalAreaTaxonomy,
+  globToRegExp,
+  loadTaxonomy,
+  matchFunctionalAreas,
+  previewTaxonomy,
+  TaxonomyError,
+} from "../../../utils/analysis/functional-areas";
+import { TestMetadata } from "../../../utils/test-analyzer";
+
+function createMetadata(
+  file: string,
+  title: string,
+  details: Partial<TestMetadata> = {},
+): TestMetadata {
+  return {
+    id: `${file} › ${title}`,
+    caseId: title,
+    file,
+    path: `/repo/${file}`,
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 1,
+    column: 1,
+    testType: "E2E",
+    selectors: [],
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity: 1,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: ["Functional"] },
+    ...details,
+  };
+}
+
+const TAXONOMY: FunctionalAreaTaxonomy = {
+  areas: [
+    { name: "Konto", paths: ["tests/konto/**"], keywords: ["profil"] },
+    { name: "Kasse", tags: ["checkout"], pageObjects: ["Checkout*"] },
+    { name: "Admin", urls: ["/admin/**"], priority: 10, exclusive: true },
+  ],
+  fallback: "Sonstiges",
+};
+
+describe("globToRegExp", () => {
+  it("sollte ** über Verzeichnisse und * innerhalb eines Segments abbilden", () => {
+    expect(globToRegExp("tests/**/*.spec.ts").test("tests/a/b/c.spec.ts")).toBe(
+      true,
+    );
+    expect(globToRegExp("tests/**/*.spec.ts").test("tests/c.spec.ts")).toBe(
+      true,
+    );
+    expect(globToRegExp("/admin/*").test("/admin/users/1")).toBe(false);
+    expect(globToRegExp("/admin/**").test("/admin/users/1")).toBe(true);
+  });
+});
+
+describe("matchFunctionalAreas", () => {
+  it("sollte die zutreffenden Kriterien je Regel liefern", () => {
+    const matches = matchFunctionalAreas(
+      createMetadata("tests/konto/profil.spec.ts", "ändert Profil", {
+        tags: ["@checkout"],
+        pageObjects: ["CheckoutPage"],
+      }),
+      TAXONOMY,
+    );
+
+    expect(matches).toEqual([
+      {
+        area: "Konto",
+        priority: 0,
+        shadowed: false,
+        criteria: [
+          {
+            criterion: "path",
+            pattern: "tests/konto/**",
+            value: "tests/konto/profil.spec.ts",
+          },
+          {
+            criterion: "keyword",
+            pattern: "profil",
+            value: "profil.spec.ts ändert profil",
+          },
+        ],
+      },
+      {
+        area: "Kasse",
+        priority: 0,
+        shadowed: false,
+        criteria: [
+          { criterion: "tag", pattern: "checkout", value: "@checkout" },
+          {
+            criterion: "pageObject",
+            pattern: "Checkout*",
+            value: "CheckoutPage",
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("sollte Regeln mit niedrigerer Priorität nach einem exklusiven Treffer verdrängen", () => {
+    const test = createMetadata(
+      "tests/konto/rechte.spec.ts",
+      "vergibt Rechte",
+      {
+        visitedUrls: ["/admin/users"],
+      },
+    );
+
+    expect(
+      matchFunctionalAreas(test, TAXONOMY).map(({ area, shadowed }) => ({
+        area,
+        shadowed,
+      })),
+    ).toEqual([
+      { area: "Admin", shadowed: false },
+      { area: "Konto", shadowed: true },
+    ]);
+    expect(classifyTest(test, TAXONOMY)).toEqual(["Admin"]);
+  });
+});
+
+describe("applyTaxonomy", () => {
+  it("sollte functionalAreas und coverage.area neu setzen und den Fallback verwenden", () => {
+    const [checkout, other] = applyTaxonomy(
+      [
+        createMetadata("tests/kasse.spec.ts", "bezahlt", {
+          tags: ["@checkout"],
+        }),
+        createMetadata("tests/start.spec.ts", "lädt Startseite", {
+          functionalAreas: ["Alt"],
+        }),
+      ],
+      TAXONOMY,
+    );
+
+    expect(checkout.functionalAreas).toEqual(["Kasse"]);
+    expect(checkout.coverage).toEqual({
+      area: ["Kasse"],
+      type: ["Functional"],
+    });
+    expect(other.functionalAreas).toEqual(["Sonstiges"]);
+  });
+
+  it("sollte mit der Standard-Taxonomie über URLs und Titel zuordnen", () => {
+    expect(
+      classifyTest(
+        createMetadata("tests/a.spec.ts", "meldet an", {
+          visitedUrls: ["/login"],
+        }),
+        DEFAULT_TAXONOMY,
+      ),
+    ).toEqual(["Authentifizierung"]);
+    expect(
+      classifyTest(createMetadata("tests/a.spec.ts", "lädt"), DEFAULT_TAXONOMY),
+    ).toEqual(["Allgemein"]);
+  });
+});
+
+describe("previewTaxonomy", () => {
+  it("sollte pro Regel getroffene und verdrängte Tests sowie Tests ohne Treffer zeigen", () => {
+    const preview = previewTaxonomy(
+      [
+        createMetadata("tests/konto/rechte.spec.ts", "vergibt Rechte", {
+          visitedUrls: ["/admin/users"],
+        }),
+        createMetadata("tests/konto/daten.spec.ts", "ändert Daten"),
+        createMetadata("tests/start.spec.ts", "lädt"),
+      ],
+      TAXONOMY,
+    );
+
+    expect(preview.rules.map((rule) => rule.area)).toEqual([
+      "Admin",
+      "Konto",
+      "Kasse",
+    ]);
+    expect(preview.rules[0].tests.map((test) => test.title)).toEqual([
+      "vergibt Rechte",
+    ]);
+    expect(preview.rules[1].tests.map((test) => test.title)).toEqual([
+      "ändert Daten",
+    ]);
+    expect(preview.rules[1].shadowedTests.map((test) => test.title)).toEqual([
+      "vergibt Rechte",
+    ]);
+    expect(preview.unmatchedTests).toEqual([
+      {
+        testId: "tests/start.spec.ts › lädt",
+        file: "tests/start.spec.ts",
+        title: "lädt",
+      },
+    ]);
+    expect(preview.fallback).toBe("Sonstiges");
+    expect(preview.testsAnalyzed).toBe(3);
+  });
+});
+
+describe("loadTaxonomy", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "functional-areas-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("sollte ohne Datei die Standard-Taxonomie liefern", () => {
+    expect(loadTaxonomy(path.join(tempDir, "fehlt.json"))).toBe(
+      DEFAULT_TAXONOMY,
+    );
+  });
+
+  it("sollte die Datei lesen und ungültige Regeln ablehnen", () => {
+    const file = path.join(tempDir, "functional-areas.json");
+    fs.writeFileSync(file, JSON.stringify({ areas: [{ name: "Kasse" }] }));
+    expect(loadTaxonomy(file)).toEqual({
+      areas: [{ name: "Kasse" }],
+      fallback: "Allgemein",
+    });
+
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ areas: [{ name: "Kasse", urls: "/cart" }] }),
+    );
+    expect(() => loadTaxonomy(file)).toThrow(TaxonomyError);
+
+    fs.writeFileSync(file, "{ areas: ");
+    expect(() => loadTaxonomy(file)).toThrow(/nicht lesbar/);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Tests für die inkrementelle Test-Analyse
+ *
+ * Diese Tests prüfen, dass nur neue oder geänderte Dateien erneut analysiert
+ * werden, gelöschte Dateien aus dem Cache fallen und der Änderungsbericht
+ * neue, entfernte und geänderte Tests enthält.
+ */
+
+import * as fs from "fs";
+import {
+  diffTestMetadata,
+  IncrementalTestAnalyzer,
+} from "../../../utils/analysis/incremental-analysis";
+import {
+  TEST_ANALYZER_VERSION,
+  TestAnalyzer,
+  TestMetadata,
+} from "../../../utils/test-analyzer";
+
+// Dateien im Speicher (Testdateien und Cache); andere Pfade (z.B. von typescript) gehen an fs
+const files = new Map<string, string>();
+const isVirtual = (file: string) =>
+  file.startsWith("/repo/") || file.startsWith("/results/");
+
+jest.mock("fs", () => {
+  const actual = jest.requireActual("fs");
+
+  return {
+    ...actual,
+    existsSync: jest.fn((file: string) =>
+      isVirtual(file) ? files.has(file) : actual.existsSync(file),
+    ),
+    readFileSync: jest.fn((file: string, ...args: unknown[]) => {
+      if (!isVirtual(file)) return actual.readFileSync(file, ...args);
+      if (!files.has(file)) throw new Error(`ENOENT: ${file}`);
+      return files.get(file);
+    }),
+    writeFileSync: jest.fn((file: string, content: string) =>
+      files.set(file, content),
+    ),
+    mkdirSync: jest.fn(),
+  };
+});
+
+const CACHE_PATH = "/results/test-analysis-cache.json";
+
+function createMetadata(
+  file: string,
+  title: string,
+  complexity: number = 1,
+  selectorValues: string[] = [],
+): TestMetadata {
+  return {
+    id: `${file} › ${title}`,
+    caseId: title,
+    file,
+    path: `/repo/${file}`,
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 1,
+    column: 1,
+    testType: "E2E",
+    selectors: selectorValues.map((value) => ({
+      type: "css",
+      value,
+      usage: "click",
+      line: 2,
+      column: 1,
+    })),
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: [] },
+  };
+}
+
+describe("diffTestMetadata", () => {
+  it("sollte neue, entfernte und geänderte Tests über die Test-ID erkennen", () => {
+    const report = diffTestMetadata(
+      [
+        createMetadata("tests/a.spec.ts", "bleibt", 2, ["#a", "#b"]),
+        createMetadata("tests/a.spec.ts", "unverändert", 1, ["#x"]),
+        createMetadata("tests/a.spec.ts", "entfernt"),
+      ],
+      [
+        createMetadata("tests/a.spec.ts", "bleibt", 4, ["#b", "#c", "#c"]),
+        createMetadata("tests/a.spec.ts", "unverändert", 1, ["#x"]),
+        createMetadata("tests/b.spec.ts", "neu"),
+      ],
+    );
+
+    expect(report).toEqual({
+      added: [
+        { id: "tests/b.spec.ts › neu", file: "tests/b.spec.ts", title: "neu" },
+      ],
+      removed: [
+        {
+          id: "tests/a.spec.ts › entfernt",
+          file: "tests/a.spec.ts",
+          title: "entfernt",
+        },
+      ],
+      changed: [
+        {
+          id: "tests/a.spec.ts › bleibt",
+          file: "tests/a.spec.ts",
+          title: "bleibt",
+          complexity: { before: 2, after: 4 },
+          selectors: { added: ["css=#c"], removed: ["css=#a"] },
+        },
+      ],
+    });
+  });
+});
+
+describe("IncrementalTestAnalyzer", () => {
+  let analyzer: { findTestFiles: jest.Mock; analyzeTestFile: jest.Mock };
+  let incremental: IncrementalTestAnalyzer;
+
+  beforeEach(() => {
+    files.clear();
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    files.set("/repo/tests/a.spec.ts", "test('a')");
+    files.set("/repo/tests/b.spec.ts", "test('b')");
+    analyzer = {
+      findTestFiles: jest.fn(() =>
+        Array.from(files.keys()).filter((file) => file.startsWith("/repo/")),
+      ),
+      analyzeTestFile: jest.fn((file: string) => [
+        createMetadata(file.replace("/repo/", ""), files.get(file)!),
+      ]),
+    };
+    incremental = new IncrementalTestAnalyzer(
+      "/repo",
+      CACHE_PATH,
+      analyzer as unknown as TestAnalyzer,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sollte nur geänderte Dateien neu analysieren und gelöschte entfernen", () => {
+    const first = incremental.analyze();
+    expect(first.files).toEqual({
+      analyzed: ["tests/a.spec.ts", "tests/b.spec.ts"],
+      cached: 0,
+      removed: [],
+    });
+    expect(first.changes).toBeNull();
+
+    files.set("/repo/tests/a.spec.ts", "test('a2')");
+    files.delete("/repo/tests/b.spec.ts");
+    analyzer.analyzeTestFile.mockClear();
+
+    const second = incremental.analyze();
+
+    expect(analyzer.analyzeTestFile).toHaveBeenCalledTimes(1);
+    expect(analyzer.analyzeTestFile).toHaveBeenCalledWith(
+      "/repo/tests/a.spec.ts",
+    );
+    expect(second.files).toEqual({
+      analyzed: ["tests/a.spec.ts"],
+      cached: 0,
+      removed: ["tests/b.spec.ts"],
+    });
+    expect(second.results.map((test) => test.title)).toEqual(["test('a2')"]);
+    expect(second.changes!.added.map((test) => test.title)).toEqual([
+      "test('a2')",
+    ]);
+    expect(second.changes!.removed.map((test) => test.title)).toEqual([
+      "test('a')",
+      "test('b')",
+    ]);
+
+    analyzer.analyzeTestFile.mockClear();
+    const third = incremental.analyze();
+
+    expect(analyzer.analyzeTestFile).not.toHaveBeenCalled();
+    expect(third.files.cached).toBe(1);
+    expect(third.changes).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it("sollte den Cache bei anderer Analyzer-Version oder force nicht verwenden", () => {
+    incremental.analyze();
+    const cache = JSON.parse(files.get(CACHE_PATH)!);
+    expect(cache.analyzerVersion).toBe(TEST_ANALYZER_VERSION);
+
+    files.set(
+      CACHE_PATH,
+      JSON.stringify({ ...cache, analyzerVersion: TEST_ANALYZER_VERSION - 1 }),
+    );
+    analyzer.analyzeTestFile.mockClear();
+    expect(incremental.analyze().files.analyzed).toHaveLength(2);
+
+    analyzer.analyzeTestFile.mockClear();
+    expect(incremental.analyze({ force: true }).files.cached).toBe(0);
+    expect(analyzer.analyzeTestFile).toHaveBeenCalledTimes(2);
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      CACHE_PATH,
+      expect.any(String),
+      "utf-8",
+    );
+  });
+
+  it("sollte fehlerhafte Dateien nicht zwischenspeichern", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    analyzer.analyzeTestFile.mockImplementationOnce(() => {
+      throw new Error("Syntaxfehler");
+    });
+
+    const result = incremental.analyze();
+
+    expect(result.files.analyzed).toEqual(["tests/b.spec.ts"]);
+    expect(Object.keys(JSON.parse(files.get(CACHE_PATH)!).files)).toEqual([
+      "tests/b.spec.ts",
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests für die Bewertung der Selektorqualität
+ *
+ * Diese Tests prüfen die Erkennung anfälliger Selektoren, die Empfehlungen
+ * sowie die projektweite Zusammenfassung mit den schwächsten Fundstellen.
+ */
+
+import {
+  analyzeSelectorHealth,
+  assessSelector,
+} from "../../../utils/analysis/selector-quality";
+import { TestMetadata, TestSelector } from "../../../utils/test-analyzer";
+
+function selector(
+  type: string,
+  value: string,
+  usage: string = "locate",
+  line: number = 1,
+): TestSelector {
+  return { type, value, usage, line, column: 5 };
+}
+
+function createMetadata(
+  title: string,
+  selectors: TestSelector[],
+): TestMetadata {
+  return {
+    id: `tests/warenkorb.spec.ts › ${title}`,
+    caseId: `warenkorb.spec.ts › ${title}`,
+    file: "tests/warenkorb.spec.ts",
+    path: "/repo/tests/warenkorb.spec.ts",
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 3,
+    column: 1,
+    testType: "E2E",
+    selectors,
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity: 1,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: [] },
+  };
+}
+
+describe("assessSelector", () => {
+  it("sollte getByRole, getByLabel und getByTestId als robust bewerten", () => {
+    for (const type of ["role", "label", "testId"]) {
+      expect(assessSelector(selector(type, "Speichern", "click"))).toEqual({
+        score: expect.any(Number),
+        rating: "robust",
+        issues: [],
+        recommendation: undefined,
+      });
+    }
+  });
+
+  it("sollte anfällige Muster erkennen und eine bessere Strategie vorschlagen", () => {
+    const nth = assessSelector(
+      selector("css", "ul > li:nth-child(3) .Button_primary__a1B2c", "click"),
+    );
+    expect(nth.issues.map((issue) => issue.code)).toEqual([
+      "nth-child",
+      "generated-class",
+      "raw-css-action",
+    ]);
+    expect(nth.score).toBe(0);
+    expect(nth.rating).toBe("brittle");
+    expect(nth.recommendation).toContain("getByRole()");
+
+    const xpath = assessSelector(
+      selector("xpath", "/html/body/div[2]/form/button"),
+    );
+    expect(xpath.issues.map((issue) => issue.code)).toEqual([
+      "nth-child",
+      "deep-xpath",
+    ]);
+
+    const text = assessSelector(selector("text", "Bestellung vom 12.03.2026"));
+    expect(text.issues).toEqual([
+      expect.objectContaining({ code: "dynamic-text", penalty: 25 }),
+    ]);
+    expect(text.rating).toBe("acceptable");
+  });
+});
+
+describe("analyzeSelectorHealth", () => {
+  it("sollte die schwächsten Selektoren mit Fundstelle und häufige Probleme liefern", () => {
+    const report = analyzeSelectorHealth(
+      [
+        createMetadata("legt Artikel ab", [
+          selector("role", 'button[name="In den Warenkorb"]', "click", 4),
+          selector("css", "#cart-x7k2p9", "click", 5),
+        ]),
+        createMetadata("zeigt Summe", [
+          selector("text", "3 Artikel", "assert", 9),
+          selector("css", ".summe", "locate", 10),
+        ]),
+        createMetadata("ohne Selektoren", []),
+      ],
+      2,
+    );
+
+    expect(report.totalSelectors).toBe(4);
+    expect(report.ratings).toEqual({ robust: 1, acceptable: 2, brittle: 1 });
+    expect(
+      report.worstOffenders.map(({ value, file, line, score }) => ({
+        value,
+        file,
+        line,
+        score,
+      })),
+    ).toEqual([
+      {
+        value: "#cart-x7k2p9",
+        file: "tests/warenkorb.spec.ts",
+        line: 5,
+        score: 20,
+      },
+      {
+        value: "3 Artikel",
+        file: "tests/warenkorb.spec.ts",
+        line: 9,
+        score: 55,
+      },
+    ]);
+    expect(report.tests.map((test) => test.title)).toEqual([
+      "zeigt Summe",
+      "legt Artikel ab",
+      "ohne Selektoren",
+    ]);
+    expect(report.recommendations.map((entry) => entry.code)).toEqual([
+      "generated-class",
+      "raw-css-action",
+      "dynamic-text",
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests für den Run-Event-Reporter
+ *
+ * Diese Tests prüfen die Ereigniszeilen des Reporters und deren Auswertung
+ * durch parseRunEventLine.
+ */
+
+import RunEventReporter, {
+  parseRunEventLine,
+  RUN_EVENT_PREFIX,
+} from "../../../utils/execution/run-event-reporter";
+
+function createTestCase(retries: number, outcome: string): any {
+  return {
+    title: "meldet an",
+    retries,
+    location: { file: "/repo/tests/login.spec.ts", line: 3, column: 1 },
+    titlePath: () => ["", "chromium", "login.spec.ts", "Login", "meldet an"],
+    parent: { project: () => ({ name: "chromium" }) },
+    outcome: () => outcome,
+  };
+}
+
+describe("RunEventReporter", () => {
+  let writeSpy: jest.SpyInstance;
+  let reporter: RunEventReporter;
+
+  beforeEach(() => {
+    writeSpy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+    reporter = new RunEventReporter();
+  });
+
+  afterEach(() => {
+    writeSpy.mockRestore();
+  });
+
+  function emittedEvents() {
+    return writeSpy.mock.calls.map(([line]) =>
+      parseRunEventLine(String(line).trimEnd()),
+    );
+  }
+
+  it("sollte Beginn und Ende eines Testfalls als Ereigniszeilen ausgeben", () => {
+    const test = createTestCase(0, "expected");
+    reporter.onBegin({} as any, { allTests: () => [test, test] } as any);
+    reporter.onTestBegin(test, { retry: 0 } as any);
+    reporter.onTestEnd(test, {
+      retry: 0,
+      status: "passed",
+      duration: 120,
+    } as any);
+
+    expect(emittedEvents()).toEqual([
+      { type: "run-begin", totalTests: 2 },
+      {
+        type: "test-begin",
+        testId: "login.spec.ts › Login › meldet an",
+        title: "meldet an",
+        file: "login.spec.ts",
+        project: "chromium",
+        retry: 0,
+      },
+      expect.objectContaining({
+        type: "test-end",
+        status: "passed",
+        duration: 120,
+        final: true,
+      }),
+    ]);
+  });
+
+  it("sollte Wiederholungen und flaky-Ergebnisse kennzeichnen", () => {
+    const test = createTestCase(1, "flaky");
+    reporter.onTestEnd(test, {
+      retry: 0,
+      status: "timedOut",
+      duration: 30000,
+      error: { message: "Timeout" },
+    } as any);
+    reporter.onTestEnd(test, {
+      retry: 1,
+      status: "passed",
+      duration: 900,
+    } as any);
+
+    expect(emittedEvents()).toEqual([
+      expect.objectContaining({
+        status: "timed-out",
+        final: false,
+        error: "Timeout",
+      }),
+      expect.objectContaining({ status: "flaky", final: true, retry: 1 }),
+    ]);
+  });
+});
+
+describe("parseRunEventLine", () => {
+  it("sollte normale und beschädigte Zeilen ignorieren", () => {
+    expect(parseRunEventLine("  ✓  1 [chromium] › login.spec.ts")).toBeNull();
+    expect(parseRunEventLine(`${RUN_EVENT_PREFIX}{kaputt`)).toBeNull();
+  });
+});
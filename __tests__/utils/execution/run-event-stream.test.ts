@@ -0,0 +1,90 @@
+/**
+ * Tests für den Run-Event-Stream
+ *
+ * Diese Tests prüfen die fortlaufenden Ereignis-IDs, die Zustellung an
+ * Abonnenten, das Nachliefern über Last-Event-ID und den Abschluss eines Laufs.
+ */
+
+import {
+  formatSseEvent,
+  RunEvent,
+  RunEventStream,
+} from "../../../utils/execution/run-event-stream";
+
+describe("RunEventStream", () => {
+  let stream: RunEventStream;
+
+  beforeEach(() => {
+    stream = new RunEventStream(3, 1000);
+  });
+
+  it("sollte Ereignisse mit fortlaufenden IDs an Abonnenten zustellen", () => {
+    const received: RunEvent[] = [];
+    stream.publish("run1", "log", { message: "Start" });
+    stream.subscribe("run1", (event) => received.push(event));
+
+    stream.publish("run1", "test-begin", { title: "Anmeldung" });
+    stream.publish("run2", "log", { message: "anderer Lauf" });
+
+    expect(received.map((event) => [event.id, event.type])).toEqual([
+      [1, "log"],
+      [2, "test-begin"],
+    ]);
+    expect(stream.subscribe("fehlt", () => {})).toBeNull();
+  });
+
+  it("sollte nach Last-Event-ID nur verpasste Ereignisse nachliefern", () => {
+    for (let index = 1; index <= 5; index++) {
+      stream.publish("run1", "log", { message: `Zeile ${index}` });
+    }
+
+    const received: number[] = [];
+    const unsubscribe = stream.subscribe(
+      "run1",
+      (event) => received.push(event.id),
+      3,
+    );
+    unsubscribe!();
+    stream.publish("run1", "log", { message: "nach Abbestellung" });
+
+    // Der Puffer hält nur die letzten drei Ereignisse
+    expect(received).toEqual([4, 5]);
+  });
+
+  it("sollte einen Lauf mit end abschließen und danach nichts mehr annehmen", () => {
+    jest.useFakeTimers();
+    const listener = jest.fn();
+    stream.publish("run1", "log", { message: "Start" });
+    stream.subscribe("run1", listener);
+
+    stream.complete("run1", { status: "completed" });
+
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "end", data: { status: "completed" } }),
+    );
+    expect(stream.publish("run1", "log", { message: "zu spät" })).toBeNull();
+
+    // Späte Abonnenten erhalten den Puffer inklusive end
+    const late = jest.fn();
+    stream.subscribe("run1", late);
+    expect(late).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1000);
+    expect(stream.has("run1")).toBe(false);
+    jest.useRealTimers();
+  });
+});
+
+describe("formatSseEvent", () => {
+  it("sollte ID, Typ und JSON-Daten im SSE-Format ausgeben", () => {
+    expect(
+      formatSseEvent({
+        id: 7,
+        runId: "run1",
+        type: "progress",
+        data: { completed: 1 },
+        timestamp: 0,
+      }),
+    ).toBe('id: 7\nevent: progress\ndata: {"completed":1}\n\n');
+  });
+});
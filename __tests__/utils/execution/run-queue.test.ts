@@ -0,0 +1,133 @@
+/**
+ * Tests für die Test-Run-Queue
+ *
+ * Diese Tests prüfen die Begrenzung der Parallelität, die Reihenfolge nach
+ * Priorität und den Abbruch wartender und laufender Läufe.
+ */
+
+import { QueueJob, TestRunQueue } from "../../../utils/execution/run-queue";
+
+/**
+ * Erstellt einen Job, dessen Ausführung über finish() beendet wird
+ */
+function createJob(
+  runId: string,
+  priority?: number,
+): QueueJob & { started: boolean; finish: () => Promise<void> } {
+  let resolveRun: () => void = () => {};
+  const job = {
+    runId,
+    priority,
+    started: false,
+    start: jest.fn(() => {
+      job.started = true;
+      return new Promise<void>((resolve) => {
+        resolveRun = resolve;
+      });
+    }),
+    stop: jest.fn(async () => resolveRun()),
+    finish: async () => {
+      resolveRun();
+      await new Promise((resolve) => setImmediate(resolve));
+    },
+  };
+  return job;
+}
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("TestRunQueue", () => {
+  it("sollte höchstens maxConcurrency Läufe gleichzeitig starten", async () => {
+    const queue = new TestRunQueue(2);
+    const jobs = ["a", "b", "c"].map((runId) => createJob(runId));
+
+    jobs.forEach((job) => queue.enqueue(job));
+    await flush();
+
+    expect(jobs.map((job) => job.started)).toEqual([true, true, false]);
+    expect(queue.list().queued).toEqual([
+      expect.objectContaining({ runId: "c", position: 1 }),
+    ]);
+
+    await jobs[0].finish();
+
+    expect(jobs[2].started).toBe(true);
+    expect(queue.getEntry("a")).toEqual(
+      expect.objectContaining({ state: "finished", outcome: "completed" }),
+    );
+  });
+
+  it("sollte wartende Läufe nach Priorität und dann nach Eingang starten", async () => {
+    const queue = new TestRunQueue(1);
+    const running = createJob("laufend");
+    queue.enqueue(running);
+    queue.enqueue(createJob("normal-1"));
+    queue.enqueue(createJob("normal-2"));
+    queue.enqueue(createJob("dringend", 5));
+
+    expect(queue.list().queued.map((entry) => entry.runId)).toEqual([
+      "dringend",
+      "normal-1",
+      "normal-2",
+    ]);
+    expect(queue.getPosition("normal-2")).toBe(3);
+    expect(queue.getPosition("laufend")).toBeNull();
+
+    await flush();
+    await running.finish();
+    expect(queue.list().running.map((entry) => entry.runId)).toEqual([
+      "dringend",
+    ]);
+  });
+
+  it("sollte wartende Läufe ohne Start abbrechen", async () => {
+    const onChange = jest.fn();
+    const queue = new TestRunQueue(1, onChange);
+    queue.enqueue(createJob("laufend"));
+    const waiting = createJob("wartend");
+    queue.enqueue(waiting);
+
+    await expect(queue.cancel("wartend")).resolves.toBe("queued");
+    await expect(queue.cancel("wartend")).resolves.toBeNull();
+
+    expect(waiting.start).not.toHaveBeenCalled();
+    expect(queue.list().queued).toHaveLength(0);
+    expect(onChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        runId: "wartend",
+        state: "finished",
+        outcome: "aborted",
+      }),
+    );
+  });
+
+  it("sollte laufende Läufe stoppen, als abgebrochen beenden und den nächsten starten", async () => {
+    const queue = new TestRunQueue(1);
+    const running = createJob("laufend");
+    const next = createJob("nächster");
+    queue.enqueue(running);
+    queue.enqueue(next);
+    await flush();
+
+    await expect(queue.cancel("laufend")).resolves.toBe("running");
+    await flush();
+
+    expect(running.stop).toHaveBeenCalledTimes(1);
+    expect(queue.getEntry("laufend")?.outcome).toBe("aborted");
+    expect(next.started).toBe(true);
+  });
+
+  it("sollte bei höherer Parallelität sofort weitere Läufe starten", async () => {
+    const queue = new TestRunQueue(1);
+    const jobs = ["a", "b"].map((runId) => createJob(runId));
+    jobs.forEach((job) => queue.enqueue(job));
+
+    queue.setMaxConcurrency(2);
+    await flush();
+
+    expect(jobs[1].started).toBe(true);
+    expect(queue.list().maxConcurrency).toBe(2);
+  });
+});
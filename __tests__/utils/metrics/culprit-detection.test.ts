@@ -0,0 +1,204 @@
+/**
+ * Tests für die Culprit-Erkennung
+ *
+ * Diese Tests prüfen die Suche nach dem letzten erfolgreichen und dem ersten
+ * fehlgeschlagenen Lauf sowie die Rangfolge der Commits dazwischen. Die
+ * git-Historie wird über einen Mock von runGitCommand vorgegeben.
+ */
+
+jest.mock("../../../utils/results/run-metadata", () => {
+  const actual = jest.requireActual("../../../utils/results/run-metadata");
+  return { ...actual, runGitCommand: jest.fn() };
+});
+
+import { PlaywrightTestResultFile } from "../../../types/playwright-results";
+import { FunctionalAreaTaxonomy } from "../../../utils/analysis/functional-areas";
+import {
+  CulpritDetector,
+  parseGitLog,
+  rankCommits,
+} from "../../../utils/metrics/culprit-detection";
+import { runGitCommand } from "../../../utils/results/run-metadata";
+import { ResultsStore } from "../../../utils/storage/results-store";
+import { TestMetadata } from "../../../utils/test-analyzer";
+
+const mockRunGitCommand = runGitCommand as jest.Mock;
+
+// Ausgabe von git log im Format von readCommitsBetween
+function gitLog(
+  commits: Array<{ sha: string; subject: string; files: string[] }>,
+): string {
+  return commits
+    .map(
+      ({ sha, subject, files }) =>
+        `\x1e${sha}\x1fErika\x1f1720000000\x1f${subject}\n\n${files.join("\n")}`,
+    )
+    .join("\n");
+}
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  commit: string,
+  status: "passed" | "failed",
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp,
+    branch: "main",
+    git: { commit, branch: "main" },
+    success: status === "passed",
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: status === "passed" ? 1 : 0,
+      failed: status === "failed" ? 1 : 0,
+      skipped: 0,
+      passRate: status === "passed" ? 100 : 0,
+      failRate: status === "failed" ? 100 : 0,
+      skipRate: 0,
+      totalDuration: 100,
+      totalTests: 1,
+      averageDuration: 100,
+    },
+    testResults: [
+      {
+        filename: "login.spec.ts",
+        path: "tests/auth/login.spec.ts",
+        title: "meldet an",
+        status,
+        duration: 100,
+      },
+    ],
+  };
+}
+
+const analyzedTest = {
+  caseId: "login.spec.ts › meldet an",
+  file: "tests/auth/login.spec.ts",
+  dependencies: ["@playwright/test", "../pages/login-page"],
+  functionalAreas: ["Authentifizierung"],
+} as TestMetadata;
+
+const taxonomy: FunctionalAreaTaxonomy = {
+  areas: [{ name: "Authentifizierung", paths: ["src/auth/**"] }],
+};
+
+describe("rankCommits", () => {
+  it("sollte Commits an Testdatei, Page Objects und Funktionsbereich vor die übrigen stellen", () => {
+    const commits = parseGitLog(
+      gitLog([
+        { sha: "c5", subject: "Doku", files: ["README.md"] },
+        { sha: "c4", subject: "Bereich", files: ["src/auth/session.ts"] },
+        {
+          sha: "c3",
+          subject: "Page Object",
+          files: ["tests/pages/login-page.ts"],
+        },
+        {
+          sha: "c2",
+          subject: "Spec und Bereich",
+          files: ["tests/auth/login.spec.ts", "src/auth/form.ts"],
+        },
+      ]),
+    );
+
+    const ranked = rankCommits(
+      commits,
+      "tests/auth/login.spec.ts",
+      analyzedTest,
+      taxonomy,
+    );
+
+    expect(ranked.map((commit) => [commit.commit, commit.score])).toEqual([
+      ["c2", 4],
+      ["c3", 2],
+      ["c4", 1],
+      ["c5", 0],
+    ]);
+    expect(ranked[1].reasons).toEqual([
+      {
+        kind: "pageObject",
+        file: "tests/pages/login-page.ts",
+        detail: "../pages/login-page",
+      },
+    ]);
+    expect(ranked[2].reasons[0].detail).toBe("Authentifizierung (src/auth/**)");
+  });
+});
+
+describe("CulpritDetector", () => {
+  let store: ResultsStore;
+  let detector: CulpritDetector;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // Results-Store nur im Speicher, damit keine Dateien geschrieben werden
+    store = new ResultsStore();
+    detector = new CulpritDetector("/tmp", store);
+
+    store.saveRun(createRun("run1", 1000, "aaaaaaa1", "passed"));
+    store.saveRun(createRun("run2", 2000, "aaaaaaa2", "passed"));
+    store.saveRun(createRun("run3", 3000, "aaaaaaa3", "passed"));
+    store.saveRun(createRun("run4", 4000, "bbbbbbb4", "failed"));
+    store.saveRun(createRun("run5", 5000, "bbbbbbb5", "failed"));
+  });
+
+  it("sollte den Wechsel finden und die Commits dazwischen bewerten", () => {
+    mockRunGitCommand.mockReturnValue(
+      gitLog([
+        { sha: "bbbbbbb4", subject: "Login umbauen", files: ["README.md"] },
+        {
+          sha: "ccccccc1",
+          subject: "Login-Formular",
+          files: ["tests/pages/login-page.ts"],
+        },
+      ]),
+    );
+
+    const report = detector.analyzeRun("run5", {
+      tests: [analyzedTest],
+      taxonomy,
+    });
+
+    expect(report?.commit).toBe("bbbbbbb5");
+    expect(report?.failures).toHaveLength(1);
+    expect(report?.failures[0]).toMatchObject({
+      caseId: "login.spec.ts › meldet an",
+      lastGood: { runId: "run3", commit: "aaaaaaa3" },
+      firstBad: { runId: "run4", commit: "bbbbbbb4" },
+      passingRuns: 3,
+    });
+    expect(report?.failures[0].commits.map((c) => c.commit)).toEqual([
+      "ccccccc1",
+      "bbbbbbb4",
+    ]);
+    expect(mockRunGitCommand).toHaveBeenCalledWith(
+      expect.arrayContaining(["log", "aaaaaaa3..bbbbbbb4"]),
+      expect.any(String),
+    );
+  });
+
+  it("sollte Tests ohne dauerhaft bestandenen Verlauf übergehen", () => {
+    const report = detector.analyzeRun("latest", { minPassingRuns: 4 });
+
+    expect(report?.runId).toBe("run5");
+    expect(report?.failures).toEqual([]);
+    expect(mockRunGitCommand).not.toHaveBeenCalled();
+  });
+
+  it("sollte einen Hinweis liefern, wenn git den Bereich nicht kennt", () => {
+    mockRunGitCommand.mockReturnValue(null);
+
+    const report = detector.analyzeRun("run4");
+
+    expect(report?.failures[0].commits).toEqual([]);
+    expect(report?.failures[0].issue).toBe(
+      "Commit-Bereich aaaaaaa3..bbbbbbb4 ist in der lokalen git-Historie nicht vorhanden",
+    );
+  });
+
+  it("sollte null für einen unbekannten Lauf zurückgeben", () => {
+    expect(detector.analyzeRun("fehlt")).toBeNull();
+  });
+});
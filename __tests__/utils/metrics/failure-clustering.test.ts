@@ -0,0 +1,211 @@
+/**
+ * Tests für das Clustering von Testfehlern
+ *
+ * Diese Tests prüfen die Normalisierung von Fehlermeldungen, die Bildung der
+ * Signatur sowie die Gruppierung innerhalb eines Laufs und über den Verlauf.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../../types/playwright-results";
+import {
+  clusterFailures,
+  FailureClusterAnalyzer,
+  getFailureSignature,
+  normalizeErrorText,
+} from "../../../utils/metrics/failure-clustering";
+import { ResultsStore } from "../../../utils/storage/results-store";
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  tests: Array<Partial<PlaywrightSingleTestResult>>,
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp,
+    success: false,
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      passRate: 0,
+      failRate: 0,
+      skipRate: 0,
+      totalDuration: 0,
+      totalTests: tests.length,
+      averageDuration: 0,
+    },
+    testResults: tests.map((test) => ({
+      filename: "login.spec.ts",
+      path: "tests/login.spec.ts",
+      status: "failed",
+      duration: 100,
+      ...test,
+    })),
+  };
+}
+
+function timeoutError(selector: string, line: number) {
+  return {
+    message: `TimeoutError: locator.click: Timeout 30000ms exceeded.\nCall log:\n  - waiting for locator('${selector}')`,
+    stack: `TimeoutError: locator.click\n    at /home/ci/tests/login.spec.ts:${line}:13`,
+  };
+}
+
+describe("normalizeErrorText", () => {
+  it("sollte Zeilennummern, IDs, Zeitstempel und Zahlen ersetzen", () => {
+    expect(
+      normalizeErrorText(
+        "\u001b[31mFehler\u001b[39m um 2025-07-10T12:00:00.000Z in /home/ci/tests/login.spec.ts:42:13 für Nutzer 3f2b8c1d-1234-4abc-9def-0123456789ab",
+      ),
+    ).toBe("Fehler um <timestamp> in login.spec.ts:<line> für Nutzer <id>");
+    expect(normalizeErrorText("Adresse 0x7ffd Hash 9f86d081884c7d65")).toBe(
+      "Adresse <id> Hash <id>",
+    );
+  });
+
+  it("sollte dynamische Teile von Selektoren entfernen", () => {
+    expect(
+      normalizeErrorText(
+        "locator('#item-12345 .Button_primary__a1B2c >> nth=3')",
+      ),
+    ).toBe("locator('#item-<n> .Button_primary__<id> >> nth=<n>')");
+    expect(normalizeErrorText("locator('h1.title')")).toBe(
+      "locator('h1.title')",
+    );
+  });
+});
+
+describe("getFailureSignature", () => {
+  it("sollte Codeausschnitt und Call-Log ignorieren", () => {
+    const first = getFailureSignature({
+      message:
+        "Error: expect(received).toBe(expected)\n\n> 12 |   expect(count).toBe(5)\nCall log:\n  - waiting 1200ms",
+      stack: "Error: expect\n    at /a/tests/cart.spec.ts:12:5",
+    });
+    const second = getFailureSignature({
+      message:
+        "Error: expect(received).toBe(expected)\n\n> 48 |   expect(total).toBe(7)\nCall log:\n  - waiting 80ms",
+      stack: "Error: expect\n    at /b/tests/cart.spec.ts:48:9",
+    });
+
+    expect(first.signature).toBe(second.signature);
+    expect(first.message).toBe("Error: expect(received).toBe(expected)");
+    expect(first.frame).toBe("at cart.spec.ts:<line>");
+  });
+
+  it("sollte unterschiedliche Fehler trennen", () => {
+    expect(
+      getFailureSignature({ message: "Error: Element nicht sichtbar" })
+        .signature,
+    ).not.toBe(
+      getFailureSignature({ message: "Error: Navigation fehlgeschlagen" })
+        .signature,
+    );
+  });
+});
+
+describe("clusterFailures", () => {
+  it("sollte Fehler über mehrere Läufe nach Signatur gruppieren", () => {
+    const runs = [
+      createRun("run2", 2000, [
+        { title: "Anmeldung", error: timeoutError("#user-987", 20) },
+        {
+          title: "Abmeldung",
+          projectName: "webkit",
+          error: timeoutError("#user-5", 31),
+        },
+      ]),
+      createRun("run1", 1000, [
+        { title: "Anmeldung", error: timeoutError("#user-123", 18) },
+        { title: "Bestanden", status: "passed" },
+        { title: "Ohne Meldung", status: "failed" },
+      ]),
+      createRun("run3", 3000, [
+        { title: "Anmeldung", error: { message: "Error: Seite leer" } },
+      ]),
+    ];
+
+    const clusters = clusterFailures(runs);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      occurrences: 3,
+      runCount: 2,
+      firstSeen: 1000,
+      lastSeen: 2000,
+    });
+    expect(clusters[0].sampleMessage).toContain("#user-5");
+    expect(clusters[0].affectedTests).toEqual([
+      expect.objectContaining({
+        title: "Anmeldung",
+        occurrences: 2,
+        firstSeen: 1000,
+        lastRunId: "run2",
+      }),
+      expect.objectContaining({ title: "Abmeldung", project: "webkit" }),
+    ]);
+    expect(clusterFailures(runs, "webkit")[0].occurrences).toBe(1);
+  });
+});
+
+describe("FailureClusterAnalyzer", () => {
+  let store: ResultsStore;
+  let analyzer: FailureClusterAnalyzer;
+  const now = Date.now();
+
+  beforeEach(() => {
+    store = new ResultsStore();
+    analyzer = new FailureClusterAnalyzer("/tmp", store);
+
+    store.saveRun(
+      createRun("alt", now - 40 * 24 * 60 * 60 * 1000, [
+        { error: timeoutError("#user-1", 10) },
+      ]),
+    );
+    store.saveRun(
+      createRun("gestern", now - 24 * 60 * 60 * 1000, [
+        { error: timeoutError("#user-2", 10) },
+      ]),
+    );
+    store.saveRun(
+      createRun("heute", now, [
+        { error: timeoutError("#user-3", 10) },
+        { error: { message: "Error: Neuer Fehler" } },
+      ]),
+    );
+  });
+
+  it("sollte Cluster im Zeitraum liefern", () => {
+    const report = analyzer.getClusters({ days: 7 });
+
+    expect(report?.runsAnalyzed).toBe(2);
+    expect(report?.totalFailures).toBe(3);
+    expect(report?.clusters[0].occurrences).toBe(2);
+    expect(analyzer.getClusters({ days: 7, limit: 1 })?.clusters).toHaveLength(
+      1,
+    );
+  });
+
+  it("sollte für einen Lauf das erste Auftreten aus dem Verlauf übernehmen", () => {
+    const report = analyzer.getClusters({ runId: "heute" });
+    const recurring = report!.clusters.find((cluster) =>
+      cluster.message.startsWith("TimeoutError"),
+    );
+    const fresh = report!.clusters.find(
+      (cluster) => cluster.message === "Error: Neuer Fehler",
+    );
+
+    expect(report?.runsAnalyzed).toBe(1);
+    expect(recurring?.firstSeen).toBe(now - 40 * 24 * 60 * 60 * 1000);
+    expect(recurring?.occurrences).toBe(1);
+    expect(fresh?.firstSeen).toBe(now);
+  });
+
+  it("sollte null für unbekannte Läufe liefern", () => {
+    expect(analyzer.getClusters({ runId: "fehlt" })).toBeNull();
+  });
+});
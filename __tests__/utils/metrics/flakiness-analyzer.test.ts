@@ -13,20 +13,8 @@ import SuccessRateTracker, {
   TestHistoryEntry,
   TestSuccessRate,
 } from "../../../utils/metrics/success-rate-tracker";
-import * as path from "path";
-import * as fs from "fs";
-
-// Mock für fs und path Funktionen
-jest.mock("fs", () => ({
-  existsSync: jest.fn(),
-  mkdirSync: jest.fn(),
-  readFileSync: jest.fn(),
-  writeFileSync: jest.fn(),
-}));
-
-jest.mock("path", () => ({
-  join: jest.fn().mockImplementation((...args) => args.join("/")),
-}));
+import { DOCUMENT_KEYS } from "../../../utils/storage/results-repository";
+import { ResultsStore } from "../../../utils/storage/results-store";
 
 // Mock für SuccessRateTracker
 jest.mock("../../../utils/metrics/success-rate-tracker", () => {
@@ -130,20 +118,17 @@ jest.mock("../../../utils/metrics/success-rate-tracker", () => {
 
 describe("FlakinessAnalyzer", () => {
   let analyzer: FlakinessAnalyzer;
+  let store: ResultsStore;
 
   beforeEach(() => {
     // Mocks zurücksetzen
     jest.clearAllMocks();
 
-    // Mock für fs.existsSync
-    (fs.existsSync as jest.Mock).mockImplementation((path: string) => {
-      if (path.includes("results")) return false; // Änderung zu false, damit mkdirSync aufgerufen wird
-      if (path.includes("flakiness-report.json")) return false;
-      return false;
-    });
+    // Results-Store nur im Speicher, damit keine Dateien geschrieben werden
+    store = new ResultsStore();
 
     // Standard-Analyzer initialisieren
-    analyzer = new FlakinessAnalyzer("/tmp", 30, 2); // Basis-Verzeichnis, Threshold, Min-Runs
+    analyzer = new FlakinessAnalyzer("/tmp", 30, 2, store); // Basis-Verzeichnis, Threshold, Min-Runs, Repository
   });
 
   describe("Grundlegende Funktionalitäten", () => {
@@ -151,10 +136,8 @@ describe("FlakinessAnalyzer", () => {
       expect(analyzer).toBeInstanceOf(FlakinessAnalyzer);
     });
 
-    it("sollte sicherstellen, dass das Ergebnisverzeichnis existiert", () => {
-      expect(fs.mkdirSync).toHaveBeenCalledWith(path.join("/tmp", "results"), {
-        recursive: true,
-      });
+    it("sollte das Repository an den SuccessRateTracker weitergeben", () => {
+      expect(SuccessRateTracker).toHaveBeenCalledWith("/tmp", undefined, store);
     });
   });
 
@@ -218,6 +201,78 @@ describe("FlakinessAnalyzer", () => {
     });
   });
 
+  describe("Projekte", () => {
+    const createMeasure = (
+      testId: string,
+      project: string | undefined,
+      flakinessScore: number,
+    ) =>
+      ({
+        testId,
+        testName: testId,
+        project,
+        flakinessScore,
+        confidence: 100,
+        retryRecoveries: flakinessScore > 50 ? 1 : 0,
+      }) as FlakinessMeasure;
+
+    const report = {
+      flakinessThreshold: 30,
+      flakinessMeasures: [
+        createMeasure("login.spec.ts", "chromium", 5),
+        createMeasure("login.spec.ts", "webkit", 70),
+        createMeasure("cart.spec.ts", "chromium", 40),
+      ],
+    } as ProjectFlakinessReport;
+
+    it("sollte den Bericht auf ein Projekt beschränken, ohne ihn zu speichern", () => {
+      const tracker = analyzer["successRateTracker"] as any;
+      tracker.filterByProject = jest.fn((rates) => ({
+        ...rates,
+        testSuccessRates: rates.testSuccessRates.slice(0, 1),
+      }));
+
+      const projectReport = analyzer.analyzeFlakiness(2, "webkit");
+
+      expect(tracker.filterByProject).toHaveBeenCalledWith(
+        expect.anything(),
+        "webkit",
+      );
+      expect(projectReport.project).toBe("webkit");
+      expect(projectReport.flakinessMeasures).toHaveLength(1);
+      expect(store.getDocument(DOCUMENT_KEYS.flakinessReport)).toBeNull();
+    });
+
+    it("sollte die Flakiness pro Projekt zusammenfassen", () => {
+      expect(analyzer.getProjectBreakdown(report)).toEqual([
+        {
+          project: "chromium",
+          overallFlakinessScore: 22.5,
+          totalTestsAnalyzed: 2,
+          flakyTestsCount: 1,
+          retryRecoveredTestsCount: 0,
+        },
+        {
+          project: "webkit",
+          overallFlakinessScore: 70,
+          totalTestsAnalyzed: 1,
+          flakyTestsCount: 1,
+          retryRecoveredTestsCount: 1,
+        },
+      ]);
+    });
+
+    it("sollte Tests mit großen Unterschieden zwischen Browsern zuerst zeigen", () => {
+      const comparison = analyzer.getProjectComparison(report);
+
+      expect(comparison.projects).toEqual(["chromium", "webkit"]);
+      expect(comparison.rows.map((row) => [row.testId, row.spread])).toEqual([
+        ["login.spec.ts", 65],
+        ["cart.spec.ts", 0],
+      ]);
+    });
+  });
+
   describe("getMostFlakyTests", () => {
     it("sollte die instabilsten Tests zurückgeben, sortiert nach Flakiness-Score", () => {
       // Mock für loadReport
@@ -304,7 +359,6 @@ describe("FlakinessAnalyzer", () => {
 
   describe("loadReport und saveReport", () => {
     it("sollte einen Report speichern und korrekt laden", () => {
-      // Mock für fs.writeFileSync und fs.readFileSync
       const mockReport = {
         overallFlakinessScore: 42,
         totalTestsAnalyzed: 10,
@@ -318,32 +372,18 @@ describe("FlakinessAnalyzer", () => {
         timePeriod: { start: 1625097600000, end: 1625270400000 },
       };
 
-      // Einrichten der Mocks
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.writeFileSync as jest.Mock).mockImplementation((path, data) => {
-        // Wir speichern die Daten nicht wirklich, sondern stellen sicher, dass sie korrekt formatiert sind
-        expect(JSON.parse(data)).toMatchObject(mockReport);
-      });
-      (fs.readFileSync as jest.Mock).mockReturnValue(
-        JSON.stringify(mockReport),
-      );
-
       // Report speichern
       analyzer.saveReport(mockReport as ProjectFlakinessReport);
 
       // Report laden und prüfen
       const loadedReport = analyzer.loadReport();
       expect(loadedReport).toMatchObject(mockReport);
-      expect(fs.readFileSync).toHaveBeenCalledWith(
-        expect.stringContaining("flakiness-report.json"),
-        "utf-8",
+      expect(store.getDocument(DOCUMENT_KEYS.flakinessReport)).toMatchObject(
+        mockReport,
       );
     });
 
     it("sollte einen neuen Report initialisieren, wenn kein gespeicherter Report existiert", () => {
-      // Einrichten der Mocks
-      (fs.existsSync as jest.Mock).mockReturnValue(false);
-
       const report = analyzer.loadReport();
 
       expect(report).toBeDefined();
@@ -354,8 +394,7 @@ describe("FlakinessAnalyzer", () => {
 
     it("sollte robust mit Fehlern umgehen", () => {
       // Simulieren eines Lesefehlers
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.readFileSync as jest.Mock).mockImplementation(() => {
+      jest.spyOn(store, "getDocument").mockImplementation(() => {
         throw new Error("Simulierter Lesefehler");
       });
 
@@ -512,6 +551,60 @@ describe("FlakinessAnalyzer", () => {
       expect(measure?.detectedPatterns.length).toBe(0); // Keine Problemmuster erkannt
     });
 
+    it("sollte Erholungen durch Wiederholung als Instabilität werten", () => {
+      const calculateFlakiness = (analyzer as any).calculateFlakiness.bind(
+        analyzer,
+      );
+
+      const testRate = {
+        testId: "retry-test.spec.ts",
+        testName: "Retry Test",
+        history: [
+          { status: "passed", timestamp: 1, duration: 1000, runId: "run1" },
+          {
+            status: "flaky",
+            timestamp: 2,
+            duration: 1000,
+            runId: "run2",
+            retries: 1,
+          },
+          { status: "passed", timestamp: 3, duration: 1000, runId: "run3" },
+          { status: "passed", timestamp: 4, duration: 1000, runId: "run4" },
+        ],
+      };
+
+      const measure = calculateFlakiness(testRate);
+
+      // Statuswechsel zwischen Läufen: flaky zählt als bestanden
+      expect(measure?.statusChanges).toBe(0);
+      expect(measure?.retryRecoveries).toBe(1);
+      expect(measure?.flakinessScore).toBeGreaterThanOrEqual(30);
+      expect(measure?.detectedPatterns).toContain(
+        "Bestanden nach Wiederholung (1 von 4 Läufen)",
+      );
+      expect(measure?.recommendations).toEqual(
+        expect.arrayContaining([expect.stringContaining("Traces")]),
+      );
+    });
+
+    it("sollte Erholungen durch Wiederholung auch bei wenigen Läufen analysieren", () => {
+      const calculateFlakiness = (analyzer as any).calculateFlakiness.bind(
+        analyzer,
+      );
+
+      const measure = calculateFlakiness({
+        testId: "new-test.spec.ts",
+        testName: "New Test",
+        history: [
+          { status: "flaky", timestamp: 1, duration: 800, runId: "run1" },
+        ],
+      });
+
+      expect(measure).not.toBeNull();
+      expect(measure?.lastStatus).toBe("flaky");
+      expect(measure?.flakinessScore).toBe(60);
+    });
+
     it("sollte Tests mit Timeout-Problemen erkennen", () => {
       const calculateFlakiness = (analyzer as any).calculateFlakiness.bind(
         analyzer,
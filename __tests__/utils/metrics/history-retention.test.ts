@@ -0,0 +1,218 @@
+/**
+ * Tests für die Aufbewahrung des Testverlaufs
+ *
+ * Diese Tests prüfen die Auflösung projektbezogener Regeln, die Validierung
+ * der Richtlinie sowie die Verdichtung alter Einträge zu Tagesaggregaten.
+ */
+
+import {
+  compactTestHistory,
+  DAY_MS,
+  getHistoryBuckets,
+  resolveRetentionSettings,
+  scheduleHistoryCompaction,
+  validateRetentionPolicy,
+} from "../../../utils/metrics/history-retention";
+import { TestSuccessRate } from "../../../utils/metrics/success-rate-tracker";
+
+// Bezugszeitpunkt: 2025-07-10 12:00 UTC
+const now = Date.parse("2025-07-10T12:00:00.000Z");
+
+function createTest(statuses: Array<[number, string]>): TestSuccessRate {
+  return {
+    testId: "login.spec.ts",
+    testName: "login.spec.ts",
+    successRate: 0,
+    totalRuns: statuses.length,
+    successfulRuns: 0,
+    failedRuns: 0,
+    skippedRuns: 0,
+    lastRun: { status: "passed", timestamp: now, duration: 100 },
+    history: statuses.map(([daysAgo, status], index) => ({
+      timestamp: now - daysAgo * DAY_MS,
+      status,
+      duration: 100,
+      runId: `run${index}`,
+    })),
+    trend: "unknown",
+  };
+}
+
+describe("resolveRetentionSettings", () => {
+  it("sollte projektbezogene Regeln über die allgemeinen legen", () => {
+    const policy = {
+      rawHistoryDays: 30,
+      maxAgeDays: 365,
+      projects: { webkit: { maxAgeDays: 90 } },
+    };
+
+    expect(resolveRetentionSettings(policy, "webkit")).toEqual({
+      rawHistoryDays: 30,
+      maxRawEntries: undefined,
+      maxAgeDays: 90,
+    });
+    expect(resolveRetentionSettings(policy, "chromium").maxAgeDays).toBe(365);
+  });
+});
+
+describe("validateRetentionPolicy", () => {
+  it("sollte gültige Richtlinien akzeptieren", () => {
+    expect(
+      validateRetentionPolicy({
+        rawHistoryDays: 14,
+        maxRawEntries: 200,
+        projects: { webkit: { maxAgeDays: 60 } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("sollte ungültige Werte mit Pfad melden", () => {
+    expect(
+      validateRetentionPolicy({
+        rawHistoryDays: 0,
+        maxAgeDays: 10,
+        projects: { webkit: { maxRawEntries: 2.5 } },
+      }),
+    ).toEqual([
+      "rawHistoryDays muss eine positive ganze Zahl sein",
+      "projects.webkit.maxRawEntries muss eine positive ganze Zahl sein",
+    ]);
+    expect(
+      validateRetentionPolicy({ rawHistoryDays: 30, maxAgeDays: 7 }),
+    ).toEqual(["rawHistoryDays darf maxAgeDays nicht überschreiten"]);
+    expect(validateRetentionPolicy([])).toHaveLength(1);
+  });
+});
+
+describe("compactTestHistory", () => {
+  it("sollte alte Einträge pro Tag aggregieren und abgelaufene löschen", () => {
+    const test = createTest([
+      [400, "passed"], // älter als maxAgeDays
+      [40, "failed"],
+      [40, "flaky"],
+      [35, "passed"],
+      [2, "passed"],
+    ]);
+
+    const result = compactTestHistory(
+      test,
+      { rawHistoryDays: 30, maxAgeDays: 365 },
+      now,
+    );
+
+    expect(result).toEqual({ entriesAggregated: 3, entriesRemoved: 1 });
+    expect(test.history.map((entry) => entry.runId)).toEqual(["run4"]);
+    expect(test.dailyAggregates).toEqual([
+      {
+        date: "2025-05-31",
+        timestamp: Date.parse("2025-05-31T00:00:00.000Z"),
+        runs: 2,
+        passed: 0,
+        flaky: 1,
+        failed: 1,
+        skipped: 0,
+        totalDuration: 200,
+      },
+      expect.objectContaining({ date: "2025-06-05", runs: 1, passed: 1 }),
+    ]);
+  });
+
+  it("sollte überzählige Einträge nach maxRawEntries aggregieren", () => {
+    const test = createTest([
+      [3, "passed"],
+      [2, "failed"],
+      [1, "passed"],
+    ]);
+
+    compactTestHistory(test, { maxRawEntries: 2 }, now);
+
+    expect(test.history.map((entry) => entry.runId)).toEqual(["run1", "run2"]);
+    expect(test.dailyAggregates?.[0]).toMatchObject({ runs: 1, passed: 1 });
+  });
+
+  it("sollte bestehende Aggregate ergänzen und abgelaufene entfernen", () => {
+    const test = createTest([[40, "passed"]]);
+    test.dailyAggregates = [
+      {
+        date: "2025-05-31",
+        timestamp: Date.parse("2025-05-31T00:00:00.000Z"),
+        runs: 2,
+        passed: 2,
+        flaky: 0,
+        failed: 0,
+        skipped: 0,
+        totalDuration: 50,
+      },
+      {
+        date: "2024-01-01",
+        timestamp: Date.parse("2024-01-01T00:00:00.000Z"),
+        runs: 4,
+        passed: 4,
+        flaky: 0,
+        failed: 0,
+        skipped: 0,
+        totalDuration: 0,
+      },
+    ];
+
+    const result = compactTestHistory(
+      test,
+      { rawHistoryDays: 30, maxAgeDays: 365 },
+      now,
+    );
+
+    expect(result).toEqual({ entriesAggregated: 1, entriesRemoved: 4 });
+    expect(test.dailyAggregates).toEqual([
+      expect.objectContaining({ date: "2025-05-31", runs: 3, passed: 3 }),
+    ]);
+  });
+
+  it("sollte ohne Regeln nichts verändern", () => {
+    const test = createTest([[500, "passed"]]);
+
+    expect(compactTestHistory(test, {}, now)).toEqual({
+      entriesAggregated: 0,
+      entriesRemoved: 0,
+    });
+    expect(test.history).toHaveLength(1);
+    expect(test.dailyAggregates).toBeUndefined();
+  });
+});
+
+describe("getHistoryBuckets", () => {
+  it("sollte Einzeleinträge und Aggregate im Zeitraum chronologisch liefern", () => {
+    const test = createTest([
+      [40, "failed"],
+      [40, "passed"],
+      [1, "flaky"],
+    ]);
+    compactTestHistory(test, { rawHistoryDays: 30 }, now);
+
+    expect(getHistoryBuckets(test, now - 60 * DAY_MS, now)).toEqual([
+      {
+        timestamp: Date.parse("2025-05-31T00:00:00.000Z"),
+        runs: 2,
+        successfulRuns: 1,
+        flakyRuns: 0,
+      },
+      { timestamp: now - DAY_MS, runs: 1, successfulRuns: 1, flakyRuns: 1 },
+    ]);
+    expect(getHistoryBuckets(test, now - 7 * DAY_MS, now)).toHaveLength(1);
+  });
+});
+
+describe("scheduleHistoryCompaction", () => {
+  it("sollte die Verdichtung im Intervall auslösen, ohne den Prozess zu blockieren", () => {
+    jest.useFakeTimers();
+    const target = { compactHistory: jest.fn() };
+
+    const timer = scheduleHistoryCompaction(target, 1000);
+    jest.advanceTimersByTime(2500);
+
+    expect(target.compactHistory).toHaveBeenCalledTimes(2);
+    expect(timer.hasRef()).toBe(false);
+
+    clearInterval(timer);
+    jest.useRealTimers();
+  });
+});
@@ -10,29 +10,22 @@ import SuccessRateTracker, {
   ProjectSuccessRates,
   TestHistoryEntry,
 } from "../../../utils/metrics/success-rate-tracker";
-import * as path from "path";
-import * as fs from "fs";
-
-// Mock für fs und path Funktionen
-jest.mock("fs", () => ({
-  existsSync: jest.fn(),
-  mkdirSync: jest.fn(),
-  readFileSync: jest.fn(),
-  writeFileSync: jest.fn(),
-}));
+import { DOCUMENT_KEYS } from "../../../utils/storage/results-repository";
+import { ResultsStore } from "../../../utils/storage/results-store";
 
 describe("SuccessRateTracker", () => {
   let tracker: SuccessRateTracker;
+  let store: ResultsStore;
 
   beforeEach(() => {
     // Setze die Mocks zurück
     jest.clearAllMocks();
 
-    // Mock fs.existsSync als false, damit mkdirSync aufgerufen wird
-    (fs.existsSync as jest.Mock).mockReturnValue(false);
+    // Results-Store nur im Speicher, damit keine Dateien geschrieben werden
+    store = new ResultsStore();
 
     // Standard-Tracker initialisieren
-    tracker = new SuccessRateTracker("/tmp", 5); // Basis-Verzeichnis, Max-History
+    tracker = new SuccessRateTracker("/tmp", {}, store); // Basis-Verzeichnis, Aufbewahrung, Repository
   });
 
   describe("Grundlegende Funktionalitäten", () => {
@@ -40,10 +33,13 @@ describe("SuccessRateTracker", () => {
       expect(tracker).toBeInstanceOf(SuccessRateTracker);
     });
 
-    it("sollte sicherstellen, dass das Ergebnisverzeichnis existiert", () => {
-      expect(fs.mkdirSync).toHaveBeenCalledWith(path.join("/tmp", "results"), {
-        recursive: true,
-      });
+    it("sollte Erfolgsraten im Repository speichern", () => {
+      const rates = tracker.loadSuccessRates();
+      rates.totalTests = 3;
+
+      tracker.saveSuccessRates(rates);
+
+      expect(store.getDocument(DOCUMENT_KEYS.successRates)).toEqual(rates);
     });
   });
 
@@ -58,10 +54,7 @@ describe("SuccessRateTracker", () => {
       expect(rates.timeRange).toBeDefined();
     });
 
-    it("sollte gespeicherte Erfolgsraten laden, wenn die Datei existiert", () => {
-      // Mock für existierende Datei
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-
+    it("sollte gespeicherte Erfolgsraten aus dem Repository laden", () => {
       const mockRates: ProjectSuccessRates = {
         overallSuccessRate: 85,
         totalTests: 2,
@@ -120,8 +113,7 @@ describe("SuccessRateTracker", () => {
         },
       };
 
-      // Cast to fix TypeScript errors with interfaces
-      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockRates));
+      store.saveDocument(DOCUMENT_KEYS.successRates, mockRates);
 
       const rates = tracker.loadSuccessRates();
 
@@ -129,10 +121,9 @@ describe("SuccessRateTracker", () => {
     });
 
     it("sollte Fehler beim Laden abfangen und neue Erfolgsraten zurückgeben", () => {
-      // Mock für existierende aber fehlerhafte Datei
-      (fs.existsSync as jest.Mock).mockReturnValue(true);
-      (fs.readFileSync as jest.Mock).mockImplementation(() => {
-        throw new Error("Fehler beim Lesen der Datei");
+      // Mock für fehlerhaftes Repository
+      jest.spyOn(store, "getDocument").mockImplementation(() => {
+        throw new Error("Fehler beim Lesen der Datenbank");
       });
 
       const rates = tracker.loadSuccessRates();
@@ -200,7 +191,9 @@ describe("SuccessRateTracker", () => {
       expect(updatedRates.overallSuccessRate).toBe(50); // Durchschnitt aus 100% und 0%
 
       // Prüfen, ob die Ergebnisse gespeichert wurden
-      expect(fs.writeFileSync).toHaveBeenCalled();
+      expect(store.getDocument(DOCUMENT_KEYS.successRates)).toEqual(
+        updatedRates,
+      );
     });
 
     it("sollte bestehende Testeinträge aktualisieren", () => {
@@ -272,10 +265,14 @@ describe("SuccessRateTracker", () => {
       expect(updatedRates.overallSuccessRate).toBe(50);
     });
 
-    it("sollte die Historie auf maximale Länge begrenzen", () => {
-      // Mock für vorhandene Erfolgsraten mit maxHistoryLength + 1 Einträgen
+    it("sollte den vollständigen Verlauf behalten und Überzähliges erst beim Verdichten aggregieren", () => {
+      // Mock für vorhandene Erfolgsraten mit maxRawEntries Einträgen
       const maxHistory = 5;
-      tracker = new SuccessRateTracker("/tmp", maxHistory);
+      tracker = new SuccessRateTracker(
+        "/tmp",
+        { maxRawEntries: maxHistory, rawHistoryDays: 3650, maxAgeDays: 3650 },
+        store,
+      );
 
       // Erstelle Erfolgsraten mit 5 vorhandenen Historien-Einträgen
       const historyEntries: TestHistoryEntry[] = [];
@@ -333,15 +330,23 @@ describe("SuccessRateTracker", () => {
 
       const updatedRates = tracker.updateSuccessRates(mockTestResult as any);
 
-      // Prüfen, ob die Historie auf maximale Länge begrenzt wurde
-      const test1 = updatedRates.testSuccessRates[0];
-      expect(test1.history).toHaveLength(maxHistory);
+      // Beim Aktualisieren wird nichts mehr abgeschnitten
+      expect(updatedRates.testSuccessRates[0].history).toHaveLength(
+        maxHistory + 1,
+      );
 
-      // Ältester Eintrag sollte entfernt worden sein
-      expect(test1.history[0].runId).not.toBe("run0");
+      // Die Verdichtung fasst den ältesten Eintrag zu einem Tagesaggregat zusammen
+      (tracker.loadSuccessRates as jest.Mock).mockRestore();
+      const result = tracker.compactHistory(1625097600000 + 10 * 86400000);
+      const test1 = tracker.loadSuccessRates().testSuccessRates[0];
 
-      // Neuester Eintrag sollte vorhanden sein
+      expect(result).toMatchObject({ testsCompacted: 1, entriesAggregated: 1 });
+      expect(test1.history).toHaveLength(maxHistory);
+      expect(test1.history[0].runId).not.toBe("run0");
       expect(test1.history[maxHistory - 1].runId).toBe("runNew");
+      expect(test1.dailyAggregates).toEqual([
+        expect.objectContaining({ date: "2021-06-28", runs: 1, passed: 1 }),
+      ]);
     });
   });
 
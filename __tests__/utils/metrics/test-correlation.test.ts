@@ -0,0 +1,256 @@
+/**
+ * Tests für die Verknüpfung von Analysedaten und Laufzeitergebnissen
+ *
+ * Diese Tests prüfen die einheitliche Test-ID, die Zuordnung der Ergebnisse
+ * zu Testfällen sowie die Auswertung nach Selektorstil, Komplexität und
+ * Quadranten.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../../types/playwright-results";
+import {
+  correlateTests,
+  getSelectorStyle,
+  pearsonCorrelation,
+  TestCorrelationAnalyzer,
+} from "../../../utils/metrics/test-correlation";
+import { getTestCaseId } from "../../../utils/metrics/test-identity";
+import { ResultsStore } from "../../../utils/storage/results-store";
+import { TestMetadata } from "../../../utils/test-analyzer";
+
+function createMetadata(
+  title: string,
+  complexity: number,
+  selectorTypes: string[],
+): TestMetadata {
+  return {
+    id: `tests/login.spec.ts › Login › ${title}`,
+    caseId: getTestCaseId({
+      file: "tests/login.spec.ts",
+      describePath: ["Login"],
+      title,
+    }),
+    file: "tests/login.spec.ts",
+    path: "/repo/tests/login.spec.ts",
+    description: "",
+    title,
+    describePath: ["Login"],
+    name: `Login › ${title}`,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 1,
+    column: 1,
+    testType: "E2E",
+    selectors: selectorTypes.map((type) => ({
+      type,
+      value: "x",
+      usage: "click",
+      line: 1,
+      column: 1,
+    })),
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: [] },
+  };
+}
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  statuses: Record<string, PlaywrightSingleTestResult["status"]>,
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp,
+    success: true,
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      passRate: 0,
+      failRate: 0,
+      skipRate: 0,
+      totalDuration: 0,
+      totalTests: 0,
+      averageDuration: 0,
+    },
+    testResults: Object.entries(statuses).map(([title, status]) => ({
+      filename: "login.spec.ts",
+      path: "/ci/workspace/tests/login.spec.ts",
+      title,
+      titlePath: ["Login"],
+      status,
+      duration: 100,
+    })),
+  };
+}
+
+describe("getTestCaseId", () => {
+  it("sollte Analyse und Laufzeitergebnis unabhängig vom Pfad gleich benennen", () => {
+    expect(
+      getTestCaseId({
+        file: "tests/login.spec.ts",
+        describePath: ["Login"],
+        title: "meldet an",
+      }),
+    ).toBe("login.spec.ts › Login › meldet an");
+    expect(
+      getTestCaseId({
+        file: "C:\\ci\\tests\\login.spec.ts",
+        title: "meldet an",
+      }),
+    ).toBe("login.spec.ts › meldet an");
+  });
+});
+
+describe("getSelectorStyle", () => {
+  it("sollte den anfälligsten Selektortyp maßgeblich machen", () => {
+    expect(getSelectorStyle([{ type: "role" }, { type: "xpath" }])).toBe(
+      "css-xpath",
+    );
+    expect(getSelectorStyle([{ type: "label" }, { type: "testId" }])).toBe(
+      "testId",
+    );
+    expect(getSelectorStyle([{ type: "role" }])).toBe("user-facing");
+    expect(getSelectorStyle([])).toBe("none");
+  });
+});
+
+describe("pearsonCorrelation", () => {
+  it("sollte die Korrelation berechnen und ohne Streuung null liefern", () => {
+    expect(pearsonCorrelation([1, 2, 3], [10, 20, 30])).toBeCloseTo(1);
+    expect(pearsonCorrelation([1, 2, 3], [30, 20, 10])).toBeCloseTo(-1);
+    expect(pearsonCorrelation([1, 2, 3], [5, 5, 5])).toBeNull();
+    expect(pearsonCorrelation([1, 2], [1, 2])).toBeNull();
+  });
+});
+
+describe("correlateTests", () => {
+  it("sollte Ergebnisse über die Test-ID zuordnen und nach Selektorstil auswerten", () => {
+    const store = new ResultsStore();
+    store.saveRun(
+      createRun("a", 1000, {
+        "meldet an": "passed",
+        "meldet ab": "failed",
+        "zeigt Fehler": "skipped",
+        unbekannt: "passed",
+      }),
+    );
+    store.saveRun(
+      createRun("b", 2000, {
+        "meldet an": "passed",
+        "meldet ab": "flaky",
+        "zeigt Fehler": "skipped",
+      }),
+    );
+
+    const report = correlateTests(
+      [
+        createMetadata("meldet an", 2, ["role"]),
+        createMetadata("meldet ab", 8, ["css", "role"]),
+        createMetadata("zeigt Fehler", 3, ["testId"]),
+      ],
+      store.findTestResults({}),
+    );
+
+    expect(
+      report.tests.map(
+        ({ title, runs, failureRate, instabilityRate, quadrant }) => ({
+          title,
+          runs,
+          failureRate,
+          instabilityRate,
+          quadrant,
+        }),
+      ),
+    ).toEqual([
+      {
+        title: "meldet ab",
+        runs: 2,
+        failureRate: 50,
+        instabilityRate: 100,
+        quadrant: "complex-unstable",
+      },
+      {
+        title: "meldet an",
+        runs: 2,
+        failureRate: 0,
+        instabilityRate: 0,
+        quadrant: "simple-stable",
+      },
+      // Nur übersprungen: keine Ausführungen, kein Quadrant
+      {
+        title: "zeigt Fehler",
+        runs: 0,
+        failureRate: 0,
+        instabilityRate: 0,
+        quadrant: undefined,
+      },
+    ]);
+    expect(report.matchedTests).toBe(2);
+    expect(report.unmatchedTests).toBe(1);
+    expect(report.unmatchedResults).toEqual([
+      "login.spec.ts › Login › unbekannt",
+    ]);
+    expect(report.selectorStyles).toEqual([
+      {
+        selectorStyle: "css-xpath",
+        tests: 1,
+        runs: 2,
+        failureRate: 50,
+        instabilityRate: 100,
+      },
+      {
+        selectorStyle: "user-facing",
+        tests: 1,
+        runs: 2,
+        failureRate: 0,
+        instabilityRate: 0,
+      },
+    ]);
+    expect(report.quadrants).toEqual({
+      "simple-stable": 1,
+      "simple-unstable": 0,
+      "complex-stable": 0,
+      "complex-unstable": 1,
+    });
+    // Nur zwei Wertepaare: keine Korrelation
+    expect(report.complexityCorrelation).toBeNull();
+  });
+});
+
+describe("TestCorrelationAnalyzer", () => {
+  it("sollte nur Ergebnisse des Zeitraums berücksichtigen", () => {
+    const now = Date.now();
+    const store = new ResultsStore();
+    store.saveRun(
+      createRun("alt", now - 40 * 24 * 60 * 60 * 1000, {
+        "meldet an": "failed",
+      }),
+    );
+    store.saveRun(createRun("neu", now - 1000, { "meldet an": "passed" }));
+
+    const analyzer = new TestCorrelationAnalyzer("/repo", store);
+    const report = analyzer.getCorrelation(
+      [createMetadata("meldet an", 2, ["role"])],
+      { days: 30, thresholds: { instabilityRate: 25 } },
+    );
+
+    expect(report.tests[0]).toEqual(
+      expect.objectContaining({ runs: 1, failureRate: 0 }),
+    );
+    expect(report.thresholds).toEqual({ complexity: 5, instabilityRate: 25 });
+  });
+});
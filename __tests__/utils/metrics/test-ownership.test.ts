@@ -0,0 +1,321 @@
+/**
+ * Tests für das Test-Ownership
+ *
+ * Diese Tests prüfen das Auslesen der CODEOWNERS-Datei, den Vorrang von
+ * Annotationen und Tags vor CODEOWNERS, die Zuordnung von Laufzeitdaten zu
+ * Ownern sowie die Übersicht pro Team.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  FlakinessMeasure,
+  ProjectFlakinessReport,
+} from "../../../utils/metrics/flakiness-analyzer";
+import { TestSuccessRate } from "../../../utils/metrics/success-rate-tracker";
+import {
+  applyOwnership,
+  loadCodeowners,
+  matchCodeowners,
+  NO_OWNER,
+  parseCodeowners,
+  resolveTestOwner,
+  TestOwnershipIndex,
+} from "../../../utils/metrics/test-ownership";
+import { TestMetadata } from "../../../utils/test-analyzer";
+
+function createMetadata(
+  file: string,
+  title: string,
+  details: Partial<TestMetadata> = {},
+): TestMetadata {
+  return {
+    id: `${file} › ${title}`,
+    caseId: `${path.basename(file)}::${title}`,
+    file,
+    path: `/repo/${file}`,
+    description: "",
+    title,
+    describePath: [],
+    name: title,
+    tags: [],
+    annotations: [],
+    setupBlocks: [],
+    visitedUrls: [],
+    pageObjects: [],
+    line: 1,
+    column: 1,
+    testType: "E2E",
+    selectors: [],
+    assertions: [],
+    dependencies: [],
+    timeouts: [],
+    screenshots: false,
+    complexity: 1,
+    lineCount: 5,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    functionalAreas: [],
+    coverage: { area: [], type: ["Functional"] },
+    ...details,
+  };
+}
+
+function createRate(
+  testId: string,
+  successRate: number,
+  lastStatus: string,
+): TestSuccessRate {
+  return {
+    testId,
+    testName: testId,
+    successRate,
+    totalRuns: 4,
+    successfulRuns: (successRate / 100) * 4,
+    failedRuns: 4 - (successRate / 100) * 4,
+    skippedRuns: 0,
+    lastRun: { status: lastStatus, timestamp: 1, duration: 100 },
+    history: [],
+    trend: "stable",
+  };
+}
+
+const CODEOWNERS = `# Standard für alles
+*               @qa
+tests/kasse/    @team-kasse @anna   # Kasse
+/tests/**/*.admin.spec.ts @team-admin
+docs/
+`;
+
+describe("matchCodeowners", () => {
+  const rules = parseCodeowners(CODEOWNERS);
+
+  it("sollte Kommentare ignorieren und Owner pro Regel lesen", () => {
+    expect(rules).toEqual([
+      { pattern: "*", owners: ["@qa"], line: 2 },
+      { pattern: "tests/kasse/", owners: ["@team-kasse", "@anna"], line: 3 },
+      {
+        pattern: "/tests/**/*.admin.spec.ts",
+        owners: ["@team-admin"],
+        line: 4,
+      },
+      { pattern: "docs/", owners: [], line: 5 },
+    ]);
+  });
+
+  it("sollte die letzte passende Regel verwenden", () => {
+    expect(matchCodeowners(rules, "tests/kasse/bezahlen.spec.ts")).toEqual([
+      "@team-kasse",
+      "@anna",
+    ]);
+    expect(matchCodeowners(rules, "tests/kasse/rechte.admin.spec.ts")).toEqual([
+      "@team-admin",
+    ]);
+    expect(matchCodeowners(rules, "tests/start.spec.ts")).toEqual(["@qa"]);
+    // Verzeichnisregel ohne Owner hebt die Zuständigkeit auf
+    expect(matchCodeowners(rules, "docs/hilfe.spec.ts")).toEqual([]);
+    expect(matchCodeowners([], "tests/start.spec.ts")).toBeNull();
+  });
+});
+
+describe("loadCodeowners", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-ownership-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("sollte .github/CODEOWNERS im übergeordneten Verzeichnis finden", () => {
+    const testsDir = path.join(tempDir, "tests");
+    fs.mkdirSync(testsDir);
+    fs.mkdirSync(path.join(tempDir, ".github"));
+    fs.writeFileSync(
+      path.join(tempDir, ".github", "CODEOWNERS"),
+      "tests/kasse/ @team-kasse\n",
+    );
+
+    const codeowners = loadCodeowners(testsDir);
+
+    expect(codeowners?.rootDir).toBe(tempDir);
+    expect(
+      resolveTestOwner(
+        {
+          path: path.join(testsDir, "kasse", "a.spec.ts"),
+          tags: [],
+          annotations: [],
+        },
+        codeowners,
+      ),
+    ).toEqual({ owners: ["@team-kasse"], source: "codeowners" });
+    expect(loadCodeowners(path.join(testsDir, "kasse"))).toBeNull();
+  });
+});
+
+describe("resolveTestOwner", () => {
+  const codeowners = { rootDir: "/repo", rules: parseCodeowners(CODEOWNERS) };
+
+  it("sollte Annotationen vor Tags und Tags vor CODEOWNERS verwenden", () => {
+    const [annotated, tagged, fromCodeowners] = applyOwnership(
+      [
+        createMetadata("tests/kasse/a.spec.ts", "bezahlt", {
+          annotations: [{ type: "owner", description: "@anna, @ben" }],
+          tags: ["@team:kasse"],
+        }),
+        createMetadata("tests/kasse/b.spec.ts", "storniert", {
+          tags: ["@smoke", "@team:kasse"],
+        }),
+        createMetadata("tests/kasse/c.spec.ts", "erstattet", {
+          owners: ["@alt"],
+          ownerSource: "tag",
+        }),
+      ],
+      codeowners,
+    );
+
+    expect(annotated.owners).toEqual(["@anna", "@ben"]);
+    expect(annotated.ownerSource).toBe("annotation");
+    expect(tagged.owners).toEqual(["kasse"]);
+    expect(tagged.ownerSource).toBe("tag");
+    expect(fromCodeowners.owners).toEqual(["@team-kasse", "@anna"]);
+    expect(fromCodeowners.ownerSource).toBe("codeowners");
+  });
+
+  it("sollte ohne Quelle keine Owner liefern", () => {
+    const [test] = applyOwnership([createMetadata("tests/a.spec.ts", "lädt")]);
+
+    expect(test.owners).toEqual([]);
+    expect(test.ownerSource).toBeUndefined();
+  });
+});
+
+describe("TestOwnershipIndex", () => {
+  const ownership = new TestOwnershipIndex([
+    createMetadata("tests/kasse.spec.ts", "bezahlt", { owners: ["kasse"] }),
+    createMetadata("tests/kasse.spec.ts", "storniert", {
+      owners: ["kasse", "@anna"],
+    }),
+    createMetadata("tests/start.spec.ts", "lädt", { owners: [] }),
+  ]);
+
+  it("sollte Laufzeitdaten über Test-ID oder Dateiname zuordnen", () => {
+    expect(ownership.getOwnerNames()).toEqual(["@anna", "kasse", NO_OWNER]);
+    expect(
+      ownership.getOwners({
+        file: "/ci/tests/kasse.spec.ts",
+        caseId: "kasse.spec.ts::bezahlt",
+      }),
+    ).toEqual(["kasse"]);
+    expect(ownership.getOwners({ file: "kasse.spec.ts" })).toEqual([
+      "kasse",
+      "@anna",
+    ]);
+    expect(ownership.owns(NO_OWNER, { file: "start.spec.ts" })).toBe(true);
+    expect(ownership.owns(NO_OWNER, { file: "unbekannt.spec.ts" })).toBe(true);
+    expect(ownership.owns("kasse", { file: "start.spec.ts" })).toBe(false);
+  });
+
+  it("sollte eigene, instabile und fehlschlagende Tests pro Owner zählen", () => {
+    const flakiness = {
+      flakinessThreshold: 20,
+      flakinessMeasures: [
+        { testId: "kasse.spec.ts", flakinessScore: 35 },
+        { testId: "start.spec.ts", flakinessScore: 5 },
+      ] as FlakinessMeasure[],
+    } as ProjectFlakinessReport;
+
+    const summary = ownership.summarize(
+      [
+        createRate("kasse.spec.ts", 50, "failed"),
+        createRate("start.spec.ts", 100, "passed"),
+      ],
+      flakiness,
+    );
+
+    expect(summary).toEqual([
+      {
+        owner: "@anna",
+        ownedTests: 1,
+        testsWithRuns: 1,
+        flakyTests: 1,
+        failingTests: 1,
+        averageSuccessRate: 50,
+      },
+      {
+        owner: "kasse",
+        ownedTests: 2,
+        testsWithRuns: 1,
+        flakyTests: 1,
+        failingTests: 1,
+        averageSuccessRate: 50,
+      },
+      {
+        owner: NO_OWNER,
+        ownedTests: 1,
+        testsWithRuns: 1,
+        flakyTests: 0,
+        failingTests: 0,
+        averageSuccessRate: 100,
+      },
+    ]);
+  });
+
+  it("sollte Testfälle einer Datei mit verschiedenen Ownern getrennt zählen", () => {
+    const flakiness = {
+      flakinessThreshold: 20,
+      flakinessMeasures: [
+        {
+          testId: "kasse.spec.ts",
+          caseId: "kasse.spec.ts::bezahlt",
+          flakinessScore: 5,
+        },
+        {
+          testId: "kasse.spec.ts",
+          caseId: "kasse.spec.ts::storniert",
+          flakinessScore: 35,
+        },
+      ] as FlakinessMeasure[],
+    } as ProjectFlakinessReport;
+
+    const summary = ownership.summarize(
+      [
+        {
+          ...createRate("kasse.spec.ts", 100, "passed"),
+          caseId: "kasse.spec.ts::bezahlt",
+        },
+        {
+          ...createRate("kasse.spec.ts", 50, "failed"),
+          caseId: "kasse.spec.ts::storniert",
+        },
+      ],
+      flakiness,
+    );
+
+    expect(summary.find((entry) => entry.owner === "@anna")).toEqual({
+      owner: "@anna",
+      ownedTests: 1,
+      testsWithRuns: 1,
+      flakyTests: 1,
+      failingTests: 1,
+      averageSuccessRate: 50,
+    });
+    expect(summary.find((entry) => entry.owner === "kasse")).toMatchObject({
+      testsWithRuns: 2,
+      flakyTests: 1,
+      failingTests: 1,
+      averageSuccessRate: 75,
+    });
+  });
+
+  it("sollte ohne Analyseergebnisse einen leeren Index laden", () => {
+    const empty = TestOwnershipIndex.load(
+      path.join(os.tmpdir(), "fehlt", "test-analysis.json"),
+    );
+
+    expect(empty.getOwnerNames()).toEqual([]);
+    expect(empty.owns(NO_OWNER, { file: "a.spec.ts" })).toBe(true);
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Tests für die Test-Quarantäne
+ *
+ * Diese Tests prüfen manuelle Einträge mit Ablaufdatum, die automatische
+ * Quarantäne nach mehreren instabilen Läufen in Folge, den Export für die
+ * Playwright-Konfiguration und die getrennte Erfassung in den Erfolgsraten.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PlaywrightTestResultFile } from "../../../types/playwright-results";
+import { ProjectFlakinessReport } from "../../../utils/metrics/flakiness-analyzer";
+import SuccessRateTracker, {
+  ProjectSuccessRates,
+  TestSuccessRate,
+} from "../../../utils/metrics/success-rate-tracker";
+import {
+  getQuarantinePattern,
+  TestQuarantine,
+  validateAutoQuarantinePolicy,
+  validateQuarantineInput,
+} from "../../../utils/metrics/test-quarantine";
+import { ResultsStore } from "../../../utils/storage/results-store";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+function createRun(runId: string, caseIds: string[]): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp: NOW,
+    success: false,
+    testResults: caseIds.map((caseId) => ({
+      title: caseId.split(" › ").pop(),
+      titlePath: caseId.split(" › ").slice(1, -1),
+      filename: caseId.split(" › ")[0],
+      path: `tests/${caseId.split(" › ")[0]}`,
+      status: "failed",
+      duration: 100,
+      projectName: "chromium",
+    })),
+  } as unknown as PlaywrightTestResultFile;
+}
+
+function createReport(scores: Record<string, number>): ProjectFlakinessReport {
+  return {
+    flakinessThreshold: 30,
+    flakinessMeasures: Object.entries(scores).map(([caseId, score]) => ({
+      testId: caseId.split(" › ")[0],
+      caseId,
+      project: "chromium",
+      flakinessScore: score,
+    })),
+  } as ProjectFlakinessReport;
+}
+
+describe("TestQuarantine", () => {
+  let tempDir: string;
+  let exportPath: string;
+  let quarantine: TestQuarantine;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-quarantine-"));
+    exportPath = path.join(tempDir, "quarantine.json");
+    quarantine = new TestQuarantine(tempDir, new ResultsStore(), exportPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("sollte manuelle Einträge bis zum Ablaufdatum berücksichtigen", () => {
+    quarantine.quarantine(
+      {
+        testId: "login.spec.ts",
+        project: "webkit",
+        reason: "Dialog hängt",
+        owner: "@team-auth",
+        expiresInDays: 7,
+      },
+      NOW,
+    );
+
+    expect(quarantine.getEntries(NOW)).toEqual([
+      {
+        testId: "login.spec.ts",
+        project: "webkit",
+        reason: "Dialog hängt",
+        owner: "@team-auth",
+        source: "manual",
+        quarantinedAt: NOW,
+        expiresAt: NOW + 7 * DAY,
+      },
+    ]);
+    expect(
+      quarantine.isQuarantined(
+        { testId: "login.spec.ts", project: "webkit" },
+        NOW,
+      ),
+    ).toBe(true);
+    expect(
+      quarantine.isQuarantined(
+        { testId: "login.spec.ts", project: "chromium" },
+        NOW,
+      ),
+    ).toBe(false);
+    expect(quarantine.getEntries(NOW + 8 * DAY)).toEqual([]);
+
+    expect(quarantine.release("login.spec.ts", "webkit")).toBe(true);
+    expect(quarantine.release("login.spec.ts", "webkit")).toBe(false);
+  });
+
+  it("sollte erst nach der eingestellten Zahl instabiler Läufe in Folge automatisch quarantänieren", () => {
+    quarantine.savePolicy({ consecutiveRuns: 2, expiryDays: 5 });
+    const getOwners = jest.fn(() => ["@team-kasse"]);
+
+    expect(
+      quarantine.recordRun(
+        createRun("run1", ["kasse.spec.ts › Test", "start.spec.ts › Test"]),
+        createReport({
+          "kasse.spec.ts › Test": 45,
+          "start.spec.ts › Test": 40,
+        }),
+        getOwners,
+        NOW,
+      ),
+    ).toEqual([]);
+    // start.spec.ts fällt unter den Schwellenwert, die Zählung beginnt von vorn
+    const added = quarantine.recordRun(
+      createRun("run2", ["kasse.spec.ts › Test", "start.spec.ts › Test"]),
+      createReport({ "kasse.spec.ts › Test": 50, "start.spec.ts › Test": 10 }),
+      getOwners,
+      NOW,
+    );
+
+    expect(added).toEqual([
+      {
+        testId: "kasse.spec.ts",
+        caseId: "kasse.spec.ts › Test",
+        title: "Test",
+        project: "chromium",
+        reason:
+          "Flakiness-Score 50.0 in 2 Läufen in Folge über dem Schwellenwert 30",
+        owner: "@team-kasse",
+        source: "automatic",
+        quarantinedAt: NOW,
+        expiresAt: NOW + 5 * DAY,
+        flakinessScore: 50,
+      },
+    ]);
+    expect(getOwners).toHaveBeenCalledTimes(1);
+    expect(getOwners).toHaveBeenCalledWith({
+      testId: "kasse.spec.ts",
+      caseId: "kasse.spec.ts › Test",
+      title: "Test",
+      project: "chromium",
+    });
+
+    // Bereits quarantänierte Tests werden nicht erneut eingetragen
+    expect(
+      quarantine.recordRun(
+        createRun("run3", ["kasse.spec.ts › Test"]),
+        createReport({ "kasse.spec.ts › Test": 55 }),
+        getOwners,
+        NOW,
+      ),
+    ).toEqual([]);
+  });
+
+  it("sollte grepInvert-Muster exportieren und die Datei aktualisieren", () => {
+    quarantine.quarantine(
+      { testId: "suche.spec.ts", title: "filtert (Preis)", reason: "Timing" },
+      NOW,
+    );
+    quarantine.quarantine(
+      { testId: "login.spec.ts", project: "webkit", reason: "Dialog" },
+      NOW + 1,
+    );
+
+    const exported = quarantine.getPlaywrightExport(NOW + 2);
+
+    expect(exported.grepInvert).toEqual([
+      "suche\\.spec\\.ts (?:.* )?filtert \\(Preis\\)(?: @\\S+)*$",
+    ]);
+    expect(exported.projects).toEqual({ webkit: ["login\\.spec\\.ts"] });
+    expect(
+      new RegExp(exported.grepInvert[0]).test(
+        "chromium suche.spec.ts Suche filtert (Preis)",
+      ),
+    ).toBe(true);
+    expect(JSON.parse(fs.readFileSync(exportPath, "utf-8")).tests).toHaveLength(
+      2,
+    );
+    expect(
+      new RegExp(exported.grepInvert[0]).test(
+        "chromium suche.spec.ts Suche filtert (Preis) nach Rabatt",
+      ),
+    ).toBe(false);
+    // Einträge für einzelne Testfälle nehmen die Datei nicht aus den Erfolgsraten
+    expect(
+      quarantine.isQuarantined(
+        { testId: "suche.spec.ts", project: "chromium" },
+        NOW,
+      ),
+    ).toBe(false);
+    expect(
+      quarantine.isQuarantined(
+        {
+          testId: "suche.spec.ts",
+          caseId: "suche.spec.ts › Suche › filtert (Preis)",
+        },
+        NOW,
+      ),
+    ).toBe(true);
+  });
+
+  it("sollte nur den instabilen Testfall einer Datei quarantänieren", () => {
+    quarantine.savePolicy({ consecutiveRuns: 1 });
+    const caseIds = [
+      "kasse.spec.ts › Warenkorb › bezahlt",
+      "kasse.spec.ts › Warenkorb › storniert",
+    ];
+
+    const added = quarantine.recordRun(
+      createRun("run1", caseIds),
+      createReport({ [caseIds[0]]: 60, [caseIds[1]]: 0 }),
+      undefined,
+      NOW,
+    );
+
+    expect(added.map((entry) => [entry.caseId, entry.title])).toEqual([
+      [caseIds[0], "bezahlt"],
+    ]);
+    const pattern = new RegExp(
+      quarantine.getPlaywrightExport(NOW).projects.chromium[0],
+    );
+    expect(pattern.test("chromium kasse.spec.ts Warenkorb bezahlt")).toBe(true);
+    expect(pattern.test("chromium kasse.spec.ts Warenkorb storniert")).toBe(
+      false,
+    );
+
+    const tracker = new SuccessRateTracker("/tmp", {}, new ResultsStore());
+    const separated = tracker.separateQuarantined(
+      {
+        overallSuccessRate: 50,
+        totalTests: 2,
+        testSuccessRates: caseIds.map((caseId, index) => ({
+          testId: "kasse.spec.ts",
+          caseId,
+          project: "chromium",
+          successRate: index === 0 ? 0 : 100,
+          totalRuns: 4,
+        })) as TestSuccessRate[],
+        lastUpdated: NOW,
+        timeRange: { start: 0, end: NOW },
+      } as ProjectSuccessRates,
+      quarantine.createMatcher(NOW),
+    );
+
+    expect(separated.rates.testSuccessRates.map((t) => t.caseId)).toEqual([
+      caseIds[1],
+    ]);
+    expect(separated.rates.overallSuccessRate).toBe(100);
+    expect(separated.quarantined.testSuccessRates.map((t) => t.caseId)).toEqual(
+      [caseIds[0]],
+    );
+  });
+});
+
+describe("SuccessRateTracker.separateQuarantined", () => {
+  it("sollte Tests unter Quarantäne aus der Gesamtrate nehmen und getrennt führen", () => {
+    const tracker = new SuccessRateTracker("/tmp", {}, new ResultsStore());
+    const rates = {
+      overallSuccessRate: 0,
+      totalTests: 2,
+      testSuccessRates: [
+        { testId: "stabil.spec.ts", successRate: 100, totalRuns: 4 },
+        { testId: "wackelig.spec.ts", successRate: 25, totalRuns: 4 },
+      ] as TestSuccessRate[],
+      lastUpdated: NOW,
+      timeRange: { start: 0, end: NOW },
+    } as ProjectSuccessRates;
+
+    const separated = tracker.separateQuarantined(
+      rates,
+      (test) => test.testId === "wackelig.spec.ts",
+    );
+
+    expect(separated.rates.totalTests).toBe(1);
+    expect(separated.rates.overallSuccessRate).toBe(100);
+    expect(separated.quarantined.testSuccessRates[0].testId).toBe(
+      "wackelig.spec.ts",
+    );
+    expect(separated.quarantined.overallSuccessRate).toBe(25);
+  });
+});
+
+describe("Validierung", () => {
+  it("sollte unvollständige Einträge und ungültige Richtlinien ablehnen", () => {
+    expect(
+      validateQuarantineInput({ testId: "a.spec.ts", reason: "x" }),
+    ).toEqual([]);
+    expect(
+      validateQuarantineInput({ testId: "", expiresAt: "morgen" }),
+    ).toEqual([
+      "testId muss ein nicht leerer Text sein",
+      "reason muss ein nicht leerer Text sein",
+      "expiresAt muss ein Zeitstempel oder ISO-Datum sein",
+    ]);
+    expect(validateAutoQuarantinePolicy({ consecutiveRuns: 0 })).toEqual([
+      "consecutiveRuns muss eine positive ganze Zahl sein",
+    ]);
+    expect(getQuarantinePattern({ testId: "a.spec.ts" })).toBe("a\\.spec\\.ts");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests für den JUnit-XML-Parser
+ *
+ * Diese Tests prüfen die Umwandlung realer JUnit-Berichte (Playwright,
+ * Maven Surefire, jest-junit) in einzelne Testergebnisse sowie die
+ * Fehlerbehandlung bei ungültigem XML.
+ */
+
+import { parseJUnitXml } from "../../../utils/results/junit-parser";
+import { parseXml } from "../../../utils/results/xml-parser";
+
+// Ausgabe von `playwright test --reporter=junit` (gekürzt)
+const playwrightJUnit = `<testsuites id="" name="" tests="3" failures="1" skipped="1" errors="0" time="4.512">
+<testsuite name="auth/login.spec.ts" timestamp="2025-07-09T10:00:00.000Z" hostname="chromium" tests="2" failures="1" skipped="0" time="3.1" errors="0">
+<testcase name="Login › zeigt Fehlermeldung bei falschem Passwort" classname="auth/login.spec.ts" time="1.2">
+</testcase>
+<testcase name="Login › Passwort vergessen › sendet E-Mail" classname="auth/login.spec.ts" time="1.9">
+<failure message="login.spec.ts:22:7 sendet E-Mail" type="FAILURE">
+<![CDATA[  [chromium] › auth/login.spec.ts:22:7 › Login › Passwort vergessen › sendet E-Mail
+
+    Error: expect(locator).toBeVisible() failed
+
+    Locator: getByText('E-Mail gesendet')
+    Expected: visible
+]]>
+</failure>
+<system-out>
+<![CDATA[
+[[ATTACHMENT|test-results/login-sendet-E-Mail-chromium/test-failed-1.png]]
+]]>
+</system-out>
+<system-err>
+<![CDATA[Warnung: langsame Antwort
+]]>
+</system-err>
+</testcase>
+</testsuite>
+<testsuite name="smoke.spec.ts" timestamp="2025-07-09T10:00:03.000Z" hostname="firefox" tests="1" failures="0" skipped="1" time="0" errors="0">
+<testcase name="startseite lädt" classname="smoke.spec.ts" time="0">
+<skipped>
+</skipped>
+</testcase>
+</testsuite>
+</testsuites>`;
+
+// Maven-Surefire-Bericht mit error, Wiederholung und Entities
+const surefireJUnit = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Generated by maven-surefire-plugin -->
+<testsuite xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" version="3.0" name="com.example.CheckoutTest" time="0.842" tests="3" errors="1" skipped="0" failures="0" hostname="build-agent-07">
+  <properties>
+    <property name="java.version" value="17.0.8"/>
+  </properties>
+  <testcase name="calculatesTotal" classname="com.example.CheckoutTest" time="0.012"/>
+  <testcase name="rejectsEmptyCart" classname="com.example.CheckoutTest" time="0.3">
+    <error message="Cart &lt;empty&gt; &amp; invalid" type="java.lang.IllegalStateException">java.lang.IllegalStateException: Cart &lt;empty&gt; &amp; invalid
+	at com.example.Checkout.submit(Checkout.java:42)</error>
+  </testcase>
+  <testcase name="appliesVoucher" classname="com.example.CheckoutTest" time="0.53">
+    <flakyFailure message="timeout" type="java.net.SocketTimeoutException"/>
+    <system-out>Gutschein &#x2713; angewendet</system-out>
+  </testcase>
+</testsuite>`;
+
+// jest-junit-Bericht mit Dateiattribut und failure ohne message
+const jestJUnit = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="1" failures="1" errors="0" time="1.2">
+  <testsuite name="Warenkorb" errors="0" failures="1" skipped="0" timestamp="2025-07-09T10:00:00" time="1.1" tests="1">
+    <testcase classname="Warenkorb entfernt Artikel" name="Warenkorb entfernt Artikel" time="0.004" file="src/cart.test.ts">
+      <failure>Error: expect(received).toBe(expected)
+
+Expected: 0
+Received: 1</failure>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+describe("parseJUnitXml", () => {
+  describe("Playwright-JUnit-Reporter", () => {
+    it("sollte einen Eintrag pro Testfall mit Projekt aus hostname erzeugen", () => {
+      const parsed = parseJUnitXml(playwrightJUnit);
+
+      expect(parsed.format).toBe("junit");
+      expect(parsed.issues).toEqual([]);
+      expect(parsed.testResults.map((t) => t.status)).toEqual([
+        "passed",
+        "failed",
+        "skipped",
+      ]);
+      expect(parsed.testResults.map((t) => t.projectName)).toEqual([
+        "chromium",
+        "chromium",
+        "firefox",
+      ]);
+      expect(parsed.config).toMatchObject({
+        reporter: "junit",
+        projects: ["chromium", "firefox"],
+      });
+    });
+
+    it("sollte describe-Pfad, Titel, Datei und Dauer übernehmen", () => {
+      const failed = parseJUnitXml(playwrightJUnit).testResults[1];
+
+      expect(failed.title).toBe("sendet E-Mail");
+      expect(failed.titlePath).toEqual(["Login", "Passwort vergessen"]);
+      expect(failed.path).toBe("auth/login.spec.ts");
+      expect(failed.filename).toBe("login.spec.ts");
+      expect(failed.duration).toBe(1900);
+    });
+
+    it("sollte Fehlermeldung, Ausgabe und Anhänge extrahieren", () => {
+      const failed = parseJUnitXml(playwrightJUnit).testResults[1];
+
+      expect(failed.error?.message).toBe("login.spec.ts:22:7 sendet E-Mail");
+      expect(failed.error?.stack).toContain(
+        "Locator: getByText('E-Mail gesendet')",
+      );
+      expect(failed.output).toBe("Warnung: langsame Antwort\n");
+      expect(failed.attachments).toEqual([
+        {
+          name: "test-failed-1",
+          contentType: "image/png",
+          path: "test-results/login-sendet-E-Mail-chromium/test-failed-1.png",
+        },
+      ]);
+    });
+
+    it("sollte einen festen Projektnamen bevorzugen", () => {
+      const parsed = parseJUnitXml(playwrightJUnit, { project: "ci" });
+
+      expect(parsed.testResults.every((t) => t.projectName === "ci")).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("Maven Surefire", () => {
+    it("sollte error-Elemente als failed werten und Entities dekodieren", () => {
+      const parsed = parseJUnitXml(surefireJUnit, { hostnameAsProject: false });
+      const [passed, errored, flaky] = parsed.testResults;
+
+      expect(parsed.testResults).toHaveLength(3);
+      expect(passed).toMatchObject({
+        status: "passed",
+        path: "com.example.CheckoutTest",
+        duration: 12,
+        projectName: undefined,
+      });
+      expect(errored.status).toBe("failed");
+      expect(errored.error?.message).toBe("Cart <empty> & invalid");
+      expect(errored.error?.stack).toContain("Checkout.java:42");
+      expect(flaky.status).toBe("flaky");
+      expect(flaky.retries).toBe(1);
+      expect(flaky.attempts?.map((a) => a.status)).toEqual([
+        "failed",
+        "passed",
+      ]);
+      expect(flaky.output).toBe("Gutschein ✓ angewendet\n");
+    });
+  });
+
+  describe("jest-junit", () => {
+    it("sollte das file-Attribut und die erste Zeile als Meldung verwenden", () => {
+      const [test] = parseJUnitXml(jestJUnit).testResults;
+
+      expect(test.path).toBe("src/cart.test.ts");
+      expect(test.filename).toBe("cart.test.ts");
+      expect(test.title).toBe("Warenkorb entfernt Artikel");
+      expect(test.error?.message).toBe(
+        "Error: expect(received).toBe(expected)",
+      );
+    });
+  });
+
+  describe("Ungültige Eingaben", () => {
+    it("sollte Syntaxfehler und fremde Wurzelelemente melden", () => {
+      expect(
+        parseJUnitXml("<testsuite><testcase></testsuite>").issues[0].message,
+      ).toContain("kein gültiges XML");
+      expect(parseJUnitXml("<html></html>").issues[0].message).toContain(
+        "Unbekanntes Wurzelelement",
+      );
+      expect(parseJUnitXml("").issues).toHaveLength(1);
+    });
+
+    it("sollte Testfälle ohne Namen oder mit ungültiger Dauer melden", () => {
+      const parsed = parseJUnitXml(
+        `<testsuite name="a.spec.ts"><testcase time="1"/><testcase name="x" time="abc"/></testsuite>`,
+      );
+
+      expect(parsed.testResults).toHaveLength(0);
+      expect(parsed.issues.map((issue) => issue.path)).toEqual([
+        "testsuite.testcase[0]",
+        "testsuite.testcase[1]",
+      ]);
+    });
+  });
+});
+
+describe("parseXml", () => {
+  it("sollte Attribute in einfachen Anführungszeichen und verschachtelte Elemente lesen", () => {
+    const { root } = parseXml(`<a x='1'><b y="&quot;2&quot;"/>text</a>`);
+
+    expect(root?.attributes).toEqual({ x: "1" });
+    expect(root?.children[0].attributes).toEqual({ y: '"2"' });
+    expect(root?.text).toBe("text");
+  });
+
+  it("sollte mehrere Wurzelelemente ablehnen", () => {
+    expect(parseXml("<a/><b/>").error).toContain("Mehr als ein Wurzelelement");
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Tests für den Playwright-Report-Parser
+ *
+ * Diese Tests prüfen, dass die native Ausgabe des Playwright-JSON-Reporters
+ * auf Ebene einzelner Testfälle aufgelöst wird und nicht interpretierbare
+ * Teile als Hinweise zurückgegeben werden.
+ */
+
+import {
+  parsePlaywrightOutput,
+  stripAnsi,
+} from "../../../utils/results/playwright-report-parser";
+
+// Gekürzter, aber strukturell vollständiger Report von `playwright test --reporter=json`
+const jsonReport = {
+  config: {
+    rootDir: "/repo/tests/e2e",
+    workers: 4,
+    version: "1.53.2",
+    projects: [{ name: "chromium" }, { name: "webkit" }],
+  },
+  suites: [
+    {
+      title: "auth/login.spec.ts",
+      file: "auth/login.spec.ts",
+      line: 0,
+      column: 0,
+      specs: [],
+      suites: [
+        {
+          title: "Login",
+          file: "auth/login.spec.ts",
+          line: 3,
+          column: 6,
+          specs: [
+            {
+              title: "zeigt Fehlermeldung bei falschem Passwort",
+              ok: true,
+              tags: [],
+              file: "auth/login.spec.ts",
+              line: 10,
+              column: 7,
+              id: "abc-1",
+              tests: [
+                {
+                  timeout: 30000,
+                  annotations: [],
+                  expectedStatus: "passed",
+                  projectId: "chromium",
+                  projectName: "chromium",
+                  status: "expected",
+                  results: [
+                    {
+                      workerIndex: 0,
+                      status: "passed",
+                      duration: 1200,
+                      retry: 0,
+                      errors: [],
+                      stdout: [{ text: "login ok\n" }],
+                      stderr: [],
+                      attachments: [],
+                    },
+                  ],
+                },
+                {
+                  timeout: 30000,
+                  annotations: [],
+                  expectedStatus: "passed",
+                  projectId: "webkit",
+                  projectName: "webkit",
+                  status: "unexpected",
+                  results: [
+                    {
+                      workerIndex: 1,
+                      status: "failed",
+                      duration: 800,
+                      retry: 0,
+                      error: {
+                        message:
+                          "\u001b[31mError: expect(locator).toBeVisible()\u001b[39m",
+                        stack:
+                          "Error: expect(locator).toBeVisible()\n    at login.spec.ts:14:5",
+                        location: {
+                          file: "/repo/tests/e2e/auth/login.spec.ts",
+                          line: 14,
+                          column: 5,
+                        },
+                      },
+                      errors: [],
+                      stdout: [],
+                      stderr: [
+                        { buffer: Buffer.from("warn\n").toString("base64") },
+                      ],
+                      attachments: [
+                        {
+                          name: "screenshot",
+                          contentType: "image/png",
+                          path: "/repo/test-results/login-webkit/test-failed-1.png",
+                        },
+                        {
+                          name: "inline",
+                          contentType: "image/png",
+                          body: "iVBORw0KGgo=",
+                        },
+                      ],
+                    },
+                    {
+                      workerIndex: 2,
+                      status: "timedOut",
+                      duration: 30000,
+                      retry: 1,
+                      error: { message: "Test timeout of 30000ms exceeded." },
+                      attachments: [
+                        {
+                          name: "trace",
+                          contentType: "application/zip",
+                          path: "/repo/test-results/login-webkit-retry1/trace.zip",
+                        },
+                      ],
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      title: "smoke.spec.ts",
+      file: "smoke.spec.ts",
+      specs: [
+        {
+          title: "startseite lädt",
+          file: "smoke.spec.ts",
+          line: 4,
+          column: 5,
+          tests: [
+            {
+              projectName: "chromium",
+              status: "skipped",
+              results: [],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  errors: [
+    {
+      message: "Error: Cannot find module './helpers'",
+      location: { file: "/repo/tests/e2e/broken.spec.ts", line: 1, column: 1 },
+    },
+  ],
+  stats: { startTime: "2025-07-09T10:00:00.000Z", duration: 32000 },
+};
+
+describe("parsePlaywrightOutput", () => {
+  describe("JSON-Reporter-Format", () => {
+    it("sollte einen Eintrag pro Testfall und Projekt erzeugen", () => {
+      const parsed = parsePlaywrightOutput(jsonReport);
+
+      expect(parsed.format).toBe("playwright-json");
+      expect(parsed.testResults).toHaveLength(3);
+      expect(parsed.testResults.map((t) => t.projectName)).toEqual([
+        "chromium",
+        "webkit",
+        "chromium",
+      ]);
+    });
+
+    it("sollte describe-Pfad, Titel, Datei und Position übernehmen", () => {
+      const [first] = parsePlaywrightOutput(jsonReport).testResults;
+
+      expect(first.title).toBe("zeigt Fehlermeldung bei falschem Passwort");
+      expect(first.titlePath).toEqual(["Login"]);
+      expect(first.filename).toBe("login.spec.ts");
+      expect(first.path).toBe("/repo/tests/e2e/auth/login.spec.ts");
+      expect(first.location).toEqual({
+        file: "auth/login.spec.ts",
+        line: 10,
+        column: 7,
+      });
+      expect(first.status).toBe("passed");
+      expect(first.output).toBe("login ok\n");
+    });
+
+    it("sollte Wiederholungen zusammenfassen und den letzten Status verwenden", () => {
+      const webkit = parsePlaywrightOutput(jsonReport).testResults[1];
+
+      expect(webkit.status).toBe("timed-out");
+      expect(webkit.retries).toBe(1);
+      expect(webkit.duration).toBe(30800);
+      expect(webkit.error?.message).toBe("Test timeout of 30000ms exceeded.");
+      expect(webkit.output).toBe("warn\n");
+    });
+
+    it("sollte die einzelnen Versuche festhalten", () => {
+      const webkit = parsePlaywrightOutput(jsonReport).testResults[1];
+
+      expect(webkit.attempts).toEqual([
+        {
+          retry: 0,
+          status: "failed",
+          duration: 800,
+          error: { message: "Error: expect(locator).toBeVisible()" },
+        },
+        {
+          retry: 1,
+          status: "timed-out",
+          duration: 30000,
+          error: { message: "Test timeout of 30000ms exceeded." },
+        },
+      ]);
+    });
+
+    it("sollte bei Wiederholung bestandene Tests als flaky markieren", () => {
+      const parsed = parsePlaywrightOutput({
+        suites: [
+          {
+            title: "a.spec.ts",
+            file: "a.spec.ts",
+            specs: [
+              {
+                title: "wackelt",
+                tests: [
+                  {
+                    projectName: "chromium",
+                    status: "flaky",
+                    results: [
+                      { retry: 0, status: "timedOut", duration: 100 },
+                      { retry: 1, status: "passed", duration: 50 },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(parsed.testResults[0].status).toBe("flaky");
+      expect(parsed.testResults[0].retries).toBe(1);
+    });
+
+    it("sollte Anhänge und eingebettete Screenshots trennen", () => {
+      const webkit = parsePlaywrightOutput(jsonReport).testResults[1];
+
+      expect(webkit.screenshots).toEqual(["iVBORw0KGgo="]);
+      expect(webkit.attachments?.map((a) => a.name)).toEqual([
+        "screenshot",
+        "trace",
+      ]);
+    });
+
+    it("sollte nicht ausgeführte übersprungene Tests als skipped übernehmen", () => {
+      const skipped = parsePlaywrightOutput(jsonReport).testResults[2];
+
+      expect(skipped.status).toBe("skipped");
+      expect(skipped.titlePath).toEqual([]);
+      expect(skipped.duration).toBe(0);
+    });
+
+    it("sollte globale Fehler mit Position zurückgeben", () => {
+      const parsed = parsePlaywrightOutput(jsonReport);
+
+      expect(parsed.reportErrors).toEqual([
+        {
+          message: "Error: Cannot find module './helpers'",
+          location: {
+            file: "/repo/tests/e2e/broken.spec.ts",
+            line: 1,
+            column: 1,
+          },
+        },
+      ]);
+    });
+
+    it("sollte die Konfiguration aus dem Report ableiten", () => {
+      const parsed = parsePlaywrightOutput(JSON.stringify(jsonReport));
+
+      expect(parsed.config).toMatchObject({
+        reporter: "json",
+        workers: 4,
+        projects: ["chromium", "webkit"],
+      });
+    });
+
+    it("sollte unbekannte Status und Tests ohne Ergebnisse als Hinweis melden", () => {
+      const parsed = parsePlaywrightOutput({
+        suites: [
+          {
+            title: "a.spec.ts",
+            file: "a.spec.ts",
+            specs: [
+              {
+                title: "unbekannt",
+                tests: [
+                  { status: "unexpected", results: [{ status: "exploded" }] },
+                ],
+              },
+              {
+                title: "leer",
+                tests: [
+                  {
+                    projectName: "chromium",
+                    status: "unexpected",
+                    results: [],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(parsed.testResults).toHaveLength(0);
+      expect(parsed.issues).toHaveLength(2);
+      expect(parsed.issues[0].path).toBe(
+        "suites[0].specs[0].tests[0].results[0]",
+      );
+    });
+
+    it("sollte ungültige Specs, Tests und Ergebnisse melden statt abzubrechen", () => {
+      const parsed = parsePlaywrightOutput({
+        suites: [
+          {
+            title: "a.spec.ts",
+            file: "a.spec.ts",
+            specs: [
+              null,
+              { title: "null", tests: [null] },
+              { title: "kaputt", tests: [{ results: [null] }] },
+              {
+                title: "constructor",
+                tests: [{ results: [{ status: "constructor" }] }],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(parsed.testResults).toHaveLength(0);
+      expect(parsed.issues.map((issue) => issue.path)).toEqual([
+        "suites[0].specs[0]",
+        "suites[0].specs[1].tests[0]",
+        "suites[0].specs[2].tests[0].results[0]",
+        "suites[0].specs[3].tests[0].results[0]",
+      ]);
+      expect(parsed.issues[3].message).toBe(
+        'Unbekannter Teststatus "constructor"',
+      );
+    });
+
+    it("sollte specs und suites ohne Liste melden und ungültige Ausgaben überspringen", () => {
+      const parsed = parsePlaywrightOutput({
+        suites: [
+          { title: "a.spec.ts", file: "a.spec.ts", specs: {}, suites: "b" },
+          {
+            title: "c.spec.ts",
+            file: "c.spec.ts",
+            specs: [
+              {
+                title: "läuft",
+                tests: [
+                  {
+                    results: [
+                      {
+                        status: "passed",
+                        duration: 10,
+                        stdout: [null, { text: "ok\n" }],
+                        stderr: {},
+                        attachments: [null],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(parsed.issues).toEqual([
+        { path: "suites[0].specs", message: "specs ist keine Liste" },
+        { path: "suites[0].suites", message: "suites ist keine Liste" },
+      ]);
+      expect(parsed.testResults).toHaveLength(1);
+      expect(parsed.testResults[0].output).toBe("ok\n");
+    });
+  });
+
+  describe("Flaches Format", () => {
+    it("sollte Arrays und { tests: [...] } unterstützen", () => {
+      const entries = [{ file: "a.spec.ts", status: "passed", duration: 10 }];
+
+      expect(parsePlaywrightOutput(entries).testResults).toHaveLength(1);
+      expect(parsePlaywrightOutput({ tests: entries }).format).toBe("legacy");
+    });
+
+    it("sollte ungültige Einträge melden statt sie als failed zu werten", () => {
+      const parsed = parsePlaywrightOutput([
+        { file: "a.spec.ts" },
+        42,
+        { file: "b.spec.ts", status: "constructor" },
+      ]);
+
+      expect(parsed.testResults).toHaveLength(0);
+      expect(parsed.issues.map((issue) => issue.path)).toEqual([
+        "$[0]",
+        "$[1]",
+        "$[2]",
+      ]);
+    });
+  });
+
+  describe("Unbekannte Eingaben", () => {
+    it("sollte ungültiges JSON und unbekannte Strukturen melden", () => {
+      expect(parsePlaywrightOutput("{kaputt").issues[0].message).toContain(
+        "kein gültiges JSON",
+      );
+      expect(parsePlaywrightOutput({ foo: 1 }).format).toBe("unknown");
+    });
+  });
+
+  it("sollte ANSI-Farbcodes entfernen", () => {
+    expect(stripAnsi("\u001b[2mexpected\u001b[22m")).toBe("expected");
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests für die benannten Baselines
+ *
+ * Diese Tests prüfen das Anheften und Weiterschalten von Baselines, die
+ * Auflösung von Baseline-Namen und den Vergleich neuer Läufe mit der
+ * Baseline ihres Branches.
+ */
+
+import { PlaywrightTestResultFile } from "../../../types/playwright-results";
+import {
+  RunBaselines,
+  validateBaselineInput,
+} from "../../../utils/results/run-baselines";
+import { ResultsStore } from "../../../utils/storage/results-store";
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  branch: string,
+  statuses: Array<"passed" | "failed">,
+): PlaywrightTestResultFile {
+  const testResults = statuses.map((status, index) => ({
+    filename: `test${index}.spec.ts`,
+    path: `tests/test${index}.spec.ts`,
+    status,
+    duration: 100,
+  }));
+  const passed = statuses.filter((status) => status === "passed").length;
+
+  return {
+    runId,
+    timestamp,
+    branch,
+    success: passed === statuses.length,
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed,
+      failed: statuses.length - passed,
+      skipped: 0,
+      passRate: (passed / statuses.length) * 100,
+      failRate: ((statuses.length - passed) / statuses.length) * 100,
+      skipRate: 0,
+      totalDuration: statuses.length * 100,
+      totalTests: statuses.length,
+      averageDuration: 100,
+    },
+    testResults,
+  };
+}
+
+describe("RunBaselines", () => {
+  let store: ResultsStore;
+  let baselines: RunBaselines;
+
+  beforeEach(() => {
+    // Results-Store nur im Speicher, damit keine Dateien geschrieben werden
+    store = new ResultsStore();
+    baselines = new RunBaselines("/tmp", store);
+
+    store.saveRun(createRun("run1", 1000, "main", ["passed", "passed"]));
+    store.saveRun(createRun("run2", 2000, "main", ["passed", "failed"]));
+    store.saveRun(createRun("run3", 3000, "feature", ["passed", "passed"]));
+  });
+
+  it("sollte eine Regel-Baseline auf den neuesten erfolgreichen Lauf setzen", () => {
+    const baseline = baselines.save(
+      "main-latest",
+      { rule: { branch: "main" } },
+      5000,
+    );
+
+    expect(baseline).toEqual({
+      name: "main-latest",
+      description: undefined,
+      runId: "run1",
+      pinned: false,
+      rule: { branch: "main" },
+      updatedAt: 5000,
+    });
+    expect(baselines.resolveRunId("main-latest")).toBe("run1");
+    expect(baselines.resolveRunId("run2")).toBe("run2");
+  });
+
+  it("sollte null für einen unbekannten Lauf zurückgeben", () => {
+    expect(baselines.save("release-2.3", { runId: "fehlt" })).toBeNull();
+    expect(baselines.list()).toEqual([]);
+  });
+
+  it("sollte nur nicht angeheftete Baselines mit passender Regel weiterschalten", () => {
+    baselines.save("main-latest", { rule: { branch: "main" } });
+    baselines.save("release-2.3", {
+      runId: "run1",
+      pinned: true,
+      rule: { branch: "main" },
+    });
+    baselines.save("nightly", { rule: { onlyPassing: false } });
+
+    const failing = createRun("run4", 4000, "main", ["failed", "failed"]);
+    const passing = createRun("run5", 5000, "main", ["passed", "passed"]);
+    store.saveRun(failing);
+    store.saveRun(passing);
+
+    expect(baselines.advance(failing)).toEqual(["nightly"]);
+    expect(baselines.advance(passing)).toEqual(["main-latest", "nightly"]);
+    expect(baselines.get("release-2.3")?.runId).toBe("run1");
+    expect(baselines.get("main-latest")?.runId).toBe("run5");
+
+    // Ein älterer Lauf schaltet eine Baseline nicht zurück
+    expect(baselines.advance(failing)).toEqual([]);
+  });
+
+  it("sollte neue Läufe mit der Baseline ihres Branches vergleichen", () => {
+    baselines.save("main-latest", { rule: { branch: "main" } });
+    baselines.save("all-green", { rule: {} });
+
+    const summary = baselines.compareWithBranchBaseline(
+      createRun("run4", 4000, "main", ["failed", "passed"]),
+    );
+    const fallback = baselines.compareWithBranchBaseline(
+      createRun("run5", 5000, "feature", ["passed", "passed"]),
+    );
+
+    expect(summary).toEqual({
+      baseline: "main-latest",
+      baselineRunId: "run1",
+      passRateChange: -50,
+      durationChange: 0,
+      newFailures: 1,
+      fixedTests: 0,
+    });
+    expect(fallback?.baseline).toBe("all-green");
+    expect(fallback?.baselineRunId).toBe("run3");
+  });
+
+  it("sollte angeheftete Baselines nur mit Regel einem Branch zuordnen", () => {
+    baselines.save("release-2.3", { runId: "run1", pinned: true });
+    expect(baselines.getBranchBaseline("main")).toBeNull();
+
+    baselines.save("release-2.3", {
+      runId: "run1",
+      pinned: true,
+      rule: { branch: "release/2.3" },
+    });
+    expect(baselines.getBranchBaseline("release/2.3")?.name).toBe(
+      "release-2.3",
+    );
+  });
+
+  it("sollte Baselines löschen", () => {
+    baselines.save("release-2.3", { runId: "run1", pinned: true });
+
+    expect(baselines.remove("release-2.3")).toBe(true);
+    expect(baselines.remove("release-2.3")).toBe(false);
+    expect(baselines.resolveRunId("release-2.3")).toBe("release-2.3");
+  });
+
+  it("sollte geerbte Schlüssel nicht als Baselines behandeln", () => {
+    baselines.save("main", { rule: { branch: "main" } });
+
+    expect(baselines.get("constructor")).toBeNull();
+    expect(baselines.resolveRunId("toString")).toBe("toString");
+    expect(baselines.remove("hasOwnProperty")).toBe(false);
+    expect(baselines.list().map((baseline) => baseline.name)).toEqual(["main"]);
+  });
+});
+
+describe("validateBaselineInput", () => {
+  it("sollte ungültige Baselines melden", () => {
+    expect(validateBaselineInput("main", { rule: { branch: "main" } })).toEqual(
+      [],
+    );
+    expect(
+      validateBaselineInput("release", { pinned: true, rule: { branch: 1 } }),
+    ).toEqual([
+      "rule.branch muss ein Text sein",
+      "Eine angeheftete Baseline braucht eine runId",
+    ]);
+    expect(validateBaselineInput("leer", {})).toEqual([
+      "Eine Baseline braucht eine runId oder eine Regel",
+    ]);
+    expect(validateBaselineInput("__proto__", { runId: "run1" })).toEqual([
+      "Der Name __proto__ ist für Baselines nicht erlaubt",
+    ]);
+  });
+});
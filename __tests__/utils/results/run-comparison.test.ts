@@ -0,0 +1,97 @@
+/**
+ * Tests für den Vergleich zweier Testläufe
+ *
+ * Diese Tests prüfen die Zuordnung der Tests beider Läufe und die daraus
+ * abgeleiteten Statuswechsel.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../../types/playwright-results";
+import {
+  compareRuns,
+  isFixedTest,
+  isNewFailure,
+} from "../../../utils/results/run-comparison";
+
+function createRun(
+  runId: string,
+  rootDir: string,
+  tests: Array<Partial<PlaywrightSingleTestResult>>,
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp: 1000,
+    success: true,
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: tests.length,
+      failed: 0,
+      skipped: 0,
+      passRate: 100,
+      failRate: 0,
+      skipRate: 0,
+      totalDuration: 100 * tests.length,
+      totalTests: tests.length,
+      averageDuration: 100,
+    },
+    testResults: tests.map((test) => ({
+      filename: "login.spec.ts",
+      path: `${rootDir}/tests/login.spec.ts`,
+      titlePath: ["Login"],
+      status: "passed",
+      duration: 100,
+      projectName: "chromium",
+      ...test,
+    })),
+  };
+}
+
+describe("compareRuns", () => {
+  it("sollte Tests unabhängig vom Wurzelverzeichnis des Laufs zuordnen", () => {
+    const comparison = compareRuns(
+      createRun("run1", "/home/ci/builds/1", [
+        { title: "meldet an" },
+        { title: "meldet ab", status: "failed" },
+      ]),
+      createRun("run2", "/Users/erika/shop", [
+        { title: "meldet an", status: "failed" },
+        { title: "meldet ab" },
+      ]),
+    );
+
+    expect(
+      comparison.testChanges.map((change) => [
+        change.title,
+        change.previousStatus,
+        change.currentStatus,
+      ]),
+    ).toEqual([
+      ["meldet an", "passed", "failed"],
+      ["meldet ab", "failed", "passed"],
+    ]);
+    expect(comparison.testChanges.filter(isNewFailure)).toHaveLength(1);
+    expect(comparison.testChanges.filter(isFixedTest)).toHaveLength(1);
+  });
+
+  it("sollte denselben Testfall pro Projekt getrennt vergleichen", () => {
+    const comparison = compareRuns(
+      createRun("run1", "/ci", [{ title: "meldet an" }]),
+      createRun("run2", "/ci", [
+        { title: "meldet an" },
+        { title: "meldet an", projectName: "webkit" },
+      ]),
+    );
+
+    expect(
+      comparison.testChanges.map((change) => [
+        change.project,
+        change.previousStatus,
+      ]),
+    ).toEqual([
+      ["chromium", "passed"],
+      ["webkit", "new"],
+    ]);
+  });
+});
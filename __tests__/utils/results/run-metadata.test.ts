@@ -0,0 +1,178 @@
+/**
+ * Tests für die Git- und CI-Metadaten von Testläufen
+ *
+ * Diese Tests prüfen das Auslesen der CI-Umgebungsvariablen, das
+ * Zusammenführen mehrerer Quellen, die Prüfung der Upload-Felder und den
+ * Lauf-Filter nach Branch.
+ */
+
+import { PlaywrightTestResultFile } from "../../../types/playwright-results";
+import {
+  containsCommit,
+  createRunFilter,
+  mergeRunMetadata,
+  readCiMetadata,
+  readUploadMetadata,
+  validateRunMetadataInput,
+} from "../../../utils/results/run-metadata";
+import { ResultsStore } from "../../../utils/storage/results-store";
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  branch: string,
+  commit: string,
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp,
+    branch,
+    git: { commit, branch },
+    success: true,
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: 1,
+      failed: 0,
+      skipped: 0,
+      passRate: 100,
+      failRate: 0,
+      skipRate: 0,
+      totalDuration: 100,
+      totalTests: 1,
+      averageDuration: 100,
+    },
+    testResults: [
+      {
+        filename: "login.spec.ts",
+        path: "tests/login.spec.ts",
+        status: "passed",
+        duration: 100,
+      },
+    ],
+  };
+}
+
+describe("readCiMetadata", () => {
+  it("sollte die Variablen von GitHub Actions auslesen", () => {
+    expect(
+      readCiMetadata({
+        GITHUB_ACTIONS: "true",
+        GITHUB_SHA: "4f2a9c1e",
+        GITHUB_REF: "refs/pull/42/merge",
+        GITHUB_HEAD_REF: "feature/login",
+        GITHUB_REF_NAME: "42/merge",
+        GITHUB_ACTOR: "mmustermann",
+        GITHUB_SERVER_URL: "https://github.com",
+        GITHUB_REPOSITORY: "acme/shop",
+        GITHUB_RUN_ID: "987",
+      }),
+    ).toEqual({
+      commit: "4f2a9c1e",
+      branch: "feature/login",
+      pullRequest: "42",
+      author: "mmustermann",
+      ciJobUrl: "https://github.com/acme/shop/actions/runs/987",
+      ciProvider: "github-actions",
+    });
+  });
+
+  it("sollte die Variablen von GitLab CI auslesen", () => {
+    expect(
+      readCiMetadata({
+        GITLAB_CI: "true",
+        CI_COMMIT_SHA: "b7d01e3",
+        CI_COMMIT_BRANCH: "main",
+        CI_COMMIT_TITLE: "Warenkorb korrigieren",
+        CI_JOB_URL: "https://gitlab.example.com/acme/shop/-/jobs/12",
+      }),
+    ).toEqual({
+      commit: "b7d01e3",
+      branch: "main",
+      commitMessage: "Warenkorb korrigieren",
+      ciJobUrl: "https://gitlab.example.com/acme/shop/-/jobs/12",
+      ciProvider: "gitlab-ci",
+    });
+  });
+
+  it("sollte ohne erkanntes CI-System ein leeres Objekt liefern", () => {
+    expect(readCiMetadata({ HOME: "/root" })).toEqual({});
+  });
+});
+
+describe("Upload-Metadaten", () => {
+  it("sollte pro Feld den ersten gesetzten Wert übernehmen", () => {
+    expect(
+      mergeRunMetadata({ commit: "abc", branch: "" }, undefined, {
+        commit: "def",
+        branch: "main",
+        author: "ci",
+      }),
+    ).toEqual({ commit: "abc", branch: "main", author: "ci" });
+  });
+
+  it("sollte direkt angegebene Felder vor den CI-Variablen bevorzugen", () => {
+    expect(
+      readUploadMetadata({
+        branch: "release/2.3",
+        pullRequest: 17,
+        ciEnv: { CIRCLECI: "true", CIRCLE_SHA1: "c0ffee", CIRCLE_BRANCH: "x" },
+      }),
+    ).toEqual({
+      branch: "release/2.3",
+      pullRequest: "17",
+      commit: "c0ffee",
+      ciProvider: "circleci",
+    });
+  });
+
+  it("sollte ungültige Felder melden", () => {
+    expect(validateRunMetadataInput({ commit: "abc", pullRequest: 3 })).toEqual(
+      [],
+    );
+    expect(
+      validateRunMetadataInput({ branch: 1, author: ["a"], ciEnv: "CI=true" }),
+    ).toEqual([
+      "branch muss ein Text sein",
+      "author muss ein Text sein",
+      "ciEnv muss ein Objekt mit Umgebungsvariablen sein",
+    ]);
+  });
+
+  it("sollte gekürzte Commit-SHAs erkennen", () => {
+    expect(containsCommit(["4f2a9c1e8d"], "4f2a9c1")).toBe(true);
+    expect(containsCommit(["4f2a9c1"], "4f2a9c1e8d")).toBe(true);
+    expect(containsCommit(["4f2a9c1e8d"], "b7d01e3")).toBe(false);
+  });
+});
+
+describe("createRunFilter", () => {
+  let store: ResultsStore;
+
+  beforeEach(() => {
+    // Results-Store nur im Speicher, damit keine Dateien geschrieben werden
+    store = new ResultsStore();
+    store.saveRun(createRun("run1", 1000, "main", "aaa111"));
+    store.saveRun(createRun("run2", 2000, "feature", "bbb222"));
+    store.saveRun(createRun("run3", 3000, "main", "ccc333"));
+  });
+
+  it("sollte ohne Parameter keinen Filter bilden", () => {
+    expect(createRunFilter(store, {})).toEqual({});
+  });
+
+  it("sollte die Läufe eines Branches auswählen", () => {
+    const { filter } = createRunFilter(store, { branch: "main" });
+
+    expect(filter?.branch).toBe("main");
+    expect([...(filter?.runIds || [])].sort()).toEqual(["run1", "run3"]);
+  });
+
+  it("sollte ungültige Commit-Bereiche ablehnen", () => {
+    expect(createRunFilter(store, { commitRange: "aaa111" }).error).toBe(
+      "Commit-Bereich aaa111 konnte nicht aufgelöst werden (erwartet: <von>..<bis>)",
+    );
+    expect(
+      createRunFilter(store, { commitRange: "--all..HEAD" }).error,
+    ).toBeDefined();
+  });
+});
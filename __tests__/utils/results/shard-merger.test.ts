@@ -0,0 +1,170 @@
+/**
+ * Tests für den Shard-Merger
+ *
+ * Diese Tests prüfen, dass einzeln hochgeladene Shards eines Playwright-Laufs
+ * zu einem logischen Lauf zusammengeführt werden und unvollständige Builds
+ * nach Ablauf des Zeitlimits als Teillauf gekennzeichnet werden.
+ */
+
+import ShardMerger, { ShardUpload } from "../../../utils/results/shard-merger";
+import * as fs from "fs";
+
+// In-Memory-Dateisystem für die Shard-Zustände
+const mockFiles = new Map<string, string>();
+
+jest.mock("fs", () => ({
+  existsSync: jest.fn(
+    (file: string) => file.endsWith("pending-shards") || mockFiles.has(file),
+  ),
+  mkdirSync: jest.fn(),
+  readdirSync: jest.fn(() =>
+    Array.from(mockFiles.keys()).map((file) => file.split("/").pop()),
+  ),
+  readFileSync: jest.fn((file: string) => mockFiles.get(file)),
+  writeFileSync: jest.fn((file: string, content: string) => {
+    mockFiles.set(file, content);
+  }),
+}));
+
+jest.mock("path", () => ({
+  join: jest.fn().mockImplementation((...args) => args.join("/")),
+}));
+
+function createShard(
+  shardIndex: number,
+  overrides: Partial<ShardUpload> = {},
+): ShardUpload {
+  return {
+    buildId: "build-42",
+    shardIndex,
+    shardTotal: 3,
+    testResults: [
+      {
+        filename: `shard${shardIndex}.spec.ts`,
+        path: `tests/shard${shardIndex}.spec.ts`,
+        title: "läuft",
+        status: "passed",
+        duration: 100 * shardIndex,
+      },
+    ],
+    reportErrors: [],
+    config: { headless: true, reporter: "json", workers: 2 },
+    ...overrides,
+  };
+}
+
+describe("ShardMerger", () => {
+  let merger: ShardMerger;
+
+  beforeEach(() => {
+    mockFiles.clear();
+    jest.clearAllMocks();
+    merger = new ShardMerger("/base", 1000);
+  });
+
+  it("sollte Shards sammeln, bis alle eingegangen sind", () => {
+    const first = merger.addShard(createShard(2), 100);
+    const second = merger.addShard(createShard(1), 200);
+
+    expect(first.status).toBe("pending");
+    expect(second).toEqual({
+      status: "pending",
+      build: {
+        buildId: "build-42",
+        total: 3,
+        received: [1, 2],
+        missing: [3],
+        firstReceivedAt: 100,
+        expiresAt: 1100,
+      },
+    });
+  });
+
+  it("sollte einen vollständigen Build in Shard-Reihenfolge zusammenführen", () => {
+    merger.addShard(createShard(3), 100);
+    merger.addShard(createShard(1, { runName: "Nightly" }), 200);
+    const outcome = merger.addShard(createShard(2), 300);
+
+    expect(outcome.status).toBe("complete");
+    if (outcome.status !== "complete") return;
+
+    expect(outcome.run.testResults.map((t) => t.filename)).toEqual([
+      "shard1.spec.ts",
+      "shard2.spec.ts",
+      "shard3.spec.ts",
+    ]);
+    expect(outcome.run.timestamp).toBe(100);
+    expect(outcome.run.runName).toBe("Nightly");
+    expect(outcome.run.config.shard).toEqual({ total: 3 });
+    expect(outcome.run.shards).toEqual({
+      buildId: "build-42",
+      total: 3,
+      received: [1, 2, 3],
+      missing: [],
+      complete: true,
+    });
+  });
+
+  it("sollte abgelaufene Builds als Teillauf abschließen", () => {
+    merger.addShard(createShard(1), 100);
+    merger.addShard(createShard(3), 200);
+
+    expect(merger.finalizeExpired(1099)).toEqual([]);
+
+    const [partial] = merger.finalizeExpired(1100);
+    expect(partial.testResults).toHaveLength(2);
+    expect(partial.shards).toMatchObject({
+      received: [1, 3],
+      missing: [2],
+      complete: false,
+    });
+  });
+
+  it("sollte verspätete Shards nach dem Abschluss ablehnen", () => {
+    merger.addShard(createShard(1), 100);
+    merger.markMerged("build-42", "run-1");
+
+    const late = merger.addShard(createShard(2), 2000);
+
+    expect(late.status).toBe("rejected");
+    expect(merger.listPending()).toEqual([]);
+    expect(merger.finalize("build-42")).toBeNull();
+  });
+
+  it("sollte abweichende Shard-Anzahlen ablehnen", () => {
+    merger.addShard(createShard(1), 100);
+
+    const outcome = merger.addShard(createShard(2, { shardTotal: 4 }), 200);
+
+    expect(outcome).toMatchObject({ status: "rejected" });
+  });
+
+  it("sollte wiederholte Uploads desselben Shards ersetzen", () => {
+    merger.addShard(createShard(1), 100);
+    merger.addShard(
+      createShard(1, {
+        testResults: [
+          {
+            filename: "retry.spec.ts",
+            path: "tests/retry.spec.ts",
+            status: "failed",
+            duration: 5,
+          },
+        ],
+      }),
+      150,
+    );
+
+    const run = merger.finalize("build-42");
+    expect(run?.testResults.map((t) => t.filename)).toEqual(["retry.spec.ts"]);
+  });
+
+  it("sollte Build-Schlüssel für den Dateinamen bereinigen", () => {
+    merger.addShard(createShard(1, { buildId: "gh/123:1" }), 100);
+
+    expect(fs.writeFileSync).toHaveBeenCalledWith(
+      "/base/results/pending-shards/gh_123_1.json",
+      expect.any(String),
+    );
+  });
+});
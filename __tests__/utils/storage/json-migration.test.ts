@@ -0,0 +1,140 @@
+/**
+ * Tests für die Migration der JSON-Dateien in den Results-Store
+ *
+ * Diese Tests prüfen den Import von Testläufen und Metrik-Dokumenten,
+ * die Wiederholbarkeit der Migration und die Meldung fehlerhafter Dateien.
+ */
+
+import { migrateJsonResults } from "../../../utils/storage/json-migration";
+import { DOCUMENT_KEYS } from "../../../utils/storage/results-repository";
+import { ResultsStore } from "../../../utils/storage/results-store";
+
+// Dateisystem im Speicher
+const files = new Map<string, string>();
+
+jest.mock("fs", () => ({
+  existsSync: jest.fn(
+    (file: string) =>
+      files.has(file) ||
+      Array.from(files.keys()).some((name) => name.startsWith(`${file}/`)),
+  ),
+  readdirSync: jest.fn((dir: string) =>
+    Array.from(files.keys())
+      .filter((name) => name.startsWith(`${dir}/`))
+      .map((name) => name.slice(dir.length + 1)),
+  ),
+  readFileSync: jest.fn((file: string) => {
+    if (!files.has(file)) throw new Error(`ENOENT: ${file}`);
+    return files.get(file);
+  }),
+}));
+
+const runFile = (runId: string, timestamp: number) =>
+  JSON.stringify({
+    runId,
+    timestamp,
+    success: true,
+    metrics: {},
+    testResults: [
+      {
+        filename: "a.spec.ts",
+        path: "a.spec.ts",
+        status: "passed",
+        duration: 1,
+      },
+    ],
+  });
+
+describe("migrateJsonResults", () => {
+  let store: ResultsStore;
+
+  beforeEach(() => {
+    files.clear();
+    store = new ResultsStore();
+
+    files.set(
+      "/app/results/playwright-results/run-1.json",
+      runFile("run-1", 1000),
+    );
+    files.set(
+      "/app/results/playwright-results/run-2.json",
+      runFile("run-2", 2000),
+    );
+    files.set(
+      "/app/results/success-rates.json",
+      JSON.stringify({ overallSuccessRate: 90 }),
+    );
+    files.set(
+      "/app/results/flakiness-report.json",
+      JSON.stringify({ flakyTestsCount: 1 }),
+    );
+    files.set(
+      "/app/history/test-history.json",
+      JSON.stringify([{ runId: "exec-1", status: "completed" }]),
+    );
+  });
+
+  it("sollte Testläufe und Metrik-Dokumente importieren", () => {
+    const report = migrateJsonResults("/app", store);
+
+    expect(report).toEqual({
+      runsImported: 2,
+      runsSkipped: 0,
+      documentsImported: [
+        DOCUMENT_KEYS.successRates,
+        DOCUMENT_KEYS.flakinessReport,
+        DOCUMENT_KEYS.testExecutionHistory,
+      ],
+      issues: [],
+    });
+    expect(store.getLatestRun()?.runId).toBe("run-2");
+    expect(store.getDocument(DOCUMENT_KEYS.successRates)).toEqual({
+      overallSuccessRate: 90,
+    });
+    expect(store.getDocument(DOCUMENT_KEYS.testExecutionHistory)).toEqual([
+      { runId: "exec-1", status: "completed" },
+    ]);
+  });
+
+  it("sollte bei erneutem Aufruf nichts doppelt importieren", () => {
+    migrateJsonResults("/app", store);
+    store.saveDocument(DOCUMENT_KEYS.successRates, { overallSuccessRate: 50 });
+
+    const report = migrateJsonResults("/app", store);
+
+    expect(report.runsImported).toBe(0);
+    expect(report.runsSkipped).toBe(2);
+    expect(report.documentsImported).toEqual([]);
+    expect(store.listRuns()).toHaveLength(2);
+    expect(store.getDocument(DOCUMENT_KEYS.successRates)).toEqual({
+      overallSuccessRate: 50,
+    });
+  });
+
+  it("sollte fehlerhafte und fremde Dateien melden und überspringen", () => {
+    files.set("/app/results/playwright-results/kaputt.json", "{");
+    files.set(
+      "/app/results/playwright-results/fremd.json",
+      JSON.stringify({ hallo: "welt" }),
+    );
+
+    const report = migrateJsonResults("/app", store);
+
+    expect(report.runsImported).toBe(2);
+    expect(report.issues.map((issue) => issue.file)).toEqual([
+      "fremd.json",
+      "kaputt.json",
+    ]);
+  });
+
+  it("sollte ohne vorhandene Dateien einen leeren Bericht liefern", () => {
+    files.clear();
+
+    expect(migrateJsonResults("/app", store)).toEqual({
+      runsImported: 0,
+      runsSkipped: 0,
+      documentsImported: [],
+      issues: [],
+    });
+  });
+});
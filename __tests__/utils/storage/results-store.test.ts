@@ -0,0 +1,248 @@
+/**
+ * Tests für den Results-Store
+ *
+ * Diese Tests prüfen das Speichern und Abfragen von Testläufen über die
+ * Indizes, das Wiedereinlesen des Journals sowie die Verdichtung.
+ */
+
+import * as fs from "fs";
+import { PlaywrightTestResultFile } from "../../../types/playwright-results";
+import {
+  ResultsStore,
+  RESULTS_DB_FILENAME,
+} from "../../../utils/storage/results-store";
+
+// Dateisystem im Speicher
+const files = new Map<string, string>();
+
+jest.mock("fs", () => ({
+  existsSync: jest.fn((file: string) => files.has(file)),
+  mkdirSync: jest.fn(),
+  readFileSync: jest.fn((file: string) => files.get(file)),
+  writeFileSync: jest.fn((file: string, content: string) => {
+    files.set(file, content);
+  }),
+  appendFileSync: jest.fn((file: string, content: string) => {
+    files.set(file, (files.get(file) || "") + content);
+  }),
+  renameSync: jest.fn((from: string, to: string) => {
+    files.set(to, files.get(from) || "");
+    files.delete(from);
+  }),
+}));
+
+const dbFile = `/data/results/${RESULTS_DB_FILENAME}`;
+
+function createRun(
+  runId: string,
+  timestamp: number,
+  tests: Array<{ file: string; status?: string; project?: string }>,
+): PlaywrightTestResultFile {
+  return {
+    runId,
+    timestamp,
+    success: tests.every((test) => test.status !== "failed"),
+    config: { headless: true, reporter: "json", workers: 1 },
+    metrics: {
+      passed: 0,
+      failed: 0,
+      skipped: 0,
+      passRate: 0,
+      failRate: 0,
+      skipRate: 0,
+      totalDuration: 0,
+      totalTests: tests.length,
+      averageDuration: 0,
+    },
+    testResults: tests.map((test) => ({
+      filename: test.file,
+      path: `tests/${test.file}`,
+      projectName: test.project,
+      status: (test.status || "passed") as "passed",
+      duration: 100,
+    })),
+  };
+}
+
+describe("ResultsStore", () => {
+  let store: ResultsStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    files.clear();
+    store = new ResultsStore("/data/results");
+  });
+
+  describe("Testläufe", () => {
+    it("sollte Läufe speichern, laden und neueste zuerst auflisten", () => {
+      store.saveRun(createRun("b", 2000, [{ file: "a.spec.ts" }]));
+      store.saveRun(createRun("a", 1000, [{ file: "a.spec.ts" }]));
+      store.saveRun(createRun("c", 3000, [{ file: "b.spec.ts" }]));
+
+      expect(store.getRun("a")?.timestamp).toBe(1000);
+      expect(store.getRun("fehlt")).toBeNull();
+      expect(store.listRuns().map((run) => run.runId)).toEqual(["c", "b", "a"]);
+      expect(store.getLatestRun()?.runId).toBe("c");
+    });
+
+    it("sollte Läufe nach Zeitraum, Projekt und Anzahl filtern", () => {
+      store.saveRun(
+        createRun("a", 1000, [{ file: "x.spec.ts", project: "chromium" }]),
+      );
+      store.saveRun(
+        createRun("b", 2000, [{ file: "x.spec.ts", project: "webkit" }]),
+      );
+      store.saveRun(
+        createRun("c", 3000, [{ file: "x.spec.ts", project: "chromium" }]),
+      );
+
+      expect(
+        store.listRuns({ since: 1500, until: 2500 }).map((run) => run.runId),
+      ).toEqual(["b"]);
+      expect(
+        store.listRuns({ project: "chromium" }).map((run) => run.runId),
+      ).toEqual(["c", "a"]);
+      expect(store.listRuns({ limit: 1 })[0].runId).toBe("c");
+      expect(store.listRuns({ project: "firefox" })).toEqual([]);
+      expect(store.listRuns()[0].projects).toEqual(["chromium"]);
+    });
+
+    it("sollte einen Lauf mit gleicher ID ersetzen und Löschungen aus allen Indizes entfernen", () => {
+      store.saveRun(createRun("a", 1000, [{ file: "x.spec.ts" }]));
+      store.saveRun(createRun("a", 1000, [{ file: "y.spec.ts" }]));
+
+      expect(store.listRuns()).toHaveLength(1);
+      expect(store.findTestResults({ testId: "x.spec.ts" })).toEqual([]);
+
+      expect(store.deleteRun("a")).toBe(true);
+      expect(store.deleteRun("a")).toBe(false);
+      expect(store.getLatestRun()).toBeNull();
+      expect(store.findTestResults({ testId: "y.spec.ts" })).toEqual([]);
+    });
+
+    it("sollte Läufe als Kopie speichern und zurückgeben", () => {
+      const run = createRun("a", 1000, [{ file: "x.spec.ts" }]);
+      store.saveRun(run);
+      run.runName = "geändert";
+
+      store.getRun("a")!.testResults[0].status = "failed";
+      store.getLatestRun()!.runName = "auch geändert";
+
+      expect(store.getRun("a")?.runName).toBeUndefined();
+      expect(store.getLatestRun()?.testResults[0].status).toBe("passed");
+    });
+  });
+
+  describe("findTestResults", () => {
+    it("sollte Einzelergebnisse eines Tests chronologisch und nach Projekt gefiltert liefern", () => {
+      store.saveRun(
+        createRun("b", 2000, [
+          { file: "x.spec.ts", status: "failed", project: "webkit" },
+          { file: "x.spec.ts", project: "chromium" },
+        ]),
+      );
+      store.saveRun(
+        createRun("a", 1000, [{ file: "x.spec.ts", project: "webkit" }]),
+      );
+
+      const results = store.findTestResults({
+        testId: "x.spec.ts",
+        project: "webkit",
+      });
+
+      expect(results.map((result) => [result.runId, result.status])).toEqual([
+        ["a", "passed"],
+        ["b", "failed"],
+      ]);
+      expect(store.findTestResults({ runId: "b" })).toHaveLength(2);
+      expect(store.findTestResults({ since: 1500 })).toHaveLength(2);
+    });
+  });
+
+  describe("Dokumente", () => {
+    it("sollte Dokumente als Kopie speichern und laden", () => {
+      const rates = { overallSuccessRate: 80 };
+      store.saveDocument("success-rates", rates);
+      rates.overallSuccessRate = 0;
+
+      const loaded = store.getDocument<typeof rates>("success-rates");
+      loaded!.overallSuccessRate = 10;
+
+      expect(store.getDocument("success-rates")).toEqual({
+        overallSuccessRate: 80,
+      });
+      expect(store.getDocument("fehlt")).toBeNull();
+    });
+  });
+
+  describe("Persistenz", () => {
+    it("sollte den Stand aus dem Journal wiederherstellen", () => {
+      store.saveRun(createRun("a", 1000, [{ file: "x.spec.ts" }]));
+      store.saveRun(createRun("b", 2000, [{ file: "x.spec.ts" }]));
+      store.deleteRun("a");
+      store.saveDocument("flakiness-report", { flakyTestsCount: 2 });
+
+      const reopened = new ResultsStore("/data/results");
+
+      expect(reopened.listRuns().map((run) => run.runId)).toEqual(["b"]);
+      expect(reopened.getDocument("flakiness-report")).toEqual({
+        flakyTestsCount: 2,
+      });
+    });
+
+    it("sollte unvollständige Journalzeilen überspringen", () => {
+      store.saveRun(createRun("a", 1000, [{ file: "x.spec.ts" }]));
+      files.set(dbFile, files.get(dbFile) + '{"op":"run","run":{"runId"');
+
+      const consoleErrorSpy = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      const reopened = new ResultsStore("/data/results");
+
+      expect(reopened.getRun("a")).not.toBeNull();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it("sollte das Journal auf den aktuellen Stand verdichten", () => {
+      for (let index = 0; index < 250; index++) {
+        store.saveDocument("success-rates", { index });
+      }
+
+      const lines = files.get(dbFile)!.trim().split("\n");
+
+      expect(fs.renameSync).toHaveBeenCalled();
+      expect(lines.length).toBeLessThan(200);
+      expect(
+        new ResultsStore("/data/results").getDocument("success-rates"),
+      ).toEqual({
+        index: 249,
+      });
+    });
+
+    it("sollte große, wiederholt gespeicherte Dokumente nicht unbegrenzt anhängen", () => {
+      const history = "x".repeat(1024 * 1024);
+      for (let index = 0; index < 20; index++) {
+        store.saveDocument("success-rates", { index, history });
+      }
+
+      // Höchstens doppelter Stand plus die zuletzt angehängte Zeile
+      expect(files.get(dbFile)!.length).toBeLessThan(3 * history.length + 100);
+      expect(
+        new ResultsStore("/data/results").getDocument<{ index: number }>(
+          "success-rates",
+        )?.index,
+      ).toBe(19);
+    });
+
+    it("sollte ohne Verzeichnis nur im Speicher arbeiten", () => {
+      const memoryStore = new ResultsStore();
+      memoryStore.saveRun(createRun("a", 1000, [{ file: "x.spec.ts" }]));
+      memoryStore.compact();
+
+      expect(memoryStore.getRun("a")).not.toBeNull();
+      expect(fs.appendFileSync).not.toHaveBeenCalled();
+    });
+  });
+});
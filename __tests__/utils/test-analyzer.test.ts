@@ -0,0 +1,308 @@
+/**
+ * Tests für den Test-Analyzer
+ *
+ * Diese Tests prüfen die AST-basierte Erkennung von Testblöcken, Locator-Ketten,
+ * Assertions und der zyklomatischen Komplexität mit genauen Positionen.
+ */
+
+import * as fs from "fs";
+import { TestAnalyzer } from "../../utils/test-analyzer";
+
+// Testdateien im Speicher; andere Pfade (z.B. von typescript) gehen an fs
+const files = new Map<string, string>();
+
+jest.mock("fs", () => {
+  const actual = jest.requireActual("fs");
+
+  return {
+    ...actual,
+    existsSync: jest.fn((file: string) =>
+      file.startsWith("/repo/") ? files.has(file) : actual.existsSync(file),
+    ),
+    readFileSync: jest.fn((file: string, ...args: unknown[]) =>
+      files.has(file) ? files.get(file) : actual.readFileSync(file, ...args),
+    ),
+    statSync: jest.fn((file: string, ...args: unknown[]) =>
+      files.has(file)
+        ? { mtime: new Date("2026-01-01T00:00:00Z") }
+        : actual.statSync(file, ...args),
+    ),
+  };
+});
+
+const SPEC = `import { test, expect } from "@playwright/test";
+
+// if (kommentiert) zählt nicht zur Komplexität
+test.describe("Anmeldung", () => {
+  test("meldet an", async ({ page }) => {
+    await page.getByLabel("E-Mail").fill("a@b.de");
+    const submit = page.getByRole("button", { name: "Anmelden" });
+    await submit.click();
+    await page.locator("form").getByTestId("hinweis").first().check();
+    await expect(page.locator("//div[@id='status']")).not.toHaveText("Fehler");
+    if (process.env.CI && test.info().retry > 0) {
+      await page.waitForTimeout(500);
+    }
+  });
+
+  test.skip("ist übersprungen", async () => {});
+  test.step; // kein Block
+});
+`;
+
+describe("TestAnalyzer", () => {
+  let analyzer: TestAnalyzer;
+
+  beforeEach(() => {
+    files.clear();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    analyzer = new TestAnalyzer("/repo");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sollte test()- und test.describe()-Blöcke mit Position finden", () => {
+    expect(analyzer.extractTestBlocks(SPEC)).toEqual([
+      { kind: "describe", title: "Anmeldung", line: 4, column: 1 },
+      { kind: "test", title: "meldet an", line: 5, column: 3 },
+      { kind: "test", title: "ist übersprungen", line: 16, column: 3 },
+    ]);
+    expect(analyzer.extractTestTitle(SPEC)).toBe("Anmeldung");
+  });
+
+  it("sollte Locator-Ketten mit ihren Aktionen erkennen", () => {
+    expect(analyzer.extractSelectors(SPEC)).toEqual([
+      { type: "label", value: "E-Mail", usage: "fill", line: 6, column: 11 },
+      {
+        type: "role",
+        value: 'button[name="Anmelden"]',
+        usage: "click",
+        line: 7,
+        column: 20,
+      },
+      {
+        type: "testId",
+        value: "form >> hinweis",
+        usage: "check",
+        line: 9,
+        column: 11,
+      },
+      {
+        type: "xpath",
+        value: "//div[@id='status']",
+        usage: "assert",
+        line: 10,
+        column: 18,
+      },
+    ]);
+  });
+
+  it("sollte ältere Aufrufe mit Selektor-String erkennen", () => {
+    expect(analyzer.extractSelectors('await page.click("#login");')).toEqual([
+      { type: "css", value: "#login", usage: "click", line: 1, column: 7 },
+    ]);
+  });
+
+  it("sollte Assertions, Komplexität und Timeouts aus dem AST ableiten", () => {
+    files.set("/repo/tests/login.spec.ts", SPEC);
+
+    const [metadata] = analyzer.analyzeTestFile("tests/login.spec.ts");
+
+    expect(metadata.assertions).toEqual([
+      {
+        type: "text",
+        matcher: "toHaveText",
+        condition: `expect(page.locator("//div[@id='status']")).not.toHaveText("Fehler")`,
+        negated: true,
+        line: 10,
+        column: 11,
+      },
+    ]);
+    // Basiswert + if + &&
+    expect(metadata.complexity).toBe(3);
+    expect(metadata.timeouts).toEqual([500]);
+    expect(metadata.dependencies).toEqual(["@playwright/test"]);
+    expect(fs.readFileSync).toHaveBeenCalledWith(
+      "/repo/tests/login.spec.ts",
+      "utf-8",
+    );
+  });
+
+  it("sollte einen Eintrag pro Testfall mit describe-Pfad, Tags und Annotationen liefern", () => {
+    files.set(
+      "/repo/tests/konto.spec.ts",
+      `import { test, expect } from "@playwright/test";
+
+test.describe("Konto @regression", { tag: "@konto" }, () => {
+  test.slow();
+
+  test.describe.skip("Profil", () => {
+    test("zeigt Namen", async ({ page }) => {
+      await expect(page.getByRole("heading")).toBeVisible();
+    });
+  });
+
+  test("löscht Konto", { tag: ["@kritisch"] }, async ({ page, browserName }) => {
+    test.fixme(browserName === "webkit", "Dialog hängt");
+    for (const button of ["Löschen", "Bestätigen"]) {
+      await page.getByRole("button", { name: button }).click();
+    }
+  });
+});
+`,
+    );
+
+    const testCases = analyzer.analyzeTestFile("tests/konto.spec.ts");
+
+    expect(
+      testCases.map(({ id, describePath, tags, annotations, line }) => ({
+        id,
+        describePath,
+        tags,
+        annotations,
+        line,
+      })),
+    ).toEqual([
+      {
+        id: "tests/konto.spec.ts › Konto @regression › Profil › zeigt Namen",
+        describePath: ["Konto @regression", "Profil"],
+        tags: ["@regression", "@konto"],
+        annotations: [{ type: "slow" }, { type: "skip" }],
+        line: 7,
+      },
+      {
+        id: "tests/konto.spec.ts › Konto @regression › löscht Konto",
+        describePath: ["Konto @regression"],
+        tags: ["@regression", "@konto", "@kritisch"],
+        annotations: [
+          { type: "slow" },
+          {
+            type: "fixme",
+            condition: 'browserName === "webkit"',
+            description: "Dialog hängt",
+          },
+        ],
+        line: 12,
+      },
+    ]);
+
+    // Selektoren, Assertions und Komplexität gehören jeweils zum Testfall
+    expect(testCases[0].assertions).toHaveLength(1);
+    expect(testCases[0].selectors).toEqual([
+      expect.objectContaining({ type: "role", usage: "assert" }),
+    ]);
+    expect(testCases[0].complexity).toBe(1);
+    expect(testCases[1].assertions).toHaveLength(0);
+    expect(testCases[1].complexity).toBe(2);
+  });
+
+  it("sollte Owner-Annotationen aus Optionen und annotations.push erkennen", () => {
+    files.set(
+      "/repo/tests/kasse.spec.ts",
+      `import { test } from "@playwright/test";
+
+test("bezahlt", { annotation: { type: "team", description: "kasse" } }, async () => {});
+
+test("storniert", async ({ page }) => {
+  test.info().annotations.push({ type: "owner", description: "@anna" });
+  await page.goto("/kasse");
+});
+`,
+    );
+
+    expect(
+      analyzer
+        .analyzeTestFile("tests/kasse.spec.ts")
+        .map((testCase) => testCase.annotations),
+    ).toEqual([
+      [{ type: "team", description: "kasse" }],
+      [{ type: "owner", description: "@anna" }],
+    ]);
+  });
+
+  it("sollte beforeEach-/beforeAll-Hooks der Datei und der describe-Blöcke zuordnen", () => {
+    const hook = (indent: string) =>
+      `${indent}test.beforeEach(async ({ page }) => {
+${indent}  await page.goto("/login"); // Startseite
+${indent}});
+`;
+    files.set(
+      "/repo/tests/hooks.spec.ts",
+      `import { test } from "@playwright/test";
+
+test.beforeAll(async () => {});
+
+test.describe("Bereich", () => {
+${hook("  ")}
+  test("a", async () => {});
+});
+
+test("b", async () => {});
+`,
+    );
+    files.set(
+      "/repo/tests/kopie.spec.ts",
+      `${hook("")}test("c", async () => {});
+`.replace("// Startseite", ""),
+    );
+
+    const [a, b] = analyzer.analyzeTestFile("tests/hooks.spec.ts");
+    const [c] = analyzer.analyzeTestFile("tests/kopie.spec.ts");
+
+    expect(a.setupBlocks).toEqual([
+      expect.objectContaining({
+        kind: "beforeAll",
+        line: 3,
+        statementCount: 0,
+      }),
+      expect.objectContaining({
+        kind: "beforeEach",
+        line: 6,
+        column: 3,
+        statementCount: 1,
+      }),
+    ]);
+    expect(b.setupBlocks.map((block) => block.kind)).toEqual(["beforeAll"]);
+    // Gleicher Code trotz anderer Einrückung und ohne Kommentar
+    expect(c.setupBlocks[0].fingerprint).toBe(a.setupBlocks[1].fingerprint);
+    expect(c.setupBlocks[0].fingerprint).not.toBe(a.setupBlocks[0].fingerprint);
+  });
+
+  it("sollte besuchte URLs, Page Objects und Funktionsbereiche laut Taxonomie ermitteln", () => {
+    files.set(
+      "/repo/tests/bestellung.spec.ts",
+      `import { test } from "@playwright/test";
+import { LoginPage } from "../pages/login-page";
+import * as helpers from "./helpers";
+import CheckoutPage from "../pages/checkout-page";
+
+test.beforeEach(async ({ page }) => {
+  await new LoginPage(page).open();
+  await page.goto("https://shop.example.de/login?next=/cart");
+});
+
+test("bestellt", async ({ page }) => {
+  await page.goto(\`\${baseUrl}/orders/\${orderId}#details\`);
+  await new CheckoutPage(page).submit();
+});
+`,
+    );
+    analyzer = new TestAnalyzer("/repo", undefined, {
+      areas: [
+        { name: "Bestellung", urls: ["/orders/**"] },
+        { name: "Kasse", pageObjects: ["*Page"], priority: 5, exclusive: true },
+      ],
+      fallback: "Sonstiges",
+    });
+
+    const [metadata] = analyzer.analyzeTestFile("tests/bestellung.spec.ts");
+
+    expect(metadata.visitedUrls).toEqual(["/login", "/orders/*"]);
+    // helpers ist importiert, wird aber nicht verwendet
+    expect(metadata.pageObjects).toEqual(["LoginPage", "CheckoutPage"]);
+    expect(metadata.functionalAreas).toEqual(["Kasse"]);
+    expect(metadata.coverage.area).toEqual(["Kasse"]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests für die Testerkennung
+ *
+ * Diese Tests prüfen das Auslesen der playwright.config, den Vorrang der
+ * Dashboard-Konfiguration sowie die Suche mit mehreren Wurzeln und
+ * Include-/Exclude-Mustern in einem temporären Verzeichnis.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  loadTestDiscoveryConfig,
+  parsePlaywrightConfig,
+  TestDiscovery,
+} from "../../utils/test-discovery";
+
+describe("parsePlaywrightConfig", () => {
+  it("sollte testDir, testMatch und testIgnore aus defineConfig lesen", () => {
+    expect(
+      parsePlaywrightConfig(`import { defineConfig } from "@playwright/test";
+import path from "path";
+
+export default defineConfig({
+  testDir: path.join(__dirname, "e2e"),
+  testMatch: ["**/*.e2e.ts", /checkout\\/.*\\.ts$/i],
+  testIgnore: "**/legacy/**",
+  use: { headless: true },
+});
+`),
+    ).toEqual({
+      testDirs: ["e2e"],
+      testMatch: ["**/*.e2e.ts", /checkout\/.*\.ts$/i],
+      testIgnore: ["**/legacy/**"],
+    });
+  });
+
+  it("sollte testDir der projects als eigene Wurzeln verwenden", () => {
+    expect(
+      parsePlaywrightConfig(`module.exports = {
+  testDir: "./tests",
+  projects: [
+    { name: "api", testDir: "./api-tests" },
+    { name: "ui" },
+  ],
+};
+`),
+    ).toEqual({
+      testDirs: ["./api-tests", "./tests"],
+      testMatch: undefined,
+      testIgnore: undefined,
+    });
+  });
+});
+
+describe("TestDiscovery", () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeFile = (relativePath: string, content = "") => {
+    const file = path.join(tempDir, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "test-discovery-"));
+    projectDir = path.join(tempDir, "projekt");
+    writeFile("projekt/e2e/login.spec.ts");
+    writeFile("projekt/e2e/legacy/alt.spec.ts");
+    writeFile("projekt/e2e/helpers.ts");
+    writeFile("projekt/api/konto.test.ts");
+    writeFile("projekt/node_modules/paket/x.spec.ts");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("sollte ohne Konfiguration alle *.spec.ts unter dem Projekt finden", () => {
+    const discovery = new TestDiscovery(
+      projectDir,
+      path.join(tempDir, "fehlt.json"),
+    );
+
+    expect(discovery.getConfig().source).toBe("default");
+    expect(discovery.findTestFiles()).toEqual([
+      path.join(projectDir, "e2e/legacy/alt.spec.ts"),
+      path.join(projectDir, "e2e/login.spec.ts"),
+    ]);
+  });
+
+  it("sollte die playwright.config des Projekts auswerten", () => {
+    writeFile(
+      "projekt/playwright.config.ts",
+      `export default { testDir: "./e2e", testIgnore: [/legacy/] };`,
+    );
+
+    const discovery = new TestDiscovery(
+      projectDir,
+      path.join(tempDir, "fehlt.json"),
+    );
+
+    expect(discovery.getConfig()).toEqual(
+      expect.objectContaining({
+        source: "playwright-config",
+        roots: [path.join(projectDir, "e2e")],
+      }),
+    );
+    expect(discovery.findTestFiles()).toEqual([
+      path.join(projectDir, "e2e/login.spec.ts"),
+    ]);
+  });
+
+  it("sollte der Dashboard-Konfiguration mit mehreren Wurzeln Vorrang geben", () => {
+    writeFile(
+      "projekt/playwright.config.ts",
+      `export default { testDir: "./e2e" };`,
+    );
+    writeFile(
+      "dashboard/dashboard.config.json",
+      JSON.stringify({
+        testDiscovery: {
+          roots: ["../projekt/e2e", "../projekt/api"],
+          include: ["*.spec.ts", "*.test.ts"],
+          exclude: ["legacy/**"],
+        },
+      }),
+    );
+    const configPath = path.join(tempDir, "dashboard/dashboard.config.json");
+
+    expect(loadTestDiscoveryConfig(projectDir, configPath).source).toBe(
+      "dashboard-config",
+    );
+    expect(new TestDiscovery(projectDir, configPath).findTestFiles()).toEqual([
+      path.join(projectDir, "api/konto.test.ts"),
+      path.join(projectDir, "e2e/login.spec.ts"),
+    ]);
+    // Ein übergebenes Muster ersetzt die Include-Muster
+    expect(
+      new TestDiscovery(projectDir, configPath).findTestFiles(["*.test.ts"]),
+    ).toEqual([path.join(projectDir, "api/konto.test.ts")]);
+  });
+});
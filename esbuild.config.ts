@@ -29,6 +29,8 @@ const ENTRY_POINTS = [
   path.join(__dirname, 'public/js/metrics-ts/flakiness-view.ts'),
   path.join(__dirname, 'public/js/metrics-ts/logs.ts'),
   path.join(__dirname, 'public/js/metrics-ts/test-analysis.ts'),
+  path.join(__dirname, 'public/js/metrics-ts/failure-clusters-view.ts'),
+  path.join(__dirname, 'public/js/metrics-ts/live-console.ts'),
   // Hier können weitere migrierte TypeScript-Dateien hinzugefügt werden
 ];
 
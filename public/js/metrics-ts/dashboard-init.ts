@@ -124,6 +124,12 @@ class DashboardController {
               window.TestAnalysisView.init();
             }
             break;
+          case '#failure-clusters':
+            // Fehlercluster beim ersten Öffnen laden
+            if (window.FailureClustersView && typeof window.FailureClustersView.init === 'function') {
+              window.FailureClustersView.init();
+            }
+            break;
         }
       });
     });
@@ -0,0 +1,255 @@
+/**
+ * Failure Clusters Visualization
+ *
+ * TypeScript für die Darstellung der Fehlercluster im Dashboard.
+ * Testfehler mit gleicher normalisierter Signatur werden gemeinsam angezeigt,
+ * inklusive erstem/letztem Auftreten und den betroffenen Tests.
+ */
+
+// Status für Daten und UI-Elemente
+let failureClustersReport: FailureClustersResponse | null = null;
+let clustersDays = 30;
+let clustersProject = '';  // Leer = alle Projekte
+let clustersOwner = '';  // Leer = alle Owner
+
+// DOM-Elemente (werden initialisiert, wenn das Dokument geladen ist)
+let clustersContainer: HTMLElement | null;
+let clustersSummary: HTMLElement | null;
+let clustersLoadingIndicator: HTMLElement | null;
+let clustersErrorMessage: HTMLElement | null;
+let clustersDaysSelector: HTMLSelectElement | null;
+let clustersProjectInput: HTMLInputElement | null;
+let clustersOwnerInput: HTMLInputElement | null;
+
+/**
+ * Event-Typen für die Fehlercluster-Komponente
+ */
+type FailureClustersEventType =
+  | 'failure-clusters:loading'
+  | 'failure-clusters:loaded'
+  | 'failure-clusters:error';
+
+/**
+ * Initialisierung beim Laden der Seite
+ */
+document.addEventListener('DOMContentLoaded', () => {
+  // DOM-Elemente abrufen
+  clustersContainer = document.getElementById('failure-clusters-container');
+  clustersSummary = document.getElementById('failure-clusters-summary');
+  clustersLoadingIndicator = document.getElementById('failure-clusters-loading');
+  clustersErrorMessage = document.getElementById('failure-clusters-error');
+  clustersDaysSelector = document.getElementById('failure-clusters-days-select') as HTMLSelectElement;
+  clustersProjectInput = document.getElementById('failure-clusters-project') as HTMLInputElement;
+  clustersOwnerInput = document.getElementById('failure-clusters-owner') as HTMLInputElement;
+
+  // Filter neu anwenden, sobald sich Zeitraum, Projekt oder Owner ändern
+  if (clustersDaysSelector) {
+    clustersDaysSelector.addEventListener('change', () => {
+      clustersDays = parseInt(clustersDaysSelector!.value, 10);
+      loadFailureClusters();
+    });
+  }
+
+  if (clustersProjectInput) {
+    clustersProjectInput.addEventListener('change', () => {
+      clustersProject = clustersProjectInput!.value.trim();
+      loadFailureClusters();
+    });
+  }
+
+  if (clustersOwnerInput) {
+    clustersOwnerInput.addEventListener('change', () => {
+      clustersOwner = clustersOwnerInput!.value.trim();
+      loadFailureClusters();
+    });
+  }
+});
+
+/**
+ * Sendet ein Fehlercluster-Event und das passende Dashboard-Event
+ */
+function dispatchFailureClustersEvent(eventType: FailureClustersEventType, detail: { message?: string; data?: unknown; error?: unknown }): void {
+  const fullDetail = {
+    source: 'FailureClustersView',
+    ...detail
+  };
+
+  document.dispatchEvent(new CustomEvent(eventType, {
+    bubbles: true,
+    cancelable: true,
+    detail: fullDetail
+  }));
+
+  const dashboardEventType = eventType.replace('failure-clusters:', 'data:');
+  document.dispatchEvent(new CustomEvent(dashboardEventType, {
+    bubbles: true,
+    cancelable: true,
+    detail: fullDetail
+  }));
+}
+
+/**
+ * Lädt die Fehlercluster vom Server
+ */
+async function loadFailureClusters(): Promise<void> {
+  showClustersLoading(true);
+  showClustersError(false);
+
+  dispatchFailureClustersEvent('failure-clusters:loading', {
+    message: 'Lade Fehlercluster...'
+  });
+
+  try {
+    let url = `/api/failures/clusters?days=${clustersDays}`;
+    if (clustersProject) {
+      url += `&project=${encodeURIComponent(clustersProject)}`;
+    }
+    if (clustersOwner) {
+      url += `&owner=${encodeURIComponent(clustersOwner)}`;
+    }
+    const response = await fetch(url);
+    const data = await response.json() as FailureClustersResponse;
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Serverfehler: ${response.status}`);
+    }
+
+    failureClustersReport = data;
+    displayFailureClusters(data);
+
+    dispatchFailureClustersEvent('failure-clusters:loaded', {
+      message: `${data.clusters.length} Fehlercluster geladen`,
+      data
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Fehler beim Laden der Fehlercluster:', error);
+    showClustersError(true, `Fehler beim Laden der Fehlercluster: ${errorMessage}`);
+
+    dispatchFailureClustersEvent('failure-clusters:error', {
+      message: `Fehler beim Laden der Fehlercluster: ${errorMessage}`,
+      error
+    });
+  } finally {
+    showClustersLoading(false);
+  }
+}
+
+/**
+ * Zeigt die Übersicht und die einzelnen Cluster an
+ * @param {FailureClustersResponse} report Die geladenen Fehlercluster
+ */
+function displayFailureClusters(report: FailureClustersResponse): void {
+  if (clustersSummary) {
+    clustersSummary.textContent = `${report.totalFailures} Fehler in ${report.clusters.length} Clustern aus ${report.runsAnalyzed} Läufen ` +
+      `(${new Date(report.timePeriod.start).toLocaleDateString()} bis ${new Date(report.timePeriod.end).toLocaleDateString()})`;
+  }
+
+  if (!clustersContainer) return;
+
+  if (report.clusters.length === 0) {
+    clustersContainer.innerHTML = '<div class="alert alert-success">Keine Testfehler im gewählten Zeitraum.</div>';
+    return;
+  }
+
+  clustersContainer.innerHTML = report.clusters.map(cluster => `
+    <div class="card mb-3 failure-cluster" data-signature="${cluster.signature}">
+      <div class="card-header d-flex justify-content-between align-items-center">
+        <code class="text-danger text-truncate me-3" title="${escapeClusterText(cluster.message)}">${escapeClusterText(cluster.message)}</code>
+        <div class="text-nowrap">
+          <span class="badge bg-danger me-1">${cluster.occurrences} Fehler</span>
+          <span class="badge bg-secondary">${cluster.runCount} Läufe</span>
+        </div>
+      </div>
+      <div class="card-body">
+        <p class="text-muted small mb-2">
+          Zuerst gesehen: ${new Date(cluster.firstSeen).toLocaleString()} ·
+          Zuletzt gesehen: ${new Date(cluster.lastSeen).toLocaleString()}
+          ${cluster.frame ? ` · <code>${escapeClusterText(cluster.frame)}</code>` : ''}
+        </p>
+        <table class="table table-sm mb-2">
+          <thead>
+            <tr>
+              <th>Test</th>
+              <th>Projekt</th>
+              <th class="text-center">Fehler</th>
+              <th>Zuletzt</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${cluster.affectedTests.map(test => `
+              <tr>
+                <td>${escapeClusterText(test.title ? `${test.testId} › ${test.title}` : test.testId)}</td>
+                <td>${test.project ? escapeClusterText(test.project) : '–'}</td>
+                <td class="text-center">${test.occurrences}</td>
+                <td>${new Date(test.lastSeen).toLocaleString()}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <details>
+          <summary class="small">Beispielmeldung</summary>
+          <pre class="small bg-light p-2 mb-0">${escapeClusterText(cluster.sampleStack || cluster.sampleMessage)}</pre>
+        </details>
+      </div>
+    </div>
+  `).join('');
+}
+
+/**
+ * Escaped HTML-Sonderzeichen (normalisierte Meldungen enthalten z.B. <n>)
+ * @param {string} text Der anzuzeigende Text
+ * @returns {string} Der escapte Text
+ */
+function escapeClusterText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Zeigt oder versteckt den Ladeindikator
+ * @param {boolean} show True zum Anzeigen, False zum Verstecken
+ */
+function showClustersLoading(show: boolean): void {
+  if (clustersLoadingIndicator) {
+    clustersLoadingIndicator.style.display = show ? 'block' : 'none';
+  }
+}
+
+/**
+ * Zeigt oder versteckt die Fehlermeldung
+ * @param {boolean} show True zum Anzeigen, False zum Verstecken
+ * @param {string} message Die anzuzeigende Fehlermeldung
+ */
+function showClustersError(show: boolean, message = ''): void {
+  if (clustersErrorMessage) {
+    clustersErrorMessage.style.display = show ? 'block' : 'none';
+    if (show) {
+      clustersErrorMessage.textContent = message;
+    }
+  }
+}
+
+// Export für globale Verwendung
+window.FailureClustersView = {
+  init: () => {
+    if (!failureClustersReport) {
+      loadFailureClusters();
+    }
+  },
+  loadFailureClusters
+};
+
+// Erweitere die Window-Schnittstelle, um den FailureClustersView hinzuzufügen
+declare global {
+  interface Window {
+    FailureClustersView: {
+      init: () => void;
+      loadFailureClusters: () => Promise<void>;
+    };
+  }
+}
@@ -10,6 +10,8 @@
 let flakinessReport: FlakinessReport | null = null;
 let flakyTestsList: FlakinessMeasure[] | null = null;
 let currentDays = 14;
+let currentProject = '';  // Leer = alle Projekte
+let currentOwner = '';  // Leer = alle Owner
 
 // DOM-Elemente (werden initialisiert, wenn das Dokument geladen ist)
 let flakinessContainer: HTMLElement | null;
@@ -18,6 +20,8 @@ let flakinessChartElement: HTMLElement | null;
 let flakinessLoadingIndicator: HTMLElement | null;
 let flakinessErrorMessage: HTMLElement | null;
 let daysSelector: HTMLSelectElement | null;
+let flakinessProjectSelector: HTMLSelectElement | null;
+let flakinessOwnerSelector: HTMLSelectElement | null;
 let flakinessChart: Chart | null = null;
 
 /**
@@ -27,7 +31,9 @@ type FlakinessEventType =
   | 'flakiness:loading'
   | 'flakiness:loaded'
   | 'flakiness:error'
-  | 'flakiness:days-changed';
+  | 'flakiness:days-changed'
+  | 'flakiness:project-changed'
+  | 'flakiness:owner-changed';
 
 /**
  * Event-Details für Flakiness-Events
@@ -38,6 +44,8 @@ interface FlakinessEventDetail {
   data?: FlakinessReport | FlakinessMeasure[] | unknown;
   error?: Error | unknown;
   days?: number;
+  project?: string;
+  owner?: string;
 }
 
 /**
@@ -51,11 +59,23 @@ document.addEventListener('DOMContentLoaded', () => {
   flakinessLoadingIndicator = document.getElementById('flakiness-loading');
   flakinessErrorMessage = document.getElementById('flakiness-error');
   daysSelector = document.getElementById('flakiness-days-select') as HTMLSelectElement;
+  flakinessProjectSelector = document.getElementById('flakiness-project-select') as HTMLSelectElement;
+  flakinessOwnerSelector = document.getElementById('flakiness-owner-select') as HTMLSelectElement;
   
   // Event-Listener für Tageauswahl
   if (daysSelector) {
     daysSelector.addEventListener('change', handleDaysChange);
   }
+
+  // Event-Listener für die Projekt-/Browserauswahl
+  if (flakinessProjectSelector) {
+    flakinessProjectSelector.addEventListener('change', handleProjectChange);
+  }
+
+  // Event-Listener für die Owner-/Teamauswahl
+  if (flakinessOwnerSelector) {
+    flakinessOwnerSelector.addEventListener('change', handleOwnerChange);
+  }
   
   // Dashboard-Events registrieren
   setupEventListeners();
@@ -165,7 +185,13 @@ async function loadFlakinessReport(): Promise<void> {
     const thresholdElement = document.getElementById('flakiness-threshold') as HTMLInputElement | null;
     const threshold = thresholdElement ? Number(thresholdElement.value) : 20;
     
-    const url = `/api/test-metrics/flakiness?days=${currentDays}&threshold=${threshold}`;
+    let url = `/api/test-metrics/flakiness?days=${currentDays}&threshold=${threshold}`;
+    if (currentProject) {
+      url += `&project=${encodeURIComponent(currentProject)}`;
+    }
+    if (currentOwner) {
+      url += `&owner=${encodeURIComponent(currentOwner)}`;
+    }
     const response = await fetch(url);
     
     if (!response.ok) {
@@ -176,6 +202,8 @@ async function loadFlakinessReport(): Promise<void> {
     
     // Daten speichern und anzeigen
     flakinessReport = data;
+    updateProjectOptions(data.projectBreakdown || []);
+    updateOwnerOptions(data.owners || []);
     displayFlakinessReport(data);
     
     // Flaky Tests direkt aus dem Report verwenden
@@ -277,6 +305,7 @@ function displayFlakinessReport(report: FlakinessReport): void {
             <p class="text-muted">Analysierte Tests</p>
           </div>
         </div>
+        ${renderStatusCounts(report)}
         <div class="alert ${report.overallFlakinessScore > report.flakinessThreshold ? 'alert-warning' : 'alert-success'}">
           <strong>${report.overallFlakinessScore > report.flakinessThreshold ? 'Achtung:' : 'Gut:'}</strong>
           Die Gesamt-Flakiness ist ${report.overallFlakinessScore > report.flakinessThreshold ? 'über' : 'unter'} dem Schwellenwert von ${report.flakinessThreshold}%.  
@@ -293,6 +322,14 @@ function displayFlakinessReport(report: FlakinessReport): void {
   }
   
   flakinessContainer.appendChild(overviewDiv);
+
+  // Aufschlüsselung und Vergleich nur, wenn mehr als ein Projekt vorhanden ist
+  if (report.projectBreakdown && report.projectBreakdown.length > 1) {
+    flakinessContainer.appendChild(createProjectBreakdown(report.projectBreakdown));
+  }
+  if (report.projectComparison && report.projectComparison.projects.length > 1) {
+    flakinessContainer.appendChild(createComparisonMatrix(report.projectComparison));
+  }
   
   // Chart für die Flakiness erstellen, wenn Daten vorhanden sind
   if (report && report.flakinessMeasures && report.flakinessMeasures.length > 0) {
@@ -300,6 +337,129 @@ function displayFlakinessReport(report: FlakinessReport): void {
   }
 }
 
+/**
+ * Erstellt die Aufschlüsselung der Läufe nach Endstatus
+ * @param {FlakinessReport} report Der Flakiness-Bericht
+ * @returns {string} HTML der Statuszeile oder leerer String bei älteren Berichten
+ */
+function renderStatusCounts(report: FlakinessReport): string {
+  const counts = report.statusCounts;
+  if (!counts) return '';
+
+  const entries = [
+    { label: 'Bestanden', value: counts.passed, className: 'text-success' },
+    { label: 'Flaky (bei Wiederholung bestanden)', value: counts.flaky, className: 'text-warning' },
+    { label: 'Fehlgeschlagen', value: counts.failed, className: 'text-danger' },
+    { label: 'Übersprungen', value: counts.skipped, className: 'text-secondary' }
+  ];
+
+  return `
+    <div class="row mb-3 flakiness-status-counts">
+      ${entries.map(entry => `
+        <div class="col-md-3 text-center">
+          <h4 class="${entry.className}">${entry.value}</h4>
+          <p class="text-muted small">${entry.label}</p>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+/**
+ * Erstellt die Aufschlüsselung der Flakiness pro Browser/Projekt
+ * @param {ProjectFlakinessSummary[]} breakdown Zusammenfassung pro Projekt
+ * @returns {HTMLElement} Die Karte mit der Aufschlüsselung
+ */
+function createProjectBreakdown(breakdown: ProjectFlakinessSummary[]): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'card mb-4 flakiness-project-breakdown';
+  card.innerHTML = `
+    <div class="card-header">
+      <h5 class="mb-0">Flakiness pro Browser/Projekt</h5>
+    </div>
+    <div class="card-body">
+      <div class="row">
+        ${breakdown.map(summary => `
+          <div class="col-md-4 text-center mb-2 ${currentProject === summary.project ? 'border border-primary rounded' : ''}">
+            <h6>${summary.project}</h6>
+            <h4 style="color: ${getFlakinessColor(summary.overallFlakinessScore)}">${summary.overallFlakinessScore.toFixed(1)}%</h4>
+            <p class="text-muted small mb-0">
+              ${summary.flakyTestsCount} von ${summary.totalTestsAnalyzed} Tests instabil,
+              ${summary.retryRecoveredTestsCount} bei Wiederholung bestanden
+            </p>
+          </div>
+        `).join('')}
+      </div>
+    </div>
+  `;
+  return card;
+}
+
+/**
+ * Erstellt die Vergleichsmatrix Test × Browser/Projekt
+ * @param {ProjectComparison} comparison Flakiness-Scores pro Test und Projekt
+ * @returns {HTMLElement} Die Karte mit der Matrix
+ */
+function createComparisonMatrix(comparison: ProjectComparison): HTMLElement {
+  const card = document.createElement('div');
+  card.className = 'card mb-4 flakiness-project-comparison';
+  card.innerHTML = `
+    <div class="card-header">
+      <h5 class="mb-0">Vergleich zwischen Browsern/Projekten</h5>
+    </div>
+    <div class="card-body table-responsive">
+      <table class="table table-sm table-bordered mb-0">
+        <thead>
+          <tr>
+            <th>Test</th>
+            ${comparison.projects.map(project => `<th class="text-center">${project}</th>`).join('')}
+            <th class="text-center">Abweichung</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${comparison.rows.map(row => `
+            <tr>
+              <td>${row.testName}</td>
+              ${comparison.projects.map(project => {
+                const score = row.values[project];
+                return score === undefined
+                  ? '<td class="text-center text-muted">–</td>'
+                  : `<td class="text-center ${getFlakinessRowClass(score)}" style="color: ${getFlakinessColor(score)}">${score.toFixed(1)}%</td>`;
+              }).join('')}
+              <td class="text-center">${row.spread.toFixed(1)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+  return card;
+}
+
+/**
+ * Füllt die Projektauswahl mit den vorhandenen Browsern/Projekten
+ * @param {ProjectFlakinessSummary[]} breakdown Zusammenfassung pro Projekt
+ */
+function updateProjectOptions(breakdown: ProjectFlakinessSummary[]): void {
+  if (!flakinessProjectSelector) return;
+
+  flakinessProjectSelector.innerHTML = '<option value="">Alle Projekte</option>' +
+    breakdown.map(summary => `<option value="${summary.project}">${summary.project}</option>`).join('');
+  flakinessProjectSelector.value = currentProject;
+}
+
+/**
+ * Füllt die Owner-Auswahl mit den Ownern aus der Testanalyse
+ * @param {string[]} owners Bekannte Owner bzw. Teams
+ */
+function updateOwnerOptions(owners: string[]): void {
+  if (!flakinessOwnerSelector) return;
+
+  flakinessOwnerSelector.innerHTML = '<option value="">Alle Owner</option>' +
+    owners.map(owner => `<option value="${owner}">${owner === 'unowned' ? 'Ohne Owner' : owner}</option>`).join('');
+  flakinessOwnerSelector.value = currentOwner;
+}
+
 /**
  * Zeigt die Liste der instabilsten Tests an
  * @param {FlakinessMeasure[]} tests Liste der instabilsten Tests
@@ -347,8 +507,11 @@ function displayFlakyTests(tests: FlakinessMeasure[]): void {
     
     testCard.innerHTML = `
       <div class="card-header d-flex justify-content-between align-items-center">
-        <h6 class="mb-0">${test.testName}</h6>
-        <span class="badge ${badgeClass}">${test.flakinessScore.toFixed(1)}% Flakiness</span>
+        <h6 class="mb-0">${test.testName}${test.project ? ` <span class="badge bg-secondary">${test.project}</span>` : ''}</h6>
+        <div>
+          ${test.retryRecoveries ? '<span class="badge bg-warning text-dark me-1">flaky (bei Wiederholung bestanden)</span>' : ''}
+          <span class="badge ${badgeClass}">${test.flakinessScore.toFixed(1)}% Flakiness</span>
+        </div>
       </div>
       <div class="card-body">
         <div class="row mb-2">
@@ -363,6 +526,7 @@ function displayFlakyTests(tests: FlakinessMeasure[]): void {
             <ul class="list-unstyled">
               <li>Statusänderungen: ${test.statusChanges}</li>
               <li>Ausführungen: ${test.runCount}</li>
+              <li>Erholungen durch Wiederholung: ${test.retryRecoveries || 0}</li>
               <li>Laufzeitvarianz: ${test.durationVariance ? test.durationVariance.toFixed(1) + '%' : 'N/A'}</li>
             </ul>
           </div>
@@ -499,6 +663,40 @@ function handleDaysChange(event: Event): void {
   }
 }
 
+/**
+ * Behandelt die Änderung der Projekt-/Browserauswahl
+ * @param {Event} event Das Change-Event des Selektors
+ */
+function handleProjectChange(event: Event): void {
+  if (event.target instanceof HTMLSelectElement) {
+    currentProject = event.target.value;
+
+    dispatchFlakinessEvent('flakiness:project-changed', {
+      message: `Projekt geändert: ${currentProject || 'alle'}`,
+      project: currentProject
+    });
+
+    loadFlakinessReport();
+  }
+}
+
+/**
+ * Behandelt die Änderung der Owner-/Teamauswahl
+ * @param {Event} event Das Change-Event des Selektors
+ */
+function handleOwnerChange(event: Event): void {
+  if (event.target instanceof HTMLSelectElement) {
+    currentOwner = event.target.value;
+
+    dispatchFlakinessEvent('flakiness:owner-changed', {
+      message: `Owner geändert: ${currentOwner || 'alle'}`,
+      owner: currentOwner
+    });
+
+    loadFlakinessReport();
+  }
+}
+
 /**
  * Zeigt oder versteckt den Ladeindikator
  * @param {boolean} show True zum Anzeigen, False zum Verstecken
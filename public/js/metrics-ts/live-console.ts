@@ -0,0 +1,313 @@
+/**
+ * Live-Konsole
+ *
+ * TypeScript für die Live-Anzeige laufender Testausführungen.
+ * Abonniert den Event-Stream eines Testlaufs (Server-Sent Events) und zeigt
+ * Log-Zeilen, Beginn und Ende einzelner Tests sowie den Fortschritt an.
+ * Nach einem Verbindungsabbruch wird mit der letzten Ereignis-ID neu verbunden,
+ * sodass keine Ereignisse verloren gehen.
+ */
+
+// Zähler für einzelne Testfälle, wie sie der Server sendet
+interface LiveTestProgress {
+  total: number;
+  completed: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  skipped: number;
+}
+
+interface LiveTestEvent {
+  testId: string;
+  title: string;
+  project?: string;
+  retry: number;
+  status?: string;
+  duration?: number;
+  error?: string;
+}
+
+// Status der Verbindung
+let liveEventSource: EventSource | null = null;
+let liveRunId: string | null = null;
+let liveLastEventId = 0;
+let liveReconnectTimer: number | null = null;
+let liveReconnectAttempts = 0;
+
+const LIVE_MAX_LINES = 1000;
+const LIVE_MAX_RECONNECT_DELAY = 30000;
+
+// DOM-Elemente (werden initialisiert, wenn das Dokument geladen ist)
+let liveConsolePanel: HTMLElement | null;
+let liveConsoleOutput: HTMLElement | null;
+let liveConsoleStatus: HTMLElement | null;
+let liveConsoleProgress: HTMLElement | null;
+let liveConsoleCancel: HTMLButtonElement | null;
+
+/**
+ * Initialisierung beim Laden der Seite
+ */
+document.addEventListener('DOMContentLoaded', () => {
+  liveConsolePanel = document.getElementById('live-console');
+  liveConsoleOutput = document.getElementById('live-console-output');
+  liveConsoleStatus = document.getElementById('live-console-status');
+  liveConsoleProgress = document.getElementById('live-console-progress');
+  liveConsoleCancel = document.getElementById('live-console-cancel') as HTMLButtonElement | null;
+
+  liveConsoleCancel?.addEventListener('click', cancelLiveRun);
+
+  // Neue Testläufe aus dem Dashboard automatisch verfolgen
+  document.addEventListener('test-run:started', (event: Event) => {
+    const customEvent = event as CustomEvent<{ runId: string }>;
+    if (customEvent.detail?.runId) {
+      connectLiveConsole(customEvent.detail.runId);
+    }
+  });
+});
+
+/**
+ * Verbindet die Konsole mit dem Event-Stream eines Testlaufs
+ * @param {string} runId ID des Testlaufs
+ */
+function connectLiveConsole(runId: string): void {
+  disconnectLiveConsole();
+
+  liveRunId = runId;
+  liveLastEventId = 0;
+  liveReconnectAttempts = 0;
+
+  if (liveConsoleOutput) {
+    liveConsoleOutput.textContent = '';
+  }
+  if (liveConsolePanel) {
+    liveConsolePanel.style.display = 'block';
+  }
+  setLiveCancelVisible(true);
+
+  openLiveStream();
+}
+
+/**
+ * Öffnet den Event-Stream, bei Wiederverbindung ab der letzten Ereignis-ID
+ */
+function openLiveStream(): void {
+  if (!liveRunId) return;
+
+  let url = `/api/test-runs/${encodeURIComponent(liveRunId)}/stream`;
+  if (liveLastEventId > 0) {
+    url += `?lastEventId=${liveLastEventId}`;
+  }
+
+  setLiveStatus('Verbunden', 'bg-success');
+  const source = new EventSource(url);
+  liveEventSource = source;
+
+  source.addEventListener('log', (event) => {
+    const data = readLiveEvent<{ message: string }>(event);
+    appendLiveLine(data.message);
+  });
+
+  source.addEventListener('test-begin', (event) => {
+    const data = readLiveEvent<LiveTestEvent>(event);
+    appendLiveLine(`▶ ${formatLiveTest(data)}${data.retry > 0 ? ` (Wiederholung ${data.retry})` : ''}`, 'text-info');
+  });
+
+  source.addEventListener('test-end', (event) => {
+    const data = readLiveEvent<LiveTestEvent>(event);
+    const className = data.status === 'passed' ? 'text-success'
+      : data.status === 'flaky' || data.status === 'skipped' ? 'text-warning'
+      : 'text-danger';
+    appendLiveLine(`■ ${formatLiveTest(data)}: ${data.status} (${data.duration} ms)${data.error ? ` – ${data.error}` : ''}`, className);
+  });
+
+  source.addEventListener('progress', (event) => {
+    const data = readLiveEvent<{ testProgress?: LiveTestProgress }>(event);
+    if (data.testProgress) {
+      updateLiveProgress(data.testProgress);
+    }
+  });
+
+  source.addEventListener('status', (event) => {
+    const data = readLiveEvent<{ status: string; queuePosition?: number }>(event);
+    if (data.status === 'queued') {
+      appendLiveLine(`Testlauf wartet in der Queue (Position ${data.queuePosition})`, 'text-muted');
+    } else if (data.status === 'running') {
+      appendLiveLine('Testlauf gestartet', 'text-info');
+    } else {
+      appendLiveLine(`Testlauf beendet: ${data.status}`, data.status === 'completed' ? 'text-success' : data.status === 'aborted' ? 'text-warning' : 'text-danger');
+    }
+  });
+
+  source.addEventListener('end', (event) => {
+    readLiveEvent(event);
+    setLiveStatus('Abgeschlossen', 'bg-secondary');
+    setLiveCancelVisible(false);
+    closeLiveSource();
+  });
+
+  source.onopen = () => {
+    liveReconnectAttempts = 0;
+  };
+
+  source.onerror = () => {
+    // Der Browser verbindet sich selbst neu und sendet dabei Last-Event-ID.
+    // Nur wenn er aufgibt, wird mit Backoff manuell neu verbunden.
+    if (source.readyState === EventSource.CLOSED) {
+      scheduleLiveReconnect();
+    } else {
+      setLiveStatus('Verbindung unterbrochen…', 'bg-warning');
+    }
+  };
+}
+
+/**
+ * Liest die Daten eines Ereignisses und merkt sich seine ID
+ */
+function readLiveEvent<T>(event: Event): T {
+  const messageEvent = event as MessageEvent;
+  const id = Number(messageEvent.lastEventId);
+  if (id > liveLastEventId) {
+    liveLastEventId = id;
+  }
+  return JSON.parse(messageEvent.data) as T;
+}
+
+/**
+ * Plant eine Wiederverbindung mit exponentiellem Backoff
+ */
+function scheduleLiveReconnect(): void {
+  closeLiveSource();
+  if (!liveRunId) return;
+
+  const delay = Math.min(LIVE_MAX_RECONNECT_DELAY, 1000 * 2 ** liveReconnectAttempts);
+  liveReconnectAttempts++;
+  setLiveStatus(`Neuer Verbindungsversuch in ${Math.round(delay / 1000)} s`, 'bg-warning');
+
+  liveReconnectTimer = window.setTimeout(() => {
+    liveReconnectTimer = null;
+    openLiveStream();
+  }, delay);
+}
+
+/**
+ * Trennt die Konsole vom aktuellen Testlauf
+ */
+function disconnectLiveConsole(): void {
+  if (liveReconnectTimer !== null) {
+    window.clearTimeout(liveReconnectTimer);
+    liveReconnectTimer = null;
+  }
+  closeLiveSource();
+  setLiveCancelVisible(false);
+  liveRunId = null;
+}
+
+function closeLiveSource(): void {
+  if (liveEventSource) {
+    liveEventSource.close();
+    liveEventSource = null;
+  }
+}
+
+/**
+ * Bricht den verfolgten Testlauf ab (auch wenn er noch in der Queue wartet)
+ */
+async function cancelLiveRun(): Promise<void> {
+  if (!liveRunId) return;
+
+  if (liveConsoleCancel) {
+    liveConsoleCancel.disabled = true;
+  }
+
+  try {
+    const response = await fetch(`/api/test-runs/${encodeURIComponent(liveRunId)}/cancel`, { method: 'POST' });
+    const data = await response.json();
+    if (!response.ok) {
+      appendLiveLine(`Abbruch nicht möglich: ${data.message}`, 'text-danger');
+    }
+  } catch (error) {
+    console.error('Fehler beim Abbrechen des Testlaufs:', error);
+    appendLiveLine('Abbruch nicht möglich: Server nicht erreichbar', 'text-danger');
+  } finally {
+    if (liveConsoleCancel) {
+      liveConsoleCancel.disabled = false;
+    }
+  }
+}
+
+function setLiveCancelVisible(visible: boolean): void {
+  if (liveConsoleCancel) {
+    liveConsoleCancel.style.display = visible ? 'inline-block' : 'none';
+  }
+}
+
+/**
+ * Hängt eine Zeile an die Konsole an und scrollt ans Ende
+ * @param {string} text Der anzuzeigende Text
+ * @param {string} className Optionale CSS-Klasse der Zeile
+ */
+function appendLiveLine(text: string, className = ''): void {
+  if (!liveConsoleOutput) return;
+
+  const line = document.createElement('div');
+  line.textContent = text;
+  if (className) {
+    line.className = className;
+  }
+  liveConsoleOutput.appendChild(line);
+
+  while (liveConsoleOutput.childElementCount > LIVE_MAX_LINES) {
+    liveConsoleOutput.firstElementChild?.remove();
+  }
+  liveConsoleOutput.scrollTop = liveConsoleOutput.scrollHeight;
+}
+
+function formatLiveTest(test: LiveTestEvent): string {
+  return test.project ? `[${test.project}] ${test.testId}` : test.testId;
+}
+
+/**
+ * Aktualisiert die Fortschrittsanzeige
+ * @param {LiveTestProgress} progress Zähler der Testfälle
+ */
+function updateLiveProgress(progress: LiveTestProgress): void {
+  if (!liveConsoleProgress) return;
+
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+  liveConsoleProgress.innerHTML = `
+    <div class="progress mb-1" style="height: 6px;">
+      <div class="progress-bar" role="progressbar" style="width: ${percent}%"></div>
+    </div>
+    <small class="text-muted">
+      ${progress.completed}/${progress.total} Tests ·
+      <span class="text-success">${progress.passed} bestanden</span> ·
+      <span class="text-warning">${progress.flaky} flaky</span> ·
+      <span class="text-danger">${progress.failed} fehlgeschlagen</span> ·
+      ${progress.skipped} übersprungen
+    </small>
+  `;
+}
+
+function setLiveStatus(text: string, badgeClass: string): void {
+  if (liveConsoleStatus) {
+    liveConsoleStatus.className = `badge ${badgeClass}`;
+    liveConsoleStatus.textContent = text;
+  }
+}
+
+// Export für globale Verwendung
+window.LiveConsole = {
+  connect: connectLiveConsole,
+  disconnect: disconnectLiveConsole
+};
+
+// Erweitere die Window-Schnittstelle, um die LiveConsole hinzuzufügen
+declare global {
+  interface Window {
+    LiveConsole: {
+      connect: (runId: string) => void;
+      disconnect: () => void;
+    };
+  }
+}
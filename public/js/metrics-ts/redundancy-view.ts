@@ -0,0 +1,295 @@
+/**
+ * Redundancy View
+ *
+ * TypeScript für den Redundanz-Check im Tab "Testkonsolidierung".
+ * Lädt nahezu doppelte Tests, Assertion-Teilmengen und kopierte Setup-Hooks
+ * von der Test-Analyse-API und stellt die Schritte eines Testpaares nebeneinander dar.
+ */
+
+// Status für Daten und UI-Elemente
+let redundancyReport: RedundancyResponse['duplicates'] | null = null;
+let redundancyThreshold = 0.8;
+
+// DOM-Elemente (werden initialisiert, wenn das Dokument geladen ist)
+let redundancyPairsList: HTMLElement | null;
+let redundancyDetails: HTMLElement | null;
+let redundancySummary: HTMLElement | null;
+let redundancySetupGroups: HTMLElement | null;
+let redundancyLoadingIndicator: HTMLElement | null;
+let redundancyErrorMessage: HTMLElement | null;
+let redundancyThresholdSelector: HTMLSelectElement | null;
+
+/**
+ * Event-Typen für die Redundanz-Komponente
+ */
+type RedundancyEventType =
+  | 'redundancy:loading'
+  | 'redundancy:loaded'
+  | 'redundancy:error';
+
+// Anzeigenamen der Paararten
+const REDUNDANCY_KIND_LABELS: Record<RedundancyPair['kind'], string> = {
+  'duplicate-steps': 'Gleiche Schrittfolge',
+  'assertion-subset': 'Assertion-Teilmenge'
+};
+
+/**
+ * Initialisierung beim Laden der Seite
+ */
+document.addEventListener('DOMContentLoaded', () => {
+  // DOM-Elemente abrufen
+  redundancyPairsList = document.getElementById('test-clusters-list');
+  redundancyDetails = document.getElementById('consolidation-details');
+  redundancySummary = document.getElementById('redundancy-summary');
+  redundancySetupGroups = document.getElementById('redundancy-setup-groups');
+  redundancyLoadingIndicator = document.getElementById('redundancy-loading');
+  redundancyErrorMessage = document.getElementById('redundancy-error');
+  redundancyThresholdSelector = document.getElementById('redundancy-threshold-select') as HTMLSelectElement;
+
+  document.getElementById('find-redundant-tests-btn')?.addEventListener('click', () => {
+    loadRedundancies();
+  });
+
+  if (redundancyThresholdSelector) {
+    redundancyThresholdSelector.addEventListener('change', () => {
+      redundancyThreshold = parseFloat(redundancyThresholdSelector!.value);
+      if (redundancyReport) {
+        loadRedundancies();
+      }
+    });
+  }
+});
+
+/**
+ * Sendet ein Redundanz-Event und das passende Dashboard-Event
+ */
+function dispatchRedundancyEvent(eventType: RedundancyEventType, detail: { message?: string; data?: unknown; error?: unknown }): void {
+  const fullDetail = {
+    source: 'RedundancyView',
+    ...detail
+  };
+
+  document.dispatchEvent(new CustomEvent(eventType, {
+    bubbles: true,
+    cancelable: true,
+    detail: fullDetail
+  }));
+
+  const dashboardEventType = eventType.replace('redundancy:', 'data:');
+  document.dispatchEvent(new CustomEvent(dashboardEventType, {
+    bubbles: true,
+    cancelable: true,
+    detail: fullDetail
+  }));
+}
+
+/**
+ * Lädt die Ergebnisse des Redundanz-Checks vom Server
+ */
+async function loadRedundancies(): Promise<void> {
+  showRedundancyLoading(true);
+  showRedundancyError(false);
+
+  dispatchRedundancyEvent('redundancy:loading', {
+    message: 'Lade Redundanzen...'
+  });
+
+  try {
+    const response = await fetch(`/api/test-analysis/duplicates?threshold=${redundancyThreshold}`);
+    const data = await response.json() as RedundancyResponse;
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Serverfehler: ${response.status}`);
+    }
+
+    redundancyReport = data.duplicates;
+    displayRedundancies(data.duplicates);
+
+    dispatchRedundancyEvent('redundancy:loaded', {
+      message: `${data.duplicates.pairs.length} ähnliche Testpaare gefunden`,
+      data
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Fehler beim Laden der Redundanzen:', error);
+    showRedundancyError(true, `Fehler beim Laden der Redundanzen: ${errorMessage}`);
+
+    dispatchRedundancyEvent('redundancy:error', {
+      message: `Fehler beim Laden der Redundanzen: ${errorMessage}`,
+      error
+    });
+  } finally {
+    showRedundancyLoading(false);
+  }
+}
+
+/**
+ * Zeigt die Liste der Testpaare und die kopierten Setup-Hooks an
+ * @param {RedundancyResponse['duplicates']} report Die geladenen Redundanzen
+ */
+function displayRedundancies(report: RedundancyResponse['duplicates']): void {
+  if (redundancySummary) {
+    redundancySummary.textContent = `${report.pairs.length} Testpaare und ${report.setupGroups.length} kopierte Hooks ` +
+      `in ${report.testsAnalyzed} Tests (Schwellwert ${Math.round(report.threshold * 100)}%)`;
+  }
+
+  if (redundancyPairsList) {
+    if (report.pairs.length === 0) {
+      redundancyPairsList.innerHTML = '<div class="alert alert-success mb-0">Keine redundanten Tests gefunden.</div>';
+    } else {
+      redundancyPairsList.innerHTML = report.pairs.map((pair, index) => `
+        <button type="button" class="list-group-item list-group-item-action redundancy-pair" data-index="${index}">
+          <div class="d-flex justify-content-between align-items-center">
+            <small class="text-muted">${REDUNDANCY_KIND_LABELS[pair.kind]}</small>
+            <span class="badge bg-${getSimilarityBadgeClass(pair.similarity)}">${Math.round(pair.similarity * 100)}%</span>
+          </div>
+          <div class="text-truncate">${escapeRedundancyText(pair.first.title)}</div>
+          <div class="text-truncate">${escapeRedundancyText(pair.second.title)}</div>
+        </button>
+      `).join('');
+
+      redundancyPairsList.querySelectorAll<HTMLElement>('.redundancy-pair').forEach(item => {
+        item.addEventListener('click', () => {
+          redundancyPairsList!.querySelectorAll('.redundancy-pair').forEach(el => el.classList.remove('active'));
+          item.classList.add('active');
+          displayPairAlignment(report.pairs[parseInt(item.dataset.index || '0', 10)]);
+        });
+      });
+    }
+  }
+
+  if (redundancySetupGroups) {
+    redundancySetupGroups.innerHTML = report.setupGroups.length === 0
+      ? '<p class="text-muted mb-0">Keine kopierten Setup-Hooks gefunden.</p>'
+      : `
+        <table class="table table-sm mb-0">
+          <thead>
+            <tr>
+              <th>Hook</th>
+              <th class="text-center">Anweisungen</th>
+              <th>Fundstellen</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${report.setupGroups.map(group => `
+              <tr>
+                <td><code>${escapeRedundancyText(group.kind)}</code></td>
+                <td class="text-center">${group.statementCount}</td>
+                <td>${group.occurrences.map(occurrence =>
+                  `<div class="small">${escapeRedundancyText(occurrence.file)}:${occurrence.line}</div>`
+                ).join('')}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `;
+  }
+}
+
+/**
+ * Stellt die Schritte eines Testpaares nebeneinander dar
+ * @param {RedundancyPair} pair Das ausgewählte Testpaar
+ */
+function displayPairAlignment(pair: RedundancyPair): void {
+  if (!redundancyDetails) return;
+
+  const renderStep = (step?: RedundancyStep): string => step
+    ? `<span class="badge bg-${step.kind === 'assertion' ? 'info' : 'secondary'} me-1">${step.kind === 'assertion' ? 'expect' : 'Aktion'}</span>` +
+      `<code>${escapeRedundancyText(step.signature)}</code> <small class="text-muted">Z. ${step.line}</small>`
+    : '';
+  const renderTest = (test: RedundancyTestRef): string => `
+    <th class="w-50">
+      ${escapeRedundancyText(test.title)}
+      <div class="small text-muted fw-normal">${escapeRedundancyText(test.file)}:${test.line}</div>
+    </th>
+  `;
+
+  redundancyDetails.innerHTML = `
+    <p>
+      <strong>${REDUNDANCY_KIND_LABELS[pair.kind]}</strong> ·
+      ${Math.round(pair.similarity * 100)}% Ähnlichkeit · ${pair.sharedSteps} gemeinsame Schritte
+    </p>
+    ${pair.kind === 'assertion-subset'
+      ? '<div class="alert alert-warning small">Alle Assertions des linken Tests werden auch im rechten Test geprüft.</div>'
+      : ''}
+    <div class="table-responsive">
+      <table class="table table-sm table-bordered mb-0">
+        <thead>
+          <tr>
+            ${renderTest(pair.first)}
+            ${renderTest(pair.second)}
+          </tr>
+        </thead>
+        <tbody>
+          ${pair.alignment.map(row => `
+            <tr class="${row.shared ? 'table-success' : ''}">
+              <td>${renderStep(row.first)}</td>
+              <td>${renderStep(row.second)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Badge-Farbe passend zur Ähnlichkeit
+ */
+function getSimilarityBadgeClass(similarity: number): string {
+  if (similarity >= 0.9) return 'danger';
+  if (similarity >= 0.8) return 'warning';
+  return 'info';
+}
+
+/**
+ * Escaped HTML-Sonderzeichen (Schritte enthalten Quelltext)
+ * @param {string} text Der anzuzeigende Text
+ * @returns {string} Der escapte Text
+ */
+function escapeRedundancyText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
+/**
+ * Zeigt oder versteckt den Ladeindikator
+ * @param {boolean} show True zum Anzeigen, False zum Verstecken
+ */
+function showRedundancyLoading(show: boolean): void {
+  if (redundancyLoadingIndicator) {
+    redundancyLoadingIndicator.style.display = show ? 'block' : 'none';
+  }
+}
+
+/**
+ * Zeigt oder versteckt die Fehlermeldung
+ * @param {boolean} show True zum Anzeigen, False zum Verstecken
+ * @param {string} message Die anzuzeigende Fehlermeldung
+ */
+function showRedundancyError(show: boolean, message = ''): void {
+  if (redundancyErrorMessage) {
+    redundancyErrorMessage.style.display = show ? 'block' : 'none';
+    if (show) {
+      redundancyErrorMessage.textContent = message;
+    }
+  }
+}
+
+// Export für globale Verwendung
+window.RedundancyView = {
+  loadRedundancies
+};
+
+// Erweitere die Window-Schnittstelle, um den RedundancyView hinzuzufügen
+declare global {
+  interface Window {
+    RedundancyView: {
+      loadRedundancies: () => Promise<void>;
+    };
+  }
+}
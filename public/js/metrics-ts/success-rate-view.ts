@@ -16,6 +16,10 @@ let currentTimeRange: {
   start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
   end: new Date(),
 };
+let currentProject = '';  // Leer = alle Projekte
+let currentOwner = '';  // Leer = alle Owner
+let ownerSummaries: OwnerSummary[] = [];
+let quarantineEntries: QuarantineEntry[] = [];
 
 // DOM-Elemente (werden initialisiert, wenn das Dokument geladen ist)
 let successRateContainer: HTMLElement | null = null;
@@ -23,6 +27,10 @@ let trendChartElement: HTMLCanvasElement | null = null;
 let loadingIndicator: HTMLElement | null = null;
 let errorMessage: HTMLElement | null = null;
 let dateRangeSelector: HTMLSelectElement | null = null;
+let projectSelector: HTMLSelectElement | null = null;
+let ownerSelector: HTMLSelectElement | null = null;
+let quarantineContainer: HTMLElement | null = null;
+let ownerSummaryContainer: HTMLElement | null = null;
 let successRateChart: Chart | null = null;
 
 /**
@@ -32,7 +40,9 @@ type SuccessRateEventType =
   | 'success-rate:loading'
   | 'success-rate:loaded'
   | 'success-rate:error'
-  | 'success-rate:time-range-changed';
+  | 'success-rate:time-range-changed'
+  | 'success-rate:project-changed'
+  | 'success-rate:owner-changed';
 
 /**
  * Event-Details für Erfolgsraten-Events
@@ -46,6 +56,8 @@ interface SuccessRateEventDetail {
     start: Date;
     end: Date;
   };
+  project?: string;
+  owner?: string;
 }
 
 /**
@@ -58,14 +70,35 @@ document.addEventListener("DOMContentLoaded", (): void => {
   loadingIndicator = document.getElementById("metrics-loading");
   errorMessage = document.getElementById("metrics-error");
   dateRangeSelector = document.getElementById("date-range-select") as HTMLSelectElement;
+  projectSelector = document.getElementById("success-rate-project-select") as HTMLSelectElement;
+  ownerSelector = document.getElementById("success-rate-owner-select") as HTMLSelectElement;
+  ownerSummaryContainer = document.getElementById("owner-summary-container");
+  quarantineContainer = document.getElementById("quarantine-container");
 
   // Event-Listener für Datumsbereichsauswahl
   if (dateRangeSelector) {
     dateRangeSelector.addEventListener("change", handleDateRangeChange);
   }
 
+  // Event-Listener für die Projekt-/Browserauswahl
+  if (projectSelector) {
+    projectSelector.addEventListener("change", handleProjectChange);
+  }
+
+  // Event-Listener für die Owner-/Teamauswahl
+  if (ownerSelector) {
+    ownerSelector.addEventListener("change", handleOwnerChange);
+  }
+
+  // Aufheben der Quarantäne über die Schaltflächen in der Liste
+  if (quarantineContainer) {
+    quarantineContainer.addEventListener("click", handleQuarantineRelease);
+  }
+
   // Erste Daten laden
   loadSuccessRates();
+  loadOwnerSummary();
+  loadQuarantine();
 });
 
 /**
@@ -135,7 +168,13 @@ async function loadSuccessRates(): Promise<void> {
       (currentTimeRange.end.getTime() - currentTimeRange.start.getTime()) / (24 * 60 * 60 * 1000),
     );
     // Verbesserte API-URL mit days Parameter
-    const url: string = `/api/test-metrics/success-rates?days=${days}`;
+    let url: string = `/api/test-metrics/success-rates?days=${days}`;
+    if (currentProject) {
+      url += `&project=${encodeURIComponent(currentProject)}`;
+    }
+    if (currentOwner) {
+      url += `&owner=${encodeURIComponent(currentOwner)}`;
+    }
 
     const response: Response = await fetch(url);
     if (!response.ok) {
@@ -149,6 +188,8 @@ async function loadSuccessRates(): Promise<void> {
 
     // Daten speichern und anzeigen
     successRates = data.testSuccessRates;
+    updateProjectOptions(data.projectBreakdown || []);
+    updateOwnerOptions(data.owners || []);
     displaySuccessRates(data);
     
     // Erfolg-Event senden
@@ -304,8 +345,10 @@ function displaySuccessRates(data: SuccessRateResponse): void {
       lastRunDate = new Date(rate.lastRun.timestamp).toLocaleString();
     }
 
+    const projectBadge = rate.project ? ` <span class="badge bg-secondary">${rate.project}</span>` : '';
+
     row.innerHTML = `
-      <td>${rate.testName}</td>
+      <td>${rate.testName}${projectBadge}</td>
       <td>${progressBar}</td>
       <td>${lastRunDate}</td>
       <td>${trendIndicator}</td>
@@ -317,12 +360,272 @@ function displaySuccessRates(data: SuccessRateResponse): void {
   table.appendChild(thead);
   table.appendChild(tbody);
   successRateContainer.appendChild(table);
+
+  // Aufschlüsselung und Vergleich nur, wenn mehr als ein Projekt vorhanden ist
+  if (data.projectBreakdown && data.projectBreakdown.length > 1) {
+    successRateContainer.appendChild(createProjectBreakdown(data.projectBreakdown));
+  }
+  if (data.projectComparison && data.projectComparison.projects.length > 1) {
+    successRateContainer.appendChild(createComparisonMatrix(data.projectComparison));
+  }
   
   if (data.hasOwnProperty('overallSuccessRate')) {
     createOverallSuccessRateChart(data);
   }
 }
 
+/**
+ * Erstellt die Aufschlüsselung der Erfolgsraten pro Browser/Projekt
+ */
+function createProjectBreakdown(breakdown: ProjectSuccessRateSummary[]): HTMLElement {
+  const section = document.createElement("div");
+  section.className = "project-breakdown mt-4";
+  section.innerHTML = `
+    <h5>Erfolgsraten pro Browser/Projekt</h5>
+    <div class="row">
+      ${breakdown.map(summary => `
+        <div class="col-md-4 mb-2">
+          <div class="card ${currentProject === summary.project ? 'border-primary' : ''}">
+            <div class="card-body text-center">
+              <h6 class="card-title">${summary.project}</h6>
+              <h4 class="${summary.overallSuccessRate >= 90 ? 'text-success' : summary.overallSuccessRate >= 70 ? 'text-warning' : 'text-danger'}">
+                ${summary.overallSuccessRate.toFixed(1)}%
+              </h4>
+              <p class="text-muted small mb-0">
+                ${summary.totalTests} Tests, ${summary.totalRuns} Läufe, ${summary.flakyRuns} bei Wiederholung bestanden
+              </p>
+            </div>
+          </div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+  return section;
+}
+
+/**
+ * Erstellt die Vergleichsmatrix Test × Browser/Projekt
+ */
+function createComparisonMatrix(comparison: ProjectComparison): HTMLElement {
+  const section = document.createElement("div");
+  section.className = "project-comparison mt-4";
+  section.innerHTML = `
+    <h5>Vergleich zwischen Browsern/Projekten</h5>
+    <div class="table-responsive">
+      <table class="table table-sm table-bordered">
+        <thead>
+          <tr>
+            <th>Test</th>
+            ${comparison.projects.map(project => `<th class="text-center">${project}</th>`).join('')}
+            <th class="text-center">Abweichung</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${comparison.rows.map(row => `
+            <tr>
+              <td>${row.testName}</td>
+              ${comparison.projects.map(project => {
+                const value = row.values[project];
+                return value === undefined
+                  ? '<td class="text-center text-muted">–</td>'
+                  : `<td class="text-center ${getMatrixCellClass(value)}">${value.toFixed(1)}%</td>`;
+              }).join('')}
+              <td class="text-center">${row.spread.toFixed(1)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+  return section;
+}
+
+/**
+ * Füllt die Projektauswahl mit den vorhandenen Browsern/Projekten
+ */
+function updateProjectOptions(breakdown: ProjectSuccessRateSummary[]): void {
+  if (!projectSelector) return;
+
+  projectSelector.innerHTML = '<option value="">Alle Projekte</option>' +
+    breakdown.map(summary => `<option value="${summary.project}">${summary.project}</option>`).join('');
+  projectSelector.value = currentProject;
+}
+
+/**
+ * Füllt die Owner-Auswahl mit den Ownern aus der Testanalyse
+ */
+function updateOwnerOptions(owners: string[]): void {
+  if (!ownerSelector) return;
+
+  ownerSelector.innerHTML = '<option value="">Alle Owner</option>' +
+    owners.map(owner => `<option value="${owner}">${owner === 'unowned' ? 'Ohne Owner' : owner}</option>`).join('');
+  ownerSelector.value = currentOwner;
+}
+
+/**
+ * Lädt die Übersicht pro Owner bzw. Team für den aktuellen Zeitraum
+ */
+async function loadOwnerSummary(): Promise<void> {
+  if (!ownerSummaryContainer) return;
+
+  try {
+    const days: number = Math.ceil(
+      (currentTimeRange.end.getTime() - currentTimeRange.start.getTime()) / (24 * 60 * 60 * 1000),
+    );
+    const response: Response = await fetch(`/api/test-metrics/owners?days=${days}`);
+    if (!response.ok) {
+      throw new Error(`Serverfehler: ${response.status}`);
+    }
+
+    const data: OwnerSummaryResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || "Unbekannter Fehler bei der Datenabfrage");
+    }
+
+    ownerSummaries = data.owners;
+    displayOwnerSummary(ownerSummaries);
+  } catch (error) {
+    console.error("Fehler beim Laden der Owner-Übersicht:", error);
+    ownerSummaryContainer.innerHTML = '<div class="alert alert-warning">Owner-Übersicht konnte nicht geladen werden</div>';
+  }
+}
+
+/**
+ * Zeigt die Übersicht pro Owner bzw. Team als Tabelle an
+ */
+function displayOwnerSummary(owners: OwnerSummary[]): void {
+  if (!ownerSummaryContainer) return;
+
+  if (owners.length === 0) {
+    ownerSummaryContainer.innerHTML = '<div class="alert alert-info">Keine Owner bekannt. Bitte zuerst die Testanalyse ausführen.</div>';
+    return;
+  }
+
+  ownerSummaryContainer.innerHTML = `
+    <table class="table table-sm table-hover">
+      <thead>
+        <tr>
+          <th>Owner</th>
+          <th class="text-end">Tests</th>
+          <th class="text-end">Instabil</th>
+          <th class="text-end">Fehlschlagend</th>
+          <th class="text-end">Ø Erfolgsrate</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${owners.map(summary => `
+          <tr class="${currentOwner === summary.owner ? 'table-primary' : ''}">
+            <td>${summary.owner === 'unowned' ? '<em>Ohne Owner</em>' : summary.owner}</td>
+            <td class="text-end">${summary.ownedTests}</td>
+            <td class="text-end">${summary.flakyTests > 0 ? `<span class="badge bg-warning text-dark">${summary.flakyTests}</span>` : '0'}</td>
+            <td class="text-end">${summary.failingTests > 0 ? `<span class="badge bg-danger">${summary.failingTests}</span>` : '0'}</td>
+            <td class="text-end">${summary.averageSuccessRate === null ? '–' : `${summary.averageSuccessRate.toFixed(1)}%`}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Lädt die aktiven Quarantäne-Einträge
+ */
+async function loadQuarantine(): Promise<void> {
+  if (!quarantineContainer) return;
+
+  try {
+    const response: Response = await fetch("/api/quarantine");
+    if (!response.ok) {
+      throw new Error(`Serverfehler: ${response.status}`);
+    }
+
+    const data: QuarantineResponse = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || "Unbekannter Fehler bei der Datenabfrage");
+    }
+
+    quarantineEntries = data.entries;
+    displayQuarantine(quarantineEntries);
+  } catch (error) {
+    console.error("Fehler beim Laden der Quarantäneliste:", error);
+    quarantineContainer.innerHTML = '<div class="alert alert-warning">Quarantäneliste konnte nicht geladen werden</div>';
+  }
+}
+
+/**
+ * Zeigt die Tests unter Quarantäne mit Grund, Owner und Ablaufdatum an
+ */
+function displayQuarantine(entries: QuarantineEntry[]): void {
+  if (!quarantineContainer) return;
+
+  if (entries.length === 0) {
+    quarantineContainer.innerHTML = '<div class="alert alert-success">Keine Tests unter Quarantäne.</div>';
+    return;
+  }
+
+  quarantineContainer.innerHTML = `
+    <table class="table table-sm table-hover">
+      <thead>
+        <tr>
+          <th>Test</th>
+          <th>Grund</th>
+          <th>Owner</th>
+          <th>Läuft ab</th>
+          <th></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${entries.map((entry, index) => `
+          <tr>
+            <td>
+              ${entry.testId}${entry.title ? ` › ${entry.title}` : ''}
+              ${entry.project ? `<span class="badge bg-secondary">${entry.project}</span>` : ''}
+              ${entry.source === 'automatic' ? '<span class="badge bg-warning text-dark">automatisch</span>' : ''}
+            </td>
+            <td>${entry.reason}</td>
+            <td>${entry.owner || '–'}</td>
+            <td>${entry.expiresAt ? new Date(entry.expiresAt).toLocaleDateString() : 'unbefristet'}</td>
+            <td class="text-end">
+              <button class="btn btn-sm btn-outline-secondary" data-quarantine-index="${index}">Aufheben</button>
+            </td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+/**
+ * Hebt die Quarantäne für den angeklickten Eintrag auf
+ */
+async function handleQuarantineRelease(event: Event): Promise<void> {
+  const button = (event.target as HTMLElement).closest("[data-quarantine-index]");
+  if (!button) return;
+
+  const entry = quarantineEntries[Number(button.getAttribute("data-quarantine-index"))];
+  if (!entry) return;
+
+  const params = new URLSearchParams();
+  if (entry.project) params.set("project", entry.project);
+  if (entry.title) params.set("title", entry.title);
+
+  try {
+    const response: Response = await fetch(
+      `/api/quarantine/${encodeURIComponent(entry.testId)}?${params.toString()}`,
+      { method: "DELETE" },
+    );
+    if (!response.ok) {
+      throw new Error(`Serverfehler: ${response.status}`);
+    }
+
+    loadQuarantine();
+    loadSuccessRates();
+  } catch (error) {
+    console.error("Fehler beim Aufheben der Quarantäne:", error);
+    showError(true, "Quarantäne konnte nicht aufgehoben werden");
+  }
+}
+
 /**
  * Erstellt ein Chart für die Trend-Daten
  */
@@ -478,9 +781,41 @@ function handleDateRangeChange(event: Event): void {
     timeRange: currentTimeRange
   });
 
+  loadSuccessRates();
+  loadOwnerSummary();
+}
+
+/**
+ * Behandelt die Änderung der Projekt-/Browserauswahl
+ */
+function handleProjectChange(event: Event): void {
+  const target = event.target as HTMLSelectElement;
+  currentProject = target.value;
+
+  dispatchSuccessRateEvent('success-rate:project-changed', {
+    message: `Projekt geändert: ${currentProject || 'alle'}`,
+    project: currentProject
+  });
+
   loadSuccessRates();
 }
 
+/**
+ * Behandelt die Änderung der Owner-/Teamauswahl
+ */
+function handleOwnerChange(event: Event): void {
+  const target = event.target as HTMLSelectElement;
+  currentOwner = target.value;
+
+  dispatchSuccessRateEvent('success-rate:owner-changed', {
+    message: `Owner geändert: ${currentOwner || 'alle'}`,
+    owner: currentOwner
+  });
+
+  loadSuccessRates();
+  displayOwnerSummary(ownerSummaries);
+}
+
 /**
  * Zeigt oder versteckt den Ladeindikator
  */
@@ -520,6 +855,15 @@ function getRowClass(test: SuccessRate): string {
   return "success-low";
 }
 
+/**
+ * Bestimmt die CSS-Klasse für eine Zelle der Vergleichsmatrix
+ */
+function getMatrixCellClass(rate: number): string {
+  if (rate >= 90) return "table-success";
+  if (rate >= 70) return "table-warning";
+  return "table-danger";
+}
+
 /**
  * Gibt ein Icon für den Trend zurück
  */
@@ -15,9 +15,26 @@ interface Assertion {
   expected?: string | number | boolean | null;
 }
 /**
- * Repräsentiert die Metadaten eines Tests in der Analyse
+ * Repräsentiert eine Annotation eines Testfalls (skip, fixme, slow, ...)
+ */
+interface TestAnnotation {
+  type: string;
+  description?: string;
+  condition?: string;
+}
+
+/**
+ * Repräsentiert die Metadaten eines Testfalls in der Analyse
  */
 interface TestMetadata {
+  id?: string;
+  file?: string;
+  title?: string;
+  describePath?: string[];
+  tags?: string[];
+  annotations?: TestAnnotation[];
+  complexity?: number;
+  line?: number;
   name: string;
   description?: string;
   testType?: string;
@@ -33,8 +50,11 @@ interface TestMetadata {
  * Repräsentiert einen Selector, der in Tests verwendet wird
  */
 interface TestSelector {
-  type: 'testId' | 'role' | 'text' | 'css' | 'xpath';
+  type: 'testId' | 'role' | 'text' | 'label' | 'placeholder' | 'altText' | 'title' | 'css' | 'xpath';
   value: string;
+  usage?: string;
+  line?: number;
+  column?: number;
 }
 
 interface QualityMetric {
@@ -79,6 +99,112 @@ interface SelectorTypeDistribution {
   counts: number[];
 }
 
+/**
+ * Statische und Laufzeitdaten eines Testfalls (GET /api/test-analysis/correlation)
+ */
+interface TestCorrelationEntry {
+  caseId: string;
+  file: string;
+  title: string;
+  complexity: number;
+  selectorCount: number;
+  selectorStyle: string;
+  timeoutCount: number;
+  runs: number;
+  failedRuns: number;
+  flakyRuns: number;
+  failureRate: number;
+  instabilityRate: number;
+  quadrant?: string;
+}
+
+interface SelectorStyleSummary {
+  selectorStyle: string;
+  tests: number;
+  runs: number;
+  failureRate: number;
+  instabilityRate: number;
+}
+
+interface TestCorrelationReport {
+  tests: TestCorrelationEntry[];
+  matchedTests: number;
+  unmatchedTests: number;
+  unmatchedResults: string[];
+  selectorStyles: SelectorStyleSummary[];
+  complexityCorrelation: number | null;
+  thresholds: { complexity: number; instabilityRate: number };
+  quadrants: Record<string, number>;
+}
+
+/**
+ * Schwacher Selektor mit Fundstelle (GET /api/test-analysis/selector-health)
+ */
+interface WeakSelector {
+  testId: string;
+  file: string;
+  type: string;
+  value: string;
+  usage: string;
+  line: number;
+  column: number;
+  score: number;
+  rating: string;
+  issues: Array<{ code: string; message: string; penalty: number }>;
+  recommendation?: string;
+}
+
+interface SelectorHealthReport {
+  totalSelectors: number;
+  averageScore: number;
+  ratings: Record<string, number>;
+  worstOffenders: WeakSelector[];
+  tests: Array<{ testId: string; averageScore: number; weakSelectors: number }>;
+  recommendations: Array<{ code: string; occurrences: number; recommendation: string }>;
+}
+
+/**
+ * Abdeckung eines Features aus dem Inventar (GET /api/test-analysis/feature-coverage)
+ */
+interface FeatureCoverageEntry {
+  name: string;
+  route?: string;
+  area?: string;
+  status: 'untested' | 'weak' | 'covered' | 'over-tested';
+  reason?: string;
+  tests: Array<{ testId: string; file: string; title: string; via: string[]; smoke: boolean }>;
+}
+
+interface FeatureCoverageReport {
+  features: FeatureCoverageEntry[];
+  summary: Record<FeatureCoverageEntry['status'], number> & { total: number; coverageRate: number };
+  unlistedUrls: Array<{ url: string; tests: number }>;
+  overTestedThreshold: number;
+  testsAnalyzed: number;
+}
+
+// Anzeige der Selektorstile und Quadranten
+const SELECTOR_STYLE_LABELS: Record<string, { label: string; color: string }> = {
+  'css-xpath': { label: 'CSS/XPath', color: 'rgba(255, 99, 132, 0.7)' },
+  testId: { label: 'Test-ID', color: 'rgba(255, 206, 86, 0.7)' },
+  'user-facing': { label: 'getByRole & Co.', color: 'rgba(75, 192, 192, 0.7)' },
+  none: { label: 'Ohne Selektoren', color: 'rgba(153, 102, 255, 0.7)' }
+};
+
+const FEATURE_STATUS_LABELS: Record<FeatureCoverageEntry['status'], { label: string; badge: string }> = {
+  untested: { label: 'Ungetestet', badge: 'bg-danger' },
+  weak: { label: 'Schwach abgedeckt', badge: 'bg-warning text-dark' },
+  'over-tested': { label: 'Übertestet', badge: 'bg-info text-dark' },
+  covered: { label: 'Abgedeckt', badge: 'bg-success' }
+};
+
+const QUADRANT_LABELS: Record<string, { label: string; badge: string }> = {
+  'complex-unstable': { label: 'Komplex und instabil', badge: 'bg-danger' },
+  'simple-unstable': { label: 'Einfach, aber instabil', badge: 'bg-warning text-dark' },
+  'complex-stable': { label: 'Komplex, aber stabil', badge: 'bg-info text-dark' },
+  'simple-stable': { label: 'Einfach und stabil', badge: 'bg-success' }
+};
+
 // Erweiterung des globalen Window-Objekts für Chart.js und TestAnalysisView
 declare global {
   interface Window {
@@ -118,6 +244,7 @@ let coverageGaps: HTMLElement | null;
 let qualityMetricsBody: HTMLElement | null;
 let complexityChart: Chart | null = null;
 let selectorChart: Chart | null = null;
+let correlationChart: Chart | null = null;
 
 // Event-Listener bei DOM-Bereitschaft
 document.addEventListener('DOMContentLoaded', function() {
@@ -193,6 +320,14 @@ document.addEventListener('DOMContentLoaded', function() {
     }
   });
   
+  // Zeitraum der Stabilitätsauswertung
+  const correlationDaysSelect = document.getElementById('correlation-days-select') as HTMLSelectElement | null;
+  if (correlationDaysSelect) {
+    correlationDaysSelect.addEventListener('change', () => {
+      loadCorrelation();
+    });
+  }
+  
   // Filter-Buttons für die Test-Typen
   if (filterTypeButtons) {
     filterTypeButtons.forEach(button => {
@@ -327,32 +462,36 @@ async function loadAnalysisResults(): Promise<void> {
     // JSON-Daten extrahieren
     const data = await response.json();
     
+    // Die API liefert die Ergebnisse direkt oder unter data
+    const analysis: AnalysisData = data.data || data;
+
     // Wenn keine Daten vorhanden sind oder ein Fehler vorliegt
-    if (!data.success || !data.data) {
-      throw new Error(data.message || 'Keine Analysedaten verfügbar');
+    if (!data.success || !analysis.testMetadata) {
+      throw new Error(data.message || data.error || 'Keine Analysedaten verfügbar');
     }
     
-    // Daten aus der API anzeigen
-    if (data.data.testMetadata) {
-      displayTestMetadata(data.data.testMetadata);
-    }
+    // Daten aus der API anzeigen (ein Eintrag pro Testfall)
+    displayTestMetadata(analysis.testMetadata);
     
     // Matrix anzeigen, falls vorhanden
-    if (data.data.coverageMatrix) {
-      displayCoverageMatrix(data.data.coverageMatrix);
+    if (analysis.coverageMatrix) {
+      displayCoverageMatrix(analysis.coverageMatrix);
     }
     
-    // Qualitätsmetriken anzeigen, falls vorhanden
-    if (data.data.qualityMetrics) {
-      displayQualityMetrics(data.data.qualityMetrics);
-    }
+    // Qualitätsmetriken werden aus den Testfällen berechnet
+    displayQualityMetrics(analysis);
+    
+    // Verknüpfung mit den Laufzeitergebnissen und Selektorbewertung nachladen
+    loadCorrelation();
+    loadSelectorHealth();
+    loadFeatureCoverage();
     
     showAnalysisLoading(false);
     
     // Erfolgreiches Laden signalisieren
     dispatchTestAnalysisEvent('test-analysis:loaded', {
       message: 'Analyseergebnisse erfolgreich geladen',
-      data: data.data
+      data: analysis
     });
     
     // Auch standardisiertes Dashboard-Event senden
@@ -387,7 +526,7 @@ async function loadAnalysisResults(): Promise<void> {
 }
 
 /**
- * Test-Metadaten in der Tabelle anzeigen
+ * Test-Metadaten in der Tabelle anzeigen, ein Eintrag pro Testfall, gruppiert nach Datei
  */
 function displayTestMetadata(metadata: TestMetadata[]): void {
   if (!metadataTableBody) return;
@@ -399,21 +538,78 @@ function displayTestMetadata(metadata: TestMetadata[]): void {
   
   metadataTableBody.innerHTML = '';
   
+  groupTestsByFile(metadata).forEach((tests, file) => {
+    // Kopfzeile der Datei
+    const groupRow = document.createElement('tr');
+    groupRow.className = 'table-light test-file-group';
+    groupRow.dataset.file = file;
+    groupRow.innerHTML = `
+      <td colspan="7">
+        <strong>${escapeAnalysisText(file)}</strong>
+        <span class="text-muted ms-2">${tests.length} ${tests.length === 1 ? 'Testfall' : 'Testfälle'}</span>
+      </td>
+    `;
+    metadataTableBody!.appendChild(groupRow);
+
+    tests.forEach(test => {
+      metadataTableBody!.appendChild(createTestCaseRow(test, file));
+    });
+  });
+  
+  // Event-Handler für Detail-Buttons
+  const viewTestButtons = document.querySelectorAll('.view-test-btn');
+  viewTestButtons.forEach(button => {
+    button.addEventListener('click', function(this: HTMLElement) {
+      const testName = this.dataset.testName;
+      // Hier könnte ein Modal oder ein Detail-Bereich mit zusätzlichen Testinformationen angezeigt werden
+      alert(`Detailansicht für Test: ${testName} (Wird in einem zukünftigen Update implementiert)`); 
+    });
+  });
+}
+
+/**
+ * Gruppiert Testfälle nach Datei (Reihenfolge wie geliefert)
+ */
+function groupTestsByFile(metadata: TestMetadata[]): Map<string, TestMetadata[]> {
+  const groups = new Map<string, TestMetadata[]>();
+
   metadata.forEach(test => {
-    const complexity = calculateComplexity(test);
-    const row = document.createElement('tr');
-    row.dataset.testType = test.testType || 'unknown';
-    row.dataset.testName = test.name || '';
-    
-    row.innerHTML = `
-      <td>${test.name || 'Unbenannt'}</td>
-      <td>${test.description || '-'}</td>
+    const file = test.file || 'Unbekannte Datei';
+    if (!groups.has(file)) {
+      groups.set(file, []);
+    }
+    groups.get(file)!.push(test);
+  });
+
+  return groups;
+}
+
+/**
+ * Erstellt die Tabellenzeile eines Testfalls
+ */
+function createTestCaseRow(test: TestMetadata, file: string): HTMLTableRowElement {
+  const complexity = test.complexity ?? calculateComplexity(test);
+  const title = test.title || test.name || 'Unbenannt';
+  const describePath = test.describePath || [];
+  const row = document.createElement('tr');
+  row.dataset.testType = test.testType || 'unknown';
+  row.dataset.file = file;
+  // Suche über Datei, describe-Pfad, Titel und Tags
+  row.dataset.testName = [file, test.name, ...(test.tags || [])].join(' ');
+
+  row.innerHTML = `
+      <td class="ps-4">
+        ${describePath.length > 0 ? `<small class="text-muted d-block">${escapeAnalysisText(describePath.join(' › '))}</small>` : ''}
+        ${escapeAnalysisText(title)}
+        ${test.line ? `<small class="text-muted">:${test.line}</small>` : ''}
+      </td>
+      <td>${formatTagsAndAnnotations(test) || escapeAnalysisText(test.description || '-')}</td>
       <td>${formatFunctionalAreas(test.functionalAreas || [])}</td>
       <td>${test.selectors ? test.selectors.length : 0}</td>
       <td>${test.assertions ? test.assertions.length : 0}</td>
       <td>${formatComplexity(complexity)}</td>
       <td>
-        <button class="btn btn-sm btn-outline-info view-test-btn" data-test-name="${test.name}">
+        <button class="btn btn-sm btn-outline-info view-test-btn" data-test-name="${escapeAnalysisText(test.id || test.name)}">
           <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" class="bi bi-eye" viewBox="0 0 16 16">
             <path d="M16 8s-3-5.5-8-5.5S0 8 0 8s3 5.5 8 5.5S16 8 16 8zM1.173 8a13.133 13.133 0 0 1 1.66-2.043C4.12 4.668 5.88 3.5 8 3.5c2.12 0 3.879 1.168 5.168 2.457A13.133 13.133 0 0 1 14.828 8c-.058.087-.122.183-.195.288-.335.48-.83 1.12-1.465 1.755C11.879 11.332 10.119 12.5 8 12.5c-2.12 0-3.879-1.168-5.168-2.457A13.134 13.134 0 0 1 1.172 8z"/>
             <path d="M8 5.5a2.5 2.5 0 1 0 0 5 2.5 2.5 0 0 0 0-5zM4.5 8a3.5 3.5 0 1 1 7 0 3.5 3.5 0 0 1-7 0z"/>
@@ -421,19 +617,40 @@ function displayTestMetadata(metadata: TestMetadata[]): void {
         </button>
       </td>
     `;
-    
-    metadataTableBody!.appendChild(row);
-  });
-  
-  // Event-Handler für Detail-Buttons
-  const viewTestButtons = document.querySelectorAll('.view-test-btn');
-  viewTestButtons.forEach(button => {
-    button.addEventListener('click', function(this: HTMLElement) {
-      const testName = this.dataset.testName;
-      // Hier könnte ein Modal oder ein Detail-Bereich mit zusätzlichen Testinformationen angezeigt werden
-      alert(`Detailansicht für Test: ${testName} (Wird in einem zukünftigen Update implementiert)`); 
-    });
+
+  return row;
+}
+
+/**
+ * Formatiert Tags und Annotationen eines Testfalls als Badges
+ */
+function formatTagsAndAnnotations(test: TestMetadata): string {
+  const tags = (test.tags || []).map(tag =>
+    `<span class="badge bg-primary me-1">${escapeAnalysisText(tag)}</span>`
+  );
+  const annotations = (test.annotations || []).map(annotation => {
+    const badge = annotation.type === 'skip' || annotation.type === 'fixme' ? 'bg-warning text-dark'
+      : annotation.type === 'fail' ? 'bg-danger'
+      : 'bg-info text-dark';
+    const hint = [annotation.condition, annotation.description].filter(Boolean).join(': ');
+    return `<span class="badge ${badge} me-1"${hint ? ` title="${escapeAnalysisText(hint)}"` : ''}>${escapeAnalysisText(annotation.type)}</span>`;
   });
+
+  return [...tags, ...annotations].join(' ');
+}
+
+/**
+ * Escaped HTML-Sonderzeichen in Titeln und Pfaden
+ * @param {string} text Der anzuzeigende Text
+ * @returns {string} Der escapte Text
+ */
+function escapeAnalysisText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
 }
 
 /**
@@ -541,6 +758,9 @@ function displayCoverageMatrix(rawMatrix: CoverageMatrix): void {
       const coverage = formattedMatrix.coverage[area][testType];
       
       if (coverage && coverage > 0) {
+        // Die Testfälle der Zelle als Tooltip
+        cell.title = (rawMatrix[area][testType] || []).join('\n');
+
         // Farbige Abdeckungsanzeige basierend auf der Anzahl der Tests
         const coverageClass = coverage > 3 ? 'bg-success' : 
                             coverage > 1 ? 'bg-info' : 'bg-warning';
@@ -580,6 +800,68 @@ function displayCoverageGaps(gaps: string[]): void {
   }
 }
 
+/**
+ * Lädt den Abgleich mit dem Feature-Inventar der Anwendung
+ */
+async function loadFeatureCoverage(): Promise<void> {
+  const summary = document.getElementById('feature-coverage-summary');
+  if (!summary) return;
+  
+  try {
+    const response = await fetch('/api/test-analysis/feature-coverage');
+    const data = await response.json();
+    
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || response.statusText);
+    }
+    
+    displayFeatureCoverage(data.featureCoverage);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
+    console.error('Fehler beim Laden der Feature-Abdeckung:', errorMessage);
+    summary.textContent = `Feature-Abdeckung nicht verfügbar: ${errorMessage}`;
+  }
+}
+
+/**
+ * Zeigt ungetestete, schwach abgedeckte und übertestete Features an
+ */
+function displayFeatureCoverage(report: FeatureCoverageReport): void {
+  const summary = document.getElementById('feature-coverage-summary');
+  const tableBody = document.getElementById('feature-coverage-body');
+  const unlistedList = document.getElementById('feature-coverage-unlisted');
+  
+  if (summary) {
+    summary.textContent = `${report.summary.total} Features im Inventar, ${Math.round(report.summary.coverageRate * 100)}% mit Tests: ` +
+      `${report.summary.untested} ungetestet, ${report.summary.weak} schwach abgedeckt, ` +
+      `${report.summary['over-tested']} übertestet (mehr als ${report.overTestedThreshold} Tests).`;
+  }
+  
+  if (tableBody) {
+    // Abgedeckte Features ohne Auffälligkeiten nicht einzeln auflisten
+    const findings = report.features.filter(feature => feature.status !== 'covered');
+    tableBody.innerHTML = findings.length === 0
+      ? '<tr><td colspan="4" class="text-center">Alle Features sind ausreichend abgedeckt</td></tr>'
+      : findings.map(feature => {
+        const status = FEATURE_STATUS_LABELS[feature.status];
+        return `
+        <tr>
+          <td>${escapeAnalysisText(feature.name)}${feature.route && feature.route !== feature.name ? ` <code>${escapeAnalysisText(feature.route)}</code>` : ''}</td>
+          <td><span class="badge ${status.badge}">${status.label}</span> <small class="text-muted">${escapeAnalysisText(feature.reason || '')}</small></td>
+          <td>${feature.tests.length}</td>
+          <td class="small">${feature.tests.slice(0, 5).map(test => escapeAnalysisText(test.title)).join('<br>') || '-'}</td>
+        </tr>
+      `;
+      }).join('');
+  }
+  
+  if (unlistedList) {
+    unlistedList.innerHTML = report.unlistedUrls.slice(0, 10).map(entry => `
+      <li><code>${escapeAnalysisText(entry.url)}</code> <small class="text-muted">(${entry.tests} Tests)</small></li>
+    `).join('');
+  }
+}
+
 /**
  * Berechnet Qualitätsmetriken aus den Testdaten
  */
@@ -661,7 +943,24 @@ function calculateQualityMetrics(testMetadata: TestMetadata[]): QualityMetrics {
   const estimatedTotalAreas = 10;
   const coveragePercentage = Math.min(100, Math.round((coveredAreas.size / estimatedTotalAreas) * 100));
   
+  // Übersprungene und als fixme markierte Testfälle
+  const disabledTests = testMetadata.filter(test =>
+    (test.annotations || []).some(annotation => annotation.type === 'skip' || annotation.type === 'fixme')
+  ).length;
+  const testFiles = new Set(testMetadata.map(test => test.file || test.name));
+  
   // Metriken zusammenstellen
+  metrics['Testfälle'] = {
+    value: `${testMetadata.length} in ${testFiles.size} ${testFiles.size === 1 ? 'Datei' : 'Dateien'}`,
+    status: 'info'
+  };
+  
+  metrics['Deaktivierte Testfälle (skip/fixme)'] = {
+    value: String(disabledTests),
+    status: disabledTests === 0 ? 'success' : 'warning',
+    recommendation: disabledTests > 0 ? 'Prüfen Sie, ob übersprungene Testfälle wieder aktiviert werden können.' : 'Alle Testfälle sind aktiv.'
+  };
+  
   metrics['Durchschnittliche Selektoren pro Test'] = {
     value: avgSelectors,
     status: Number(avgSelectors) >= 3 ? 'success' : 'warning',
@@ -727,6 +1026,228 @@ function displayQualityMetrics(data: AnalysisData): void {
   });
 }
 
+/**
+ * Lädt die Robustheitsbewertung der Selektoren
+ */
+async function loadSelectorHealth(): Promise<void> {
+  const summary = document.getElementById('selector-health-summary');
+  if (!summary) return;
+  
+  try {
+    const response = await fetch('/api/test-analysis/selector-health');
+    const data = await response.json();
+    
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || response.statusText);
+    }
+    
+    displaySelectorHealth(data.selectorHealth);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
+    console.error('Fehler beim Laden der Selektor-Gesundheit:', errorMessage);
+    summary.textContent = `Selektor-Gesundheit nicht verfügbar: ${errorMessage}`;
+  }
+}
+
+/**
+ * Zeigt Gesamtscore, häufigste Probleme und die schwächsten Selektoren an
+ */
+function displaySelectorHealth(report: SelectorHealthReport): void {
+  const scoreBadge = document.getElementById('selector-health-score');
+  const summary = document.getElementById('selector-health-summary');
+  const recommendationList = document.getElementById('selector-health-recommendations');
+  const tableBody = document.getElementById('selector-health-body');
+  
+  if (scoreBadge) {
+    const score = Math.round(report.averageScore);
+    scoreBadge.textContent = `${score} / 100`;
+    scoreBadge.className = `badge ${score >= 80 ? 'bg-success' : score >= 50 ? 'bg-warning text-dark' : 'bg-danger'}`;
+  }
+  
+  if (summary) {
+    const weakTests = report.tests.filter(test => test.weakSelectors > 0).length;
+    summary.textContent = `${report.totalSelectors} Selektoren bewertet: ${report.ratings.robust || 0} robust, ` +
+      `${report.ratings.acceptable || 0} akzeptabel, ${report.ratings.brittle || 0} anfällig. ` +
+      `${weakTests} Testfälle verwenden schwache Selektoren.`;
+  }
+  
+  if (recommendationList) {
+    recommendationList.innerHTML = report.recommendations.slice(0, 5).map(recommendation => `
+      <li><strong>${recommendation.occurrences}×</strong> ${escapeAnalysisText(recommendation.recommendation)}</li>
+    `).join('');
+  }
+  
+  if (tableBody) {
+    tableBody.innerHTML = report.worstOffenders.length === 0
+      ? '<tr><td colspan="5" class="text-center">Keine schwachen Selektoren gefunden</td></tr>'
+      : report.worstOffenders.map(selector => `
+        <tr>
+          <td title="${escapeAnalysisText(selector.testId)}">${escapeAnalysisText(selector.file)}:${selector.line}:${selector.column}</td>
+          <td><code>${escapeAnalysisText(selector.value)}</code> <small class="text-muted">${escapeAnalysisText(selector.type)}, ${escapeAnalysisText(selector.usage)}</small></td>
+          <td><span class="badge ${selector.rating === 'brittle' ? 'bg-danger' : 'bg-warning text-dark'}">${selector.score}</span></td>
+          <td>${selector.issues.map(issue => escapeAnalysisText(issue.message)).join('<br>') || '-'}</td>
+          <td class="small">${escapeAnalysisText(selector.recommendation || '-')}</td>
+        </tr>
+      `).join('');
+  }
+}
+
+/**
+ * Lädt die Verknüpfung der Analysedaten mit den Laufzeitergebnissen
+ */
+async function loadCorrelation(): Promise<void> {
+  const summary = document.getElementById('correlation-summary');
+  const daysSelect = document.getElementById('correlation-days-select') as HTMLSelectElement | null;
+  if (!summary) return;
+  
+  try {
+    const days = daysSelect ? daysSelect.value : '30';
+    const response = await fetch(`/api/test-analysis/correlation?days=${encodeURIComponent(days)}`);
+    const data = await response.json();
+    
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || response.statusText);
+    }
+    
+    displayCorrelation(data.correlation);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unbekannter Fehler';
+    console.error('Fehler beim Laden der Stabilitätsauswertung:', errorMessage);
+    summary.textContent = `Stabilitätsauswertung nicht verfügbar: ${errorMessage}`;
+  }
+}
+
+/**
+ * Zeigt Zusammenfassung, Streudiagramm, Quadranten und Tabellen der Stabilitätsauswertung an
+ */
+function displayCorrelation(report: TestCorrelationReport): void {
+  const summary = document.getElementById('correlation-summary');
+  const quadrantsContainer = document.getElementById('correlation-quadrants');
+  const selectorBody = document.getElementById('correlation-selector-body');
+  const testsBody = document.getElementById('correlation-tests-body');
+  const matched = report.tests.filter(test => test.runs > 0);
+  
+  if (summary) {
+    const correlation = report.complexityCorrelation;
+    summary.textContent = `${report.matchedTests} von ${report.matchedTests + report.unmatchedTests} Testfällen mit Laufzeitergebnissen verknüpft` +
+      (report.unmatchedResults.length > 0 ? `, ${report.unmatchedResults.length} Ergebnisse ohne Analysedaten` : '') +
+      `. Korrelation Komplexität ↔ Instabilität: ${correlation === null ? 'nicht berechenbar' : correlation.toFixed(2)}`;
+  }
+  
+  if (quadrantsContainer) {
+    quadrantsContainer.innerHTML = Object.entries(QUADRANT_LABELS).map(([quadrant, { label, badge }]) => `
+      <div class="d-flex justify-content-between align-items-center mb-2">
+        <span>${label}</span>
+        <span class="badge ${badge}">${report.quadrants[quadrant] || 0}</span>
+      </div>
+    `).join('') + `
+      <small class="text-muted">Komplex ab ${report.thresholds.complexity}, instabil ab ${report.thresholds.instabilityRate}% fehlgeschlagener oder flaky Ausführungen</small>
+    `;
+  }
+  
+  if (selectorBody) {
+    selectorBody.innerHTML = report.selectorStyles.length === 0
+      ? '<tr><td colspan="4" class="text-center">Keine Daten verfügbar</td></tr>'
+      : report.selectorStyles.map(style => `
+        <tr>
+          <td>${(SELECTOR_STYLE_LABELS[style.selectorStyle] || { label: style.selectorStyle }).label}</td>
+          <td>${style.tests}</td>
+          <td>${style.runs}</td>
+          <td>${style.instabilityRate.toFixed(1)}%</td>
+        </tr>
+      `).join('');
+  }
+  
+  if (testsBody) {
+    const unstable = matched.filter(test => test.instabilityRate > 0).slice(0, 10);
+    testsBody.innerHTML = unstable.length === 0
+      ? '<tr><td colspan="5" class="text-center">Keine instabilen Testfälle im Zeitraum</td></tr>'
+      : unstable.map(test => `
+        <tr>
+          <td>${escapeAnalysisText(test.caseId)}</td>
+          <td>${formatComplexity(test.complexity)}</td>
+          <td>${(SELECTOR_STYLE_LABELS[test.selectorStyle] || { label: test.selectorStyle }).label}</td>
+          <td>${test.runs}</td>
+          <td>${test.instabilityRate.toFixed(1)}%</td>
+        </tr>
+      `).join('');
+  }
+  
+  drawCorrelationChart(report, matched);
+}
+
+/**
+ * Zeichnet das Streudiagramm (Komplexität vs. Instabilität) mit den Quadrantengrenzen
+ */
+function drawCorrelationChart(report: TestCorrelationReport, matched: TestCorrelationEntry[]): void {
+  const container = document.getElementById('correlation-chart-container');
+  if (!container || typeof window.Chart === 'undefined') return;
+  
+  if (correlationChart) {
+    correlationChart.destroy();
+    correlationChart = null;
+  }
+  
+  container.innerHTML = '';
+  const canvas = document.createElement('canvas');
+  container.appendChild(canvas);
+  
+  const maxComplexity = Math.max(report.thresholds.complexity * 2, ...matched.map(test => test.complexity));
+  
+  // Ein Datensatz pro Selektorstil, die Grenzen als gestrichelte Linien
+  const testDatasets: ChartDataset<'scatter', Array<ScatterDataPoint & { caseId: string }>>[] =
+    Object.entries(SELECTOR_STYLE_LABELS)
+      .map(([style, { label, color }]) => ({
+        label,
+        data: matched
+          .filter(test => test.selectorStyle === style)
+          .map(test => ({ x: test.complexity, y: test.instabilityRate, caseId: test.caseId })),
+        backgroundColor: color,
+        pointRadius: 5
+      }))
+      .filter(dataset => dataset.data.length > 0);
+  const datasets: ChartDataset<'scatter', ScatterDataPoint[]>[] = [...testDatasets];
+  
+  datasets.push(
+    {
+      label: 'Grenze Komplexität',
+      data: [{ x: report.thresholds.complexity, y: 0 }, { x: report.thresholds.complexity, y: 100 }],
+      showLine: true,
+      borderColor: 'rgba(108, 117, 125, 0.6)',
+      borderDash: [5, 5],
+      pointRadius: 0
+    },
+    {
+      label: 'Grenze Instabilität',
+      data: [{ x: 0, y: report.thresholds.instabilityRate }, { x: maxComplexity, y: report.thresholds.instabilityRate }],
+      showLine: true,
+      borderColor: 'rgba(108, 117, 125, 0.6)',
+      borderDash: [5, 5],
+      pointRadius: 0
+    }
+  );
+  
+  correlationChart = new window.Chart(canvas, {
+    type: 'scatter',
+    data: { datasets },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      scales: {
+        x: { title: { display: true, text: 'Komplexität' }, min: 0 },
+        y: { title: { display: true, text: 'Instabilität (%)' }, min: 0, max: 100 }
+      },
+      plugins: {
+        tooltip: {
+          callbacks: {
+            label: (context: any) => `${context.raw.caseId || context.dataset.label}: ${context.raw.y.toFixed(1)}%`
+          }
+        }
+      }
+    } as ChartOptions
+  });
+}
+
 /**
  * Diagramme initialisieren und darstellen
  */
@@ -1013,7 +1534,7 @@ window.TestAnalysisView = {
 function filterTestMetadata(filterType: string, searchTerm: string): void {
   if (!metadataTableBody) return;
   
-  const rows = metadataTableBody.querySelectorAll('tr');
+  const rows = metadataTableBody.querySelectorAll<HTMLTableRowElement>('tr:not(.test-file-group)');
   let visibleCount = 0;
   
   rows.forEach(row => {
@@ -1034,6 +1555,14 @@ function filterTestMetadata(filterType: string, searchTerm: string): void {
     }
   });
   
+  // Dateiköpfe ohne sichtbare Testfälle ausblenden
+  metadataTableBody.querySelectorAll<HTMLTableRowElement>('tr.test-file-group').forEach(groupRow => {
+    const hasVisibleTests = Array.from(rows).some(row =>
+      row.dataset.file === groupRow.dataset.file && row.style.display !== 'none'
+    );
+    groupRow.style.display = hasVisibleTests ? '' : 'none';
+  });
+  
   // Status-Nachricht anzeigen
   if (visibleCount === 0 && rows.length > 0) {
     // Wenn keine Tests den Kriterien entsprechen, zeige Hinweis an
@@ -0,0 +1,138 @@
+/**
+ * Baseline API-Routen
+ *
+ * Implementiert die API-Endpunkte zum Verwalten benannter Baselines
+ * (z.B. "main-latest" oder "release-2.3") für Laufvergleiche und das
+ * Quality Gate.
+ */
+
+import { Router } from "express";
+import RunBaselines, {
+  validateBaselineInput,
+} from "../utils/results/run-baselines";
+
+const router = Router();
+const baseDir = process.cwd();
+const runBaselines = new RunBaselines(baseDir);
+
+/**
+ * GET /api/baselines
+ * Gibt alle Baselines zurück
+ */
+router.get("/", (req, res) => {
+  try {
+    res.json({
+      success: true,
+      baselines: runBaselines.list(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Baselines:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Baselines: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/baselines/:name
+ * Gibt eine einzelne Baseline zurück
+ */
+router.get("/:name", (req, res) => {
+  try {
+    const { name } = req.params;
+    const baseline = runBaselines.get(name);
+
+    if (!baseline) {
+      return res.status(404).json({
+        success: false,
+        error: `Baseline ${name} wurde nicht gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      baseline,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Baseline:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Baseline: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * PUT /api/baselines/:name
+ * Legt eine Baseline an oder ersetzt sie
+ * ({ runId?, pinned?, rule?: { branch?, onlyPassing? }, description? })
+ */
+router.put("/:name", (req, res) => {
+  try {
+    const { name } = req.params;
+    const issues = validateBaselineInput(name, req.body);
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Ungültige Baseline",
+        issues,
+      });
+    }
+
+    const baseline = runBaselines.save(name, req.body);
+
+    if (!baseline) {
+      return res.status(404).json({
+        success: false,
+        error: `Testlauf ${req.body.runId} wurde nicht gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      baseline,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Speichern der Baseline:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Speichern der Baseline: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * DELETE /api/baselines/:name
+ * Löscht eine Baseline
+ */
+router.delete("/:name", (req, res) => {
+  try {
+    const { name } = req.params;
+
+    if (!runBaselines.remove(name)) {
+      return res.status(404).json({
+        success: false,
+        error: `Baseline ${name} wurde nicht gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Baseline ${name} gelöscht`,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Löschen der Baseline:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Löschen der Baseline: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+export default router;
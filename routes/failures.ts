@@ -0,0 +1,153 @@
+/**
+ * Testfehler API-Routen
+ *
+ * Implementiert die API-Endpunkte zur Auswertung von Testfehlern, gruppiert
+ * nach normalisierter Fehlersignatur, und zur Suche nach den Commits, die neue
+ * Fehlschläge verursacht haben könnten.
+ */
+
+import { Router } from "express";
+import * as path from "path";
+import {
+  FunctionalAreaTaxonomy,
+  loadTaxonomy,
+} from "../utils/analysis/functional-areas";
+import CulpritDetector, {
+  loadAnalyzedTests,
+} from "../utils/metrics/culprit-detection";
+import FailureClusterAnalyzer from "../utils/metrics/failure-clustering";
+import TestOwnershipIndex from "../utils/metrics/test-ownership";
+import { createRunFilter } from "../utils/results/run-metadata";
+import { getResultsStore } from "../utils/storage/results-store";
+
+const router = Router();
+const baseDir = process.cwd();
+const failureClusterAnalyzer = new FailureClusterAnalyzer(baseDir);
+const culpritDetector = new CulpritDetector(baseDir);
+const resultsStore = getResultsStore(baseDir);
+
+/**
+ * GET /api/failures/clusters
+ * Gibt die Fehlercluster mit erstem und letztem Auftreten sowie den
+ * betroffenen Tests zurück. Optional gefiltert nach Zeitraum (days),
+ * Playwright-Projekt (project), Owner bzw. Team (owner), Branch (branch),
+ * Commit-Bereich (commitRange, "<von>..<bis>") oder einem einzelnen Lauf (runId).
+ */
+router.get("/clusters", (req, res) => {
+  try {
+    const runs = createRunFilter(
+      resultsStore,
+      {
+        branch: req.query.branch as string | undefined,
+        commitRange: req.query.commitRange as string | undefined,
+      },
+      baseDir,
+    );
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+    const limit = req.query.limit
+      ? parseInt(req.query.limit as string, 10)
+      : undefined;
+    const project = req.query.project as string | undefined;
+    const runId = req.query.runId as string | undefined;
+    const owner = req.query.owner as string | undefined;
+
+    const report = failureClusterAnalyzer.getClusters({
+      days,
+      limit,
+      project,
+      runId,
+      owner: owner
+        ? {
+            owner,
+            ownership: TestOwnershipIndex.load(
+              path.join(__dirname, "../results/test-analysis.json"),
+            ),
+          }
+        : undefined,
+      runs: runs.filter,
+    });
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: `Testergebnis mit ID ${runId} nicht gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      ...report,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Fehlercluster:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Fehlercluster: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/failures/culprits/:runId
+ * Gibt für die Tests, die im Lauf nach dauerhaft bestandenem Verlauf
+ * fehlschlagen, den letzten erfolgreichen und den ersten fehlgeschlagenen
+ * Lauf sowie die Commits dazwischen zurück, wahrscheinlichste Ursache zuerst.
+ * `latest` steht für den neuesten Lauf, `minPassingRuns` legt fest, ab wie
+ * vielen erfolgreichen Läufen in Folge ein Test als dauerhaft bestanden gilt.
+ */
+router.get("/culprits/:runId", (req, res) => {
+  try {
+    const { runId } = req.params;
+    const minPassingRuns = req.query.minPassingRuns
+      ? parseInt(req.query.minPassingRuns as string, 10)
+      : undefined;
+
+    const report = culpritDetector.analyzeRun(runId, {
+      tests: loadAnalyzedTests(
+        path.join(__dirname, "../results/test-analysis.json"),
+      ),
+      taxonomy: loadCulpritTaxonomy(),
+      cwd: baseDir,
+      minPassingRuns,
+    });
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: `Testergebnis mit ID ${runId} nicht gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      ...report,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Ermitteln der Culprit-Commits:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Ermitteln der Culprit-Commits: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * Lädt die Taxonomie für die Pfade der Funktionsbereiche; eine ungültige
+ * Taxonomie soll die Culprit-Suche nicht verhindern
+ */
+function loadCulpritTaxonomy(): FunctionalAreaTaxonomy | undefined {
+  try {
+    return loadTaxonomy();
+  } catch (error) {
+    console.error("Fehler beim Laden der Taxonomie:", error);
+    return undefined;
+  }
+}
+
+export default router;
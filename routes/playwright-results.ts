@@ -5,81 +5,121 @@
  * mit Integration der Erfolgsraten und Flakiness-Metriken.
  */
 
-import { Router } from "express";
+import { Response, Router, text } from "express";
 import * as path from "path";
-import * as fs from "fs";
 import { v4 as uuidv4 } from "uuid";
 import SuccessRateTracker from "../utils/metrics/success-rate-tracker";
 import FlakinessAnalyzer from "../utils/metrics/flakiness-analyzer";
+import TestQuarantine from "../utils/metrics/test-quarantine";
+import TestOwnershipIndex from "../utils/metrics/test-ownership";
+import QualityGate, {
+  validateQualityGatePolicy,
+} from "../utils/metrics/quality-gate";
 import {
+  PlaywrightShardInfo,
   PlaywrightTestResultFile,
   PlaywrightTestRunConfig,
   PlaywrightSingleTestResult,
+  RunGitMetadata,
 } from "../types/playwright-results";
-import { TestChange, TestComparison } from "../types/test-changes";
+import {
+  parsePlaywrightOutput,
+  PlaywrightParseResult,
+} from "../utils/results/playwright-report-parser";
+import { parseJUnitXml } from "../utils/results/junit-parser";
+import { compareRuns } from "../utils/results/run-comparison";
+import RunBaselines from "../utils/results/run-baselines";
+import {
+  createRunFilter,
+  readUploadMetadata,
+  validateRunMetadataInput,
+} from "../utils/results/run-metadata";
+import ShardMerger, {
+  MergedShardRun,
+  ShardUpload,
+} from "../utils/results/shard-merger";
+import { getResultsStore } from "../utils/storage/results-store";
 
 const router = Router();
 const baseDir = process.cwd();
-const resultsDir = path.join(baseDir, "results", "playwright-results");
+const resultsStore = getResultsStore(baseDir);
 const successRateTracker = new SuccessRateTracker(baseDir);
 const flakinessAnalyzer = new FlakinessAnalyzer(baseDir);
-
-// Verzeichnis erstellen, wenn nicht vorhanden
-if (!fs.existsSync(resultsDir)) {
-  fs.mkdirSync(resultsDir, { recursive: true });
-}
+const testQuarantine = new TestQuarantine(baseDir);
+const qualityGate = new QualityGate(baseDir);
+const runBaselines = new RunBaselines(baseDir);
+const shardMerger = new ShardMerger(
+  baseDir,
+  Number(process.env.SHARD_MERGE_TIMEOUT_MS) || undefined,
+);
 
 /**
  * POST /api/playwright-results
  * Speichert ein neues Testergebnis und aktualisiert Metriken
+ *
+ * Mit `buildId`, `shardIndex` und `shardTotal` (oder `config.shard` aus dem
+ * Report) wird das Ergebnis als Shard gesammelt und erst gespeichert, wenn alle
+ * Shards eingegangen sind oder das Zeitlimit abgelaufen ist.
+ *
+ * Git- und CI-Metadaten: `branch`, `commit`, `pullRequest`, `author`,
+ * `commitMessage`, `ciJobUrl` und/oder `ciEnv` mit den Umgebungsvariablen
+ * des CI-Jobs (GitHub Actions, GitLab CI, Jenkins, CircleCI).
  */
 router.post("/", async (req, res) => {
   try {
-    const { output, config, runName } = req.body;
+    finalizeExpiredShardRuns();
+
+    const { output, runName } = req.body;
 
-    if (!output || !config) {
+    if (!output) {
       return res.status(400).json({
         success: false,
-        error: "Output und Config sind erforderlich",
+        error: "Output ist erforderlich",
       });
     }
 
-    // Parsing der Playwright-Ausgabe (vereinfachte Implementierung)
-    const testResults = parsePlaywrightOutput(output);
+    // Parsing der Playwright-Ausgabe (JSON-Reporter oder flaches Format)
+    const parsed = parsePlaywrightOutput(output);
 
-    // Metrics berechnen
-    const metrics = calculateMetrics(testResults);
+    // Die Konfiguration ist optional, wenn der Report eine eigene enthält
+    const config: PlaywrightTestRunConfig | undefined =
+      req.body.config || parsed.config;
 
-    // Testergebnis speichern
-    const runId = uuidv4();
-    const timestamp = Date.now();
-    const success = metrics.failed === 0;
+    if (!config) {
+      return res.status(400).json({
+        success: false,
+        error: "Config ist erforderlich, wenn der Report keine enthält",
+      });
+    }
 
-    const resultFile: PlaywrightTestResultFile = {
-      runId,
-      timestamp,
-      runName:
-        runName || `Testlauf ${new Date(timestamp).toLocaleString("de-DE")}`,
-      success,
-      testResults,
-      config,
-      metrics,
-    };
+    if (parsed.testResults.length === 0 && parsed.issues.length > 0) {
+      return res.status(422).json({
+        success: false,
+        error: "Die Playwright-Ausgabe konnte nicht interpretiert werden",
+        format: parsed.format,
+        parseIssues: parsed.issues,
+      });
+    }
 
-    // In Datei speichern
-    const resultPath = path.join(resultsDir, `${runId}.json`);
-    fs.writeFileSync(resultPath, JSON.stringify(resultFile, null, 2));
+    const shardParams = getShardParams(req.body, parsed.config);
+    if (shardParams.error) {
+      return res.status(400).json({ success: false, error: shardParams.error });
+    }
 
-    // Erfolgsraten und Flakiness aktualisieren
-    successRateTracker.updateSuccessRates(resultFile);
-    flakinessAnalyzer.updateWithNewTestResult(resultFile);
+    const metadata = getRunMetadataParams(req.body);
+    if (metadata.error) {
+      return res.status(400).json({ success: false, error: metadata.error });
+    }
 
-    res.json({
-      success: true,
-      runId,
-      message: "Testergebnis erfolgreich gespeichert",
-      metricsUpdated: true,
-    });
+    respondWithStoredRun(
+      res,
+      parsed,
+      config,
+      runName,
+      metadata.git,
+      shardParams.shard,
+      "Testergebnis erfolgreich gespeichert",
+    );
   } catch (error) {
     console.error("Fehler beim Speichern des Testergebnisses:", error);
     res.status(500).json({
@@ -89,13 +129,122 @@ router.post("/", async (req, res) => {
   }
 });
 
+/**
+ * POST /api/playwright-results/junit
+ * Speichert einen JUnit-XML-Bericht als Testergebnis und aktualisiert Metriken
+ *
+ * Akzeptiert das XML direkt (Content-Type application/xml oder text/xml,
+ * Optionen als Query-Parameter) oder als JSON { xml, config, runName, project }.
+ * Shards werden wie beim JSON-Upload über buildId/shardIndex/shardTotal gesammelt.
+ */
+router.post(
+  "/junit",
+  text({ type: ["application/xml", "text/xml"], limit: "50mb" }),
+  async (req, res) => {
+    try {
+      finalizeExpiredShardRuns();
+
+      const isRawXml = typeof req.body === "string";
+      const options = isRawXml ? req.query : req.body || {};
+      const xml = isRawXml ? req.body : options.xml;
+
+      if (!xml || typeof xml !== "string") {
+        return res.status(400).json({
+          success: false,
+          error: "JUnit-XML ist erforderlich",
+        });
+      }
+
+      const parsed = parseJUnitXml(xml, {
+        project:
+          typeof options.project === "string" ? options.project : undefined,
+        hostnameAsProject: String(options.hostnameAsProject) !== "false",
+      });
+
+      if (parsed.testResults.length === 0 && parsed.issues.length > 0) {
+        return res.status(422).json({
+          success: false,
+          error: "Der JUnit-Bericht konnte nicht interpretiert werden",
+          format: parsed.format,
+          parseIssues: parsed.issues,
+        });
+      }
+
+      // Die Konfiguration aus dem Bericht kann per JSON ergänzt werden
+      const config: PlaywrightTestRunConfig = {
+        headless: true,
+        reporter: "junit",
+        workers: 1,
+        ...parsed.config,
+        ...(isRawXml ? {} : options.config),
+      };
+      const runName =
+        typeof options.runName === "string" ? options.runName : undefined;
+
+      const shardParams = getShardParams(options);
+      if (shardParams.error) {
+        return res
+          .status(400)
+          .json({ success: false, error: shardParams.error });
+      }
+
+      const metadata = getRunMetadataParams(options);
+      if (metadata.error) {
+        return res.status(400).json({ success: false, error: metadata.error });
+      }
+
+      respondWithStoredRun(
+        res,
+        parsed,
+        config,
+        runName,
+        metadata.git,
+        shardParams.shard,
+        "JUnit-Bericht erfolgreich gespeichert",
+      );
+    } catch (error) {
+      console.error("Fehler beim Speichern des JUnit-Berichts:", error);
+      res.status(500).json({
+        success: false,
+        error: `Fehler beim Speichern des JUnit-Berichts: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  },
+);
+
 /**
  * GET /api/playwright-results
- * Gibt eine Liste aller gespeicherten Testergebnisse zurück
+ * Gibt eine Liste aller gespeicherten Testergebnisse zurück, neueste zuerst
+ *
+ * Mit `?project=chromium` nur Läufe, die Tests dieses Projekts enthalten,
+ * mit `branch` bzw. `commitRange` ("<von>..<bis>") nur Läufe dieses Branches
+ * bzw. Commit-Bereichs.
  */
 router.get("/", (req, res) => {
   try {
-    const results = loadAllTestResults();
+    finalizeExpiredShardRuns();
+
+    const project =
+      typeof req.query.project === "string" && req.query.project
+        ? req.query.project
+        : undefined;
+    const runs = createRunFilter(
+      resultsStore,
+      {
+        branch: req.query.branch as string | undefined,
+        commitRange: req.query.commitRange as string | undefined,
+      },
+      baseDir,
+    );
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
+    const results = resultsStore
+      .listRuns({ project })
+      .filter(
+        (summary) => !runs.filter || runs.filter.runIds.has(summary.runId),
+      );
 
     res.json({
       success: true,
@@ -111,6 +260,82 @@ router.get("/", (req, res) => {
   }
 });
 
+/**
+ * GET /api/playwright-results/shards
+ * Gibt alle Builds zurück, bei denen noch Shards ausstehen
+ */
+router.get("/shards", (req, res) => {
+  try {
+    finalizeExpiredShardRuns();
+
+    const pending = shardMerger.listPending();
+
+    res.json({
+      success: true,
+      pending,
+      count: pending.length,
+    });
+  } catch (error) {
+    console.error("Fehler beim Laden der ausstehenden Shards:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Laden der ausstehenden Shards: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * POST /api/playwright-results/shards/:buildId/finalize
+ * Schließt einen Build sofort ab und speichert ihn als (Teil-)Lauf
+ */
+router.post("/shards/:buildId/finalize", (req, res) => {
+  try {
+    const { buildId } = req.params;
+    const merged = shardMerger.finalize(buildId);
+
+    if (!merged) {
+      return res.status(404).json({
+        success: false,
+        error: `Kein offener Build mit ID ${buildId} gefunden`,
+      });
+    }
+
+    const { runId, resultFile } = storeMergedShardRun(merged);
+
+    res.json({
+      success: true,
+      runId,
+      message: `Build ${buildId} mit ${merged.shards.received.length} von ${merged.shards.total} Shards gespeichert`,
+      shards: resultFile.shards,
+    });
+  } catch (error) {
+    console.error("Fehler beim Abschließen des Builds:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abschließen des Builds: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/playwright-results/latest
+ * Gibt das neueste Testergebnis zurück
+ */
+router.get("/latest", (req, res) => {
+  try {
+    res.json({
+      success: true,
+      result: resultsStore.getLatestRun() || {},
+    });
+  } catch (error) {
+    console.error("Fehler beim Laden des neuesten Testergebnisses:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Laden des neuesten Testergebnisses: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
 /**
  * GET /api/playwright-results/:runId
  * Gibt ein spezifisches Testergebnis zurück
@@ -118,17 +343,15 @@ router.get("/", (req, res) => {
 router.get("/:runId", (req, res) => {
   try {
     const { runId } = req.params;
-    const resultPath = path.join(resultsDir, `${runId}.json`);
+    const result = resultsStore.getRun(runId);
 
-    if (!fs.existsSync(resultPath)) {
+    if (!result) {
       return res.status(404).json({
         success: false,
         error: `Testergebnis mit ID ${runId} nicht gefunden`,
       });
     }
 
-    const result = JSON.parse(fs.readFileSync(resultPath, "utf-8"));
-
     res.json({
       success: true,
       result,
@@ -149,17 +372,14 @@ router.get("/:runId", (req, res) => {
 router.delete("/:runId", (req, res) => {
   try {
     const { runId } = req.params;
-    const resultPath = path.join(resultsDir, `${runId}.json`);
 
-    if (!fs.existsSync(resultPath)) {
+    if (!resultsStore.deleteRun(runId)) {
       return res.status(404).json({
         success: false,
         error: `Testergebnis mit ID ${runId} nicht gefunden`,
       });
     }
 
-    fs.unlinkSync(resultPath);
-
     res.json({
       success: true,
       message: `Testergebnis ${runId} erfolgreich gelöscht`,
@@ -175,97 +395,24 @@ router.delete("/:runId", (req, res) => {
 
 /**
  * GET /api/playwright-results/compare/:runId1/:runId2
- * Vergleicht zwei Testergebnisse
+ * Vergleicht zwei Testergebnisse (statt Lauf-IDs auch Namen von Baselines)
  */
 router.get("/compare/:runId1/:runId2", (req, res) => {
   try {
-    const { runId1, runId2 } = req.params;
+    const runId1 = runBaselines.resolveRunId(req.params.runId1);
+    const runId2 = runBaselines.resolveRunId(req.params.runId2);
 
-    const result1Path = path.join(resultsDir, `${runId1}.json`);
-    const result2Path = path.join(resultsDir, `${runId2}.json`);
+    const result1 = runId1 ? resultsStore.getRun(runId1) : null;
+    const result2 = runId2 ? resultsStore.getRun(runId2) : null;
 
-    if (!fs.existsSync(result1Path) || !fs.existsSync(result2Path)) {
+    if (!result1 || !result2) {
       return res.status(404).json({
         success: false,
         error: "Mindestens eines der Testergebnisse wurde nicht gefunden",
       });
     }
 
-    const result1 = JSON.parse(
-      fs.readFileSync(result1Path, "utf-8"),
-    ) as PlaywrightTestResultFile;
-    const result2 = JSON.parse(
-      fs.readFileSync(result2Path, "utf-8"),
-    ) as PlaywrightTestResultFile;
-
-    // Vergleich erstellen
-    const comparison: TestComparison = {
-      baseline: {
-        runId: result1.runId,
-        timestamp: result1.timestamp,
-        runName: result1.runName,
-        metrics: result1.metrics,
-      },
-      current: {
-        runId: result2.runId,
-        timestamp: result2.timestamp,
-        runName: result2.runName,
-        metrics: result2.metrics,
-      },
-      testChanges: [],
-      metricsComparison: {
-        durationChange:
-          result2.metrics.totalDuration - result1.metrics.totalDuration,
-        passRateChange: result2.metrics.passRate - result1.metrics.passRate,
-        failRateChange: result2.metrics.failRate - result1.metrics.failRate,
-        skipRateChange: result2.metrics.skipRate - result1.metrics.skipRate,
-      },
-    };
-
-    // Für jeden Test Änderungen erfassen
-    const testMap1 = new Map(
-      result1.testResults.map((test) => [test.path, test]),
-    );
-
-    for (const test2 of result2.testResults) {
-      const test1 = testMap1.get(test2.path);
-
-      if (test1) {
-        const statusChanged = test1.status !== test2.status;
-        const durationChange = test2.duration - test1.duration;
-
-        comparison.testChanges.push({
-          filename: test2.filename,
-          previousStatus: test1.status,
-          currentStatus: test2.status,
-          statusChanged,
-          durationChange,
-        });
-      } else {
-        // Neuer Test
-        comparison.testChanges.push({
-          filename: test2.filename,
-          previousStatus: "new",
-          currentStatus: test2.status,
-          statusChanged: true,
-          durationChange: test2.duration,
-        });
-      }
-    }
-
-    // Tests suchen, die nicht mehr vorhanden sind
-    const test2Paths = new Set(result2.testResults.map((test) => test.path));
-    for (const test1 of result1.testResults) {
-      if (!test2Paths.has(test1.path)) {
-        comparison.testChanges.push({
-          filename: test1.filename,
-          previousStatus: test1.status,
-          currentStatus: "removed",
-          statusChanged: true,
-          durationChange: -test1.duration,
-        });
-      }
-    }
+    const comparison = compareRuns(result1, result2);
 
     res.json({
       success: true,
@@ -281,57 +428,50 @@ router.get("/compare/:runId1/:runId2", (req, res) => {
 });
 
 /**
- * GET /api/playwright-results/latest
- * Gibt das neueste Testergebnis zurück
+ * POST /api/playwright-results/:runId/quality-gate
+ * Bewertet einen Lauf anhand einer Gate-Richtlinie für CI-Pipelines
+ * ({ baseline?, policy? }; baseline ist ein Baseline-Name oder eine Lauf-ID,
+ * ohne Angabe dient die Baseline des Branches bzw. der vorherige Lauf,
+ * "latest" als runId bewertet den neuesten Lauf)
  */
-router.get("/latest", (req, res) => {
+router.post("/:runId/quality-gate", (req, res) => {
   try {
-    if (!fs.existsSync(resultsDir)) {
-      return res.json({
-        success: true,
-        result: {},
-      });
+    const { baseline, baselineRunId, policy } = req.body || {};
+
+    if (policy !== undefined) {
+      const issues = validateQualityGatePolicy(policy);
+      if (issues.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Ungültige Gate-Richtlinie",
+          issues,
+        });
+      }
     }
 
-    const files = fs
-      .readdirSync(resultsDir)
-      .filter((file) => file.endsWith(".json"));
+    const result = qualityGate.evaluate(req.params.runId, {
+      baselineRunId: baseline ?? baselineRunId,
+      policy,
+      isQuarantined: testQuarantine.createMatcher(),
+    });
 
-    if (files.length === 0) {
-      return res.json({
-        success: true,
-        result: {},
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: "Testlauf oder Baseline wurde nicht gefunden",
       });
     }
 
-    // Alle Ergebnisse laden und das neueste finden
-    let newestResult = null;
-    let newestTimestamp = 0;
-
-    for (const file of files) {
-      try {
-        const fullPath = path.join(resultsDir, file);
-        const content = fs.readFileSync(fullPath, "utf-8");
-        const result = JSON.parse(content);
-
-        if (result.timestamp > newestTimestamp) {
-          newestResult = result;
-          newestTimestamp = result.timestamp;
-        }
-      } catch (error) {
-        console.error(`Fehler beim Laden von ${file}:`, error);
-      }
-    }
-
     res.json({
       success: true,
-      result: newestResult || {},
+      result,
+      timestamp: Date.now(),
     });
   } catch (error) {
-    console.error("Fehler beim Laden des neuesten Testergebnisses:", error);
+    console.error("Fehler beim Auswerten des Quality Gates:", error);
     res.status(500).json({
       success: false,
-      error: `Fehler beim Laden des neuesten Testergebnisses: ${error instanceof Error ? error.message : String(error)}`,
+      error: `Fehler beim Auswerten des Quality Gates: ${error instanceof Error ? error.message : String(error)}`,
     });
   }
 });
@@ -341,39 +481,250 @@ router.get("/latest", (req, res) => {
  */
 
 /**
- * Lädt alle gespeicherten Testergebnisse
+ * Eingabe für einen zu speichernden Testlauf
  */
-function loadAllTestResults() {
-  if (!fs.existsSync(resultsDir)) {
-    return [];
+interface TestRunInput {
+  testResults: PlaywrightSingleTestResult[];
+  reportErrors: PlaywrightParseResult["reportErrors"];
+  config: PlaywrightTestRunConfig;
+  runName?: string;
+  git?: RunGitMetadata;
+  timestamp?: number;
+  shards?: PlaywrightShardInfo;
+}
+
+/**
+ * Speichert einen Testlauf und aktualisiert Erfolgsraten und Flakiness
+ */
+function storeTestRun(input: TestRunInput): {
+  runId: string;
+  resultFile: PlaywrightTestResultFile;
+} {
+  const { testResults, reportErrors, config } = input;
+
+  // Metrics berechnen
+  const metrics = calculateMetrics(testResults);
+
+  // Testergebnis speichern
+  const runId = uuidv4();
+  const timestamp = input.timestamp || Date.now();
+  const success = metrics.failed === 0 && reportErrors.length === 0;
+
+  const resultFile: PlaywrightTestResultFile = {
+    runId,
+    timestamp,
+    runName:
+      input.runName ||
+      `Testlauf ${new Date(timestamp).toLocaleString("de-DE")}`,
+    success,
+    testResults,
+    config,
+    metrics,
+  };
+
+  if (reportErrors.length > 0) {
+    resultFile.errors = reportErrors;
   }
 
-  const files = fs
-    .readdirSync(resultsDir)
-    .filter((file) => file.endsWith(".json"));
-
-  return files
-    .map((file) => {
-      try {
-        const fullPath = path.join(resultsDir, file);
-        const content = fs.readFileSync(fullPath, "utf-8");
-        const result = JSON.parse(content) as PlaywrightTestResultFile;
-
-        return {
-          runId: result.runId,
-          timestamp: result.timestamp,
-          runName: result.runName,
-          success: result.success,
-          testCount: result.testResults.length,
-          metrics: result.metrics,
-          filename: file,
-        };
-      } catch (error) {
-        console.error(`Fehler beim Laden von ${file}:`, error);
-        return null;
-      }
-    })
-    .filter(Boolean);
+  if (input.shards) {
+    resultFile.shards = input.shards;
+  }
+
+  // Der Branch steht zusätzlich direkt am Lauf (Baselines, Filter)
+  if (input.git && Object.keys(input.git).length > 0) {
+    resultFile.git = input.git;
+    if (input.git.branch) {
+      resultFile.branch = input.git.branch;
+    }
+  }
+
+  // Vor dem Weiterschalten mit der Baseline des Branches vergleichen
+  const baselineComparison = runBaselines.compareWithBranchBaseline(resultFile);
+  if (baselineComparison) {
+    resultFile.baselineComparison = baselineComparison;
+  }
+
+  // Im Results-Store speichern
+  resultsStore.saveRun(resultFile);
+  runBaselines.advance(resultFile);
+
+  // Erfolgsraten und Flakiness aktualisieren
+  successRateTracker.updateSuccessRates(resultFile);
+  const flakinessReport = flakinessAnalyzer.updateWithNewTestResult(resultFile);
+
+  // Dauerhaft instabile Tests automatisch unter Quarantäne stellen; die
+  // Analyseergebnisse mit den Ownern werden erst beim ersten neuen Eintrag
+  // und dann nur einmal pro Lauf gelesen
+  let ownership: TestOwnershipIndex | undefined;
+  testQuarantine.recordRun(resultFile, flakinessReport, (target) => {
+    ownership =
+      ownership ||
+      TestOwnershipIndex.load(
+        path.join(__dirname, "../results/test-analysis.json"),
+      );
+    return ownership.getOwners({ file: target.testId, caseId: target.caseId });
+  });
+
+  return { runId, resultFile };
+}
+
+/**
+ * Speichert einen geparsten Upload direkt oder sammelt ihn als Shard
+ * und sendet die passende Antwort
+ */
+function respondWithStoredRun(
+  res: Response,
+  parsed: PlaywrightParseResult,
+  config: PlaywrightTestRunConfig,
+  runName: string | undefined,
+  git: RunGitMetadata | undefined,
+  shard: ShardParams | undefined,
+  message: string,
+) {
+  const details = {
+    format: parsed.format,
+    testCount: parsed.testResults.length,
+    parseIssues: parsed.issues,
+  };
+
+  if (!shard) {
+    const { runId, resultFile } = storeTestRun({
+      testResults: parsed.testResults,
+      reportErrors: parsed.reportErrors,
+      config,
+      runName,
+      git,
+    });
+
+    return res.json({
+      success: true,
+      runId,
+      message,
+      metricsUpdated: true,
+      baselineComparison: resultFile.baselineComparison,
+      ...details,
+    });
+  }
+
+  const outcome = shardMerger.addShard({
+    ...shard,
+    testResults: parsed.testResults,
+    reportErrors: parsed.reportErrors,
+    config,
+    runName,
+    git,
+  });
+
+  if (outcome.status === "rejected") {
+    return res.status(409).json({ success: false, error: outcome.reason });
+  }
+
+  if (outcome.status === "pending") {
+    return res.status(202).json({
+      success: true,
+      status: "pending",
+      message: `Shard ${shard.shardIndex}/${shard.shardTotal} für Build ${shard.buildId} gespeichert, ${outcome.build.missing.length} ausstehend`,
+      metricsUpdated: false,
+      shards: outcome.build,
+      ...details,
+    });
+  }
+
+  const { runId, resultFile } = storeMergedShardRun(outcome.run);
+
+  return res.json({
+    success: true,
+    status: "merged",
+    runId,
+    message: `Build ${shard.buildId} aus ${shard.shardTotal} Shards zusammengeführt`,
+    metricsUpdated: true,
+    shards: resultFile.shards,
+    baselineComparison: resultFile.baselineComparison,
+    ...details,
+  });
+}
+
+/**
+ * Speichert einen zusammengeführten Shard-Lauf und markiert den Build als abgeschlossen
+ */
+function storeMergedShardRun(run: MergedShardRun) {
+  const stored = storeTestRun({
+    ...run,
+    runName: run.runName || `Build ${run.shards.buildId}`,
+  });
+  shardMerger.markMerged(run.shards.buildId, stored.runId);
+
+  return stored;
+}
+
+/**
+ * Speichert Builds, deren Zeitlimit abgelaufen ist, als Teilläufe
+ */
+function finalizeExpiredShardRuns(): void {
+  try {
+    for (const run of shardMerger.finalizeExpired()) {
+      const { runId } = storeMergedShardRun(run);
+      console.warn(
+        `Build ${run.shards.buildId} nach Zeitlimit als Teillauf ${runId} gespeichert (fehlende Shards: ${run.shards.missing.join(", ")})`,
+      );
+    }
+  } catch (error) {
+    console.error("Fehler beim Abschließen abgelaufener Shard-Builds:", error);
+  }
+}
+
+type ShardParams = Pick<ShardUpload, "buildId" | "shardIndex" | "shardTotal">;
+
+/**
+ * Liest die Shard-Angaben eines Uploads
+ *
+ * Ohne `buildId` wird der Upload als eigenständiger Lauf behandelt. Index und
+ * Anzahl können aus `config.shard` des Playwright-Reports übernommen werden.
+ */
+function getShardParams(
+  source: Record<string, any>,
+  reportConfig?: PlaywrightTestRunConfig,
+): { shard?: ShardParams; error?: string } {
+  if (source.buildId === undefined || source.buildId === "") {
+    return {};
+  }
+
+  const reportShard = reportConfig?.shard;
+  const buildId = String(source.buildId);
+  const shardIndex = Number(source.shardIndex ?? reportShard?.current);
+  const shardTotal = Number(source.shardTotal ?? reportShard?.total);
+
+  if (
+    !Number.isInteger(shardIndex) ||
+    !Number.isInteger(shardTotal) ||
+    shardTotal < 1 ||
+    shardIndex < 1 ||
+    shardIndex > shardTotal
+  ) {
+    return {
+      error:
+        "Für Shards sind shardIndex und shardTotal als ganze Zahlen mit 1 ≤ shardIndex ≤ shardTotal erforderlich",
+    };
+  }
+
+  return { shard: { buildId, shardIndex, shardTotal } };
+}
+
+/**
+ * Liest die Git- und CI-Metadaten eines Uploads
+ *
+ * @returns Die Metadaten oder eine Fehlermeldung bei ungültigen Feldern
+ */
+function getRunMetadataParams(source: Record<string, any>): {
+  git?: RunGitMetadata;
+  error?: string;
+} {
+  const issues = validateRunMetadataInput(source);
+  if (issues.length > 0) {
+    return { error: `Ungültige Git-Metadaten: ${issues.join("; ")}` };
+  }
+
+  return { git: readUploadMetadata(source) };
 }
 
 /**
@@ -387,6 +738,8 @@ function calculateMetrics(testResults: PlaywrightSingleTestResult[]) {
   const skipped = testResults.filter(
     (test) => test.status === "skipped",
   ).length;
+  // Erst bei einer Wiederholung bestandene Tests zählen weder als bestanden noch als fehlgeschlagen
+  const flaky = testResults.filter((test) => test.status === "flaky").length;
 
   const totalDuration = testResults.reduce(
     (sum: number, test) => sum + test.duration,
@@ -398,6 +751,7 @@ function calculateMetrics(testResults: PlaywrightSingleTestResult[]) {
     passed,
     failed,
     skipped,
+    flaky,
     passRate: totalTests ? (passed / totalTests) * 100 : 0,
     failRate: totalTests ? (failed / totalTests) * 100 : 0,
     skipRate: totalTests ? (skipped / totalTests) * 100 : 0,
@@ -407,39 +761,4 @@ function calculateMetrics(testResults: PlaywrightSingleTestResult[]) {
   };
 }
 
-/**
- * Parst die Playwright-Ausgabe und extrahiert Testergebnisse
- * (Vereinfachte Implementierung - in der Praxis würde dies komplexer sein)
- */
-function parsePlaywrightOutput(output: any): PlaywrightSingleTestResult[] {
-  // Vereinfachte Implementierung: In der Realität müsste hier
-  // das tatsächliche Playwright-JSON-Format geparst werden
-
-  try {
-    if (typeof output === "string") {
-      output = JSON.parse(output);
-    }
-
-    // Annahme: output ist ein Array oder Objekt mit Test-Ergebnissen
-    // Dies würde je nach Playwright-Output-Format angepasst
-    const results = Array.isArray(output) ? output : [output];
-
-    return results.map((result) => ({
-      filename: result.file || "unknown",
-      path: result.path || result.file || "unknown",
-      status: result.status || "failed",
-      duration: result.duration || 0,
-      error: result.error
-        ? {
-            message: result.error.message || result.error,
-            stack: result.error.stack,
-          }
-        : undefined,
-    }));
-  } catch (error) {
-    console.error("Fehler beim Parsen der Playwright-Ausgabe:", error);
-    return [];
-  }
-}
-
 export default router;
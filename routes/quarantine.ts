@@ -0,0 +1,173 @@
+/**
+ * Quarantäne API-Routen
+ *
+ * Implementiert die API-Endpunkte zum Verwalten der Quarantäneliste für
+ * instabile Tests und den Export für die Playwright-Konfiguration.
+ */
+
+import { Router } from "express";
+import TestQuarantine, {
+  validateAutoQuarantinePolicy,
+  validateQuarantineInput,
+} from "../utils/metrics/test-quarantine";
+
+const router = Router();
+const baseDir = process.cwd();
+const testQuarantine = new TestQuarantine(baseDir);
+
+/**
+ * GET /api/quarantine
+ * Gibt die aktiven Quarantäne-Einträge und die Richtlinie für die
+ * automatische Quarantäne zurück
+ */
+router.get("/", (req, res) => {
+  try {
+    res.json({
+      success: true,
+      entries: testQuarantine.getEntries(),
+      policy: testQuarantine.getPolicy(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Quarantäneliste:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Quarantäneliste: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * POST /api/quarantine
+ * Stellt einen Test unter Quarantäne
+ * ({ testId, reason, project?, title?, owner?, expiresAt? | expiresInDays? })
+ */
+router.post("/", (req, res) => {
+  try {
+    const issues = validateQuarantineInput(req.body);
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Ungültiger Quarantäne-Eintrag",
+        issues,
+      });
+    }
+
+    res.json({
+      success: true,
+      entry: testQuarantine.quarantine(req.body),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Speichern des Quarantäne-Eintrags:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Speichern des Quarantäne-Eintrags: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/quarantine/playwright
+ * Gibt die grepInvert-Muster für die Playwright-Konfiguration zurück
+ * (gleicher Inhalt wie results/quarantine.json)
+ */
+router.get("/playwright", (req, res) => {
+  try {
+    res.json(testQuarantine.getPlaywrightExport());
+  } catch (error) {
+    console.error("Fehler beim Export der Quarantäneliste:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Export der Quarantäneliste: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/quarantine/policy
+ * Gibt die Richtlinie für die automatische Quarantäne zurück
+ */
+router.get("/policy", (req, res) => {
+  try {
+    res.json({
+      success: true,
+      policy: testQuarantine.getPolicy(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Quarantäne-Richtlinie:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Quarantäne-Richtlinie: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * PUT /api/quarantine/policy
+ * Speichert die Richtlinie für die automatische Quarantäne
+ * ({ enabled, consecutiveRuns, expiryDays })
+ */
+router.put("/policy", (req, res) => {
+  try {
+    const issues = validateAutoQuarantinePolicy(req.body);
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Ungültige Quarantäne-Richtlinie",
+        issues,
+      });
+    }
+
+    res.json({
+      success: true,
+      policy: testQuarantine.savePolicy(req.body),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Speichern der Quarantäne-Richtlinie:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Speichern der Quarantäne-Richtlinie: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * DELETE /api/quarantine/:testId
+ * Hebt die Quarantäne eines Tests auf (optional nur für project bzw. title)
+ */
+router.delete("/:testId", (req, res) => {
+  try {
+    const { testId } = req.params;
+    const released = testQuarantine.release(
+      testId,
+      req.query.project as string | undefined,
+      req.query.title as string | undefined,
+    );
+
+    if (!released) {
+      return res.status(404).json({
+        success: false,
+        error: `Kein Quarantäne-Eintrag für ${testId} gefunden`,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Quarantäne für ${testId} aufgehoben`,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Aufheben der Quarantäne:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Aufheben der Quarantäne: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+export default router;
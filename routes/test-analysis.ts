@@ -9,34 +9,38 @@ import { Request, Response } from "express";
 import path from "path";
 import fs from "fs";
 import { TestAnalyzer, TestMetadata } from "../utils/test-analyzer";
+import TestCorrelationAnalyzer from "../utils/metrics/test-correlation";
+import { analyzeSelectorHealth } from "../utils/analysis/selector-quality";
+import { findDuplicateTests } from "../utils/analysis/duplicate-detection";
+import IncrementalTestAnalyzer from "../utils/analysis/incremental-analysis";
+import {
+  applyTaxonomy,
+  FunctionalAreaTaxonomy,
+  loadTaxonomy,
+  parseTaxonomy,
+  previewTaxonomy,
+  TaxonomyError,
+} from "../utils/analysis/functional-areas";
+import {
+  analyzeFeatureCoverage,
+  FEATURE_INVENTORY_FILE,
+  FeatureInventoryError,
+  loadFeatureInventory,
+  resolveFeatureInventory,
+} from "../utils/analysis/feature-coverage";
+import {
+  applyOwnership,
+  loadCodeowners,
+} from "../utils/metrics/test-ownership";
 
 // Express-Router
 const router = express.Router();
+const correlationAnalyzer = new TestCorrelationAnalyzer(process.cwd());
 
 // Typisierungen für Express
 interface TypedRequest extends Request {}
 interface TypedResponse extends Response {}
 
-// Konfiguration
-const TEST_DIRS = [
-  path.join(__dirname, "../../"), // evolution-hub/tests
-  path.join(__dirname, "../../../tests"), // evolution-hub/tests (alternatives Verzeichnis)
-];
-
-// Basis-Verzeichnis für die Tests finden
-const getTestBasePath = (): string => {
-  for (const dir of TEST_DIRS) {
-    if (fs.existsSync(dir)) {
-      console.log(`Test-Verzeichnis gefunden: ${dir}`);
-      return dir;
-    }
-  }
-  console.warn(
-    "Kein Test-Verzeichnis gefunden, verwende aktuelles Verzeichnis",
-  );
-  return process.cwd();
-};
-
 // Hilfsfunktion zum Erstellen des Ergebnisverzeichnisses
 const ensureResultsDir = () => {
   const resultsDir = path.join(__dirname, "../results");
@@ -50,53 +54,45 @@ const ensureResultsDir = () => {
 /**
  * POST /api/test-analysis
  *
- * Führt eine Analyse aller Testdateien durch und gibt die Ergebnisse zurück
+ * Führt eine Analyse aller Testdateien durch und gibt die Ergebnisse zurück.
+ * Unveränderte Dateien kommen aus dem Analyse-Cache; mit { force: true }
+ * werden alle Dateien neu analysiert. changes enthält die Änderungen seit der
+ * vorherigen Analyse (neue, entfernte und geänderte Tests). Die
+ * Funktionsbereiche und die Coverage-Matrix folgen der Taxonomie aus
+ * functional-areas.json. Die Owner stammen aus Annotationen, Tags
+ * (@owner:, @team:) oder der CODEOWNERS-Datei des Repositorys.
  */
 router.post("/test-analysis", function (req: any, res: any) {
   try {
-    console.log("Test-Analyse gestartet...");
-
-    // Erweiterte Fehlerprotokollierung
-    console.log("1. Suche Test-Basis-Pfad...");
-    const basePath = getTestBasePath();
-    console.log(`2. Test-Basis-Pfad gefunden: ${basePath}`);
-    console.log("3. TestAnalyzer initialisieren...");
-
     // Direkter Pfad zu den Testdateien im evolution-hub
     const testsRootPath = path.resolve(__dirname, "../../"); // von routes zu tests
-    console.log(`Korrigierter Tests-Basispfad: ${testsRootPath}`);
-
-    const analyzer = new TestAnalyzer(testsRootPath);
-    console.log("4. TestAnalyzer erfolgreich initialisiert.");
-
-    // Führe die Analyse durch und speichere Ergebnisse
-    console.log("5. Starte Test-Analyse mit Muster: **/*.spec.ts");
-    const results = analyzer.analyzeAllTests("**/*.spec.ts");
-    console.log(
-      `6. Analyse abgeschlossen. ${results ? results.length : 0} Tests gefunden.`,
-    );
-
     const resultsDir = ensureResultsDir();
-    console.log(`7. Ergebnisverzeichnis: ${resultsDir}`);
-
-    const outputPath = path.join(resultsDir, "test-analysis.json");
-    console.log(`8. Ausgabepfad: ${outputPath}`);
+    const taxonomy = loadTaxonomy();
+    const analyzer = new TestAnalyzer(testsRootPath, undefined, taxonomy);
+    const incrementalAnalyzer = new IncrementalTestAnalyzer(
+      testsRootPath,
+      path.join(resultsDir, "test-analysis-cache.json"),
+      analyzer,
+    );
 
-    // Prüfe, ob results gültig ist
-    if (!results || !Array.isArray(results)) {
-      throw new Error(`Ungültige Analyseergebnisse: ${typeof results}`);
-    }
+    const analysis = incrementalAnalyzer.analyze({
+      force: req.body?.force === true,
+    });
+    const { changes, files } = analysis;
+    // Auch Ergebnisse aus dem Cache nach der aktuellen Taxonomie und
+    // CODEOWNERS-Datei zuordnen
+    const results = applyOwnership(
+      applyTaxonomy(analysis.results, taxonomy),
+      loadCodeowners(testsRootPath),
+    );
 
     // Speichere die Ergebnisse
-    console.log("9. Speichere Ergebnisse...");
-    analyzer.saveResults(results, outputPath);
+    analyzer.saveResults(results, path.join(resultsDir, "test-analysis.json"));
 
     // Erstelle auch die Abdeckungsmatrix
-    console.log("10. Erstelle Coverage-Matrix...");
     let matrix;
     try {
       matrix = analyzer.generateCoverageMatrix(results);
-      console.log("11. Coverage-Matrix erfolgreich erstellt");
     } catch (matrixError) {
       console.error(
         "Fehler bei der Erstellung der Coverage-Matrix:",
@@ -106,22 +102,17 @@ router.post("/test-analysis", function (req: any, res: any) {
       matrix = {};
     }
 
-    const matrixPath = path.join(resultsDir, "coverage-matrix.json");
-    console.log(`12. Matrix-Ausgabepfad: ${matrixPath}`);
-
     // Matrix hat ein anderes Format als TestMetadata[], daher explizites Casting
     try {
-      analyzer.saveResults(matrix as any, matrixPath);
-      console.log("13. Coverage-Matrix erfolgreich gespeichert");
+      analyzer.saveResults(
+        matrix as any,
+        path.join(resultsDir, "coverage-matrix.json"),
+      );
     } catch (saveError) {
       console.error("Fehler beim Speichern der Coverage-Matrix:", saveError);
       // Setze Prozess fort, auch wenn Matrix-Speicherung fehlschlägt
     }
 
-    console.log(
-      `Test-Analyse abgeschlossen. ${results.length} Tests analysiert.`,
-    );
-
     // Sende die Ergebnisse zurück
     res.json({
       success: true,
@@ -129,8 +120,13 @@ router.post("/test-analysis", function (req: any, res: any) {
       testMetadata: results, // Wichtig: Frontend erwartet 'testMetadata' statt 'results'
       results: results, // 'results' beibehalten für Abwärtskompatibilität
       coverageMatrix: matrix,
+      changes,
+      files,
     });
   } catch (error) {
+    if (error instanceof TaxonomyError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
     console.error("Fehler bei der Test-Analyse:", error);
     res
       .status(500)
@@ -207,6 +203,388 @@ router.get(
   },
 );
 
+/**
+ * GET /api/test-analysis/selector-health
+ *
+ * Bewertet die Robustheit aller Selektoren der gespeicherten Analyseergebnisse
+ * und liefert die schwächsten Selektoren mit Fundstelle und Verbesserungsvorschlag
+ * (Anzahl über limit, Standard 20).
+ */
+router.get(
+  "/test-analysis/selector-health",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      const resultsPath = path.join(ensureResultsDir(), "test-analysis.json");
+
+      if (!fs.existsSync(resultsPath)) {
+        return res.status(404).json({
+          success: false,
+          error:
+            "Keine Analyseergebnisse gefunden. Bitte führen Sie zuerst eine Analyse durch.",
+        });
+      }
+
+      const testMetadata: TestMetadata[] = JSON.parse(
+        fs.readFileSync(resultsPath, "utf-8"),
+      );
+      const limit = req.query.limit
+        ? parseInt(req.query.limit as string, 10)
+        : 20;
+
+      return res.status(200).json({
+        success: true,
+        selectorHealth: analyzeSelectorHealth(testMetadata, limit),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error("Fehler bei der Bewertung der Selektoren:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler bei der Bewertung der Selektoren: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
+/**
+ * GET /api/test-analysis/duplicates
+ *
+ * Redundanz-Check über die gespeicherten Analyseergebnisse: Testpaare mit
+ * nahezu gleicher Schrittfolge (Mindestähnlichkeit über threshold, Standard 0.8),
+ * Tests mit einer echten Teilmenge der Assertions eines anderen Tests sowie
+ * Setup-Hooks, die in mehreren Dateien identisch vorkommen.
+ */
+router.get(
+  "/test-analysis/duplicates",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      const resultsPath = path.join(ensureResultsDir(), "test-analysis.json");
+
+      if (!fs.existsSync(resultsPath)) {
+        return res.status(404).json({
+          success: false,
+          error:
+            "Keine Analyseergebnisse gefunden. Bitte führen Sie zuerst eine Analyse durch.",
+        });
+      }
+
+      const testMetadata: TestMetadata[] = JSON.parse(
+        fs.readFileSync(resultsPath, "utf-8"),
+      );
+      const threshold = req.query.threshold
+        ? Number(req.query.threshold)
+        : undefined;
+
+      if (
+        threshold !== undefined &&
+        !(Number.isFinite(threshold) && threshold > 0 && threshold <= 1)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Ungültiger Schwellenwert: threshold muss zwischen 0 und 1 liegen",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        duplicates: findDuplicateTests(testMetadata, { threshold }),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error("Fehler beim Redundanz-Check:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler beim Redundanz-Check: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
+/**
+ * Vorschau der Funktionsbereiche über die gespeicherten Analyseergebnisse
+ *
+ * @param taxonomy - Zu prüfende Taxonomie (Standard: functional-areas.json)
+ */
+const sendTaxonomyPreview = (
+  res: TypedResponse,
+  taxonomy?: FunctionalAreaTaxonomy,
+) => {
+  try {
+    const resultsPath = path.join(ensureResultsDir(), "test-analysis.json");
+
+    if (!fs.existsSync(resultsPath)) {
+      return res.status(404).json({
+        success: false,
+        error:
+          "Keine Analyseergebnisse gefunden. Bitte führen Sie zuerst eine Analyse durch.",
+      });
+    }
+
+    const testMetadata: TestMetadata[] = JSON.parse(
+      fs.readFileSync(resultsPath, "utf-8"),
+    );
+    const activeTaxonomy = taxonomy || loadTaxonomy();
+
+    return res.status(200).json({
+      success: true,
+      taxonomy: activeTaxonomy,
+      preview: previewTaxonomy(testMetadata, activeTaxonomy),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    if (error instanceof TaxonomyError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error("Fehler bei der Taxonomie-Vorschau:", error);
+    return res.status(500).json({
+      success: false,
+      error: `Fehler bei der Taxonomie-Vorschau: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+    });
+  }
+};
+
+/**
+ * GET /api/test-analysis/taxonomy/preview
+ *
+ * Zeigt für jede Regel der Taxonomie (functional-areas.json), welche Tests sie
+ * trifft und über welches Kriterium, welche Treffer eine exklusive Regel mit
+ * höherer Priorität verdrängt und welche Tests in den Fallback-Bereich fallen.
+ */
+router.get(
+  "/test-analysis/taxonomy/preview",
+  (req: TypedRequest, res: TypedResponse) => sendTaxonomyPreview(res),
+);
+
+/**
+ * POST /api/test-analysis/taxonomy/preview
+ *
+ * Wie GET, aber mit der Taxonomie aus dem Request-Body ({ areas, fallback }),
+ * um Änderungen vor dem Speichern zu prüfen.
+ */
+router.post(
+  "/test-analysis/taxonomy/preview",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      return sendTaxonomyPreview(res, parseTaxonomy(req.body));
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Ungültige Taxonomie",
+      });
+    }
+  },
+);
+
+// Registriertes Feature-Inventar im Dashboard-Verzeichnis
+const featureInventoryPath = path.join(__dirname, "..", FEATURE_INVENTORY_FILE);
+
+/**
+ * GET /api/test-analysis/feature-coverage
+ *
+ * Gleicht das registrierte Feature-Inventar mit den gespeicherten
+ * Analyseergebnissen ab: ungetestete, schwach abgedeckte (nur ein Test oder
+ * nur Smoke-Tests) und übertestete Features (mehr als overTested Tests,
+ * Standard 10) sowie besuchte Pfade ohne Eintrag im Inventar.
+ */
+router.get(
+  "/test-analysis/feature-coverage",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      const resultsPath = path.join(ensureResultsDir(), "test-analysis.json");
+
+      if (!fs.existsSync(resultsPath)) {
+        return res.status(404).json({
+          success: false,
+          error:
+            "Keine Analyseergebnisse gefunden. Bitte führen Sie zuerst eine Analyse durch.",
+        });
+      }
+
+      const overTestedThreshold = req.query.overTested
+        ? Number(req.query.overTested)
+        : undefined;
+
+      if (
+        overTestedThreshold !== undefined &&
+        !(Number.isInteger(overTestedThreshold) && overTestedThreshold > 0)
+      ) {
+        return res.status(400).json({
+          success: false,
+          error: "Ungültiger Wert: overTested muss eine positive Ganzzahl sein",
+        });
+      }
+
+      const features = loadFeatureInventory(featureInventoryPath);
+      if (!features) {
+        return res.status(404).json({
+          success: false,
+          error: `Kein Feature-Inventar registriert. Legen Sie ${FEATURE_INVENTORY_FILE} an oder verwenden Sie PUT /api/test-analysis/feature-inventory.`,
+        });
+      }
+
+      const testMetadata: TestMetadata[] = JSON.parse(
+        fs.readFileSync(resultsPath, "utf-8"),
+      );
+
+      return res.status(200).json({
+        success: true,
+        featureCoverage: analyzeFeatureCoverage(features, testMetadata, {
+          overTestedThreshold,
+        }),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      if (error instanceof FeatureInventoryError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error("Fehler bei der Feature-Abdeckung:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler bei der Feature-Abdeckung: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
+/**
+ * GET /api/test-analysis/feature-inventory
+ *
+ * Gibt das registrierte Inventar und die daraus ermittelten Features zurück.
+ */
+router.get(
+  "/test-analysis/feature-inventory",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      if (!fs.existsSync(featureInventoryPath)) {
+        return res.status(404).json({
+          success: false,
+          error: "Kein Feature-Inventar registriert",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        inventory: JSON.parse(fs.readFileSync(featureInventoryPath, "utf-8")),
+        features: loadFeatureInventory(featureInventoryPath),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      if (error instanceof FeatureInventoryError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error("Fehler beim Laden des Feature-Inventars:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler beim Laden des Feature-Inventars: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
+/**
+ * PUT /api/test-analysis/feature-inventory
+ *
+ * Registriert das Feature-Inventar ({ features, sitemap, routeFile }; Pfade
+ * relativ zum Dashboard-Verzeichnis). Ungültige Inventare werden abgelehnt.
+ */
+router.put(
+  "/test-analysis/feature-inventory",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      const features = resolveFeatureInventory(
+        req.body,
+        path.dirname(featureInventoryPath),
+      );
+      fs.writeFileSync(
+        featureInventoryPath,
+        JSON.stringify(req.body, null, 2),
+        "utf-8",
+      );
+
+      return res.status(200).json({
+        success: true,
+        features,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      if (error instanceof FeatureInventoryError) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+      console.error("Fehler beim Speichern des Feature-Inventars:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler beim Speichern des Feature-Inventars: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
+/**
+ * GET /api/test-analysis/correlation
+ *
+ * Verknüpft die gespeicherten Analyseergebnisse über die einheitliche Test-ID
+ * mit den Laufzeitergebnissen. Optional gefiltert nach Zeitraum (days) und
+ * Playwright-Projekt (project); die Quadranten-Schwellenwerte lassen sich über
+ * complexityThreshold und instabilityThreshold anpassen.
+ */
+router.get(
+  "/test-analysis/correlation",
+  (req: TypedRequest, res: TypedResponse) => {
+    try {
+      const resultsPath = path.join(ensureResultsDir(), "test-analysis.json");
+
+      if (!fs.existsSync(resultsPath)) {
+        return res.status(404).json({
+          success: false,
+          error:
+            "Keine Analyseergebnisse gefunden. Bitte führen Sie zuerst eine Analyse durch.",
+        });
+      }
+
+      const testMetadata: TestMetadata[] = JSON.parse(
+        fs.readFileSync(resultsPath, "utf-8"),
+      );
+      const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+      const project = req.query.project as string | undefined;
+      const thresholds = {
+        ...(req.query.complexityThreshold && {
+          complexity: Number(req.query.complexityThreshold),
+        }),
+        ...(req.query.instabilityThreshold && {
+          instabilityRate: Number(req.query.instabilityThreshold),
+        }),
+      };
+
+      if (Object.values(thresholds).some((value) => !Number.isFinite(value))) {
+        return res.status(400).json({
+          success: false,
+          error:
+            "Ungültiger Schwellenwert: complexityThreshold und instabilityThreshold müssen Zahlen sein",
+        });
+      }
+
+      const correlation = correlationAnalyzer.getCorrelation(testMetadata, {
+        days,
+        project,
+        thresholds,
+      });
+
+      return res.status(200).json({
+        success: true,
+        correlation,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      console.error("Fehler bei der Korrelation der Analyseergebnisse:", error);
+      return res.status(500).json({
+        success: false,
+        error: `Fehler bei der Korrelation der Analyseergebnisse: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      });
+    }
+  },
+);
+
 /**
  * Berechnet Qualitätsmetriken für die Testdateien
  */
@@ -8,10 +8,18 @@
 import express from "express";
 import type { Request, Response, Router } from "express";
 import path from "path";
-import fs from "fs";
 import { v4 as uuidv4 } from "uuid";
 import { TestRunner } from "../utils/test-runner";
+import { TestRunnerEvent } from "../utils/execution/run-event-reporter";
+import {
+  formatSseEvent,
+  RunEvent,
+  RunEventStream,
+} from "../utils/execution/run-event-stream";
+import { QueueEntry, TestRunQueue } from "../utils/execution/run-queue";
 import logger, { createComponentLogger } from "../utils/logger";
+import { DOCUMENT_KEYS } from "../utils/storage/results-repository";
+import { getResultsStore } from "../utils/storage/results-store";
 
 // TypeScript-Deklaration für Express-Router verbessern
 declare global {
@@ -52,6 +60,23 @@ const log = createComponentLogger("TestExecution");
 // Aktive Testläufe
 const activeTestRuns = new Map();
 
+// Live-Ereignisse der Testläufe für Server-Sent Events
+const runEvents = new RunEventStream();
+
+// Abstand der Keep-Alive-Kommentare im Event-Stream
+const STREAM_HEARTBEAT_MS = 15000;
+
+// Warteschlange der Testläufe (maximale Parallelität über TEST_RUN_CONCURRENCY)
+const runQueue = new TestRunQueue(
+  Number(process.env.TEST_RUN_CONCURRENCY) || 1,
+);
+
+// Testläufe, deren Abbruch angefordert wurde
+const cancelledRuns = new Set<string>();
+
+// Results-Store für die Testlauf-Historie
+const resultsStore = getResultsStore(path.join(__dirname, ".."));
+
 // Testlauf-Historie (zuletzt 50 Einträge)
 const MAX_HISTORY_SIZE = 50;
 let testRunHistory: any[] = [];
@@ -88,14 +113,9 @@ function addToTestHistory(testRun: any): void {
 
   // Testhistorie speichern
   try {
-    const historyDir = path.join(__dirname, "../history");
-    if (!fs.existsSync(historyDir)) {
-      fs.mkdirSync(historyDir, { recursive: true });
-    }
-
-    fs.writeFileSync(
-      path.join(historyDir, "test-history.json"),
-      JSON.stringify(testRunHistory, null, 2),
+    resultsStore.saveDocument(
+      DOCUMENT_KEYS.testExecutionHistory,
+      testRunHistory,
     );
   } catch (error) {
     log.error("Fehler beim Speichern der Test-Historie:", error);
@@ -103,15 +123,16 @@ function addToTestHistory(testRun: any): void {
 }
 
 /**
- * Lädt die Testhistorie aus der Datei
+ * Lädt die Testhistorie aus dem Results-Store
  */
 function loadTestHistory(): void {
   try {
-    const historyFile = path.join(__dirname, "../history/test-history.json");
+    const history = resultsStore.getDocument<any[]>(
+      DOCUMENT_KEYS.testExecutionHistory,
+    );
 
-    if (fs.existsSync(historyFile)) {
-      const historyData = fs.readFileSync(historyFile, "utf8");
-      testRunHistory = JSON.parse(historyData);
+    if (history) {
+      testRunHistory = history;
       log.info(`Test-Historie geladen: ${testRunHistory.length} Einträge`);
     }
   } catch (error) {
@@ -122,6 +143,144 @@ function loadTestHistory(): void {
 // Historie beim Start laden
 loadTestHistory();
 
+/**
+ * Hängt eine Log-Zeile an einen Testlauf an und veröffentlicht sie im Stream
+ */
+function appendRunLog(runId: string, message: string): void {
+  const testRun = activeTestRuns.get(runId);
+  if (testRun) {
+    testRun.logs.push(message);
+
+    // Begrenze die Anzahl der Log-Einträge
+    if (testRun.logs.length > 1000) {
+      testRun.logs = testRun.logs.slice(testRun.logs.length - 1000);
+    }
+  }
+
+  runEvents.publish(runId, "log", { message });
+}
+
+/**
+ * Veröffentlicht den aktuellen Fortschritt eines Testlaufs im Stream
+ */
+function publishRunProgress(runId: string): void {
+  const testRun = activeTestRuns.get(runId);
+  if (testRun) {
+    runEvents.publish(runId, "progress", {
+      progress: testRun.progress,
+      testProgress: testRun.testProgress,
+    });
+  }
+}
+
+/**
+ * Verarbeitet Beginn und Ende einzelner Testfälle aus dem TestRunner
+ *
+ * Die Zähler in testProgress beziehen sich auf Testfälle, nicht auf Dateien;
+ * fehlgeschlagene Versuche mit folgender Wiederholung zählen nicht.
+ */
+function handleRunnerEvent(runId: string, event: TestRunnerEvent): void {
+  const testRun = activeTestRuns.get(runId);
+  if (!testRun) return;
+
+  if (event.type === "run-begin") {
+    testRun.testProgress.total += event.totalTests;
+    publishRunProgress(runId);
+    return;
+  }
+
+  runEvents.publish(runId, event.type, event);
+
+  if (event.type === "test-end" && event.final) {
+    const counters = testRun.testProgress;
+    counters.completed++;
+    if (event.status === "passed") counters.passed++;
+    else if (event.status === "flaky") counters.flaky++;
+    else if (event.status === "skipped") counters.skipped++;
+    else counters.failed++;
+
+    publishRunProgress(runId);
+  }
+}
+
+/**
+ * Schließt den Event-Stream eines Testlaufs mit dem Endstatus ab
+ */
+function completeRunStream(testRun: any): void {
+  runEvents.publish(testRun.runId, "status", {
+    status: testRun.status,
+    endTime: testRun.endTime,
+  });
+  publishRunProgress(testRun.runId);
+  runEvents.complete(testRun.runId, { status: testRun.status });
+}
+
+/**
+ * Beendet einen Testlauf und verschiebt ihn in die Historie
+ *
+ * Abgebrochene Läufe werden unabhängig vom Ergebnis als "aborted" gespeichert;
+ * der bis dahin erreichte Fortschritt bleibt erhalten.
+ */
+function finishTestRun(
+  testRun: any,
+  status: "completed" | "failed" | "aborted",
+): void {
+  testRun.endTime = new Date().toISOString();
+  testRun.status = cancelledRuns.delete(testRun.runId) ? "aborted" : status;
+
+  // Stream abschließen und zur Historie hinzufügen
+  completeRunStream(testRun);
+  addToTestHistory({ ...testRun });
+}
+
+/**
+ * Reiht einen Testlauf in die Queue ein
+ *
+ * Jeder Lauf erhält einen eigenen TestRunner, damit ein Abbruch nur diesen
+ * Lauf stoppt. execute muss erst zurückkehren, wenn der Lauf beendet ist.
+ */
+function enqueueTestRun(
+  testRun: any,
+  priority: number,
+  execute: (testRunner: TestRunner) => Promise<void>,
+): QueueEntry {
+  const testRunner = new TestRunner();
+
+  const entry = runQueue.enqueue({
+    runId: testRun.runId,
+    priority,
+    start: async () => {
+      testRun.status = "running";
+      testRun.startTime = new Date().toISOString();
+      // Stand des lokalen Repositorys zum Start des Laufs festhalten
+      testRun.git = testRunner.getGitMetadata();
+      runEvents.publish(testRun.runId, "status", {
+        status: "running",
+        startTime: testRun.startTime,
+      });
+
+      await execute(testRunner);
+    },
+    stop: () => testRunner.stopTests(),
+  });
+
+  if (entry.state === "queued") {
+    runEvents.publish(testRun.runId, "status", {
+      status: "queued",
+      queuePosition: runQueue.getPosition(testRun.runId),
+    });
+  }
+
+  return entry;
+}
+
+/**
+ * Erstellt die leeren Zähler für einzelne Testfälle
+ */
+function createTestProgress() {
+  return { total: 0, completed: 0, passed: 0, flaky: 0, failed: 0, skipped: 0 };
+}
+
 /**
  * GET /api/playwright-tests
  * Listet alle verfügbaren Playwright-Tests auf
@@ -166,6 +325,7 @@ router.get(
       res.json({
         status: "success",
         testRun,
+        queuePosition: runQueue.getPosition(testRun.runId),
       });
     } catch (error) {
       log.error("Fehler beim Abrufen des Testlaufs:", error);
@@ -177,6 +337,210 @@ router.get(
   },
 );
 
+/**
+ * GET /api/test-runs/:runId/stream
+ * Streamt Log-Zeilen, Beginn und Ende einzelner Tests, Fortschritt und Status
+ * eines Testlaufs als Server-Sent Events. Nach einem Verbindungsabbruch
+ * werden über Last-Event-ID (Header oder Query-Parameter lastEventId) die
+ * verpassten Ereignisse nachgeliefert.
+ */
+router.get(
+  "/test-runs/:runId/stream",
+  function streamTestRun(req: Request, res: Response) {
+    const { runId } = req.params;
+    const historyEntry = runEvents.has(runId)
+      ? undefined
+      : testRunHistory.find((entry) => entry.runId === runId);
+
+    if (!runEvents.has(runId) && !activeTestRuns.has(runId) && !historyEntry) {
+      return res.status(404).json({
+        status: "error",
+        message: "Testlauf nicht gefunden",
+      });
+    }
+
+    const lastEventId =
+      Number(req.get("Last-Event-ID") ?? req.query.lastEventId) || 0;
+
+    log.info("API-Anfrage: Event-Stream eines Testlaufs", {
+      runId,
+      lastEventId,
+    });
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+    res.write("retry: 3000\n\n");
+
+    // Abgeschlossener Lauf ohne gepufferte Ereignisse: nur den Endstatus senden
+    if (historyEntry) {
+      res.write(
+        `event: status\ndata: ${JSON.stringify({
+          status: historyEntry.status,
+          endTime: historyEntry.endTime,
+        })}\n\n`,
+      );
+      res.write(
+        `event: end\ndata: ${JSON.stringify({ status: historyEntry.status })}\n\n`,
+      );
+      return res.end();
+    }
+
+    let heartbeat: NodeJS.Timeout | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const close = (): void => {
+      if (heartbeat) clearInterval(heartbeat);
+      unsubscribe?.();
+      heartbeat = null;
+      unsubscribe = null;
+    };
+
+    const send = (event: RunEvent): void => {
+      res.write(formatSseEvent(event));
+      if (event.type === "end") {
+        close();
+        res.end();
+      }
+    };
+
+    // Laufende Läufe ohne bisherige Ereignisse erhalten einen leeren Kanal
+    if (!runEvents.has(runId)) {
+      publishRunProgress(runId);
+    }
+
+    unsubscribe = runEvents.subscribe(runId, send, lastEventId);
+    if (res.writableEnded) {
+      return;
+    }
+
+    heartbeat = setInterval(() => {
+      res.write(": keep-alive\n\n");
+    }, STREAM_HEARTBEAT_MS);
+    heartbeat.unref();
+
+    req.on("close", close);
+  },
+);
+
+/**
+ * GET /api/test-runs/queue
+ * Listet laufende, wartende und zuletzt beendete Testläufe der Queue auf
+ */
+router.get(
+  "/test-runs/queue",
+  function getTestRunQueue(req: Request, res: Response) {
+    try {
+      log.info("API-Anfrage: Queue der Testläufe");
+
+      res.json({
+        status: "success",
+        queue: runQueue.list(),
+      });
+    } catch (error) {
+      log.error("Fehler beim Abrufen der Queue:", error);
+      res.status(500).json({
+        status: "error",
+        message: error instanceof Error ? error.message : "Unbekannter Fehler",
+      });
+    }
+  },
+);
+
+/**
+ * PUT /api/test-runs/queue
+ * Setzt die maximale Anzahl gleichzeitig laufender Testläufe
+ */
+router.put(
+  "/test-runs/queue",
+  function configureTestRunQueue(req: Request, res: Response) {
+    try {
+      const maxConcurrency = Number(req.body?.maxConcurrency);
+
+      if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+        return res.status(400).json({
+          status: "error",
+          message: "maxConcurrency muss eine ganze Zahl größer als 0 sein",
+        });
+      }
+
+      log.info("API-Anfrage: Parallelität der Queue ändern", {
+        maxConcurrency,
+      });
+      runQueue.setMaxConcurrency(maxConcurrency);
+
+      res.json({
+        status: "success",
+        queue: runQueue.list(),
+      });
+    } catch (error) {
+      log.error("Fehler beim Konfigurieren der Queue:", error);
+      res.status(500).json({
+        status: "error",
+        message: error instanceof Error ? error.message : "Unbekannter Fehler",
+      });
+    }
+  },
+);
+
+/**
+ * POST /api/test-runs/:runId/cancel
+ * Bricht einen wartenden oder laufenden Testlauf ab. Wartende Läufe werden
+ * sofort als "aborted" in die Historie übernommen, laufende nach dem Stoppen
+ * mit den bis dahin vorliegenden Ergebnissen.
+ */
+router.post(
+  "/test-runs/:runId/cancel",
+  async function cancelTestRun(req: Request, res: Response) {
+    try {
+      const { runId } = req.params;
+      const testRun = activeTestRuns.get(runId);
+
+      if (!testRun) {
+        return res.status(404).json({
+          status: "error",
+          message: "Testlauf nicht gefunden",
+        });
+      }
+
+      log.info("API-Anfrage: Testlauf abbrechen", { runId });
+
+      // Vor dem Stoppen markieren, damit der Abschluss den Lauf als abgebrochen erkennt
+      cancelledRuns.add(runId);
+      appendRunLog(runId, "Abbruch des Testlaufs angefordert");
+      const previousState = await runQueue.cancel(runId);
+
+      if (previousState === null) {
+        cancelledRuns.delete(runId);
+        return res.status(409).json({
+          status: "error",
+          message: "Testlauf kann nicht mehr abgebrochen werden",
+        });
+      }
+
+      // Laufende Läufe werden beim Abschluss von runTest/runTests beendet
+      if (previousState === "queued") {
+        finishTestRun(testRun, "aborted");
+      }
+
+      res.json({
+        status: "success",
+        runId,
+        previousState,
+      });
+    } catch (error) {
+      log.error("Fehler beim Abbrechen des Testlaufs:", error);
+      res.status(500).json({
+        status: "error",
+        message: error instanceof Error ? error.message : "Unbekannter Fehler",
+      });
+    }
+  },
+);
+
 /**
  * POST /api/run-playwright-test
  * Führt einen einzelnen Playwright-Test aus
@@ -190,6 +554,7 @@ router.post(
         browser = "chromium",
         headless = true,
         timeout,
+        priority = 0,
       } = req.body;
 
       if (!testFile) {
@@ -204,12 +569,13 @@ router.post(
       // Generiere eine eindeutige Run-ID
       const runId = uuidv4();
 
-      // Erstelle ein Testlauf-Objekt
+      // Erstelle ein Testlauf-Objekt (startTime wird beim Start aktualisiert)
       const testRun = {
         runId,
         startTime: new Date().toISOString(),
         endTime: null,
-        status: "running",
+        status: "queued",
+        priority: Number(priority) || 0,
         testFiles: [testFile],
         config: {
           browsers: [browser],
@@ -224,79 +590,69 @@ router.post(
           failed: 0,
           skipped: 0,
         },
+        testProgress: createTestProgress(),
       };
 
       // Speichere den Testlauf
       activeTestRuns.set(runId, testRun);
 
-      // Führe den Test asynchron aus
-      const testRunner = new TestRunner();
-      testRunner
-        .runTest(
-          testFile,
-          {
-            browser,
-            headless,
-            timeout,
-            runId,
-          },
-          (message) => {
-            // Log-Nachricht zum Testlauf hinzufügen
-            const testRunInstance = activeTestRuns.get(runId);
-            if (testRunInstance) {
-              testRunInstance.logs.push(message);
-
-              // Begrenze die Anzahl der Log-Einträge
-              if (testRunInstance.logs.length > 1000) {
-                testRunInstance.logs = testRunInstance.logs.slice(
-                  testRunInstance.logs.length - 1000,
-                );
+      // Führe den Test asynchron aus, sobald die Queue einen Platz frei hat
+      enqueueTestRun(testRun, testRun.priority, (testRunner) =>
+        testRunner
+          .runTest(
+            testFile,
+            {
+              browser,
+              headless,
+              timeout,
+              runId,
+            },
+            (message) => appendRunLog(runId, message),
+            (event) => handleRunnerEvent(runId, event),
+          )
+          .then((result) => {
+            // Test abgeschlossen
+            log.info(`Test ${testFile} abgeschlossen`, { result });
+
+            const currentRun = activeTestRuns.get(runId);
+            if (currentRun) {
+              // Ein abgebrochener Test zählt nicht als abgeschlossen
+              if (!cancelledRuns.has(runId)) {
+                currentRun.progress.completed = 1;
+                currentRun.progress.passed = result.success ? 1 : 0;
+                currentRun.progress.failed = result.success ? 0 : 1;
               }
+
+              finishTestRun(
+                currentRun,
+                result.success ? "completed" : "failed",
+              );
             }
-          },
-        )
-        .then((result) => {
-          // Test abgeschlossen
-          log.info(`Test ${testFile} abgeschlossen`, { result });
-
-          const currentRun = activeTestRuns.get(runId);
-          if (currentRun) {
-            currentRun.endTime = new Date().toISOString();
-            currentRun.status = result.success ? "completed" : "failed";
-
-            // Fortschritt aktualisieren
-            currentRun.progress.completed = 1;
-            currentRun.progress.passed = result.success ? 1 : 0;
-            currentRun.progress.failed = result.success ? 0 : 1;
-
-            // Zur Historie hinzufügen
-            addToTestHistory({ ...currentRun });
-          }
-        })
-        .catch((error: any) => {
-          // Test fehlgeschlagen
-          log.error("Test fehlgeschlagen:", error);
-
-          const currentRun = activeTestRuns.get(runId);
-          if (currentRun) {
-            currentRun.endTime = new Date().toISOString();
-            currentRun.status = "failed";
-            currentRun.logs.push(
-              `Fehler: ${error.message || "Unbekannter Fehler"}`,
-            );
-
-            // Fortschritt aktualisieren
-            currentRun.progress.completed = 1;
-            currentRun.progress.failed = 1;
-
-            // Zur Historie hinzufügen
-            addToTestHistory({ ...currentRun });
-          }
-        });
+          })
+          .catch((error: any) => {
+            // Test fehlgeschlagen
+            log.error("Test fehlgeschlagen:", error);
+
+            const currentRun = activeTestRuns.get(runId);
+            if (currentRun) {
+              appendRunLog(
+                runId,
+                `Fehler: ${error.message || "Unbekannter Fehler"}`,
+              );
+
+              // Fortschritt aktualisieren
+              currentRun.progress.completed = 1;
+              currentRun.progress.failed = 1;
+
+              finishTestRun(currentRun, "failed");
+            }
+          }),
+      );
 
       res.json({
         status: "success",
         runId,
+        queuePosition: runQueue.getPosition(runId),
       });
     } catch (error) {
       log.error("Fehler beim Starten des Tests:", error);
@@ -323,6 +679,7 @@ router.post(
         timeout,
         retries = 0,
         captureScreenshots = false,
+        priority = 0,
       } = req.body;
 
       if (!testFiles || !Array.isArray(testFiles) || testFiles.length === 0) {
@@ -341,12 +698,13 @@ router.post(
       // Generiere eine eindeutige Run-ID
       const runId = uuidv4();
 
-      // Erstelle ein Testlauf-Objekt
+      // Erstelle ein Testlauf-Objekt (startTime wird beim Start aktualisiert)
       const testRun = {
         runId,
         startTime: new Date().toISOString(),
         endTime: null,
-        status: "running",
+        status: "queued",
+        priority: Number(priority) || 0,
         testFiles,
         config: {
           browsers,
@@ -363,79 +721,70 @@ router.post(
           failed: 0,
           skipped: 0,
         },
+        testProgress: createTestProgress(),
       };
 
       // Speichere den Testlauf
       activeTestRuns.set(runId, testRun);
 
-      // Führe die Tests asynchron aus
-      const testRunner = new TestRunner();
-      testRunner
-        .runTests(
-          testFiles,
-          {
-            browsers,
-            headless,
-            timeout,
-            retries,
-            captureScreenshots,
-            runId,
-          },
-          // Log-Callback
-          (message) => {
-            const testRunInstance = activeTestRuns.get(runId);
-            if (testRunInstance) {
-              testRunInstance.logs.push(message);
-
-              // Begrenze die Anzahl der Log-Einträge
-              if (testRunInstance.logs.length > 1000) {
-                testRunInstance.logs = testRunInstance.logs.slice(
-                  testRunInstance.logs.length - 1000,
-                );
+      // Führe die Tests asynchron aus, sobald die Queue einen Platz frei hat
+      enqueueTestRun(testRun, testRun.priority, (testRunner) =>
+        testRunner
+          .runTests(
+            testFiles,
+            {
+              browsers,
+              headless,
+              timeout,
+              retries,
+              captureScreenshots,
+              runId,
+            },
+            // Log-Callback
+            (message) => appendRunLog(runId, message),
+            // Fortschritts-Callback
+            (progress) => {
+              const testRunInstance = activeTestRuns.get(runId);
+              if (testRunInstance) {
+                testRunInstance.progress = progress;
+                publishRunProgress(runId);
               }
+            },
+            // Ereignis-Callback für einzelne Testfälle
+            (event) => handleRunnerEvent(runId, event),
+          )
+          .then((results) => {
+            // Tests abgeschlossen
+            log.info("Mehrere Tests abgeschlossen", { results });
+
+            const currentRun = activeTestRuns.get(runId);
+            if (currentRun) {
+              finishTestRun(
+                currentRun,
+                results.aborted ? "aborted" : "completed",
+              );
             }
-          },
-          // Fortschritts-Callback
-          (progress) => {
-            const testRunInstance = activeTestRuns.get(runId);
-            if (testRunInstance) {
-              testRunInstance.progress = progress;
+          })
+          .catch((error: any) => {
+            // Tests fehlgeschlagen
+            log.error("Tests fehlgeschlagen:", error);
+
+            const currentRun = activeTestRuns.get(runId);
+            if (currentRun) {
+              appendRunLog(
+                runId,
+                `Fehler: ${error.message || "Unbekannter Fehler"}`,
+              );
+
+              finishTestRun(currentRun, "failed");
             }
-          },
-        )
-        .then((results) => {
-          // Tests abgeschlossen
-          log.info("Mehrere Tests abgeschlossen", { results });
-
-          const currentRun = activeTestRuns.get(runId);
-          if (currentRun) {
-            currentRun.endTime = new Date().toISOString();
-            currentRun.status = "completed";
-
-            // Zur Historie hinzufügen
-            addToTestHistory({ ...currentRun });
-          }
-        })
-        .catch((error: any) => {
-          // Tests fehlgeschlagen
-          log.error("Tests fehlgeschlagen:", error);
-
-          const currentRun = activeTestRuns.get(runId);
-          if (currentRun) {
-            currentRun.endTime = new Date().toISOString();
-            currentRun.status = "failed";
-            currentRun.logs.push(
-              `Fehler: ${error.message || "Unbekannter Fehler"}`,
-            );
-
-            // Zur Historie hinzufügen
-            addToTestHistory({ ...currentRun });
-          }
-        });
+          }),
+      );
 
       res.json({
         status: "success",
         runId,
+        queuePosition: runQueue.getPosition(runId),
       });
     } catch (error) {
       log.error("Fehler beim Starten der Tests:", error);
@@ -9,19 +9,98 @@ import * as path from "path";
 import * as fs from "fs";
 import SuccessRateTracker from "../utils/metrics/success-rate-tracker";
 import FlakinessAnalyzer from "../utils/metrics/flakiness-analyzer";
+import {
+  scheduleHistoryCompaction,
+  validateRetentionPolicy,
+} from "../utils/metrics/history-retention";
+import TestOwnershipIndex, {
+  OwnerFilter,
+} from "../utils/metrics/test-ownership";
+import TestQuarantine from "../utils/metrics/test-quarantine";
+import { createRunFilter, RunFilter } from "../utils/results/run-metadata";
+import { getResultsStore } from "../utils/storage/results-store";
 import { PlaywrightTestResultFile } from "../types/playwright-results";
 
 const router = Router();
 const baseDir = process.cwd();
 const successRateTracker = new SuccessRateTracker(baseDir);
 const flakinessAnalyzer = new FlakinessAnalyzer(baseDir);
+const testQuarantine = new TestQuarantine(baseDir);
+const resultsStore = getResultsStore(baseDir);
+
+// Timer der täglichen Verdichtung (nur gesetzt, solange sie läuft)
+let historyCompactionTimer: NodeJS.Timeout | undefined;
+
+/**
+ * Startet die tägliche Verdichtung des Testverlaufs zu Tagesaggregaten
+ *
+ * Wird vom Server beim Start aufgerufen, nicht schon beim Import der Routen.
+ * Ein erneuter Aufruf startet keinen zweiten Timer.
+ */
+export function startHistoryCompaction(): void {
+  if (!historyCompactionTimer) {
+    historyCompactionTimer = scheduleHistoryCompaction(successRateTracker);
+  }
+}
+
+/**
+ * Beendet die tägliche Verdichtung des Testverlaufs (z.B. in Tests)
+ */
+export function stopHistoryCompaction(): void {
+  if (historyCompactionTimer) {
+    clearInterval(historyCompactionTimer);
+    historyCompactionTimer = undefined;
+  }
+}
+
+// Ergebnisse der statischen Testanalyse mit den Ownern der Tests
+const testAnalysisPath = path.join(__dirname, "../results/test-analysis.json");
+
+// Owner-Filter aus dem Query-Parameter owner (ohne Parameter kein Filter)
+function getOwnerFilter(
+  ownership: TestOwnershipIndex,
+  owner?: string,
+): OwnerFilter | undefined {
+  return owner ? { owner, ownership } : undefined;
+}
+
+// Lauf-Filter aus den Query-Parametern branch und commitRange
+// (ohne Parameter kein Filter, bei ungültigem Commit-Bereich eine Fehlermeldung)
+function getRunFilter(query: Record<string, unknown>) {
+  return createRunFilter(
+    resultsStore,
+    {
+      branch: typeof query.branch === "string" ? query.branch : undefined,
+      commitRange:
+        typeof query.commitRange === "string" ? query.commitRange : undefined,
+    },
+    baseDir,
+  );
+}
+
+// Flakiness-Bericht über alle Tests; nur der ungefilterte Bericht wird gespeichert
+function analyzeAllFlakiness(days: number, runs?: RunFilter) {
+  return runs
+    ? flakinessAnalyzer.analyzeFlakiness(days, undefined, undefined, runs)
+    : flakinessAnalyzer.analyzeFlakiness(days);
+}
 
 /**
  * GET /api/test-metrics/success-rates
  * Gibt die Erfolgsraten für Tests zurück, optional gefiltert nach Zeitraum
+ * und Playwright-Projekt (project) sowie Owner bzw. Team (owner). Enthält
+ * eine Aufschlüsselung und Vergleichsmatrix über alle Projekte und die
+ * bekannten Owner. Tests unter Quarantäne zählen nicht zur Gesamtrate und
+ * werden getrennt unter quarantined geführt. Mit branch bzw. commitRange
+ * ("<von>..<bis>") zählen nur Ausführungen aus passenden Läufen.
  */
 router.get("/success-rates", (req, res) => {
   try {
+    const runs = getRunFilter(req.query);
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
     const startDate = req.query.startDate
       ? new Date(req.query.startDate as string)
       : undefined;
@@ -29,14 +108,42 @@ router.get("/success-rates", (req, res) => {
       ? new Date(req.query.endDate as string)
       : undefined;
 
-    const rates =
+    const project = req.query.project as string | undefined;
+    const ownership = TestOwnershipIndex.load(testAnalysisPath);
+    const owner = getOwnerFilter(ownership, req.query.owner as string);
+
+    const isQuarantined = testQuarantine.createMatcher();
+    const periodRates =
       startDate || endDate
         ? successRateTracker.getSuccessRatesForPeriod(startDate, endDate)
         : successRateTracker.loadSuccessRates();
+    const { rates: allRates, quarantined: allQuarantined } =
+      successRateTracker.separateQuarantined(
+        runs.filter
+          ? successRateTracker.filterByRuns(periodRates, runs.filter)
+          : periodRates,
+        isQuarantined,
+      );
+    const applyFilters = (ratesToFilter: typeof allRates) => {
+      const projectRates = project
+        ? successRateTracker.filterByProject(ratesToFilter, project)
+        : ratesToFilter;
+      return owner
+        ? successRateTracker.filterByOwner(projectRates, owner)
+        : projectRates;
+    };
 
     res.json({
       success: true,
-      rates,
+      rates: applyFilters(allRates),
+      quarantined: applyFilters(allQuarantined),
+      project,
+      owner: owner?.owner,
+      branch: runs.filter?.branch,
+      commitRange: runs.filter?.commitRange,
+      owners: ownership.getOwnerNames(),
+      projectBreakdown: successRateTracker.getProjectBreakdown(allRates),
+      projectComparison: successRateTracker.getProjectComparison(allRates),
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -50,12 +157,18 @@ router.get("/success-rates", (req, res) => {
 
 /**
  * GET /api/test-metrics/success-trends
- * Analysiert und gibt Erfolgsraten-Trends zurück
+ * Analysiert und gibt Erfolgsraten-Trends zurück (optional nur für Läufe
+ * eines Branches bzw. Commit-Bereichs)
  */
 router.get("/success-trends", (req, res) => {
   try {
+    const runs = getRunFilter(req.query);
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
     const days = req.query.days ? parseInt(req.query.days as string, 10) : 7;
-    const trends = successRateTracker.analyzeSuccessTrends(days);
+    const trends = successRateTracker.analyzeSuccessTrends(days, runs.filter);
 
     res.json({
       success: true,
@@ -74,16 +187,36 @@ router.get("/success-trends", (req, res) => {
 
 /**
  * GET /api/test-metrics/flakiness
- * Gibt den Flakiness-Bericht für alle Tests zurück
+ * Gibt den Flakiness-Bericht für alle Tests zurück, optional beschränkt auf
+ * ein Playwright-Projekt (project) und einen Owner bzw. ein Team (owner).
+ * Enthält eine Aufschlüsselung und Vergleichsmatrix über alle Projekte und
+ * die bekannten Owner. branch und commitRange beschränken die Analyse auf
+ * Ausführungen aus passenden Läufen.
  */
 router.get("/flakiness", (req, res) => {
   try {
+    const runs = getRunFilter(req.query);
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
     const days = req.query.days ? parseInt(req.query.days as string, 10) : 14;
-    const report = flakinessAnalyzer.analyzeFlakiness(days);
+    const project = req.query.project as string | undefined;
+    const ownership = TestOwnershipIndex.load(testAnalysisPath);
+    const owner = getOwnerFilter(ownership, req.query.owner as string);
+
+    const fullReport = analyzeAllFlakiness(days, runs.filter);
+    const report =
+      project || owner
+        ? flakinessAnalyzer.analyzeFlakiness(days, project, owner, runs.filter)
+        : fullReport;
 
     res.json({
       success: true,
       flakinessReport: report,
+      owners: ownership.getOwnerNames(),
+      projectBreakdown: flakinessAnalyzer.getProjectBreakdown(fullReport),
+      projectComparison: flakinessAnalyzer.getProjectComparison(fullReport),
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -97,14 +230,27 @@ router.get("/flakiness", (req, res) => {
 
 /**
  * GET /api/test-metrics/flaky-tests
- * Gibt die instabilsten Tests zurück, sortiert nach Flakiness-Score
+ * Gibt die instabilsten Tests zurück, sortiert nach Flakiness-Score.
+ * Mit status=flaky nur Tests, die bei Wiederholung bestanden haben,
+ * mit branch bzw. commitRange nur Ausführungen aus passenden Läufen.
  */
 router.get("/flaky-tests", (req, res) => {
   try {
+    const runs = getRunFilter(req.query);
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
     const limit = req.query.limit
       ? parseInt(req.query.limit as string, 10)
       : 10;
-    const flakyTests = flakinessAnalyzer.getMostFlakyTests(limit);
+    const flakyTests =
+      req.query.status === "flaky"
+        ? flakinessAnalyzer
+            .getMostFlakyTests(Number.MAX_SAFE_INTEGER, runs.filter)
+            .filter((measure) => (measure.retryRecoveries || 0) > 0)
+            .slice(0, limit)
+        : flakinessAnalyzer.getMostFlakyTests(limit, runs.filter);
 
     res.json({
       success: true,
@@ -155,4 +301,125 @@ router.post("/update", (req, res) => {
   }
 });
 
+/**
+ * GET /api/test-metrics/owners
+ * Fasst die Tests pro Owner bzw. Team zusammen: Anzahl eigener Tests,
+ * instabile und fehlschlagende Tests sowie die durchschnittliche
+ * Erfolgsrate im Zeitraum (days, Standard: 14 Tage), optional nur für
+ * Läufe eines Branches bzw. Commit-Bereichs
+ */
+router.get("/owners", (req, res) => {
+  try {
+    const runs = getRunFilter(req.query);
+    if (runs.error) {
+      return res.status(400).json({ success: false, error: runs.error });
+    }
+
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 14;
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+
+    const ownership = TestOwnershipIndex.load(testAnalysisPath);
+    const periodRates = successRateTracker.getSuccessRatesForPeriod(
+      startDate,
+      new Date(),
+    );
+    const rates = runs.filter
+      ? successRateTracker.filterByRuns(periodRates, runs.filter)
+      : periodRates;
+
+    res.json({
+      success: true,
+      owners: ownership.summarize(
+        rates.testSuccessRates,
+        analyzeAllFlakiness(days, runs.filter),
+      ),
+      period: `${days} Tage`,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Owner-Übersicht:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Owner-Übersicht: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * GET /api/test-metrics/retention
+ * Gibt die geltende Aufbewahrungsrichtlinie für den Testverlauf zurück
+ */
+router.get("/retention", (req, res) => {
+  try {
+    const rates = successRateTracker.loadSuccessRates();
+
+    res.json({
+      success: true,
+      policy: successRateTracker.getRetentionPolicy(),
+      lastCompaction: rates.lastCompaction,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Abrufen der Aufbewahrungsrichtlinie:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Abrufen der Aufbewahrungsrichtlinie: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * PUT /api/test-metrics/retention
+ * Speichert die Aufbewahrungsrichtlinie
+ * ({ rawHistoryDays, maxRawEntries, maxAgeDays, projects: { [projekt]: {...} } })
+ */
+router.put("/retention", (req, res) => {
+  try {
+    const issues = validateRetentionPolicy(req.body);
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Ungültige Aufbewahrungsrichtlinie",
+        issues,
+      });
+    }
+
+    res.json({
+      success: true,
+      policy: successRateTracker.saveRetentionPolicy(req.body),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler beim Speichern der Aufbewahrungsrichtlinie:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler beim Speichern der Aufbewahrungsrichtlinie: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
+/**
+ * POST /api/test-metrics/retention/compact
+ * Verdichtet den Testverlauf sofort gemäß der Aufbewahrungsrichtlinie
+ */
+router.post("/retention/compact", (req, res) => {
+  try {
+    const result = successRateTracker.compactHistory();
+
+    res.json({
+      success: true,
+      result,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error("Fehler bei der Verdichtung des Testverlaufs:", error);
+    res.status(500).json({
+      success: false,
+      error: `Fehler bei der Verdichtung des Testverlaufs: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+});
+
 export default router;
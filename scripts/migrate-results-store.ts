@@ -0,0 +1,58 @@
+/**
+ * Migration der JSON-Ergebnisdateien in den Results-Store
+ *
+ * Importiert einmalig die bisherigen Testläufe, Erfolgsraten, den
+ * Flakiness-Bericht und die Testlauf-Historie nach `results/results.db`.
+ * Bereits importierte Daten werden übersprungen.
+ *
+ * Aufruf: npm run migrate:results -- [Basisverzeichnis]
+ */
+
+import * as path from "path";
+import { migrateJsonResults } from "../utils/storage/json-migration";
+import {
+  getResultsStore,
+  RESULTS_DB_FILENAME,
+} from "../utils/storage/results-store";
+
+// Logging-Funktion
+function log(message: string): void {
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] ${message}`);
+}
+
+function main(): void {
+  const baseDir = path.resolve(process.argv[2] || path.join(__dirname, ".."));
+  const store = getResultsStore(baseDir);
+
+  log(`Migriere JSON-Ergebnisse aus ${baseDir}`);
+  const report = migrateJsonResults(baseDir, store);
+
+  // Journal auf den aktuellen Stand verdichten
+  store.compact();
+
+  log(`Testläufe importiert: ${report.runsImported}`);
+  log(`Testläufe übersprungen (bereits vorhanden): ${report.runsSkipped}`);
+  log(
+    `Dokumente importiert: ${report.documentsImported.join(", ") || "keine"}`,
+  );
+
+  if (report.issues.length > 0) {
+    log(`\n${report.issues.length} Datei(en) konnten nicht importiert werden:`);
+    report.issues.forEach((issue) => log(`- ${issue.file}: ${issue.message}`));
+  }
+
+  log(
+    `\nMigration abgeschlossen: ${path.join(baseDir, "results", RESULTS_DB_FILENAME)}`,
+  );
+  log(
+    "Die JSON-Dateien wurden nicht verändert und können nach Prüfung entfernt werden.",
+  );
+
+  if (report.issues.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Skript ausführen
+main();
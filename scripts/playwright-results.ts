@@ -6,6 +6,7 @@
  */
 
 import {
+  PlaywrightShardInfo,
   PlaywrightTestResultFile,
   PlaywrightSingleTestResult,
   PlaywrightTestRunConfig,
@@ -28,12 +29,74 @@ export interface TestResultSummary {
   runId: string;
   timestamp: number;
   runName: string;
+  branch?: string;
+  commit?: string;
   success: boolean;
   testCount: number;
   metrics: PlaywrightTestMetrics;
+  shards?: PlaywrightShardInfo;
   filename: string;
 }
 
+/**
+ * Build, bei dem noch Shards ausstehen
+ */
+export interface PendingShardBuild {
+  buildId: string;
+  total: number;
+  received: number[];
+  missing: number[];
+  firstReceivedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Benannte Baseline für Laufvergleiche
+ */
+export interface RunBaseline {
+  name: string;
+  description?: string;
+  runId: string | null;
+  pinned: boolean;
+  rule?: {
+    branch?: string;
+    onlyPassing?: boolean;
+  };
+  updatedAt: number;
+}
+
+/**
+ * Möglicher Culprit-Commit eines neuen Fehlschlags
+ */
+export interface CulpritCommit {
+  commit: string;
+  author: string;
+  timestamp: number;
+  subject: string;
+  files: string[];
+  score: number;
+  reasons: Array<{
+    kind: "spec" | "pageObject" | "area";
+    file: string;
+    detail?: string;
+  }>;
+}
+
+/**
+ * Test, der nach dauerhaft bestandenem Verlauf fehlschlägt
+ */
+export interface NewFailure {
+  testId: string;
+  caseId: string;
+  title?: string;
+  project?: string;
+  lastGood: { runId: string; timestamp: number; commit?: string };
+  firstBad: { runId: string; timestamp: number; commit?: string };
+  passingRuns: number;
+  commits: CulpritCommit[];
+  issue?: string;
+}
+
 /**
  * Schnittstelle für Vergleichsergebnisse
  */
@@ -140,6 +203,32 @@ export async function loadTestResults(): Promise<TestResultSummary[]> {
   }
 }
 
+/**
+ * Lädt alle Builds, bei denen noch Shards ausstehen
+ *
+ * @returns Promise mit einer Liste offener Builds
+ */
+export async function loadPendingShardBuilds(): Promise<PendingShardBuild[]> {
+  try {
+    const response = await fetch("/api/playwright-results/shards");
+    const data = (await response.json()) as ApiResponse<{
+      pending: PendingShardBuild[];
+    }>;
+
+    if (!data.success) {
+      throw new Error(
+        data.error || "Unbekannter Fehler beim Laden der ausstehenden Shards",
+      );
+    }
+
+    return data.pending;
+  } catch (error) {
+    statusMessage = `Fehler beim Laden der ausstehenden Shards: ${error instanceof Error ? error.message : String(error)}`;
+    lastError = error instanceof Error ? error : new Error(String(error));
+    return [];
+  }
+}
+
 /**
  * Lädt ein bestimmtes Testergebnis
  *
@@ -207,7 +296,7 @@ export async function deleteTestResult(runId: string): Promise<boolean> {
  * Vergleicht zwei Testergebnisse
  *
  * @param runId1 - ID des ersten Testlaufs
- * @param runId2 - ID des zweiten Testlaufs
+ * @param runId2 - ID des zweiten Testlaufs oder Name einer Baseline
  * @returns Promise mit dem Vergleichsergebnis
  */
 export async function compareTestResults(
@@ -218,7 +307,7 @@ export async function compareTestResults(
     statusMessage = `Vergleiche Testergebnisse ${runId1} und ${runId2}...`;
 
     const response = await fetch(
-      `/api/playwright-results/compare/${runId1}/${runId2}`,
+      `/api/playwright-results/compare/${encodeURIComponent(runId1)}/${encodeURIComponent(runId2)}`,
     );
     const data = (await response.json()) as ApiResponse<{
       comparison: TestResultComparison;
@@ -239,6 +328,99 @@ export async function compareTestResults(
   }
 }
 
+/**
+ * Lädt alle benannten Baselines
+ *
+ * @returns Promise mit einer Liste der Baselines
+ */
+export async function loadBaselines(): Promise<RunBaseline[]> {
+  try {
+    const response = await fetch("/api/baselines");
+    const data = (await response.json()) as ApiResponse<{
+      baselines: RunBaseline[];
+    }>;
+
+    if (!data.success) {
+      throw new Error(
+        data.error || "Unbekannter Fehler beim Laden der Baselines",
+      );
+    }
+
+    return data.baselines;
+  } catch (error) {
+    statusMessage = `Fehler beim Laden der Baselines: ${error instanceof Error ? error.message : String(error)}`;
+    lastError = error instanceof Error ? error : new Error(String(error));
+    return [];
+  }
+}
+
+/**
+ * Heftet einen Testlauf als benannte Baseline an
+ *
+ * @param name - Name der Baseline (z.B. "release-2.3")
+ * @param runId - ID des Testlaufs
+ * @returns Promise mit der gespeicherten Baseline
+ */
+export async function pinBaseline(
+  name: string,
+  runId: string,
+): Promise<RunBaseline | null> {
+  try {
+    statusMessage = `Speichere Baseline ${name}...`;
+
+    const response = await fetch(`/api/baselines/${encodeURIComponent(name)}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ runId, pinned: true }),
+    });
+    const data = (await response.json()) as ApiResponse<{
+      baseline: RunBaseline;
+    }>;
+
+    if (!data.success) {
+      throw new Error(
+        data.error || "Unbekannter Fehler beim Speichern der Baseline",
+      );
+    }
+
+    statusMessage = `Baseline ${name} gespeichert`;
+    return data.baseline;
+  } catch (error) {
+    statusMessage = `Fehler beim Speichern der Baseline: ${error instanceof Error ? error.message : String(error)}`;
+    lastError = error instanceof Error ? error : new Error(String(error));
+    return null;
+  }
+}
+
+/**
+ * Lädt die neuen Fehlschläge eines Laufs mit ihren möglichen Culprit-Commits
+ *
+ * @param runId - ID des Testlaufs
+ * @returns Promise mit den neuen Fehlschlägen
+ */
+export async function loadCulprits(runId: string): Promise<NewFailure[]> {
+  try {
+    const response = await fetch(
+      `/api/failures/culprits/${encodeURIComponent(runId)}`,
+    );
+    const data = (await response.json()) as ApiResponse<{
+      failures: NewFailure[];
+    }>;
+
+    if (!data.success) {
+      throw new Error(
+        data.error || "Unbekannter Fehler beim Ermitteln der Culprit-Commits",
+      );
+    }
+
+    return data.failures;
+  } catch (error) {
+    statusMessage = `Fehler beim Ermitteln der Culprit-Commits: ${error instanceof Error ? error.message : String(error)}`;
+    lastError = error instanceof Error ? error : new Error(String(error));
+    return [];
+  }
+}
+
 /**
  * Konvertiert einen Zeitstempel in einen lesbaren String
  */
@@ -0,0 +1,159 @@
+/**
+ * Quality Gate für CI-Pipelines
+ *
+ * Bewertet einen hochgeladenen Testlauf anhand einer Gate-Richtlinie und
+ * beendet sich mit Exit-Code 1, wenn das Gate nicht bestanden ist (2 bei
+ * Fehlern wie unbekanntem Lauf oder ungültiger Richtlinie). Mit `--server`
+ * wird die API eines laufenden Dashboards verwendet, sonst der Results-Store
+ * im Basisverzeichnis.
+ *
+ * Aufruf: npm run quality-gate -- [--run <runId|latest>] [--baseline <runId|name>]
+ *   [--policy <datei.json>] [--output <datei.json>] [--server <url>]
+ *   [--base-dir <verzeichnis>]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import QualityGate, {
+  formatQualityGateResult,
+  QualityGatePolicy,
+  QualityGateResult,
+  validateQualityGatePolicy,
+} from "../utils/metrics/quality-gate";
+import TestQuarantine from "../utils/metrics/test-quarantine";
+
+interface QualityGateArgs {
+  run: string;
+  baseline?: string;
+  policy?: string;
+  output?: string;
+  server?: string;
+  baseDir: string;
+}
+
+// Logging-Funktion
+function log(message: string): void {
+  const timestamp = new Date().toISOString();
+  console.log(`[${timestamp}] ${message}`);
+}
+
+function parseArgs(argv: string[]): QualityGateArgs {
+  const args: QualityGateArgs = {
+    run: "latest",
+    baseDir: path.join(__dirname, ".."),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case "--run":
+        args.run = value;
+        break;
+      case "--baseline":
+        args.baseline = value;
+        break;
+      case "--policy":
+        args.policy = value;
+        break;
+      case "--output":
+        args.output = value;
+        break;
+      case "--server":
+        args.server = value;
+        break;
+      case "--base-dir":
+        args.baseDir = path.resolve(value);
+        break;
+      default:
+        throw new Error(`Unbekannte Option: ${argv[i]}`);
+    }
+    if (value === undefined) {
+      throw new Error(`Option ${argv[i]} erwartet einen Wert`);
+    }
+    i++;
+  }
+
+  return args;
+}
+
+function loadPolicy(file: string): QualityGatePolicy {
+  const policy = JSON.parse(fs.readFileSync(path.resolve(file), "utf-8"));
+  const issues = validateQualityGatePolicy(policy);
+  if (issues.length > 0) {
+    throw new Error(`Ungültige Gate-Richtlinie: ${issues.join("; ")}`);
+  }
+  return policy;
+}
+
+/**
+ * Wertet das Gate über die API eines laufenden Dashboards aus
+ */
+async function evaluateRemote(
+  args: QualityGateArgs,
+  policy?: QualityGatePolicy,
+): Promise<QualityGateResult> {
+  const url = `${args.server!.replace(/\/$/, "")}/api/playwright-results/${encodeURIComponent(args.run)}/quality-gate`;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ baseline: args.baseline, policy }),
+  });
+  const data = await response.json();
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Serverfehler: ${response.status}`);
+  }
+  return data.result;
+}
+
+/**
+ * Wertet das Gate direkt auf dem Results-Store aus
+ */
+function evaluateLocal(
+  args: QualityGateArgs,
+  policy?: QualityGatePolicy,
+): QualityGateResult {
+  const result = new QualityGate(args.baseDir).evaluate(args.run, {
+    baselineRunId: args.baseline,
+    policy,
+    isQuarantined: new TestQuarantine(args.baseDir).createMatcher(),
+  });
+
+  if (!result) {
+    throw new Error(
+      `Testlauf ${args.run}${args.baseline ? ` oder Baseline ${args.baseline}` : ""} wurde nicht gefunden`,
+    );
+  }
+  return result;
+}
+
+async function main(): Promise<void> {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const policy = args.policy ? loadPolicy(args.policy) : undefined;
+
+    const result = args.server
+      ? await evaluateRemote(args, policy)
+      : evaluateLocal(args, policy);
+
+    console.log(formatQualityGateResult(result));
+
+    if (args.output) {
+      fs.writeFileSync(
+        path.resolve(args.output),
+        JSON.stringify(result, null, 2),
+      );
+      log(`Ergebnis gespeichert: ${path.resolve(args.output)}`);
+    }
+
+    process.exitCode = result.passed ? 0 : 1;
+  } catch (error) {
+    log(
+      `Quality Gate konnte nicht ausgewertet werden: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exitCode = 2;
+  }
+}
+
+// Skript ausführen
+main();
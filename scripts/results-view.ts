@@ -8,10 +8,16 @@
 import {
   loadTestResults,
   loadTestResult,
+  loadPendingShardBuilds,
+  loadBaselines,
+  loadCulprits,
+  pinBaseline,
   deleteTestResult,
   compareTestResults,
   formatTimestamp,
   formatDuration,
+  NewFailure,
+  RunBaseline,
   TestResultSummary,
   TestResultComparison,
 } from "./playwright-results";
@@ -26,6 +32,7 @@ let statusElement: HTMLElement | null = null;
 
 // Aktuell geladene Daten
 let loadedResults: TestResultSummary[] = [];
+let loadedBaselines: RunBaseline[] = [];
 let selectedResult: PlaywrightTestResultFile | null = null;
 let comparisonResult: TestResultComparison | null = null;
 
@@ -62,17 +69,38 @@ async function loadResultsList(): Promise<void> {
   updateStatus("Lade Testergebnisse...");
 
   try {
-    loadedResults = await loadTestResults();
+    const [results, pendingBuilds, baselines] = await Promise.all([
+      loadTestResults(),
+      loadPendingShardBuilds(),
+      loadBaselines(),
+    ]);
+    loadedResults = results;
+    loadedBaselines = baselines;
+
+    // Builds, deren Shards noch nicht vollständig eingegangen sind
+    const pendingHtml = pendingBuilds
+      .map(
+        (build) => `
+        <div class="alert alert-warning py-2">
+          Build <strong>${build.buildId}</strong>: ${build.received.length}/${build.total} Shards eingegangen,
+          fehlend: ${build.missing.join(", ")} (Abschluss als Teillauf spätestens ${formatTimestamp(build.expiresAt)})
+        </div>
+      `,
+      )
+      .join("");
 
     if (loadedResults.length === 0) {
       resultsListElement.innerHTML =
+        pendingHtml +
         '<div class="alert alert-info">Keine gespeicherten Testergebnisse vorhanden</div>';
       updateStatus("Keine Testergebnisse gefunden");
       return;
     }
 
     // Tabelle erstellen
-    let html = `
+    let html =
+      pendingHtml +
+      `
       <table class="table table-hover">
         <thead>
           <tr>
@@ -88,9 +116,21 @@ async function loadResultsList(): Promise<void> {
     `;
 
     loadedResults.forEach((result) => {
+      // Baselines, die auf diesen Lauf zeigen
+      const baselineBadges = loadedBaselines
+        .filter((baseline) => baseline.runId === result.runId)
+        .map(
+          (baseline) =>
+            `<span class="badge bg-info text-dark" title="Baseline">${baseline.name}</span>`,
+        )
+        .join(" ");
       const successBadge = result.success
         ? '<span class="badge bg-success">Erfolg</span>'
         : '<span class="badge bg-danger">Fehler</span>';
+      const shardBadge =
+        result.shards && !result.shards.complete
+          ? `<span class="badge bg-warning text-dark" title="Fehlende Shards: ${result.shards.missing.join(", ")}">Teillauf ${result.shards.received.length}/${result.shards.total} Shards</span>`
+          : "";
 
       const passedRate =
         result.testCount > 0
@@ -100,8 +140,11 @@ async function loadResultsList(): Promise<void> {
       html += `
         <tr data-run-id="${result.runId}">
           <td>${formatTimestamp(result.timestamp)}</td>
-          <td>${result.runName}</td>
-          <td>${successBadge}</td>
+          <td>
+            ${result.runName} ${baselineBadges}
+            ${result.branch || result.commit ? `<div class="small text-muted">${[result.branch, result.commit?.slice(0, 7)].filter(Boolean).join(" @ ")}</div>` : ""}
+          </td>
+          <td>${successBadge} ${shardBadge}</td>
           <td>
             <span class="badge bg-success">${result.metrics.passed} bestanden</span>
             <span class="badge bg-danger">${result.metrics.failed} fehlgeschlagen</span>
@@ -210,6 +253,10 @@ async function showResultDetails(runId: string): Promise<void> {
       return;
     }
 
+    // Mögliche Ursachen nur für Läufe mit Fehlschlägen ermitteln
+    const newFailures =
+      selectedResult.metrics.failed > 0 ? await loadCulprits(runId) : [];
+
     // Detailansicht erstellen
     let html = `
       <div class="card mb-3">
@@ -257,10 +304,12 @@ async function showResultDetails(runId: string): Promise<void> {
                 <li class="list-group-item d-flex justify-content-between align-items-center">
                   Run-ID
                   <span class="text-monospace small">${selectedResult.runId}</span>
-                </li>
+                </li>${renderGitInfo(selectedResult)}${renderShardInfo(selectedResult)}
               </ul>
             </div>
           </div>
+          ${renderBaselineComparison(selectedResult)}
+          ${renderCulprits(newFailures)}
           
           <h6>Konfiguration</h6>
           <pre class="bg-light p-2"><code>${JSON.stringify(selectedResult.config, null, 2)}</code></pre>
@@ -302,12 +351,24 @@ async function showResultDetails(runId: string): Promise<void> {
         </div>
         <div class="card-footer">
           <button class="btn btn-secondary btn-back-to-list">Zurück zur Übersicht</button>
+          <button class="btn btn-outline-info btn-pin-baseline">Als Baseline festlegen</button>
         </div>
       </div>
     `;
 
     resultDetailElement.innerHTML = html;
 
+    // Event-Listener für das Anheften als Baseline
+    const pinButton = resultDetailElement.querySelector(".btn-pin-baseline");
+    if (pinButton) {
+      pinButton.addEventListener("click", async () => {
+        const name = prompt("Name der Baseline (z.B. release-2.3):");
+        if (name && name.trim()) {
+          await pinResultAsBaseline(name.trim(), runId);
+        }
+      });
+    }
+
     // Event-Listener für den Zurück-Button
     const backButton = resultDetailElement.querySelector(".btn-back-to-list");
     if (backButton) {
@@ -340,6 +401,157 @@ async function showResultDetails(runId: string): Promise<void> {
   }
 }
 
+/**
+ * Erzeugt die Listeneinträge zu Commit, Branch, Pull Request und CI-Job
+ */
+function renderGitInfo(result: PlaywrightTestResultFile): string {
+  if (!result.git) return "";
+
+  const { commit, branch, pullRequest, author, commitMessage, ciJobUrl } =
+    result.git;
+  const rows: Array<[string, string]> = [];
+
+  if (branch) rows.push(["Branch", branch]);
+  if (commit) {
+    rows.push([
+      "Commit",
+      `<span class="text-monospace small" title="${commitMessage || commit}">${commit.slice(0, 7)}</span>`,
+    ]);
+  }
+  if (pullRequest) rows.push(["Pull Request", `#${pullRequest}`]);
+  if (author) rows.push(["Autor", author]);
+  if (ciJobUrl) {
+    rows.push([
+      "CI-Job",
+      `<a href="${ciJobUrl}" target="_blank" rel="noopener">öffnen</a>`,
+    ]);
+  }
+
+  return rows
+    .map(
+      ([label, value]) => `
+                <li class="list-group-item d-flex justify-content-between align-items-center">
+                  ${label}
+                  <span>${value}</span>
+                </li>`,
+    )
+    .join("");
+}
+
+/**
+ * Erzeugt die Listeneinträge zu den Shards eines zusammengeführten Laufs
+ */
+function renderShardInfo(result: PlaywrightTestResultFile): string {
+  if (!result.shards) return "";
+
+  const { buildId, total, received, missing, complete } = result.shards;
+
+  return `
+                <li class="list-group-item d-flex justify-content-between align-items-center">
+                  Build
+                  <span class="text-monospace small">${buildId}</span>
+                </li>
+                <li class="list-group-item d-flex justify-content-between align-items-center">
+                  Shards
+                  <span class="badge ${complete ? "bg-success" : "bg-warning text-dark"} rounded-pill">
+                    ${received.length}/${total}${complete ? "" : ` – Teillauf, fehlend: ${missing.join(", ")}`}
+                  </span>
+                </li>`;
+}
+
+/**
+ * Erzeugt die Zusammenfassung des Vergleichs mit der Branch-Baseline,
+ * der beim Speichern des Laufs berechnet wurde
+ */
+function renderBaselineComparison(result: PlaywrightTestResultFile): string {
+  if (!result.baselineComparison) return "";
+
+  const { baseline, baselineRunId, passRateChange, durationChange } =
+    result.baselineComparison;
+  const { newFailures, fixedTests } = result.baselineComparison;
+  const sign = (value: number) => (value > 0 ? "+" : "");
+
+  return `
+          <h6>Vergleich mit Baseline ${baseline}</h6>
+          <div class="alert ${newFailures > 0 ? "alert-danger" : "alert-success"} py-2">
+            Erfolgsrate ${sign(passRateChange)}${passRateChange.toFixed(1)}%,
+            Dauer ${durationChange < 0 ? "-" : "+"}${formatDuration(Math.abs(durationChange))},
+            ${newFailures} neue Fehlschläge, ${fixedTests} behobene Tests
+            <span class="small text-muted">(Lauf ${baselineRunId})</span>
+          </div>`;
+}
+
+/**
+ * Erzeugt die Übersicht der neuen Fehlschläge mit den wahrscheinlichsten
+ * Culprit-Commits zwischen letztem erfolgreichen und erstem fehlgeschlagenen Lauf
+ */
+function renderCulprits(failures: NewFailure[]): string {
+  if (failures.length === 0) return "";
+
+  const reasonLabels = {
+    spec: "Testdatei",
+    pageObject: "Page Object",
+    area: "Funktionsbereich",
+  };
+
+  const items = failures
+    .map((failure) => {
+      const range = `${failure.lastGood.commit?.slice(0, 7) || "?"}..${failure.firstBad.commit?.slice(0, 7) || "?"}`;
+      const details = failure.issue
+        ? `<div class="small text-muted">${failure.issue}</div>`
+        : `<ol class="mb-0">${failure.commits
+            .slice(0, 5)
+            .map(
+              (commit) => `
+              <li class="${commit.score > 0 ? "" : "text-muted"}">
+                <span class="text-monospace small">${commit.commit.slice(0, 7)}</span>
+                ${commit.subject} <span class="small text-muted">(${commit.author})</span>
+                ${commit.reasons
+                  .map(
+                    (reason) =>
+                      `<span class="badge bg-warning text-dark" title="${reason.detail || reason.file}">${reasonLabels[reason.kind]}: ${reason.file}</span>`,
+                  )
+                  .join(" ")}
+              </li>`,
+            )
+            .join("")}</ol>`;
+
+      return `
+            <li class="list-group-item">
+              <strong>${failure.title || failure.testId}</strong>${failure.project ? ` <span class="badge bg-secondary">${failure.project}</span>` : ""}
+              <div class="small text-muted">
+                Zuletzt bestanden in Lauf ${failure.lastGood.runId} (${failure.passingRuns}× in Folge),
+                zuerst fehlgeschlagen in Lauf ${failure.firstBad.runId} – Commits ${range}
+              </div>
+              ${details}
+            </li>`;
+    })
+    .join("");
+
+  return `
+          <h6>Mögliche Ursachen neuer Fehlschläge</h6>
+          <ul class="list-group mb-3">${items}
+          </ul>`;
+}
+
+/**
+ * Heftet einen Lauf als benannte Baseline an
+ */
+async function pinResultAsBaseline(name: string, runId: string): Promise<void> {
+  updateStatus(`Speichere Baseline ${name}...`);
+
+  const baseline = await pinBaseline(name, runId);
+  if (baseline) {
+    loadedBaselines = [
+      ...loadedBaselines.filter((entry) => entry.name !== name),
+      baseline,
+    ];
+    updateStatus(`Lauf ${runId} als Baseline ${name} festgelegt`);
+  } else {
+    updateStatus(`Baseline ${name} konnte nicht gespeichert werden`);
+  }
+}
+
 /**
  * Zeigt die Auswahl für den Vergleich von Testergebnissen
  */
@@ -373,6 +585,20 @@ function showComparisonSelection(baseRunId: string): void {
             <option value="">-- Testergebnis auswählen --</option>
   `;
 
+  // Baselines werden über ihren Namen verglichen und folgen so ihrer Regel
+  const baselineOptions = loadedBaselines.filter(
+    (baseline) => baseline.runId && baseline.runId !== baseRunId,
+  );
+  if (baselineOptions.length > 0) {
+    html += '<optgroup label="Baselines">';
+    baselineOptions.forEach((baseline) => {
+      html += `
+      <option value="${baseline.name}">${baseline.name}${baseline.pinned ? " (angeheftet)" : ""}</option>
+    `;
+    });
+    html += '</optgroup><optgroup label="Testläufe">';
+  }
+
   loadedResults.forEach((result) => {
     // Nicht mit sich selbst vergleichen
     if (result.runId === baseRunId) return;
@@ -383,6 +609,7 @@ function showComparisonSelection(baseRunId: string): void {
   });
 
   html += `
+          ${baselineOptions.length > 0 ? "</optgroup>" : ""}
           </select>
         </div>
       </div>
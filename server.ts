@@ -6,6 +6,7 @@
  */
 
 import { createServer, IncomingMessage, ServerResponse } from "http";
+import { startHistoryCompaction } from "./routes/test-metrics";
 
 // Importieren des bestehenden JavaScript-Servers
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -51,6 +52,9 @@ function startServer(port: number): void {
   server.listen(port, HOST, () => {
     console.log(`Server läuft auf http://${HOST}:${port}`);
     console.log(`Dashboard verfügbar unter http://${HOST}:${port}`);
+
+    // Alten Testverlauf täglich zu Tagesaggregaten verdichten
+    startHistoryCompaction();
   });
 }
 
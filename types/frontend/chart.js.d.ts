@@ -19,22 +19,32 @@ declare class Chart {
   static getChart(canvas: HTMLCanvasElement): Chart | undefined;
 }
 
+// Diagrammtypen
+type ChartType = 'bar' | 'line' | 'pie' | 'doughnut' | 'radar' | 'polarArea' | 'bubble' | 'scatter';
+
 // Chart-Konfiguration
 interface ChartConfiguration {
-  type: 'bar' | 'line' | 'pie' | 'doughnut' | 'radar' | 'polarArea' | 'bubble' | 'scatter';
+  type: ChartType;
   data: ChartData;
   options?: ChartOptions;
 }
 
+// Datenpunkt in Streudiagrammen (ggf. um eigene Felder erweitert)
+interface ScatterDataPoint {
+  x: number;
+  y: number;
+}
+
 // Chart-Daten
 interface ChartData {
   labels?: Array<string>;
-  datasets: Array<ChartDataset>;
+  datasets: Array<ChartDataset<ChartType, Array<number | ScatterDataPoint | null | undefined>>>;
 }
 
-// Dataset-Konfiguration
-interface ChartDataset {
-  data: Array<number | null | undefined>;
+// Dataset-Konfiguration (TData: Werte bzw. Datenpunkte des Datensatzes)
+interface ChartDataset<TType extends ChartType = ChartType, TData = Array<number | null | undefined>> {
+  type?: TType;
+  data: TData;
   label?: string;
   backgroundColor?: string | string[];
   borderColor?: string | string[];
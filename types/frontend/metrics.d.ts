@@ -6,6 +6,7 @@
 // Erfolgsraten-Typen
 interface SuccessRate {
   testName: string;
+  project?: string;  // Playwright-Projekt bzw. Browser
   successRate: number;  // Prozentsatz (0-100)
   trend: 'up' | 'down' | 'stable';
   lastRun?: {
@@ -18,6 +19,12 @@ interface SuccessRate {
 interface SuccessRateResponse {
   success: boolean;
   testSuccessRates: SuccessRate[];
+  project?: string;
+  owner?: string;  // Owner bzw. Team, auf das die Erfolgsraten beschränkt sind
+  owners?: string[];  // Alle bekannten Owner ("unowned" für Tests ohne Owner)
+  quarantined?: { testSuccessRates: SuccessRate[] };  // Tests unter Quarantäne, nicht in der Gesamtrate
+  projectBreakdown?: ProjectSuccessRateSummary[];
+  projectComparison?: ProjectComparison;
   message?: string;
   error?: string;
 }
@@ -35,15 +42,81 @@ interface SuccessTrendResponse {
   error?: string;
 }
 
+// Projekt-/Browser-Vergleich
+interface ProjectSuccessRateSummary {
+  project: string;
+  overallSuccessRate: number;
+  totalTests: number;
+  totalRuns: number;
+  flakyRuns: number;
+}
+
+interface ProjectFlakinessSummary {
+  project: string;
+  overallFlakinessScore: number;
+  totalTestsAnalyzed: number;
+  flakyTestsCount: number;
+  retryRecoveredTestsCount: number;
+}
+
+interface ProjectComparison {
+  projects: string[];
+  rows: Array<{
+    testId: string;
+    testName: string;
+    values: Record<string, number>;  // Kennwert pro Projekt
+    spread: number;  // Abweichung zwischen bestem und schlechtestem Projekt
+  }>;
+}
+
+// Übersicht pro Owner bzw. Team
+interface OwnerSummary {
+  owner: string;
+  ownedTests: number;
+  testsWithRuns: number;
+  flakyTests: number;
+  failingTests: number;
+  averageSuccessRate: number | null;  // Prozentsatz (0-100), null ohne Laufzeitdaten
+}
+
+interface OwnerSummaryResponse {
+  success: boolean;
+  owners: OwnerSummary[];
+  period?: string;
+  error?: string;
+}
+
+// Quarantäne für instabile Tests
+interface QuarantineEntry {
+  testId: string;
+  project?: string;
+  title?: string;
+  reason: string;
+  owner?: string;
+  source: 'manual' | 'automatic';
+  quarantinedAt: number;
+  expiresAt?: number;
+  flakinessScore?: number;
+}
+
+interface QuarantineResponse {
+  success: boolean;
+  entries: QuarantineEntry[];
+  error?: string;
+}
+
 // Flakiness-Typen
 interface FlakinessMeasure {
   testName: string;
+  project?: string;
   flakinessScore: number;  // Prozentsatz (0-100)
   statusChanges: number;
   runCount: number;
   durationVariance?: number;
   detectedPatterns: string[];
   recommendations: string[];
+  retryRecoveries?: number;  // Läufe, die erst bei einer Wiederholung bestanden haben
+  lastStatus?: string;
 }
 
 interface TestRun {
@@ -65,6 +138,18 @@ interface FlakinessReport {
     end: string;
   };
   flakinessMeasures: FlakinessMeasure[];
+  retryRecoveredTestsCount?: number;
+  project?: string;
+  owner?: string;
+  owners?: string[];
+  projectBreakdown?: ProjectFlakinessSummary[];
+  projectComparison?: ProjectComparison;
+  statusCounts?: {
+    passed: number;
+    flaky: number;  // Bei Wiederholung bestanden
+    failed: number;
+    skipped: number;
+  };
   message?: string;
   error?: string;
 }
@@ -103,3 +188,84 @@ interface APIFunctions {
   loadFlakinessReport: () => Promise<void>;
   loadFlakyTests: () => Promise<void>;
 }
+
+// Fehlercluster-Typen
+interface FailureClusterTest {
+  testId: string;
+  title?: string;
+  project?: string;
+  occurrences: number;
+  firstSeen: number;
+  lastSeen: number;
+  lastRunId: string;
+}
+
+interface FailureCluster {
+  signature: string;
+  message: string;  // Normalisierte Fehlermeldung
+  frame?: string;  // Normalisierter oberster Stackframe
+  sampleMessage: string;
+  sampleStack?: string;
+  occurrences: number;
+  runCount: number;
+  firstSeen: number;
+  lastSeen: number;
+  affectedTests: FailureClusterTest[];
+}
+
+interface FailureClustersResponse {
+  success: boolean;
+  clusters: FailureCluster[];
+  totalFailures: number;
+  runsAnalyzed: number;
+  project?: string;
+  runId?: string;
+  timePeriod: {
+    start: number;
+    end: number;
+  };
+  message?: string;
+  error?: string;
+}
+
+// Redundanz-Check-Typen
+interface RedundancyStep {
+  kind: 'action' | 'assertion';
+  signature: string;
+  line: number;
+}
+
+interface RedundancyTestRef {
+  testId: string;
+  file: string;
+  title: string;
+  line: number;
+  steps: RedundancyStep[];
+}
+
+interface RedundancyPair {
+  kind: 'duplicate-steps' | 'assertion-subset';
+  similarity: number;  // 0-1
+  first: RedundancyTestRef;  // Bei 'assertion-subset' der Test mit der Teilmenge
+  second: RedundancyTestRef;
+  sharedSteps: number;
+  alignment: Array<{ first?: RedundancyStep; second?: RedundancyStep; shared: boolean }>;
+}
+
+interface RedundancySetupGroup {
+  fingerprint: string;
+  kind: string;
+  statementCount: number;
+  occurrences: Array<{ file: string; line: number; column: number }>;
+}
+
+interface RedundancyResponse {
+  success: boolean;
+  duplicates: {
+    testsAnalyzed: number;
+    threshold: number;
+    pairs: RedundancyPair[];
+    setupGroups: RedundancySetupGroup[];
+  };
+  error?: string;
+}
@@ -5,6 +5,8 @@
  * für persistente Speicherung und Vergleich
  */
 
+import { BaselineComparisonSummary } from "./test-changes";
+
 export interface PlaywrightTestResultFile {
   /**
    * Eindeutige ID für diesen Testlauf
@@ -21,6 +23,16 @@ export interface PlaywrightTestResultFile {
    */
   runName?: string;
 
+  /**
+   * Branch, auf dem der Lauf ausgeführt wurde
+   */
+  branch?: string;
+
+  /**
+   * Git- und CI-Metadaten (Commit, Pull Request, Autor, CI-Job)
+   */
+  git?: RunGitMetadata;
+
   /**
    * Gesamtergebnis des Testlaufs
    */
@@ -40,6 +52,85 @@ export interface PlaywrightTestResultFile {
    * Standardisierte Metriken für Vergleichszwecke
    */
   metrics: PlaywrightTestMetrics;
+
+  /**
+   * Globale Fehler des Testlaufs (z.B. Ladefehler einer Testdatei)
+   */
+  errors?: Array<{ message: string; location?: PlaywrightTestLocation }>;
+
+  /**
+   * Shard-Informationen, wenn der Lauf aus mehreren Shards zusammengeführt wurde
+   */
+  shards?: PlaywrightShardInfo;
+
+  /**
+   * Vergleich mit der Baseline des Branches, erstellt beim Speichern
+   */
+  baselineComparison?: BaselineComparisonSummary;
+}
+
+export interface RunGitMetadata {
+  /**
+   * Commit-SHA, gegen den getestet wurde
+   */
+  commit?: string;
+
+  /**
+   * Branch des Commits
+   */
+  branch?: string;
+
+  /**
+   * Nummer des Pull Requests bzw. Merge Requests
+   */
+  pullRequest?: string;
+
+  /**
+   * Autor des Commits bzw. Auslöser des CI-Jobs
+   */
+  author?: string;
+
+  /**
+   * Erste Zeile der Commit-Nachricht
+   */
+  commitMessage?: string;
+
+  /**
+   * CI-System, aus dessen Umgebung die Daten stammen (z.B. "github-actions")
+   */
+  ciProvider?: string;
+
+  /**
+   * Link auf den CI-Job
+   */
+  ciJobUrl?: string;
+}
+
+export interface PlaywrightShardInfo {
+  /**
+   * Gemeinsamer Build-/Laufschlüssel aller Shards
+   */
+  buildId: string;
+
+  /**
+   * Erwartete Anzahl der Shards
+   */
+  total: number;
+
+  /**
+   * Eingegangene Shard-Indizes (1-basiert)
+   */
+  received: number[];
+
+  /**
+   * Fehlende Shard-Indizes (1-basiert)
+   */
+  missing: number[];
+
+  /**
+   * true, wenn alle Shards eingegangen sind; false bei Abschluss per Timeout
+   */
+  complete: boolean;
 }
 
 export interface PlaywrightSingleTestResult {
@@ -55,20 +146,58 @@ export interface PlaywrightSingleTestResult {
 
   /**
    * Status des Tests (passed, failed, skipped, etc.)
+   * "flaky" = fehlgeschlagen, aber bei einer Wiederholung im selben Lauf bestanden
    */
-  status: "passed" | "failed" | "skipped" | "timed-out" | "interrupted";
+  status:
+    | "passed"
+    | "flaky"
+    | "failed"
+    | "skipped"
+    | "timed-out"
+    | "interrupted";
 
   /**
    * Dauer des Tests in Millisekunden
    */
   duration: number;
 
+  /**
+   * Titel des einzelnen Testfalls (test("..."))
+   */
+  title?: string;
+
+  /**
+   * Verschachtelte describe-Titel oberhalb des Testfalls
+   */
+  titlePath?: string[];
+
+  /**
+   * Name des Playwright-Projekts (z.B. chromium, webkit)
+   */
+  projectName?: string;
+
+  /**
+   * Position des Testfalls in der Testdatei
+   */
+  location?: PlaywrightTestLocation;
+
+  /**
+   * Anzahl der Wiederholungsversuche (0 = nur ein Versuch)
+   */
+  retries?: number;
+
+  /**
+   * Ergebnisse der einzelnen Versuche in Ausführungsreihenfolge
+   */
+  attempts?: PlaywrightTestAttempt[];
+
   /**
    * Fehlerdetails, falls vorhanden
    */
   error?: {
     message: string;
     stack?: string;
+    location?: PlaywrightTestLocation;
   };
 
   /**
@@ -76,12 +205,75 @@ export interface PlaywrightSingleTestResult {
    */
   screenshots?: string[];
 
+  /**
+   * Anhänge des Tests (Traces, Videos, Screenshots als Dateipfad)
+   */
+  attachments?: PlaywrightTestAttachment[];
+
   /**
    * Konsolenausgabe des Tests
    */
   output?: string;
 }
 
+export interface PlaywrightTestAttempt {
+  /**
+   * Nummer des Versuchs (0 = erster Versuch)
+   */
+  retry: number;
+
+  /**
+   * Status dieses Versuchs
+   */
+  status: "passed" | "failed" | "skipped" | "timed-out" | "interrupted";
+
+  /**
+   * Dauer dieses Versuchs in Millisekunden
+   */
+  duration: number;
+
+  /**
+   * Fehlermeldung dieses Versuchs, falls vorhanden
+   */
+  error?: {
+    message: string;
+  };
+}
+
+export interface PlaywrightTestLocation {
+  /**
+   * Datei relativ zum Testverzeichnis
+   */
+  file: string;
+
+  /**
+   * Zeilennummer (1-basiert)
+   */
+  line: number;
+
+  /**
+   * Spaltennummer (1-basiert)
+   */
+  column: number;
+}
+
+export interface PlaywrightTestAttachment {
+  /**
+   * Name des Anhangs (z.B. screenshot, trace, video)
+   */
+  name: string;
+
+  /**
+   * MIME-Typ des Anhangs
+   */
+  contentType: string;
+
+  /**
+   * Dateipfad, falls der Anhang auf der Festplatte liegt
+   */
+  path?: string;
+}
+
 export interface PlaywrightTestRunConfig {
   /**
    * Headless-Modus
@@ -120,6 +312,11 @@ export interface PlaywrightTestMetrics {
    */
   skipped: number;
 
+  /**
+   * Anzahl der Tests, die erst bei einer Wiederholung bestanden haben
+   */
+  flaky?: number;
+
   /**
    * Erfolgsrate in Prozent
    */
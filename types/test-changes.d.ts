@@ -9,6 +9,7 @@
  */
 export type TestStatus =
   | "passed"
+  | "flaky"
   | "failed"
   | "skipped"
   | "timed-out"
@@ -25,6 +26,16 @@ export interface TestChange {
    */
   filename: string;
 
+  /**
+   * Titel des Testfalls, falls die Ergebnisse pro Testfall vorliegen
+   */
+  title?: string;
+
+  /**
+   * Playwright-Projekt bzw. Browser des Tests
+   */
+  project?: string;
+
   /**
    * Status im vorherigen Testlauf
    */
@@ -70,3 +81,38 @@ export interface TestComparison {
     skipRateChange: number;
   };
 }
+
+/**
+ * Kurzfassung des Vergleichs eines Laufs mit einer benannten Baseline
+ */
+export interface BaselineComparisonSummary {
+  /**
+   * Name der Baseline
+   */
+  baseline: string;
+
+  /**
+   * ID des Baseline-Laufs
+   */
+  baselineRunId: string;
+
+  /**
+   * Änderung der Erfolgsrate in Prozentpunkten
+   */
+  passRateChange: number;
+
+  /**
+   * Änderung der Gesamtlaufzeit in Millisekunden
+   */
+  durationChange: number;
+
+  /**
+   * Tests, die in der Baseline nicht fehlgeschlagen sind, jetzt aber schon
+   */
+  newFailures: number;
+
+  /**
+   * Tests, die in der Baseline fehlgeschlagen sind und jetzt bestehen
+   */
+  fixedTests: number;
+}
@@ -0,0 +1,301 @@
+/**
+ * Redundanz-Check
+ *
+ * Sucht in den Analysedaten des TestAnalyzers nach Testfällen, die sich kaum
+ * unterscheiden: gleiche Abfolge von Selektor-Aktionen und Assertions,
+ * identische beforeEach-/beforeAll-Hooks in mehreren Dateien sowie Tests,
+ * deren Assertions eine echte Teilmenge der Assertions eines anderen Tests
+ * sind. Die Ähnlichkeit zweier Abfolgen ergibt sich aus der längsten
+ * gemeinsamen Teilfolge (LCS) der Schritte.
+ */
+
+import { TestMetadata } from "../test-analyzer";
+
+export type TestStepKind = "action" | "assertion";
+
+export type DuplicateKind = "duplicate-steps" | "assertion-subset";
+
+// Ein Schritt eines Testfalls: Aktion auf einem Selektor oder Assertion
+export interface TestStep {
+  kind: TestStepKind;
+  signature: string; // Vergleichswert, z.B. 'click role=button[name="Speichern"]'
+  line: number;
+}
+
+// Ein Testfall eines Paares
+export interface DuplicateTestRef {
+  testId: string; // ID des Testfalls (Datei › describe-Pfad › Titel)
+  file: string;
+  title: string;
+  line: number;
+  steps: TestStep[];
+}
+
+// Eine Zeile der Gegenüberstellung; fehlt eine Seite, hat nur ein Test den Schritt
+export interface StepAlignment {
+  first?: TestStep;
+  second?: TestStep;
+  shared: boolean;
+}
+
+export interface DuplicateTestPair {
+  kind: DuplicateKind;
+  similarity: number; // 0-1
+  first: DuplicateTestRef; // Bei 'assertion-subset' der Test mit der Teilmenge
+  second: DuplicateTestRef;
+  sharedSteps: number;
+  alignment: StepAlignment[];
+}
+
+// Ein Hook, der in mehreren Dateien identisch vorkommt
+export interface DuplicateSetupGroup {
+  fingerprint: string;
+  kind: string; // 'beforeEach' oder 'beforeAll'
+  statementCount: number;
+  occurrences: Array<{ file: string; line: number; column: number }>;
+}
+
+export interface DuplicateDetectionOptions {
+  threshold?: number; // Mindestähnlichkeit für 'duplicate-steps' (Standard: 0.8)
+  minSteps?: number; // Tests mit weniger Schritten werden nicht verglichen (Standard: 2)
+}
+
+export interface DuplicateReport {
+  testsAnalyzed: number;
+  threshold: number;
+  pairs: DuplicateTestPair[]; // Ähnlichste zuerst
+  setupGroups: DuplicateSetupGroup[]; // Häufigste zuerst
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+// Selektorverwendungen, die keine eigene Aktion sind
+const NON_ACTION_USAGES = ["locate", "assert"];
+
+/**
+ * Ermittelt die Schritte eines Testfalls in Quelltextreihenfolge
+ */
+export function getTestSteps(test: TestMetadata): TestStep[] {
+  const actions = (test.selectors || [])
+    .filter((selector) => !NON_ACTION_USAGES.includes(selector.usage))
+    .map((selector) => ({
+      kind: "action" as const,
+      signature: `${selector.usage} ${selector.type}=${selector.value}`,
+      line: selector.line,
+      column: selector.column,
+    }));
+  const assertions = (test.assertions || []).map((assertion) => ({
+    kind: "assertion" as const,
+    signature: normalizeCode(assertion.condition),
+    line: assertion.line,
+    column: assertion.column,
+  }));
+
+  return [...actions, ...assertions]
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+    .map(({ kind, signature, line }) => ({ kind, signature, line }));
+}
+
+/**
+ * Stellt zwei Schrittfolgen über die längste gemeinsame Teilfolge gegenüber
+ *
+ * @returns Ähnlichkeit (2 × gemeinsame Schritte / alle Schritte) und Gegenüberstellung
+ */
+export function alignSteps(
+  first: TestStep[],
+  second: TestStep[],
+): { similarity: number; sharedSteps: number; alignment: StepAlignment[] } {
+  // lengths[i][j] = LCS der Reste first[i..] und second[j..]
+  const lengths = Array.from({ length: first.length + 1 }, () =>
+    new Array<number>(second.length + 1).fill(0),
+  );
+  for (let i = first.length - 1; i >= 0; i--) {
+    for (let j = second.length - 1; j >= 0; j--) {
+      lengths[i][j] = isSameStep(first[i], second[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const alignment: StepAlignment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < first.length || j < second.length) {
+    if (
+      i < first.length &&
+      j < second.length &&
+      isSameStep(first[i], second[j])
+    ) {
+      alignment.push({ first: first[i++], second: second[j++], shared: true });
+    } else if (
+      j >= second.length ||
+      (i < first.length && lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      alignment.push({ first: first[i++], shared: false });
+    } else {
+      alignment.push({ second: second[j++], shared: false });
+    }
+  }
+
+  const sharedSteps = lengths[0][0];
+  const totalSteps = first.length + second.length;
+
+  return {
+    similarity: totalSteps > 0 ? (2 * sharedSteps) / totalSteps : 0,
+    sharedSteps,
+    alignment,
+  };
+}
+
+/**
+ * Sucht nahezu doppelte Testfälle und kopierte Setup-Blöcke
+ *
+ * @param metadata - Testfälle aus dem TestAnalyzer
+ * @param options - Mindestähnlichkeit und Mindestanzahl an Schritten
+ */
+export function findDuplicateTests(
+  metadata: TestMetadata[],
+  options: DuplicateDetectionOptions = {},
+): DuplicateReport {
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const minSteps = options.minSteps ?? 2;
+  const tests = metadata.map((test) => ({
+    ref: {
+      testId: test.id || test.file,
+      file: test.file,
+      title: test.title || test.name,
+      line: test.line,
+      steps: getTestSteps(test),
+    },
+    assertions: new Set(
+      (test.assertions || []).map((assertion) =>
+        normalizeCode(assertion.condition),
+      ),
+    ),
+  }));
+  const pairs: DuplicateTestPair[] = [];
+
+  for (let a = 0; a < tests.length; a++) {
+    for (let b = a + 1; b < tests.length; b++) {
+      const first = tests[a];
+      const second = tests[b];
+
+      if (
+        first.ref.steps.length >= minSteps &&
+        second.ref.steps.length >= minSteps
+      ) {
+        const result = alignSteps(first.ref.steps, second.ref.steps);
+        if (result.similarity >= threshold) {
+          pairs.push({
+            kind: "duplicate-steps",
+            first: first.ref,
+            second: second.ref,
+            ...result,
+          });
+          continue;
+        }
+      }
+
+      // Der Test mit der Teilmenge steht immer vorne
+      const [subset, superset] =
+        first.assertions.size <= second.assertions.size
+          ? [first, second]
+          : [second, first];
+      if (isStrictSubset(subset.assertions, superset.assertions)) {
+        const result = alignSteps(
+          subset.ref.steps.filter((step) => step.kind === "assertion"),
+          superset.ref.steps.filter((step) => step.kind === "assertion"),
+        );
+        pairs.push({
+          kind: "assertion-subset",
+          first: subset.ref,
+          second: superset.ref,
+          ...result,
+          similarity: subset.assertions.size / superset.assertions.size,
+        });
+      }
+    }
+  }
+
+  return {
+    testsAnalyzed: metadata.length,
+    threshold,
+    pairs: pairs.sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        b.sharedSteps - a.sharedSteps ||
+        a.first.testId.localeCompare(b.first.testId),
+    ),
+    setupGroups: findDuplicateSetupBlocks(metadata),
+  };
+}
+
+/**
+ * Gruppiert gleiche Hooks, die in mindestens zwei Dateien vorkommen
+ * (leere Hooks zählen nicht)
+ */
+function findDuplicateSetupBlocks(
+  metadata: TestMetadata[],
+): DuplicateSetupGroup[] {
+  const groups = new Map<string, DuplicateSetupGroup>();
+
+  for (const test of metadata) {
+    for (const block of test.setupBlocks || []) {
+      if (block.statementCount === 0) continue;
+
+      const key = `${block.kind}:${block.fingerprint}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          fingerprint: block.fingerprint,
+          kind: block.kind,
+          statementCount: block.statementCount,
+          occurrences: [],
+        };
+        groups.set(key, group);
+      }
+
+      // Ein Hook gilt für alle Tests seines Blocks, zählt aber nur einmal
+      if (
+        !group.occurrences.some(
+          (occurrence) =>
+            occurrence.file === test.file && occurrence.line === block.line,
+        )
+      ) {
+        group.occurrences.push({
+          file: test.file,
+          line: block.line,
+          column: block.column,
+        });
+      }
+    }
+  }
+
+  return Array.from(groups.values())
+    .filter(
+      (group) =>
+        new Set(group.occurrences.map((occurrence) => occurrence.file)).size >
+        1,
+    )
+    .sort(
+      (a, b) =>
+        b.occurrences.length - a.occurrences.length ||
+        b.statementCount - a.statementCount,
+    );
+}
+
+function isSameStep(a: TestStep, b: TestStep): boolean {
+  return a.kind === b.kind && a.signature === b.signature;
+}
+
+function isStrictSubset(subset: Set<string>, superset: Set<string>): boolean {
+  return (
+    subset.size > 0 &&
+    subset.size < superset.size &&
+    Array.from(subset).every((entry) => superset.has(entry))
+  );
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,447 @@
+/**
+ * Feature-Abdeckung
+ *
+ * Gleicht ein Inventar der Anwendung (Routen, Seiten und Features) mit den
+ * Testfällen ab. Das Inventar steht in feature-inventory.json im
+ * Dashboard-Verzeichnis: als Liste von Features und/oder als Verweis auf eine
+ * Sitemap oder eine Routen-Datei, aus der die Routen ausgelesen werden. Ein
+ * Feature gilt als getestet, wenn ein Test seine Route mit page.goto besucht
+ * oder seinem Funktionsbereich zugeordnet ist. Der Bericht zeigt ungetestete,
+ * schwach abgedeckte (nur ein Test oder nur Smoke-Tests) und übertestete
+ * Features.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { TestMetadata } from "../test-analyzer";
+
+// Name des Inventars im Dashboard-Verzeichnis
+export const FEATURE_INVENTORY_FILE = "feature-inventory.json";
+
+export interface FeatureInventoryEntry {
+  name: string;
+  route?: string; // z.B. '/users/:id'; Parameter passen auf ein beliebiges Segment
+  area?: string; // Funktionsbereich laut Taxonomie
+}
+
+// Inhalt von feature-inventory.json; Pfade relativ zur Datei
+export interface FeatureInventoryConfig {
+  features?: Array<string | FeatureInventoryEntry>; // Texte sind Routen
+  sitemap?: string; // sitemap.xml, jede <loc> wird zu einer Route
+  routeFile?: string; // Routen-Datei (path/route-Eigenschaften, <Route path>)
+}
+
+export type FeatureCoverageStatus =
+  | "untested"
+  | "weak"
+  | "covered"
+  | "over-tested";
+
+export interface FeatureCoverageTest {
+  testId: string;
+  file: string;
+  title: string;
+  via: Array<"url" | "area">; // Besuchte Route und/oder Funktionsbereich
+  smoke: boolean;
+}
+
+export interface FeatureCoverageEntry extends FeatureInventoryEntry {
+  status: FeatureCoverageStatus;
+  reason?: string; // Begründung bei untested, weak und over-tested
+  tests: FeatureCoverageTest[];
+}
+
+export interface FeatureCoverageReport {
+  features: FeatureCoverageEntry[]; // Ungetestete zuerst, dann schwach, übertestet, abgedeckt
+  summary: Record<FeatureCoverageStatus, number> & {
+    total: number;
+    coverageRate: number; // Anteil der Features mit mindestens einem Test
+  };
+  unlistedUrls: Array<{ url: string; tests: number }>; // Besuchte Pfade ohne Feature im Inventar
+  overTestedThreshold: number;
+  testsAnalyzed: number;
+}
+
+export interface FeatureCoverageOptions {
+  overTestedThreshold?: number; // Mehr Tests als dieser Wert gelten als übertestet (Standard: 10)
+}
+
+/**
+ * Ungültiges Inventar (z.B. fehlerhaftes JSON oder fehlende Sitemap)
+ */
+export class FeatureInventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeatureInventoryError";
+  }
+}
+
+const STATUS_ORDER: FeatureCoverageStatus[] = [
+  "untested",
+  "weak",
+  "over-tested",
+  "covered",
+];
+
+/**
+ * Normalisiert eine URL auf ihren Pfad (ohne Origin, Query, Fragment und abschließendes "/")
+ */
+export function normalizeRoute(url: string): string {
+  const route = url
+    .trim()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+  return route.startsWith("/") ? route : `/${route}`;
+}
+
+/**
+ * Liest die Routen aus einer Sitemap (<loc>-Einträge)
+ */
+export function parseSitemap(xml: string): FeatureInventoryEntry[] {
+  const routes: string[] = [];
+  const locPattern = /<loc>\s*([^<]+?)\s*<\/loc>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = locPattern.exec(xml)) !== null) {
+    routes.push(normalizeRoute(match[1]));
+  }
+
+  return Array.from(new Set(routes)).map((route) => ({ name: route, route }));
+}
+
+/**
+ * Liest die Routen aus einer Routen-Datei
+ *
+ * Erkannt werden Eigenschaften path bzw. route mit absolutem Pfad in
+ * Objekten (z.B. { path: "/users/:id", name: "Benutzer" }) und das
+ * path-Attribut von JSX-Elementen (<Route path="/users" />). Der Name kommt
+ * aus name oder title desselben Objekts, sonst aus der Route.
+ */
+export function parseRouteFile(
+  content: string,
+  fileName: string = "routes.ts",
+): FeatureInventoryEntry[] {
+  const extension = path.extname(fileName).toLowerCase();
+  const scriptKind =
+    extension === ".json"
+      ? ts.ScriptKind.JSON
+      : extension === ".tsx" || extension === ".jsx"
+        ? ts.ScriptKind.TSX
+        : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind,
+  );
+  const entries: FeatureInventoryEntry[] = [];
+
+  const addRoute = (route: string | null, name?: string | null) => {
+    if (route && route.startsWith("/")) {
+      const normalized = normalizeRoute(route);
+      entries.push({ name: name || normalized, route: normalized });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isObjectLiteralExpression(node)) {
+      const values: Record<string, string | null> = {};
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          const key = getPropertyName(property.name);
+          if (key) values[key] = getStringValue(property.initializer);
+        }
+      }
+      addRoute(
+        values.path ?? values.route ?? null,
+        values.name ?? values.title,
+      );
+    } else if (
+      ts.isJsxAttribute(node) &&
+      ts.isIdentifier(node.name) &&
+      node.name.text === "path" &&
+      node.initializer
+    ) {
+      addRoute(
+        getStringValue(
+          ts.isJsxExpression(node.initializer)
+            ? node.initializer.expression
+            : node.initializer,
+        ),
+      );
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return uniqueByRoute(entries);
+}
+
+/**
+ * Stellt das Inventar aus Liste, Sitemap und Routen-Datei zusammen
+ *
+ * @param config - Inhalt von feature-inventory.json
+ * @param baseDir - Verzeichnis, auf das sich sitemap und routeFile beziehen
+ * @throws FeatureInventoryError bei ungültigen Einträgen oder fehlenden Dateien
+ */
+export function resolveFeatureInventory(
+  config: FeatureInventoryConfig,
+  baseDir: string,
+): FeatureInventoryEntry[] {
+  if (!config || typeof config !== "object") {
+    throw new FeatureInventoryError("Das Inventar muss ein Objekt sein");
+  }
+  if (!config.features && !config.sitemap && !config.routeFile) {
+    throw new FeatureInventoryError(
+      "Das Inventar benötigt features, sitemap oder routeFile",
+    );
+  }
+  if (config.features !== undefined && !Array.isArray(config.features)) {
+    throw new FeatureInventoryError("features muss eine Liste sein");
+  }
+
+  const entries: FeatureInventoryEntry[] = (config.features || []).map(
+    (feature, index) => {
+      if (typeof feature === "string") {
+        return { name: feature, route: normalizeRoute(feature) };
+      }
+      if (!feature || typeof feature.name !== "string" || !feature.name) {
+        throw new FeatureInventoryError(
+          `Feature ${index + 1} hat keinen Namen`,
+        );
+      }
+      return {
+        name: feature.name,
+        ...(feature.route ? { route: normalizeRoute(feature.route) } : {}),
+        // Ohne Route und Bereich steht der Name für den Funktionsbereich
+        ...(feature.area || !feature.route
+          ? { area: feature.area || feature.name }
+          : {}),
+      };
+    },
+  );
+
+  if (config.sitemap) {
+    entries.push(
+      ...parseSitemap(readInventorySource(baseDir, config.sitemap, "Sitemap")),
+    );
+  }
+  if (config.routeFile) {
+    entries.push(
+      ...parseRouteFile(
+        readInventorySource(baseDir, config.routeFile, "Routen-Datei"),
+        config.routeFile,
+      ),
+    );
+  }
+
+  return uniqueByRoute(entries);
+}
+
+/**
+ * Lädt das registrierte Inventar
+ *
+ * @param filePath - Pfad des Inventars (Standard: feature-inventory.json im Dashboard-Verzeichnis)
+ * @returns Features oder null, wenn kein Inventar registriert ist
+ * @throws FeatureInventoryError, wenn das Inventar nicht gelesen oder geprüft werden kann
+ */
+export function loadFeatureInventory(
+  filePath: string = path.join(__dirname, "..", "..", FEATURE_INVENTORY_FILE),
+): FeatureInventoryEntry[] | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let config: FeatureInventoryConfig;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new FeatureInventoryError(
+      `Inventar ${filePath} ist nicht lesbar: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+    );
+  }
+  return resolveFeatureInventory(config, path.dirname(filePath));
+}
+
+/**
+ * Gleicht das Inventar mit den Testfällen ab
+ */
+export function analyzeFeatureCoverage(
+  features: FeatureInventoryEntry[],
+  tests: TestMetadata[],
+  options: FeatureCoverageOptions = {},
+): FeatureCoverageReport {
+  const overTestedThreshold = options.overTestedThreshold ?? 10;
+  const routePatterns = features.map((feature) =>
+    feature.route ? getRoutePattern(feature.route) : null,
+  );
+
+  const entries = features.map((feature, index) => {
+    const pattern = routePatterns[index];
+    const coveringTests: FeatureCoverageTest[] = [];
+
+    for (const test of tests) {
+      const via: FeatureCoverageTest["via"] = [];
+      if (
+        pattern &&
+        (test.visitedUrls || []).some((url) =>
+          pattern.test(normalizeRoute(url)),
+        )
+      ) {
+        via.push("url");
+      }
+      if (feature.area && (test.functionalAreas || []).includes(feature.area)) {
+        via.push("area");
+      }
+      if (via.length > 0) {
+        coveringTests.push({
+          testId: test.id || test.file,
+          file: test.file,
+          title: test.title || test.name,
+          via,
+          smoke: isSmokeTest(test),
+        });
+      }
+    }
+
+    return {
+      ...feature,
+      ...getStatus(coveringTests, overTestedThreshold),
+      tests: coveringTests,
+    };
+  });
+
+  // Besuchte Pfade, zu denen es kein Feature mit Route gibt
+  const unlisted = new Map<string, number>();
+  for (const test of tests) {
+    for (const url of new Set((test.visitedUrls || []).map(normalizeRoute))) {
+      if (!routePatterns.some((pattern) => pattern && pattern.test(url))) {
+        unlisted.set(url, (unlisted.get(url) || 0) + 1);
+      }
+    }
+  }
+
+  const summary = {
+    total: entries.length,
+    untested: 0,
+    weak: 0,
+    covered: 0,
+    "over-tested": 0,
+    coverageRate: 0,
+  };
+  entries.forEach((entry) => summary[entry.status]++);
+  summary.coverageRate =
+    entries.length > 0 ? 1 - summary.untested / entries.length : 0;
+
+  return {
+    features: entries.sort(
+      (a, b) =>
+        STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+        a.tests.length - b.tests.length ||
+        a.name.localeCompare(b.name),
+    ),
+    summary,
+    unlistedUrls: Array.from(unlisted, ([url, count]) => ({
+      url,
+      tests: count,
+    })).sort((a, b) => b.tests - a.tests || a.url.localeCompare(b.url)),
+    overTestedThreshold,
+    testsAnalyzed: tests.length,
+  };
+}
+
+function getStatus(
+  tests: FeatureCoverageTest[],
+  overTestedThreshold: number,
+): Pick<FeatureCoverageEntry, "status" | "reason"> {
+  if (tests.length === 0) {
+    return {
+      status: "untested",
+      reason: "Kein Test besucht die Route oder deckt den Funktionsbereich ab",
+    };
+  }
+  if (tests.length === 1) {
+    return { status: "weak", reason: "Nur ein Test" };
+  }
+  if (tests.every((test) => test.smoke)) {
+    return { status: "weak", reason: "Nur Smoke-Tests" };
+  }
+  if (tests.length > overTestedThreshold) {
+    return {
+      status: "over-tested",
+      reason: `${tests.length} Tests (mehr als ${overTestedThreshold})`,
+    };
+  }
+  return { status: "covered" };
+}
+
+function isSmokeTest(test: TestMetadata): boolean {
+  return (
+    (test.tags || []).some((tag) => tag.replace(/^@/, "") === "smoke") ||
+    (test.coverage?.type || []).includes("Smoke")
+  );
+}
+
+/**
+ * Regulärer Ausdruck für eine Route; Parameter (:id, [id], *) passen auf ein
+ * Segment, Catch-all-Segmente (**, [...slug], :path*) auf den Rest
+ */
+function getRoutePattern(route: string): RegExp {
+  const source = route
+    .split("/")
+    .map((segment) => {
+      if (segment === "**" || /^\[\.\.\..+\]$|^:.+\*$/.test(segment)) {
+        return ".*";
+      }
+      if (segment === "*" || /^\[.+\]$|^:.+$/.test(segment)) {
+        return "[^/]+";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function readInventorySource(
+  baseDir: string,
+  file: string,
+  label: string,
+): string {
+  const absolutePath = path.resolve(baseDir, file);
+  if (!fs.existsSync(absolutePath)) {
+    throw new FeatureInventoryError(`${label} ${absolutePath} existiert nicht`);
+  }
+  return fs.readFileSync(absolutePath, "utf-8");
+}
+
+function uniqueByRoute(
+  entries: FeatureInventoryEntry[],
+): FeatureInventoryEntry[] {
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = entry.route ? `route:${entry.route}` : `area:${entry.area}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function getStringValue(node: ts.Node | undefined): string | null {
+  if (
+    node &&
+    (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+  ) {
+    return node.text;
+  }
+  return null;
+}
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
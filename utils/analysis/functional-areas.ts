@@ -0,0 +1,435 @@
+/**
+ * Funktionsbereiche
+ *
+ * Ordnet Testfälle über eine editierbare Taxonomie (functional-areas.json im
+ * Dashboard-Verzeichnis) Funktionsbereichen zu. Jede Regel beschreibt einen
+ * Bereich über Globs auf den Dateipfad, Tags, importierte Page Objects, mit
+ * page.goto besuchte URLs und Schlüsselwörter in Titel und describe-Pfad.
+ * Regeln mit höherer Priorität werden zuerst geprüft; trifft eine exklusive
+ * Regel zu, gelten Regeln mit niedrigerer Priorität nicht mehr. Aus der
+ * Zuordnung entstehen functionalAreas und coverage.area und damit die
+ * Coverage-Matrix.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { TestMetadata } from "../test-analyzer";
+
+// Name der Taxonomie im Dashboard-Verzeichnis
+export const TAXONOMY_FILE = "functional-areas.json";
+
+export interface FunctionalAreaRule {
+  name: string;
+  priority?: number; // Höhere Priorität wird zuerst geprüft (Standard: 0)
+  exclusive?: boolean; // Treffer schließt Regeln mit niedrigerer Priorität aus
+  paths?: string[]; // Globs auf den Dateipfad (ohne "/" in jeder Tiefe)
+  tags?: string[]; // z.B. '@checkout'
+  pageObjects?: string[]; // Globs auf importierte Page Objects, z.B. '*LoginPage'
+  urls?: string[]; // Globs auf mit page.goto besuchte Pfade, z.B. '/admin/**'
+  keywords?: string[]; // Wörter in Dateiname, describe-Pfad oder Titel
+}
+
+export interface FunctionalAreaTaxonomy {
+  areas: FunctionalAreaRule[];
+  fallback?: string; // Bereich für Tests ohne Treffer (Standard: 'Allgemein')
+}
+
+export type AreaCriterion = "path" | "tag" | "pageObject" | "url" | "keyword";
+
+// Warum eine Regel auf einen Test zutrifft
+export interface AreaCriterionMatch {
+  criterion: AreaCriterion;
+  pattern: string;
+  value: string;
+}
+
+export interface FunctionalAreaMatch {
+  area: string;
+  priority: number;
+  criteria: AreaCriterionMatch[];
+  shadowed: boolean; // Durch eine exklusive Regel mit höherer Priorität ausgeschlossen
+}
+
+// Angaben eines Testfalls, die für die Zuordnung ausgewertet werden
+export type TaxonomyInput = Pick<
+  TestMetadata,
+  "file" | "title" | "describePath" | "tags" | "pageObjects" | "visitedUrls"
+>;
+
+export interface TaxonomyPreviewTest {
+  testId: string;
+  file: string;
+  title: string;
+  criteria: AreaCriterionMatch[];
+}
+
+export interface TaxonomyRulePreview {
+  area: string;
+  priority: number;
+  exclusive: boolean;
+  tests: TaxonomyPreviewTest[]; // Tests, denen der Bereich zugeordnet wird
+  shadowedTests: TaxonomyPreviewTest[]; // Treffer, die eine exklusive Regel verdrängt
+}
+
+export interface TaxonomyPreview {
+  rules: TaxonomyRulePreview[]; // In Prüfreihenfolge
+  fallback: string;
+  unmatchedTests: Omit<TaxonomyPreviewTest, "criteria">[];
+  testsAnalyzed: number;
+}
+
+/**
+ * Ungültige Taxonomie (z.B. fehlerhaftes JSON oder Regel ohne Namen)
+ */
+export class TaxonomyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaxonomyError";
+  }
+}
+
+// Standard-Taxonomie, wenn keine functional-areas.json vorhanden ist
+export const DEFAULT_TAXONOMY: FunctionalAreaTaxonomy = {
+  areas: [
+    {
+      name: "Authentifizierung",
+      paths: ["**/auth/**", "*login*", "*auth*"],
+      urls: ["/login*", "/logout*", "/auth/**", "/register*"],
+      keywords: ["login", "logout", "anmeld", "abmeld", "passwort", "password"],
+    },
+    {
+      name: "Administration",
+      paths: ["**/admin/**"],
+      urls: ["/admin/**", "/settings/**"],
+      keywords: ["admin", "einstellungen", "settings"],
+    },
+    {
+      name: "Benutzerverwaltung",
+      paths: ["*user*", "*profil*", "*account*"],
+      urls: ["/users/**", "/profile*", "/account/**"],
+      keywords: ["benutzer", "user", "profil", "konto", "account"],
+    },
+    {
+      name: "Dashboard",
+      paths: ["*dashboard*"],
+      urls: ["/dashboard*"],
+      keywords: ["dashboard", "übersicht", "overview"],
+    },
+    {
+      name: "Navigation",
+      paths: ["*navigation*"],
+      keywords: ["navigation", "menü", "menu"],
+    },
+    {
+      name: "Suche",
+      urls: ["/search*", "/suche*"],
+      keywords: ["suche", "search", "filter"],
+    },
+    {
+      name: "Formulare",
+      keywords: ["formular", "form", "eingabe"],
+    },
+    {
+      name: "Berichte",
+      urls: ["/reports/**"],
+      keywords: ["bericht", "report", "analytics"],
+    },
+    {
+      name: "Benachrichtigungen",
+      keywords: ["benachrichtigung", "notification", "alert"],
+    },
+    {
+      name: "Tools",
+      paths: ["*tool*"],
+      urls: ["/tools/**"],
+      keywords: ["tool"],
+    },
+    {
+      name: "UI/UX",
+      paths: ["**/ui/**", "*visual*", "*layout*"],
+      keywords: ["visual", "layout", "responsive"],
+    },
+  ],
+  fallback: "Allgemein",
+};
+
+/**
+ * Prüft eine Taxonomie und liefert sie mit Standardwerten
+ *
+ * @throws TaxonomyError bei ungültigem Aufbau
+ */
+export function parseTaxonomy(value: unknown): FunctionalAreaTaxonomy {
+  if (
+    !value ||
+    typeof value !== "object" ||
+    !Array.isArray((value as FunctionalAreaTaxonomy).areas)
+  ) {
+    throw new TaxonomyError("Die Taxonomie benötigt ein Array 'areas'");
+  }
+
+  const taxonomy = value as FunctionalAreaTaxonomy;
+  taxonomy.areas.forEach((rule, index) => {
+    if (!rule || typeof rule.name !== "string" || rule.name.trim() === "") {
+      throw new TaxonomyError(`Regel ${index + 1} hat keinen Namen`);
+    }
+    if (rule.priority !== undefined && !Number.isFinite(rule.priority)) {
+      throw new TaxonomyError(
+        `Regel '${rule.name}': priority muss eine Zahl sein`,
+      );
+    }
+    for (const key of [
+      "paths",
+      "tags",
+      "pageObjects",
+      "urls",
+      "keywords",
+    ] as const) {
+      const patterns = rule[key];
+      if (
+        patterns !== undefined &&
+        (!Array.isArray(patterns) ||
+          patterns.some((pattern) => typeof pattern !== "string"))
+      ) {
+        throw new TaxonomyError(
+          `Regel '${rule.name}': ${key} muss eine Liste von Texten sein`,
+        );
+      }
+    }
+  });
+
+  return {
+    areas: taxonomy.areas,
+    fallback: taxonomy.fallback || DEFAULT_TAXONOMY.fallback,
+  };
+}
+
+/**
+ * Lädt die Taxonomie; ohne Datei gilt die Standard-Taxonomie
+ *
+ * @param filePath - Pfad der Taxonomie (Standard: functional-areas.json im Dashboard-Verzeichnis)
+ * @throws TaxonomyError, wenn die Datei nicht gelesen oder geprüft werden kann
+ */
+export function loadTaxonomy(
+  filePath: string = path.join(__dirname, "..", "..", TAXONOMY_FILE),
+): FunctionalAreaTaxonomy {
+  if (!fs.existsSync(filePath)) {
+    return DEFAULT_TAXONOMY;
+  }
+
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    throw new TaxonomyError(
+      `Taxonomie ${filePath} ist nicht lesbar: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+    );
+  }
+  return parseTaxonomy(content);
+}
+
+/**
+ * Prüft alle Regeln gegen einen Testfall
+ *
+ * @returns Zutreffende Regeln in Prüfreihenfolge, verdrängte mit shadowed
+ */
+export function matchFunctionalAreas(
+  test: TaxonomyInput,
+  taxonomy: FunctionalAreaTaxonomy,
+): FunctionalAreaMatch[] {
+  const matches: FunctionalAreaMatch[] = [];
+  let cutoff = -Infinity;
+
+  for (const rule of sortRules(taxonomy.areas)) {
+    const criteria = getCriteria(rule, test);
+    if (criteria.length === 0) continue;
+
+    const priority = rule.priority ?? 0;
+    matches.push({
+      area: rule.name,
+      priority,
+      criteria,
+      shadowed: priority < cutoff,
+    });
+    if (rule.exclusive && priority >= cutoff) {
+      cutoff = priority;
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Funktionsbereiche eines Testfalls (ohne Treffer der Fallback-Bereich)
+ */
+export function classifyTest(
+  test: TaxonomyInput,
+  taxonomy: FunctionalAreaTaxonomy,
+): string[] {
+  const areas = Array.from(
+    new Set(
+      matchFunctionalAreas(test, taxonomy)
+        .filter((match) => !match.shadowed)
+        .map((match) => match.area),
+    ),
+  );
+  return areas.length > 0 ? areas : [taxonomy.fallback || "Allgemein"];
+}
+
+/**
+ * Ordnet alle Testfälle neu zu (functionalAreas und coverage.area)
+ */
+export function applyTaxonomy(
+  tests: TestMetadata[],
+  taxonomy: FunctionalAreaTaxonomy,
+): TestMetadata[] {
+  return tests.map((test) => {
+    const areas = classifyTest(test, taxonomy);
+    return {
+      ...test,
+      functionalAreas: areas,
+      coverage: { ...test.coverage, area: areas },
+    };
+  });
+}
+
+/**
+ * Zeigt für jede Regel, welche Tests sie trifft und warum
+ */
+export function previewTaxonomy(
+  tests: TestMetadata[],
+  taxonomy: FunctionalAreaTaxonomy,
+): TaxonomyPreview {
+  const rules = sortRules(taxonomy.areas).map((rule) => ({
+    area: rule.name,
+    priority: rule.priority ?? 0,
+    exclusive: rule.exclusive === true,
+    tests: [] as TaxonomyPreviewTest[],
+    shadowedTests: [] as TaxonomyPreviewTest[],
+  }));
+  const unmatchedTests: TaxonomyPreview["unmatchedTests"] = [];
+
+  for (const test of tests) {
+    const ref = {
+      testId: test.id || test.file,
+      file: test.file,
+      title: test.title || test.name,
+    };
+    const matches = matchFunctionalAreas(test, taxonomy);
+
+    for (const match of matches) {
+      const rule = rules.find((entry) => entry.area === match.area)!;
+      (match.shadowed ? rule.shadowedTests : rule.tests).push({
+        ...ref,
+        criteria: match.criteria,
+      });
+    }
+    if (!matches.some((match) => !match.shadowed)) {
+      unmatchedTests.push(ref);
+    }
+  }
+
+  return {
+    rules,
+    fallback: taxonomy.fallback || "Allgemein",
+    unmatchedTests,
+    testsAnalyzed: tests.length,
+  };
+}
+
+/**
+ * Wandelt einen Glob in einen regulären Ausdruck um (** über Verzeichnisse, * und ? innerhalb)
+ */
+export function globToRegExp(glob: string, flags: string = ""): RegExp {
+  let source = "";
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === "*" && glob[index + 1] === "*") {
+      // "**/" darf auch keine Verzeichnisse umfassen
+      const slash = glob[index + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * Prüft einen Pfad-Glob einer Regel; Globs ohne "/" gelten für den Dateinamen in jeder Tiefe
+ */
+export function matchesPathGlob(pattern: string, file: string): boolean {
+  return pattern.includes("/")
+    ? globToRegExp(pattern).test(file)
+    : globToRegExp(pattern).test(path.posix.basename(file));
+}
+
+// Stabil nach Priorität absteigend sortieren
+function sortRules(rules: FunctionalAreaRule[]): FunctionalAreaRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort(
+      (a, b) =>
+        (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index,
+    )
+    .map(({ rule }) => rule);
+}
+
+function getCriteria(
+  rule: FunctionalAreaRule,
+  test: TaxonomyInput,
+): AreaCriterionMatch[] {
+  const criteria: AreaCriterionMatch[] = [];
+  const file = test.file.split(path.sep).join("/");
+  const add = (
+    criterion: AreaCriterion,
+    patterns: string[] | undefined,
+    values: string[],
+    matches: (pattern: string, value: string) => boolean,
+  ) => {
+    for (const pattern of patterns || []) {
+      const value = values.find((candidate) => matches(pattern, candidate));
+      if (value !== undefined) {
+        criteria.push({ criterion, pattern, value });
+      }
+    }
+  };
+
+  add("path", rule.paths, [file], matchesPathGlob);
+  add(
+    "tag",
+    rule.tags,
+    test.tags || [],
+    (pattern, value) => normalizeTag(pattern) === normalizeTag(value),
+  );
+  add(
+    "pageObject",
+    rule.pageObjects,
+    test.pageObjects || [],
+    (pattern, value) => globToRegExp(pattern).test(value),
+  );
+  add("url", rule.urls, test.visitedUrls || [], (pattern, value) =>
+    globToRegExp(pattern, "i").test(value),
+  );
+
+  const text = [
+    path.posix.basename(file),
+    ...(test.describePath || []),
+    test.title || "",
+  ]
+    .join(" ")
+    .toLowerCase();
+  add("keyword", rule.keywords, [text], (pattern, value) =>
+    value.includes(pattern.toLowerCase()),
+  );
+
+  return criteria;
+}
+
+function normalizeTag(tag: string): string {
+  return tag.replace(/^@/, "").toLowerCase();
+}
@@ -0,0 +1,247 @@
+/**
+ * Inkrementelle Test-Analyse
+ *
+ * Speichert die Analyseergebnisse pro Testdatei zusammen mit einem Hash über
+ * den Dateiinhalt und der Version des TestAnalyzers. Bei der nächsten Analyse
+ * werden nur neue oder geänderte Dateien erneut analysiert, gelöschte Dateien
+ * fallen aus dem Cache. Zusätzlich wird ermittelt, was sich seit der letzten
+ * Analyse geändert hat: neue und entfernte Tests sowie Tests mit geänderter
+ * Komplexität oder geänderten Selektoren.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  TEST_ANALYZER_VERSION,
+  TestAnalyzer,
+  TestMetadata,
+  TestSelector,
+} from "../test-analyzer";
+
+// Zwischengespeicherte Ergebnisse einer Testdatei
+export interface AnalysisCacheEntry {
+  hash: string; // SHA-1 über den Dateiinhalt
+  tests: TestMetadata[];
+}
+
+export interface AnalysisCache {
+  analyzerVersion: number;
+  files: Record<string, AnalysisCacheEntry>; // Schlüssel: Pfad relativ zum Basisverzeichnis
+}
+
+// Ein Testfall im Änderungsbericht
+export interface TestChangeRef {
+  id: string;
+  file: string;
+  title: string;
+}
+
+export interface ChangedTest extends TestChangeRef {
+  complexity?: { before: number; after: number }; // Fehlt, wenn unverändert
+  selectors?: { added: string[]; removed: string[] }; // Fehlt, wenn unverändert
+}
+
+export interface AnalysisChangeReport {
+  added: TestChangeRef[];
+  removed: TestChangeRef[];
+  changed: ChangedTest[];
+}
+
+export interface IncrementalAnalysisResult {
+  results: TestMetadata[];
+  changes: AnalysisChangeReport | null; // null, wenn es keine vorherige Analyse gibt
+  files: {
+    analyzed: string[]; // Neu oder erneut analysierte Dateien
+    cached: number; // Unveränderte Dateien aus dem Cache
+    removed: string[]; // Gelöschte Dateien
+  };
+}
+
+export interface IncrementalAnalysisOptions {
+  pattern?: string; // Muster anstelle der konfigurierten Testerkennung
+  force?: boolean; // Cache ignorieren und alle Dateien neu analysieren
+}
+
+/**
+ * Hash über den Inhalt einer Testdatei
+ */
+export function getContentHash(content: string): string {
+  return crypto.createHash("sha1").update(content).digest("hex");
+}
+
+/**
+ * Vergleicht zwei Analyseergebnisse über die Test-ID
+ *
+ * @param previous - Testfälle der vorherigen Analyse
+ * @param current - Testfälle der aktuellen Analyse
+ */
+export function diffTestMetadata(
+  previous: TestMetadata[],
+  current: TestMetadata[],
+): AnalysisChangeReport {
+  const previousById = new Map(previous.map((test) => [test.id, test]));
+  const currentIds = new Set(current.map((test) => test.id));
+  const report: AnalysisChangeReport = { added: [], removed: [], changed: [] };
+
+  for (const test of current) {
+    const before = previousById.get(test.id);
+    if (!before) {
+      report.added.push(toChangeRef(test));
+      continue;
+    }
+
+    const change: ChangedTest = toChangeRef(test);
+    if (before.complexity !== test.complexity) {
+      change.complexity = { before: before.complexity, after: test.complexity };
+    }
+
+    const selectorsBefore = getSelectorKeys(before.selectors);
+    const selectorsAfter = getSelectorKeys(test.selectors);
+    const added = selectorsAfter.filter(
+      (key) => !selectorsBefore.includes(key),
+    );
+    const removed = selectorsBefore.filter(
+      (key) => !selectorsAfter.includes(key),
+    );
+    if (added.length > 0 || removed.length > 0) {
+      change.selectors = { added, removed };
+    }
+
+    if (change.complexity || change.selectors) {
+      report.changed.push(change);
+    }
+  }
+
+  report.removed = previous
+    .filter((test) => !currentIds.has(test.id))
+    .map(toChangeRef);
+
+  return report;
+}
+
+export class IncrementalTestAnalyzer {
+  private basePath: string;
+  private cachePath: string;
+  private analyzer: TestAnalyzer;
+
+  /**
+   * Konstruktor
+   *
+   * @param basePath - Basisverzeichnis der Tests
+   * @param cachePath - Pfad der Cache-Datei
+   * @param analyzer - TestAnalyzer für einzelne Dateien (Standard: unter basePath)
+   */
+  constructor(
+    basePath: string,
+    cachePath: string,
+    analyzer: TestAnalyzer = new TestAnalyzer(basePath),
+  ) {
+    this.basePath = basePath;
+    this.cachePath = cachePath;
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Analysiert alle Testdateien, unveränderte Dateien kommen aus dem Cache
+   *
+   * @param options - Muster für die Testdateien und force zum Ignorieren des Caches
+   */
+  public analyze(
+    options: IncrementalAnalysisOptions = {},
+  ): IncrementalAnalysisResult {
+    const previous = this.loadCache();
+    // Ergebnisse einer anderen Analyzer-Version dienen nur noch dem Vergleich
+    const reusable =
+      !options.force && previous?.analyzerVersion === TEST_ANALYZER_VERSION
+        ? previous.files
+        : {};
+    const cache: AnalysisCache = {
+      analyzerVersion: TEST_ANALYZER_VERSION,
+      files: {},
+    };
+    const analyzed: string[] = [];
+    let cached = 0;
+
+    for (const absolutePath of this.analyzer.findTestFiles(options.pattern)) {
+      const file = path.relative(this.basePath, absolutePath);
+
+      try {
+        const hash = getContentHash(fs.readFileSync(absolutePath, "utf-8"));
+        const entry = reusable[file];
+
+        if (entry && entry.hash === hash) {
+          cache.files[file] = entry;
+          cached++;
+          continue;
+        }
+
+        cache.files[file] = {
+          hash,
+          tests: this.analyzer.analyzeTestFile(absolutePath),
+        };
+        analyzed.push(file);
+      } catch (error) {
+        // Nicht zwischenspeichern, damit die Datei beim nächsten Mal erneut analysiert wird
+        console.error(`❌ Fehler bei der Analyse von ${file}:`, error);
+      }
+    }
+
+    const removed = Object.keys(previous?.files || {}).filter(
+      (file) => !cache.files[file],
+    );
+    const results = Object.values(cache.files).flatMap((entry) => entry.tests);
+
+    this.saveCache(cache);
+    console.log(
+      `Test-Analyse: ${analyzed.length} Dateien analysiert, ${cached} aus dem Cache, ${removed.length} entfernt`,
+    );
+
+    return {
+      results,
+      changes: previous
+        ? diffTestMetadata(
+            Object.values(previous.files).flatMap((entry) => entry.tests),
+            results,
+          )
+        : null,
+      files: { analyzed, cached, removed },
+    };
+  }
+
+  /**
+   * Lädt den Cache; fehlt er oder ist er unlesbar, gibt es keine vorherige Analyse
+   */
+  private loadCache(): AnalysisCache | null {
+    if (!fs.existsSync(this.cachePath)) {
+      return null;
+    }
+
+    try {
+      const cache = JSON.parse(fs.readFileSync(this.cachePath, "utf-8"));
+      return cache && typeof cache.files === "object" ? cache : null;
+    } catch (error) {
+      console.warn(
+        `Analyse-Cache ${this.cachePath} ist nicht lesbar und wird neu erstellt: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      );
+      return null;
+    }
+  }
+
+  private saveCache(cache: AnalysisCache): void {
+    fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+    fs.writeFileSync(this.cachePath, JSON.stringify(cache), "utf-8");
+  }
+}
+
+function toChangeRef(test: TestMetadata): TestChangeRef {
+  return { id: test.id, file: test.file, title: test.title || test.name };
+}
+
+function getSelectorKeys(selectors: TestSelector[] = []): string[] {
+  return Array.from(
+    new Set(selectors.map((selector) => `${selector.type}=${selector.value}`)),
+  ).sort();
+}
+
+export default IncrementalTestAnalyzer;
@@ -0,0 +1,308 @@
+/**
+ * Selektorqualität
+ *
+ * Bewertet die vom TestAnalyzer gefundenen Selektoren nach ihrer Robustheit.
+ * Ausgangspunkt ist der Selektortyp (getByRole, getByLabel und getByTestId
+ * gelten als robust, CSS und XPath als anfällig); Abzüge gibt es für
+ * Positionsangaben wie :nth-child, generierte Klassennamen, tiefe XPath-Pfade,
+ * Texte mit Zahlen oder Datumsangaben und Aktionen direkt auf CSS-Selektoren.
+ * Für jeden schwachen Selektor wird eine bessere Strategie vorgeschlagen.
+ */
+
+import { TestMetadata, TestSelector } from "../test-analyzer";
+
+export type SelectorRating = "robust" | "acceptable" | "brittle";
+
+// Ein erkanntes Robustheitsproblem eines Selektors
+export interface SelectorIssue {
+  code: string; // z.B. 'nth-child', 'generated-class', 'deep-xpath'
+  message: string;
+  penalty: number; // Abzug vom Score
+}
+
+export interface SelectorAssessment {
+  score: number; // 0-100, höher = robuster
+  rating: SelectorRating;
+  issues: SelectorIssue[];
+  recommendation?: string; // Fehlt bei robusten Selektoren
+}
+
+// Ein schwacher Selektor mit Fundstelle
+export interface WeakSelector extends SelectorAssessment {
+  testId: string; // ID des Testfalls (Datei › describe-Pfad › Titel)
+  file: string;
+  type: string;
+  value: string;
+  usage: string;
+  line: number;
+  column: number;
+}
+
+// Selektorqualität eines Testfalls
+export interface TestSelectorHealth {
+  testId: string;
+  file: string;
+  title: string;
+  line: number;
+  selectorCount: number;
+  averageScore: number; // 100, wenn der Test keine Selektoren verwendet
+  weakSelectors: number;
+}
+
+// Projektweite Empfehlung für ein häufiges Problem
+export interface SelectorRecommendation {
+  code: string;
+  occurrences: number;
+  recommendation: string;
+}
+
+export interface SelectorHealthReport {
+  totalSelectors: number;
+  averageScore: number;
+  ratings: Record<SelectorRating, number>;
+  byType: Record<string, { count: number; averageScore: number }>;
+  worstOffenders: WeakSelector[]; // Schwächste Selektoren zuerst
+  tests: TestSelectorHealth[]; // Schwächste Testfälle zuerst
+  recommendations: SelectorRecommendation[]; // Häufigste Probleme zuerst
+}
+
+// Ausgangswert pro Selektortyp
+const TYPE_SCORES: Record<string, number> = {
+  role: 100,
+  label: 95,
+  testId: 95,
+  placeholder: 85,
+  altText: 85,
+  title: 80,
+  text: 75,
+  css: 60,
+  xpath: 40,
+};
+
+// Ausgangswert für unbekannte Selektortypen
+const DEFAULT_TYPE_SCORE = 50;
+
+const ROBUST_SCORE = 80;
+const ACCEPTABLE_SCORE = 50;
+
+// Vorschläge pro Problem bzw. Selektortyp
+const RECOMMENDATIONS: Record<string, string> = {
+  "nth-child":
+    "Element über getByRole() mit Namen oder locator().filter({ hasText }) eindeutig machen statt über die Position",
+  "generated-class":
+    "Generierte Klassennamen ändern sich mit jedem Build: data-testid ergänzen und getByTestId() verwenden",
+  "deep-xpath":
+    "Tiefe XPath-Pfade brechen bei jeder Layoutänderung: getByRole() oder getByTestId() verwenden",
+  "dynamic-text":
+    "Texte mit Zahlen oder Datumsangaben ändern sich mit den Daten: getByRole() mit stabilem Namen oder einen regulären Ausdruck verwenden",
+  "raw-css-action":
+    "Aktionen über getByRole() oder getByLabel() auslösen, damit der Test wie ein Nutzer interagiert",
+  "deep-css":
+    "Lange CSS-Ketten hängen an der DOM-Struktur: Locator über getByRole() oder getByTestId() eingrenzen",
+  css: "CSS-Selektor durch getByRole(), getByLabel() oder getByTestId() ersetzen",
+  xpath: "XPath durch getByRole(), getByLabel() oder getByTestId() ersetzen",
+  text: "getByText() durch getByRole() mit Namen ersetzen, wenn das Element eine Rolle hat",
+};
+
+// Aktionen, die als Interaktion mit dem Element zählen
+const INTERACTION_USAGES = new Set([
+  "click",
+  "dblclick",
+  "tap",
+  "fill",
+  "type",
+  "press",
+  "check",
+  "uncheck",
+  "selectOption",
+]);
+
+const NTH_PATTERN =
+  /:nth-(child|of-type|last-child|last-of-type|match)\(|(^|\s|>>\s*)nth=|\[\d+\]/;
+// z.B. .Button_primary__a1B2c, .css-1x2y3z, .sc-bdVaJa, #item-x7k2p9
+const GENERATED_CLASS_PATTERN =
+  /[.#][\w-]*(__|[-_])(?=[A-Za-z]*\d)(?=\d*[A-Za-z])[A-Za-z0-9]{5,}\b|[.#](css|sc|jsx|emotion)-[A-Za-z0-9]{4,}\b/;
+const DATE_PATTERN = /\b\d{1,4}[./-]\d{1,2}[./-]\d{1,4}\b|\b\d{1,2}:\d{2}\b/;
+const MAX_XPATH_DEPTH = 3;
+const MAX_CSS_DEPTH = 3;
+
+/**
+ * Bewertet einen einzelnen Selektor
+ */
+export function assessSelector(selector: TestSelector): SelectorAssessment {
+  // Bei Locator-Ketten ist der letzte Schritt maßgeblich, Probleme zählen in allen Schritten
+  const steps = selector.value.split(" >> ");
+  const issues: SelectorIssue[] = [];
+  const addIssue = (code: string, message: string, penalty: number) => {
+    if (!issues.some((issue) => issue.code === code)) {
+      issues.push({ code, message, penalty });
+    }
+  };
+
+  for (const step of steps) {
+    if (NTH_PATTERN.test(step)) {
+      addIssue("nth-child", "Auswahl über die Position im DOM", 25);
+    }
+    if (GENERATED_CLASS_PATTERN.test(step)) {
+      addIssue("generated-class", "Generierter Klassenname bzw. ID", 30);
+    }
+  }
+
+  if (selector.type === "xpath") {
+    const depth = selector.value.split("/").filter(Boolean).length;
+    if (/^(xpath=)?\/html/.test(selector.value) || depth > MAX_XPATH_DEPTH) {
+      addIssue("deep-xpath", `XPath mit ${depth} Ebenen`, 25);
+    }
+  }
+
+  if (selector.type === "css") {
+    const last = steps[steps.length - 1];
+    const depth = last.split(/\s*>\s*|\s+/).filter(Boolean).length;
+    if (depth > MAX_CSS_DEPTH) {
+      addIssue("deep-css", `CSS-Kette mit ${depth} Ebenen`, 15);
+    }
+    if (INTERACTION_USAGES.has(selector.usage)) {
+      addIssue(
+        "raw-css-action",
+        `${selector.usage}() direkt auf einem CSS-Selektor`,
+        10,
+      );
+    }
+  }
+
+  if (selector.type === "text" || /(^|\s)text=/.test(selector.value)) {
+    if (DATE_PATTERN.test(selector.value)) {
+      addIssue("dynamic-text", "Text mit Datum oder Uhrzeit", 25);
+    } else if (/\d/.test(selector.value)) {
+      addIssue("dynamic-text", "Text mit Zahlen", 20);
+    }
+  }
+
+  const baseScore = TYPE_SCORES[selector.type] ?? DEFAULT_TYPE_SCORE;
+  const score = Math.max(
+    0,
+    issues.reduce((current, issue) => current - issue.penalty, baseScore),
+  );
+  const rating = getRating(score);
+
+  return {
+    score,
+    rating,
+    issues,
+    recommendation:
+      rating === "robust"
+        ? undefined
+        : RECOMMENDATIONS[issues[0]?.code] ||
+          RECOMMENDATIONS[selector.type] ||
+          RECOMMENDATIONS.css,
+  };
+}
+
+/**
+ * Bewertet die Selektoren aller Testfälle
+ *
+ * @param metadata - Testfälle aus dem TestAnalyzer
+ * @param limit - Maximale Anzahl der schwächsten Selektoren im Bericht
+ */
+export function analyzeSelectorHealth(
+  metadata: TestMetadata[],
+  limit: number = 20,
+): SelectorHealthReport {
+  const ratings: Record<SelectorRating, number> = {
+    robust: 0,
+    acceptable: 0,
+    brittle: 0,
+  };
+  const typeScores = new Map<string, number[]>();
+  const issueCounts = new Map<string, number>();
+  const weakSelectors: WeakSelector[] = [];
+  const tests: TestSelectorHealth[] = [];
+  let totalScore = 0;
+  let totalSelectors = 0;
+
+  for (const test of metadata) {
+    const selectors = test.selectors || [];
+    const testId = test.id || test.file;
+    let testScore = 0;
+    let testWeakSelectors = 0;
+
+    for (const selector of selectors) {
+      const assessment = assessSelector(selector);
+
+      ratings[assessment.rating]++;
+      typeScores.set(selector.type, [
+        ...(typeScores.get(selector.type) || []),
+        assessment.score,
+      ]);
+      assessment.issues.forEach((issue) =>
+        issueCounts.set(issue.code, (issueCounts.get(issue.code) || 0) + 1),
+      );
+      testScore += assessment.score;
+
+      if (assessment.rating !== "robust") {
+        testWeakSelectors++;
+        weakSelectors.push({
+          ...assessment,
+          testId,
+          file: test.file,
+          type: selector.type,
+          value: selector.value,
+          usage: selector.usage,
+          line: selector.line,
+          column: selector.column,
+        });
+      }
+    }
+
+    totalScore += testScore;
+    totalSelectors += selectors.length;
+    tests.push({
+      testId,
+      file: test.file,
+      title: test.title || test.name,
+      line: test.line,
+      selectorCount: selectors.length,
+      averageScore: selectors.length > 0 ? testScore / selectors.length : 100,
+      weakSelectors: testWeakSelectors,
+    });
+  }
+
+  const byType: SelectorHealthReport["byType"] = {};
+  typeScores.forEach((scores, type) => {
+    byType[type] = {
+      count: scores.length,
+      averageScore:
+        scores.reduce((sum, score) => sum + score, 0) / scores.length,
+    };
+  });
+
+  return {
+    totalSelectors,
+    averageScore: totalSelectors > 0 ? totalScore / totalSelectors : 100,
+    ratings,
+    byType,
+    worstOffenders: weakSelectors
+      .sort(
+        (a, b) =>
+          a.score - b.score || a.file.localeCompare(b.file) || a.line - b.line,
+      )
+      .slice(0, limit),
+    tests: tests.sort(
+      (a, b) =>
+        a.averageScore - b.averageScore || b.weakSelectors - a.weakSelectors,
+    ),
+    recommendations: Array.from(issueCounts.entries())
+      .map(([code, occurrences]) => ({
+        code,
+        occurrences,
+        recommendation: RECOMMENDATIONS[code],
+      }))
+      .sort((a, b) => b.occurrences - a.occurrences),
+  };
+}
+
+function getRating(score: number): SelectorRating {
+  if (score >= ROBUST_SCORE) return "robust";
+  if (score >= ACCEPTABLE_SCORE) return "acceptable";
+  return "brittle";
+}
@@ -0,0 +1,118 @@
+/**
+ * Run-Event-Reporter
+ *
+ * Playwright-Reporter, der Beginn und Ende jedes Testfalls als markierte
+ * JSON-Zeilen auf stdout ausgibt. Der TestRunner liest diese Zeilen aus der
+ * Ausgabe des Kindprozesses und leitet sie als strukturierte Ereignisse
+ * weiter; alle übrigen Zeilen bleiben normale Log-Ausgabe.
+ */
+
+import type {
+  FullConfig,
+  Reporter,
+  Suite,
+  TestCase,
+  TestResult,
+} from "playwright/types/testReporter";
+import { getTestCaseId } from "../metrics/test-identity";
+
+// Präfix, an dem der TestRunner die Ereigniszeilen erkennt
+export const RUN_EVENT_PREFIX = "@@run-event ";
+
+// Gemeinsame Angaben zu einem Testfall
+export interface TestCaseInfo {
+  testId: string; // Einheitliche Test-ID (siehe getTestCaseId), eindeutig pro Projekt
+  title: string;
+  file: string; // Dateiname der Testdatei
+  project?: string; // Playwright-Projekt bzw. Browser
+  retry: number; // Nummer des Versuchs (0 = erster Versuch)
+}
+
+export type TestRunnerEvent =
+  | { type: "run-begin"; totalTests: number }
+  | ({ type: "test-begin" } & TestCaseInfo)
+  | ({
+      type: "test-end";
+      status: string; // passed, flaky, failed, timed-out, skipped, interrupted
+      duration: number;
+      final: boolean; // false, wenn noch eine Wiederholung folgt
+      error?: string;
+    } & TestCaseInfo);
+
+/**
+ * Wandelt eine Ausgabezeile in ein Ereignis um
+ *
+ * @returns Das Ereignis oder null, wenn die Zeile keine Ereigniszeile ist
+ */
+export function parseRunEventLine(line: string): TestRunnerEvent | null {
+  if (!line.startsWith(RUN_EVENT_PREFIX)) {
+    return null;
+  }
+
+  try {
+    const event = JSON.parse(line.substring(RUN_EVENT_PREFIX.length));
+    return event && typeof event.type === "string" ? event : null;
+  } catch {
+    return null;
+  }
+}
+
+export default class RunEventReporter implements Reporter {
+  onBegin(config: FullConfig, suite: Suite): void {
+    this.emit({ type: "run-begin", totalTests: suite.allTests().length });
+  }
+
+  onTestBegin(test: TestCase, result: TestResult): void {
+    this.emit({ type: "test-begin", ...getTestCaseInfo(test, result) });
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const final =
+      result.status === "passed" ||
+      result.status === "skipped" ||
+      result.retry >= test.retries;
+
+    this.emit({
+      type: "test-end",
+      ...getTestCaseInfo(test, result),
+      status: getStatus(test, result, final),
+      duration: result.duration,
+      final,
+      error: result.error?.message,
+    });
+  }
+
+  printsToStdio(): boolean {
+    // Die Ereigniszeilen ersetzen keine lesbare Ausgabe
+    return false;
+  }
+
+  private emit(event: TestRunnerEvent): void {
+    process.stdout.write(`${RUN_EVENT_PREFIX}${JSON.stringify(event)}\n`);
+  }
+}
+
+function getTestCaseInfo(test: TestCase, result: TestResult): TestCaseInfo {
+  const file = test.location.file.split(/[\\/]/).pop() || test.location.file;
+
+  // titlePath: Wurzel, Projekt, Datei, describe-Blöcke, Testtitel
+  return {
+    testId: getTestCaseId({
+      file,
+      describePath: test.titlePath().slice(3, -1),
+      title: test.title,
+    }),
+    title: test.title,
+    file,
+    project: test.parent.project()?.name || undefined,
+    retry: result.retry,
+  };
+}
+
+function getStatus(test: TestCase, result: TestResult, final: boolean): string {
+  if (final && test.outcome() === "flaky") {
+    return "flaky";
+  }
+
+  return result.status === "timedOut" ? "timed-out" : result.status;
+}
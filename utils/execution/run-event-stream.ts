@@ -0,0 +1,180 @@
+/**
+ * Run-Event-Stream
+ *
+ * Verteilt die Ereignisse laufender Testausführungen (Log-Zeilen, Beginn und
+ * Ende einzelner Tests, Fortschritt, Status) an Server-Sent-Events-Clients.
+ * Jeder Lauf erhält fortlaufende Ereignis-IDs; die letzten Ereignisse werden
+ * gepuffert, damit sich ein Client nach einem Verbindungsabbruch über
+ * Last-Event-ID wieder anschließen kann, ohne Ereignisse zu verlieren.
+ */
+
+export type RunEventType =
+  | "log"
+  | "test-begin"
+  | "test-end"
+  | "progress"
+  | "status"
+  | "end";
+
+export interface RunEvent {
+  id: number; // Fortlaufend pro Lauf, beginnend bei 1
+  runId: string;
+  type: RunEventType;
+  data: unknown;
+  timestamp: number;
+}
+
+export type RunEventListener = (event: RunEvent) => void;
+
+interface RunChannel {
+  events: RunEvent[]; // Puffer der letzten Ereignisse
+  lastId: number;
+  listeners: Set<RunEventListener>;
+  completed: boolean;
+}
+
+export class RunEventStream {
+  private channels = new Map<string, RunChannel>();
+  private maxBufferedEvents: number;
+  private retentionMs: number;
+
+  /**
+   * Konstruktor
+   *
+   * @param maxBufferedEvents - Gepufferte Ereignisse pro Lauf für Wiederanschlüsse
+   * @param retentionMs - Wie lange ein abgeschlossener Lauf abrufbar bleibt
+   */
+  constructor(
+    maxBufferedEvents: number = 1000,
+    retentionMs: number = 5 * 60 * 1000,
+  ) {
+    this.maxBufferedEvents = maxBufferedEvents;
+    this.retentionMs = retentionMs;
+  }
+
+  /**
+   * Veröffentlicht ein Ereignis für einen Lauf
+   *
+   * Für abgeschlossene Läufe werden keine Ereignisse mehr angenommen.
+   *
+   * @returns Das Ereignis oder null, wenn der Lauf bereits abgeschlossen ist
+   */
+  public publish(
+    runId: string,
+    type: RunEventType,
+    data: unknown,
+  ): RunEvent | null {
+    const channel = this.getOrCreateChannel(runId);
+    if (channel.completed) {
+      return null;
+    }
+
+    const event: RunEvent = {
+      id: ++channel.lastId,
+      runId,
+      type,
+      data,
+      timestamp: Date.now(),
+    };
+
+    channel.events.push(event);
+    if (channel.events.length > this.maxBufferedEvents) {
+      channel.events.splice(0, channel.events.length - this.maxBufferedEvents);
+    }
+
+    for (const listener of channel.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error("Fehler beim Zustellen eines Lauf-Ereignisses:", error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Schließt einen Lauf mit einem "end"-Ereignis ab
+   *
+   * Der Puffer bleibt für retentionMs erhalten, danach wird der Lauf entfernt.
+   */
+  public complete(runId: string, data: unknown = {}): void {
+    const channel = this.getOrCreateChannel(runId);
+    if (channel.completed) {
+      return;
+    }
+
+    this.publish(runId, "end", data);
+    channel.completed = true;
+    channel.listeners.clear();
+
+    const timer = setTimeout(() => {
+      this.channels.delete(runId);
+    }, this.retentionMs);
+    timer.unref();
+  }
+
+  /**
+   * Abonniert die Ereignisse eines Laufs
+   *
+   * Gepufferte Ereignisse mit einer ID größer als lastEventId werden sofort
+   * zugestellt. Bei abgeschlossenen Läufen endet das Abonnement danach.
+   *
+   * @returns Funktion zum Abbestellen oder null, wenn der Lauf unbekannt ist
+   */
+  public subscribe(
+    runId: string,
+    listener: RunEventListener,
+    lastEventId: number = 0,
+  ): (() => void) | null {
+    const channel = this.channels.get(runId);
+    if (!channel) {
+      return null;
+    }
+
+    for (const event of channel.events) {
+      if (event.id > lastEventId) {
+        listener(event);
+      }
+    }
+
+    if (channel.completed) {
+      return () => {};
+    }
+
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Prüft, ob für einen Lauf Ereignisse vorliegen
+   */
+  public has(runId: string): boolean {
+    return this.channels.has(runId);
+  }
+
+  private getOrCreateChannel(runId: string): RunChannel {
+    let channel = this.channels.get(runId);
+    if (!channel) {
+      channel = {
+        events: [],
+        lastId: 0,
+        listeners: new Set(),
+        completed: false,
+      };
+      this.channels.set(runId, channel);
+    }
+    return channel;
+  }
+}
+
+/**
+ * Formatiert ein Ereignis im Server-Sent-Events-Format
+ */
+export function formatSseEvent(event: RunEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+export default RunEventStream;
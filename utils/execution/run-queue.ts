@@ -0,0 +1,237 @@
+/**
+ * Test-Run-Queue
+ *
+ * Reiht Testausführungen ein und startet höchstens maxConcurrency davon
+ * gleichzeitig. Läufe mit höherer Priorität werden zuerst gestartet, bei
+ * gleicher Priorität in Eingangsreihenfolge. Einzelne Läufe können sowohl in
+ * der Warteschlange als auch während der Ausführung abgebrochen werden.
+ */
+
+export type QueueState = "queued" | "running" | "finished";
+
+export type QueueOutcome = "completed" | "failed" | "aborted";
+
+// Eine Testausführung, wie sie von der Queue gestartet und gestoppt wird
+export interface QueueJob {
+  runId: string;
+  priority?: number; // Höher = früher (Standard: 0)
+  start(): Promise<unknown>; // Führt den Lauf aus
+  stop(): Promise<void>; // Beendet einen laufenden Lauf vorzeitig
+}
+
+export interface QueueEntry {
+  runId: string;
+  priority: number;
+  state: QueueState;
+  outcome?: QueueOutcome; // Gesetzt, sobald der Lauf beendet ist
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface QueueSnapshot {
+  maxConcurrency: number;
+  running: QueueEntry[];
+  queued: Array<QueueEntry & { position: number }>; // Position 1 startet als Nächstes
+  finished: QueueEntry[]; // Zuletzt beendete Läufe, neueste zuerst
+}
+
+// Anzahl der beendeten Läufe, die in der Übersicht bleiben
+const MAX_FINISHED_ENTRIES = 50;
+
+export class TestRunQueue {
+  private maxConcurrency: number;
+  private onChange?: (entry: QueueEntry) => void;
+  private queued: Array<{ job: QueueJob; entry: QueueEntry }> = [];
+  private running = new Map<string, { job: QueueJob; entry: QueueEntry }>();
+  private finished: QueueEntry[] = [];
+  private cancelled = new Set<string>();
+
+  /**
+   * Konstruktor
+   *
+   * @param maxConcurrency - Maximale Anzahl gleichzeitig laufender Läufe
+   * @param onChange - Wird bei jedem Zustandswechsel eines Laufs aufgerufen
+   */
+  constructor(
+    maxConcurrency: number = 1,
+    onChange?: (entry: QueueEntry) => void,
+  ) {
+    this.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+    this.onChange = onChange;
+  }
+
+  /**
+   * Reiht einen Lauf ein und startet ihn, sobald ein Platz frei ist
+   *
+   * @returns Der Eintrag des Laufs (state "running", wenn sofort gestartet)
+   */
+  public enqueue(job: QueueJob): QueueEntry {
+    const entry: QueueEntry = {
+      runId: job.runId,
+      priority: job.priority ?? 0,
+      state: "queued",
+      enqueuedAt: Date.now(),
+    };
+
+    // Hinter allen Läufen mit gleicher oder höherer Priorität einsortieren
+    const index = this.queued.findIndex(
+      (queued) => queued.entry.priority < entry.priority,
+    );
+    if (index === -1) {
+      this.queued.push({ job, entry });
+    } else {
+      this.queued.splice(index, 0, { job, entry });
+    }
+
+    this.notify(entry);
+    this.drain();
+    return entry;
+  }
+
+  /**
+   * Bricht einen wartenden oder laufenden Lauf ab
+   *
+   * Wartende Läufe werden sofort als abgebrochen beendet. Bei laufenden Läufen
+   * wird stop() aufgerufen; der Lauf gilt als abgebrochen, sobald start()
+   * zurückkehrt.
+   *
+   * @returns Der Zustand vor dem Abbruch oder null, wenn der Lauf nicht
+   *          wartet oder läuft
+   */
+  public async cancel(runId: string): Promise<QueueState | null> {
+    const queuedIndex = this.queued.findIndex(
+      (queued) => queued.entry.runId === runId,
+    );
+    if (queuedIndex !== -1) {
+      const [{ entry }] = this.queued.splice(queuedIndex, 1);
+      this.finish(entry, "aborted");
+      return "queued";
+    }
+
+    const running = this.running.get(runId);
+    if (running && !this.cancelled.has(runId)) {
+      this.cancelled.add(runId);
+      await running.job.stop();
+      return "running";
+    }
+
+    return null;
+  }
+
+  /**
+   * Gibt den Eintrag eines Laufs zurück (wartend, laufend oder zuletzt beendet)
+   */
+  public getEntry(runId: string): QueueEntry | null {
+    const entry =
+      this.running.get(runId)?.entry ||
+      this.queued.find((queued) => queued.entry.runId === runId)?.entry ||
+      this.finished.find((finished) => finished.runId === runId);
+
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Gibt die Position eines wartenden Laufs zurück (1 = startet als Nächstes)
+   *
+   * @returns Die Position oder null, wenn der Lauf nicht wartet
+   */
+  public getPosition(runId: string): number | null {
+    const index = this.queued.findIndex(
+      (queued) => queued.entry.runId === runId,
+    );
+    return index === -1 ? null : index + 1;
+  }
+
+  /**
+   * Gibt eine Übersicht der Queue zurück
+   */
+  public list(): QueueSnapshot {
+    return {
+      maxConcurrency: this.maxConcurrency,
+      running: Array.from(this.running.values()).map(({ entry }) => ({
+        ...entry,
+      })),
+      queued: this.queued.map(({ entry }, index) => ({
+        ...entry,
+        position: index + 1,
+      })),
+      finished: this.finished.map((entry) => ({ ...entry })),
+    };
+  }
+
+  /**
+   * Ändert die maximale Anzahl gleichzeitig laufender Läufe
+   *
+   * Bereits laufende Läufe werden bei einer Verringerung nicht abgebrochen.
+   */
+  public setMaxConcurrency(maxConcurrency: number): void {
+    this.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+    this.drain();
+  }
+
+  public getMaxConcurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  /**
+   * Startet wartende Läufe, solange Plätze frei sind
+   */
+  private drain(): void {
+    while (this.running.size < this.maxConcurrency && this.queued.length > 0) {
+      const next = this.queued.shift()!;
+      const { job, entry } = next;
+
+      entry.state = "running";
+      entry.startedAt = Date.now();
+      this.running.set(entry.runId, next);
+      this.notify(entry);
+
+      Promise.resolve()
+        .then(() => job.start())
+        .then(
+          () => this.completeRunning(entry, "completed"),
+          (error) => {
+            console.error(
+              `Fehler bei der Ausführung von Testlauf ${entry.runId}:`,
+              error,
+            );
+            this.completeRunning(entry, "failed");
+          },
+        );
+    }
+  }
+
+  private completeRunning(entry: QueueEntry, outcome: QueueOutcome): void {
+    this.running.delete(entry.runId);
+    const aborted = this.cancelled.delete(entry.runId);
+
+    this.finish(entry, aborted ? "aborted" : outcome);
+    this.drain();
+  }
+
+  private finish(entry: QueueEntry, outcome: QueueOutcome): void {
+    entry.state = "finished";
+    entry.outcome = outcome;
+    entry.finishedAt = Date.now();
+
+    this.finished.unshift(entry);
+    if (this.finished.length > MAX_FINISHED_ENTRIES) {
+      this.finished.length = MAX_FINISHED_ENTRIES;
+    }
+
+    this.notify(entry);
+  }
+
+  private notify(entry: QueueEntry): void {
+    if (!this.onChange) return;
+
+    try {
+      this.onChange({ ...entry });
+    } catch (error) {
+      console.error("Fehler bei der Benachrichtigung der Queue:", error);
+    }
+  }
+}
+
+export default TestRunQueue;
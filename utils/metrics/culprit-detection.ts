@@ -0,0 +1,469 @@
+/**
+ * Culprit-Erkennung für neue Fehlschläge
+ *
+ * Kippt ein Test von dauerhaft bestanden auf fehlgeschlagen, sucht dieses
+ * Modul den letzten erfolgreichen und den ersten fehlgeschlagenen Lauf, liest
+ * die Commits dazwischen aus der lokalen git-Historie und ordnet sie danach,
+ * ob sie die Testdatei, ihre importierten Page Objects oder die Pfade ihres
+ * Funktionsbereichs geändert haben.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../types/playwright-results";
+import {
+  FunctionalAreaTaxonomy,
+  matchesPathGlob,
+} from "../analysis/functional-areas";
+import { containsCommit, runGitCommand } from "../results/run-metadata";
+import {
+  ResultsRepository,
+  TestResultRecord,
+} from "../storage/results-repository";
+import { getResultsStore, getTestId } from "../storage/results-store";
+import { TestMetadata } from "../test-analyzer";
+import { isSuccessfulStatus } from "./success-rate-tracker";
+import { getResultTestCaseId, TEST_CASE_ID_SEPARATOR } from "./test-identity";
+
+// Statuswerte, bei denen ein Test als fehlgeschlagen gilt
+const FAILING_STATUSES = ["failed", "timed-out", "interrupted"];
+
+// Erfolgreiche Läufe in Folge, ab denen ein Test als dauerhaft bestanden gilt
+export const DEFAULT_MIN_PASSING_RUNS = 3;
+
+// Maximale Anzahl Commits, die zwischen zwei Läufen ausgewertet werden
+const MAX_COMMITS = 200;
+
+// Nur echte SHAs werden an git übergeben
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+// Trennzeichen der git-log-Ausgabe zwischen Commits bzw. Feldern
+const RECORD_SEPARATOR = "\x1e";
+const FIELD_SEPARATOR = "\x1f";
+
+export type CulpritReasonKind = "spec" | "pageObject" | "area";
+
+// Gewichtung der Gründe für die Rangfolge der Commits
+const REASON_WEIGHTS: Record<CulpritReasonKind, number> = {
+  spec: 3,
+  pageObject: 2,
+  area: 1,
+};
+
+// Warum ein Commit als Ursache in Frage kommt
+export interface CulpritReason {
+  kind: CulpritReasonKind;
+  file: string; // Geänderte Datei
+  detail?: string; // Importiertes Modul bzw. Funktionsbereich mit Glob
+}
+
+export interface CulpritCommit {
+  commit: string;
+  author: string;
+  timestamp: number; // Commit-Zeitpunkt in Millisekunden
+  subject: string;
+  files: string[]; // Geänderte Dateien
+  score: number; // Summe der Gewichte aller zutreffenden Gründe (0: kein Bezug)
+  reasons: CulpritReason[];
+}
+
+// Commit aus der lokalen git-Historie, noch ohne Bewertung
+export type GitCommit = Omit<CulpritCommit, "score" | "reasons">;
+
+// Lauf an der Grenze zwischen bestanden und fehlgeschlagen
+export interface CulpritRunRef {
+  runId: string;
+  timestamp: number;
+  commit?: string;
+}
+
+export interface NewFailure {
+  testId: string; // Dateiname des Tests
+  caseId: string; // Einheitliche Test-ID (siehe getTestCaseId)
+  title?: string;
+  project?: string; // Playwright-Projekt bzw. Browser
+  lastGood: CulpritRunRef;
+  firstBad: CulpritRunRef;
+  passingRuns: number; // Erfolgreiche Läufe in Folge vor dem Wechsel
+  commits: CulpritCommit[]; // Wahrscheinlichste Ursache zuerst
+  issue?: string; // Warum keine Commits ermittelt werden konnten
+}
+
+export interface CulpritReport {
+  runId: string;
+  branch?: string;
+  commit?: string;
+  failures: NewFailure[]; // Fehlschläge des Laufs nach dauerhaft bestandenem Verlauf
+}
+
+export interface CulpritOptions {
+  tests?: TestMetadata[]; // Analyseergebnisse mit Importen und Funktionsbereichen
+  taxonomy?: FunctionalAreaTaxonomy; // Liefert die Pfade der Funktionsbereiche
+  cwd?: string; // Verzeichnis innerhalb des git-Repositorys
+  minPassingRuns?: number;
+}
+
+/**
+ * Liest die Commits eines Bereichs aus der lokalen git-Historie
+ *
+ * @param from - Letzter Commit ohne Fehler (selbst ausgeschlossen)
+ * @param to - Commit des ersten fehlgeschlagenen Laufs
+ * @returns Die Commits, neueste zuerst, oder null, wenn git den Bereich nicht kennt
+ */
+export function readCommitsBetween(
+  from: string,
+  to: string,
+  cwd: string = process.cwd(),
+): GitCommit[] | null {
+  const output = runGitCommand(
+    [
+      "log",
+      `--max-count=${MAX_COMMITS}`,
+      `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%at${FIELD_SEPARATOR}%s`,
+      "--name-only",
+      `${from}..${to}`,
+    ],
+    cwd,
+  );
+  return output === null ? null : parseGitLog(output);
+}
+
+/**
+ * Zerlegt die Ausgabe von readCommitsBetween in einzelne Commits
+ */
+export function parseGitLog(output: string): GitCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim())
+    .map((record) => {
+      const [header, ...files] = record.split("\n");
+      const [commit, author, seconds, subject] = header.split(FIELD_SEPARATOR);
+      return {
+        commit,
+        author,
+        timestamp: Number(seconds) * 1000,
+        subject: subject || "",
+        files: files.map((file) => file.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Bewertet Commits danach, ob sie Dateien des Tests geändert haben
+ *
+ * @param commits - Commits aus readCommitsBetween, neueste zuerst
+ * @param specFile - Pfad der Testdatei
+ * @param test - Analyseergebnis des Tests (für Importe und Funktionsbereiche)
+ * @param taxonomy - Taxonomie mit den Pfad-Globs der Funktionsbereiche
+ * @returns Die Commits mit Gründen, höchste Bewertung zuerst (sonst neueste zuerst)
+ */
+export function rankCommits(
+  commits: GitCommit[],
+  specFile: string,
+  test?: TestMetadata,
+  taxonomy?: FunctionalAreaTaxonomy,
+): CulpritCommit[] {
+  const specDir = path.posix.dirname(normalizePath(specFile));
+  const imports = (test?.dependencies || [])
+    .filter((dependency) => dependency.startsWith("."))
+    .map((dependency) => ({
+      dependency,
+      file: normalizePath(path.posix.join(specDir, dependency)),
+    }));
+  const areaGlobs = (taxonomy?.areas || [])
+    .filter((rule) => test?.functionalAreas.includes(rule.name))
+    .flatMap((rule) =>
+      (rule.paths || []).map((pattern) => ({ area: rule.name, pattern })),
+    );
+
+  return commits
+    .map((commit) => {
+      const reasons: CulpritReason[] = [];
+
+      for (const file of commit.files) {
+        if (isSamePath(file, specFile)) {
+          reasons.push({ kind: "spec", file });
+          continue;
+        }
+
+        const imported = imports.find((entry) =>
+          isSamePath(stripModuleSuffix(file), entry.file),
+        );
+        if (imported) {
+          reasons.push({
+            kind: "pageObject",
+            file,
+            detail: imported.dependency,
+          });
+          continue;
+        }
+
+        const area = areaGlobs.find(({ pattern }) =>
+          matchesPathGlob(pattern, normalizePath(file)),
+        );
+        if (area) {
+          reasons.push({
+            kind: "area",
+            file,
+            detail: `${area.area} (${area.pattern})`,
+          });
+        }
+      }
+
+      const kinds = new Set(reasons.map((reason) => reason.kind));
+      const score = Array.from(kinds).reduce(
+        (sum, kind) => sum + REASON_WEIGHTS[kind],
+        0,
+      );
+
+      return { ...commit, score, reasons };
+    })
+    .map((commit, index) => ({ commit, index }))
+    .sort((a, b) => b.commit.score - a.commit.score || a.index - b.index)
+    .map(({ commit }) => commit);
+}
+
+/**
+ * Lädt die gespeicherten Analyseergebnisse; ohne Datei gibt es keine
+ */
+export function loadAnalyzedTests(analysisPath: string): TestMetadata[] {
+  if (!fs.existsSync(analysisPath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(analysisPath, "utf-8"));
+}
+
+/**
+ * Culprit-Erkennung auf Basis der gespeicherten Läufe und der lokalen git-Historie
+ */
+export class CulpritDetector {
+  private repository: ResultsRepository;
+
+  /**
+   * Konstruktor
+   *
+   * @param baseDir - Basisverzeichnis für Ergebnisse
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+  ) {
+    this.repository = repository;
+  }
+
+  /**
+   * Ermittelt für die Fehlschläge eines Laufs die möglichen Culprit-Commits
+   *
+   * Berücksichtigt werden Tests, die vor dem Wechsel mindestens
+   * `minPassingRuns` Läufe in Folge bestanden haben. Läufe anderer Branches
+   * zählen nicht zum Verlauf, wenn der Lauf einen Branch hat.
+   *
+   * @param runId - ID des Laufs oder "latest" für den neuesten Lauf
+   * @returns Der Bericht oder null, wenn der Lauf nicht existiert
+   */
+  public analyzeRun(
+    runId: string,
+    options: CulpritOptions = {},
+  ): CulpritReport | null {
+    const run =
+      runId === "latest"
+        ? this.repository.getLatestRun()
+        : this.repository.getRun(runId);
+    if (!run) {
+      return null;
+    }
+
+    const branchRunIds = run.branch
+      ? new Set(
+          this.repository
+            .listRuns({ branch: run.branch, until: run.timestamp })
+            .map((summary) => summary.runId),
+        )
+      : null;
+    const commitRanges = new Map<string, GitCommit[] | string>();
+    const failures: NewFailure[] = [];
+
+    for (const test of run.testResults || []) {
+      if (!FAILING_STATUSES.includes(test.status)) continue;
+
+      const failure = this.findFlip(
+        run,
+        test,
+        branchRunIds,
+        options.minPassingRuns ?? DEFAULT_MIN_PASSING_RUNS,
+      );
+      if (!failure) continue;
+
+      const analyzed = findAnalyzedTest(options.tests || [], failure.caseId);
+      const specFile = analyzed?.file || test.path || test.filename;
+      const commits = this.findCommits(
+        failure.lastGood.commit,
+        failure.firstBad.commit,
+        options.cwd,
+        commitRanges,
+      );
+
+      if (typeof commits === "string") {
+        failure.issue = commits;
+      } else {
+        failure.commits = rankCommits(
+          commits,
+          specFile,
+          analyzed,
+          options.taxonomy,
+        );
+      }
+      failures.push(failure);
+    }
+
+    return {
+      runId: run.runId,
+      branch: run.branch,
+      commit: run.git?.commit,
+      failures,
+    };
+  }
+
+  /**
+   * Sucht den Wechsel von bestanden auf fehlgeschlagen im Verlauf eines Tests
+   *
+   * @returns Der Fehlschlag ohne Commits oder null, wenn der Test vorher nicht dauerhaft bestanden hat
+   */
+  private findFlip(
+    run: PlaywrightTestResultFile,
+    test: PlaywrightSingleTestResult,
+    branchRunIds: Set<string> | null,
+    minPassingRuns: number,
+  ): NewFailure | null {
+    const caseId = getResultTestCaseId(test);
+    const history = this.repository
+      .findTestResults({
+        testId: getTestId(test),
+        project: test.projectName,
+        until: run.timestamp,
+      })
+      .filter(
+        (record) =>
+          record.caseId === caseId &&
+          record.status !== "skipped" &&
+          (!branchRunIds || branchRunIds.has(record.runId)),
+      );
+
+    // Vom aktuellen Lauf rückwärts bis zum letzten erfolgreichen Lauf
+    let index = history.length - 1;
+    while (index >= 0 && FAILING_STATUSES.includes(history[index].status)) {
+      index--;
+    }
+
+    let passingRuns = 0;
+    while (
+      index - passingRuns >= 0 &&
+      isSuccessfulStatus(history[index - passingRuns].status)
+    ) {
+      passingRuns++;
+    }
+
+    // Der Test muss im Lauf selbst fehlschlagen und vorher bestanden haben
+    if (
+      index < 0 ||
+      index === history.length - 1 ||
+      passingRuns < minPassingRuns
+    ) {
+      return null;
+    }
+
+    return {
+      testId: getTestId(test),
+      caseId,
+      title: test.title,
+      project: test.projectName,
+      lastGood: this.toRunRef(history[index]),
+      firstBad: this.toRunRef(history[index + 1]),
+      passingRuns,
+      commits: [],
+    };
+  }
+
+  /**
+   * Liest die Commits zwischen zwei Läufen (je Bereich nur einmal)
+   *
+   * @returns Die Commits oder ein Hinweis, warum sie nicht ermittelt werden konnten
+   */
+  private findCommits(
+    lastGood: string | undefined,
+    firstBad: string | undefined,
+    cwd: string | undefined,
+    cache: Map<string, GitCommit[] | string>,
+  ): GitCommit[] | string {
+    if (!lastGood || !firstBad) {
+      return "Für den letzten erfolgreichen oder den ersten fehlgeschlagenen Lauf ist kein Commit hinterlegt";
+    }
+    if (containsCommit([lastGood], firstBad)) {
+      return "Beide Läufe haben denselben Commit – der Fehlschlag stammt vermutlich nicht aus einer Codeänderung";
+    }
+    if (
+      !COMMIT_SHA_PATTERN.test(lastGood) ||
+      !COMMIT_SHA_PATTERN.test(firstBad)
+    ) {
+      return `Commit ${lastGood} bzw. ${firstBad} ist kein gültiger SHA`;
+    }
+
+    const key = `${lastGood}..${firstBad}`;
+    if (!cache.has(key)) {
+      cache.set(
+        key,
+        readCommitsBetween(lastGood, firstBad, cwd) ||
+          `Commit-Bereich ${key} ist in der lokalen git-Historie nicht vorhanden`,
+      );
+    }
+    return cache.get(key)!;
+  }
+
+  private toRunRef(record: TestResultRecord): CulpritRunRef {
+    return {
+      runId: record.runId,
+      timestamp: record.timestamp,
+      commit: this.repository.getRun(record.runId)?.git?.commit,
+    };
+  }
+}
+
+function findAnalyzedTest(
+  tests: TestMetadata[],
+  caseId: string,
+): TestMetadata | undefined {
+  const filename = caseId.split(TEST_CASE_ID_SEPARATOR)[0];
+  return (
+    tests.find((test) => test.caseId === caseId) ||
+    tests.find(
+      (test) => path.posix.basename(normalizePath(test.file)) === filename,
+    )
+  );
+}
+
+// Einheitliche Schrägstriche, ohne führendes "./" bzw. "../"
+function normalizePath(file: string): string {
+  return path.posix
+    .normalize(file.replace(/\\/g, "/"))
+    .replace(/^(\.\.?\/)+/, "");
+}
+
+// Importe werden ohne Dateiendung angegeben und können auf index-Dateien zeigen
+function stripModuleSuffix(file: string): string {
+  return file.replace(/\.[cm]?[jt]sx?$/, "").replace(/\/index$/, "");
+}
+
+// Pfade relativ zu unterschiedlichen Verzeichnissen vergleichen
+function isSamePath(a: string, b: string): boolean {
+  const left = normalizePath(a);
+  const right = normalizePath(b);
+  return (
+    left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`)
+  );
+}
+
+export default CulpritDetector;
@@ -0,0 +1,372 @@
+/**
+ * Failure Clustering
+ *
+ * Dieses Modul fasst Testfehler mit gleicher Ursache zusammen. Fehlermeldung
+ * und Stacktrace werden normalisiert (Zeilennummern, IDs, Zeitstempel und
+ * dynamische Teile von Selektoren entfernt) und daraus eine Signatur gebildet.
+ * Fehler mit gleicher Signatur landen im selben Cluster – innerhalb eines
+ * Laufs ebenso wie über den gesamten Verlauf.
+ */
+
+import * as crypto from "crypto";
+import * as path from "path";
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../types/playwright-results";
+import { stripAnsi } from "../results/playwright-report-parser";
+import { RunFilter } from "../results/run-metadata";
+import { ResultsRepository } from "../storage/results-repository";
+import { getResultsStore, getTestId } from "../storage/results-store";
+import { getResultTestCaseId } from "./test-identity";
+import { OwnerFilter } from "./test-ownership";
+
+// Ergebnisse, deren Fehler geclustert werden
+const FAILURE_STATUSES = ["failed", "flaky", "timed-out", "interrupted"];
+
+// Ersetzungen in Anwendungsreihenfolge: spezifische Muster vor allgemeinen Zahlen
+const NORMALIZATION_RULES: Array<[RegExp, string]> = [
+  // ISO-Zeitstempel, z.B. 2025-07-10T12:00:00.000Z
+  [
+    /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+    "<timestamp>",
+  ],
+  // UUIDs
+  [
+    /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+    "<id>",
+  ],
+  // Dateipfade mit Zeile und Spalte: nur der Dateiname bleibt erhalten
+  [
+    /(?:[A-Za-z]:)?(?:[\w.@-]*[\\/])*([\w.@-]+\.[cm]?[jt]sx?):\d+(?::\d+)?/g,
+    "$1:<line>",
+  ],
+  // Hexadezimale Adressen und Hashes
+  [/\b0x[0-9a-f]+\b/gi, "<id>"],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, "<id>"],
+  // Generierte Suffixe in Selektoren, z.B. .Button_primary__a1B2c oder #item-x7k2p9
+  [/(__|[-_])(?=[A-Za-z]*\d)(?=\d*[A-Za-z])[A-Za-z0-9]{5,}\b/g, "$1<id>"],
+  // Zahlen (Indizes in nth=, IDs in Selektoren, Zeitüberschreitungen)
+  [/(?<![A-Za-z_<])\d+(?:\.\d+)?/g, "<n>"],
+];
+
+// Codeausschnitt aus Playwright-Fehlermeldungen, z.B. "> 12 |   await ..."
+const CODE_FRAME_LINE = /^\s*>?\s*\d+\s*\|/;
+
+export interface FailureSignature {
+  signature: string; // Kurzer Hash über Meldung und obersten Stackframe
+  message: string; // Normalisierte Fehlermeldung
+  frame?: string; // Normalisierter oberster Stackframe
+}
+
+// Ein von einem Cluster betroffener Test
+export interface AffectedTest {
+  testId: string; // Dateiname des Tests
+  title?: string; // Titel des Testfalls
+  project?: string; // Playwright-Projekt bzw. Browser
+  occurrences: number;
+  firstSeen: number;
+  lastSeen: number;
+  lastRunId: string;
+}
+
+export interface FailureCluster {
+  signature: string;
+  message: string; // Normalisierte Fehlermeldung
+  frame?: string; // Normalisierter oberster Stackframe
+  sampleMessage: string; // Zuletzt aufgetretene Originalmeldung
+  sampleStack?: string;
+  occurrences: number; // Anzahl der Fehler mit dieser Signatur
+  runCount: number; // Anzahl der betroffenen Läufe
+  firstSeen: number; // Zeitstempel des ersten betroffenen Laufs
+  lastSeen: number; // Zeitstempel des letzten betroffenen Laufs
+  affectedTests: AffectedTest[]; // Nach letztem Auftreten sortiert
+}
+
+export interface FailureClusterQuery {
+  days?: number; // Zeitraum rückwirkend (Standard: 30 Tage)
+  project?: string; // Nur Fehler dieses Playwright-Projekts
+  runId?: string; // Nur Fehler dieses Laufs
+  owner?: OwnerFilter; // Nur Fehler von Tests dieses Owners
+  runs?: RunFilter; // Nur Fehler aus Läufen eines Branches bzw. Commit-Bereichs
+  limit?: number; // Maximale Anzahl Cluster
+}
+
+export interface FailureClusterReport {
+  clusters: FailureCluster[];
+  totalFailures: number; // Fehler mit Meldung im Zeitraum bzw. Lauf
+  runsAnalyzed: number;
+  project?: string;
+  runId?: string;
+  owner?: string;
+  branch?: string;
+  commitRange?: string;
+  timePeriod: {
+    start: number;
+    end: number;
+  };
+}
+
+/**
+ * Entfernt veränderliche Bestandteile aus einem Fehlertext
+ *
+ * Zeilennummern, IDs, Zeitstempel, Zahlen und generierte Selektor-Suffixe
+ * werden durch Platzhalter ersetzt, Leerraum wird zusammengefasst.
+ */
+export function normalizeErrorText(text: string): string {
+  let normalized = stripAnsi(text);
+
+  for (const [pattern, replacement] of NORMALIZATION_RULES) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Bildet die Signatur eines Testfehlers
+ *
+ * Berücksichtigt werden die Fehlermeldung ohne Codeausschnitt und
+ * Call-Log sowie der oberste Stackframe.
+ */
+export function getFailureSignature(error: {
+  message: string;
+  stack?: string;
+}): FailureSignature {
+  const messageLines: string[] = [];
+  for (const line of stripAnsi(error.message || "").split("\n")) {
+    if (/^\s*Call log:/.test(line)) break;
+    if (CODE_FRAME_LINE.test(line)) continue;
+    messageLines.push(line);
+  }
+
+  const message = normalizeErrorText(messageLines.join("\n"));
+  const frameLine = stripAnsi(error.stack || "")
+    .split("\n")
+    .find((line) => /^\s*at\s/.test(line));
+  const frame = frameLine ? normalizeErrorText(frameLine) : undefined;
+
+  const signature = crypto
+    .createHash("sha1")
+    .update(`${message}\n${frame || ""}`)
+    .digest("hex")
+    .substring(0, 12);
+
+  return { signature, message, frame };
+}
+
+/**
+ * Gruppiert die Fehler mehrerer Läufe nach Signatur
+ *
+ * @param runs - Testläufe in beliebiger Reihenfolge
+ * @param project - Optional: nur Fehler dieses Playwright-Projekts
+ * @param owner - Optional: nur Fehler von Tests dieses Owners bzw. Teams
+ * @returns Cluster, häufigste zuerst
+ */
+export function clusterFailures(
+  runs: PlaywrightTestResultFile[],
+  project?: string,
+  owner?: OwnerFilter,
+): FailureCluster[] {
+  const clusters = new Map<string, FailureCluster>();
+  const runIds = new Map<string, Set<string>>();
+  const sortedRuns = [...runs].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const run of sortedRuns) {
+    for (const test of run.testResults || []) {
+      if (!isClusterableFailure(test, project, owner)) continue;
+
+      const failure = getFailureSignature(test.error!);
+      let cluster = clusters.get(failure.signature);
+      if (!cluster) {
+        cluster = {
+          signature: failure.signature,
+          message: failure.message,
+          frame: failure.frame,
+          sampleMessage: "",
+          occurrences: 0,
+          runCount: 0,
+          firstSeen: run.timestamp,
+          lastSeen: run.timestamp,
+          affectedTests: [],
+        };
+        clusters.set(failure.signature, cluster);
+        runIds.set(failure.signature, new Set());
+      }
+
+      cluster.occurrences++;
+      cluster.lastSeen = run.timestamp;
+      cluster.sampleMessage = stripAnsi(test.error!.message);
+      cluster.sampleStack = test.error!.stack
+        ? stripAnsi(test.error!.stack)
+        : undefined;
+      runIds.get(failure.signature)!.add(run.runId);
+
+      addAffectedTest(cluster, test, run);
+    }
+  }
+
+  return Array.from(clusters.values())
+    .map((cluster) => {
+      cluster.runCount = runIds.get(cluster.signature)!.size;
+      cluster.affectedTests.sort((a, b) => b.lastSeen - a.lastSeen);
+      return cluster;
+    })
+    .sort((a, b) => b.occurrences - a.occurrences || b.lastSeen - a.lastSeen);
+}
+
+export class FailureClusterAnalyzer {
+  private repository: ResultsRepository;
+
+  /**
+   * Konstruktor
+   *
+   * @param baseDir - Basisverzeichnis für Ergebnisse
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+  ) {
+    this.repository = repository;
+  }
+
+  /**
+   * Liefert die Fehlercluster eines Zeitraums oder eines einzelnen Laufs
+   *
+   * Bei Angabe eines Laufs beziehen sich firstSeen und lastSeen auf den
+   * gesamten Verlauf bis zu diesem Lauf, sodass neue Fehlerbilder erkennbar
+   * sind.
+   *
+   * @returns Der Bericht oder null, wenn der angegebene Lauf nicht existiert
+   */
+  public getClusters(
+    query: FailureClusterQuery = {},
+  ): FailureClusterReport | null {
+    const { project, runId, owner, runs } = query;
+    let clusters: FailureCluster[];
+    let runsAnalyzed: number;
+    let timePeriod: FailureClusterReport["timePeriod"];
+
+    if (runId) {
+      const run = this.repository.getRun(runId);
+      if (!run) {
+        return null;
+      }
+
+      const history = new Map(
+        clusterFailures(
+          this.loadRuns({ until: run.timestamp, project }, runs),
+          project,
+          owner,
+        ).map((cluster) => [cluster.signature, cluster]),
+      );
+
+      clusters = clusterFailures([run], project, owner).map((cluster) => {
+        const previous = history.get(cluster.signature);
+        return previous
+          ? { ...cluster, firstSeen: previous.firstSeen }
+          : cluster;
+      });
+      runsAnalyzed = 1;
+      timePeriod = { start: run.timestamp, end: run.timestamp };
+    } else {
+      const end = Date.now();
+      const start = end - (query.days ?? 30) * 24 * 60 * 60 * 1000;
+      const periodRuns = this.loadRuns(
+        { since: start, until: end, project },
+        runs,
+      );
+
+      clusters = clusterFailures(periodRuns, project, owner);
+      runsAnalyzed = periodRuns.length;
+      timePeriod = { start, end };
+    }
+
+    const totalFailures = clusters.reduce(
+      (sum, cluster) => sum + cluster.occurrences,
+      0,
+    );
+
+    return {
+      clusters: query.limit ? clusters.slice(0, query.limit) : clusters,
+      totalFailures,
+      runsAnalyzed,
+      project,
+      runId,
+      owner: owner?.owner,
+      branch: runs?.branch,
+      commitRange: runs?.commitRange,
+      timePeriod,
+    };
+  }
+
+  private loadRuns(
+    query: {
+      since?: number;
+      until?: number;
+      project?: string;
+    },
+    runs?: RunFilter,
+  ): PlaywrightTestResultFile[] {
+    return this.repository
+      .listRuns(query)
+      .filter((summary) => !runs || runs.runIds.has(summary.runId))
+      .map((summary) => this.repository.getRun(summary.runId))
+      .filter((run): run is PlaywrightTestResultFile => run !== null);
+  }
+}
+
+function isClusterableFailure(
+  test: PlaywrightSingleTestResult,
+  project?: string,
+  owner?: OwnerFilter,
+): boolean {
+  if (!FAILURE_STATUSES.includes(test.status) || !test.error?.message) {
+    return false;
+  }
+  if (project && test.projectName !== project) {
+    return false;
+  }
+
+  return (
+    !owner ||
+    owner.ownership.owns(owner.owner, {
+      file: test.path || test.filename,
+      caseId: getResultTestCaseId(test),
+    })
+  );
+}
+
+function addAffectedTest(
+  cluster: FailureCluster,
+  test: PlaywrightSingleTestResult,
+  run: PlaywrightTestResultFile,
+): void {
+  const testId = getTestId(test);
+  const existing = cluster.affectedTests.find(
+    (affected) =>
+      affected.testId === testId &&
+      affected.title === test.title &&
+      affected.project === test.projectName,
+  );
+
+  if (existing) {
+    existing.occurrences++;
+    existing.lastSeen = run.timestamp;
+    existing.lastRunId = run.runId;
+    return;
+  }
+
+  cluster.affectedTests.push({
+    testId,
+    title: test.title,
+    project: test.projectName,
+    occurrences: 1,
+    firstSeen: run.timestamp,
+    lastSeen: run.timestamp,
+    lastRunId: run.runId,
+  });
+}
+
+export default FailureClusterAnalyzer;
@@ -5,20 +5,38 @@
  * Es analysiert Testlaufmuster, um instabile Tests zu identifizieren und entsprechend zu bewerten.
  */
 
-import * as fs from "fs";
 import * as path from "path";
 import {
   PlaywrightTestResultFile,
   PlaywrightSingleTestResult,
 } from "../../types/playwright-results";
+import {
+  DOCUMENT_KEYS,
+  ResultsRepository,
+} from "../storage/results-repository";
+import { getResultsStore } from "../storage/results-store";
+import { DAY_MS } from "./history-retention";
 import SuccessRateTracker, {
+  ProjectComparison,
   ProjectSuccessRates,
   TestHistoryEntry,
+  buildProjectComparison,
+  getProjectName,
+  getProjectNames,
+  isSuccessfulStatus,
 } from "./success-rate-tracker";
+import { RunFilter } from "../results/run-metadata";
+import { OwnerFilter } from "./test-ownership";
+
+// Gewicht der Wiederholungs-Erholungen im Flakiness-Score
+const RETRY_RECOVERY_WEIGHT = 0.6;
 
 export interface FlakinessMeasure {
   testId: string; // Eindeutige Test-ID
+  caseId?: string; // ID des Testfalls (Dateiname › describe-Pfad › Titel), fehlt bei Altdaten
+  title?: string; // Titel des Testfalls
   testName: string; // Menschenlesbarer Testname
+  project?: string; // Playwright-Projekt bzw. Browser
   flakinessScore: number; // Flakiness-Score (0-100, höher = instabiler)
   confidence: number; // Konfidenz der Bewertung (0-100%)
   lastChanged: number; // Zeitpunkt der letzten Statusänderung
@@ -27,6 +45,8 @@ export interface FlakinessMeasure {
   alternatingPattern: boolean; // Zeigt alternierenden Erfolg/Fehlschlagmuster
   timeoutPattern: boolean; // Zeigt zeitüberschreitungsbasierte Instabilität
   durationVariance: number; // Varianz der Laufzeit (%)
+  retryRecoveries: number; // Läufe, die erst bei einer Wiederholung bestanden haben
+  lastStatus: string; // Status des letzten Laufs (inkl. "flaky")
   detectedPatterns: string[]; // Erkannte Instabilitätsmuster
   recommendations: string[]; // Empfehlungen zur Behebung
 }
@@ -37,6 +57,12 @@ export interface ProjectFlakinessReport {
   flakyTestsCount: number; // Anzahl der instabilen Tests
   flakinessThreshold: number; // Schwellenwert für die Einstufung als instabil
   flakinessMeasures: FlakinessMeasure[]; // Einzelne Test-Flakiness-Messungen
+  retryRecoveredTestsCount: number; // Tests mit mindestens einer Erholung durch Wiederholung
+  statusCounts: FlakinessStatusCounts; // Verteilung der Laufergebnisse im Zeitraum
+  project?: string; // Gesetzt, wenn der Bericht auf ein Projekt beschränkt ist
+  owner?: string; // Gesetzt, wenn der Bericht auf einen Owner beschränkt ist
+  branch?: string; // Gesetzt, wenn der Bericht auf einen Branch beschränkt ist
+  commitRange?: string; // Gesetzt, wenn der Bericht auf einen Commit-Bereich beschränkt ist
   lastUpdated: number; // Zeitpunkt der letzten Aktualisierung
   timePeriod: {
     // Analysezeitraum
@@ -45,9 +71,25 @@ export interface ProjectFlakinessReport {
   };
 }
 
+// Anzahl der Testausführungen pro Ergebnis
+export interface FlakinessStatusCounts {
+  passed: number; // Ohne Wiederholung bestanden
+  flaky: number; // Fehlgeschlagen, bei einer Wiederholung bestanden
+  failed: number; // Fehlgeschlagen (inkl. Zeitüberschreitung und Abbruch)
+  skipped: number; // Übersprungen
+}
+
+// Zusammenfassung der Flakiness eines Projekts
+export interface ProjectFlakinessSummary {
+  project: string; // Projektname oder DEFAULT_PROJECT_NAME
+  overallFlakinessScore: number;
+  totalTestsAnalyzed: number;
+  flakyTestsCount: number;
+  retryRecoveredTestsCount: number;
+}
+
 export class FlakinessAnalyzer {
-  private resultsDir: string;
-  private storageFile: string;
+  private repository: ResultsRepository;
   private flakinessThreshold: number;
   private minRunsForAnalysis: number;
   private successRateTracker: SuccessRateTracker;
@@ -58,78 +100,78 @@ export class FlakinessAnalyzer {
    * @param baseDir - Basisverzeichnis für Ergebnisse
    * @param threshold - Schwellenwert für die Flakiness-Einstufung (0-100)
    * @param minRuns - Mindestanzahl der Ausführungen für eine Analyse
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
    */
   constructor(
     baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
     threshold: number = 30,
     minRuns: number = 3,
+    repository: ResultsRepository = getResultsStore(baseDir),
   ) {
-    this.resultsDir = path.join(baseDir, "results");
-    this.storageFile = path.join(this.resultsDir, "flakiness-report.json");
+    this.repository = repository;
     this.flakinessThreshold = threshold;
     this.minRunsForAnalysis = minRuns;
-    this.successRateTracker = new SuccessRateTracker(baseDir);
-
-    // Stelle sicher, dass das Ergebnisverzeichnis existiert
-    if (!fs.existsSync(this.resultsDir)) {
-      fs.mkdirSync(this.resultsDir, { recursive: true });
-    }
+    this.successRateTracker = new SuccessRateTracker(
+      baseDir,
+      undefined,
+      repository,
+    );
   }
 
   /**
    * Führt eine vollständige Flakiness-Analyse durch
    *
    * @param days - Anzahl der Tage für die Analyse rückwirkend
+   * @param project - Optional: nur Tests dieses Playwright-Projekts bzw. Browsers
+   * @param owner - Optional: nur Tests dieses Owners bzw. Teams
+   * @param runs - Optional: nur Ausführungen dieser Läufe (Branch bzw. Commit-Bereich)
    * @returns Der Flakiness-Bericht
    */
-  public analyzeFlakiness(days: number = 14): ProjectFlakinessReport {
-    // Verwende den Erfolgsraten-Tracker, um Testdaten zu laden
+  public analyzeFlakiness(
+    days: number = 14,
+    project?: string,
+    owner?: OwnerFilter,
+    runs?: RunFilter,
+  ): ProjectFlakinessReport {
     const endDate = new Date();
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const successRates = this.successRateTracker.getSuccessRatesForPeriod(
-      startDate,
-      endDate,
-    );
-    const report = this.initializeReport(
-      successRates.timeRange.start,
-      successRates.timeRange.end,
-    );
-
-    for (const test of successRates.testSuccessRates) {
-      // Ignoriere Tests mit zu wenigen Ausführungen für eine zuverlässige Analyse
-      if (test.totalRuns < this.minRunsForAnalysis) continue;
-
-      const measure = this.calculateFlakiness(test);
-      if (measure) {
-        report.flakinessMeasures.push(measure);
+    const report = this.buildReport(startDate, endDate, project, owner, runs);
 
-        // Zähle instabile Tests
-        if (measure.flakinessScore >= this.flakinessThreshold) {
-          report.flakyTestsCount++;
-        }
-      }
+    // Gespeichert wird nur der ungefilterte Gesamtbericht
+    if (!project && !owner && !runs) {
+      this.saveReport(report);
     }
 
-    // Aktualisiere Zähler und berechne Gesamtflakiness
-    report.totalTestsAnalyzed = report.flakinessMeasures.length;
-    report.overallFlakinessScore = this.calculateOverallFlakiness(report);
-    report.lastUpdated = Date.now();
-
-    this.saveReport(report);
-
     return report;
   }
 
+  /**
+   * Analysiert die Flakiness zu einem früheren Zeitpunkt, ohne den
+   * gespeicherten Bericht zu verändern
+   *
+   * @param end - Zeitstempel, bis zu dem Ausführungen berücksichtigt werden (inklusiv)
+   * @param days - Anzahl der Tage vor `end`, die in die Analyse eingehen
+   * @returns Der Flakiness-Bericht für diesen Zeitpunkt
+   */
+  public analyzeFlakinessUntil(
+    end: number,
+    days: number = 14,
+  ): ProjectFlakinessReport {
+    return this.buildReport(new Date(end - days * DAY_MS), new Date(end));
+  }
+
   /**
    * Lädt den gespeicherten Flakiness-Bericht
    */
   public loadReport(): ProjectFlakinessReport {
     try {
-      if (fs.existsSync(this.storageFile)) {
-        const data = fs.readFileSync(this.storageFile, "utf-8");
-        return JSON.parse(data);
+      const report = this.repository.getDocument<ProjectFlakinessReport>(
+        DOCUMENT_KEYS.flakinessReport,
+      );
+      if (report) {
+        return report;
       }
     } catch (error) {
       console.error("Fehler beim Laden des Flakiness-Berichts:", error);
@@ -147,12 +189,8 @@ export class FlakinessAnalyzer {
    */
   public saveReport(report: ProjectFlakinessReport): void {
     try {
-      fs.writeFileSync(
-        this.storageFile,
-        JSON.stringify(report, null, 2),
-        "utf-8",
-      );
-      console.log(`Flakiness-Bericht gespeichert unter ${this.storageFile}`);
+      this.repository.saveDocument(DOCUMENT_KEYS.flakinessReport, report);
+      console.log("Flakiness-Bericht gespeichert");
     } catch (error) {
       console.error("Fehler beim Speichern des Flakiness-Berichts:", error);
     }
@@ -173,14 +211,146 @@ export class FlakinessAnalyzer {
 
   /**
    * Gibt die instabilsten Tests zurück, sortiert nach Flakiness-Score
+   *
+   * @param limit - Maximale Anzahl Tests
+   * @param runs - Optional: nur Ausführungen dieser Läufe (statt des gespeicherten Berichts)
    */
-  public getMostFlakyTests(limit: number = 10): FlakinessMeasure[] {
-    const report = this.loadReport();
+  public getMostFlakyTests(
+    limit: number = 10,
+    runs?: RunFilter,
+  ): FlakinessMeasure[] {
+    const report = runs
+      ? this.analyzeFlakiness(undefined, undefined, undefined, runs)
+      : this.loadReport();
     return report.flakinessMeasures
       .sort((a, b) => b.flakinessScore - a.flakinessScore)
       .slice(0, limit);
   }
 
+  /**
+   * Fasst die Flakiness pro Projekt bzw. Browser zusammen
+   *
+   * @param report - Flakiness-Bericht über alle Projekte
+   * @returns Eine Zusammenfassung pro Projekt, alphabetisch sortiert
+   */
+  public getProjectBreakdown(
+    report: ProjectFlakinessReport,
+  ): ProjectFlakinessSummary[] {
+    return getProjectNames(report.flakinessMeasures).map((project) => {
+      const measures = report.flakinessMeasures.filter(
+        (measure) => getProjectName(measure) === project,
+      );
+
+      return {
+        project,
+        overallFlakinessScore: this.calculateOverallFlakiness({
+          ...report,
+          flakinessMeasures: measures,
+        }),
+        totalTestsAnalyzed: measures.length,
+        flakyTestsCount: measures.filter(
+          (measure) => measure.flakinessScore >= report.flakinessThreshold,
+        ).length,
+        retryRecoveredTestsCount: measures.filter(
+          (measure) => (measure.retryRecoveries || 0) > 0,
+        ).length,
+      };
+    });
+  }
+
+  /**
+   * Erstellt eine Vergleichsmatrix der Flakiness-Scores pro Test und Projekt
+   *
+   * @param report - Flakiness-Bericht über alle Projekte
+   * @returns Matrix mit den Tests, die sich zwischen den Projekten am stärksten unterscheiden, zuerst
+   */
+  public getProjectComparison(
+    report: ProjectFlakinessReport,
+  ): ProjectComparison {
+    return buildProjectComparison(
+      report.flakinessMeasures,
+      (measure) => measure.flakinessScore,
+    );
+  }
+
+  /**
+   * Erstellt den Flakiness-Bericht für einen Zeitraum
+   */
+  private buildReport(
+    startDate: Date,
+    endDate: Date,
+    project?: string,
+    owner?: OwnerFilter,
+    runs?: RunFilter,
+  ): ProjectFlakinessReport {
+    // Verwende den Erfolgsraten-Tracker, um Testdaten zu laden
+    let successRates = this.successRateTracker.getSuccessRatesForPeriod(
+      startDate,
+      endDate,
+    );
+    if (project) {
+      successRates = this.successRateTracker.filterByProject(
+        successRates,
+        project,
+      );
+    }
+    if (owner) {
+      successRates = this.successRateTracker.filterByOwner(successRates, owner);
+    }
+    if (runs) {
+      successRates = this.successRateTracker.filterByRuns(successRates, runs);
+    }
+
+    const report = this.initializeReport(
+      successRates.timeRange.start,
+      successRates.timeRange.end,
+    );
+    if (project) {
+      report.project = project;
+    }
+    if (owner) {
+      report.owner = owner.owner;
+    }
+    if (runs?.branch) {
+      report.branch = runs.branch;
+    }
+    if (runs?.commitRange) {
+      report.commitRange = runs.commitRange;
+    }
+
+    for (const test of successRates.testSuccessRates) {
+      this.countStatuses(test.history || [], report.statusCounts);
+
+      // Ignoriere Tests mit zu wenigen Ausführungen für eine zuverlässige Analyse,
+      // es sei denn, sie haben sich bereits innerhalb eines Laufs durch Wiederholung erholt
+      if (
+        test.totalRuns < this.minRunsForAnalysis &&
+        !this.hasRetryRecovery(test.history)
+      )
+        continue;
+
+      const measure = this.calculateFlakiness(test);
+      if (measure) {
+        report.flakinessMeasures.push(measure);
+
+        // Zähle instabile Tests
+        if (measure.flakinessScore >= this.flakinessThreshold) {
+          report.flakyTestsCount++;
+        }
+        if (measure.retryRecoveries > 0) {
+          report.retryRecoveredTestsCount++;
+        }
+      }
+    }
+
+    // Aktualisiere Zähler und berechne Gesamtflakiness
+    report.totalTestsAnalyzed = report.flakinessMeasures.length;
+    report.overallFlakinessScore = this.calculateOverallFlakiness(report);
+    report.lastUpdated = Date.now();
+
+    return report;
+  }
+
   /**
    * Initialisiert einen neuen Flakiness-Bericht
    */
@@ -194,6 +364,8 @@ export class FlakinessAnalyzer {
       flakyTestsCount: 0,
       flakinessThreshold: this.flakinessThreshold,
       flakinessMeasures: [],
+      retryRecoveredTestsCount: 0,
+      statusCounts: { passed: 0, flaky: 0, failed: 0, skipped: 0 },
       lastUpdated: Date.now(),
       timePeriod: {
         start: startTime,
@@ -208,20 +380,37 @@ export class FlakinessAnalyzer {
   private calculateFlakiness(testRate: any): FlakinessMeasure | null {
     // Extrahiere die benötigten Daten aus dem Erfolgsraten-Objekt
     const history = testRate.history;
-    if (!history || history.length < this.minRunsForAnalysis) return null;
+    if (
+      !history ||
+      history.length === 0 ||
+      (history.length < this.minRunsForAnalysis &&
+        !this.hasRetryRecovery(history))
+    )
+      return null;
 
     const testId = testRate.testId;
     const testName = testRate.testName;
     const runCount = history.length;
 
+    // Erholungen durch Wiederholung innerhalb eines Laufs
+    const retryRecoveries = history.filter(
+      (h: TestHistoryEntry) => h.status === "flaky",
+    ).length;
+
+    // Für Statuswechsel zwischen Läufen zählt ein bei Wiederholung
+    // bestandener Lauf als bestanden; er wird separat gewichtet
+    const runStatuses: string[] = history.map((h: TestHistoryEntry) =>
+      isSuccessfulStatus(h.status) ? "passed" : h.status,
+    );
+
     // Zähle Statusänderungen
     let statusChanges = 0;
     let timeouts = 0;
     let durations: number[] = [];
 
     for (let i = 1; i < history.length; i++) {
-      const prevStatus = history[i - 1].status;
-      const currStatus = history[i].status;
+      const prevStatus = runStatuses[i - 1];
+      const currStatus = runStatuses[i];
 
       if (prevStatus !== currStatus) {
         statusChanges++;
@@ -236,7 +425,9 @@ export class FlakinessAnalyzer {
 
     // Berechne Laufzeitvarianz
     const avgDuration =
-      durations.reduce((sum, val) => sum + val, 0) / durations.length;
+      durations.length > 0
+        ? durations.reduce((sum, val) => sum + val, 0) / durations.length
+        : 0;
     const durationVariance =
       avgDuration > 0
         ? (Math.sqrt(
@@ -250,12 +441,14 @@ export class FlakinessAnalyzer {
         : 0;
 
     // Erkenne Muster
-    const alternatingPattern = this.detectAlternatingPattern(
-      history.map((h: TestHistoryEntry) => h.status),
-    );
+    const alternatingPattern = this.detectAlternatingPattern(runStatuses);
     const timeoutPattern = timeouts > 0;
     const detectedPatterns = [];
 
+    if (retryRecoveries > 0)
+      detectedPatterns.push(
+        `Bestanden nach Wiederholung (${retryRecoveries} von ${runCount} Läufen)`,
+      );
     if (alternatingPattern)
       detectedPatterns.push("Alternierendes Erfolg/Fehlschlag-Muster");
     if (timeoutPattern) detectedPatterns.push("Zeitüberschreitungs-Muster");
@@ -263,23 +456,30 @@ export class FlakinessAnalyzer {
 
     // Berechne Flakiness-Score
     // Gewichtete Summe aus verschiedenen Faktoren
-    const statusChangeFactor = Math.min(
-      100,
-      (statusChanges / (runCount - 1)) * 100,
-    );
+    const statusChangeFactor =
+      runCount > 1 ? Math.min(100, (statusChanges / (runCount - 1)) * 100) : 0;
     const timeoutFactor = Math.min(100, (timeouts / runCount) * 100);
     const durationFactor = Math.min(100, durationVariance / 2);
     const alternatingFactor = alternatingPattern ? 100 : 0;
 
+    const retryRecoveryFactor = (retryRecoveries / runCount) * 100;
+
     // Gewichtete Berechnung des Flakiness-Scores
-    const flakinessScore = Math.min(
+    let flakinessScore = Math.min(
       100,
       statusChangeFactor * 0.4 +
         timeoutFactor * 0.2 +
         durationFactor * 0.2 +
-        alternatingFactor * 0.2,
+        alternatingFactor * 0.2 +
+        retryRecoveryFactor * RETRY_RECOVERY_WEIGHT,
     );
 
+    // Ein Fehlschlag mit anschließendem Erfolg im selben Lauf ist ein
+    // eindeutiger Instabilitätsnachweis: der Test gilt mindestens als instabil
+    if (retryRecoveries > 0) {
+      flakinessScore = Math.max(flakinessScore, this.flakinessThreshold);
+    }
+
     // Berechne Konfidenz basierend auf der Anzahl der Testläufe
     // Je mehr Läufe, desto höher die Konfidenz
     const confidence = Math.min(100, (runCount / 10) * 100);
@@ -290,11 +490,15 @@ export class FlakinessAnalyzer {
       timeoutPattern,
       durationVariance,
       statusChangeFactor,
+      retryRecoveries,
     );
 
     return {
       testId,
+      caseId: testRate.caseId,
+      title: testRate.title,
       testName,
+      project: testRate.project,
       flakinessScore,
       confidence,
       lastChanged: history[history.length - 1].timestamp,
@@ -303,11 +507,35 @@ export class FlakinessAnalyzer {
       alternatingPattern,
       timeoutPattern,
       durationVariance,
+      retryRecoveries,
+      lastStatus: history[history.length - 1].status,
       detectedPatterns,
       recommendations,
     };
   }
 
+  /**
+   * Prüft, ob ein Test sich in mindestens einem Lauf durch Wiederholung erholt hat
+   */
+  private hasRetryRecovery(history: TestHistoryEntry[] | undefined): boolean {
+    return (history || []).some((h) => h.status === "flaky");
+  }
+
+  /**
+   * Zählt die Laufergebnisse eines Testverlaufs nach Status
+   */
+  private countStatuses(
+    history: TestHistoryEntry[],
+    counts: FlakinessStatusCounts,
+  ): void {
+    for (const entry of history) {
+      if (entry.status === "passed") counts.passed++;
+      else if (entry.status === "flaky") counts.flaky++;
+      else if (entry.status === "skipped") counts.skipped++;
+      else counts.failed++;
+    }
+  }
+
   /**
    * Erkennt ein alternierendes Muster (pass/fail/pass/fail)
    */
@@ -334,9 +562,16 @@ export class FlakinessAnalyzer {
     timeoutPattern: boolean,
     durationVariance: number,
     statusChangeRate: number,
+    retryRecoveries: number = 0,
   ): string[] {
     const recommendations = [];
 
+    if (retryRecoveries > 0) {
+      recommendations.push(
+        "Analysieren Sie die Traces der fehlgeschlagenen Versuche – Wiederholungen verdecken die Instabilität nur.",
+      );
+    }
+
     if (alternatingPattern) {
       recommendations.push(
         "Überprüfen Sie Abhängigkeiten zu anderen Tests oder externen Zuständen.",
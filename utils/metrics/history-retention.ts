@@ -0,0 +1,304 @@
+/**
+ * History Retention
+ *
+ * Dieses Modul legt fest, wie lange der Ausführungsverlauf einzelner Tests
+ * erhalten bleibt. Junge Einträge bleiben einzeln gespeichert, ältere werden
+ * zu Tagesaggregaten verdichtet und erst nach Ablauf der Höchstdauer gelöscht.
+ * So bleiben auch Trends über lange Zeiträume aussagekräftig.
+ */
+
+import { TestHistoryEntry, TestSuccessRate } from "./success-rate-tracker";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Aufbewahrungsregeln für einen Test
+export interface RetentionSettings {
+  rawHistoryDays?: number; // Einträge jünger als n Tage bleiben einzeln erhalten
+  maxRawEntries?: number; // Höchstens n Einzeleinträge pro Test (ohne Angabe unbegrenzt)
+  maxAgeDays?: number; // Daten älter als n Tage werden gelöscht, auch Aggregate (ohne Angabe nie)
+}
+
+export interface RetentionPolicy extends RetentionSettings {
+  projects?: Record<string, RetentionSettings>; // Abweichende Regeln pro Playwright-Projekt
+}
+
+// Zusammengefasste Ausführungen eines Tests an einem Kalendertag (UTC)
+export interface DailyAggregate {
+  date: string; // YYYY-MM-DD
+  timestamp: number; // Tagesbeginn (UTC)
+  runs: number;
+  passed: number;
+  flaky: number;
+  failed: number;
+  skipped: number;
+  totalDuration: number; // Summe der Laufzeiten in ms
+}
+
+export interface HistoryCompactionResult {
+  testsCompacted: number; // Tests, deren Verlauf verändert wurde
+  entriesAggregated: number; // In Tagesaggregate übernommene Einzeleinträge
+  entriesRemoved: number; // Gelöschte Einzeleinträge und Aggregat-Läufe
+  compactedAt: number;
+}
+
+// Ein Abschnitt des Verlaufs: ein Einzeleintrag oder ein Tagesaggregat
+export interface HistoryBucket {
+  timestamp: number;
+  runs: number;
+  successfulRuns: number; // Inklusive bei Wiederholung bestandener Läufe
+  flakyRuns: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rawHistoryDays: 30,
+  maxAgeDays: 365,
+};
+
+const SETTING_KEYS: Array<keyof RetentionSettings> = [
+  "rawHistoryDays",
+  "maxRawEntries",
+  "maxAgeDays",
+];
+
+/**
+ * Ermittelt die für ein Projekt geltenden Aufbewahrungsregeln
+ *
+ * @param policy - Die vollständige Richtlinie
+ * @param project - Projektname (DEFAULT_PROJECT_NAME für Tests ohne Projekt)
+ */
+export function resolveRetentionSettings(
+  policy: RetentionPolicy,
+  project: string,
+): RetentionSettings {
+  const settings: RetentionSettings = {
+    rawHistoryDays: policy.rawHistoryDays,
+    maxRawEntries: policy.maxRawEntries,
+    maxAgeDays: policy.maxAgeDays,
+  };
+
+  const override = policy.projects?.[project];
+  if (override) {
+    for (const key of SETTING_KEYS) {
+      if (override[key] !== undefined) {
+        settings[key] = override[key];
+      }
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Prüft eine Richtlinie auf ungültige Werte
+ *
+ * @returns Liste der Fehlermeldungen (leer, wenn gültig)
+ */
+export function validateRetentionPolicy(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Die Aufbewahrungsrichtlinie muss ein Objekt sein"];
+  }
+
+  const policy = value as RetentionPolicy;
+  const issues = validateSettings(policy, "");
+
+  if (policy.projects !== undefined) {
+    if (
+      !policy.projects ||
+      typeof policy.projects !== "object" ||
+      Array.isArray(policy.projects)
+    ) {
+      issues.push(
+        "projects muss ein Objekt mit Projektnamen als Schlüssel sein",
+      );
+    } else {
+      for (const [project, settings] of Object.entries(policy.projects)) {
+        issues.push(...validateSettings(settings, `projects.${project}.`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+function validateSettings(
+  settings: RetentionSettings,
+  prefix: string,
+): string[] {
+  const issues: string[] = [];
+
+  for (const key of SETTING_KEYS) {
+    const setting = settings?.[key];
+    if (setting === undefined || setting === null) continue;
+
+    if (!Number.isInteger(setting) || setting < 1) {
+      issues.push(`${prefix}${key} muss eine positive ganze Zahl sein`);
+    }
+  }
+
+  if (
+    settings?.rawHistoryDays &&
+    settings.maxAgeDays &&
+    settings.rawHistoryDays > settings.maxAgeDays
+  ) {
+    issues.push(`${prefix}rawHistoryDays darf maxAgeDays nicht überschreiten`);
+  }
+
+  return issues;
+}
+
+/**
+ * Wendet die Aufbewahrungsregeln auf den Verlauf eines Tests an
+ *
+ * Einzeleinträge außerhalb von rawHistoryDays bzw. über maxRawEntries werden
+ * zu Tagesaggregaten verdichtet, Daten älter als maxAgeDays gelöscht.
+ * Der Test wird direkt verändert.
+ *
+ * @returns Anzahl der verdichteten und gelöschten Einträge
+ */
+export function compactTestHistory(
+  test: TestSuccessRate,
+  settings: RetentionSettings,
+  now: number = Date.now(),
+): { entriesAggregated: number; entriesRemoved: number } {
+  const history = [...(test.history || [])].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+  const expiry = settings.maxAgeDays ? now - settings.maxAgeDays * DAY_MS : 0;
+  const rawCutoff = settings.rawHistoryDays
+    ? now - settings.rawHistoryDays * DAY_MS
+    : 0;
+
+  let entriesAggregated = 0;
+  let entriesRemoved = 0;
+  const aggregates = new Map<string, DailyAggregate>(
+    (test.dailyAggregates || []).map((aggregate) => [
+      aggregate.date,
+      { ...aggregate },
+    ]),
+  );
+
+  // Überzählige Einzeleinträge (die ältesten) werden ebenfalls verdichtet
+  const overflow = settings.maxRawEntries
+    ? Math.max(0, history.length - settings.maxRawEntries)
+    : 0;
+
+  const kept: TestHistoryEntry[] = [];
+  history.forEach((entry, index) => {
+    if (entry.timestamp < expiry) {
+      entriesRemoved++;
+    } else if (entry.timestamp < rawCutoff || index < overflow) {
+      addToAggregate(aggregates, entry);
+      entriesAggregated++;
+    } else {
+      kept.push(entry);
+    }
+  });
+
+  // Aggregate, deren Tag vollständig abgelaufen ist, werden gelöscht
+  for (const [date, aggregate] of aggregates) {
+    if (aggregate.timestamp + DAY_MS <= expiry) {
+      entriesRemoved += aggregate.runs;
+      aggregates.delete(date);
+    }
+  }
+
+  test.history = kept;
+  const dailyAggregates = Array.from(aggregates.values()).sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+  if (dailyAggregates.length > 0) {
+    test.dailyAggregates = dailyAggregates;
+  } else {
+    delete test.dailyAggregates;
+  }
+
+  return { entriesAggregated, entriesRemoved };
+}
+
+/**
+ * Liefert Einzeleinträge und Tagesaggregate eines Tests im Zeitraum,
+ * chronologisch sortiert
+ *
+ * Ein Tagesaggregat zählt, wenn sich sein Tag mit dem Zeitraum überschneidet.
+ */
+export function getHistoryBuckets(
+  test: TestSuccessRate,
+  start: number = 0,
+  end: number = Number.MAX_SAFE_INTEGER,
+): HistoryBucket[] {
+  const buckets: HistoryBucket[] = (test.dailyAggregates || [])
+    .filter(
+      (aggregate) =>
+        aggregate.timestamp + DAY_MS > start && aggregate.timestamp <= end,
+    )
+    .map((aggregate) => ({
+      timestamp: aggregate.timestamp,
+      runs: aggregate.runs,
+      successfulRuns: aggregate.passed + aggregate.flaky,
+      flakyRuns: aggregate.flaky,
+    }));
+
+  for (const entry of test.history || []) {
+    if (entry.timestamp < start || entry.timestamp > end) continue;
+
+    buckets.push({
+      timestamp: entry.timestamp,
+      runs: 1,
+      successfulRuns:
+        entry.status === "passed" || entry.status === "flaky" ? 1 : 0,
+      flakyRuns: entry.status === "flaky" ? 1 : 0,
+    });
+  }
+
+  return buckets.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Startet die regelmäßige Verdichtung im Hintergrund
+ *
+ * Der Timer hält den Prozess nicht am Leben.
+ *
+ * @param target - Objekt mit compactHistory(), z.B. ein SuccessRateTracker
+ * @param intervalMs - Abstand zwischen zwei Verdichtungen (Standard: täglich)
+ */
+export function scheduleHistoryCompaction(
+  target: { compactHistory(): unknown },
+  intervalMs: number = DAY_MS,
+): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    try {
+      target.compactHistory();
+    } catch (error) {
+      console.error("Fehler bei der Verdichtung des Testverlaufs:", error);
+    }
+  }, intervalMs);
+
+  timer.unref();
+  return timer;
+}
+
+function addToAggregate(
+  aggregates: Map<string, DailyAggregate>,
+  entry: TestHistoryEntry,
+): void {
+  const date = new Date(entry.timestamp).toISOString().split("T")[0];
+  const aggregate = aggregates.get(date) || {
+    date,
+    timestamp: Date.parse(`${date}T00:00:00.000Z`),
+    runs: 0,
+    passed: 0,
+    flaky: 0,
+    failed: 0,
+    skipped: 0,
+    totalDuration: 0,
+  };
+
+  aggregate.runs++;
+  aggregate.totalDuration += entry.duration || 0;
+  if (entry.status === "passed") aggregate.passed++;
+  else if (entry.status === "flaky") aggregate.flaky++;
+  else if (entry.status === "skipped") aggregate.skipped++;
+  else aggregate.failed++;
+
+  aggregates.set(date, aggregate);
+}
@@ -0,0 +1,485 @@
+/**
+ * Quality Gate für CI-Pipelines
+ *
+ * Bewertet einen hochgeladenen Testlauf anhand einer Gate-Richtlinie mit den
+ * Kennzahlen des Dashboards: Mindest-Erfolgsrate, keine neuen Fehlschläge und
+ * keine neu instabilen Tests gegenüber der Baseline sowie eine begrenzte
+ * Zunahme der Gesamtlaufzeit. Das Ergebnis enthält ein Urteil mit Gründen und
+ * wird von der API und vom CLI-Skript `scripts/quality-gate.ts` verwendet.
+ */
+
+import * as path from "path";
+import { PlaywrightTestResultFile } from "../../types/playwright-results";
+import { TestChange, TestComparison } from "../../types/test-changes";
+import RunBaselines from "../results/run-baselines";
+import { compareRuns, isNewFailure } from "../results/run-comparison";
+import { ResultsRepository } from "../storage/results-repository";
+import { getResultsStore, getTestId } from "../storage/results-store";
+import FlakinessAnalyzer, {
+  ProjectFlakinessReport,
+} from "./flakiness-analyzer";
+import { getProjectName, getRateCaseId } from "./success-rate-tracker";
+import { getResultTestCaseId } from "./test-identity";
+import { QuarantineTarget } from "./test-quarantine";
+
+export interface QualityGatePolicy {
+  minPassRate?: number; // Mindest-Erfolgsrate des Laufs in Prozent (ohne übersprungene Tests und Quarantäne)
+  countFlakyAsPassed?: boolean; // Bei Wiederholung bestandene Tests zählen für minPassRate als bestanden
+  noNewFailures?: boolean; // Keine Tests, die in der Baseline nicht fehlgeschlagen sind
+  noNewFlakyTests?: boolean; // Keine Tests, die durch den Lauf den Flakiness-Schwellenwert überschreiten
+  maxDurationIncreasePercent?: number; // Maximale Zunahme der Gesamtlaufzeit gegenüber der Baseline
+}
+
+export const DEFAULT_QUALITY_GATE_POLICY: QualityGatePolicy = {
+  minPassRate: 90,
+  countFlakyAsPassed: true,
+  noNewFailures: true,
+  noNewFlakyTests: true,
+  maxDurationIncreasePercent: 20,
+};
+
+// Einstellungen, die keine eigene Regel sind, sondern eine Regel anpassen
+export type QualityGateRule = Exclude<
+  keyof QualityGatePolicy,
+  "countFlakyAsPassed"
+>;
+
+// Ergebnis einer einzelnen Regel
+export interface QualityGateCheck {
+  rule: QualityGateRule;
+  status: "passed" | "failed" | "skipped";
+  message: string;
+  actual?: number; // Gemessener Wert (Erfolgsrate, Anzahl oder Prozent)
+  expected?: number; // Grenzwert aus der Richtlinie
+  tests?: string[]; // Betroffene Tests
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  runId: string;
+  baselineRunId: string | null;
+  policy: QualityGatePolicy;
+  checks: QualityGateCheck[];
+  reasons: string[]; // Meldungen der nicht bestandenen Regeln
+  metricsComparison?: TestComparison["metricsComparison"];
+  evaluatedAt: number;
+}
+
+export interface QualityGateInput {
+  run: PlaywrightTestResultFile;
+  baseline: PlaywrightTestResultFile | null;
+  policy: QualityGatePolicy;
+  flakinessBefore?: ProjectFlakinessReport; // Bericht ohne den bewerteten Lauf
+  flakinessAfter?: ProjectFlakinessReport; // Bericht einschließlich des Laufs
+  isQuarantined?: (test: QuarantineTarget) => boolean;
+}
+
+export interface QualityGateOptions {
+  baselineRunId?: string; // Lauf-ID oder Name einer Baseline
+  policy?: QualityGatePolicy;
+  isQuarantined?: (test: QuarantineTarget) => boolean;
+}
+
+/**
+ * Prüft eine Gate-Richtlinie aus einer Anfrage oder Datei
+ *
+ * @returns Gefundene Probleme (leer, wenn die Richtlinie gültig ist)
+ */
+export function validateQualityGatePolicy(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Die Gate-Richtlinie muss ein Objekt sein"];
+  }
+
+  const policy = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const minPassRate = policy.minPassRate;
+  if (
+    minPassRate !== undefined &&
+    (typeof minPassRate !== "number" || minPassRate < 0 || minPassRate > 100)
+  ) {
+    issues.push("minPassRate muss eine Zahl zwischen 0 und 100 sein");
+  }
+  const maxIncrease = policy.maxDurationIncreasePercent;
+  if (
+    maxIncrease !== undefined &&
+    (typeof maxIncrease !== "number" || maxIncrease < 0)
+  ) {
+    issues.push("maxDurationIncreasePercent muss eine Zahl ab 0 sein");
+  }
+  for (const key of [
+    "countFlakyAsPassed",
+    "noNewFailures",
+    "noNewFlakyTests",
+  ]) {
+    if (policy[key] !== undefined && typeof policy[key] !== "boolean") {
+      issues.push(`${key} muss true oder false sein`);
+    }
+  }
+
+  const known = Object.keys(DEFAULT_QUALITY_GATE_POLICY);
+  for (const key of Object.keys(policy)) {
+    if (!known.includes(key)) {
+      issues.push(`Unbekannte Regel: ${key}`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Bewertet einen Lauf anhand der Richtlinie
+ *
+ * Regeln, die eine Baseline bzw. Flakiness-Berichte benötigen, werden ohne
+ * diese als übersprungen gemeldet und lassen das Gate nicht scheitern.
+ * Tests unter Quarantäne werden bei Erfolgsrate, neuen Fehlschlägen und neu
+ * instabilen Tests nicht berücksichtigt.
+ */
+export function evaluateQualityGate(
+  input: QualityGateInput,
+  now: number = Date.now(),
+): QualityGateResult {
+  const { run, baseline, policy } = input;
+  const isQuarantined = input.isQuarantined || (() => false);
+  const comparison = baseline ? compareRuns(baseline, run) : null;
+  const checks: QualityGateCheck[] = [];
+
+  if (policy.minPassRate !== undefined) {
+    const passRate = calculatePassRate(
+      run,
+      isQuarantined,
+      policy.countFlakyAsPassed !== false,
+    );
+    checks.push({
+      rule: "minPassRate",
+      status: passRate >= policy.minPassRate ? "passed" : "failed",
+      message: `Erfolgsrate ${formatPercent(passRate)} (Minimum ${formatPercent(policy.minPassRate)})`,
+      actual: passRate,
+      expected: policy.minPassRate,
+    });
+  }
+
+  if (policy.noNewFailures) {
+    if (!comparison) {
+      checks.push(skipped("noNewFailures", "Keine Baseline zum Vergleich"));
+    } else {
+      const newFailures = comparison.testChanges
+        .filter(
+          (change) =>
+            isNewFailure(change) &&
+            !isQuarantined({
+              testId: change.filename,
+              title: change.title,
+              project: change.project,
+            }),
+        )
+        .map(formatTestChange);
+      checks.push({
+        rule: "noNewFailures",
+        status: newFailures.length === 0 ? "passed" : "failed",
+        message:
+          newFailures.length === 0
+            ? "Keine neuen Fehlschläge gegenüber der Baseline"
+            : `${newFailures.length} neue(r) Fehlschlag/Fehlschläge gegenüber der Baseline`,
+        actual: newFailures.length,
+        expected: 0,
+        tests: newFailures,
+      });
+    }
+  }
+
+  if (policy.noNewFlakyTests) {
+    if (!input.flakinessBefore || !input.flakinessAfter) {
+      checks.push(
+        skipped("noNewFlakyTests", "Keine Flakiness-Daten zum Vergleich"),
+      );
+    } else {
+      const newlyFlaky = findNewlyFlakyTests(
+        input.flakinessBefore,
+        input.flakinessAfter,
+        run,
+      ).filter((measure) => !isQuarantined(measure));
+      const threshold = input.flakinessAfter.flakinessThreshold;
+      checks.push({
+        rule: "noNewFlakyTests",
+        status: newlyFlaky.length === 0 ? "passed" : "failed",
+        message:
+          newlyFlaky.length === 0
+            ? `Kein Test neu über dem Flakiness-Schwellenwert ${threshold}`
+            : `${newlyFlaky.length} Test(s) neu über dem Flakiness-Schwellenwert ${threshold}`,
+        actual: newlyFlaky.length,
+        expected: 0,
+        tests: newlyFlaky.map(
+          (measure) =>
+            `${getRateCaseId(measure)} [${getProjectName(measure)}] (${measure.flakinessScore.toFixed(1)})`,
+        ),
+      });
+    }
+  }
+
+  if (policy.maxDurationIncreasePercent !== undefined) {
+    const baselineDuration = baseline?.metrics.totalDuration || 0;
+    if (!baseline || baselineDuration <= 0) {
+      checks.push(
+        skipped(
+          "maxDurationIncreasePercent",
+          "Keine Baseline-Laufzeit zum Vergleich",
+        ),
+      );
+    } else {
+      const increase =
+        ((run.metrics.totalDuration - baselineDuration) / baselineDuration) *
+        100;
+      checks.push({
+        rule: "maxDurationIncreasePercent",
+        status:
+          increase <= policy.maxDurationIncreasePercent ? "passed" : "failed",
+        message: `Gesamtlaufzeit ${increase >= 0 ? "+" : ""}${formatPercent(increase)} gegenüber der Baseline (Maximum +${formatPercent(policy.maxDurationIncreasePercent)})`,
+        actual: increase,
+        expected: policy.maxDurationIncreasePercent,
+      });
+    }
+  }
+
+  const reasons = checks
+    .filter((check) => check.status === "failed")
+    .map((check) => check.message);
+
+  return {
+    passed: reasons.length === 0,
+    runId: run.runId,
+    baselineRunId: baseline?.runId ?? null,
+    policy,
+    checks,
+    reasons,
+    metricsComparison: comparison?.metricsComparison,
+    evaluatedAt: now,
+  };
+}
+
+/**
+ * Formatiert ein Gate-Ergebnis als lesbaren Text (z.B. für die CI-Ausgabe)
+ */
+export function formatQualityGateResult(result: QualityGateResult): string {
+  const lines = [
+    `Quality Gate ${result.passed ? "BESTANDEN" : "NICHT BESTANDEN"} für Lauf ${result.runId}` +
+      (result.baselineRunId ? ` (Baseline ${result.baselineRunId})` : ""),
+  ];
+
+  for (const check of result.checks) {
+    const marker =
+      check.status === "passed" ? "✓" : check.status === "failed" ? "✗" : "-";
+    lines.push(`  ${marker} ${check.message}`);
+    if (check.status === "failed") {
+      (check.tests || []).forEach((test) => lines.push(`      ${test}`));
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Quality Gate auf Basis der gespeicherten Läufe und Metriken
+ */
+export class QualityGate {
+  private repository: ResultsRepository;
+  private flakinessAnalyzer: FlakinessAnalyzer;
+  private runBaselines: RunBaselines;
+
+  /**
+   * @param baseDir - Basisverzeichnis des Dashboards
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+  ) {
+    this.repository = repository;
+    this.flakinessAnalyzer = new FlakinessAnalyzer(
+      baseDir,
+      undefined,
+      undefined,
+      repository,
+    );
+    this.runBaselines = new RunBaselines(baseDir, repository);
+  }
+
+  /**
+   * Bewertet einen gespeicherten Lauf
+   *
+   * Ohne `baselineRunId` dient die beim Speichern verglichene Baseline des
+   * Branches als Vergleich. Beim Speichern wird die Baseline bereits auf den
+   * Lauf selbst weitergeschaltet, daher zählt der dort festgehaltene Lauf.
+   * Ohne passende Baseline dient der vorherige gespeicherte Lauf.
+   *
+   * @param runId - ID des Laufs oder "latest" für den neuesten Lauf
+   * @returns Das Gate-Ergebnis oder null, wenn Lauf oder Baseline nicht existieren
+   */
+  public evaluate(
+    runId: string,
+    options: QualityGateOptions = {},
+  ): QualityGateResult | null {
+    const run =
+      runId === "latest"
+        ? this.repository.getLatestRun()
+        : this.repository.getRun(runId);
+    if (!run) {
+      return null;
+    }
+
+    let baseline: PlaywrightTestResultFile | null;
+    if (options.baselineRunId) {
+      const baselineRunId = this.runBaselines.resolveRunId(
+        options.baselineRunId,
+      );
+      baseline = baselineRunId ? this.repository.getRun(baselineRunId) : null;
+      if (!baseline) {
+        return null;
+      }
+    } else {
+      baseline =
+        this.findRecordedBaseline(run) ||
+        this.findBranchBaseline(run) ||
+        this.findPreviousRun(run);
+    }
+
+    return evaluateQualityGate({
+      run,
+      baseline,
+      policy: { ...DEFAULT_QUALITY_GATE_POLICY, ...options.policy },
+      flakinessBefore: this.flakinessAnalyzer.analyzeFlakinessUntil(
+        run.timestamp - 1,
+      ),
+      flakinessAfter: this.flakinessAnalyzer.analyzeFlakinessUntil(
+        run.timestamp,
+      ),
+      isQuarantined: options.isQuarantined,
+    });
+  }
+
+  /**
+   * Lädt den Baseline-Lauf, mit dem der Lauf beim Speichern verglichen wurde
+   */
+  private findRecordedBaseline(
+    run: PlaywrightTestResultFile,
+  ): PlaywrightTestResultFile | null {
+    const baselineRunId = run.baselineComparison?.baselineRunId;
+    return baselineRunId ? this.repository.getRun(baselineRunId) : null;
+  }
+
+  /**
+   * Sucht den Lauf der Baseline für den Branch des Laufs
+   */
+  private findBranchBaseline(
+    run: PlaywrightTestResultFile,
+  ): PlaywrightTestResultFile | null {
+    const branchBaseline = this.runBaselines.getBranchBaseline(run.branch);
+    if (!branchBaseline?.runId || branchBaseline.runId === run.runId) {
+      return null;
+    }
+
+    // Eine Baseline, die nach dem Lauf entstanden ist, taugt nicht als Vergleich
+    const baseline = this.repository.getRun(branchBaseline.runId);
+    return baseline && baseline.timestamp < run.timestamp ? baseline : null;
+  }
+
+  /**
+   * Sucht den zuletzt vor einem Lauf gespeicherten Lauf
+   */
+  private findPreviousRun(
+    run: PlaywrightTestResultFile,
+  ): PlaywrightTestResultFile | null {
+    const previous = this.repository
+      .listRuns({ until: run.timestamp, limit: 2 })
+      .find((summary) => summary.runId !== run.runId);
+
+    return previous ? this.repository.getRun(previous.runId) : null;
+  }
+}
+
+/**
+ * Ermittelt Tests des Laufs, die erst durch ihn den Schwellenwert erreichen
+ */
+function findNewlyFlakyTests(
+  before: ProjectFlakinessReport,
+  after: ProjectFlakinessReport,
+  run: PlaywrightTestResultFile,
+) {
+  const getKey = (measure: {
+    testId: string;
+    caseId?: string;
+    project?: string;
+  }) => `${getRateCaseId(measure)}::${getProjectName(measure)}`;
+  const flakyBefore = new Set(
+    before.flakinessMeasures
+      .filter((measure) => measure.flakinessScore >= before.flakinessThreshold)
+      .map(getKey),
+  );
+  const testsInRun = new Set(
+    run.testResults.map((test) =>
+      getKey({
+        testId: getTestId(test),
+        caseId: getResultTestCaseId(test),
+        project: test.projectName,
+      }),
+    ),
+  );
+
+  return after.flakinessMeasures.filter(
+    (measure) =>
+      measure.flakinessScore >= after.flakinessThreshold &&
+      testsInRun.has(getKey(measure)) &&
+      !flakyBefore.has(getKey(measure)),
+  );
+}
+
+/**
+ * Berechnet die Erfolgsrate eines Laufs aus seinen Testergebnissen
+ *
+ * Übersprungene Tests und Tests unter Quarantäne zählen nicht mit; ohne
+ * verbleibende Tests gilt der Lauf als vollständig erfolgreich.
+ */
+function calculatePassRate(
+  run: PlaywrightTestResultFile,
+  isQuarantined: (test: QuarantineTarget) => boolean,
+  countFlakyAsPassed: boolean,
+): number {
+  const counted = (run.testResults || []).filter(
+    (test) =>
+      test.status !== "skipped" &&
+      !isQuarantined({
+        testId: getTestId(test),
+        caseId: getResultTestCaseId(test),
+        title: test.title,
+        project: test.projectName,
+      }),
+  );
+  if (counted.length === 0) {
+    return 100;
+  }
+
+  const passed = counted.filter(
+    (test) =>
+      test.status === "passed" ||
+      (countFlakyAsPassed && test.status === "flaky"),
+  ).length;
+  return (passed / counted.length) * 100;
+}
+
+function skipped(rule: QualityGateRule, message: string): QualityGateCheck {
+  return { rule, status: "skipped", message };
+}
+
+function formatTestChange(change: TestChange): string {
+  const name = change.title
+    ? `${change.filename} › ${change.title}`
+    : change.filename;
+  const project = change.project ? ` [${change.project}]` : "";
+  return `${name}${project} (${change.previousStatus} → ${change.currentStatus})`;
+}
+
+function formatPercent(value: number): string {
+  return `${Number(value.toFixed(1))}%`;
+}
+
+export default QualityGate;
@@ -5,12 +5,29 @@
  * Es analysiert historische Testlaufdaten, um Erfolgsraten und Trends zu berechnen.
  */
 
-import * as fs from "fs";
 import * as path from "path";
 import {
   PlaywrightTestResultFile,
   PlaywrightSingleTestResult,
 } from "../../types/playwright-results";
+import {
+  DOCUMENT_KEYS,
+  ResultsRepository,
+} from "../storage/results-repository";
+import { getResultsStore, getTestId } from "../storage/results-store";
+import {
+  compactTestHistory,
+  DailyAggregate,
+  DAY_MS,
+  DEFAULT_RETENTION_POLICY,
+  getHistoryBuckets,
+  HistoryCompactionResult,
+  resolveRetentionSettings,
+  RetentionPolicy,
+} from "./history-retention";
+import { RunFilter } from "../results/run-metadata";
+import { getResultTestCaseId } from "./test-identity";
+import { OwnerFilter } from "./test-ownership";
 
 // Interface für einen einzelnen Eintrag im Testverlauf
 export interface TestHistoryEntry {
@@ -18,14 +35,19 @@ export interface TestHistoryEntry {
   status: string; // Status
   duration: number; // Dauer in ms
   runId: string; // ID des Testlaufs
+  retries?: number; // Anzahl der Wiederholungen innerhalb des Laufs
 }
 
 export interface TestSuccessRate {
   testId: string; // Eindeutige Test-ID (normalerweise Dateiname)
+  caseId?: string; // ID des Testfalls (Dateiname › describe-Pfad › Titel), fehlt bei Altdaten
+  title?: string; // Titel des Testfalls
   testName: string; // Menschenlesbarer Testname
-  successRate: number; // Erfolgsrate (0-100%)
+  project?: string; // Playwright-Projekt bzw. Browser (fehlt bei Läufen ohne Projekt)
+  successRate: number; // Erfolgsrate (0-100%), inkl. bei Wiederholung bestandener Läufe
   totalRuns: number; // Gesamtanzahl der Ausführungen
-  successfulRuns: number; // Anzahl erfolgreicher Ausführungen
+  successfulRuns: number; // Anzahl ohne Wiederholung bestandener Ausführungen
+  flakyRuns?: number; // Anzahl erst bei einer Wiederholung bestandener Ausführungen
   failedRuns: number; // Anzahl fehlgeschlagener Ausführungen
   skippedRuns: number; // Anzahl übersprungener Ausführungen
   lastRun: {
@@ -34,7 +56,8 @@ export interface TestSuccessRate {
     timestamp: number; // Zeitstempel des letzten Laufs
     duration: number; // Dauer des letzten Laufs in ms
   };
-  history: Array<TestHistoryEntry>; // Verlauf der letzten n Ausführungen
+  history: Array<TestHistoryEntry>; // Einzelne Ausführungen innerhalb der Aufbewahrungsfrist
+  dailyAggregates?: DailyAggregate[]; // Ältere Ausführungen, pro Tag zusammengefasst
   trend: "improving" | "stable" | "declining" | "unknown"; // Trend der Erfolgsrate
 }
 
@@ -43,6 +66,7 @@ export interface ProjectSuccessRates {
   totalTests: number; // Gesamtanzahl der Tests
   testSuccessRates: TestSuccessRate[]; // Erfolgsraten pro Test
   lastUpdated: number; // Zeitstempel der letzten Aktualisierung
+  lastCompaction?: number; // Zeitstempel der letzten Verlaufsverdichtung
   timeRange: {
     // Zeitraum der Analyse
     start: number; // Startzeit
@@ -50,29 +74,56 @@ export interface ProjectSuccessRates {
   };
 }
 
+// Zusammenfassung der Erfolgsraten eines Projekts
+export interface ProjectSuccessRateSummary {
+  project: string; // Projektname oder DEFAULT_PROJECT_NAME
+  overallSuccessRate: number; // Durchschnittliche Erfolgsrate der Tests im Projekt
+  totalTests: number; // Anzahl der Tests im Projekt
+  totalRuns: number; // Ausführungen aller Tests im Projekt
+  flakyRuns: number; // Davon erst bei einer Wiederholung bestanden
+}
+
+// Vergleichsmatrix Test × Projekt
+export interface ProjectComparison {
+  projects: string[]; // Spalten der Matrix (sortiert)
+  rows: ProjectComparisonRow[]; // Zeilen, größte Abweichung zuerst
+}
+
+export interface ProjectComparisonRow {
+  testId: string;
+  caseId?: string;
+  testName: string;
+  values: Record<string, number>; // Wert pro Projekt (fehlt, wenn der Test dort nicht lief)
+  spread: number; // Differenz zwischen höchstem und niedrigstem Wert
+}
+
+// Läufe und Erfolge einer Verlaufshälfte für die Trendanalyse
+interface HistoryBucketSummary {
+  runs: number;
+  successfulRuns: number;
+}
+
+// Projektname für Ergebnisse ohne Playwright-Projekt
+export const DEFAULT_PROJECT_NAME = "default";
+
 export class SuccessRateTracker {
-  private resultsDir: string;
-  private storageFile: string;
-  private maxHistoryLength: number = 10;
+  private repository: ResultsRepository;
+  private retentionPolicy: RetentionPolicy;
 
   /**
    * Konstruktor
    *
    * @param baseDir - Basisverzeichnis für Ergebnisse
-   * @param maxHistory - Maximale Anzahl der historischen Einträge pro Test
+   * @param retention - Standard-Aufbewahrungsrichtlinie für den Testverlauf
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
    */
   constructor(
     baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
-    maxHistory: number = 10,
+    retention: RetentionPolicy = {},
+    repository: ResultsRepository = getResultsStore(baseDir),
   ) {
-    this.resultsDir = path.join(baseDir, "results");
-    this.storageFile = path.join(this.resultsDir, "success-rates.json");
-    this.maxHistoryLength = maxHistory;
-
-    // Stellt sicher, dass das Ergebnisverzeichnis existiert
-    if (!fs.existsSync(this.resultsDir)) {
-      fs.mkdirSync(this.resultsDir, { recursive: true });
-    }
+    this.repository = repository;
+    this.retentionPolicy = { ...DEFAULT_RETENTION_POLICY, ...retention };
   }
 
   /**
@@ -114,9 +165,11 @@ export class SuccessRateTracker {
    */
   public loadSuccessRates(): ProjectSuccessRates {
     try {
-      if (fs.existsSync(this.storageFile)) {
-        const data = fs.readFileSync(this.storageFile, "utf-8");
-        return JSON.parse(data);
+      const rates = this.repository.getDocument<ProjectSuccessRates>(
+        DOCUMENT_KEYS.successRates,
+      );
+      if (rates) {
+        return rates;
       }
     } catch (error) {
       console.error("Fehler beim Laden der Erfolgsraten:", error);
@@ -142,12 +195,8 @@ export class SuccessRateTracker {
    */
   public saveSuccessRates(rates: ProjectSuccessRates): void {
     try {
-      fs.writeFileSync(
-        this.storageFile,
-        JSON.stringify(rates, null, 2),
-        "utf-8",
-      );
-      console.log(`Erfolgsraten gespeichert unter ${this.storageFile}`);
+      this.repository.saveDocument(DOCUMENT_KEYS.successRates, rates);
+      console.log("Erfolgsraten gespeichert");
     } catch (error) {
       console.error("Fehler beim Speichern der Erfolgsraten:", error);
     }
@@ -190,25 +239,33 @@ export class SuccessRateTracker {
         const filteredHistory = test.history.filter(
           (h) => h.timestamp >= start && h.timestamp <= end,
         );
+        const filteredAggregates = (test.dailyAggregates || []).filter(
+          (a) => a.timestamp + DAY_MS > start && a.timestamp <= end,
+        );
 
-        // Berechne neue Rate basierend auf dem gefilterten Verlauf
+        // Berechne neue Rate basierend auf Verlauf und Tagesaggregaten im Zeitraum
         let successfulRuns = 0;
-        let totalFilteredRuns = filteredHistory.length;
-        for (const run of filteredHistory) {
-          if (run.status === "passed") successfulRuns++;
+        let flakyRuns = 0;
+        let totalFilteredRuns = 0;
+        for (const bucket of getHistoryBuckets(test, start, end)) {
+          totalFilteredRuns += bucket.runs;
+          successfulRuns += bucket.successfulRuns - bucket.flakyRuns;
+          flakyRuns += bucket.flakyRuns;
         }
 
         const successRate =
           totalFilteredRuns > 0
-            ? (successfulRuns / totalFilteredRuns) * 100
+            ? ((successfulRuns + flakyRuns) / totalFilteredRuns) * 100
             : 0;
 
         return {
           ...test,
           history: filteredHistory,
+          dailyAggregates: filteredAggregates,
           successRate,
           totalRuns: totalFilteredRuns,
           successfulRuns,
+          flakyRuns,
           trend: test.trend || "unknown",
         };
       }),
@@ -220,36 +277,234 @@ export class SuccessRateTracker {
     return filteredRates;
   }
 
+  /**
+   * Beschränkt Erfolgsraten auf ein Playwright-Projekt bzw. einen Browser
+   *
+   * @param rates - Die zu filternden Erfolgsraten
+   * @param project - Projektname (DEFAULT_PROJECT_NAME für Tests ohne Projekt)
+   * @returns Die Erfolgsraten des Projekts mit neu berechneter Gesamtrate
+   */
+  public filterByProject(
+    rates: ProjectSuccessRates,
+    project: string,
+  ): ProjectSuccessRates {
+    return this.filterTests(rates, (test) => getProjectName(test) === project);
+  }
+
+  /**
+   * Beschränkt Erfolgsraten auf die Tests eines Owners bzw. Teams
+   *
+   * @param rates - Die zu filternden Erfolgsraten
+   * @param filter - Owner-Name (NO_OWNER für Tests ohne Owner) und Owner-Zuordnung
+   * @returns Die Erfolgsraten des Owners mit neu berechneter Gesamtrate
+   */
+  public filterByOwner(
+    rates: ProjectSuccessRates,
+    filter: OwnerFilter,
+  ): ProjectSuccessRates {
+    return this.filterTests(rates, (test) =>
+      filter.ownership.owns(filter.owner, {
+        file: test.testId,
+        caseId: test.caseId,
+      }),
+    );
+  }
+
+  /**
+   * Beschränkt Erfolgsraten auf die Ausführungen bestimmter Läufe
+   * (z.B. eines Branches oder Commit-Bereichs)
+   *
+   * Tagesaggregate enthalten keine Lauf-IDs und entfallen daher.
+   *
+   * @param rates - Die zu filternden Erfolgsraten
+   * @param filter - Lauf-Filter mit den zulässigen Lauf-IDs
+   * @returns Die aus diesen Läufen neu berechneten Erfolgsraten (nur Tests mit Ausführungen)
+   */
+  public filterByRuns(
+    rates: ProjectSuccessRates,
+    filter: RunFilter,
+  ): ProjectSuccessRates {
+    return this.filterTests(
+      {
+        ...rates,
+        testSuccessRates: rates.testSuccessRates.map((test) =>
+          summarizeHistory(
+            test,
+            test.history.filter((entry) => filter.runIds.has(entry.runId)),
+          ),
+        ),
+      },
+      (test) => test.totalRuns > 0,
+    );
+  }
+
+  /**
+   * Trennt Tests unter Quarantäne von den übrigen Erfolgsraten
+   *
+   * @param rates - Die zu trennenden Erfolgsraten
+   * @param isQuarantined - Prüft, ob ein Test unter Quarantäne steht
+   * @returns Die Erfolgsraten ohne bzw. nur mit Tests unter Quarantäne, jeweils mit neu berechneter Gesamtrate
+   */
+  public separateQuarantined(
+    rates: ProjectSuccessRates,
+    isQuarantined: (test: TestSuccessRate) => boolean,
+  ): { rates: ProjectSuccessRates; quarantined: ProjectSuccessRates } {
+    return {
+      rates: this.filterTests(rates, (test) => !isQuarantined(test)),
+      quarantined: this.filterTests(rates, isQuarantined),
+    };
+  }
+
+  /**
+   * Fasst die Erfolgsraten pro Projekt bzw. Browser zusammen
+   *
+   * @param rates - Die Erfolgsraten aller Projekte
+   * @returns Eine Zusammenfassung pro Projekt, alphabetisch sortiert
+   */
+  public getProjectBreakdown(
+    rates: ProjectSuccessRates,
+  ): ProjectSuccessRateSummary[] {
+    return getProjectNames(rates.testSuccessRates).map((project) => {
+      const projectRates = this.filterByProject(rates, project);
+
+      return {
+        project,
+        overallSuccessRate: projectRates.overallSuccessRate,
+        totalTests: projectRates.totalTests,
+        totalRuns: projectRates.testSuccessRates.reduce(
+          (sum, test) => sum + test.totalRuns,
+          0,
+        ),
+        flakyRuns: projectRates.testSuccessRates.reduce(
+          (sum, test) => sum + (test.flakyRuns || 0),
+          0,
+        ),
+      };
+    });
+  }
+
+  /**
+   * Erstellt eine Vergleichsmatrix der Erfolgsraten pro Test und Projekt
+   *
+   * @param rates - Die Erfolgsraten aller Projekte
+   * @returns Matrix mit den Tests, deren Erfolgsrate am stärksten zwischen den Projekten abweicht, zuerst
+   */
+  public getProjectComparison(rates: ProjectSuccessRates): ProjectComparison {
+    return buildProjectComparison(
+      rates.testSuccessRates,
+      (test) => test.successRate,
+    );
+  }
+
+  /**
+   * Gibt die geltende Aufbewahrungsrichtlinie zurück
+   * (gespeicherte Richtlinie, sonst die Vorgabe aus dem Konstruktor)
+   */
+  public getRetentionPolicy(): RetentionPolicy {
+    try {
+      const stored = this.repository.getDocument<RetentionPolicy>(
+        DOCUMENT_KEYS.retentionPolicy,
+      );
+      if (stored) {
+        return { ...this.retentionPolicy, ...stored };
+      }
+    } catch (error) {
+      console.error("Fehler beim Laden der Aufbewahrungsrichtlinie:", error);
+    }
+
+    return { ...this.retentionPolicy };
+  }
+
+  /**
+   * Speichert eine Aufbewahrungsrichtlinie; sie gilt ab der nächsten Verdichtung
+   *
+   * @param policy - Die Richtlinie (vorher mit validateRetentionPolicy prüfen)
+   * @returns Die geltende Richtlinie
+   */
+  public saveRetentionPolicy(policy: RetentionPolicy): RetentionPolicy {
+    this.repository.saveDocument(DOCUMENT_KEYS.retentionPolicy, policy);
+    return this.getRetentionPolicy();
+  }
+
+  /**
+   * Verdichtet den Verlauf aller Tests gemäß der Aufbewahrungsrichtlinie
+   *
+   * Ältere Einzeleinträge werden zu Tagesaggregaten zusammengefasst,
+   * abgelaufene Daten gelöscht.
+   *
+   * @param now - Bezugszeitpunkt (Standard: jetzt)
+   * @returns Zusammenfassung der Verdichtung
+   */
+  public compactHistory(now: number = Date.now()): HistoryCompactionResult {
+    const rates = this.loadSuccessRates();
+    const policy = this.getRetentionPolicy();
+    const result: HistoryCompactionResult = {
+      testsCompacted: 0,
+      entriesAggregated: 0,
+      entriesRemoved: 0,
+      compactedAt: now,
+    };
+
+    for (const test of rates.testSuccessRates) {
+      const { entriesAggregated, entriesRemoved } = compactTestHistory(
+        test,
+        resolveRetentionSettings(policy, getProjectName(test)),
+        now,
+      );
+
+      if (entriesAggregated > 0 || entriesRemoved > 0) {
+        result.testsCompacted++;
+        result.entriesAggregated += entriesAggregated;
+        result.entriesRemoved += entriesRemoved;
+      }
+    }
+
+    rates.lastCompaction = now;
+    this.saveSuccessRates(rates);
+
+    return result;
+  }
+
   /**
    * Analysiert die historischen Testergebnisse, um Trends zu identifizieren
    *
    * @param days - Anzahl der Tage für die Analyse
+   * @param runs - Optional: nur Ausführungen dieser Läufe
    * @returns Erfolgsraten mit Trend-Informationen
    */
-  public analyzeSuccessTrends(days: number = 7): ProjectSuccessRates {
-    const rates = this.loadSuccessRates();
+  public analyzeSuccessTrends(
+    days: number = 7,
+    runs?: RunFilter,
+  ): ProjectSuccessRates {
+    const rates = runs
+      ? this.filterByRuns(this.loadSuccessRates(), runs)
+      : this.loadSuccessRates();
     const now = Date.now();
     const pastTime = now - days * 24 * 60 * 60 * 1000; // Millisekunden für n Tage
 
     // Analysiere den Trend für jeden Test
     for (const test of rates.testSuccessRates) {
-      // Teile die Historie in zwei Hälften: ältere und neuere
-      const recentHistory = test.history
-        .filter((h) => h.timestamp >= pastTime)
-        .sort((a, b) => a.timestamp - b.timestamp);
+      // Teile den Verlauf (inkl. Tagesaggregaten) in zwei Hälften: ältere und neuere
+      const recentBuckets = getHistoryBuckets(test, pastTime, now);
+      const totalRuns = recentBuckets.reduce((sum, b) => sum + b.runs, 0);
 
-      if (recentHistory.length < 2) {
+      if (totalRuns < 2) {
         test.trend = "unknown"; // Zu wenige Daten für eine Trend-Analyse
         continue;
       }
 
-      const midpoint = Math.floor(recentHistory.length / 2);
-      const olderRuns = recentHistory.slice(0, midpoint);
-      const newerRuns = recentHistory.slice(midpoint);
+      const midpoint = Math.floor(totalRuns / 2);
+      const olderRuns: HistoryBucketSummary = { runs: 0, successfulRuns: 0 };
+      const newerRuns: HistoryBucketSummary = { runs: 0, successfulRuns: 0 };
+      for (const bucket of recentBuckets) {
+        const half = olderRuns.runs < midpoint ? olderRuns : newerRuns;
+        half.runs += bucket.runs;
+        half.successfulRuns += bucket.successfulRuns;
+      }
 
       // Berechne Erfolgsraten für die beiden Hälften
-      const olderSuccessRate = this.calculateSuccessRateFromHistory(olderRuns);
-      const newerSuccessRate = this.calculateSuccessRateFromHistory(newerRuns);
+      const olderSuccessRate = this.calculateSuccessRateFromBuckets(olderRuns);
+      const newerSuccessRate = this.calculateSuccessRateFromBuckets(newerRuns);
 
       // Bestimme den Trend basierend auf der Änderung
       const difference = newerSuccessRate - olderSuccessRate;
@@ -275,9 +530,12 @@ export class SuccessRateTracker {
     runId: string,
     timestamp: number,
   ): void {
-    const testId = test.path.split("/").pop() || test.filename;
+    const caseId = getResultTestCaseId(test);
+    // Jeder Testfall wird pro Projekt bzw. Browser getrennt geführt
     const existingTest = rates.testSuccessRates.find(
-      (t) => t.testId === testId,
+      (t) =>
+        getRateCaseId(t) === caseId &&
+        getProjectName(t) === getProjectName({ project: test.projectName }),
     );
 
     if (existingTest) {
@@ -285,12 +543,16 @@ export class SuccessRateTracker {
       existingTest.totalRuns++;
 
       if (test.status === "passed") existingTest.successfulRuns++;
+      else if (test.status === "flaky")
+        existingTest.flakyRuns = (existingTest.flakyRuns || 0) + 1;
       else if (test.status === "skipped") existingTest.skippedRuns++;
       else existingTest.failedRuns++;
 
-      // Aktualisiere Erfolgsrate
+      // Aktualisiere Erfolgsrate (bei Wiederholung bestandene Läufe zählen als Erfolg)
       existingTest.successRate =
-        (existingTest.successfulRuns / existingTest.totalRuns) * 100;
+        ((existingTest.successfulRuns + (existingTest.flakyRuns || 0)) /
+          existingTest.totalRuns) *
+        100;
 
       // Aktualisiere letzte Ausführung
       existingTest.lastRun = {
@@ -299,28 +561,20 @@ export class SuccessRateTracker {
         duration: test.duration,
       };
 
-      // Füge neuen Eintrag zum Verlauf hinzu
-      existingTest.history.push({
-        timestamp: timestamp,
-        status: test.status,
-        duration: test.duration,
-        runId: runId,
-      });
-
-      // Begrenze die Historie auf maximale Länge
-      if (existingTest.history.length > this.maxHistoryLength) {
-        existingTest.history = existingTest.history.slice(
-          -this.maxHistoryLength,
-        );
-      }
+      // Füge neuen Eintrag zum Verlauf hinzu (verdichtet wird über compactHistory)
+      existingTest.history.push(
+        this.createHistoryEntry(test, runId, timestamp),
+      );
     } else {
       // Erstelle neuen Test-Eintrag
       const newTest: TestSuccessRate = {
-        testId: testId,
-        testName: test.filename,
-        successRate: test.status === "passed" ? 100 : 0,
+        testId: getTestId(test),
+        caseId,
+        testName: caseId,
+        successRate: isSuccessfulStatus(test.status) ? 100 : 0,
         totalRuns: 1,
         successfulRuns: test.status === "passed" ? 1 : 0,
+        flakyRuns: test.status === "flaky" ? 1 : 0,
         failedRuns:
           test.status === "failed" || test.status === "timed-out" ? 1 : 0,
         skippedRuns: test.status === "skipped" ? 1 : 0,
@@ -329,22 +583,62 @@ export class SuccessRateTracker {
           timestamp: timestamp,
           duration: test.duration,
         },
-        history: [
-          {
-            timestamp: timestamp,
-            status: test.status,
-            duration: test.duration,
-            runId: runId,
-          },
-        ],
+        history: [this.createHistoryEntry(test, runId, timestamp)],
         trend: "unknown",
       };
 
+      if (test.title) {
+        newTest.title = test.title;
+      }
+      if (test.projectName) {
+        newTest.project = test.projectName;
+      }
+
       rates.testSuccessRates.push(newTest);
       rates.totalTests = rates.testSuccessRates.length;
     }
   }
 
+  /**
+   * Erstellt einen Verlaufseintrag für ein einzelnes Testergebnis
+   */
+  private createHistoryEntry(
+    test: PlaywrightSingleTestResult,
+    runId: string,
+    timestamp: number,
+  ): TestHistoryEntry {
+    const entry: TestHistoryEntry = {
+      timestamp: timestamp,
+      status: test.status,
+      duration: test.duration,
+      runId: runId,
+    };
+
+    if (test.retries) {
+      entry.retries = test.retries;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Filtert die Erfolgsraten einzelner Tests und berechnet die Gesamtrate neu
+   */
+  private filterTests(
+    rates: ProjectSuccessRates,
+    predicate: (test: TestSuccessRate) => boolean,
+  ): ProjectSuccessRates {
+    const filteredRates: ProjectSuccessRates = {
+      ...rates,
+      testSuccessRates: rates.testSuccessRates.filter(predicate),
+    };
+
+    filteredRates.totalTests = filteredRates.testSuccessRates.length;
+    this.recalculateOverallSuccessRate(filteredRates);
+
+    return filteredRates;
+  }
+
   /**
    * Berechnet die Gesamterfolgsrate neu
    */
@@ -363,17 +657,133 @@ export class SuccessRateTracker {
   }
 
   /**
-   * Berechnet die Erfolgsrate aus einem Verlauf
+   * Berechnet die Erfolgsrate aus zusammengefassten Verlaufsabschnitten
    */
-  private calculateSuccessRateFromHistory(
-    history: Array<{ status: string }>,
+  private calculateSuccessRateFromBuckets(
+    summary: HistoryBucketSummary,
   ): number {
-    if (history.length === 0) return 0;
+    if (summary.runs === 0) return 0;
 
-    const successfulRuns = history.filter((h) => h.status === "passed").length;
-    return (successfulRuns / history.length) * 100;
+    return (summary.successfulRuns / summary.runs) * 100;
   }
 }
 
+/**
+ * Berechnet die Kennzahlen eines Tests aus einem Ausschnitt seines Verlaufs neu
+ */
+function summarizeHistory(
+  test: TestSuccessRate,
+  history: TestHistoryEntry[],
+): TestSuccessRate {
+  const count = (predicate: (status: string) => boolean) =>
+    history.filter((entry) => predicate(entry.status)).length;
+  const successfulRuns = count((status) => status === "passed");
+  const flakyRuns = count((status) => status === "flaky");
+  const skippedRuns = count((status) => status === "skipped");
+  const last = history[history.length - 1];
+
+  return {
+    ...test,
+    history,
+    dailyAggregates: [],
+    totalRuns: history.length,
+    successfulRuns,
+    flakyRuns,
+    skippedRuns,
+    failedRuns: history.length - successfulRuns - flakyRuns - skippedRuns,
+    successRate:
+      history.length > 0
+        ? ((successfulRuns + flakyRuns) / history.length) * 100
+        : 0,
+    lastRun: last
+      ? {
+          status: last.status,
+          timestamp: last.timestamp,
+          duration: last.duration,
+        }
+      : test.lastRun,
+  };
+}
+
+/**
+ * Prüft, ob ein Status als erfolgreicher Lauf zählt
+ * (bestanden, auch wenn erst bei einer Wiederholung)
+ */
+export function isSuccessfulStatus(status: string): boolean {
+  return status === "passed" || status === "flaky";
+}
+
+/**
+ * Gibt den Projektnamen eines Eintrags zurück (DEFAULT_PROJECT_NAME, wenn keiner gesetzt ist)
+ */
+export function getProjectName(entry: { project?: string }): string {
+  return entry.project || DEFAULT_PROJECT_NAME;
+}
+
+/**
+ * Gibt die Testfall-ID eines Eintrags zurück (bei Altdaten ohne caseId die Test-ID)
+ */
+export function getRateCaseId(entry: {
+  testId: string;
+  caseId?: string;
+}): string {
+  return entry.caseId || entry.testId;
+}
+
+/**
+ * Ermittelt alle vorkommenden Projektnamen, alphabetisch sortiert
+ */
+export function getProjectNames(
+  entries: Array<{ project?: string }>,
+): string[] {
+  return Array.from(new Set(entries.map(getProjectName))).sort();
+}
+
+/**
+ * Baut eine Vergleichsmatrix Test × Projekt für einen beliebigen Kennwert
+ *
+ * @param entries - Einträge pro Test und Projekt
+ * @param getValue - Liefert den zu vergleichenden Kennwert eines Eintrags
+ * @returns Matrix, Zeilen nach Abweichung zwischen den Projekten absteigend sortiert
+ */
+export function buildProjectComparison<
+  T extends {
+    testId: string;
+    caseId?: string;
+    testName: string;
+    project?: string;
+  },
+>(entries: T[], getValue: (entry: T) => number): ProjectComparison {
+  const rows = new Map<string, ProjectComparisonRow>();
+
+  for (const entry of entries) {
+    const caseId = getRateCaseId(entry);
+    let row = rows.get(caseId);
+    if (!row) {
+      row = {
+        testId: entry.testId,
+        testName: entry.testName,
+        values: {},
+        spread: 0,
+      };
+      if (entry.caseId) row.caseId = entry.caseId;
+      rows.set(caseId, row);
+    }
+    row.values[getProjectName(entry)] = getValue(entry);
+  }
+
+  for (const row of rows.values()) {
+    const values = Object.values(row.values);
+    row.spread = Math.max(...values) - Math.min(...values);
+  }
+
+  return {
+    projects: getProjectNames(entries),
+    rows: Array.from(rows.values()).sort(
+      (a, b) => b.spread - a.spread || a.testName.localeCompare(b.testName),
+    ),
+  };
+}
+
 // Default-Export für Kompatibilität mit bestehenden Importen
 export default SuccessRateTracker;
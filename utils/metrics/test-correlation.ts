@@ -0,0 +1,367 @@
+/**
+ * Test-Korrelation
+ *
+ * Dieses Modul verknüpft die statischen Analysedaten des TestAnalyzers
+ * (Komplexität, Selektortypen, Timeouts) über die einheitliche Test-ID mit
+ * den Laufzeitergebnissen aus dem Results-Store. Daraus ergeben sich
+ * Auswertungen wie die Instabilität pro Selektorstil, der Zusammenhang
+ * zwischen Komplexität und Fehlerrate sowie eine Einordnung der Tests in
+ * Quadranten (einfach/komplex × stabil/instabil).
+ */
+
+import * as path from "path";
+import { TestMetadata } from "../test-analyzer";
+import {
+  ResultsRepository,
+  TestResultRecord,
+} from "../storage/results-repository";
+import { getResultsStore } from "../storage/results-store";
+import { getTestCaseId } from "./test-identity";
+
+// Ergebnisse, die als fehlgeschlagen zählen
+const FAILED_STATUSES = ["failed", "timed-out", "interrupted"];
+
+// Selektortypen, die sich an der Oberfläche für Nutzer orientieren (getByRole & Co.)
+const USER_FACING_SELECTOR_TYPES = [
+  "role",
+  "label",
+  "text",
+  "placeholder",
+  "altText",
+  "title",
+];
+
+// Selektortypen, die an die DOM-Struktur gebunden sind
+const STRUCTURAL_SELECTOR_TYPES = ["css", "xpath"];
+
+// Standard-Schwellenwerte für die Quadranten
+export const DEFAULT_CORRELATION_THRESHOLDS: CorrelationThresholds = {
+  complexity: 5,
+  instabilityRate: 10,
+};
+
+/**
+ * Selektorstil eines Testfalls: maßgeblich ist der anfälligste verwendete Typ
+ * (css-xpath vor testId vor user-facing)
+ */
+export type SelectorStyle = "css-xpath" | "testId" | "user-facing" | "none";
+
+export type CorrelationQuadrant =
+  | "simple-stable"
+  | "simple-unstable"
+  | "complex-stable"
+  | "complex-unstable";
+
+export interface CorrelationThresholds {
+  complexity: number; // Ab dieser Komplexität gilt ein Test als komplex
+  instabilityRate: number; // Ab dieser Instabilitätsrate (%) gilt ein Test als instabil
+}
+
+// Statische und Laufzeitdaten eines Testfalls
+export interface TestCorrelationEntry {
+  caseId: string; // Einheitliche Test-ID
+  file: string;
+  title: string;
+  complexity: number;
+  selectorCount: number;
+  selectorStyle: SelectorStyle;
+  timeoutCount: number; // Anzahl fester Wartezeiten bzw. Timeouts
+  runs: number; // Ausführungen im Zeitraum (ohne übersprungene)
+  failedRuns: number;
+  flakyRuns: number; // Erst bei einer Wiederholung bestanden
+  failureRate: number; // Fehlgeschlagene Ausführungen (%)
+  instabilityRate: number; // Fehlgeschlagen oder flaky (%)
+  quadrant?: CorrelationQuadrant; // Fehlt, wenn keine Ausführungen vorliegen
+}
+
+// Zusammenfassung aller Testfälle mit demselben Selektorstil
+export interface SelectorStyleSummary {
+  selectorStyle: SelectorStyle;
+  tests: number; // Testfälle mit Ausführungen
+  runs: number;
+  failureRate: number; // Über alle Ausführungen der Gruppe (%)
+  instabilityRate: number; // Über alle Ausführungen der Gruppe (%)
+}
+
+export interface CorrelationQuery {
+  days?: number; // Zeitraum rückwirkend (Standard: 30 Tage)
+  project?: string; // Nur Ergebnisse dieses Playwright-Projekts
+  thresholds?: Partial<CorrelationThresholds>;
+}
+
+export interface TestCorrelationReport {
+  tests: TestCorrelationEntry[]; // Instabilste zuerst
+  matchedTests: number; // Testfälle mit Laufzeitergebnissen
+  unmatchedTests: number; // Testfälle ohne Laufzeitergebnisse
+  unmatchedResults: string[]; // Test-IDs mit Ergebnissen, aber ohne Analysedaten
+  selectorStyles: SelectorStyleSummary[];
+  complexityCorrelation: number | null; // Pearson-Korrelation Komplexität ↔ Instabilität
+  thresholds: CorrelationThresholds;
+  quadrants: Record<CorrelationQuadrant, number>;
+  project?: string;
+  timePeriod: {
+    start: number;
+    end: number;
+  };
+}
+
+// Laufzeitergebnisse eines Testfalls
+interface RuntimeSummary {
+  runs: number;
+  failedRuns: number;
+  flakyRuns: number;
+}
+
+/**
+ * Ermittelt den Selektorstil eines Testfalls
+ */
+export function getSelectorStyle(
+  selectors: Array<{ type: string }>,
+): SelectorStyle {
+  const types = selectors.map((selector) => selector.type);
+
+  if (types.some((type) => STRUCTURAL_SELECTOR_TYPES.includes(type))) {
+    return "css-xpath";
+  }
+  if (types.includes("testId")) {
+    return "testId";
+  }
+  if (types.some((type) => USER_FACING_SELECTOR_TYPES.includes(type))) {
+    return "user-facing";
+  }
+  return "none";
+}
+
+/**
+ * Berechnet den Pearson-Korrelationskoeffizienten zweier Reihen
+ *
+ * @returns Wert zwischen -1 und 1 oder null bei weniger als drei Wertepaaren
+ * bzw. ohne Streuung
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const count = Math.min(xs.length, ys.length);
+  if (count < 3) return null;
+
+  const meanX = xs.slice(0, count).reduce((sum, x) => sum + x, 0) / count;
+  const meanY = ys.slice(0, count).reduce((sum, y) => sum + y, 0) / count;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+
+  for (let index = 0; index < count; index++) {
+    const dx = xs[index] - meanX;
+    const dy = ys[index] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Verknüpft Analysedaten und Laufzeitergebnisse über die einheitliche Test-ID
+ *
+ * @param metadata - Testfälle aus dem TestAnalyzer
+ * @param records - Einzelergebnisse aus dem Results-Store
+ * @param thresholds - Schwellenwerte für die Quadranten
+ */
+export function correlateTests(
+  metadata: TestMetadata[],
+  records: TestResultRecord[],
+  thresholds: CorrelationThresholds = DEFAULT_CORRELATION_THRESHOLDS,
+): Omit<TestCorrelationReport, "project" | "timePeriod"> {
+  const runtime = summarizeRecords(records);
+  const analyzedIds = new Set<string>();
+  const tests: TestCorrelationEntry[] = [];
+
+  for (const test of metadata) {
+    // Ältere Analyseergebnisse enthalten noch keine caseId
+    const caseId =
+      test.caseId ||
+      getTestCaseId({
+        file: test.file,
+        describePath: test.describePath,
+        title: test.title,
+      });
+    analyzedIds.add(caseId);
+
+    const summary = runtime.get(caseId);
+    const runs = summary?.runs || 0;
+    const failedRuns = summary?.failedRuns || 0;
+    const flakyRuns = summary?.flakyRuns || 0;
+    const complexity = test.complexity || 1;
+    const instabilityRate = getRate(failedRuns + flakyRuns, runs);
+
+    tests.push({
+      caseId,
+      file: test.file,
+      title: test.title || test.name,
+      complexity,
+      selectorCount: (test.selectors || []).length,
+      selectorStyle: getSelectorStyle(test.selectors || []),
+      timeoutCount: (test.timeouts || []).length,
+      runs,
+      failedRuns,
+      flakyRuns,
+      failureRate: getRate(failedRuns, runs),
+      instabilityRate,
+      quadrant:
+        runs > 0
+          ? getQuadrant(complexity, instabilityRate, thresholds)
+          : undefined,
+    });
+  }
+
+  const matched = tests.filter((test) => test.runs > 0);
+  const quadrants: Record<CorrelationQuadrant, number> = {
+    "simple-stable": 0,
+    "simple-unstable": 0,
+    "complex-stable": 0,
+    "complex-unstable": 0,
+  };
+  matched.forEach((test) => quadrants[test.quadrant!]++);
+
+  return {
+    tests: tests.sort(
+      (a, b) =>
+        b.instabilityRate - a.instabilityRate ||
+        b.runs - a.runs ||
+        a.caseId.localeCompare(b.caseId),
+    ),
+    matchedTests: matched.length,
+    unmatchedTests: tests.length - matched.length,
+    unmatchedResults: Array.from(runtime.keys())
+      .filter((caseId) => !analyzedIds.has(caseId))
+      .sort(),
+    selectorStyles: summarizeSelectorStyles(matched),
+    complexityCorrelation: pearsonCorrelation(
+      matched.map((test) => test.complexity),
+      matched.map((test) => test.instabilityRate),
+    ),
+    thresholds,
+    quadrants,
+  };
+}
+
+export class TestCorrelationAnalyzer {
+  private repository: ResultsRepository;
+
+  /**
+   * Konstruktor
+   *
+   * @param baseDir - Basisverzeichnis für Ergebnisse
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+  ) {
+    this.repository = repository;
+  }
+
+  /**
+   * Verknüpft Analysedaten mit den Ergebnissen eines Zeitraums
+   *
+   * @param metadata - Testfälle aus dem TestAnalyzer
+   * @param query - Zeitraum, Projekt und Schwellenwerte
+   */
+  public getCorrelation(
+    metadata: TestMetadata[],
+    query: CorrelationQuery = {},
+  ): TestCorrelationReport {
+    const end = Date.now();
+    const start = end - (query.days ?? 30) * 24 * 60 * 60 * 1000;
+    const records = this.repository.findTestResults({
+      since: start,
+      until: end,
+      project: query.project,
+    });
+
+    return {
+      ...correlateTests(metadata, records, {
+        ...DEFAULT_CORRELATION_THRESHOLDS,
+        ...query.thresholds,
+      }),
+      project: query.project,
+      timePeriod: { start, end },
+    };
+  }
+}
+
+/**
+ * Zählt Ausführungen, Fehlschläge und flaky Läufe pro Test-ID
+ * (übersprungene Ausführungen zählen nicht)
+ */
+function summarizeRecords(
+  records: TestResultRecord[],
+): Map<string, RuntimeSummary> {
+  const summaries = new Map<string, RuntimeSummary>();
+
+  for (const record of records) {
+    if (record.status === "skipped") continue;
+
+    let summary = summaries.get(record.caseId);
+    if (!summary) {
+      summary = { runs: 0, failedRuns: 0, flakyRuns: 0 };
+      summaries.set(record.caseId, summary);
+    }
+
+    summary.runs++;
+    if (FAILED_STATUSES.includes(record.status)) summary.failedRuns++;
+    else if (record.status === "flaky") summary.flakyRuns++;
+  }
+
+  return summaries;
+}
+
+function summarizeSelectorStyles(
+  tests: TestCorrelationEntry[],
+): SelectorStyleSummary[] {
+  const styles = new Map<SelectorStyle, TestCorrelationEntry[]>();
+  tests.forEach((test) => {
+    styles.set(test.selectorStyle, [
+      ...(styles.get(test.selectorStyle) || []),
+      test,
+    ]);
+  });
+
+  return Array.from(styles.entries())
+    .map(([selectorStyle, entries]) => {
+      const runs = entries.reduce((sum, test) => sum + test.runs, 0);
+      const failedRuns = entries.reduce(
+        (sum, test) => sum + test.failedRuns,
+        0,
+      );
+      const flakyRuns = entries.reduce((sum, test) => sum + test.flakyRuns, 0);
+
+      return {
+        selectorStyle,
+        tests: entries.length,
+        runs,
+        failureRate: getRate(failedRuns, runs),
+        instabilityRate: getRate(failedRuns + flakyRuns, runs),
+      };
+    })
+    .sort((a, b) => b.instabilityRate - a.instabilityRate);
+}
+
+function getQuadrant(
+  complexity: number,
+  instabilityRate: number,
+  thresholds: CorrelationThresholds,
+): CorrelationQuadrant {
+  const complex = complexity >= thresholds.complexity ? "complex" : "simple";
+  const stable =
+    instabilityRate >= thresholds.instabilityRate ? "unstable" : "stable";
+
+  return `${complex}-${stable}`;
+}
+
+function getRate(count: number, total: number): number {
+  return total > 0 ? (count / total) * 100 : 0;
+}
+
+export default TestCorrelationAnalyzer;
@@ -0,0 +1,48 @@
+/**
+ * Test-Identität
+ *
+ * Einheitliche ID eines Testfalls, unter der statische Analysedaten
+ * (TestAnalyzer) und Laufzeitergebnisse (Results-Store, Live-Ereignisse)
+ * zusammengeführt werden: Dateiname › describe-Pfad › Titel.
+ */
+
+import { PlaywrightSingleTestResult } from "../../types/playwright-results";
+
+// Trennzeichen zwischen Dateiname, describe-Blöcken und Titel
+export const TEST_CASE_ID_SEPARATOR = " › ";
+
+// Angaben, aus denen die ID eines Testfalls gebildet wird
+export interface TestCaseIdentity {
+  file: string; // Dateiname oder Pfad der Testdatei
+  describePath?: string[]; // Titel der umgebenden describe-Blöcke (außen zuerst)
+  title?: string; // Titel des Testfalls
+}
+
+/**
+ * Bildet die einheitliche ID eines Testfalls
+ *
+ * Vom Pfad wird nur der Dateiname verwendet, da Analyse und Reporter
+ * Pfade relativ zu unterschiedlichen Verzeichnissen liefern.
+ */
+export function getTestCaseId({
+  file,
+  describePath = [],
+  title,
+}: TestCaseIdentity): string {
+  const filename = file.split(/[\\/]/).pop() || file;
+
+  return [filename, ...describePath, ...(title ? [title] : [])].join(
+    TEST_CASE_ID_SEPARATOR,
+  );
+}
+
+/**
+ * Bildet die einheitliche ID eines Laufzeitergebnisses
+ */
+export function getResultTestCaseId(test: PlaywrightSingleTestResult): string {
+  return getTestCaseId({
+    file: test.path || test.filename,
+    describePath: test.titlePath,
+    title: test.title,
+  });
+}
@@ -0,0 +1,352 @@
+/**
+ * Test-Ownership
+ *
+ * Ermittelt, wer für einen Test verantwortlich ist, und macht den Owner zu
+ * einer Filterdimension der Laufzeitmetriken. Quellen in absteigendem
+ * Vorrang:
+ * 1. Annotation am Test, z.B. test.info().annotations.push({ type: "owner", description: "@team-kasse" })
+ *    oder test("...", { annotation: { type: "team", description: "kasse" } })
+ * 2. Tag-Konvention @owner:<name> bzw. @team:<name> (auch am describe-Block)
+ * 3. CODEOWNERS (letzte passende Regel gewinnt, wie bei GitHub)
+ *
+ * Laufzeitergebnisse werden über die einheitliche Test-ID bzw. den
+ * Dateinamen den statisch analysierten Tests und damit ihren Ownern
+ * zugeordnet.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { globToRegExp } from "../analysis/functional-areas";
+import { TestMetadata } from "../test-analyzer";
+import { ProjectFlakinessReport } from "./flakiness-analyzer";
+import { TestSuccessRate } from "./success-rate-tracker";
+
+// Owner-Name für Tests ohne Verantwortliche
+export const NO_OWNER = "unowned";
+
+// Annotationstypen, deren Beschreibung den Owner angibt
+const OWNER_ANNOTATION_TYPES = new Set(["owner", "team"]);
+
+// Tags wie @owner:kasse oder @team:plattform
+const OWNER_TAG_PATTERN = /^@(?:owner|team):(.+)$/i;
+
+// Übliche Ablageorte der CODEOWNERS-Datei (relativ zum Repository)
+const CODEOWNERS_LOCATIONS = [
+  "CODEOWNERS",
+  ".github/CODEOWNERS",
+  ".gitlab/CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+// Statuswerte, bei denen der letzte Lauf als fehlgeschlagen gilt
+const FAILING_STATUSES = ["failed", "timed-out", "interrupted"];
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[]; // Leer, wenn die Regel die Zuständigkeit aufhebt
+  line: number;
+}
+
+export interface Codeowners {
+  rootDir: string; // Verzeichnis, auf das sich die Muster beziehen
+  rules: CodeownersRule[];
+}
+
+export interface TestOwner {
+  owners: string[];
+  source: NonNullable<TestMetadata["ownerSource"]>;
+}
+
+// Verweis auf einen Test aus den Laufzeitdaten
+export interface TestOwnerRef {
+  file: string; // Dateiname oder Pfad der Testdatei
+  caseId?: string; // Einheitliche Test-ID (siehe getTestCaseId)
+}
+
+// Filter der Laufzeitmetriken nach Owner
+export interface OwnerFilter {
+  owner: string; // Owner-Name oder NO_OWNER
+  ownership: TestOwnershipIndex;
+}
+
+export interface OwnerSummary {
+  owner: string;
+  ownedTests: number; // Statisch analysierte Testfälle
+  testsWithRuns: number; // Tests mit Laufzeitdaten (pro Datei und Projekt)
+  flakyTests: number; // Tests mit Flakiness-Score über dem Schwellenwert
+  failingTests: number; // Tests, deren letzter Lauf fehlgeschlagen ist
+  averageSuccessRate: number | null; // null ohne Laufzeitdaten
+}
+
+/**
+ * Liest die Regeln einer CODEOWNERS-Datei
+ */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) return;
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, line: index + 1 });
+  });
+
+  return rules;
+}
+
+/**
+ * Owner einer Datei laut CODEOWNERS (letzte passende Regel)
+ *
+ * @param relativePath - Pfad relativ zum Verzeichnis der Regeln, mit "/"
+ */
+export function matchCodeowners(
+  rules: CodeownersRule[],
+  relativePath: string,
+): string[] | null {
+  const segments = relativePath.split("/");
+  // Eine Regel für ein Verzeichnis gilt für alle enthaltenen Dateien
+  const candidates = segments.map((_, index) =>
+    segments.slice(0, segments.length - index).join("/"),
+  );
+
+  for (let index = rules.length - 1; index >= 0; index--) {
+    const rule = rules[index];
+    const directoryOnly = rule.pattern.endsWith("/");
+    let glob = rule.pattern.replace(/^\//, "").replace(/\/$/, "");
+    // Ohne "/" (außer am Ende) gilt das Muster in jeder Tiefe
+    if (!rule.pattern.replace(/\/$/, "").includes("/")) {
+      glob = `**/${glob}`;
+    }
+
+    const pattern = globToRegExp(glob);
+    const matches = (directoryOnly ? candidates.slice(1) : candidates).some(
+      (candidate) => pattern.test(candidate),
+    );
+    if (matches) {
+      return rule.owners;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sucht die CODEOWNERS-Datei im Projekt- bzw. übergeordneten Verzeichnis
+ *
+ * @returns Die Regeln oder null, wenn es keine CODEOWNERS-Datei gibt
+ */
+export function loadCodeowners(projectDir: string): Codeowners | null {
+  for (const rootDir of [projectDir, path.dirname(projectDir)]) {
+    for (const location of CODEOWNERS_LOCATIONS) {
+      const file = path.join(rootDir, location);
+      if (fs.existsSync(file)) {
+        return {
+          rootDir,
+          rules: parseCodeowners(fs.readFileSync(file, "utf-8")),
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Ermittelt die Owner eines Testfalls (Annotation vor Tag vor CODEOWNERS)
+ */
+export function resolveTestOwner(
+  test: Pick<TestMetadata, "path" | "tags" | "annotations">,
+  codeowners?: Codeowners | null,
+): TestOwner | null {
+  const annotated = (test.annotations || [])
+    .filter(
+      (annotation) =>
+        OWNER_ANNOTATION_TYPES.has(annotation.type.toLowerCase()) &&
+        annotation.description,
+    )
+    .flatMap((annotation) => splitOwners(annotation.description!));
+  if (annotated.length > 0) {
+    return { owners: unique(annotated), source: "annotation" };
+  }
+
+  const tagged = (test.tags || [])
+    .map((tag) => tag.match(OWNER_TAG_PATTERN)?.[1])
+    .filter((owner): owner is string => Boolean(owner));
+  if (tagged.length > 0) {
+    return { owners: unique(tagged), source: "tag" };
+  }
+
+  if (codeowners && test.path) {
+    const relativePath = path
+      .relative(codeowners.rootDir, test.path)
+      .split(path.sep)
+      .join("/");
+    const owners = relativePath.startsWith("..")
+      ? null
+      : matchCodeowners(codeowners.rules, relativePath);
+    if (owners && owners.length > 0) {
+      return { owners, source: "codeowners" };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Setzt owners und ownerSource aller Testfälle neu
+ */
+export function applyOwnership(
+  tests: TestMetadata[],
+  codeowners?: Codeowners | null,
+): TestMetadata[] {
+  return tests.map((test) => {
+    const owner = resolveTestOwner(test, codeowners);
+    return {
+      ...test,
+      owners: owner ? owner.owners : [],
+      ownerSource: owner?.source,
+    };
+  });
+}
+
+/**
+ * Zuordnung von Testfällen und Testdateien zu ihren Ownern
+ */
+export class TestOwnershipIndex {
+  private tests: TestMetadata[];
+  private byCaseId = new Map<string, string[]>();
+  private byFile = new Map<string, Set<string>>();
+
+  /**
+   * Konstruktor
+   *
+   * @param tests - Analyseergebnisse mit owners (siehe applyOwnership)
+   */
+  constructor(tests: TestMetadata[] = []) {
+    this.tests = tests;
+
+    for (const test of tests) {
+      const owners = test.owners || [];
+      this.byCaseId.set(test.caseId, owners);
+
+      const file = getFilename(test.file);
+      const fileOwners = this.byFile.get(file) || new Set<string>();
+      owners.forEach((owner) => fileOwners.add(owner));
+      this.byFile.set(file, fileOwners);
+    }
+  }
+
+  /**
+   * Lädt die gespeicherten Analyseergebnisse; ohne Datei ist der Index leer
+   */
+  public static load(analysisPath: string): TestOwnershipIndex {
+    if (!fs.existsSync(analysisPath)) {
+      return new TestOwnershipIndex();
+    }
+    return new TestOwnershipIndex(
+      JSON.parse(fs.readFileSync(analysisPath, "utf-8")),
+    );
+  }
+
+  /**
+   * Owner eines Tests; ohne passende Test-ID die Owner aller Tests der Datei
+   */
+  public getOwners(ref: TestOwnerRef): string[] {
+    const owners = ref.caseId ? this.byCaseId.get(ref.caseId) : undefined;
+    return owners || Array.from(this.byFile.get(getFilename(ref.file)) || []);
+  }
+
+  /**
+   * Prüft, ob ein Test dem Owner gehört (NO_OWNER: Tests ohne Owner)
+   */
+  public owns(owner: string, ref: TestOwnerRef): boolean {
+    const owners = this.getOwners(ref);
+    return owner === NO_OWNER ? owners.length === 0 : owners.includes(owner);
+  }
+
+  /**
+   * Alle Owner, alphabetisch sortiert (NO_OWNER am Ende, falls es Tests ohne Owner gibt)
+   */
+  public getOwnerNames(): string[] {
+    const owners = unique(this.tests.flatMap((test) => test.owners || []));
+    const hasUnowned = this.tests.some(
+      (test) => (test.owners || []).length === 0,
+    );
+    return [...owners.sort(), ...(hasUnowned ? [NO_OWNER] : [])];
+  }
+
+  /**
+   * Fasst Erfolgsraten und Flakiness pro Owner zusammen
+   *
+   * @param rates - Erfolgsraten pro Test und Projekt im Zeitraum
+   * @param flakiness - Flakiness-Bericht desselben Zeitraums
+   */
+  public summarize(
+    rates: TestSuccessRate[],
+    flakiness: ProjectFlakinessReport,
+  ): OwnerSummary[] {
+    const ownerNames = this.getOwnerNames();
+    // Laufzeitdaten ohne analysierten Test gehören niemandem
+    if (
+      !ownerNames.includes(NO_OWNER) &&
+      rates.some((rate) => this.owns(NO_OWNER, getRuntimeRef(rate)))
+    ) {
+      ownerNames.push(NO_OWNER);
+    }
+
+    return ownerNames.map((owner) => {
+      const ownedRates = rates.filter((rate) =>
+        this.owns(owner, getRuntimeRef(rate)),
+      );
+      const flakyTests = flakiness.flakinessMeasures.filter(
+        (measure) =>
+          measure.flakinessScore >= flakiness.flakinessThreshold &&
+          this.owns(owner, getRuntimeRef(measure)),
+      );
+
+      return {
+        owner,
+        ownedTests: this.tests.filter((test) =>
+          owner === NO_OWNER
+            ? (test.owners || []).length === 0
+            : (test.owners || []).includes(owner),
+        ).length,
+        testsWithRuns: ownedRates.length,
+        flakyTests: flakyTests.length,
+        failingTests: ownedRates.filter((rate) =>
+          FAILING_STATUSES.includes(rate.lastRun.status),
+        ).length,
+        averageSuccessRate:
+          ownedRates.length > 0
+            ? ownedRates.reduce((sum, rate) => sum + rate.successRate, 0) /
+              ownedRates.length
+            : null,
+      };
+    });
+  }
+}
+
+function splitOwners(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((owner) => owner.trim())
+    .filter(Boolean);
+}
+
+// Verweis auf einen Testfall aus Erfolgsraten bzw. Flakiness-Messungen
+function getRuntimeRef(entry: {
+  testId: string;
+  caseId?: string;
+}): TestOwnerRef {
+  return { file: entry.testId, caseId: entry.caseId };
+}
+
+function getFilename(file: string): string {
+  return file.split(/[\\/]/).pop() || file;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+export default TestOwnershipIndex;
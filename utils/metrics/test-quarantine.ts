@@ -0,0 +1,551 @@
+/**
+ * Test-Quarantäne
+ *
+ * Instabile Tests werden mit Grund, Owner und Ablaufdatum unter Quarantäne
+ * gestellt – manuell oder automatisch, wenn ihr Flakiness-Score über mehrere
+ * Läufe in Folge über dem Schwellenwert liegt. Die Quarantäneliste wird
+ * zusätzlich als JSON-Datei mit grepInvert-Mustern exportiert, die die
+ * Playwright-Konfiguration einlesen kann. Die Automatik stellt einzelne
+ * Testfälle unter Quarantäne, nicht die ganze Datei. Quarantänierte Tests zählen nicht
+ * zur Gesamterfolgsrate, werden aber weiter getrennt erfasst.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { PlaywrightTestResultFile } from "../../types/playwright-results";
+import {
+  DOCUMENT_KEYS,
+  ResultsRepository,
+} from "../storage/results-repository";
+import { getResultsStore, getTestId } from "../storage/results-store";
+import { DAY_MS } from "./history-retention";
+import { ProjectFlakinessReport } from "./flakiness-analyzer";
+import { getRateCaseId } from "./success-rate-tracker";
+import { getResultTestCaseId, TEST_CASE_ID_SEPARATOR } from "./test-identity";
+
+// Dateiname des Exports für die Playwright-Konfiguration (im Ergebnisverzeichnis)
+export const QUARANTINE_FILE = "quarantine.json";
+
+export interface QuarantineEntry {
+  testId: string; // Dateiname des Tests (wie in den Erfolgsraten)
+  caseId?: string; // ID des Testfalls (Dateiname › describe-Pfad › Titel)
+  project?: string; // Nur in diesem Playwright-Projekt; sonst in allen
+  title?: string; // Nur Testfälle mit diesem Titel; sonst die ganze Datei
+  reason: string;
+  owner?: string;
+  source: "manual" | "automatic";
+  quarantinedAt: number;
+  expiresAt?: number; // Ohne Ablaufdatum bis zur manuellen Freigabe
+  flakinessScore?: number; // Score beim automatischen Eintrag
+}
+
+export interface QuarantineInput {
+  testId: string;
+  project?: string;
+  title?: string;
+  reason: string;
+  owner?: string;
+  expiresAt?: number | string; // Zeitstempel oder ISO-Datum
+  expiresInDays?: number; // Alternative zu expiresAt
+}
+
+export interface AutoQuarantinePolicy {
+  enabled: boolean;
+  consecutiveRuns: number; // Läufe in Folge über dem Flakiness-Schwellenwert
+  expiryDays: number; // Dauer der automatischen Quarantäne
+}
+
+export const DEFAULT_AUTO_QUARANTINE_POLICY: AutoQuarantinePolicy = {
+  enabled: true,
+  consecutiveRuns: 3,
+  expiryDays: 14,
+};
+
+// Test bzw. Testfall, für den die Quarantäne geprüft wird
+// (Erfolgsraten, Flakiness-Messungen und Laufergebnisse erfüllen die Form)
+export interface QuarantineTarget {
+  testId: string; // Dateiname
+  caseId?: string; // ID des Testfalls; fehlt bei Daten pro Datei
+  title?: string; // Titel des Testfalls
+  project?: string;
+}
+
+// Export für die Playwright-Konfiguration
+export interface PlaywrightQuarantine {
+  generatedAt: number;
+  grepInvert: string[]; // Muster für Einträge ohne Projekt
+  projects: Record<string, string[]>; // Zusätzliche Muster pro Projekt
+  tests: Array<
+    Pick<
+      QuarantineEntry,
+      "testId" | "caseId" | "project" | "title" | "expiresAt"
+    > & {
+      pattern: string;
+    }
+  >;
+}
+
+// Gespeichertes Dokument
+interface QuarantineDocument {
+  entries: QuarantineEntry[];
+  streaks: Record<string, number>; // Läufe in Folge über dem Schwellenwert
+  policy?: AutoQuarantinePolicy;
+}
+
+/**
+ * Prüft einen Quarantäne-Eintrag aus einer Anfrage
+ *
+ * @returns Gefundene Probleme (leer, wenn der Eintrag gültig ist)
+ */
+export function validateQuarantineInput(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Der Quarantäne-Eintrag muss ein Objekt sein"];
+  }
+
+  const input = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of ["testId", "reason"]) {
+    if (typeof input[key] !== "string" || !(input[key] as string).trim()) {
+      issues.push(`${key} muss ein nicht leerer Text sein`);
+    }
+  }
+  for (const key of ["project", "title", "owner"]) {
+    if (input[key] !== undefined && typeof input[key] !== "string") {
+      issues.push(`${key} muss ein Text sein`);
+    }
+  }
+
+  if (input.expiresAt !== undefined && isNaN(toTimestamp(input.expiresAt))) {
+    issues.push("expiresAt muss ein Zeitstempel oder ISO-Datum sein");
+  }
+  if (
+    input.expiresInDays !== undefined &&
+    (typeof input.expiresInDays !== "number" || input.expiresInDays <= 0)
+  ) {
+    issues.push("expiresInDays muss eine positive Zahl sein");
+  }
+
+  return issues;
+}
+
+/**
+ * Prüft eine Richtlinie für die automatische Quarantäne
+ *
+ * @returns Gefundene Probleme (leer, wenn die Richtlinie gültig ist)
+ */
+export function validateAutoQuarantinePolicy(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Die Quarantäne-Richtlinie muss ein Objekt sein"];
+  }
+
+  const policy = value as Partial<AutoQuarantinePolicy>;
+  const issues: string[] = [];
+
+  if (policy.enabled !== undefined && typeof policy.enabled !== "boolean") {
+    issues.push("enabled muss true oder false sein");
+  }
+  for (const key of ["consecutiveRuns", "expiryDays"] as const) {
+    const setting = policy[key];
+    if (setting !== undefined && (!Number.isInteger(setting) || setting < 1)) {
+      issues.push(`${key} muss eine positive ganze Zahl sein`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Bildet das grepInvert-Muster eines Eintrags
+ *
+ * Playwright prüft die Muster gegen Projekt, Dateipfad, describe-Blöcke und
+ * Titel (durch Leerzeichen getrennt, gefolgt von den Tags). Muster für
+ * Testfälle enden am Titel, damit sie keine weiteren Tests derselben Datei
+ * treffen, deren Titel nur mit ihm beginnt.
+ */
+export function getQuarantinePattern(
+  entry: Pick<QuarantineEntry, "testId" | "caseId" | "title">,
+): string {
+  const file = escapeRegExp(entry.testId);
+  if (!entry.title) {
+    return file;
+  }
+
+  const tags = "(?: @\\S+)*$";
+  if (entry.caseId) {
+    return `${entry.caseId.split(TEST_CASE_ID_SEPARATOR).map(escapeRegExp).join(" ")}${tags}`;
+  }
+  return `${file} (?:.* )?${escapeRegExp(entry.title)}${tags}`;
+}
+
+export class TestQuarantine {
+  private repository: ResultsRepository;
+  private exportPath: string | null;
+
+  /**
+   * Konstruktor
+   *
+   * @param baseDir - Basisverzeichnis für Ergebnisse
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   * @param exportPath - Ziel des Playwright-Exports (null: kein Export)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+    exportPath: string | null = path.join(baseDir, "results", QUARANTINE_FILE),
+  ) {
+    this.repository = repository;
+    this.exportPath = exportPath;
+  }
+
+  /**
+   * Gibt die aktiven (nicht abgelaufenen) Einträge zurück, neueste zuerst
+   */
+  public getEntries(now: number = Date.now()): QuarantineEntry[] {
+    return this.loadDocument()
+      .entries.filter((entry) => isActive(entry, now))
+      .sort((a, b) => b.quarantinedAt - a.quarantinedAt);
+  }
+
+  /**
+   * Prüft, ob ein Test bzw. Testfall in seinem Projekt unter Quarantäne steht
+   *
+   * Einträge mit Titel gelten nur für den jeweiligen Testfall, nicht für
+   * Daten der ganzen Datei oder andere Testfälle.
+   */
+  public isQuarantined(
+    test: QuarantineTarget,
+    now: number = Date.now(),
+  ): boolean {
+    return this.createMatcher(now)(test);
+  }
+
+  /**
+   * Erstellt eine Prüfung wie isQuarantined, die die Liste nur einmal lädt
+   */
+  public createMatcher(
+    now: number = Date.now(),
+  ): (test: QuarantineTarget) => boolean {
+    const entries = this.getEntries(now);
+    return (test) => entries.some((entry) => coversTest(entry, test));
+  }
+
+  /**
+   * Stellt einen Test manuell unter Quarantäne
+   *
+   * Ein vorhandener Eintrag für denselben Test, dasselbe Projekt und
+   * denselben Titel wird ersetzt.
+   *
+   * @param input - Der Eintrag (vorher mit validateQuarantineInput prüfen)
+   */
+  public quarantine(
+    input: QuarantineInput,
+    now: number = Date.now(),
+  ): QuarantineEntry {
+    const expiresAt =
+      input.expiresAt !== undefined
+        ? toTimestamp(input.expiresAt)
+        : input.expiresInDays !== undefined
+          ? now + input.expiresInDays * DAY_MS
+          : undefined;
+
+    const entry: QuarantineEntry = {
+      testId: input.testId,
+      ...(input.project && { project: input.project }),
+      ...(input.title && { title: input.title }),
+      reason: input.reason,
+      ...(input.owner && { owner: input.owner }),
+      source: "manual",
+      quarantinedAt: now,
+      ...(expiresAt !== undefined && { expiresAt }),
+    };
+
+    const document = this.loadDocument();
+    document.entries = [
+      ...document.entries.filter((existing) => !isSameTest(existing, entry)),
+      entry,
+    ];
+    this.saveDocument(document, now);
+
+    return entry;
+  }
+
+  /**
+   * Hebt die Quarantäne eines Tests auf
+   *
+   * @returns true, wenn ein Eintrag entfernt wurde
+   */
+  public release(
+    testId: string,
+    project?: string,
+    title?: string,
+    now: number = Date.now(),
+  ): boolean {
+    const document = this.loadDocument();
+    const remaining = document.entries.filter(
+      (entry) => !isSameTest(entry, { testId, project, title }),
+    );
+    if (remaining.length === document.entries.length) {
+      return false;
+    }
+
+    const removed = document.entries.filter(
+      (entry) => !remaining.includes(entry),
+    );
+    document.entries = remaining;
+    // Nach der Freigabe beginnt die Zählung für die Automatik von vorn
+    for (const key of Object.keys(document.streaks)) {
+      const target = parseStreakKey(key);
+      if (removed.some((entry) => coversTest(entry, target))) {
+        delete document.streaks[key];
+      }
+    }
+    this.saveDocument(document, now);
+    return true;
+  }
+
+  /**
+   * Gibt die Richtlinie für die automatische Quarantäne zurück
+   */
+  public getPolicy(): AutoQuarantinePolicy {
+    return {
+      ...DEFAULT_AUTO_QUARANTINE_POLICY,
+      ...this.loadDocument().policy,
+    };
+  }
+
+  /**
+   * Speichert die Richtlinie für die automatische Quarantäne
+   *
+   * @param policy - Die Richtlinie (vorher mit validateAutoQuarantinePolicy prüfen)
+   * @returns Die geltende Richtlinie
+   */
+  public savePolicy(
+    policy: Partial<AutoQuarantinePolicy>,
+  ): AutoQuarantinePolicy {
+    const document = this.loadDocument();
+    document.policy = { ...this.getPolicy(), ...policy };
+    this.saveDocument(document);
+    return document.policy;
+  }
+
+  /**
+   * Wertet einen neuen Lauf für die automatische Quarantäne aus
+   *
+   * Für jeden Testfall des Laufs wird gezählt, in wie vielen Läufen in Folge
+   * sein Flakiness-Score den Schwellenwert erreicht. Ab
+   * consecutiveRuns Läufen wird er automatisch unter Quarantäne gestellt.
+   *
+   * @param run - Der neue Lauf
+   * @param report - Flakiness-Bericht nach diesem Lauf
+   * @param getOwners - Optional: Owner eines Testfalls für den Eintrag (nur bei neuen Einträgen aufgerufen)
+   * @returns Die neu unter Quarantäne gestellten Tests
+   */
+  public recordRun(
+    run: PlaywrightTestResultFile,
+    report: ProjectFlakinessReport,
+    getOwners?: (target: QuarantineTarget) => string[],
+    now: number = Date.now(),
+  ): QuarantineEntry[] {
+    const policy = this.getPolicy();
+    const document = this.loadDocument();
+    const added: QuarantineEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const test of run.testResults || []) {
+      const target: QuarantineTarget = {
+        testId: getTestId(test),
+        caseId: getResultTestCaseId(test),
+        ...(test.title && { title: test.title }),
+        ...(test.projectName && { project: test.projectName }),
+      };
+      const key = getStreakKey(target);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const measure = report.flakinessMeasures.find(
+        (candidate) =>
+          getRateCaseId(candidate) === target.caseId &&
+          candidate.project === test.projectName,
+      );
+      if (!measure || measure.flakinessScore < report.flakinessThreshold) {
+        delete document.streaks[key];
+        continue;
+      }
+
+      const streak = (document.streaks[key] || 0) + 1;
+      document.streaks[key] = streak;
+
+      if (
+        !policy.enabled ||
+        streak < policy.consecutiveRuns ||
+        document.entries.some(
+          (entry) => isActive(entry, now) && coversTest(entry, target),
+        )
+      ) {
+        continue;
+      }
+
+      const owners = getOwners ? getOwners(target) : [];
+      // Ohne Titel liegen die Ergebnisse nur pro Datei vor
+      const entry: QuarantineEntry = {
+        testId: target.testId,
+        ...(target.title && { caseId: target.caseId, title: target.title }),
+        ...(test.projectName && { project: test.projectName }),
+        reason: `Flakiness-Score ${measure.flakinessScore.toFixed(1)} in ${streak} Läufen in Folge über dem Schwellenwert ${report.flakinessThreshold}`,
+        ...(owners.length > 0 && { owner: owners.join(", ") }),
+        source: "automatic",
+        quarantinedAt: now,
+        expiresAt: now + policy.expiryDays * DAY_MS,
+        flakinessScore: measure.flakinessScore,
+      };
+
+      document.entries = [
+        ...document.entries.filter((existing) => !isSameTest(existing, entry)),
+        entry,
+      ];
+      added.push(entry);
+    }
+
+    this.saveDocument(document, now);
+    return added;
+  }
+
+  /**
+   * Erstellt den Export mit grepInvert-Mustern für die Playwright-Konfiguration
+   */
+  public getPlaywrightExport(now: number = Date.now()): PlaywrightQuarantine {
+    const tests = this.getEntries(now).map((entry) => ({
+      testId: entry.testId,
+      ...(entry.caseId && { caseId: entry.caseId }),
+      ...(entry.project && { project: entry.project }),
+      ...(entry.title && { title: entry.title }),
+      ...(entry.expiresAt !== undefined && { expiresAt: entry.expiresAt }),
+      pattern: getQuarantinePattern(entry),
+    }));
+
+    const projects: Record<string, string[]> = {};
+    for (const test of tests) {
+      if (test.project) {
+        projects[test.project] = [
+          ...(projects[test.project] || []),
+          test.pattern,
+        ];
+      }
+    }
+
+    return {
+      generatedAt: now,
+      grepInvert: tests
+        .filter((test) => !test.project)
+        .map((test) => test.pattern),
+      projects,
+      tests,
+    };
+  }
+
+  private loadDocument(): QuarantineDocument {
+    try {
+      const stored = this.repository.getDocument<QuarantineDocument>(
+        DOCUMENT_KEYS.quarantine,
+      );
+      if (stored) {
+        return {
+          ...stored,
+          entries: stored.entries ?? [],
+          streaks: stored.streaks ?? {},
+        };
+      }
+    } catch (error) {
+      console.error("Fehler beim Laden der Quarantäneliste:", error);
+    }
+
+    return { entries: [], streaks: {} };
+  }
+
+  /**
+   * Speichert die Liste ohne abgelaufene Einträge und aktualisiert den Export
+   */
+  private saveDocument(
+    document: QuarantineDocument,
+    now: number = Date.now(),
+  ): void {
+    document.entries = document.entries.filter((entry) => isActive(entry, now));
+    this.repository.saveDocument(DOCUMENT_KEYS.quarantine, document);
+
+    if (this.exportPath) {
+      try {
+        fs.mkdirSync(path.dirname(this.exportPath), { recursive: true });
+        fs.writeFileSync(
+          this.exportPath,
+          JSON.stringify(this.getPlaywrightExport(now), null, 2),
+        );
+      } catch (error) {
+        console.error("Fehler beim Export der Quarantäneliste:", error);
+      }
+    }
+  }
+}
+
+function isActive(entry: QuarantineEntry, now: number): boolean {
+  return entry.expiresAt === undefined || entry.expiresAt > now;
+}
+
+// Einträge mit Titel betreffen nur einzelne Testfälle, nicht die ganze Datei
+function coversTest(entry: QuarantineEntry, test: QuarantineTarget): boolean {
+  if (
+    entry.testId !== test.testId ||
+    (entry.project && entry.project !== test.project)
+  ) {
+    return false;
+  }
+  if (!entry.title) {
+    return true;
+  }
+  if (entry.caseId && test.caseId) {
+    return entry.caseId === test.caseId;
+  }
+  // Manuelle Einträge kennen nur den Titel, nicht den describe-Pfad
+  return (
+    test.title === entry.title ||
+    (test.caseId?.endsWith(`${TEST_CASE_ID_SEPARATOR}${entry.title}`) ?? false)
+  );
+}
+
+function isSameTest(
+  a: Pick<QuarantineEntry, "testId" | "project" | "title">,
+  b: Pick<QuarantineEntry, "testId" | "project" | "title">,
+): boolean {
+  return (
+    a.testId === b.testId &&
+    (a.project || "") === (b.project || "") &&
+    (a.title || "") === (b.title || "")
+  );
+}
+
+function getStreakKey(test: QuarantineTarget): string {
+  return `${getRateCaseId(test)}::${test.project || ""}`;
+}
+
+function parseStreakKey(key: string): QuarantineTarget {
+  const separator = key.lastIndexOf("::");
+  const caseId = key.slice(0, separator);
+  const project = key.slice(separator + 2);
+  return {
+    testId: caseId.split(TEST_CASE_ID_SEPARATOR)[0],
+    caseId,
+    ...(project && { project }),
+  };
+}
+
+function toTimestamp(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return Date.parse(value);
+  return NaN;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export default TestQuarantine;
@@ -0,0 +1,319 @@
+/**
+ * JUnit-XML-Parser
+ *
+ * Dieses Modul wandelt JUnit-XML-Berichte (Playwright `--reporter=junit`,
+ * Maven Surefire, jest-junit u.a.) in einzelne Testergebnisse um, damit sie
+ * wie Playwright-JSON-Reports gespeichert und ausgewertet werden können.
+ * Nicht interpretierbare Teile werden als Hinweise gesammelt.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestAttachment,
+} from "../../types/playwright-results";
+import { PlaywrightParseResult, stripAnsi } from "./playwright-report-parser";
+import { childElements, parseXml, XmlElement } from "./xml-parser";
+
+export interface JUnitParseOptions {
+  /**
+   * Projektname für alle Testfälle (überschreibt hostname)
+   */
+  project?: string;
+
+  /**
+   * Das hostname-Attribut der testsuite als Projektnamen verwenden.
+   * Der Playwright-JUnit-Reporter schreibt dort den Projektnamen (Standard: true).
+   */
+  hostnameAsProject?: boolean;
+}
+
+// Trennzeichen zwischen describe-Titeln im Playwright-JUnit-Reporter
+const TITLE_SEPARATOR = " › ";
+
+// Anhänge im Playwright-Format: [[ATTACHMENT|pfad/zur/datei.png]]
+const ATTACHMENT_PATTERN = /^\s*\[\[ATTACHMENT\|(.+?)\]\]\s*$/gm;
+
+// Surefire-Elemente für fehlgeschlagene Versuche vor dem endgültigen Ergebnis
+const RETRY_ELEMENTS = [
+  "flakyFailure",
+  "flakyError",
+  "rerunFailure",
+  "rerunError",
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webm: "video/webm",
+  zip: "application/zip",
+  txt: "text/plain",
+  json: "application/json",
+};
+
+/**
+ * Parst einen JUnit-XML-Bericht und extrahiert Testergebnisse
+ *
+ * @param xml - Der JUnit-XML-Bericht
+ * @param options - Optionen zur Projektzuordnung
+ * @returns Testergebnisse, Hinweise und abgeleitete Konfiguration
+ */
+export function parseJUnitXml(
+  xml: string,
+  options: JUnitParseOptions = {},
+): PlaywrightParseResult {
+  const result: PlaywrightParseResult = {
+    format: "junit",
+    testResults: [],
+    issues: [],
+    reportErrors: [],
+  };
+
+  if (typeof xml !== "string" || xml.trim() === "") {
+    result.issues.push({ path: "$", message: "Kein XML-Inhalt übergeben" });
+    return result;
+  }
+
+  const { root, error } = parseXml(xml);
+  if (!root) {
+    result.issues.push({
+      path: "$",
+      message: `Ausgabe ist kein gültiges XML: ${error}`,
+    });
+    return result;
+  }
+
+  if (root.name === "testsuites") {
+    childElements(root, "testsuite").forEach((suite, index) => {
+      walkSuite(suite, `testsuites.testsuite[${index}]`, {}, options, result);
+    });
+  } else if (root.name === "testsuite") {
+    walkSuite(root, "testsuite", {}, options, result);
+  } else {
+    result.issues.push({
+      path: "$",
+      message: `Unbekanntes Wurzelelement <${root.name}>: erwartet wird <testsuites> oder <testsuite>`,
+    });
+    return result;
+  }
+
+  const projects = Array.from(
+    new Set(
+      result.testResults
+        .map((test) => test.projectName)
+        .filter((name): name is string => Boolean(name)),
+    ),
+  );
+
+  result.config = {
+    headless: true,
+    reporter: "junit",
+    workers: 1,
+    projects,
+  };
+
+  return result;
+}
+
+/**
+ * Durchläuft eine testsuite (auch verschachtelt) und sammelt die Testfälle
+ */
+function walkSuite(
+  suite: XmlElement,
+  docPath: string,
+  inherited: { file?: string; project?: string },
+  options: JUnitParseOptions,
+  result: PlaywrightParseResult,
+): void {
+  const context = {
+    file:
+      suite.attributes.file ||
+      inherited.file ||
+      pathLike(suite.attributes.name),
+    project:
+      options.project ||
+      (options.hostnameAsProject !== false && suite.attributes.hostname) ||
+      inherited.project,
+  };
+
+  const testcases = childElements(suite, "testcase");
+  testcases.forEach((testcase, index) => {
+    parseTestcase(
+      testcase,
+      `${docPath}.testcase[${index}]`,
+      suite,
+      context,
+      result,
+    );
+  });
+
+  childElements(suite, "testsuite").forEach((child, index) => {
+    walkSuite(
+      child,
+      `${docPath}.testsuite[${index}]`,
+      context,
+      options,
+      result,
+    );
+  });
+}
+
+/**
+ * Wandelt ein testcase-Element in ein Testergebnis um
+ */
+function parseTestcase(
+  testcase: XmlElement,
+  docPath: string,
+  suite: XmlElement,
+  context: { file?: string; project?: string },
+  result: PlaywrightParseResult,
+): void {
+  const name = testcase.attributes.name;
+  if (!name) {
+    result.issues.push({
+      path: docPath,
+      message: "Testfall ohne name-Attribut",
+    });
+    return;
+  }
+
+  const file =
+    testcase.attributes.file ||
+    context.file ||
+    pathLike(testcase.attributes.classname) ||
+    testcase.attributes.classname ||
+    suite.attributes.name;
+
+  if (!file) {
+    result.issues.push({
+      path: docPath,
+      message: `Testfall "${name}" hat keine Datei- oder Klassenangabe`,
+    });
+    return;
+  }
+
+  const duration = parseFloat(testcase.attributes.time || "0");
+  if (Number.isNaN(duration)) {
+    result.issues.push({
+      path: docPath,
+      message: `Ungültige Dauer "${testcase.attributes.time}" bei Testfall "${name}"`,
+    });
+    return;
+  }
+
+  // Playwright schreibt "Describe › Untergruppe › Titel" in das name-Attribut
+  const titleParts = name.split(TITLE_SEPARATOR);
+  const failure =
+    childElements(testcase, "failure")[0] ||
+    childElements(testcase, "error")[0];
+  const skipped = childElements(testcase, "skipped").length > 0;
+  const finalStatus = failure ? "failed" : skipped ? "skipped" : "passed";
+  const durationMs = Math.round(duration * 1000);
+
+  // Surefire protokolliert Wiederholungen als flakyFailure/rerunFailure
+  const retryElements = testcase.children.filter((child) =>
+    RETRY_ELEMENTS.includes(child.name),
+  );
+
+  const singleResult: PlaywrightSingleTestResult = {
+    filename: file.split(/[\\/]/).pop() || file,
+    path: file,
+    title: titleParts[titleParts.length - 1],
+    titlePath: titleParts.slice(0, -1),
+    projectName: context.project || undefined,
+    status:
+      finalStatus === "passed" && retryElements.length > 0
+        ? "flaky"
+        : finalStatus,
+    duration: durationMs,
+    retries: retryElements.length,
+  };
+
+  if (retryElements.length > 0) {
+    // Die Einzeldauern der Versuche sind im Bericht nicht enthalten
+    singleResult.attempts = [
+      ...retryElements.map((element, index) => ({
+        retry: index,
+        status: "failed" as const,
+        duration: 0,
+        error: {
+          message: stripAnsi(
+            element.attributes.message || "Fehlgeschlagener Versuch",
+          ),
+        },
+      })),
+      {
+        retry: retryElements.length,
+        status: finalStatus,
+        duration: durationMs,
+      },
+    ];
+  }
+
+  const line = parseInt(testcase.attributes.line || "", 10);
+  if (!Number.isNaN(line)) {
+    singleResult.location = { file, line, column: 0 };
+  }
+
+  if (failure) {
+    const text = stripAnsi(failure.text.trim());
+    singleResult.error = {
+      message: stripAnsi(
+        failure.attributes.message ||
+          text.split("\n")[0] ||
+          "Unbekannter Fehler",
+      ),
+      stack: text || undefined,
+    };
+  }
+
+  const output = extractOutput(testcase);
+  if (output.text) singleResult.output = output.text;
+  if (output.attachments.length > 0) {
+    singleResult.attachments = output.attachments;
+  }
+
+  result.testResults.push(singleResult);
+}
+
+/**
+ * Fasst system-out und system-err zusammen und löst Playwright-Anhänge auf
+ */
+function extractOutput(testcase: XmlElement): {
+  text: string;
+  attachments: PlaywrightTestAttachment[];
+} {
+  const attachments: PlaywrightTestAttachment[] = [];
+  const raw = [
+    ...childElements(testcase, "system-out"),
+    ...childElements(testcase, "system-err"),
+  ]
+    .map((element) => element.text)
+    .join("");
+
+  const text = raw.replace(ATTACHMENT_PATTERN, (_match, filePath: string) => {
+    const extension = filePath.split(".").pop()?.toLowerCase() || "";
+    attachments.push({
+      name: (filePath.split(/[\\/]/).pop() || filePath).replace(/\.[^.]+$/, ""),
+      contentType: CONTENT_TYPES[extension] || "application/octet-stream",
+      path: filePath,
+    });
+    return "";
+  });
+
+  return {
+    text: text.trim() ? stripAnsi(text.trim()) + "\n" : "",
+    attachments,
+  };
+}
+
+/**
+ * Gibt den Wert zurück, wenn er wie ein Dateipfad aussieht
+ * (z.B. "auth/login.spec.ts"), sonst undefined
+ */
+function pathLike(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return /[\\/]/.test(value) || /\.(spec|test)\.[cm]?[jt]sx?$/.test(value)
+    ? value
+    : undefined;
+}
@@ -0,0 +1,571 @@
+/**
+ * Playwright-Report-Parser
+ *
+ * Dieses Modul wandelt die Ausgabe des Playwright-JSON-Reporters
+ * (`playwright test --reporter=json`) in einzelne Testergebnisse um.
+ * Verschachtelte Suites werden bis auf den einzelnen Testfall pro Projekt
+ * aufgelöst. Nicht interpretierbare Teile werden als Hinweise gesammelt,
+ * statt stillschweigend verworfen zu werden.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestAttachment,
+  PlaywrightTestAttempt,
+  PlaywrightTestLocation,
+  PlaywrightTestRunConfig,
+} from "../../types/playwright-results";
+
+// Hinweis auf einen nicht interpretierbaren Teil der Ausgabe
+export interface PlaywrightParseIssue {
+  path: string; // Position im Dokument, z.B. "suites[0].specs[2]"
+  message: string; // Beschreibung des Problems
+}
+
+// Globaler Fehler des Testlaufs (z.B. Syntaxfehler in einer Testdatei)
+export interface PlaywrightReportError {
+  message: string;
+  location?: PlaywrightTestLocation;
+}
+
+export interface PlaywrightParseResult {
+  format: "playwright-json" | "legacy" | "junit" | "unknown"; // Erkanntes Eingabeformat
+  testResults: PlaywrightSingleTestResult[]; // Ergebnisse pro Testfall
+  issues: PlaywrightParseIssue[]; // Nicht interpretierbare Teile
+  reportErrors: PlaywrightReportError[]; // Globale Fehler aus dem Report
+  config?: PlaywrightTestRunConfig; // Aus dem Report abgeleitete Konfiguration
+}
+
+// Teilmenge des Playwright-JSON-Reporter-Formats, die hier ausgewertet wird
+interface JsonReportLocation {
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+interface JsonReportError {
+  message?: string;
+  stack?: string;
+  value?: string;
+  location?: JsonReportLocation;
+}
+
+interface JsonReportStdio {
+  text?: string;
+  buffer?: string;
+}
+
+interface JsonReportAttachment {
+  name?: string;
+  contentType?: string;
+  path?: string;
+  body?: string;
+}
+
+interface JsonReportTestResult {
+  status?: string;
+  duration?: number;
+  retry?: number;
+  error?: JsonReportError;
+  errors?: JsonReportError[];
+  errorLocation?: JsonReportLocation;
+  stdout?: JsonReportStdio[];
+  stderr?: JsonReportStdio[];
+  attachments?: JsonReportAttachment[];
+}
+
+interface JsonReportTest {
+  projectName?: string;
+  projectId?: string;
+  status?: string;
+  results?: JsonReportTestResult[];
+}
+
+interface JsonReportSpec {
+  title?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  tests?: JsonReportTest[];
+}
+
+interface JsonReportSuite {
+  title?: string;
+  file?: string;
+  specs?: JsonReportSpec[];
+  suites?: JsonReportSuite[];
+}
+
+interface JsonReport {
+  config?: {
+    rootDir?: string;
+    workers?: number;
+    version?: string;
+    projects?: Array<{ name?: string; retries?: number }>;
+    shard?: { current?: number; total?: number } | null;
+  };
+  suites: JsonReportSuite[];
+  errors?: JsonReportError[];
+}
+
+// Map statt Objekt, damit Werte wie "constructor" keinen Prototyp-Eintrag treffen
+const STATUS_MAP = new Map<unknown, PlaywrightTestAttempt["status"]>([
+  ["passed", "passed"],
+  ["failed", "failed"],
+  ["timedOut", "timed-out"],
+  ["timed-out", "timed-out"],
+  ["skipped", "skipped"],
+  ["interrupted", "interrupted"],
+]);
+
+/**
+ * Parst die Playwright-Ausgabe und extrahiert Testergebnisse
+ *
+ * Unterstützt das native JSON-Reporter-Dokument sowie das ältere flache
+ * Format (Array oder `{ tests: [...] }` mit `{ file, status, duration }`).
+ *
+ * @param output - Reporter-Ausgabe als Objekt oder JSON-String
+ * @returns Testergebnisse, Hinweise und globale Fehler
+ */
+export function parsePlaywrightOutput(output: unknown): PlaywrightParseResult {
+  const result: PlaywrightParseResult = {
+    format: "unknown",
+    testResults: [],
+    issues: [],
+    reportErrors: [],
+  };
+
+  let document = output;
+  if (typeof document === "string") {
+    try {
+      document = JSON.parse(document);
+    } catch (error) {
+      result.issues.push({
+        path: "$",
+        message: `Ausgabe ist kein gültiges JSON: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return result;
+    }
+  }
+
+  if (isJsonReport(document)) {
+    result.format = "playwright-json";
+    parseJsonReport(document, result);
+  } else if (Array.isArray(document)) {
+    result.format = "legacy";
+    parseLegacyEntries(document, "$", result);
+  } else if (isRecord(document) && Array.isArray(document.tests)) {
+    result.format = "legacy";
+    parseLegacyEntries(document.tests, "tests", result);
+  } else {
+    result.issues.push({
+      path: "$",
+      message:
+        "Unbekanntes Ausgabeformat: erwartet wird ein Playwright-JSON-Report (mit 'suites') oder eine Liste von Testergebnissen",
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Entfernt ANSI-Farbcodes aus Playwright-Fehlermeldungen
+ */
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+/**
+ * Prüft, ob ein Dokument dem JSON-Reporter-Format entspricht
+ */
+function isJsonReport(document: unknown): document is JsonReport {
+  return isRecord(document) && Array.isArray(document.suites);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Optionale Listen des Reports; fehlende oder ungültige Werte gelten als leer
+function toList<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Wertet ein vollständiges JSON-Reporter-Dokument aus
+ */
+function parseJsonReport(report: JsonReport, result: PlaywrightParseResult) {
+  const rootDir = report.config?.rootDir;
+
+  if (report.config) {
+    result.config = {
+      headless: true,
+      reporter: "json",
+      workers: report.config.workers || 1,
+      playwrightVersion: report.config.version,
+      projects: toList(report.config.projects)
+        .map((project) => isRecord(project) && project.name)
+        .filter(Boolean),
+    };
+
+    // Bei `--shard=x/y` enthält der Report den aktuellen Shard
+    if (report.config.shard) {
+      result.config.shard = report.config.shard;
+    }
+  }
+
+  report.suites.forEach((suite, index) => {
+    walkSuite(suite, `suites[${index}]`, [], rootDir, result);
+  });
+
+  toList(report.errors).forEach((error) => {
+    if (!isRecord(error)) return;
+    result.reportErrors.push({
+      message: stripAnsi(error.message || error.value || "Unbekannter Fehler"),
+      location: toLocation(error.location),
+    });
+  });
+}
+
+/**
+ * Durchläuft eine Suite rekursiv und sammelt die enthaltenen Testfälle
+ */
+function walkSuite(
+  suite: JsonReportSuite,
+  docPath: string,
+  parentTitles: string[],
+  rootDir: string | undefined,
+  result: PlaywrightParseResult,
+): void {
+  if (!isRecord(suite)) {
+    result.issues.push({ path: docPath, message: "Suite ist kein Objekt" });
+    return;
+  }
+
+  // Datei-Suites tragen den Dateinamen als Titel und gehören nicht zum describe-Pfad
+  const isFileSuite = parentTitles.length === 0 && suite.title === suite.file;
+  const titles =
+    suite.title && !isFileSuite ? [...parentTitles, suite.title] : parentTitles;
+
+  for (const key of ["specs", "suites"] as const) {
+    if (suite[key] !== undefined && !Array.isArray(suite[key])) {
+      result.issues.push({
+        path: `${docPath}.${key}`,
+        message: `${key} ist keine Liste`,
+      });
+    }
+  }
+
+  toList(suite.specs).forEach((spec, index) => {
+    parseSpec(
+      spec,
+      `${docPath}.specs[${index}]`,
+      titles,
+      suite,
+      rootDir,
+      result,
+    );
+  });
+
+  toList(suite.suites).forEach((child, index) => {
+    walkSuite(child, `${docPath}.suites[${index}]`, titles, rootDir, result);
+  });
+}
+
+/**
+ * Wertet eine Spec (test()-Aufruf) mit allen Projekt-Ausführungen aus
+ */
+function parseSpec(
+  spec: JsonReportSpec,
+  docPath: string,
+  titlePath: string[],
+  suite: JsonReportSuite,
+  rootDir: string | undefined,
+  result: PlaywrightParseResult,
+): void {
+  if (!isRecord(spec)) {
+    result.issues.push({ path: docPath, message: "Spec ist kein Objekt" });
+    return;
+  }
+
+  const file = spec.file || suite.file;
+  if (!file) {
+    result.issues.push({
+      path: docPath,
+      message: `Spec "${spec.title || "ohne Titel"}" hat keine Dateiangabe`,
+    });
+    return;
+  }
+
+  if (!Array.isArray(spec.tests) || spec.tests.length === 0) {
+    result.issues.push({
+      path: docPath,
+      message: `Spec "${spec.title || "ohne Titel"}" enthält keine Tests`,
+    });
+    return;
+  }
+
+  spec.tests.forEach((test, index) => {
+    const testPath = `${docPath}.tests[${index}]`;
+    if (!isRecord(test)) {
+      result.issues.push({ path: testPath, message: "Test ist kein Objekt" });
+      return;
+    }
+
+    const attempts = Array.isArray(test.results) ? test.results : [];
+    const invalidAttempt = attempts.findIndex((attempt) => !isRecord(attempt));
+    if (invalidAttempt !== -1) {
+      result.issues.push({
+        path: `${testPath}.results[${invalidAttempt}]`,
+        message: "Ergebnis ist kein Objekt",
+      });
+      return;
+    }
+
+    // Nicht ausgeführte Tests (z.B. nach maxFailures) haben keine Ergebnisse
+    if (attempts.length === 0) {
+      if (test.status === "skipped") {
+        result.testResults.push({
+          ...baseResult(file, spec, titlePath, test, rootDir),
+          status: "skipped",
+          duration: 0,
+          retries: 0,
+        });
+      } else {
+        result.issues.push({
+          path: testPath,
+          message: `Test "${spec.title}" (${test.projectName || "ohne Projekt"}) hat keine Ergebnisse`,
+        });
+      }
+      return;
+    }
+
+    const finalAttempt = attempts[attempts.length - 1];
+    const status = STATUS_MAP.get(finalAttempt.status);
+
+    if (!status) {
+      result.issues.push({
+        path: `${testPath}.results[${attempts.length - 1}]`,
+        message: `Unbekannter Teststatus "${finalAttempt.status}"`,
+      });
+      return;
+    }
+
+    const attemptResults = attempts.map(toAttempt);
+
+    const singleResult: PlaywrightSingleTestResult = {
+      ...baseResult(file, spec, titlePath, test, rootDir),
+      status: isRecoveredOnRetry(attemptResults) ? "flaky" : status,
+      duration: attempts.reduce(
+        (sum, attempt) => sum + (attempt.duration || 0),
+        0,
+      ),
+      retries: attempts.length - 1,
+      attempts: attemptResults,
+    };
+
+    const error = extractError(finalAttempt);
+    if (error) singleResult.error = error;
+
+    const output = extractOutput(attempts);
+    if (output) singleResult.output = output;
+
+    const attachments = extractAttachments(attempts);
+    if (attachments.files.length > 0)
+      singleResult.attachments = attachments.files;
+    if (attachments.screenshots.length > 0) {
+      singleResult.screenshots = attachments.screenshots;
+    }
+
+    result.testResults.push(singleResult);
+  });
+}
+
+/**
+ * Wandelt einen einzelnen Versuch in das gespeicherte Format um
+ */
+function toAttempt(
+  attempt: JsonReportTestResult,
+  index: number,
+): PlaywrightTestAttempt {
+  const error = extractError(attempt);
+
+  return {
+    retry: attempt.retry ?? index,
+    // Unbekannte Status früherer Versuche werden als Fehlschlag gewertet
+    status: STATUS_MAP.get(attempt.status) || "failed",
+    duration: attempt.duration || 0,
+    error: error ? { message: error.message } : undefined,
+  };
+}
+
+/**
+ * Prüft, ob ein Test fehlgeschlagen ist und bei einer Wiederholung bestanden hat
+ */
+export function isRecoveredOnRetry(attempts: PlaywrightTestAttempt[]): boolean {
+  if (attempts.length < 2) return false;
+
+  const finalAttempt = attempts[attempts.length - 1];
+  return (
+    finalAttempt.status === "passed" &&
+    attempts
+      .slice(0, -1)
+      .some(
+        (attempt) =>
+          attempt.status !== "passed" && attempt.status !== "skipped",
+      )
+  );
+}
+
+/**
+ * Erstellt die gemeinsamen Felder eines Testergebnisses
+ */
+function baseResult(
+  file: string,
+  spec: JsonReportSpec,
+  titlePath: string[],
+  test: JsonReportTest,
+  rootDir: string | undefined,
+) {
+  return {
+    filename: file.split(/[\\/]/).pop() || file,
+    path: rootDir ? `${rootDir.replace(/[\\/]+$/, "")}/${file}` : file,
+    title: spec.title || "",
+    titlePath,
+    projectName: test.projectName || test.projectId || undefined,
+    location:
+      spec.line !== undefined
+        ? { file, line: spec.line, column: spec.column || 0 }
+        : undefined,
+  };
+}
+
+/**
+ * Extrahiert den ersten Fehler eines Versuchs inklusive Position
+ */
+function extractError(
+  attempt: JsonReportTestResult,
+): PlaywrightSingleTestResult["error"] | undefined {
+  const error =
+    attempt.error || (attempt.errors && attempt.errors[0]) || undefined;
+  if (!error) return undefined;
+
+  return {
+    message: stripAnsi(error.message || error.value || "Unbekannter Fehler"),
+    stack: error.stack ? stripAnsi(error.stack) : undefined,
+    location: toLocation(error.location || attempt.errorLocation),
+  };
+}
+
+/**
+ * Fasst stdout und stderr aller Versuche zusammen
+ */
+function extractOutput(attempts: JsonReportTestResult[]): string {
+  const chunks: string[] = [];
+
+  for (const attempt of attempts) {
+    for (const entry of [
+      ...toList(attempt.stdout),
+      ...toList(attempt.stderr),
+    ]) {
+      if (!isRecord(entry)) continue;
+
+      if (entry.text) {
+        chunks.push(entry.text);
+      } else if (entry.buffer) {
+        chunks.push(Buffer.from(entry.buffer, "base64").toString("utf-8"));
+      }
+    }
+  }
+
+  return chunks.join("");
+}
+
+/**
+ * Trennt Dateianhänge von eingebetteten Screenshots
+ */
+function extractAttachments(attempts: JsonReportTestResult[]): {
+  files: PlaywrightTestAttachment[];
+  screenshots: string[];
+} {
+  const files: PlaywrightTestAttachment[] = [];
+  const screenshots: string[] = [];
+
+  for (const attempt of attempts) {
+    for (const attachment of toList(attempt.attachments)) {
+      if (!isRecord(attachment)) continue;
+
+      const contentType = attachment.contentType || "application/octet-stream";
+
+      if (attachment.body && contentType.startsWith("image/")) {
+        screenshots.push(attachment.body);
+      } else if (attachment.path) {
+        files.push({
+          name: attachment.name || "attachment",
+          contentType,
+          path: attachment.path,
+        });
+      }
+    }
+  }
+
+  return { files, screenshots };
+}
+
+function toLocation(
+  location: JsonReportLocation | undefined,
+): PlaywrightTestLocation | undefined {
+  if (!location || !location.file) return undefined;
+
+  return {
+    file: location.file,
+    line: location.line || 0,
+    column: location.column || 0,
+  };
+}
+
+/**
+ * Wertet das ältere flache Format aus ({ file, status, duration })
+ */
+function parseLegacyEntries(
+  entries: unknown[],
+  docPath: string,
+  result: PlaywrightParseResult,
+): void {
+  entries.forEach((entry, index) => {
+    const entryPath = `${docPath}[${index}]`;
+
+    if (!isRecord(entry)) {
+      result.issues.push({
+        path: entryPath,
+        message: "Eintrag ist kein Objekt",
+      });
+      return;
+    }
+
+    const status: PlaywrightSingleTestResult["status"] | undefined =
+      entry.status === "flaky" ? "flaky" : STATUS_MAP.get(entry.status);
+    if (!status) {
+      result.issues.push({
+        path: entryPath,
+        message: `Unbekannter Teststatus "${entry.status}"`,
+      });
+      return;
+    }
+
+    result.testResults.push({
+      filename: entry.file || "unknown",
+      path: entry.path || entry.file || "unknown",
+      title: typeof entry.title === "string" ? entry.title : undefined,
+      status,
+      duration: Number(entry.duration) || 0,
+      error: entry.error
+        ? {
+            message: stripAnsi(String(entry.error.message || entry.error)),
+            stack: entry.error.stack,
+          }
+        : undefined,
+    });
+  });
+}
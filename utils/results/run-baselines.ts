@@ -0,0 +1,319 @@
+/**
+ * Benannte Baselines für Laufvergleiche
+ *
+ * Eine Baseline (z.B. "main-latest", "release-2.3" oder "last green nightly")
+ * verweist auf einen gespeicherten Lauf. Sie ist entweder fest angeheftet oder
+ * wird über eine Regel automatisch auf den neuesten passenden Lauf
+ * weitergeschaltet (z.B. neuester Lauf ohne Fehlschläge auf Branch X).
+ * Vergleiche, das Quality Gate und die Oberfläche können Baselines statt
+ * Lauf-IDs verwenden; neue Läufe werden beim Speichern mit der Baseline
+ * ihres Branches verglichen.
+ */
+
+import * as path from "path";
+import { PlaywrightTestResultFile } from "../../types/playwright-results";
+import { BaselineComparisonSummary } from "../../types/test-changes";
+import {
+  DOCUMENT_KEYS,
+  ResultsRepository,
+} from "../storage/results-repository";
+import { getResultsStore } from "../storage/results-store";
+import { compareRuns, summarizeComparison } from "./run-comparison";
+
+export interface BaselineRule {
+  branch?: string; // Nur Läufe dieses Branches; ohne Angabe Läufe aller Branches
+  onlyPassing?: boolean; // Nur Läufe ohne Fehlschläge (Standard: true)
+}
+
+export interface RunBaseline {
+  name: string;
+  description?: string;
+  runId: string | null; // Aktueller Baseline-Lauf (null, solange kein Lauf passt)
+  pinned: boolean; // Angeheftete Baselines werden nicht weitergeschaltet
+  rule?: BaselineRule;
+  updatedAt: number;
+}
+
+export interface BaselineInput {
+  description?: string;
+  runId?: string;
+  pinned?: boolean;
+  rule?: BaselineRule;
+}
+
+/**
+ * Prüft eine Baseline aus einer Anfrage
+ *
+ * @returns Gefundene Probleme (leer, wenn die Baseline gültig ist)
+ */
+export function validateBaselineInput(name: string, value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Die Baseline muss ein Objekt sein"];
+  }
+
+  const input = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!name.trim()) {
+    issues.push("Der Name der Baseline darf nicht leer sein");
+  } else if (name === "__proto__") {
+    issues.push("Der Name __proto__ ist für Baselines nicht erlaubt");
+  }
+  for (const key of ["description", "runId"]) {
+    if (input[key] !== undefined && typeof input[key] !== "string") {
+      issues.push(`${key} muss ein Text sein`);
+    }
+  }
+  if (input.pinned !== undefined && typeof input.pinned !== "boolean") {
+    issues.push("pinned muss true oder false sein");
+  }
+
+  if (input.rule !== undefined) {
+    const rule = input.rule as Record<string, unknown>;
+    if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+      issues.push("rule muss ein Objekt sein");
+    } else {
+      if (rule.branch !== undefined && typeof rule.branch !== "string") {
+        issues.push("rule.branch muss ein Text sein");
+      }
+      if (
+        rule.onlyPassing !== undefined &&
+        typeof rule.onlyPassing !== "boolean"
+      ) {
+        issues.push("rule.onlyPassing muss true oder false sein");
+      }
+    }
+  }
+
+  if (input.runId === undefined && input.rule === undefined) {
+    issues.push("Eine Baseline braucht eine runId oder eine Regel");
+  }
+  if (input.pinned === true && input.runId === undefined) {
+    issues.push("Eine angeheftete Baseline braucht eine runId");
+  }
+
+  return issues;
+}
+
+/**
+ * Verwaltung der benannten Baselines im Results-Store
+ */
+export class RunBaselines {
+  private repository: ResultsRepository;
+
+  /**
+   * @param baseDir - Basisverzeichnis des Dashboards
+   * @param repository - Speicherschicht (Standard: Results-Store unter baseDir)
+   */
+  constructor(
+    baseDir: string = path.join(process.cwd(), "tests", "dashboard"),
+    repository: ResultsRepository = getResultsStore(baseDir),
+  ) {
+    this.repository = repository;
+  }
+
+  /**
+   * Gibt alle Baselines alphabetisch sortiert zurück
+   */
+  public list(): RunBaseline[] {
+    return Object.values(this.loadBaselines()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  /**
+   * Gibt eine Baseline zurück oder null, wenn sie nicht existiert
+   */
+  public get(name: string): RunBaseline | null {
+    return getBaseline(this.loadBaselines(), name) || null;
+  }
+
+  /**
+   * Legt eine Baseline an oder ersetzt sie
+   *
+   * Ohne `runId` wird der neueste zur Regel passende Lauf verwendet.
+   *
+   * @returns Die gespeicherte Baseline oder null, wenn der Lauf nicht existiert
+   */
+  public save(
+    name: string,
+    input: BaselineInput,
+    now: number = Date.now(),
+  ): RunBaseline | null {
+    if (input.runId && !this.repository.getRun(input.runId)) {
+      return null;
+    }
+
+    const baseline: RunBaseline = {
+      name,
+      description: input.description,
+      runId:
+        input.runId || (input.rule ? this.findLatestRun(input.rule) : null),
+      pinned: input.pinned || false,
+      rule: input.rule,
+      updatedAt: now,
+    };
+
+    const baselines = this.loadBaselines();
+    baselines[name] = baseline;
+    this.saveBaselines(baselines);
+
+    return baseline;
+  }
+
+  /**
+   * Löscht eine Baseline
+   *
+   * @returns true, wenn die Baseline existierte
+   */
+  public remove(name: string): boolean {
+    const baselines = this.loadBaselines();
+    if (!getBaseline(baselines, name)) {
+      return false;
+    }
+
+    delete baselines[name];
+    this.saveBaselines(baselines);
+    return true;
+  }
+
+  /**
+   * Löst einen Baseline-Namen in die Lauf-ID auf
+   *
+   * @param reference - Name einer Baseline oder eine Lauf-ID
+   * @returns Die Lauf-ID der Baseline, die Referenz selbst, wenn es keine
+   *   Baseline dieses Namens gibt, oder null für eine Baseline ohne Lauf
+   */
+  public resolveRunId(reference: string): string | null {
+    const baseline = getBaseline(this.loadBaselines(), reference);
+    return baseline ? baseline.runId : reference;
+  }
+
+  /**
+   * Sucht die Baseline für den Branch eines Laufs
+   *
+   * Bevorzugt wird eine Baseline, deren Regel genau diesen Branch nennt,
+   * danach eine Regel ohne Branch. Angeheftete Baselines zählen nur mit
+   * Regel (sie werden dann nicht weitergeschaltet); ohne Regel sind sie
+   * keinem Branch zugeordnet und nur über ihren Namen erreichbar.
+   */
+  public getBranchBaseline(branch?: string): RunBaseline | null {
+    const candidates = this.list().filter(
+      (baseline) => baseline.rule && baseline.runId,
+    );
+
+    return (
+      candidates.find((baseline) => baseline.rule!.branch === branch) ||
+      candidates.find((baseline) => baseline.rule!.branch === undefined) ||
+      null
+    );
+  }
+
+  /**
+   * Vergleicht einen neuen Lauf mit der Baseline seines Branches
+   *
+   * @returns Die Zusammenfassung oder null, wenn es keine Baseline gibt
+   */
+  public compareWithBranchBaseline(
+    run: PlaywrightTestResultFile,
+  ): BaselineComparisonSummary | null {
+    const baseline = this.getBranchBaseline(run.branch);
+    const baselineRun =
+      baseline?.runId && baseline.runId !== run.runId
+        ? this.repository.getRun(baseline.runId)
+        : null;
+
+    return baseline && baselineRun
+      ? summarizeComparison(baseline.name, compareRuns(baselineRun, run))
+      : null;
+  }
+
+  /**
+   * Schaltet alle nicht angehefteten Baselines weiter, deren Regel der Lauf erfüllt
+   *
+   * @returns Namen der weitergeschalteten Baselines
+   */
+  public advance(
+    run: PlaywrightTestResultFile,
+    now: number = Date.now(),
+  ): string[] {
+    const baselines = this.loadBaselines();
+    const advanced: string[] = [];
+
+    for (const baseline of Object.values(baselines)) {
+      if (baseline.pinned || !baseline.rule) continue;
+      if (!matchesRule(baseline.rule, run)) continue;
+
+      const current = baseline.runId
+        ? this.repository.getRun(baseline.runId)
+        : null;
+      if (current && current.timestamp > run.timestamp) continue;
+
+      baseline.runId = run.runId;
+      baseline.updatedAt = now;
+      advanced.push(baseline.name);
+    }
+
+    if (advanced.length > 0) {
+      this.saveBaselines(baselines);
+    }
+
+    return advanced;
+  }
+
+  /**
+   * Sucht den neuesten gespeicherten Lauf, der die Regel erfüllt
+   */
+  private findLatestRun(rule: BaselineRule): string | null {
+    const latest = this.repository
+      .listRuns({ branch: rule.branch })
+      .find((summary) => rule.onlyPassing === false || summary.success);
+
+    return latest ? latest.runId : null;
+  }
+
+  private loadBaselines(): Record<string, RunBaseline> {
+    try {
+      return (
+        this.repository.getDocument<Record<string, RunBaseline>>(
+          DOCUMENT_KEYS.baselines,
+        ) || {}
+      );
+    } catch (error) {
+      console.error("Fehler beim Laden der Baselines:", error);
+      return {};
+    }
+  }
+
+  private saveBaselines(baselines: Record<string, RunBaseline>): void {
+    this.repository.saveDocument(DOCUMENT_KEYS.baselines, baselines);
+  }
+}
+
+/**
+ * Gibt eine gespeicherte Baseline zurück (geerbte Schlüssel wie
+ * "constructor" oder "toString" sind keine Baselines)
+ */
+function getBaseline(
+  baselines: Record<string, RunBaseline>,
+  name: string,
+): RunBaseline | undefined {
+  return Object.prototype.hasOwnProperty.call(baselines, name)
+    ? baselines[name]
+    : undefined;
+}
+
+/**
+ * Prüft, ob ein Lauf die Regel einer Baseline erfüllt
+ */
+function matchesRule(
+  rule: BaselineRule,
+  run: PlaywrightTestResultFile,
+): boolean {
+  return (
+    (rule.branch === undefined || rule.branch === run.branch) &&
+    (rule.onlyPassing === false || run.success)
+  );
+}
+
+export default RunBaselines;
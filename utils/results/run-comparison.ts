@@ -0,0 +1,154 @@
+/**
+ * Vergleich zweier Testläufe
+ *
+ * Dieses Modul ermittelt die Änderungen der Metriken und den Statuswechsel
+ * jedes einzelnen Tests zwischen einem Baseline-Lauf und einem aktuellen Lauf.
+ * Es wird vom Vergleichs-Endpunkt und vom Quality Gate gemeinsam verwendet.
+ */
+
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../types/playwright-results";
+import {
+  BaselineComparisonSummary,
+  TestChange,
+  TestComparison,
+} from "../../types/test-changes";
+import { getResultTestCaseId } from "../metrics/test-identity";
+
+// Status, die als Fehlschlag eines Tests gelten
+const FAILING_STATUSES = ["failed", "timed-out", "interrupted"];
+
+/**
+ * Vergleicht zwei Testläufe
+ *
+ * @param baseline - Der ältere Lauf, gegen den verglichen wird
+ * @param current - Der aktuelle Lauf
+ * @returns Metrik-Änderungen und Änderungen pro Test (inkl. neuer und entfernter Tests)
+ */
+export function compareRuns(
+  baseline: PlaywrightTestResultFile,
+  current: PlaywrightTestResultFile,
+): TestComparison {
+  const comparison: TestComparison = {
+    baseline: {
+      runId: baseline.runId,
+      timestamp: baseline.timestamp,
+      runName: baseline.runName,
+      metrics: baseline.metrics,
+    },
+    current: {
+      runId: current.runId,
+      timestamp: current.timestamp,
+      runName: current.runName,
+      metrics: current.metrics,
+    },
+    testChanges: [],
+    metricsComparison: {
+      durationChange:
+        current.metrics.totalDuration - baseline.metrics.totalDuration,
+      passRateChange: current.metrics.passRate - baseline.metrics.passRate,
+      failRateChange: current.metrics.failRate - baseline.metrics.failRate,
+      skipRateChange: current.metrics.skipRate - baseline.metrics.skipRate,
+    },
+  };
+
+  // Für jeden Test Änderungen erfassen
+  const baselineTests = new Map(
+    baseline.testResults.map((test) => [getTestResultKey(test), test]),
+  );
+
+  for (const test of current.testResults) {
+    const previous = baselineTests.get(getTestResultKey(test));
+
+    if (previous) {
+      comparison.testChanges.push({
+        filename: test.filename,
+        title: test.title,
+        project: test.projectName,
+        previousStatus: previous.status,
+        currentStatus: test.status,
+        statusChanged: previous.status !== test.status,
+        durationChange: test.duration - previous.duration,
+      });
+    } else {
+      // Neuer Test
+      comparison.testChanges.push({
+        filename: test.filename,
+        title: test.title,
+        project: test.projectName,
+        previousStatus: "new",
+        currentStatus: test.status,
+        statusChanged: true,
+        durationChange: test.duration,
+      });
+    }
+  }
+
+  // Tests suchen, die nicht mehr vorhanden sind
+  const currentKeys = new Set(current.testResults.map(getTestResultKey));
+  for (const test of baseline.testResults) {
+    if (!currentKeys.has(getTestResultKey(test))) {
+      comparison.testChanges.push({
+        filename: test.filename,
+        title: test.title,
+        project: test.projectName,
+        previousStatus: test.status,
+        currentStatus: "removed",
+        statusChanged: true,
+        durationChange: -test.duration,
+      });
+    }
+  }
+
+  return comparison;
+}
+
+/**
+ * Fasst einen Vergleich mit einer benannten Baseline zusammen
+ */
+export function summarizeComparison(
+  baseline: string,
+  comparison: TestComparison,
+): BaselineComparisonSummary {
+  return {
+    baseline,
+    baselineRunId: comparison.baseline.runId,
+    passRateChange: comparison.metricsComparison.passRateChange,
+    durationChange: comparison.metricsComparison.durationChange,
+    newFailures: comparison.testChanges.filter(isNewFailure).length,
+    fixedTests: comparison.testChanges.filter(isFixedTest).length,
+  };
+}
+
+/**
+ * Prüft, ob ein Test im aktuellen Lauf neu fehlschlägt
+ */
+export function isNewFailure(change: TestChange): boolean {
+  return (
+    FAILING_STATUSES.includes(change.currentStatus) &&
+    !FAILING_STATUSES.includes(change.previousStatus)
+  );
+}
+
+/**
+ * Prüft, ob ein zuvor fehlgeschlagener Test im aktuellen Lauf besteht
+ */
+export function isFixedTest(change: TestChange): boolean {
+  return (
+    FAILING_STATUSES.includes(change.previousStatus) &&
+    (change.currentStatus === "passed" || change.currentStatus === "flaky")
+  );
+}
+
+/**
+ * Bildet einen eindeutigen Schlüssel für einen Test innerhalb eines Laufs
+ * (Testfall-ID und Projekt)
+ *
+ * Der Pfad enthält das Wurzelverzeichnis des Laufs und unterscheidet sich
+ * daher zwischen Rechnern; die Testfall-ID nutzt nur den Dateinamen.
+ */
+export function getTestResultKey(test: PlaywrightSingleTestResult): string {
+  return `${getResultTestCaseId(test)}::${test.projectName || ""}`;
+}
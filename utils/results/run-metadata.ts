@@ -0,0 +1,294 @@
+/**
+ * Git- und CI-Metadaten von Testläufen
+ *
+ * Dieses Modul ermittelt Commit, Branch, Pull Request, Autor und CI-Job
+ * eines Laufs: aus den Umgebungsvariablen gängiger CI-Systeme (beim Upload
+ * übergeben), aus einzelnen Feldern der Anfrage oder über `git` aus dem
+ * lokalen Repository, wenn das Dashboard den Lauf selbst startet. Außerdem
+ * bildet es daraus Lauf-Filter nach Branch und Commit-Bereich für die
+ * Metrik-Endpunkte.
+ */
+
+import { execFileSync } from "child_process";
+import { RunGitMetadata } from "../../types/playwright-results";
+import { ResultsRepository } from "../storage/results-repository";
+
+// Maximale Laufzeit eines git-Aufrufs
+const GIT_TIMEOUT_MS = 5000;
+
+// Felder, die beim Upload direkt angegeben werden können
+export const RUN_METADATA_FIELDS = [
+  "commit",
+  "branch",
+  "pullRequest",
+  "author",
+  "commitMessage",
+  "ciJobUrl",
+] as const;
+
+// Läufe, die einem Filter nach Branch bzw. Commit-Bereich entsprechen
+export interface RunFilter {
+  branch?: string;
+  commitRange?: string; // "<von>..<bis>" wie bei git log (von selbst ausgeschlossen)
+  runIds: Set<string>;
+}
+
+type CiEnv = Record<string, string | undefined>;
+
+// Bekannte CI-Systeme mit Erkennungsvariable und Zuordnung der Variablen
+const CI_PROVIDERS: Array<{
+  name: string;
+  detect: string;
+  read: (env: CiEnv) => RunGitMetadata;
+}> = [
+  {
+    name: "github-actions",
+    detect: "GITHUB_ACTIONS",
+    read: (env) => ({
+      commit: env.GITHUB_SHA,
+      branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+      pullRequest: env.GITHUB_REF?.match(/^refs\/pull\/(\d+)\//)?.[1],
+      author: env.GITHUB_ACTOR,
+      ciJobUrl:
+        env.GITHUB_SERVER_URL && env.GITHUB_REPOSITORY && env.GITHUB_RUN_ID
+          ? `${env.GITHUB_SERVER_URL}/${env.GITHUB_REPOSITORY}/actions/runs/${env.GITHUB_RUN_ID}`
+          : undefined,
+    }),
+  },
+  {
+    name: "gitlab-ci",
+    detect: "GITLAB_CI",
+    read: (env) => ({
+      commit: env.CI_COMMIT_SHA,
+      branch:
+        env.CI_MERGE_REQUEST_SOURCE_BRANCH_NAME ||
+        env.CI_COMMIT_BRANCH ||
+        env.CI_COMMIT_REF_NAME,
+      pullRequest: env.CI_MERGE_REQUEST_IID,
+      author: env.CI_COMMIT_AUTHOR || env.GITLAB_USER_LOGIN,
+      commitMessage: env.CI_COMMIT_TITLE,
+      ciJobUrl: env.CI_JOB_URL,
+    }),
+  },
+  {
+    name: "jenkins",
+    detect: "JENKINS_URL",
+    read: (env) => ({
+      commit: env.GIT_COMMIT,
+      branch:
+        env.CHANGE_BRANCH ||
+        env.BRANCH_NAME ||
+        env.GIT_BRANCH?.replace(/^origin\//, ""),
+      pullRequest: env.CHANGE_ID,
+      author: env.CHANGE_AUTHOR,
+      ciJobUrl: env.BUILD_URL,
+    }),
+  },
+  {
+    name: "circleci",
+    detect: "CIRCLECI",
+    read: (env) => ({
+      commit: env.CIRCLE_SHA1,
+      branch: env.CIRCLE_BRANCH,
+      pullRequest: env.CIRCLE_PULL_REQUEST?.match(/\/(\d+)$/)?.[1],
+      author: env.CIRCLE_USERNAME,
+      ciJobUrl: env.CIRCLE_BUILD_URL,
+    }),
+  },
+];
+
+/**
+ * Liest die Metadaten aus den Umgebungsvariablen eines CI-Systems
+ *
+ * @param env - Umgebungsvariablen (Standard: die des eigenen Prozesses)
+ * @returns Die Metadaten oder ein leeres Objekt, wenn kein CI-System erkannt wird
+ */
+export function readCiMetadata(env: CiEnv = process.env): RunGitMetadata {
+  const provider = CI_PROVIDERS.find((entry) => env[entry.detect]);
+  if (!provider) {
+    return {};
+  }
+
+  return mergeRunMetadata(provider.read(env), { ciProvider: provider.name });
+}
+
+/**
+ * Liest Commit, Branch, Autor und Commit-Nachricht aus dem lokalen Repository
+ *
+ * @param cwd - Verzeichnis innerhalb des Repositorys
+ * @returns Die Metadaten oder ein leeres Objekt, wenn git nicht verfügbar ist
+ */
+export function readLocalGitMetadata(
+  cwd: string = process.cwd(),
+): RunGitMetadata {
+  const commit = runGitCommand(["rev-parse", "HEAD"], cwd);
+  if (!commit) {
+    return {};
+  }
+
+  // Bei einem losgelösten HEAD liefert git "HEAD" statt eines Branches
+  const branch = runGitCommand(["rev-parse", "--abbrev-ref", "HEAD"], cwd);
+
+  return mergeRunMetadata({
+    commit,
+    branch: branch !== "HEAD" ? branch || undefined : undefined,
+    author: runGitCommand(["log", "-1", "--format=%an"], cwd) || undefined,
+    commitMessage:
+      runGitCommand(["log", "-1", "--format=%s"], cwd) || undefined,
+  });
+}
+
+/**
+ * Führt einen git-Befehl aus
+ *
+ * @returns Die Ausgabe ohne umgebenden Leerraum oder null bei einem Fehler
+ */
+export function runGitCommand(args: string[], cwd: string): string | null {
+  try {
+    return execFileSync("git", args, {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: GIT_TIMEOUT_MS,
+    }).trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Führt Metadaten aus mehreren Quellen zusammen
+ *
+ * Pro Feld gilt der erste gesetzte Wert; leere Felder werden entfernt.
+ */
+export function mergeRunMetadata(
+  ...sources: Array<RunGitMetadata | undefined>
+): RunGitMetadata {
+  const merged: RunGitMetadata = {};
+
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      const field = key as keyof RunGitMetadata;
+      if (value && !merged[field]) {
+        merged[field] = value;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Prüft die Metadaten-Felder einer Upload-Anfrage
+ *
+ * @returns Gefundene Probleme (leer, wenn die Felder gültig sind)
+ */
+export function validateRunMetadataInput(
+  input: Record<string, unknown>,
+): string[] {
+  const issues: string[] = [];
+
+  for (const key of RUN_METADATA_FIELDS) {
+    const value = input[key];
+    const allowsNumber = key === "pullRequest" && typeof value === "number";
+    if (value !== undefined && typeof value !== "string" && !allowsNumber) {
+      issues.push(`${key} muss ein Text sein`);
+    }
+  }
+
+  if (input.ciEnv !== undefined) {
+    const env = input.ciEnv;
+    if (!env || typeof env !== "object" || Array.isArray(env)) {
+      issues.push("ciEnv muss ein Objekt mit Umgebungsvariablen sein");
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Ermittelt die Metadaten eines hochgeladenen Laufs
+ *
+ * Direkt angegebene Felder haben Vorrang vor den mitgesendeten
+ * CI-Umgebungsvariablen (`ciEnv`).
+ *
+ * @param input - Gültige Felder der Anfrage (siehe validateRunMetadataInput)
+ */
+export function readUploadMetadata(
+  input: Record<string, unknown>,
+): RunGitMetadata {
+  const fields: RunGitMetadata = {};
+  for (const key of RUN_METADATA_FIELDS) {
+    if (input[key] !== undefined) {
+      fields[key] = String(input[key]);
+    }
+  }
+
+  return mergeRunMetadata(
+    fields,
+    input.ciEnv ? readCiMetadata(input.ciEnv as CiEnv) : undefined,
+  );
+}
+
+/**
+ * Löst einen Commit-Bereich "<von>..<bis>" über das lokale Repository auf
+ *
+ * @returns Die SHAs der Commits im Bereich (ohne <von>) oder null, wenn der
+ *   Bereich ungültig ist oder git ihn nicht auflösen kann
+ */
+export function resolveCommitRange(
+  range: string,
+  cwd: string = process.cwd(),
+): string[] | null {
+  const [from, to] = range.split("..");
+  if (!from || !to || from.startsWith("-") || to.startsWith("-")) {
+    return null;
+  }
+
+  const output = runGitCommand(["rev-list", `${from}..${to}`], cwd);
+  return output === null ? null : output.split("\n").filter(Boolean);
+}
+
+/**
+ * Prüft, ob ein (ggf. gekürzter) Commit-SHA in einer Liste enthalten ist
+ */
+export function containsCommit(commits: string[], commit: string): boolean {
+  return commits.some(
+    (sha) => sha.startsWith(commit) || commit.startsWith(sha),
+  );
+}
+
+/**
+ * Bildet einen Lauf-Filter aus den Query-Parametern branch und commitRange
+ *
+ * @returns Der Filter (undefined ohne Parameter) oder eine Fehlermeldung
+ */
+export function createRunFilter(
+  repository: ResultsRepository,
+  params: { branch?: string; commitRange?: string },
+  cwd: string = process.cwd(),
+): { filter?: RunFilter; error?: string } {
+  const { branch, commitRange } = params;
+  if (!branch && !commitRange) {
+    return {};
+  }
+
+  const commits = commitRange ? resolveCommitRange(commitRange, cwd) : null;
+  if (commitRange && !commits) {
+    return {
+      error: `Commit-Bereich ${commitRange} konnte nicht aufgelöst werden (erwartet: <von>..<bis>)`,
+    };
+  }
+
+  const runIds = repository
+    .listRuns({ branch })
+    .filter(
+      (summary) =>
+        !commits ||
+        (summary.commit !== undefined &&
+          containsCommit(commits, summary.commit)),
+    )
+    .map((summary) => summary.runId);
+
+  return { filter: { branch, commitRange, runIds: new Set(runIds) } };
+}
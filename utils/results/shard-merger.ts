@@ -0,0 +1,315 @@
+/**
+ * Shard-Merger
+ *
+ * Dieses Modul sammelt die einzeln hochgeladenen Shards eines Playwright-Laufs
+ * (`--shard=1/4` usw.) und führt sie zu einem logischen Testlauf zusammen,
+ * sobald alle Shards eingegangen sind oder das Zeitlimit abgelaufen ist.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  PlaywrightShardInfo,
+  PlaywrightSingleTestResult,
+  PlaywrightTestRunConfig,
+  RunGitMetadata,
+} from "../../types/playwright-results";
+import { PlaywrightReportError } from "./playwright-report-parser";
+import { mergeRunMetadata } from "./run-metadata";
+
+// Standard-Zeitlimit, nach dem ein unvollständiger Build abgeschlossen wird
+export const DEFAULT_SHARD_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Ein einzelner hochgeladener Shard
+export interface ShardUpload {
+  buildId: string; // Gemeinsamer Schlüssel aller Shards eines Laufs
+  shardIndex: number; // Index des Shards (1-basiert)
+  shardTotal: number; // Gesamtanzahl der Shards
+  testResults: PlaywrightSingleTestResult[];
+  reportErrors: PlaywrightReportError[];
+  config: PlaywrightTestRunConfig;
+  runName?: string;
+  git?: RunGitMetadata;
+}
+
+// Zusammengeführter Lauf, bereit zum Speichern
+export interface MergedShardRun {
+  timestamp: number; // Eingang des ersten Shards
+  runName?: string;
+  git?: RunGitMetadata;
+  testResults: PlaywrightSingleTestResult[];
+  reportErrors: PlaywrightReportError[];
+  config: PlaywrightTestRunConfig;
+  shards: PlaywrightShardInfo;
+}
+
+// Übersicht eines noch offenen Builds
+export interface PendingShardBuild {
+  buildId: string;
+  total: number;
+  received: number[];
+  missing: number[];
+  firstReceivedAt: number;
+  expiresAt: number; // Zeitpunkt des Abschlusses als Teillauf
+}
+
+export type ShardMergeOutcome =
+  | { status: "pending"; build: PendingShardBuild }
+  | { status: "complete"; run: MergedShardRun }
+  | { status: "rejected"; reason: string };
+
+// Persistierter Zustand eines Builds
+interface ShardBuildState {
+  buildId: string;
+  total: number;
+  firstReceivedAt: number;
+  runName?: string;
+  git?: RunGitMetadata;
+  shards: Record<
+    string,
+    {
+      receivedAt: number;
+      testResults: PlaywrightSingleTestResult[];
+      reportErrors: PlaywrightReportError[];
+      config: PlaywrightTestRunConfig;
+    }
+  >;
+  mergedRunId?: string; // Gesetzt, sobald der Build gespeichert wurde
+  mergedAt?: number;
+}
+
+export class ShardMerger {
+  private storageDir: string;
+  private timeoutMs: number;
+
+  /**
+   * Konstruktor
+   *
+   * @param baseDir - Basisverzeichnis für Ergebnisse
+   * @param timeoutMs - Zeit nach dem ersten Shard, bis ein Teillauf abgeschlossen wird
+   */
+  constructor(
+    baseDir: string = process.cwd(),
+    timeoutMs: number = DEFAULT_SHARD_TIMEOUT_MS,
+  ) {
+    this.storageDir = path.join(baseDir, "results", "pending-shards");
+    this.timeoutMs = timeoutMs;
+
+    if (!fs.existsSync(this.storageDir)) {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Nimmt einen Shard entgegen und führt den Build zusammen, wenn er vollständig ist
+   *
+   * @param upload - Der hochgeladene Shard
+   * @param now - Aktueller Zeitpunkt
+   * @returns Ausstehender Build, zusammengeführter Lauf oder Ablehnungsgrund
+   */
+  public addShard(
+    upload: ShardUpload,
+    now: number = Date.now(),
+  ): ShardMergeOutcome {
+    const state = this.loadState(upload.buildId) || {
+      buildId: upload.buildId,
+      total: upload.shardTotal,
+      firstReceivedAt: now,
+      shards: {},
+    };
+
+    if (state.mergedRunId) {
+      return {
+        status: "rejected",
+        reason: `Build ${upload.buildId} wurde bereits als Lauf ${state.mergedRunId} abgeschlossen`,
+      };
+    }
+
+    if (state.total !== upload.shardTotal) {
+      return {
+        status: "rejected",
+        reason: `Build ${upload.buildId} erwartet ${state.total} Shards, Upload meldet ${upload.shardTotal}`,
+      };
+    }
+
+    // Ein erneut hochgeladener Shard (z.B. wiederholter CI-Job) ersetzt den vorherigen
+    state.shards[String(upload.shardIndex)] = {
+      receivedAt: now,
+      testResults: upload.testResults,
+      reportErrors: upload.reportErrors,
+      config: upload.config,
+    };
+    state.runName = state.runName || upload.runName;
+    // Metadaten des ersten Shards haben Vorrang, spätere ergänzen fehlende Felder
+    state.git = mergeRunMetadata(state.git, upload.git);
+
+    if (this.getMissing(state).length === 0) {
+      this.saveState(state);
+      return { status: "complete", run: this.merge(state) };
+    }
+
+    this.saveState(state);
+    return { status: "pending", build: this.summarize(state) };
+  }
+
+  /**
+   * Führt alle Builds, deren Zeitlimit abgelaufen ist, als Teilläufe zusammen
+   *
+   * @param now - Aktueller Zeitpunkt
+   * @returns Die zusammengeführten Teilläufe
+   */
+  public finalizeExpired(now: number = Date.now()): MergedShardRun[] {
+    return this.loadOpenStates()
+      .filter((state) => now >= state.firstReceivedAt + this.timeoutMs)
+      .map((state) => this.merge(state));
+  }
+
+  /**
+   * Führt einen offenen Build sofort zusammen, auch wenn Shards fehlen
+   *
+   * @param buildId - Schlüssel des Builds
+   * @returns Der zusammengeführte Lauf oder null, wenn kein offener Build existiert
+   */
+  public finalize(buildId: string): MergedShardRun | null {
+    const state = this.loadState(buildId);
+    if (!state || state.mergedRunId) return null;
+
+    return this.merge(state);
+  }
+
+  /**
+   * Markiert einen Build als gespeichert und verwirft die Shard-Daten
+   *
+   * @param buildId - Schlüssel des Builds
+   * @param runId - ID des gespeicherten Laufs
+   */
+  public markMerged(buildId: string, runId: string): void {
+    const state = this.loadState(buildId);
+    if (!state) return;
+
+    // Der Zustand bleibt erhalten, damit verspätete Shards erkannt werden
+    this.saveState({
+      buildId: state.buildId,
+      total: state.total,
+      firstReceivedAt: state.firstReceivedAt,
+      runName: state.runName,
+      shards: {},
+      mergedRunId: runId,
+      mergedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Gibt alle noch offenen Builds zurück
+   */
+  public listPending(): PendingShardBuild[] {
+    return this.loadOpenStates()
+      .map((state) => this.summarize(state))
+      .sort((a, b) => b.firstReceivedAt - a.firstReceivedAt);
+  }
+
+  /**
+   * Fügt die Shards eines Builds in Indexreihenfolge zusammen
+   */
+  private merge(state: ShardBuildState): MergedShardRun {
+    const received = this.getReceived(state);
+    const shards = received.map((index) => state.shards[String(index)]);
+
+    return {
+      timestamp: state.firstReceivedAt,
+      runName: state.runName,
+      git: state.git,
+      testResults: shards.flatMap((shard) => shard.testResults),
+      reportErrors: shards.flatMap((shard) => shard.reportErrors),
+      config: { ...shards[0].config, shard: { total: state.total } },
+      shards: {
+        buildId: state.buildId,
+        total: state.total,
+        received,
+        missing: this.getMissing(state),
+        complete: received.length === state.total,
+      },
+    };
+  }
+
+  private summarize(state: ShardBuildState): PendingShardBuild {
+    return {
+      buildId: state.buildId,
+      total: state.total,
+      received: this.getReceived(state),
+      missing: this.getMissing(state),
+      firstReceivedAt: state.firstReceivedAt,
+      expiresAt: state.firstReceivedAt + this.timeoutMs,
+    };
+  }
+
+  private getReceived(state: ShardBuildState): number[] {
+    return Object.keys(state.shards)
+      .map(Number)
+      .sort((a, b) => a - b);
+  }
+
+  private getMissing(state: ShardBuildState): number[] {
+    const missing: number[] = [];
+    for (let index = 1; index <= state.total; index++) {
+      if (!state.shards[String(index)]) missing.push(index);
+    }
+    return missing;
+  }
+
+  /**
+   * Lädt alle Builds, die noch nicht gespeichert wurden und mindestens einen Shard haben
+   */
+  private loadOpenStates(): ShardBuildState[] {
+    if (!fs.existsSync(this.storageDir)) return [];
+
+    return fs
+      .readdirSync(this.storageDir)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => {
+        try {
+          return JSON.parse(
+            fs.readFileSync(path.join(this.storageDir, file), "utf-8"),
+          ) as ShardBuildState;
+        } catch (error) {
+          console.error(`Fehler beim Laden des Shard-Zustands ${file}:`, error);
+          return null;
+        }
+      })
+      .filter(
+        (state): state is ShardBuildState =>
+          state !== null &&
+          !state.mergedRunId &&
+          Object.keys(state.shards).length > 0,
+      );
+  }
+
+  private loadState(buildId: string): ShardBuildState | null {
+    const file = this.getStateFile(buildId);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf-8")) as ShardBuildState;
+    } catch (error) {
+      console.error(`Fehler beim Laden des Shard-Zustands ${buildId}:`, error);
+      return null;
+    }
+  }
+
+  private saveState(state: ShardBuildState): void {
+    fs.writeFileSync(
+      this.getStateFile(state.buildId),
+      JSON.stringify(state, null, 2),
+    );
+  }
+
+  private getStateFile(buildId: string): string {
+    // Build-Schlüssel aus CI-Systemen können Schrägstriche o.ä. enthalten
+    return path.join(
+      this.storageDir,
+      `${buildId.replace(/[^\w.-]/g, "_")}.json`,
+    );
+  }
+}
+
+export default ShardMerger;
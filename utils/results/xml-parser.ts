@@ -0,0 +1,194 @@
+/**
+ * Minimaler XML-Parser
+ *
+ * Abhängigkeitsfreier Parser für die XML-Teilmenge, die Testreporter
+ * erzeugen (Elemente, Attribute, Text, CDATA, Kommentare, Entities).
+ * Namespaces, DTDs und Processing Instructions werden nicht ausgewertet.
+ */
+
+export interface XmlElement {
+  name: string; // Elementname inkl. eventuellem Präfix
+  attributes: Record<string, string>; // Attribute mit dekodierten Werten
+  children: XmlElement[]; // Kindelemente in Dokumentreihenfolge
+  text: string; // Verketteter Textinhalt (inkl. CDATA) direkt im Element
+}
+
+export interface XmlParseResult {
+  root: XmlElement | null;
+  error?: string; // Beschreibung des ersten Syntaxfehlers
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parst ein XML-Dokument in einen Elementbaum
+ *
+ * @param xml - Das XML-Dokument als String
+ * @returns Wurzelelement oder eine Fehlerbeschreibung
+ */
+export function parseXml(xml: string): XmlParseResult {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (message: string): XmlParseResult => ({
+    root: null,
+    error: `${message} (Position ${pos})`,
+  });
+
+  // Byte Order Mark überspringen
+  if (xml.charCodeAt(0) === 0xfeff) pos = 1;
+
+  while (pos < xml.length) {
+    const next = xml.indexOf("<", pos);
+    const textEnd = next === -1 ? xml.length : next;
+
+    if (textEnd > pos) {
+      const text = xml.slice(pos, textEnd);
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += decodeEntities(text);
+      } else if (text.trim() !== "") {
+        return fail("Text außerhalb des Wurzelelements");
+      }
+    }
+
+    if (next === -1) break;
+    pos = next;
+
+    if (xml.startsWith("<!--", pos)) {
+      const end = xml.indexOf("-->", pos + 4);
+      if (end === -1) return fail("Nicht geschlossener Kommentar");
+      pos = end + 3;
+    } else if (xml.startsWith("<![CDATA[", pos)) {
+      const end = xml.indexOf("]]>", pos + 9);
+      if (end === -1) return fail("Nicht geschlossener CDATA-Abschnitt");
+      if (stack.length === 0) return fail("CDATA außerhalb des Wurzelelements");
+      stack[stack.length - 1].text += xml.slice(pos + 9, end);
+      pos = end + 3;
+    } else if (xml.startsWith("<?", pos)) {
+      const end = xml.indexOf("?>", pos + 2);
+      if (end === -1) return fail("Nicht geschlossene Processing Instruction");
+      pos = end + 2;
+    } else if (xml.startsWith("<!", pos)) {
+      // DOCTYPE und ähnliche Deklarationen werden übersprungen
+      const end = xml.indexOf(">", pos + 2);
+      if (end === -1) return fail("Nicht geschlossene Deklaration");
+      pos = end + 1;
+    } else if (xml.startsWith("</", pos)) {
+      const end = xml.indexOf(">", pos + 2);
+      if (end === -1) return fail("Nicht geschlossenes End-Tag");
+      const name = xml.slice(pos + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        return fail(
+          `Unerwartetes End-Tag </${name}>${open ? `, erwartet </${open.name}>` : ""}`,
+        );
+      }
+      pos = end + 1;
+    } else {
+      const tag = readStartTag(xml, pos);
+      if (!tag) return fail("Ungültiges Start-Tag");
+
+      const element: XmlElement = {
+        name: tag.name,
+        attributes: tag.attributes,
+        children: [],
+        text: "",
+      };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        return fail("Mehr als ein Wurzelelement");
+      } else {
+        root = element;
+      }
+
+      if (!tag.selfClosing) stack.push(element);
+      pos = tag.end;
+    }
+  }
+
+  if (stack.length > 0) {
+    return fail(
+      `Element <${stack[stack.length - 1].name}> wurde nicht geschlossen`,
+    );
+  }
+  if (!root) return fail("Kein Wurzelelement gefunden");
+
+  return { root };
+}
+
+/**
+ * Gibt alle direkten Kindelemente mit dem angegebenen Namen zurück
+ */
+export function childElements(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * Liest ein Start-Tag inklusive Attributen ab der angegebenen Position
+ */
+function readStartTag(
+  xml: string,
+  start: number,
+): {
+  name: string;
+  attributes: Record<string, string>;
+  selfClosing: boolean;
+  end: number;
+} | null {
+  const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(xml.slice(start, start + 256));
+  if (!nameMatch) return null;
+
+  const attributes: Record<string, string> = {};
+  let pos = start + nameMatch[0].length;
+  const attributePattern =
+    /\s*([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/y;
+
+  while (pos < xml.length) {
+    const rest = /\s*(\/?>)/y;
+    rest.lastIndex = pos;
+    const close = rest.exec(xml);
+    if (close) {
+      return {
+        name: nameMatch[1],
+        attributes,
+        selfClosing: close[1] === "/>",
+        end: rest.lastIndex,
+      };
+    }
+
+    attributePattern.lastIndex = pos;
+    const attribute = attributePattern.exec(xml);
+    if (!attribute) return null;
+
+    attributes[attribute[1]] = decodeEntities(
+      attribute[3] !== undefined ? attribute[3] : attribute[4],
+    );
+    pos = attributePattern.lastIndex;
+  }
+
+  return null;
+}
+
+/**
+ * Dekodiert vordefinierte und numerische XML-Entities
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
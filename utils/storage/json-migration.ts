@@ -0,0 +1,116 @@
+/**
+ * Migration der JSON-Dateien in den Results-Store
+ *
+ * Importiert einmalig die bisher als einzelne JSON-Dateien abgelegten Daten:
+ * Testläufe aus `results/playwright-results/*.json`, `results/success-rates.json`,
+ * `results/flakiness-report.json` und `history/test-history.json`.
+ * Bereits importierte Läufe und vorhandene Dokumente werden übersprungen,
+ * sodass die Migration gefahrlos wiederholt werden kann. Die Quelldateien
+ * bleiben unverändert.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { PlaywrightTestResultFile } from "../../types/playwright-results";
+import { DOCUMENT_KEYS, ResultsRepository } from "./results-repository";
+
+export interface JsonMigrationReport {
+  runsImported: number;
+  runsSkipped: number; // Bereits im Store vorhanden
+  documentsImported: string[]; // Schlüssel der importierten Dokumente
+  issues: Array<{ file: string; message: string }>;
+}
+
+/**
+ * Importiert die JSON-Dateien eines Basisverzeichnisses in ein Repository
+ *
+ * @param baseDir - Basisverzeichnis mit `results/` und `history/`
+ * @param repository - Ziel der Migration
+ * @returns Zusammenfassung der importierten Daten und aufgetretener Probleme
+ */
+export function migrateJsonResults(
+  baseDir: string,
+  repository: ResultsRepository,
+): JsonMigrationReport {
+  const report: JsonMigrationReport = {
+    runsImported: 0,
+    runsSkipped: 0,
+    documentsImported: [],
+    issues: [],
+  };
+
+  const runsDir = path.join(baseDir, "results", "playwright-results");
+  if (fs.existsSync(runsDir)) {
+    const files = fs
+      .readdirSync(runsDir)
+      .filter((file) => file.endsWith(".json"))
+      .sort();
+
+    for (const file of files) {
+      const run = readJsonFile<PlaywrightTestResultFile>(
+        path.join(runsDir, file),
+        report,
+      );
+      if (!run) continue;
+
+      if (
+        typeof run.runId !== "string" ||
+        typeof run.timestamp !== "number" ||
+        !Array.isArray(run.testResults)
+      ) {
+        report.issues.push({
+          file,
+          message: "Kein Testlauf: runId, timestamp oder testResults fehlen",
+        });
+        continue;
+      }
+
+      if (repository.getRun(run.runId)) {
+        report.runsSkipped++;
+        continue;
+      }
+
+      repository.saveRun(run);
+      report.runsImported++;
+    }
+  }
+
+  const documents: Array<[string, string]> = [
+    [
+      DOCUMENT_KEYS.successRates,
+      path.join(baseDir, "results", "success-rates.json"),
+    ],
+    [
+      DOCUMENT_KEYS.flakinessReport,
+      path.join(baseDir, "results", "flakiness-report.json"),
+    ],
+    [
+      DOCUMENT_KEYS.testExecutionHistory,
+      path.join(baseDir, "history", "test-history.json"),
+    ],
+  ];
+
+  for (const [key, file] of documents) {
+    if (!fs.existsSync(file) || repository.getDocument(key) !== null) continue;
+
+    const value = readJsonFile<unknown>(file, report);
+    if (value === null) continue;
+
+    repository.saveDocument(key, value);
+    report.documentsImported.push(key);
+  }
+
+  return report;
+}
+
+function readJsonFile<T>(file: string, report: JsonMigrationReport): T | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8")) as T;
+  } catch (error) {
+    report.issues.push({
+      file: path.basename(file),
+      message: `Datei konnte nicht gelesen werden: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return null;
+  }
+}
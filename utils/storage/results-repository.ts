@@ -0,0 +1,107 @@
+/**
+ * Results-Repository
+ *
+ * Schnittstelle der Speicherschicht für Testläufe, Einzelergebnisse und
+ * abgeleitete Metrik-Dokumente (Erfolgsraten, Flakiness-Bericht, Historie).
+ * Routen, SuccessRateTracker und FlakinessAnalyzer greifen ausschließlich
+ * über diese Schnittstelle auf gespeicherte Daten zu.
+ */
+
+import { PlaywrightTestResultFile } from "../../types/playwright-results";
+
+// Schlüssel der gespeicherten Metrik-Dokumente
+export const DOCUMENT_KEYS = {
+  successRates: "success-rates",
+  flakinessReport: "flakiness-report",
+  testExecutionHistory: "test-execution-history",
+  retentionPolicy: "retention-policy",
+  quarantine: "quarantine",
+  baselines: "baselines",
+} as const;
+
+// Ein einzelnes Testergebnis, indiziert nach Lauf, Test, Zeit und Projekt
+export interface TestResultRecord {
+  runId: string;
+  timestamp: number; // Zeitstempel des Laufs
+  testId: string; // Dateiname des Tests
+  caseId: string; // Einheitliche Test-ID: Dateiname › describe-Pfad › Titel
+  title?: string;
+  project?: string; // Playwright-Projekt bzw. Browser
+  status: string;
+  duration: number;
+  retries?: number;
+}
+
+// Kurzübersicht eines gespeicherten Laufs
+export interface StoredRunSummary {
+  runId: string;
+  timestamp: number;
+  runName?: string;
+  branch?: string;
+  commit?: string;
+  success: boolean;
+  testCount: number;
+  metrics: PlaywrightTestResultFile["metrics"];
+  shards?: PlaywrightTestResultFile["shards"];
+  projects: string[]; // Im Lauf vorkommende Projekte
+}
+
+export interface RunQuery {
+  since?: number; // Frühester Zeitstempel (inklusiv)
+  until?: number; // Spätester Zeitstempel (inklusiv)
+  project?: string; // Nur Läufe mit Tests dieses Projekts
+  branch?: string; // Nur Läufe dieses Branches
+  limit?: number; // Maximale Anzahl, neueste zuerst
+}
+
+export interface TestResultQuery {
+  testId?: string;
+  project?: string;
+  runId?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface ResultsRepository {
+  /**
+   * Speichert einen Testlauf (ersetzt einen vorhandenen Lauf mit gleicher ID)
+   */
+  saveRun(run: PlaywrightTestResultFile): void;
+
+  /**
+   * Gibt einen Testlauf zurück oder null, wenn er nicht existiert
+   */
+  getRun(runId: string): PlaywrightTestResultFile | null;
+
+  /**
+   * Löscht einen Testlauf
+   *
+   * @returns true, wenn der Lauf existierte
+   */
+  deleteRun(runId: string): boolean;
+
+  /**
+   * Gibt Kurzübersichten der Läufe zurück, neueste zuerst
+   */
+  listRuns(query?: RunQuery): StoredRunSummary[];
+
+  /**
+   * Gibt den neuesten Lauf zurück oder null, wenn keiner gespeichert ist
+   */
+  getLatestRun(): PlaywrightTestResultFile | null;
+
+  /**
+   * Sucht Einzelergebnisse über die Indizes, älteste zuerst
+   */
+  findTestResults(query: TestResultQuery): TestResultRecord[];
+
+  /**
+   * Lädt ein Metrik-Dokument oder null, wenn es nicht existiert
+   */
+  getDocument<T>(key: string): T | null;
+
+  /**
+   * Speichert ein Metrik-Dokument
+   */
+  saveDocument<T>(key: string, value: T): void;
+}
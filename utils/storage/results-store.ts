@@ -0,0 +1,433 @@
+/**
+ * Results-Store
+ *
+ * Eingebettete Einzeldatei-Datenbank für Testergebnisse. Alle Änderungen
+ * werden als Journal (eine JSON-Zeile pro Änderung) an `results/results.db`
+ * angehängt und beim ersten Zugriff einmalig eingelesen. Abfragen laufen über
+ * In-Memory-Indizes nach Lauf, Test, Zeitstempel und Projekt, statt bei jeder
+ * Anfrage alle Dateien neu zu parsen. Enthält das Journal zu viele überholte
+ * Zeilen (ersetzte Dokumente und Läufe, Löschungen), wird es auf den
+ * aktuellen Stand verdichtet.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  PlaywrightSingleTestResult,
+  PlaywrightTestResultFile,
+} from "../../types/playwright-results";
+import {
+  ResultsRepository,
+  RunQuery,
+  StoredRunSummary,
+  TestResultQuery,
+  TestResultRecord,
+} from "./results-repository";
+import { getResultTestCaseId } from "../metrics/test-identity";
+
+// Dateiname der Datenbank im Ergebnisverzeichnis
+export const RESULTS_DB_FILENAME = "results.db";
+
+// Verdichtung, sobald das Journal doppelt so groß ist wie der aktuelle Stand.
+// Gemessen wird in Bytes, da jede Speicherung eines Dokuments (z.B. der
+// Erfolgsraten mit dem gesamten Verlauf) das vollständige Dokument anhängt.
+const COMPACTION_RATIO = 2;
+const COMPACTION_MIN_ENTRIES = 200;
+const COMPACTION_MIN_BYTES = 1024 * 1024;
+
+type JournalEntry =
+  | { op: "run"; run: PlaywrightTestResultFile }
+  | { op: "delete"; runId: string }
+  | { op: "document"; key: string; value: unknown };
+
+export class ResultsStore implements ResultsRepository {
+  private dbFile?: string;
+  private loaded = false;
+  private journalEntries = 0;
+  private journalBytes = 0;
+  private liveBytes = 0; // Größe der Zeilen, die den aktuellen Stand bilden
+  private liveEntryBytes = new Map<string, number>(); // Pro Lauf bzw. Dokument
+
+  private runs = new Map<string, PlaywrightTestResultFile>();
+  private summaries = new Map<string, StoredRunSummary>();
+  private runOrder: string[] = []; // Lauf-IDs nach Zeitstempel aufsteigend
+  private testIndex = new Map<string, TestResultRecord[]>();
+  private projectIndex = new Map<string, Set<string>>();
+  private documents = new Map<string, string>(); // Serialisiert, damit Aufrufer keine Referenzen teilen
+
+  /**
+   * Konstruktor
+   *
+   * @param storageDir - Verzeichnis der Datenbankdatei; ohne Angabe nur im Speicher
+   */
+  constructor(storageDir?: string) {
+    if (!storageDir) return;
+
+    this.dbFile = path.join(storageDir, RESULTS_DB_FILENAME);
+
+    if (!fs.existsSync(storageDir)) {
+      fs.mkdirSync(storageDir, { recursive: true });
+    }
+  }
+
+  public saveRun(run: PlaywrightTestResultFile): void {
+    this.ensureLoaded();
+    // Als Kopie ablegen, damit spätere Änderungen des Aufrufers den Stand nicht verändern
+    this.applyRun(copyRun(run));
+    this.append({ op: "run", run });
+  }
+
+  public getRun(runId: string): PlaywrightTestResultFile | null {
+    this.ensureLoaded();
+    const run = this.runs.get(runId);
+    return run ? copyRun(run) : null;
+  }
+
+  public deleteRun(runId: string): boolean {
+    this.ensureLoaded();
+    if (!this.runs.has(runId)) return false;
+
+    this.applyDelete(runId);
+    this.append({ op: "delete", runId });
+    return true;
+  }
+
+  public listRuns(query: RunQuery = {}): StoredRunSummary[] {
+    this.ensureLoaded();
+
+    const projectRuns =
+      query.project !== undefined
+        ? this.projectIndex.get(query.project) || new Set<string>()
+        : null;
+    const result: StoredRunSummary[] = [];
+
+    for (let index = this.runOrder.length - 1; index >= 0; index--) {
+      const summary = this.summaries.get(this.runOrder[index]);
+      if (!summary) continue;
+      if (query.until !== undefined && summary.timestamp > query.until)
+        continue;
+      if (query.since !== undefined && summary.timestamp < query.since) break;
+      if (projectRuns && !projectRuns.has(summary.runId)) continue;
+      if (query.branch !== undefined && summary.branch !== query.branch)
+        continue;
+
+      result.push(summary);
+      if (query.limit !== undefined && result.length >= query.limit) break;
+    }
+
+    return result;
+  }
+
+  public getLatestRun(): PlaywrightTestResultFile | null {
+    this.ensureLoaded();
+    const latestId = this.runOrder[this.runOrder.length - 1];
+    return latestId ? this.getRun(latestId) : null;
+  }
+
+  public findTestResults(query: TestResultQuery): TestResultRecord[] {
+    this.ensureLoaded();
+
+    let records: TestResultRecord[];
+    if (query.testId !== undefined) {
+      records = this.testIndex.get(query.testId) || [];
+    } else if (query.runId !== undefined) {
+      const run = this.runs.get(query.runId);
+      records = run ? toTestResultRecords(run) : [];
+    } else {
+      records = this.runOrder.flatMap((runId) =>
+        toTestResultRecords(this.runs.get(runId)!),
+      );
+    }
+
+    return records.filter(
+      (record) =>
+        (query.project === undefined || record.project === query.project) &&
+        (query.runId === undefined || record.runId === query.runId) &&
+        (query.since === undefined || record.timestamp >= query.since) &&
+        (query.until === undefined || record.timestamp <= query.until),
+    );
+  }
+
+  public getDocument<T>(key: string): T | null {
+    this.ensureLoaded();
+    const serialized = this.documents.get(key);
+    return serialized !== undefined ? (JSON.parse(serialized) as T) : null;
+  }
+
+  public saveDocument<T>(key: string, value: T): void {
+    this.ensureLoaded();
+    this.documents.set(key, JSON.stringify(value));
+    this.append({ op: "document", key, value });
+  }
+
+  /**
+   * Schreibt das Journal neu, sodass es nur noch den aktuellen Stand enthält
+   */
+  public compact(): void {
+    this.ensureLoaded();
+    if (!this.dbFile) return;
+
+    const entries: JournalEntry[] = [
+      ...this.runOrder.map((runId) => ({
+        op: "run" as const,
+        run: this.runs.get(runId)!,
+      })),
+      ...Array.from(this.documents.entries()).map(([key, value]) => ({
+        op: "document" as const,
+        key,
+        value: JSON.parse(value),
+      })),
+    ];
+
+    const lines = entries.map((entry) => JSON.stringify(entry) + "\n");
+
+    // Erst in eine temporäre Datei schreiben, damit ein Abbruch die Datenbank nicht beschädigt
+    const tempFile = `${this.dbFile}.tmp`;
+    fs.writeFileSync(tempFile, lines.join(""), "utf-8");
+    fs.renameSync(tempFile, this.dbFile);
+
+    this.journalEntries = 0;
+    this.journalBytes = 0;
+    this.liveBytes = 0;
+    this.liveEntryBytes.clear();
+    entries.forEach((entry, index) => this.trackEntry(entry, lines[index]));
+  }
+
+  /**
+   * Liest das Journal beim ersten Zugriff ein
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!this.dbFile || !fs.existsSync(this.dbFile)) return;
+
+    const lines = fs.readFileSync(this.dbFile, "utf-8").split("\n");
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        this.applyEntry(entry);
+        this.trackEntry(entry, line + "\n");
+      } catch (error) {
+        // Eine unvollständig geschriebene Zeile (z.B. nach Absturz) wird übersprungen
+        console.error(
+          `Fehler beim Lesen von ${this.dbFile}, Zeile ${index + 1}:`,
+          error,
+        );
+      }
+    });
+  }
+
+  /**
+   * Hängt eine bereits angewendete Änderung an das Journal an
+   */
+  private append(entry: JournalEntry): void {
+    if (!this.dbFile) return;
+
+    const line = JSON.stringify(entry) + "\n";
+    fs.appendFileSync(this.dbFile, line, "utf-8");
+    this.trackEntry(entry, line);
+
+    if (
+      (this.journalEntries >= COMPACTION_MIN_ENTRIES ||
+        this.journalBytes >= COMPACTION_MIN_BYTES) &&
+      this.journalBytes > this.liveBytes * COMPACTION_RATIO
+    ) {
+      this.compact();
+    }
+  }
+
+  /**
+   * Erfasst die Größe einer Journalzeile und welchen Teil des Stands sie bildet
+   *
+   * Eine neue Zeile für denselben Lauf bzw. dasselbe Dokument macht die
+   * vorherige überflüssig; Löschungen sind selbst nicht Teil des Stands.
+   */
+  private trackEntry(entry: JournalEntry, line: string): void {
+    const bytes = Buffer.byteLength(line, "utf-8");
+    this.journalEntries++;
+    this.journalBytes += bytes;
+
+    const key = getLiveEntryKey(entry);
+    this.liveBytes -= this.liveEntryBytes.get(key) || 0;
+    if (entry.op === "delete") {
+      this.liveEntryBytes.delete(key);
+    } else {
+      this.liveEntryBytes.set(key, bytes);
+      this.liveBytes += bytes;
+    }
+  }
+
+  private applyEntry(entry: JournalEntry): void {
+    switch (entry.op) {
+      case "run":
+        this.applyRun(entry.run);
+        break;
+      case "delete":
+        this.applyDelete(entry.runId);
+        break;
+      case "document":
+        this.documents.set(entry.key, JSON.stringify(entry.value));
+        break;
+      default:
+        throw new Error(
+          `Unbekannte Operation ${(entry as { op?: string }).op}`,
+        );
+    }
+  }
+
+  private applyRun(run: PlaywrightTestResultFile): void {
+    if (this.runs.has(run.runId)) {
+      this.applyDelete(run.runId);
+    }
+
+    this.runs.set(run.runId, run);
+    this.summaries.set(run.runId, summarizeRun(run));
+
+    // Einfügen an der zeitlich passenden Stelle (binäre Suche)
+    let low = 0;
+    let high = this.runOrder.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.runs.get(this.runOrder[middle])!.timestamp <= run.timestamp) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    this.runOrder.splice(low, 0, run.runId);
+
+    for (const record of toTestResultRecords(run)) {
+      const records = this.testIndex.get(record.testId) || [];
+      const last = records[records.length - 1];
+      records.push(record);
+      // Läufe kommen meist chronologisch an, nur sonst neu sortieren
+      if (last && last.timestamp > record.timestamp) {
+        records.sort((a, b) => a.timestamp - b.timestamp);
+      }
+      this.testIndex.set(record.testId, records);
+
+      if (record.project) {
+        const runIds = this.projectIndex.get(record.project) || new Set();
+        runIds.add(run.runId);
+        this.projectIndex.set(record.project, runIds);
+      }
+    }
+  }
+
+  private applyDelete(runId: string): void {
+    const run = this.runs.get(runId);
+    if (!run) return;
+
+    this.runs.delete(runId);
+    this.summaries.delete(runId);
+    this.runOrder = this.runOrder.filter((id) => id !== runId);
+
+    for (const [testId, records] of this.testIndex) {
+      const remaining = records.filter((record) => record.runId !== runId);
+      if (remaining.length > 0) {
+        this.testIndex.set(testId, remaining);
+      } else {
+        this.testIndex.delete(testId);
+      }
+    }
+
+    for (const runIds of this.projectIndex.values()) {
+      runIds.delete(runId);
+    }
+  }
+}
+
+// Gemeinsame Instanzen pro Verzeichnis, damit Routen und Metriken denselben Stand sehen
+const stores = new Map<string, ResultsStore>();
+
+/**
+ * Gibt den Store für ein Basisverzeichnis zurück (eine Instanz pro Datenbankdatei)
+ *
+ * @param baseDir - Basisverzeichnis; die Datenbank liegt unter `results/results.db`
+ */
+export function getResultsStore(baseDir: string = process.cwd()): ResultsStore {
+  const storageDir = path.join(baseDir, "results");
+  let store = stores.get(storageDir);
+
+  if (!store) {
+    store = new ResultsStore(storageDir);
+    stores.set(storageDir, store);
+  }
+
+  return store;
+}
+
+/**
+ * Ermittelt die Test-ID eines Einzelergebnisses (Dateiname)
+ */
+export function getTestId(test: PlaywrightSingleTestResult): string {
+  return test.path.split("/").pop() || test.filename;
+}
+
+/**
+ * Gibt an, welchen Lauf bzw. welches Dokument eine Journalzeile betrifft
+ */
+function getLiveEntryKey(entry: JournalEntry): string {
+  switch (entry.op) {
+    case "run":
+      return `run:${entry.run.runId}`;
+    case "delete":
+      return `run:${entry.runId}`;
+    case "document":
+      return `document:${entry.key}`;
+  }
+}
+
+/**
+ * Erstellt eine unabhängige Kopie eines Laufs (wie bei Dokumenten über JSON)
+ */
+function copyRun(run: PlaywrightTestResultFile): PlaywrightTestResultFile {
+  return JSON.parse(JSON.stringify(run)) as PlaywrightTestResultFile;
+}
+
+/**
+ * Zerlegt einen Lauf in indizierbare Einzelergebnisse
+ */
+function toTestResultRecords(
+  run: PlaywrightTestResultFile,
+): TestResultRecord[] {
+  return (run.testResults || []).map((test) => ({
+    runId: run.runId,
+    timestamp: run.timestamp,
+    testId: getTestId(test),
+    caseId: getResultTestCaseId(test),
+    title: test.title,
+    project: test.projectName,
+    status: test.status,
+    duration: test.duration,
+    retries: test.retries,
+  }));
+}
+
+function summarizeRun(run: PlaywrightTestResultFile): StoredRunSummary {
+  const testResults = run.testResults || [];
+
+  return {
+    runId: run.runId,
+    timestamp: run.timestamp,
+    runName: run.runName,
+    branch: run.branch,
+    commit: run.git?.commit,
+    success: run.success,
+    testCount: testResults.length,
+    metrics: run.metrics,
+    shards: run.shards,
+    projects: Array.from(
+      new Set(
+        testResults
+          .map((test) => test.projectName)
+          .filter((name): name is string => Boolean(name)),
+      ),
+    ).sort(),
+  };
+}
+
+export default ResultsStore;
@@ -5,170 +5,764 @@
  * und Dokumentation der Testabdeckung.
  */
 
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import * as ts from "typescript";
-// Direkte Verwendung von fs und path statt glob-Modul
+import {
+  classifyTest,
+  DEFAULT_TAXONOMY,
+  FunctionalAreaTaxonomy,
+} from "./analysis/functional-areas";
+import { getTestCaseId } from "./metrics/test-identity";
+import { TestDiscovery } from "./test-discovery";
 
 export interface TestSelector {
-  type: string; // z.B. 'css', 'xpath', 'text', etc.
-  value: string; // Der eigentliche Selektorwert
-  usage: string; // z.B. 'click', 'fill', 'check', etc.
+  type: string; // z.B. 'css', 'xpath', 'text', 'role', 'testId'
+  value: string; // Der eigentliche Selektorwert (Locator-Ketten mit " >> " verbunden)
+  usage: string; // z.B. 'click', 'fill', 'check', 'assert' oder 'locate'
   line: number; // Zeilennummer im Test
+  column: number; // Spalte im Test
 }
 
 export interface TestAssertion {
-  type: string; // z.B. 'toBeVisible', 'toHaveText', etc.
+  type: string; // z.B. 'visibility', 'text', 'count' (sonst der Matcher)
+  matcher: string; // z.B. 'toBeVisible', 'toHaveText'
   condition: string; // Die geprüfte Bedingung
+  negated: boolean; // Mit .not verneint
   line: number; // Zeilennummer im Test
+  column: number; // Spalte im Test
+}
+
+export interface TestBlock {
+  kind: "describe" | "test"; // test.describe()- oder test()-Block
+  title: string; // Titel des Blocks
+  line: number; // Zeilennummer im Test
+  column: number; // Spalte im Test
+}
+
+export interface TestAnnotation {
+  type: string; // z.B. 'skip', 'fixme', 'slow', 'fail' oder ein eigener Typ
+  description?: string; // Begründung, z.B. test.skip(bedingung, "Grund")
+  condition?: string; // Bedingung bei bedingten Annotationen
+}
+
+export interface TestSetupBlock {
+  kind: string; // 'beforeEach' oder 'beforeAll'
+  line: number; // Zeilennummer des Hooks
+  column: number; // Spalte des Hooks
+  statementCount: number; // Anzahl der Anweisungen im Hook
+  fingerprint: string; // Hash über den Quelltext ohne Leerraum und Kommentare
 }
 
 export interface TestMetadata {
+  id: string; // Eindeutige ID: Datei › describe-Pfad › Titel
+  caseId: string; // Einheitliche Test-ID wie bei Laufzeitergebnissen (siehe getTestCaseId)
   file: string; // Relativer Pfad zur Testdatei
   path: string; // Absoluter Pfad zur Testdatei
-  description: string; // Beschreibung des Tests, aus Kommentaren oder Beschreibungen
-  title: string; // Testtitel aus test.describe/test() Aufrufen
-  name: string; // Name des Tests (für Frontend-Anzeige)
+  description: string; // Beschreibung der Testdatei aus Kommentaren oder describe-Blöcken
+  title: string; // Titel des Testfalls aus test()
+  describePath: string[]; // Titel der umgebenden describe-Blöcke (außen zuerst)
+  name: string; // describe-Pfad und Titel (für Frontend-Anzeige)
+  tags: string[]; // z.B. ['@smoke'] aus Titeln und { tag } (inkl. describe)
+  annotations: TestAnnotation[]; // skip, fixme, slow, fail, only und { annotation }
+  setupBlocks: TestSetupBlock[]; // Für den Testfall geltende beforeEach-/beforeAll-Hooks (außen zuerst)
+  visitedUrls: string[]; // Mit page.goto besuchte Pfade ohne Origin und Query (auch aus Hooks)
+  pageObjects: string[]; // Verwendete Bezeichner aus relativen Imports (auch aus Hooks)
+  line: number; // Zeilennummer des test()-Aufrufs
+  column: number; // Spalte des test()-Aufrufs
   testType: string; // Art des Tests (UI, E2E, Funktional)
   selectors: TestSelector[]; // Liste der verwendeten Selektoren
   assertions: TestAssertion[]; // Liste der Assertions
-  dependencies: string[]; // Importierte Module und Abhängigkeiten
+  dependencies: string[]; // Importierte Module und Abhängigkeiten der Datei
   timeouts: number[]; // Gefundene Timeout-Werte
   screenshots: boolean; // Hat der Test Screenshots
-  complexity: number; // Metriken zur Komplexität (z.B. zyklomatische Komplexität)
-  lineCount: number; // Anzahl der Zeilen
-  updatedAt: string; // Letztes Änderungsdatum
-  functionalAreas: string[]; // Betroffene Funktionsbereiche
+  complexity: number; // Zyklomatische Komplexität des Testfalls
+  lineCount: number; // Anzahl der Zeilen des Testfalls
+  updatedAt: string; // Letztes Änderungsdatum der Datei
+  functionalAreas: string[]; // Funktionsbereiche laut Taxonomie (siehe analysis/functional-areas)
+  owners?: string[]; // Verantwortliche laut Annotation, Tag oder CODEOWNERS (siehe metrics/test-ownership)
+  ownerSource?: "annotation" | "tag" | "codeowners"; // Herkunft von owners
   coverage: {
     // Bereich der getesteten Funktionalität
-    area: string[]; // z.B. ['UI', 'Navigation', 'Auth']
+    area: string[]; // Wie functionalAreas
     type: string[]; // z.B. ['Functional', 'Visual', 'Performance']
   };
 }
 
-export class TestAnalyzer {
-  private basePath: string;
+// Locator-Methoden von Page, Frame und Locator mit dem zugehörigen Selektortyp
+const LOCATOR_METHODS: Record<string, string> = {
+  locator: "css",
+  getByRole: "role",
+  getByText: "text",
+  getByTestId: "testId",
+  getByLabel: "label",
+  getByPlaceholder: "placeholder",
+  getByAltText: "altText",
+  getByTitle: "title",
+};
+
+// Version der Analyse; bei Änderungen am Ergebnisformat oder an der Auswertung
+// erhöhen, damit zwischengespeicherte Ergebnisse neu berechnet werden
+export const TEST_ANALYZER_VERSION = 3;
+
+// Methoden, die einen Locator eingrenzen, ohne eine Aktion auszuführen
+const LOCATOR_FILTERS = new Set([
+  "first",
+  "last",
+  "nth",
+  "filter",
+  "and",
+  "or",
+]);
+
+// Aktionen auf einem Locator (bzw. auf page mit Selektor-String)
+const LOCATOR_ACTIONS = new Set([
+  "click",
+  "dblclick",
+  "tap",
+  "fill",
+  "clear",
+  "type",
+  "press",
+  "pressSequentially",
+  "check",
+  "uncheck",
+  "setChecked",
+  "selectOption",
+  "setInputFiles",
+  "hover",
+  "focus",
+  "dragTo",
+]);
+
+// Modifikatoren zwischen expect(...) und dem Matcher
+const EXPECT_MODIFIERS = new Set(["not", "resolves", "rejects"]);
+
+// Modifikatoren von test() bzw. test.describe() für Blöcke mit Titel
+const TEST_MODIFIERS = new Set(["only", "skip", "fixme", "fail"]);
+const DESCRIBE_MODIFIERS = new Set([
+  "only",
+  "skip",
+  "fixme",
+  "serial",
+  "parallel",
+]);
+
+// Kategorien bekannter Matcher
+const ASSERTION_TYPES: Record<string, string> = {
+  toBeVisible: "visibility",
+  toBeHidden: "visibility",
+  toHaveText: "text",
+  toContainText: "text",
+  toHaveValue: "value",
+  toBeEnabled: "enabled",
+  toBeDisabled: "disabled",
+  toBeChecked: "checked",
+  toHaveCount: "count",
+  toHaveAttribute: "attribute",
+  toHaveURL: "url",
+  toHaveTitle: "title",
+  toHaveScreenshot: "screenshot",
+};
+
+// Annotationen, die als test.skip(), test.fixme() usw. im Rumpf stehen können
+const ANNOTATION_MODIFIERS = new Set(["skip", "fixme", "slow", "fail"]);
+
+// Hooks, die vor den Tests eines Blocks laufen
+const SETUP_HOOKS = new Set(["beforeEach", "beforeAll"]);
+
+interface LocatorStep {
+  type: string;
+  value: string;
+}
 
-  constructor(basePath: string = process.cwd()) {
-    this.basePath = basePath;
+// Ein test()- oder test.describe()-Aufruf mit Titel und Callback
+interface TestBlockCall {
+  kind: TestBlock["kind"];
+  title: string;
+  modifiers: string[]; // z.B. ["skip"] bei test.skip("...", fn)
+  details?: ts.ObjectLiteralExpression; // test("...", { tag, annotation }, fn)
+  callback: ts.ArrowFunction | ts.FunctionExpression;
+}
+
+// Ein beforeEach-/beforeAll-Hook mit seinem Callback
+interface SetupHook {
+  block: TestSetupBlock;
+  callback: ts.ArrowFunction | ts.FunctionExpression;
+}
+
+interface CollectedTestCase {
+  title: string;
+  describePath: string[];
+  tags: string[];
+  annotations: TestAnnotation[];
+  setupHooks: SetupHook[];
+  node: ts.CallExpression;
+  callback: ts.ArrowFunction | ts.FunctionExpression;
+}
+
+/**
+ * Durchläuft den Syntaxbaum in Quelltext-Reihenfolge
+ */
+function visitNodes(node: ts.Node, visitor: (node: ts.Node) => void): void {
+  visitor(node);
+  ts.forEachChild(node, (child) => visitNodes(child, visitor));
+}
+
+/**
+ * Zeile und Spalte (jeweils ab 1) des Knotens ohne führende Kommentare
+ */
+function getPosition(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile),
+  );
+  return { line: line + 1, column: character + 1 };
+}
+
+function getNodeText(sourceFile: ts.SourceFile, node: ts.Node): string {
+  return node.getText(sourceFile).replace(/\s+/g, " ");
+}
+
+/**
+ * Wert eines String-Literals oder null für andere Ausdrücke
+ */
+function getStringValue(node: ts.Node | undefined): string | null {
+  if (
+    node &&
+    (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+  ) {
+    return node.text;
   }
+  return null;
+}
 
-  /**
-   * Findet alle Playwright-Test-Dateien im angegebenen Verzeichnis
-   * Eigene Implementierung ohne glob-Abhängigkeit
-   */
-  findTestFiles(pattern: string = "**/*.spec.ts"): string[] {
-    console.log(`VERBESSERTE SUCHE: Starte Suche nach *.spec.ts Dateien`);
-    console.log(`Basis-Pfad: ${this.basePath}`);
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
 
-    const results: string[] = [];
+/**
+ * Name der aufgerufenen Funktion bzw. Methode
+ */
+function getCalledName(call: ts.CallExpression): string | null {
+  if (ts.isPropertyAccessExpression(call.expression)) {
+    return call.expression.name.text;
+  }
+  if (ts.isIdentifier(call.expression)) {
+    return call.expression.text;
+  }
+  return null;
+}
 
-    try {
-      // Überprüfe, ob der Basispfad existiert
-      if (!fs.existsSync(this.basePath)) {
-        console.error(`Basis-Pfad existiert nicht: ${this.basePath}`);
-        return [];
-      }
+/**
+ * Zerlegt einen Aufrufer wie test.describe.serial in ["test", "describe", "serial"]
+ */
+function getCalleePath(expression: ts.Expression): string[] {
+  if (ts.isIdentifier(expression)) {
+    return [expression.text];
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const path = getCalleePath(expression.expression);
+    return path.length > 0 ? [...path, expression.name.text] : [];
+  }
+  return [];
+}
 
-      // Betrachte auch das Elternverzeichnis als potentielles Test-Verzeichnis
-      const parentPath = path.resolve(this.basePath, "..");
-      console.log(`Prüfe auch Elternverzeichnis: ${parentPath}`);
-
-      // Liste bekannter Test-Verzeichnisse relativ zur Basis
-      const testDirs = [
-        "", // das Basispfad-Verzeichnis selbst
-        "../", // das Elternverzeichnis
-        "../e2e/",
-        "../specs/",
-        "../tests/",
-        "../__tests__/",
-        "./e2e/",
-        "./specs/",
-        "./tests/",
-        "./__tests__/",
-      ];
+function isDescribeModifier(modifier: string): boolean {
+  return DESCRIBE_MODIFIERS.has(modifier);
+}
 
-      console.log(`Prüfe ${testDirs.length} potentielle Test-Verzeichnisse...`);
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
 
-      // Rekursive Funktion zum Durchsuchen von Verzeichnissen
-      const findRecursively = (dir: string) => {
-        try {
-          if (!fs.existsSync(dir)) {
-            console.log(`Verzeichnis existiert nicht: ${dir}`);
-            return;
-          }
+/**
+ * Erkennt test.beforeEach()- und test.beforeAll()-Hooks (auch ohne test.)
+ * unter den Anweisungen eines Blocks
+ */
+function getSetupHooks(
+  sourceFile: ts.SourceFile,
+  statements: ts.NodeArray<ts.Statement>,
+): SetupHook[] {
+  const hooks: SetupHook[] = [];
 
-          console.log(`Durchsuche Verzeichnis: ${dir}`);
-
-          const entries = fs.readdirSync(dir, { withFileTypes: true });
-          console.log(`${entries.length} Einträge gefunden in ${dir}`);
-
-          for (const entry of entries) {
-            const fullPath = path.join(dir, entry.name);
-
-            // Überspringe node_modules und andere spezielle Verzeichnisse
-            if (
-              entry.name === "node_modules" ||
-              entry.name === ".git" ||
-              entry.name === "dist" ||
-              entry.name === "build"
-            ) {
-              continue;
-            }
-
-            if (entry.isDirectory()) {
-              // Rekursiv in Unterverzeichnisse gehen, aber max. 3 Ebenen tief
-              const relativePath = path.relative(this.basePath, dir);
-              const depth = relativePath.split(path.sep).length;
-
-              if (depth < 3) {
-                findRecursively(fullPath);
-              }
-            } else if (entry.isFile()) {
-              // Teste verschiedene Testdatei-Muster
-              if (
-                entry.name.endsWith(".spec.ts") ||
-                entry.name.endsWith(".test.ts") ||
-                entry.name.endsWith(".spec.js") ||
-                entry.name.endsWith(".test.js")
-              ) {
-                console.log(`Testdatei gefunden: ${fullPath}`);
-                results.push(fullPath);
-              }
-            }
-          }
-        } catch (dirError) {
-          console.error(
-            `Fehler beim Durchsuchen von ${dir}: ${dirError instanceof Error ? dirError.message : "Unbekannter Fehler"}`,
-          );
-        }
-      };
+  for (const statement of statements) {
+    if (
+      !ts.isExpressionStatement(statement) ||
+      !ts.isCallExpression(statement.expression)
+    ) {
+      continue;
+    }
+
+    const call = statement.expression;
+    const calleePath = getCalleePath(call.expression);
+    const hook = calleePath[calleePath.length - 1];
+    const callback = call.arguments[call.arguments.length - 1];
+    if (
+      !SETUP_HOOKS.has(hook) ||
+      calleePath.length > 2 ||
+      !callback ||
+      !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))
+    ) {
+      continue;
+    }
+
+    hooks.push({
+      block: {
+        kind: hook,
+        ...getPosition(sourceFile, call),
+        statementCount: ts.isBlock(callback.body)
+          ? callback.body.statements.length
+          : 1,
+        fingerprint: getCodeFingerprint(callback.body.getText(sourceFile)),
+      },
+      callback,
+    });
+  }
+
+  return hooks;
+}
+
+/**
+ * Normalisiert eine URL auf ihren Pfad (ohne Origin, Query und Fragment)
+ */
+function normalizeUrlPath(url: string): string {
+  const urlPath = url
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, "")
+    .replace(/[?#].*$/, "")
+    // Eine Basis-URL als erster Platzhalter, z.B. `${baseUrl}/login`
+    .replace(/^\*(?=\/)/, "");
+  return urlPath.startsWith("/") ? urlPath : `/${urlPath}`;
+}
 
-      // Durchsuche alle potentiellen Test-Verzeichnisse
-      for (const testDir of testDirs) {
-        const dirPath = path.resolve(this.basePath, testDir);
-        findRecursively(dirPath);
+/**
+ * Mit page.goto() besuchte Pfade; Platzhalter in Template-Strings werden zu "*"
+ */
+function getVisitedUrls(roots: ts.Node[]): string[] {
+  const urls: string[] = [];
+
+  for (const root of roots) {
+    visitNodes(root, (node) => {
+      if (!ts.isCallExpression(node) || getCalledName(node) !== "goto") {
+        return;
       }
 
-      console.log(`Gefundene Testdateien: ${results.length}`);
-
-      // Ausgeben der gefundenen Dateien für Debugging
-      if (results.length > 0) {
-        console.log("Gefundene Testdateien:");
-        results.forEach((file) => console.log(`- ${file}`));
-      } else {
-        console.log("WARNUNG: Keine Testdateien gefunden!");
-        console.log("Geprüfte Verzeichnisse:");
-        testDirs.forEach((dir) => {
-          const fullPath = path.resolve(this.basePath, dir);
-          const exists = fs.existsSync(fullPath)
-            ? "existiert"
-            : "existiert NICHT";
-          console.log(`- ${fullPath} (${exists})`);
-        });
+      const [target] = node.arguments;
+      let url = getStringValue(target);
+      if (target && ts.isTemplateExpression(target)) {
+        url =
+          target.head.text +
+          target.templateSpans.map((span) => `*${span.literal.text}`).join("");
+      }
+      if (url !== null) {
+        urls.push(normalizeUrlPath(url));
       }
+    });
+  }
 
-      return results;
+  return unique(urls);
+}
+
+/**
+ * Lokale Namen aller Imports aus relativen Modulen (z.B. Page Objects)
+ */
+function getRelativeImports(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !statement.importClause ||
+      !/^\.\.?\//.test(getStringValue(statement.moduleSpecifier) || "")
+    ) {
+      continue;
+    }
+
+    const { name, namedBindings } = statement.importClause;
+    if (name) names.add(name.text);
+    if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+      names.add(namedBindings.name.text);
+    } else if (namedBindings) {
+      namedBindings.elements.forEach((element) => names.add(element.name.text));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Importierte Bezeichner, die in den übergebenen Knoten verwendet werden
+ */
+function getUsedImports(roots: ts.Node[], imports: Set<string>): string[] {
+  const used: string[] = [];
+
+  for (const root of roots) {
+    visitNodes(root, (node) => {
+      if (ts.isIdentifier(node) && imports.has(node.text)) {
+        used.push(node.text);
+      }
+    });
+  }
+
+  return unique(used);
+}
+
+/**
+ * Hash über die Tokens eines Quelltexts, unabhängig von Leerraum,
+ * Zeilenumbrüchen und Kommentaren
+ */
+function getCodeFingerprint(code: string): string {
+  const scanner = ts.createScanner(ts.ScriptTarget.Latest, true);
+  const tokens: string[] = [];
+  scanner.setText(code);
+
+  while (scanner.scan() !== ts.SyntaxKind.EndOfFileToken) {
+    tokens.push(scanner.getTokenText());
+  }
+
+  return crypto
+    .createHash("sha1")
+    .update(tokens.join(" "))
+    .digest("hex")
+    .substring(0, 12);
+}
+
+/**
+ * Erkennt test()- und test.describe()-Blöcke
+ *
+ * Aufrufe ohne Titel oder ohne Callback (z.B. test.skip() als Annotation,
+ * test.step, Hooks) sind keine Blöcke.
+ */
+function getTestBlockCall(node: ts.Node): TestBlockCall | null {
+  if (!ts.isCallExpression(node)) return null;
+
+  const [root, ...path] = getCalleePath(node.expression);
+  const title = getStringValue(node.arguments[0]);
+  const callback = node.arguments[node.arguments.length - 1];
+  if (
+    title === null ||
+    !callback ||
+    !(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))
+  ) {
+    return null;
+  }
+
+  const details = node.arguments.find(ts.isObjectLiteralExpression);
+  const isTestRoot = root === "test" || root === "it";
+
+  if (root === "describe" && path.every(isDescribeModifier)) {
+    return { kind: "describe", title, modifiers: path, details, callback };
+  }
+  if (
+    isTestRoot &&
+    path[0] === "describe" &&
+    path.slice(1).every(isDescribeModifier)
+  ) {
+    return {
+      kind: "describe",
+      title,
+      modifiers: path.slice(1),
+      details,
+      callback,
+    };
+  }
+  if (isTestRoot && path.every((modifier) => TEST_MODIFIERS.has(modifier))) {
+    return { kind: "test", title, modifiers: path, details, callback };
+  }
+  return null;
+}
+
+/**
+ * Tags aus dem Titel (@smoke) und aus den Details ({ tag: "@smoke" })
+ */
+function getBlockTags(block: TestBlockCall): string[] {
+  const tags: string[] = block.title.match(/@[\w-]+/g) || [];
+
+  const tagProperty = block.details?.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) &&
+      getPropertyName(property.name) === "tag",
+  );
+  if (tagProperty) {
+    const initializer = tagProperty.initializer;
+    const values = ts.isArrayLiteralExpression(initializer)
+      ? initializer.elements.map(getStringValue)
+      : [getStringValue(initializer)];
+    values.forEach((value) => value && tags.push(value));
+  }
+
+  return unique(tags);
+}
+
+/**
+ * Annotationen aus Modifikatoren (test.skip("...", fn)) und aus den Details
+ * ({ annotation: { type, description } })
+ */
+function getBlockAnnotations(
+  sourceFile: ts.SourceFile,
+  block: TestBlockCall,
+): TestAnnotation[] {
+  const annotations: TestAnnotation[] = block.modifiers
+    .filter(
+      (modifier) => ANNOTATION_MODIFIERS.has(modifier) || modifier === "only",
+    )
+    .map((type) => ({ type }));
+
+  const annotationProperty = block.details?.properties.find(
+    (property): property is ts.PropertyAssignment =>
+      ts.isPropertyAssignment(property) &&
+      getPropertyName(property.name) === "annotation",
+  );
+  if (annotationProperty) {
+    const initializer = annotationProperty.initializer;
+    const entries = ts.isArrayLiteralExpression(initializer)
+      ? initializer.elements
+      : [initializer];
+
+    for (const entry of entries) {
+      const annotation = getAnnotationObject(sourceFile, entry);
+      if (annotation) annotations.push(annotation);
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * Liest eine Annotation aus einem Objekt wie { type: "owner", description: "team-a" }
+ */
+function getAnnotationObject(
+  sourceFile: ts.SourceFile,
+  node: ts.Node | undefined,
+): TestAnnotation | null {
+  if (!node || !ts.isObjectLiteralExpression(node)) return null;
+
+  const values: Record<string, string> = {};
+  for (const property of node.properties) {
+    if (!ts.isPropertyAssignment(property)) continue;
+    const name = getPropertyName(property.name);
+    if (name) {
+      values[name] =
+        getStringValue(property.initializer) ??
+        getNodeText(sourceFile, property.initializer);
+    }
+  }
+
+  if (!values.type) return null;
+  return {
+    type: values.type,
+    ...(values.description && { description: values.description }),
+  };
+}
+
+/**
+ * Erkennt Annotationen im Rumpf wie test.skip(), test.slow(),
+ * test.fixme(browserName === "webkit", "Grund") oder
+ * test.info().annotations.push({ type: "owner", description: "team-a" })
+ */
+function getAnnotationCall(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+): TestAnnotation | null {
+  if (!ts.isCallExpression(node) || getTestBlockCall(node)) return null;
+
+  if (
+    ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === "push" &&
+    ts.isPropertyAccessExpression(node.expression.expression) &&
+    node.expression.expression.name.text === "annotations"
+  ) {
+    return getAnnotationObject(sourceFile, node.arguments[0]);
+  }
+
+  const [root, type, ...rest] = getCalleePath(node.expression);
+  if (
+    (root !== "test" && root !== "it") ||
+    !ANNOTATION_MODIFIERS.has(type) ||
+    rest.length > 0
+  ) {
+    return null;
+  }
+
+  const annotation: TestAnnotation = { type };
+  const [first, second] = node.arguments;
+  const description = getStringValue(first) ?? getStringValue(second);
+  if (first && getStringValue(first) === null) {
+    annotation.condition = getNodeText(sourceFile, first);
+  }
+  if (description !== null) {
+    annotation.description = description;
+  }
+  return annotation;
+}
+
+/**
+ * Prüft, ob ein Knoten ein Aufruf von expect, expect.soft oder expect.poll ist
+ */
+function isExpectCall(node: ts.Node): node is ts.CallExpression {
+  if (!ts.isCallExpression(node)) return false;
+  const [root, modifier] = getCalleePath(node.expression);
+  return (
+    root === "expect" &&
+    (modifier === undefined || modifier === "soft" || modifier === "poll")
+  );
+}
+
+/**
+ * Gibt den Methodennamen zurück, wenn node als call.name(...) aufgerufen wird
+ */
+function getChainedCall(
+  node: ts.Expression,
+): { call: ts.CallExpression; name: string } | null {
+  const access = node.parent;
+  if (
+    ts.isPropertyAccessExpression(access) &&
+    access.expression === node &&
+    ts.isCallExpression(access.parent) &&
+    access.parent.expression === access
+  ) {
+    return { call: access.parent, name: access.name.text };
+  }
+  return null;
+}
+
+/**
+ * Läuft über Filter wie .first() bis zum Ende der Locator-Kette
+ *
+ * @returns Der letzte Ausdruck der Kette oder null, wenn auf den Locator
+ *          noch weitere Locator-Methoden folgen
+ */
+function getOutermostLocatorCall(
+  call: ts.CallExpression,
+): ts.CallExpression | null {
+  let current = call;
+  let chained = getChainedCall(current);
+
+  while (chained) {
+    if (chained.name in LOCATOR_METHODS) return null;
+    if (!LOCATOR_FILTERS.has(chained.name)) break;
+    current = chained.call;
+    chained = getChainedCall(current);
+  }
+
+  return current;
+}
+
+/**
+ * Gibt die Aktion zurück, die direkt auf dem Locator ausgeführt wird
+ */
+function getActionName(locator: ts.CallExpression): string | null {
+  const chained = getChainedCall(locator);
+  return chained && LOCATOR_ACTIONS.has(chained.name) ? chained.name : null;
+}
+
+/**
+ * Sammelt die Locator-Schritte einer Kette vom Anfang bis zu call
+ */
+function getLocatorSteps(call: ts.CallExpression): LocatorStep[] {
+  const steps: LocatorStep[] = [];
+  let current: ts.Expression = call;
+
+  while (
+    ts.isCallExpression(current) &&
+    ts.isPropertyAccessExpression(current.expression)
+  ) {
+    const name = current.expression.name.text;
+    if (name in LOCATOR_METHODS) {
+      steps.unshift(getLocatorStep(name, current));
+    } else if (!LOCATOR_FILTERS.has(name)) {
+      break;
+    }
+    current = current.expression.expression;
+  }
+
+  return steps;
+}
+
+function getLocatorStep(name: string, call: ts.CallExpression): LocatorStep {
+  const [argument, options] = call.arguments;
+  let value = getStringValue(argument) ?? argument?.getText() ?? "";
+
+  // getByRole("button", { name: "Speichern" }) -> button[name="Speichern"]
+  if (
+    name === "getByRole" &&
+    options &&
+    ts.isObjectLiteralExpression(options)
+  ) {
+    const nameProperty = options.properties.find(
+      (property): property is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(property) &&
+        getPropertyName(property.name) === "name",
+    );
+    if (nameProperty) {
+      const accessibleName =
+        getStringValue(nameProperty.initializer) ??
+        nameProperty.initializer.getText();
+      value = `${value}[name="${accessibleName}"]`;
+    }
+  }
+
+  return { type: refineSelectorType(LOCATOR_METHODS[name], value), value };
+}
+
+/**
+ * Erkennt XPath- und Text-Selektoren in Selektor-Strings
+ */
+function refineSelectorType(type: string, value: string): string {
+  if (type !== "css") return type;
+  if (/^(\(*\/\/|xpath=)/.test(value)) return "xpath";
+  if (value.startsWith("text=")) return "text";
+  return type;
+}
+
+/**
+ * Setzt die Verwendung eines Locators, sofern noch keine bekannt ist
+ */
+function markUsage(selector: TestSelector | undefined, usage: string): void {
+  if (selector && selector.usage === "locate") {
+    selector.usage = usage;
+  }
+}
+
+export class TestAnalyzer {
+  private basePath: string;
+  private discovery: TestDiscovery;
+  private taxonomy: FunctionalAreaTaxonomy;
+  private sourceCache: { content: string; sourceFile: ts.SourceFile } | null =
+    null;
+
+  /**
+   * Konstruktor
+   *
+   * @param basePath - Basisverzeichnis; Dateipfade in den Ergebnissen sind relativ dazu
+   * @param discovery - Testerkennung (Standard: Projekt unter basePath)
+   * @param taxonomy - Taxonomie für die Funktionsbereiche
+   */
+  constructor(
+    basePath: string = process.cwd(),
+    discovery: TestDiscovery = new TestDiscovery(basePath),
+    taxonomy: FunctionalAreaTaxonomy = DEFAULT_TAXONOMY,
+  ) {
+    this.basePath = basePath;
+    this.discovery = discovery;
+    this.taxonomy = taxonomy;
+  }
+
+  /**
+   * Findet alle Playwright-Test-Dateien über die gemeinsame Testerkennung
+   *
+   * @param pattern - Optionales Muster anstelle der konfigurierten Include-Muster
+   * @returns Absolute Pfade der Testdateien
+   */
+  findTestFiles(pattern?: string): string[] {
+    try {
+      return this.discovery.findTestFiles(pattern ? [pattern] : undefined);
     } catch (error) {
       console.error(
         `Fehler beim Suchen von Testdateien: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
@@ -179,10 +773,11 @@ export class TestAnalyzer {
 
   /**
    * Extrahiert Metadaten aus einer einzelnen Testdatei
+   *
+   * Liefert einen Eintrag pro Testfall (test()-Block) mit describe-Pfad,
+   * Tags, Annotationen sowie eigenen Selektoren, Assertions und Komplexität.
    */
-  analyzeTestFile(filePath: string): TestMetadata {
-    console.log(`Analysiere Testdatei: ${filePath}`);
-
+  analyzeTestFile(filePath: string): TestMetadata[] {
     try {
       const absolutePath = path.isAbsolute(filePath)
         ? filePath
@@ -193,7 +788,6 @@ export class TestAnalyzer {
         throw new Error(`Datei existiert nicht: ${absolutePath}`);
       }
 
-      console.log(`Lese Datei: ${absolutePath}`);
       let fileContent: string;
       try {
         fileContent = fs.readFileSync(absolutePath, "utf-8");
@@ -216,141 +810,198 @@ export class TestAnalyzer {
         } as fs.Stats;
       }
 
-      // Extrahiere den Test-Namen aus dem Dateinamen
-      const fileName = path.basename(absolutePath);
-      const testName = fileName.replace(/\.(spec|test)\.(ts|js)$/, "");
-
-      // Bestimme den Test-Typ anhand von Dateiinhalt/Pfad
-      const testType = this.determineTestType(absolutePath, fileContent);
-
-      // Initialisiere leere Metadaten-Struktur
-      const metadata: TestMetadata = {
-        file: path.relative(this.basePath, absolutePath),
-        path: absolutePath,
-        description: "Keine Beschreibung",
-        title: testName, // Verwende den Dateinamen als Standardtitel
-        name: testName, // Name für die Frontend-Anzeige
-        testType: testType,
-        selectors: [],
-        assertions: [],
-        dependencies: [],
-        timeouts: [],
-        screenshots: false,
-        complexity: 0,
-        lineCount: 0,
-        updatedAt: new Date().toISOString(),
-        functionalAreas: this.extractFunctionalAreas(fileContent),
-        coverage: {
-          area: [],
-          type: [],
-        },
-      };
+      const file = path.relative(this.basePath, absolutePath);
+      const sourceFile = this.getSourceFile(fileContent);
 
-      // Fülle die Metadaten mit tatsächlichen Daten, mit Fehlerbehandlung
+      // Angaben, die für alle Testfälle der Datei gelten
+      let description = "";
       try {
-        metadata.description = this.extractDescription(fileContent);
+        description = this.extractDescription(fileContent);
       } catch (error) {
         console.error(
           `Fehler beim Extrahieren der Beschreibung: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
         );
       }
 
+      let dependencies: string[] = [];
       try {
-        const extractedTitle = this.extractTestTitle(fileContent);
-        if (extractedTitle && extractedTitle.trim() !== "") {
-          metadata.title = extractedTitle;
-          metadata.name = extractedTitle; // Name mit Titel synchronisieren
-        }
-      } catch (error) {
-        console.error(
-          `Fehler beim Extrahieren des Titels: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-      }
-
-      try {
-        metadata.selectors = this.extractSelectors(fileContent);
+        dependencies = this.extractDependencies(fileContent);
       } catch (error) {
         console.error(
-          `Fehler beim Extrahieren der Selektoren: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+          `Fehler beim Extrahieren der Abhängigkeiten: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
         );
       }
 
-      try {
-        metadata.assertions = this.extractAssertions(fileContent);
-      } catch (error) {
-        console.error(
-          `Fehler beim Extrahieren der Assertions: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
+      const relativeImports = getRelativeImports(sourceFile);
+      const testCases = this.collectTestCases(sourceFile);
+      if (testCases.length === 0) {
+        console.log(`Keine Testfälle gefunden in ${file}`);
       }
 
-      try {
-        metadata.dependencies = this.extractDependencies(fileContent);
-      } catch (error) {
-        console.error(
-          `Fehler beim Extrahieren der Abhängigkeiten: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-      }
+      const results: TestMetadata[] = [];
+      for (const testCase of testCases) {
+        try {
+          const name = [...testCase.describePath, testCase.title].join(" › ");
+          const { line, column } = getPosition(sourceFile, testCase.node);
+          const endLine =
+            sourceFile.getLineAndCharacterOfPosition(testCase.node.getEnd())
+              .line + 1;
+
+          // Quelltext des Testfalls samt Titeln für die schlüsselwortbasierte Einordnung
+          const testContent = `${name}\n${testCase.node.getText(sourceFile)}`;
+          // Callback des Testfalls und seiner Hooks für besuchte URLs und Page Objects
+          const roots = [
+            ...testCase.setupHooks.map((hook) => hook.callback),
+            testCase.callback,
+          ];
+          const visitedUrls = getVisitedUrls(roots);
+          const pageObjects = getUsedImports(roots, relativeImports);
+          const functionalAreas = classifyTest(
+            {
+              file,
+              title: testCase.title,
+              describePath: testCase.describePath,
+              tags: testCase.tags,
+              pageObjects,
+              visitedUrls,
+            },
+            this.taxonomy,
+          );
 
-      try {
-        metadata.timeouts = this.extractTimeouts(fileContent);
-      } catch (error) {
-        console.error(
-          `Fehler beim Extrahieren der Timeouts: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
+          results.push({
+            id: [file, name].join(" › "),
+            caseId: getTestCaseId({
+              file,
+              describePath: testCase.describePath,
+              title: testCase.title,
+            }),
+            file,
+            path: absolutePath,
+            description,
+            title: testCase.title,
+            describePath: testCase.describePath,
+            name,
+            tags: testCase.tags,
+            annotations: testCase.annotations,
+            setupBlocks: testCase.setupHooks.map((hook) => hook.block),
+            visitedUrls,
+            pageObjects,
+            line,
+            column,
+            testType: this.determineTestType(absolutePath, testContent),
+            selectors: this.extractSelectors(fileContent, testCase.callback),
+            assertions: this.extractAssertions(fileContent, testCase.callback),
+            dependencies,
+            timeouts: this.extractTimeouts(fileContent, testCase.callback),
+            screenshots: testContent.includes("screenshot"),
+            complexity: this.calculateComplexity(
+              fileContent,
+              testCase.callback,
+            ),
+            lineCount: endLine - line + 1,
+            updatedAt: stats.mtime.toISOString(),
+            functionalAreas,
+            coverage: {
+              area: functionalAreas,
+              type: this.determineCoverageTypes(testContent, file),
+            },
+          });
+        } catch (error) {
+          console.error(
+            `Fehler bei der Analyse von Testfall "${testCase.title}" in ${file}: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+          );
+        }
       }
 
-      try {
-        metadata.screenshots = fileContent.includes("screenshot");
-      } catch (error) {
-        console.error(
-          `Fehler beim Prüfen auf Screenshots: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-      }
+      return results;
+    } catch (error) {
+      console.error(
+        `Fehler bei der Analyse von ${filePath}: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+      );
+      throw error;
+    }
+  }
 
-      try {
-        metadata.complexity = this.calculateComplexity(fileContent);
-      } catch (error) {
-        console.error(
-          `Fehler beim Berechnen der Komplexität: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
+  /**
+   * Sammelt alle Testfälle mit ihrem describe-Pfad
+   *
+   * Tags und Annotationen von describe-Blöcken (Modifikatoren wie
+   * test.describe.skip, Details { tag, annotation } und Aufrufe wie
+   * test.slow() direkt im describe-Block) gelten für alle enthaltenen Tests,
+   * ebenso die beforeEach-/beforeAll-Hooks der Datei und der describe-Blöcke.
+   */
+  private collectTestCases(sourceFile: ts.SourceFile): CollectedTestCase[] {
+    const testCases: CollectedTestCase[] = [];
+
+    const walk = (
+      node: ts.Node,
+      scope: Pick<
+        CollectedTestCase,
+        "describePath" | "tags" | "annotations" | "setupHooks"
+      >,
+    ): void => {
+      const block = getTestBlockCall(node);
+      if (!block) {
+        ts.forEachChild(node, (child) => walk(child, scope));
+        return;
       }
 
-      try {
-        metadata.lineCount = fileContent.split("\n").length;
-      } catch (error) {
-        console.error(
-          `Fehler beim Zählen der Zeilen: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-      }
+      const tags = unique([...scope.tags, ...getBlockTags(block)]);
+      const annotations = [
+        ...scope.annotations,
+        ...getBlockAnnotations(sourceFile, block),
+      ];
 
-      try {
-        metadata.updatedAt = stats.mtime.toISOString();
-      } catch (error) {
-        console.error(
-          `Fehler beim Lesen des Änderungsdatums: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-      }
+      if (block.kind === "describe") {
+        // Nur Aufrufe direkt im describe-Block, nicht in enthaltenen Tests
+        const body = block.callback.body;
+        if (ts.isBlock(body)) {
+          for (const statement of body.statements) {
+            const annotation = ts.isExpressionStatement(statement)
+              ? getAnnotationCall(sourceFile, statement.expression)
+              : null;
+            if (annotation) annotations.push(annotation);
+          }
+        }
 
-      try {
-        const coverage = this.determineCoverage(fileContent, metadata.file);
-        metadata.coverage = coverage;
-      } catch (error) {
-        console.error(
-          `Fehler beim Ermitteln der Abdeckung: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-        );
-        metadata.coverage = {
-          area: ["Unbekannt"],
-          type: ["Unbekannt"],
+        const describeScope = {
+          describePath: [...scope.describePath, block.title],
+          tags,
+          annotations,
+          setupHooks: ts.isBlock(body)
+            ? [
+                ...scope.setupHooks,
+                ...getSetupHooks(sourceFile, body.statements),
+              ]
+            : scope.setupHooks,
         };
+        ts.forEachChild(body, (child) => walk(child, describeScope));
+        return;
       }
 
-      return metadata;
-    } catch (error) {
-      console.error(
-        `Fehler bei der Analyse von ${filePath}: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
-      );
-      throw error;
-    }
+      visitNodes(block.callback.body, (child) => {
+        const annotation = getAnnotationCall(sourceFile, child);
+        if (annotation) annotations.push(annotation);
+      });
+
+      testCases.push({
+        title: block.title,
+        describePath: scope.describePath,
+        tags,
+        annotations,
+        setupHooks: scope.setupHooks,
+        node: node as ts.CallExpression,
+        callback: block.callback,
+      });
+    };
+
+    walk(sourceFile, {
+      describePath: [],
+      tags: [],
+      annotations: [],
+      setupHooks: getSetupHooks(sourceFile, sourceFile.statements),
+    });
+    return testCases;
   }
 
   /**
@@ -370,25 +1021,44 @@ export class TestAnalyzer {
         .trim();
     }
 
-    // Alternativ: Suche nach test.describe mit Beschreibung
-    const describeRegex = /test\.describe\(['"](.*?)['"],/;
-    const describeMatch = content.match(describeRegex);
-    if (describeMatch && describeMatch[1]) {
-      return describeMatch[1];
-    }
-
-    return "";
+    // Alternativ: Titel des ersten describe-Blocks
+    const describeBlock = this.extractTestBlocks(content).find(
+      (block) => block.kind === "describe",
+    );
+    return describeBlock ? describeBlock.title : "";
   }
 
   /**
    * Extrahiert den Titel aus einer Testdatei
+   * (Titel des ersten test.describe- oder test-Blocks)
    */
   extractTestTitle(content: string): string {
-    // Suche nach dem Test-Titel (normalerweise im ersten test.describe oder test)
-    const titleMatch = content.match(
-      /(?:test|describe)\s*\([\s\n]*['"](.+?)['"]/m,
-    );
-    return titleMatch ? titleMatch[1] : "";
+    const [firstBlock] = this.extractTestBlocks(content);
+    return firstBlock ? firstBlock.title : "";
+  }
+
+  /**
+   * Extrahiert alle test()- und test.describe()-Blöcke mit Titel
+   *
+   * Aufrufe ohne Titel oder ohne Callback (z.B. test.skip() als Annotation,
+   * test.step, Hooks) sind keine Blöcke.
+   */
+  extractTestBlocks(content: string): TestBlock[] {
+    const sourceFile = this.getSourceFile(content);
+    const blocks: TestBlock[] = [];
+
+    visitNodes(sourceFile, (node) => {
+      const block = getTestBlockCall(node);
+      if (block) {
+        blocks.push({
+          kind: block.kind,
+          title: block.title,
+          ...getPosition(sourceFile, node),
+        });
+      }
+    });
+
+    return blocks;
   }
 
   /**
@@ -422,157 +1092,143 @@ export class TestAnalyzer {
   }
 
   /**
-   * Extrahiert die funktionalen Bereiche aus dem Testinhalt
+   * Extrahiert die Selektoren aus einer Testdatei (oder nur aus root,
+   * z.B. dem Callback eines Testfalls)
+   *
+   * Eine Locator-Kette wie page.getByRole(...).locator(...).first() zählt als
+   * ein Selektor; die Werte der einzelnen Schritte werden mit " >> " verbunden.
+   * usage ist die Aktion auf dem Locator (auch über eine Variable), "assert"
+   * innerhalb von expect() oder "locate", wenn keine Aktion gefunden wurde.
    */
-  extractFunctionalAreas(content: string): string[] {
-    const areas: string[] = [];
-
-    if (content.includes("navigation") || content.includes("menu")) {
-      areas.push("Navigation");
-    }
-    if (
-      content.includes("login") ||
-      content.includes("auth") ||
-      content.includes("authentication")
-    ) {
-      areas.push("Authentication");
-    }
-    if (
-      content.includes("form") ||
-      content.includes("input") ||
-      content.includes("submit")
-    ) {
-      areas.push("Formulare");
-    }
-    if (content.includes("dashboard") || content.includes("overview")) {
-      areas.push("Dashboard");
-    }
-    if (
-      content.includes("profile") ||
-      content.includes("account") ||
-      content.includes("user")
-    ) {
-      areas.push("Benutzerprofil");
-    }
-    if (content.includes("admin") || content.includes("settings")) {
-      areas.push("Administration");
-    }
-    if (content.includes("search") || content.includes("filter")) {
-      areas.push("Suche");
-    }
-    if (content.includes("report") || content.includes("analytics")) {
-      areas.push("Berichte");
-    }
-    if (content.includes("notification") || content.includes("alert")) {
-      areas.push("Benachrichtigungen");
-    }
-
-    // Fallback
-    if (areas.length === 0) {
-      areas.push("Allgemein");
-    }
-
-    return areas;
-  }
-
-  /**
-   * Extrahiert die Selektoren aus einer Testdatei
-   */
-  extractSelectors(content: string): TestSelector[] {
-    // Extrahiere alle CSS-Selektoren aus dem Test
-    const selectorMatches =
-      content.match(
-        /(\.locator\s*\(|page\.locator\s*\(|getByText\s*\(|getByRole\s*\(|getByTestId\s*\(|\.click\(\s*['"]).+?['"]/g,
-      ) || [];
-
-    // Debug-Info
-    console.log(`Gefundene Selektormatches: ${selectorMatches.length}`);
-
+  extractSelectors(content: string, root?: ts.Node): TestSelector[] {
+    const sourceFile = this.getSourceFile(content);
     const selectors: TestSelector[] = [];
-    let lineCounter = 0;
+    const locatorVariables = new Map<string, TestSelector>();
+
+    visitNodes(root ?? sourceFile, (node) => {
+      if (!ts.isCallExpression(node)) return;
+
+      const name = getCalledName(node);
+      if (!name) return;
+
+      // Locator-Kette, die nicht selbst Teil einer längeren Kette ist
+      if (name in LOCATOR_METHODS) {
+        const outermost = getOutermostLocatorCall(node);
+        if (!outermost) return;
+
+        const steps = getLocatorSteps(node);
+        const lastStep = steps[steps.length - 1];
+        const selector: TestSelector = {
+          type: lastStep.type,
+          value: steps.map((step) => step.value).join(" >> "),
+          usage: "locate",
+          ...getPosition(sourceFile, node),
+        };
 
-    for (const match of selectorMatches) {
-      try {
-        lineCounter++;
-        const selectorText = match
-          .replace(
-            /(\.locator\s*\(|page\.locator\s*\(|getByText\s*\(|getByRole\s*\(|getByTestId\s*\(|\.click\(\s*['"])/g,
-            "",
-          )
-          .replace(/['"]/g, "");
-
-        // Bestimme den Typ des Selektors
-        let type = "css";
-        let usage = "locate";
-
-        if (match.includes("getByText")) type = "text";
-        if (match.includes("getByRole")) type = "role";
-        if (match.includes("getByTestId")) type = "testId";
-        if (match.includes(".click")) usage = "click";
-        if (match.includes(".fill")) usage = "fill";
-
-        // Sicher prüfen, ob es sich um einen XPath-Selektor handelt
-        if (
-          selectorText &&
-          typeof selectorText === "string" &&
-          selectorText.startsWith("//")
+        const parent = outermost.parent;
+        const action = getActionName(outermost);
+        if (action) {
+          selector.usage = action;
+        } else if (isExpectCall(parent) && parent.arguments[0] === outermost) {
+          selector.usage = "assert";
+        } else if (
+          ts.isVariableDeclaration(parent) &&
+          ts.isIdentifier(parent.name)
         ) {
-          type = "xpath";
+          locatorVariables.set(parent.name.text, selector);
         }
 
-        // Sicherstellen, dass der Selektor nicht undefined ist
-        const finalSelector: TestSelector = {
-          type: type,
-          value: selectorText || "",
-          usage: usage,
-          line: lineCounter,
-        };
+        selectors.push(selector);
+        return;
+      }
 
-        selectors.push(finalSelector);
-      } catch (error) {
-        console.error("Fehler bei der Verarbeitung eines Selektors:", error);
-        // Füge einen Dummy-Selektor hinzu, um Fehler im Frontend zu vermeiden
+      if (!ts.isPropertyAccessExpression(node.expression)) {
+        // expect(locatorVariable)
+        const [argument] = node.arguments;
+        if (isExpectCall(node) && argument && ts.isIdentifier(argument)) {
+          markUsage(locatorVariables.get(argument.text), "assert");
+        }
+        return;
+      }
+
+      if (!LOCATOR_ACTIONS.has(name)) return;
+      const receiver = node.expression.expression;
+      if (!ts.isIdentifier(receiver)) return;
+
+      // Aktion auf einem zuvor in einer Variable abgelegten Locator
+      const variable = locatorVariables.get(receiver.text);
+      if (variable) {
+        markUsage(variable, name);
+        return;
+      }
+
+      // Ältere API mit Selektor-String, z.B. page.click("#login")
+      const value = getStringValue(node.arguments[0]);
+      if (value !== null && /page|frame/i.test(receiver.text)) {
         selectors.push({
-          type: "error",
-          value: "Verarbeitungsfehler",
-          usage: "error",
-          line: lineCounter,
+          type: refineSelectorType("css", value),
+          value,
+          usage: name,
+          ...getPosition(sourceFile, node),
         });
       }
-    }
+    });
 
     return selectors;
   }
 
   /**
-   * Extrahiert alle Assertions aus dem Test
+   * Extrahiert alle Assertions (expect(...).toXxx und assert*-Hilfsfunktionen)
    */
-  private extractAssertions(content: string): TestAssertion[] {
+  private extractAssertions(content: string, root?: ts.Node): TestAssertion[] {
+    const sourceFile = this.getSourceFile(content);
     const assertions: TestAssertion[] = [];
-    const lines = content.split("\n");
-
-    // Typische Assertions
-    const assertionPatterns = [
-      { regex: /expect\((.*?)\)\.toBeVisible/, type: "visibility" },
-      { regex: /expect\((.*?)\)\.toHaveText\(['"](.*?)['"]\)/, type: "text" },
-      { regex: /expect\((.*?)\)\.toHaveValue\(['"](.*?)['"]\)/, type: "value" },
-      { regex: /expect\((.*?)\)\.toBeEnabled/, type: "enabled" },
-      { regex: /expect\((.*?)\)\.toBeDisabled/, type: "disabled" },
-      { regex: /expect\((.*?)\)\.toHaveCount\((\d+)\)/, type: "count" },
-      { regex: /assertPageContent/, type: "custom" },
-    ];
-
-    // Durchsuche jede Zeile nach Assertions
-    lines.forEach((line, index) => {
-      assertionPatterns.forEach((pattern) => {
-        const match = line.match(pattern.regex);
-        if (match) {
-          assertions.push({
-            type: pattern.type,
-            condition: match[0],
-            line: index + 1,
-          });
-        }
+
+    visitNodes(root ?? sourceFile, (node) => {
+      if (!ts.isCallExpression(node)) return;
+
+      // Eigene Hilfsfunktionen wie assertPageContent(...)
+      if (
+        ts.isIdentifier(node.expression) &&
+        /^assert[A-Z]/.test(node.expression.text)
+      ) {
+        assertions.push({
+          type: "custom",
+          matcher: node.expression.text,
+          condition: getNodeText(sourceFile, node),
+          negated: false,
+          ...getPosition(sourceFile, node),
+        });
+        return;
+      }
+
+      if (
+        !ts.isPropertyAccessExpression(node.expression) ||
+        !node.expression.name.text.startsWith("to")
+      ) {
+        return;
+      }
+
+      // Modifikatoren zwischen expect(...) und dem Matcher überspringen
+      let receiver: ts.Expression = node.expression.expression;
+      let negated = false;
+      while (
+        ts.isPropertyAccessExpression(receiver) &&
+        EXPECT_MODIFIERS.has(receiver.name.text)
+      ) {
+        negated = negated || receiver.name.text === "not";
+        receiver = receiver.expression;
+      }
+
+      if (!isExpectCall(receiver)) return;
+
+      const matcher = node.expression.name.text;
+      assertions.push({
+        type: ASSERTION_TYPES[matcher] || matcher,
+        matcher,
+        condition: getNodeText(sourceFile, node),
+        negated,
+        ...getPosition(sourceFile, receiver),
       });
     });
 
@@ -580,167 +1236,177 @@ export class TestAnalyzer {
   }
 
   /**
-   * Extrahiert alle Abhängigkeiten und Imports
+   * Extrahiert alle Abhängigkeiten (import, require und dynamische Imports)
    */
   private extractDependencies(content: string): string[] {
+    const sourceFile = this.getSourceFile(content);
     const dependencies: string[] = [];
-    const lines = content.split("\n");
-
-    // Import-Anweisungen finden
-    const importRegex =
-      /import\s+(?:{[^}]+}|\*\s+as\s+\w+|\w+)\s+from\s+['"]([^'"]+)['"]/g;
-    let importMatch;
-    while ((importMatch = importRegex.exec(content)) !== null) {
-      dependencies.push(importMatch[1]);
-    }
 
-    // Require-Aufrufe finden
-    const requireRegex =
-      /(?:const|let|var)\s+(?:{[^}]+}|\w+)\s*=\s*require\(['"]([^'"]+)['"]\)/g;
-    let requireMatch;
-    while ((requireMatch = requireRegex.exec(content)) !== null) {
-      dependencies.push(requireMatch[1]);
-    }
+    visitNodes(sourceFile, (node) => {
+      if (
+        ts.isImportDeclaration(node) &&
+        ts.isStringLiteral(node.moduleSpecifier)
+      ) {
+        dependencies.push(node.moduleSpecifier.text);
+      } else if (
+        ts.isCallExpression(node) &&
+        (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+          (ts.isIdentifier(node.expression) &&
+            node.expression.text === "require"))
+      ) {
+        const moduleName = getStringValue(node.arguments[0]);
+        if (moduleName !== null) {
+          dependencies.push(moduleName);
+        }
+      }
+    });
 
     return [...new Set(dependencies)]; // Duplikate entfernen
   }
 
   /**
    * Extrahiert Timeout-Werte aus dem Test
+   * (Optionen { timeout: n }, test.setTimeout(n), page.waitForTimeout(n)
+   * und setTimeout(fn, n))
    */
-  private extractTimeouts(content: string): number[] {
+  private extractTimeouts(content: string, root?: ts.Node): number[] {
+    const sourceFile = this.getSourceFile(content);
     const timeouts: number[] = [];
-    const timeoutRegex = /(?:setTimeout|timeout).*?(\d+)/g;
 
-    let match;
-    while ((match = timeoutRegex.exec(content)) !== null) {
-      if (match[1]) {
-        timeouts.push(parseInt(match[1], 10));
+    visitNodes(root ?? sourceFile, (node) => {
+      if (
+        ts.isPropertyAssignment(node) &&
+        getPropertyName(node.name) === "timeout" &&
+        ts.isNumericLiteral(node.initializer)
+      ) {
+        timeouts.push(Number(node.initializer.text));
+      } else if (ts.isCallExpression(node)) {
+        const name = getCalledName(node);
+        if (name === "setTimeout" || name === "waitForTimeout") {
+          const value = node.arguments.find(ts.isNumericLiteral);
+          if (value) {
+            timeouts.push(Number(value.text));
+          }
+        }
       }
-    }
+    });
 
     return timeouts;
   }
 
   /**
-   * Berechnet eine einfache zyklomatische Komplexität des Tests
-   * (Anzahl der Verzweigungen + 1)
+   * Berechnet die zyklomatische Komplexität des Tests aus dem AST
+   * (Anzahl der Verzweigungen + 1). Verzweigungen sind if, ?:, case, Schleifen,
+   * catch sowie die logischen Operatoren &&, || und ??.
    */
-  private calculateComplexity(content: string): number {
-    const lines = content.split("\n");
+  private calculateComplexity(content: string, root?: ts.Node): number {
+    const sourceFile = this.getSourceFile(content);
     let complexity = 1; // Basiswert
 
-    // Zähle Verzweigungen
-    for (const line of lines) {
-      if (
-        line.includes("if (") ||
-        line.includes("else ") ||
-        line.includes("switch(") ||
-        line.includes("case ") ||
-        line.includes(" ? ") ||
-        line.includes("for (") ||
-        line.includes("while (") ||
-        line.includes("catch (")
-      ) {
-        complexity++;
+    visitNodes(root ?? sourceFile, (node) => {
+      switch (node.kind) {
+        case ts.SyntaxKind.IfStatement:
+        case ts.SyntaxKind.ConditionalExpression:
+        case ts.SyntaxKind.CaseClause:
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+        case ts.SyntaxKind.CatchClause:
+          complexity++;
+          break;
+        case ts.SyntaxKind.BinaryExpression: {
+          const operator = (node as ts.BinaryExpression).operatorToken.kind;
+          if (
+            operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+            operator === ts.SyntaxKind.BarBarToken ||
+            operator === ts.SyntaxKind.QuestionQuestionToken
+          ) {
+            complexity++;
+          }
+          break;
+        }
       }
-    }
+    });
 
     return complexity;
   }
 
   /**
-   * Bestimmt die Testabdeckung anhand von Dateiinhalt und Namen
+   * Parst den Dateiinhalt; der zuletzt geparste Inhalt wird wiederverwendet,
+   * da alle Extraktionen einer Datei denselben Syntaxbaum durchlaufen
    */
-  private determineCoverage(
-    content: string,
-    filename: string,
-  ): { area: string[]; type: string[] } {
-    const coverage = {
-      area: [] as string[],
-      type: [] as string[],
-    };
-
-    // Bestimme den Funktionsbereich
-    if (
-      filename.includes("auth") ||
-      content.includes("login") ||
-      content.includes("password")
-    ) {
-      coverage.area.push("Authentifizierung");
-    }
-    if (filename.includes("navigation") || content.includes("navigate")) {
-      coverage.area.push("Navigation");
-    }
-    if (filename.includes("user") || content.includes("user")) {
-      coverage.area.push("Benutzerverwaltung");
-    }
-    if (filename.includes("dashboard") || content.includes("dashboard")) {
-      coverage.area.push("Dashboard");
-    }
-    if (filename.includes("tool") || content.includes("tool")) {
-      coverage.area.push("Tools");
-    }
-    if (
-      filename.includes("ui") ||
-      filename.includes("ux") ||
-      content.includes("visual")
-    ) {
-      coverage.area.push("UI/UX");
+  private getSourceFile(content: string): ts.SourceFile {
+    if (!this.sourceCache || this.sourceCache.content !== content) {
+      this.sourceCache = {
+        content,
+        sourceFile: ts.createSourceFile(
+          "test.ts",
+          content,
+          ts.ScriptTarget.Latest,
+          true,
+          ts.ScriptKind.TS,
+        ),
+      };
     }
+    return this.sourceCache.sourceFile;
+  }
 
-    // Fallback falls keine spezifische Abdeckung gefunden wurde
-    if (coverage.area.length === 0) {
-      coverage.area.push("Allgemein");
-    }
+  /**
+   * Bestimmt die Art der Testabdeckung anhand von Testinhalt und Dateinamen
+   * (die Funktionsbereiche liefert die Taxonomie)
+   */
+  private determineCoverageTypes(content: string, filename: string): string[] {
+    const types: string[] = [];
 
     // Bestimme den Testtyp
     if (content.includes("screenshot") || content.includes("visual")) {
-      coverage.type.push("Visual");
+      types.push("Visual");
     }
     if (
       content.includes("performance") ||
       content.includes("timeout") ||
       content.includes("speed")
     ) {
-      coverage.type.push("Performance");
+      types.push("Performance");
     }
     if (content.includes("integration") || filename.includes("integration")) {
-      coverage.type.push("Integration");
+      types.push("Integration");
     }
     if (
       content.includes("journey") ||
       content.includes("flow") ||
       content.includes("path")
     ) {
-      coverage.type.push("User Journey");
+      types.push("User Journey");
     }
     if (content.includes("expect") || content.includes("assert")) {
-      coverage.type.push("Functional");
+      types.push("Functional");
     }
     if (filename.includes("smoke") || content.includes("smoke")) {
-      coverage.type.push("Smoke");
+      types.push("Smoke");
     }
     if (
       filename.includes("responsive") ||
       content.includes("mobile") ||
       content.includes("viewport")
     ) {
-      coverage.type.push("Responsive");
+      types.push("Responsive");
     }
 
     // Fallback falls kein spezifischer Typ gefunden wurde
-    if (coverage.type.length === 0) {
-      coverage.type.push("Functional"); // Standard: funktionaler Test
+    if (types.length === 0) {
+      types.push("Functional"); // Standard: funktionaler Test
     }
 
-    return coverage;
+    return types;
   }
 
   /**
    * Führt die Analyse für alle gefundenen Testdateien aus
    */
-  analyzeAllTests(pattern: string = "**/*.spec.ts"): TestMetadata[] {
+  analyzeAllTests(pattern?: string): TestMetadata[] {
     const testFiles = this.findTestFiles(pattern);
     const results: TestMetadata[] = [];
 
@@ -748,9 +1414,9 @@ export class TestAnalyzer {
 
     for (const file of testFiles) {
       try {
-        const metadata = this.analyzeTestFile(file);
-        results.push(metadata);
-        console.log(`✅ Analysiert: ${metadata.file}`);
+        const testCases = this.analyzeTestFile(file);
+        results.push(...testCases);
+        console.log(`✅ Analysiert: ${file} (${testCases.length} Testfälle)`);
       } catch (error) {
         console.error(`❌ Fehler bei der Analyse von ${file}:`, error);
       }
@@ -797,9 +1463,9 @@ export class TestAnalyzer {
       }
     }
 
-    // Fülle die Matrix mit Testdateien
+    // Fülle die Matrix mit Testfällen
     for (const result of tests) {
-      const testId = `${result.file}:${result.title}`;
+      const testId = result.id;
       if (!result.coverage) continue;
 
       for (const area of result.coverage.area) {
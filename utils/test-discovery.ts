@@ -0,0 +1,393 @@
+/**
+ * Testerkennung
+ *
+ * Ermittelt die Playwright-Testdateien für TestAnalyzer und TestRunner, damit
+ * beide immer dieselben Tests sehen. Die Einstellungen kommen aus dem
+ * Abschnitt testDiscovery der Dashboard-Konfiguration (dashboard.config.json),
+ * sonst aus testDir, testMatch und testIgnore der playwright.config des
+ * Projekts (inklusive testDir der einzelnen projects). Unterstützt mehrere
+ * Wurzelverzeichnisse sowie Include- und Exclude-Muster (Globs oder reguläre
+ * Ausdrücke wie in Playwright).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { globSync } from "glob";
+import { createComponentLogger } from "./logger";
+
+// Komponenten-spezifischer Logger
+const log = createComponentLogger("TestDiscovery");
+
+// Name der Dashboard-Konfiguration im Dashboard-Verzeichnis
+export const DASHBOARD_CONFIG_FILE = "dashboard.config.json";
+
+// Gesuchte Playwright-Konfigurationen (in dieser Reihenfolge)
+const PLAYWRIGHT_CONFIG_FILES = [
+  "playwright.config.ts",
+  "playwright.config.js",
+  "playwright.config.mts",
+  "playwright.config.mjs",
+  "playwright.config.cts",
+  "playwright.config.cjs",
+];
+
+// Standard von Playwright, wenn die Konfiguration kein testMatch enthält
+const PLAYWRIGHT_DEFAULT_TEST_MATCH = "**/*.@(spec|test).?(c|m)[jt]s?(x)";
+
+// Standard ohne jede Konfiguration (bisheriges Verhalten des Dashboards)
+const DEFAULT_INCLUDE = ["**/*.spec.ts"];
+
+// Verzeichnisse, die nie durchsucht werden
+const ALWAYS_EXCLUDED = [
+  "**/node_modules/**",
+  "**/.git/**",
+  "**/dist/**",
+  "**/build/**",
+];
+
+export type TestFilePattern = string | RegExp;
+
+export interface TestDiscoveryConfig {
+  roots: string[]; // Absolute Wurzelverzeichnisse
+  include: TestFilePattern[];
+  exclude: TestFilePattern[];
+  source: "dashboard-config" | "playwright-config" | "default";
+  configFile?: string; // Fehlt bei source 'default'
+}
+
+// Abschnitt testDiscovery der Dashboard-Konfiguration
+export interface DashboardTestDiscoverySettings {
+  roots?: string[]; // Relativ zur Konfigurationsdatei
+  include?: string[];
+  exclude?: string[];
+}
+
+// Aus einer playwright.config gelesene Einstellungen
+export interface PlaywrightDiscoverySettings {
+  testDirs: string[]; // Relativ zur Konfigurationsdatei ("" = Verzeichnis der Konfiguration)
+  testMatch?: TestFilePattern[];
+  testIgnore?: TestFilePattern[];
+}
+
+/**
+ * Liest testDir, testMatch und testIgnore statisch aus einer playwright.config
+ *
+ * Ausgewertet werden String- und Regex-Literale, Arrays davon sowie
+ * path.join/path.resolve(__dirname, "...") für testDir. Definieren projects
+ * ein eigenes testDir, wird jedes davon zur Wurzel.
+ */
+export function parsePlaywrightConfig(
+  content: string,
+): PlaywrightDiscoverySettings {
+  const sourceFile = ts.createSourceFile(
+    "playwright.config.ts",
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+  );
+  const config = findConfigObject(sourceFile);
+  if (!config) {
+    return { testDirs: [] };
+  }
+
+  const testDir = getPathValue(getProperty(config, "testDir"));
+  const projects = getProperty(config, "projects");
+  const projectDirs =
+    projects && ts.isArrayLiteralExpression(projects)
+      ? projects.elements
+          .filter(ts.isObjectLiteralExpression)
+          .map((project) => getPathValue(getProperty(project, "testDir")))
+      : [];
+  const testDirs =
+    projectDirs.length > 0
+      ? projectDirs.map((projectDir) => projectDir ?? testDir ?? "")
+      : [testDir ?? ""];
+
+  return {
+    testDirs: Array.from(new Set(testDirs)),
+    testMatch: getPatternValues(getProperty(config, "testMatch")),
+    testIgnore: getPatternValues(getProperty(config, "testIgnore")),
+  };
+}
+
+/**
+ * Ermittelt die Einstellungen für die Testerkennung
+ *
+ * @param projectDir - Verzeichnis des Testprojekts (dort wird die playwright.config gesucht)
+ * @param dashboardConfigPath - Pfad der Dashboard-Konfiguration
+ */
+export function loadTestDiscoveryConfig(
+  projectDir: string,
+  dashboardConfigPath: string = path.join(
+    __dirname,
+    "..",
+    DASHBOARD_CONFIG_FILE,
+  ),
+): TestDiscoveryConfig {
+  const settings = readDashboardSettings(dashboardConfigPath);
+  if (settings) {
+    const configDir = path.dirname(dashboardConfigPath);
+    return {
+      roots: (settings.roots || ["."]).map((root) =>
+        path.resolve(configDir, root),
+      ),
+      include: settings.include || DEFAULT_INCLUDE,
+      exclude: settings.exclude || [],
+      source: "dashboard-config",
+      configFile: dashboardConfigPath,
+    };
+  }
+
+  // Die playwright.config liegt im Projekt- oder im übergeordneten Verzeichnis
+  const playwrightConfigPath = [projectDir, path.dirname(projectDir)]
+    .flatMap((dir) =>
+      PLAYWRIGHT_CONFIG_FILES.map((file) => path.join(dir, file)),
+    )
+    .find((file) => fs.existsSync(file));
+  if (playwrightConfigPath) {
+    try {
+      const playwright = parsePlaywrightConfig(
+        fs.readFileSync(playwrightConfigPath, "utf-8"),
+      );
+      const configDir = path.dirname(playwrightConfigPath);
+      return {
+        roots: playwright.testDirs.map((dir) => path.resolve(configDir, dir)),
+        include: playwright.testMatch || [PLAYWRIGHT_DEFAULT_TEST_MATCH],
+        exclude: playwright.testIgnore || [],
+        source: "playwright-config",
+        configFile: playwrightConfigPath,
+      };
+    } catch (error) {
+      log.warn(
+        `Playwright-Konfiguration ${playwrightConfigPath} ist nicht lesbar:`,
+        error,
+      );
+    }
+  }
+
+  return {
+    roots: [path.resolve(projectDir)],
+    include: DEFAULT_INCLUDE,
+    exclude: [],
+    source: "default",
+  };
+}
+
+export class TestDiscovery {
+  private projectDir: string;
+  private dashboardConfigPath?: string;
+
+  /**
+   * Konstruktor
+   *
+   * @param projectDir - Verzeichnis des Testprojekts
+   * @param dashboardConfigPath - Pfad der Dashboard-Konfiguration (Standard: dashboard.config.json des Dashboards)
+   */
+  constructor(
+    projectDir: string = path.join(__dirname, "../../"),
+    dashboardConfigPath?: string,
+  ) {
+    this.projectDir = projectDir;
+    this.dashboardConfigPath = dashboardConfigPath;
+  }
+
+  /**
+   * Aktuelle Einstellungen (werden bei jedem Aufruf neu gelesen)
+   */
+  public getConfig(): TestDiscoveryConfig {
+    return loadTestDiscoveryConfig(this.projectDir, this.dashboardConfigPath);
+  }
+
+  /**
+   * Findet alle Testdateien
+   *
+   * @param include - Optionale Muster, die die konfigurierten Include-Muster ersetzen
+   * @returns Absolute Pfade, sortiert und ohne Duplikate
+   */
+  public findTestFiles(include?: TestFilePattern[]): string[] {
+    const config = this.getConfig();
+    const patterns = include || config.include;
+    const files = new Set<string>();
+
+    for (const root of config.roots) {
+      if (!fs.existsSync(root)) {
+        log.warn(`Testverzeichnis existiert nicht: ${root}`);
+        continue;
+      }
+
+      for (const file of findInRoot(root, patterns, config.exclude)) {
+        files.add(path.resolve(root, file));
+      }
+    }
+
+    log.debug(
+      `${files.size} Testdateien gefunden (${config.source}, ${config.roots.length} Verzeichnisse)`,
+    );
+    return Array.from(files).sort();
+  }
+}
+
+/**
+ * Sucht die passenden Dateien unterhalb einer Wurzel
+ *
+ * @returns Pfade relativ zur Wurzel
+ */
+function findInRoot(
+  root: string,
+  include: TestFilePattern[],
+  exclude: TestFilePattern[],
+): string[] {
+  const options = {
+    cwd: root,
+    nodir: true,
+    dot: true,
+    posix: true,
+    ignore: [...ALWAYS_EXCLUDED, ...exclude.filter(isGlob).map(normalizeGlob)],
+  };
+  const globs = include.filter(isGlob).map(normalizeGlob);
+  const regexes = include.filter(isRegExp);
+  const excludedRegexes = exclude.filter(isRegExp);
+
+  const files = new Set<string>(
+    globs.length > 0 ? globSync(globs, options) : [],
+  );
+  if (regexes.length > 0) {
+    globSync("**/*", options)
+      .filter((file) =>
+        regexes.some((regex) => matchesRegExp(regex, root, file)),
+      )
+      .forEach((file) => files.add(file));
+  }
+
+  return Array.from(files).filter(
+    (file) =>
+      !excludedRegexes.some((regex) => matchesRegExp(regex, root, file)),
+  );
+}
+
+/**
+ * Globs ohne Verzeichnisanteil gelten wie in Playwright in jeder Tiefe
+ */
+function normalizeGlob(pattern: string): string {
+  return pattern.includes("/") ? pattern : `**/${pattern}`;
+}
+
+/**
+ * Reguläre Ausdrücke prüft Playwright gegen den absoluten Pfad
+ */
+function matchesRegExp(regex: RegExp, root: string, file: string): boolean {
+  regex.lastIndex = 0;
+  return regex.test(path.resolve(root, file).split(path.sep).join("/"));
+}
+
+function isGlob(pattern: TestFilePattern): pattern is string {
+  return typeof pattern === "string";
+}
+
+function isRegExp(pattern: TestFilePattern): pattern is RegExp {
+  return pattern instanceof RegExp;
+}
+
+function readDashboardSettings(
+  configPath: string,
+): DashboardTestDiscoverySettings | null {
+  if (!fs.existsSync(configPath)) {
+    return null;
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    return config.testDiscovery || null;
+  } catch (error) {
+    log.warn(`Dashboard-Konfiguration ${configPath} ist nicht lesbar:`, error);
+    return null;
+  }
+}
+
+/**
+ * Sucht das Konfigurationsobjekt: das erste Objekt-Literal mit einer
+ * bekannten Eigenschaft (z.B. in defineConfig({...}) oder module.exports = {...})
+ */
+function findConfigObject(
+  sourceFile: ts.SourceFile,
+): ts.ObjectLiteralExpression | null {
+  let found: ts.ObjectLiteralExpression | null = null;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (
+      ts.isObjectLiteralExpression(node) &&
+      ["testDir", "testMatch", "testIgnore", "projects"].some((name) =>
+        getProperty(node, name),
+      )
+    ) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return found;
+}
+
+function getProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string,
+): ts.Expression | undefined {
+  for (const property of object.properties) {
+    if (
+      ts.isPropertyAssignment(property) &&
+      (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+      property.name.text === name
+    ) {
+      return property.initializer;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Wert eines testDir: String-Literal oder path.join/resolve(__dirname, ...)
+ */
+function getPathValue(node: ts.Expression | undefined): string | undefined {
+  if (!node) return undefined;
+  if (ts.isStringLiteralLike(node)) return node.text;
+
+  if (
+    ts.isCallExpression(node) &&
+    ts.isPropertyAccessExpression(node.expression) &&
+    ["join", "resolve"].includes(node.expression.name.text)
+  ) {
+    const segments = node.arguments.filter(
+      (argument) =>
+        !(ts.isIdentifier(argument) && argument.text === "__dirname"),
+    );
+    if (segments.every(ts.isStringLiteralLike)) {
+      return path.join(...segments.map((segment) => segment.text));
+    }
+  }
+  return undefined;
+}
+
+function getPatternValues(
+  node: ts.Expression | undefined,
+): TestFilePattern[] | undefined {
+  if (!node) return undefined;
+
+  const elements = ts.isArrayLiteralExpression(node) ? node.elements : [node];
+  const patterns: TestFilePattern[] = [];
+  for (const element of elements) {
+    if (ts.isStringLiteralLike(element)) {
+      patterns.push(element.text);
+    } else if (ts.isRegularExpressionLiteral(element)) {
+      const text = element.text;
+      const lastSlash = text.lastIndexOf("/");
+      patterns.push(
+        new RegExp(text.slice(1, lastSlash), text.slice(lastSlash + 1)),
+      );
+    }
+  }
+  return patterns.length > 0 ? patterns : undefined;
+}
+
+export default TestDiscovery;
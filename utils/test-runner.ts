@@ -1,17 +1,54 @@
 import fs from "fs";
 import path from "path";
-import { glob } from "glob";
 import { exec, spawn } from "child_process";
 import logger, { createComponentLogger } from "./logger";
+import { TestDiscovery } from "./test-discovery";
+import {
+  parseRunEventLine,
+  TestRunnerEvent,
+} from "./execution/run-event-reporter";
+import {
+  mergeRunMetadata,
+  readCiMetadata,
+  readLocalGitMetadata,
+} from "./results/run-metadata";
+import { RunGitMetadata } from "../types/playwright-results";
 
 // Komponenten-spezifischer Logger
 const log = createComponentLogger("TestRunner");
 
+// Reporter, der Beginn und Ende der Testfälle auf stdout meldet
+const RUN_EVENT_REPORTER = require.resolve("./execution/run-event-reporter");
+
 /**
  * TestRunner-Klasse zur Ausführung von Playwright-Tests
  */
 export class TestRunner {
   private activeProcess: any = null;
+  private stopRequested = false;
+  private discovery: TestDiscovery;
+
+  /**
+   * Konstruktor
+   *
+   * @param discovery - Testerkennung (Standard: Projekt oberhalb des Dashboards)
+   */
+  constructor(discovery: TestDiscovery = new TestDiscovery()) {
+    this.discovery = discovery;
+  }
+
+  /**
+   * Ermittelt die Git-Metadaten des Projekts, gegen das getestet wird
+   *
+   * Läuft das Dashboard selbst in einem CI-Job, ergänzen dessen
+   * Umgebungsvariablen die Angaben aus dem lokalen Repository.
+   */
+  public getGitMetadata(): RunGitMetadata {
+    return mergeRunMetadata(
+      readLocalGitMetadata(path.join(__dirname, "../../")),
+      readCiMetadata(),
+    );
+  }
 
   /**
    * Listet alle verfügbaren Playwright-Tests auf
@@ -23,14 +60,14 @@ export class TestRunner {
     try {
       const testsDir = path.join(__dirname, "../../");
 
-      // Alle .spec.ts Dateien mit Promise-basierter API finden
-      const files = await glob("**/*.spec.ts", { cwd: testsDir });
+      // Dieselbe Testerkennung wie der TestAnalyzer
+      const files = this.discovery.findTestFiles();
 
       log.info(`${files.length} Testdateien gefunden`);
 
       // Test-Metadaten sammeln
-      const tests = files.map((file: string) => {
-        const filePath = path.join(testsDir, file);
+      const tests = files.map((filePath: string) => {
+        const file = path.relative(testsDir, filePath);
         let description = "";
 
         // Versuche, Beschreibung aus der Datei zu extrahieren
@@ -64,12 +101,14 @@ export class TestRunner {
    * @param testFile Pfad zur Testdatei
    * @param options Konfigurationsoptionen
    * @param logCallback Callback-Funktion für Log-Einträge
+   * @param eventCallback Callback-Funktion für Beginn und Ende einzelner Testfälle
    * @returns Promise mit dem Testergebnis
    */
   public async runTest(
     testFile: string,
     options: any,
     logCallback: (log: string) => void,
+    eventCallback?: (event: TestRunnerEvent) => void,
   ): Promise<any> {
     return new Promise((resolve, reject) => {
       const startTime = Date.now();
@@ -89,7 +128,7 @@ export class TestRunner {
         browser,
         headless ? "--headless" : "--headed",
         "--reporter",
-        "json",
+        `list,json,${RUN_EVENT_REPORTER}`,
       ];
 
       if (options.timeout) {
@@ -107,7 +146,6 @@ export class TestRunner {
         resultDir,
         `${path.basename(testFile)}.json`,
       );
-      args.push("--reporter-output", resultFile);
 
       logCallback(
         `Starte Test: ${path.basename(testFile)} mit Browser ${browser} (${headless ? "headless" : "headed"})`,
@@ -116,15 +154,31 @@ export class TestRunner {
       const npxPath = process.platform === "win32" ? "npx.cmd" : "npx";
       this.activeProcess = spawn(npxPath, ["playwright", ...args], {
         cwd: path.join(__dirname, "../../"),
+        env: { ...process.env, PLAYWRIGHT_JSON_OUTPUT_FILE: resultFile },
       });
 
       let output = "";
       let errorOutput = "";
+      let pendingLine = "";
+
+      // Ereigniszeilen des Reporters herausfiltern, übrige Zeilen loggen
+      const handleLine = (line: string): void => {
+        const event = parseRunEventLine(line);
+        if (event) {
+          eventCallback?.(event);
+        } else if (line.trim()) {
+          logCallback(line);
+        }
+      };
 
       this.activeProcess.stdout.on("data", (data: Buffer) => {
         const dataStr = data.toString();
         output += dataStr;
-        logCallback(dataStr);
+
+        // Zeilen können über mehrere Datenblöcke verteilt sein
+        const lines = (pendingLine + dataStr).split("\n");
+        pendingLine = lines.pop() || "";
+        lines.forEach(handleLine);
       });
 
       this.activeProcess.stderr.on("data", (data: Buffer) => {
@@ -135,6 +189,11 @@ export class TestRunner {
       });
 
       this.activeProcess.on("close", (code: number) => {
+        if (pendingLine) {
+          handleLine(pendingLine);
+          pendingLine = "";
+        }
+
         const duration = Date.now() - startTime;
         logCallback(
           `Test abgeschlossen mit Code: ${code}, Dauer: ${duration}ms`,
@@ -226,6 +285,7 @@ export class TestRunner {
    * @param options Konfigurationsoptionen
    * @param logCallback Callback-Funktion für Log-Einträge
    * @param progressCallback Callback-Funktion für Fortschrittsinformationen
+   * @param eventCallback Callback-Funktion für Beginn und Ende einzelner Testfälle
    * @returns Promise mit den Testergebnissen
    */
   public async runTests(
@@ -233,6 +293,7 @@ export class TestRunner {
     options: any,
     logCallback: (log: string) => void,
     progressCallback: (progress: any) => void,
+    eventCallback?: (event: TestRunnerEvent) => void,
   ): Promise<any> {
     log.info(
       `Starte Ausführung von ${testFiles.length} Tests mit Konfiguration:`,
@@ -245,12 +306,17 @@ export class TestRunner {
       passed: 0,
       failed: 0,
       skipped: 0,
+      aborted: false,
     };
 
     // Fortschritt initial melden
     progressCallback({ ...results });
 
     for (const testFile of testFiles) {
+      if (this.stopRequested) {
+        break;
+      }
+
       try {
         logCallback(`Test starten: ${path.basename(testFile)}`);
 
@@ -264,7 +330,21 @@ export class TestRunner {
             runId: options.runId,
           };
 
-          const result = await this.runTest(testFile, testOptions, logCallback);
+          if (this.stopRequested) {
+            break;
+          }
+
+          const result = await this.runTest(
+            testFile,
+            testOptions,
+            logCallback,
+            eventCallback,
+          );
+
+          // Ein durch stopTests beendeter Test zählt nicht als Ergebnis
+          if (this.stopRequested) {
+            break;
+          }
 
           results.completed++;
 
@@ -296,14 +376,24 @@ export class TestRunner {
       }
     }
 
-    log.info("Testausführung abgeschlossen", results);
+    if (this.stopRequested) {
+      results.aborted = true;
+      log.info("Testausführung abgebrochen", results);
+    } else {
+      log.info("Testausführung abgeschlossen", results);
+    }
     return results;
   }
 
   /**
    * Stoppt alle laufenden Tests
+   *
+   * Bei runTests werden die verbleibenden Tests nicht mehr gestartet;
+   * das Ergebnis enthält die bis dahin abgeschlossenen Tests.
    */
   public async stopTests(): Promise<void> {
+    this.stopRequested = true;
+
     if (this.activeProcess) {
       log.info("Stoppe aktive Testausführung");
 